@@ -0,0 +1,110 @@
+/**
+ * Service Worker
+ *
+ * Shows push notifications sent by the server and handles their actions:
+ * - Complete: marks the task done (PUT /api/tasks/[id])
+ * - Snooze: snoozes the reminder for an hour (POST /api/reminders/[id]/snooze)
+ * Clicking the notification itself focuses an open tab or opens the app.
+ *
+ * Requests go to the same origin, so they carry the user's session cookie.
+ */
+
+const SNOOZE_MINUTES = 60;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const isReminder = Boolean(payload.reminderId && payload.taskId);
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'TickTick Clone', {
+      body: payload.body || '',
+      tag: payload.tag,
+      renotify: Boolean(payload.tag),
+      requireInteraction: isReminder,
+      data: {
+        url: payload.url || '/tasks',
+        reminderId: payload.reminderId,
+        taskId: payload.taskId,
+      },
+      actions: isReminder
+        ? [
+            { action: 'complete', title: 'Complete' },
+            { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES / 60}h` },
+          ]
+        : [],
+    })
+  );
+});
+
+/**
+ * Send a JSON request to the app's API.
+ */
+async function callApi(method, path, body) {
+  const response = await fetch(path, {
+    method,
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${method} ${path} failed with status ${response.status}`);
+  }
+}
+
+/**
+ * Focus an open app tab, or open a new one.
+ */
+async function openApp(url) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const client = windows.find(
+    (candidate) => new URL(candidate.url).origin === self.location.origin
+  );
+
+  if (client) {
+    await client.focus();
+    return;
+  }
+  await self.clients.openWindow(url);
+}
+
+self.addEventListener('notificationclick', (event) => {
+  const { url, reminderId, taskId } = event.notification.data || {};
+  event.notification.close();
+
+  const handle = async () => {
+    try {
+      switch (event.action) {
+        case 'complete':
+          await callApi('PUT', `/api/tasks/${encodeURIComponent(taskId)}`, { status: 'DONE' });
+          return;
+        case 'snooze':
+          await callApi('POST', `/api/reminders/${encodeURIComponent(reminderId)}/snooze`, {
+            minutes: SNOOZE_MINUTES,
+          });
+          return;
+        default:
+          await openApp(url || '/tasks');
+      }
+    } catch {
+      // The session may have expired; let the user finish in the app
+      await openApp(url || '/tasks');
+    }
+  };
+
+  event.waitUntil(handle());
+});
@@ -0,0 +1,14 @@
+/**
+ * VAPID Key Generation Script
+ *
+ * Prints a new VAPID key pair for push notifications. Add the lines to
+ * .env.local; changing the keys later invalidates existing subscriptions.
+ * Run with: npm run push:vapid-keys
+ */
+
+import { generateVapidKeys } from '@/lib/push/vapid';
+
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
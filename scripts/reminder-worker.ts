@@ -0,0 +1,33 @@
+/**
+ * Reminder Worker Script
+ *
+ * Background process that delivers due reminders. Several can run against
+ * the same database; each reminder is delivered by only one of them.
+ * Run with: npm run worker:reminders
+ */
+
+import { config } from 'dotenv';
+
+// Load environment variables from .env.local before the app modules read them
+config({ path: '.env.local' });
+
+async function main() {
+  const { startReminderWorker } = await import('@/lib/reminders/worker');
+  const { db } = await import('@/lib/db');
+
+  const stop = startReminderWorker();
+
+  const shutdown = async () => {
+    await stop();
+    await db.$disconnect();
+    process.exit(0);
+  };
+
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('Reminder worker failed to start:', error);
+  process.exit(1);
+});
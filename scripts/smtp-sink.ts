@@ -0,0 +1,30 @@
+/**
+ * SMTP Sink Script
+ *
+ * Local SMTP server that prints every message it receives instead of
+ * delivering it. Point the app at it with SMTP_HOST=localhost and
+ * SMTP_PORT=1025 (or SMTP_SINK_PORT).
+ * Run with: npm run smtp:sink
+ */
+
+import { parseEmail, startSmtpSink } from '@/lib/email/sink';
+
+const port = Number(process.env.SMTP_SINK_PORT) || 1025;
+
+startSmtpSink({
+  port,
+  host: '0.0.0.0',
+  onMessage: (message) => {
+    const { headers, text } = parseEmail(message.data);
+    console.log(`\n--- ${new Date().toISOString()} ---`);
+    console.log(`From: ${message.from}`);
+    console.log(`To: ${message.to.join(', ')}`);
+    console.log(`Subject: ${headers.subject ?? ''}`);
+    console.log(`\n${text ?? message.data}`);
+  },
+})
+  .then(() => console.log(`SMTP sink listening on port ${port}`))
+  .catch((error) => {
+    console.error('SMTP sink failed to start:', error);
+    process.exit(1);
+  });
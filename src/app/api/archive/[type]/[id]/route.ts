@@ -0,0 +1,55 @@
+/**
+ * Archive Item API Route
+ *
+ * POST /api/archive/[type]/[id] - Archive a task or list
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { archiveItem } from '@/lib/archive/service';
+import { ArchiveItemParamsSchema } from '@/lib/archive/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/archive/[type]/[id]
+ *
+ * Archive a task with its subtasks, or a list with its tasks. The default
+ * list cannot be archived.
+ *
+ * @response { success: true }
+ * @error { error: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = ArchiveItemParamsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const { type, id } = validation.data;
+    const success = await archiveItem(session.user.id, type, id);
+
+    if (!success) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Archive error', error instanceof Error ? error : undefined);
+
+    if (error instanceof Error && error.message.includes('Cannot archive the default list')) {
+      return NextResponse.json({ error: 'Cannot archive the default list' }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Unarchive API Route
+ *
+ * POST /api/archive/[type]/[id]/unarchive - Move an item out of the archive
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { unarchiveItem } from '@/lib/archive/service';
+import { ArchiveItemParamsSchema } from '@/lib/archive/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/archive/[type]/[id]/unarchive
+ *
+ * Unarchive a task or list together with everything archived along with it.
+ * A task whose list is still archived moves to the Inbox.
+ *
+ * @response { success: true }
+ * @error { error: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = ArchiveItemParamsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const { type, id } = validation.data;
+    const success = await unarchiveItem(session.user.id, type, id);
+
+    if (!success) {
+      return NextResponse.json({ error: 'Item not found in archive' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Unarchive error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
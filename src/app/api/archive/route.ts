@@ -0,0 +1,47 @@
+/**
+ * Archive API Route
+ *
+ * GET /api/archive - List archived tasks and lists
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getArchive } from '@/lib/archive/service';
+import { ArchiveQuerySchema } from '@/lib/archive/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/archive
+ *
+ * List the items in the archive, most recently archived first.
+ *
+ * Query parameters:
+ * - search: Search in titles
+ * - type: Only list tasks or lists
+ *
+ * @response { items: ArchiveItemDto[], autoArchiveDays: number }
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = ArchiveQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const archive = await getArchive(session.user.id, validation.data);
+
+    return NextResponse.json(archive);
+  } catch (error) {
+    logger.error('Archive GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Auto-Archive Cron Route
+ *
+ * GET /api/cron/archive - Archive tasks completed long ago
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { autoArchiveCompletedTasks } from '@/lib/archive/service';
+import { isCronRequest } from '@/lib/security/cron';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/cron/archive
+ *
+ * Archive everyone's tasks that were completed longer ago than
+ * `AUTO_ARCHIVE_DAYS`. Called by the scheduler with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @response { count: number } - Number of tasks archived, not counting subtasks
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const count = await autoArchiveCompletedTasks();
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    logger.error('Auto-archive error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
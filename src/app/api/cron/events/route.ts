@@ -0,0 +1,36 @@
+/**
+ * Event Pruning Cron Route
+ *
+ * GET /api/cron/events - Delete old events from the change feed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { pruneEvents } from '@/lib/events/service';
+import { EVENT_RETENTION_MS } from '@/lib/events/utils';
+import { isCronRequest } from '@/lib/security/cron';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/cron/events
+ *
+ * Delete events older than a day. A client that resumes after a longer gap
+ * misses them and relies on its regular fetches. Called by the scheduler with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @response { count: number } - Number of events deleted
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const count = await pruneEvents(new Date(Date.now() - EVENT_RETENTION_MS));
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    logger.error('Event pruning error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Rank Rebalancing Cron Route
+ *
+ * GET /api/cron/rebalance - Spread out crowded sort ranks
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { rebalanceCrowdedRanks } from '@/lib/ordering/service';
+import { isCronRequest } from '@/lib/security/cron';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/cron/rebalance
+ *
+ * Spread out the sort ranks of tasks, lists, tags, habits and goals wherever
+ * repeated moves have left gaps too small for many more moves. Called by the
+ * scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @response { count: number } - Number of rows rewritten
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const count = await rebalanceCrowdedRanks();
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    logger.error('Rank rebalance error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
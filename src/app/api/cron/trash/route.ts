@@ -0,0 +1,35 @@
+/**
+ * Trash Purge Cron Route
+ *
+ * GET /api/cron/trash - Permanently delete expired trash
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeExpiredTrash } from '@/lib/trash/service';
+import { isCronRequest } from '@/lib/security/cron';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/cron/trash
+ *
+ * Permanently delete everyone's items that have been in the trash longer
+ * than `TRASH_RETENTION_DAYS`. Called by the scheduler with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @response { count: number } - Number of items deleted
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const count = await purgeExpiredTrash();
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    logger.error('Trash purge error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
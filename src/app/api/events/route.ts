@@ -0,0 +1,48 @@
+/**
+ * Event Stream API Route
+ *
+ * GET /api/events - Server-Sent Events stream of reminder, task and list events
+ *
+ * Reconnecting clients resume after the `Last-Event-ID` header, or the
+ * `lastEventId` query parameter for a new EventSource. Hosts that cap
+ * response time end the stream; the browser then reconnects and resumes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { createEventStream } from '@/lib/events/stream';
+import { parseLastEventId } from '@/lib/events/utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const lastEventId =
+      parseLastEventId(request.headers.get('last-event-id')) ??
+      parseLastEventId(request.nextUrl.searchParams.get('lastEventId'));
+
+    const stream = createEventStream(session.user.id, {
+      lastEventId,
+      signal: request.signal,
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Disable response buffering in nginx
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    logger.error('Event stream GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Saved Filter by ID API Route
+ *
+ * GET /api/filters/[id] - Get a single saved filter
+ * PUT /api/filters/[id] - Update a saved filter
+ * DELETE /api/filters/[id] - Delete a saved filter
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getSavedFilterById, updateSavedFilter, deleteSavedFilter } from '@/lib/filters/service';
+import { UpdateSavedFilterSchema } from '@/lib/filters/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/filters/[id]
+ *
+ * Retrieve a single saved filter by ID.
+ *
+ * @response { filter: SavedFilterDto }
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const filter = await getSavedFilterById(id, session.user.id);
+
+    if (!filter) {
+      return NextResponse.json({ error: 'Saved filter not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ filter });
+  } catch (error) {
+    logger.error('Saved filter GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/filters/[id]
+ *
+ * Update an existing saved filter.
+ *
+ * Request body (all fields optional):
+ * - name: string
+ * - filter: SavedFilterCriteria
+ * - pinned: boolean
+ * - sortOrder: number
+ *
+ * @response { filter: SavedFilterDto }
+ * @error { error: string }
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = UpdateSavedFilterSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const filter = await updateSavedFilter(id, session.user.id, validation.data);
+
+    if (!filter) {
+      return NextResponse.json({ error: 'Saved filter not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ filter });
+  } catch (error) {
+    logger.error('Saved filter update error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/filters/[id]
+ *
+ * Delete a saved filter.
+ *
+ * @response { success: boolean, filterId: string }
+ * @error { error: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const success = await deleteSavedFilter(id, session.user.id);
+
+    if (!success) {
+      return NextResponse.json({ error: 'Saved filter not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, filterId: id });
+  } catch (error) {
+    logger.error('Saved filter deletion error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Saved Filters Import API Route
+ *
+ * POST /api/filters/import - Import filters previously stored in the browser
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { importSavedFilters } from '@/lib/filters/service';
+import {
+  ImportSavedFiltersSchema,
+  ImportedSavedFilterSchema,
+  type ImportedSavedFilterInput,
+} from '@/lib/filters/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/filters/import
+ *
+ * Import saved filters from localStorage, used once per browser when filters
+ * moved to the server. Invalid filters and names that already exist are skipped.
+ *
+ * Request body:
+ * - filters: Array<{ name: string, filter: SavedFilterCriteria, createdAt?: string }>
+ *
+ * @response { filters: SavedFilterDto[], skipped: number }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = ImportSavedFiltersSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const valid: ImportedSavedFilterInput[] = [];
+    for (const item of validation.data.filters) {
+      const parsed = ImportedSavedFilterSchema.safeParse(item);
+      if (parsed.success) {
+        valid.push(parsed.data);
+      }
+    }
+
+    const filters = await importSavedFilters(session.user.id, valid);
+
+    return NextResponse.json(
+      { filters, skipped: validation.data.filters.length - filters.length },
+      { status: 201 }
+    );
+  } catch (error) {
+    logger.error('Saved filters import error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
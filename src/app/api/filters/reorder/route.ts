@@ -0,0 +1,47 @@
+/**
+ * Saved Filters Reorder API Route
+ *
+ * POST /api/filters/reorder - Reorder saved filters (for drag-and-drop)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { reorderSavedFilters } from '@/lib/filters/service';
+import { ReorderSavedFiltersSchema } from '@/lib/filters/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/filters/reorder
+ *
+ * Update the sort order of multiple saved filters.
+ *
+ * Request body:
+ * - filterOrders: Array<{ id: string, sortOrder: number }>
+ *
+ * @response { count: number }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = ReorderSavedFiltersSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const count = await reorderSavedFilters(session.user.id, validation.data.filterOrders);
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    logger.error('Saved filters reorder error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
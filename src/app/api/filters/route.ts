@@ -0,0 +1,77 @@
+/**
+ * Saved Filters API Route
+ *
+ * GET /api/filters - List saved filters
+ * POST /api/filters - Create a new saved filter
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getSavedFilters, createSavedFilter } from '@/lib/filters/service';
+import { CreateSavedFilterSchema } from '@/lib/filters/schemas';
+import type { SavedFilterListResponse } from '@/lib/filters';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/filters
+ *
+ * Retrieve the authenticated user's saved filters in display order.
+ *
+ * @response { filters: SavedFilterDto[] }
+ * @error { error: string }
+ */
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const filters = await getSavedFilters(session.user.id);
+
+    const response: SavedFilterListResponse = { filters };
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Saved filters GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/filters
+ *
+ * Create a new saved filter for the authenticated user.
+ *
+ * Request body:
+ * - name: string (required) - Filter name
+ * - filter: SavedFilterCriteria (required) - Filter criteria
+ * - pinned: boolean (optional) - Show in the smart list sidebar
+ *
+ * @response { filter: SavedFilterDto }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CreateSavedFilterSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const filter = await createSavedFilter(session.user.id, validation.data);
+
+    return NextResponse.json({ filter }, { status: 201 });
+  } catch (error) {
+    logger.error('Saved filter creation error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Archive Completed Tasks API Route
+ *
+ * POST /api/lists/[id]/archive-completed - Archive a list's completed tasks
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { archiveCompletedTasks } from '@/lib/archive/service';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/lists/[id]/archive-completed
+ *
+ * Archive the completed tasks of a list together with their subtasks.
+ *
+ * @response { count: number }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const count = await archiveCompletedTasks(session.user.id, id);
+
+    if (count === null) {
+      return NextResponse.json({ error: 'List not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    logger.error('Archive completed error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * List Duplicate API Route
+ *
+ * POST /api/lists/[id]/duplicate - Copy a list with all of its tasks
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { duplicateList } from '@/lib/lists/service';
+import { DuplicateListSchema } from '@/lib/lists/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/lists/[id]/duplicate
+ *
+ * Copy a list and its tasks, including subtasks, tags, checklists and reminders.
+ *
+ * Request body (optional):
+ * - title: string - Title of the copy (default: "<title> (copy)")
+ * - resetStatus: boolean - Reopen every copied task
+ * - dateOffsetDays: number - Days to move every task date by
+ *
+ * @response { list: ListDto }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body; an empty body keeps the defaults
+    const body = await request.json().catch(() => ({}));
+    const validation = DuplicateListSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const list = await duplicateList(id, session.user.id, validation.data);
+
+    if (!list) {
+      return NextResponse.json({ error: 'List not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ list }, { status: 201 });
+  } catch (error) {
+    logger.error(
+      'List duplicate error:',
+      error instanceof Error ? error : new Error(String(error))
+    );
+
+    if (error instanceof Error && error.message.includes('Unique constraint')) {
+      return NextResponse.json({ error: 'A list with this title already exists' }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
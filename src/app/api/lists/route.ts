@@ -21,7 +21,9 @@ import { logger } from '@/lib/logger';
  * GET /api/lists
  *
  * Retrieve a list of lists for the authenticated user.
- * Supports filtering, sorting, and pagination.
+ * Supports filtering, sorting, and pagination. Archived lists are left out,
+ * and tasks completed longer ago than the auto-archive period are archived
+ * first.
  *
  * Query parameters:
  * - search: Search in title and description
@@ -0,0 +1,84 @@
+/**
+ * Push Subscription API Routes
+ *
+ * GET /api/push/subscriptions - VAPID public key and the user's subscribed devices
+ * POST /api/push/subscriptions - Subscribe this device to push notifications
+ * DELETE /api/push/subscriptions - Unsubscribe a device
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getPushSubscriptions, subscribe, unsubscribe } from '@/lib/push/service';
+import { SubscribeSchema, UnsubscribeSchema } from '@/lib/push/schemas';
+import { getVapidKeys } from '@/lib/push/utils';
+import { logger } from '@/lib/logger';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const subscriptions = await getPushSubscriptions(session.user.id);
+
+    // A null key means push is not configured on this server
+    return NextResponse.json({
+      publicKey: getVapidKeys()?.publicKey ?? null,
+      subscriptions,
+    });
+  } catch (error) {
+    logger.error('Push subscriptions GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = SubscribeSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const subscription = await subscribe(
+      session.user.id,
+      validation.data,
+      request.headers.get('user-agent')
+    );
+
+    return NextResponse.json({ subscription }, { status: 201 });
+  } catch (error) {
+    logger.error('Push subscriptions POST error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = UnsubscribeSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const success = await unsubscribe(session.user.id, validation.data.endpoint);
+
+    if (!success) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Push subscriptions DELETE error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Reminder Action Link API Route
+ *
+ * GET /api/reminders/actions/[action]?token= - Confirmation page for a reminder action
+ * POST /api/reminders/actions/[action]?token= - Perform the reminder action
+ *
+ * Used by the links in reminder emails. The signed token authenticates the
+ * request instead of a session. Opening a link only shows a page with a
+ * button that posts the action, since mail scanners and link prefetchers
+ * open links without the user.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { applyReminderAction, verifyReminderActionToken } from '@/lib/reminders/actions';
+import { ReminderActionLinkSchema } from '@/lib/reminders/schemas';
+import { logger } from '@/lib/logger';
+
+const MESSAGES = {
+  done: 'The task is marked as done.',
+  snooze: 'The reminder is snoozed for 1 hour.',
+};
+
+const CONFIRMATIONS = {
+  done: { title: 'Mark task as done?', button: 'Mark done' },
+  snooze: { title: 'Snooze reminder?', button: 'Snooze 1 hour' },
+};
+
+/**
+ * Respond with a small page for the browser that opened the link, with
+ * either a form that posts the action or a link to the app.
+ */
+function page(
+  title: string,
+  message: string,
+  status: number,
+  form?: { action: string; button: string }
+) {
+  const footer = form
+    ? `<form method="post" action="${form.action.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}">
+<button type="submit" style="padding:10px 18px;border:0;border-radius:6px;background:#D97757;color:#ffffff;font-weight:600;cursor:pointer;">${form.button}</button>
+</form>`
+    : '<a href="/tasks" style="color:#D97757;font-weight:600;">Open tasks</a>';
+
+  const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title></head>
+<body style="margin:0;padding:48px 24px;background:#f7f5f2;font-family:Arial,sans-serif;color:#1f1f1f;text-align:center;">
+<h1 style="font-size:20px;margin:0 0 8px;">${title}</h1>
+<p style="margin:0 0 24px;">${message}</p>
+${footer}
+</body></html>`;
+
+  return new NextResponse(html, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
+
+/**
+ * Validate the action and token of a link.
+ */
+async function verify(request: NextRequest, params: Promise<{ action: string }>) {
+  const validation = ReminderActionLinkSchema.safeParse({
+    action: (await params).action,
+    token: request.nextUrl.searchParams.get('token') ?? '',
+  });
+
+  if (!validation.success) {
+    return { error: page('Invalid link', validation.error.issues[0].message, 400) };
+  }
+
+  const { action, token } = validation.data;
+  const verified = verifyReminderActionToken(token);
+
+  if (!verified || verified.action !== action) {
+    return { error: page('Invalid link', 'This link is invalid or has expired.', 400) };
+  }
+
+  return { ...verified, token };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ action: string }> }
+) {
+  try {
+    const verified = await verify(request, params);
+    if (verified.error) {
+      return verified.error;
+    }
+
+    const { title, button } = CONFIRMATIONS[verified.action];
+    return page(title, 'Confirm to continue.', 200, {
+      action: `${request.nextUrl.pathname}?token=${encodeURIComponent(verified.token)}`,
+      button,
+    });
+  } catch (error) {
+    logger.error('Reminder action error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ action: string }> }
+) {
+  try {
+    const verified = await verify(request, params);
+    if (verified.error) {
+      return verified.error;
+    }
+
+    const success = await applyReminderAction(verified.reminderId, verified.action);
+
+    if (!success) {
+      return page('Reminder not found', 'The reminder or its task no longer exists.', 404);
+    }
+
+    return page('Done', MESSAGES[verified.action], 200);
+  } catch (error) {
+    logger.error('Reminder action error', error instanceof Error ? error : undefined);
+
+    if (error instanceof Error && error.message.includes('Can only snooze')) {
+      return page('Cannot snooze', 'This reminder can no longer be snoozed.', 400);
+    }
+
+    if (error instanceof Error && error.message.startsWith('Task is blocked')) {
+      return page('Task is blocked', 'Complete the tasks blocking it first.', 409);
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
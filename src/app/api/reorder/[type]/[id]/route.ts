@@ -0,0 +1,67 @@
+/**
+ * Move Item API Route
+ *
+ * POST /api/reorder/[type]/[id] - Move a task, list, tag, habit or goal
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { moveItem } from '@/lib/ordering/service';
+import { MoveItemParamsSchema, MoveItemSchema } from '@/lib/ordering/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/reorder/[type]/[id]
+ *
+ * Move an item between its new neighbours. Only the moved item's rank
+ * changes, unless the neighbours have no room left between them.
+ *
+ * Request body:
+ * - afterId: string | null - Item the moved item follows; null for the start
+ * - beforeId: string | null - Item the moved item precedes; null for the end
+ *
+ * @response { id: string, sortOrder: number }
+ * @error { error: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const paramsValidation = MoveItemParamsSchema.safeParse(await params);
+    if (!paramsValidation.success) {
+      return NextResponse.json(
+        { error: paramsValidation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const validation = MoveItemSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const { type, id } = paramsValidation.data;
+    const sortOrder = await moveItem(type, session.user.id, id, validation.data);
+
+    if (sortOrder === null) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ id, sortOrder });
+  } catch (error) {
+    logger.error('Move item error', error instanceof Error ? error : undefined);
+
+    if (error instanceof Error && error.message.includes('Cannot move an item next to itself')) {
+      return NextResponse.json({ error: 'Cannot move an item next to itself' }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Search API Route
+ *
+ * GET /api/search - Full-text search across tasks, lists, tags, habits and goals
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { search } from '@/lib/search/service';
+import { SearchQuerySchema, type SearchResponse } from '@/lib/search';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/search
+ *
+ * Search the authenticated user's data. Results are ranked by relevance,
+ * with highlighted titles and description snippets.
+ *
+ * Query parameters:
+ * - q: Search input (required). "Quoted text" matches as a phrase; other words match by prefix
+ * - types: Comma-separated entity types to include (task, list, tag, habit, goal)
+ * - limit: Number of results to return (1-50, default: 20)
+ *
+ * @response { query: string, results: SearchResult[] }
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate query parameters
+    const { searchParams } = new URL(request.url);
+    const validation = SearchQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const { q, types, limit } = validation.data;
+
+    const results = await search(session.user.id, q, { types, limit });
+
+    const response: SearchResponse = { query: q, results };
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Search GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
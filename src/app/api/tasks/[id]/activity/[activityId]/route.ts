@@ -0,0 +1,43 @@
+/**
+ * Task Comment API Route
+ *
+ * DELETE /api/tasks/[id]/activity/[activityId] - Delete a comment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { deleteTaskComment } from '@/lib/tasks/activity';
+import { logger } from '@/lib/logger';
+
+type RouteParams = { params: Promise<{ id: string; activityId: string }> };
+
+/**
+ * DELETE /api/tasks/[id]/activity/[activityId]
+ *
+ * Only comments can be deleted; recorded changes are permanent.
+ *
+ * @response { success: boolean }
+ * @error { error: string }
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, activityId } = await params;
+
+    const success = await deleteTaskComment(id, activityId, session.user.id);
+
+    if (!success) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Task comment delete error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
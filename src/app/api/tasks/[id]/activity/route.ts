@@ -0,0 +1,85 @@
+/**
+ * Task Activity API Route
+ *
+ * GET /api/tasks/[id]/activity - Get the change history and comments of a task
+ * POST /api/tasks/[id]/activity - Add a comment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getTaskActivity, addTaskComment } from '@/lib/tasks/activity';
+import { CreateTaskCommentSchema } from '@/lib/tasks/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/tasks/[id]/activity
+ *
+ * Retrieve the activity timeline of a task, oldest first.
+ *
+ * @response { activities: TaskActivityDto[] }
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const activities = await getTaskActivity(id, session.user.id);
+
+    if (!activities) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ activities });
+  } catch (error) {
+    logger.error('Task activity GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tasks/[id]/activity
+ *
+ * Add a markdown comment to the task.
+ *
+ * Request body:
+ * - content: string (required)
+ *
+ * @response { activity: TaskActivityDto }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CreateTaskCommentSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const activity = await addTaskComment(id, session.user.id, validation.data.content);
+
+    if (!activity) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ activity }, { status: 201 });
+  } catch (error) {
+    logger.error('Task comment create error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
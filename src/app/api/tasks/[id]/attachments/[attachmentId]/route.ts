@@ -0,0 +1,88 @@
+/**
+ * Task Attachment API Route
+ *
+ * GET /api/tasks/[id]/attachments/[attachmentId] - Download an attachment
+ * DELETE /api/tasks/[id]/attachments/[attachmentId] - Delete an attachment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { deleteAttachment, getAttachmentContent, isImageType } from '@/lib/attachments';
+import { logger } from '@/lib/logger';
+
+type RouteParams = { params: Promise<{ id: string; attachmentId: string }> };
+
+/**
+ * GET /api/tasks/[id]/attachments/[attachmentId]
+ *
+ * Images and PDFs are served inline, everything else as a download.
+ *
+ * Query parameters:
+ * - thumbnail: 'true' to get the image thumbnail
+ *
+ * @response File contents
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, attachmentId } = await params;
+    const thumbnail = request.nextUrl.searchParams.get('thumbnail') === 'true';
+
+    const content = await getAttachmentContent(id, attachmentId, session.user.id, thumbnail);
+
+    if (!content) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const { attachment, mimeType, data } = content;
+    const inline = isImageType(attachment.mimeType) || attachment.mimeType === 'application/pdf';
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': mimeType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    logger.error('Attachment download error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/tasks/[id]/attachments/[attachmentId]
+ *
+ * @response { success: boolean }
+ * @error { error: string }
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, attachmentId } = await params;
+
+    const success = await deleteAttachment(id, attachmentId, session.user.id);
+
+    if (!success) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Attachment delete error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
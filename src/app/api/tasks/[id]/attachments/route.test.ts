@@ -0,0 +1,94 @@
+/**
+ * Task Attachments Route Tests
+ *
+ * Tests that uploads are size-checked before the form is read.
+ *
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { createAttachment } from '@/lib/attachments';
+import { POST } from './route';
+
+jest.mock('@/lib/auth', () => ({
+  auth: jest.fn(),
+}));
+
+jest.mock('@/lib/attachments', () => ({
+  ...jest.requireActual('@/lib/attachments/utils'),
+  createAttachment: jest.fn(),
+  getAttachments: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('POST /api/tasks/[id]/attachments', () => {
+  const params = Promise.resolve({ id: 'task-1' });
+  const url = 'http://localhost/api/tasks/task-1/attachments';
+
+  const form = () => {
+    const formData = new FormData();
+    formData.append('file', new File(['hello'], 'notes.txt', { type: 'text/plain' }));
+    return formData;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (auth as jest.Mock).mockResolvedValue({ user: { id: 'user-1' } });
+    (createAttachment as jest.Mock).mockResolvedValue({ id: 'attachment-1' });
+  });
+
+  it('should reject a chunked upload without reading it', async () => {
+    const request = new NextRequest(url, {
+      method: 'POST',
+      body: new ReadableStream({
+        pull() {
+          throw new Error('Body should not be read');
+        },
+      }),
+      duplex: 'half',
+    });
+    const formData = jest.spyOn(request, 'formData');
+
+    const response = await POST(request, { params });
+
+    expect(response.status).toBe(411);
+    expect(formData).not.toHaveBeenCalled();
+    expect(createAttachment).not.toHaveBeenCalled();
+  });
+
+  it('should reject an upload whose Content-Length is over the limit', async () => {
+    const request = new NextRequest(url, {
+      method: 'POST',
+      body: form(),
+      headers: { 'content-length': String(100 * 1024 * 1024) },
+    });
+    const formData = jest.spyOn(request, 'formData');
+
+    const response = await POST(request, { params });
+
+    expect(response.status).toBe(413);
+    expect(formData).not.toHaveBeenCalled();
+  });
+
+  it('should store an upload within the limit', async () => {
+    const body = await new Request(url, { method: 'POST', body: form() }).arrayBuffer();
+    const request = new NextRequest(url, {
+      method: 'POST',
+      body: form(),
+      headers: { 'content-length': String(body.byteLength) },
+    });
+
+    const response = await POST(request, { params });
+
+    expect(response.status).toBe(201);
+    expect(createAttachment).toHaveBeenCalledWith(
+      'task-1',
+      'user-1',
+      expect.objectContaining({ fileName: 'notes.txt', mimeType: 'text/plain' })
+    );
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Task Attachments API Route
+ *
+ * GET /api/tasks/[id]/attachments - List the attachments of a task
+ * POST /api/tasks/[id]/attachments - Upload an attachment (multipart/form-data)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import {
+  createAttachment,
+  getAttachments,
+  getAttachmentSizeError,
+  getMaxAttachmentRequestSize,
+  getMaxAttachmentSize,
+  validateAttachment,
+} from '@/lib/attachments';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/tasks/[id]/attachments
+ *
+ * @response { attachments: AttachmentDto[] }
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const attachments = await getAttachments(id, session.user.id);
+
+    if (!attachments) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ attachments });
+  } catch (error) {
+    logger.error('Attachments GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tasks/[id]/attachments
+ *
+ * Form fields:
+ * - file: File (required)
+ *
+ * @response { attachment: AttachmentDto }
+ * @error { error: string } - 400 invalid file, 411 no Content-Length, 413 file too large
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Turn away oversized uploads before the body is read; the whole form
+    // is buffered in memory when it is parsed, so its size must be known
+    const contentLength = request.headers.get('content-length');
+    if (!contentLength || !/^\d+$/.test(contentLength)) {
+      return NextResponse.json({ error: 'Content-Length is required' }, { status: 411 });
+    }
+    if (Number(contentLength) > getMaxAttachmentRequestSize()) {
+      return NextResponse.json({ error: getAttachmentSizeError() }, { status: 413 });
+    }
+
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    // Check the size and type before storing the file
+    const validationError = validateAttachment({ size: file.size, mimeType: file.type });
+    if (validationError) {
+      const status = file.size > getMaxAttachmentSize() ? 413 : 400;
+      return NextResponse.json({ error: validationError }, { status });
+    }
+
+    const attachment = await createAttachment(id, session.user.id, {
+      fileName: file.name,
+      mimeType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+
+    if (!attachment) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ attachment }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('A task can have at most')) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    logger.error('Attachment upload error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
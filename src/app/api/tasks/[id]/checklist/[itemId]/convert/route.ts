@@ -0,0 +1,44 @@
+/**
+ * Checklist Item Conversion API Route
+ *
+ * POST /api/tasks/[id]/checklist/[itemId]/convert - Turn a checklist item into a subtask
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { convertChecklistItemToSubtask } from '@/lib/tasks/checklist';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/tasks/[id]/checklist/[itemId]/convert
+ *
+ * Create a subtask from the item and remove the item from the checklist.
+ *
+ * @response { task: TaskDto } - The new subtask
+ * @error { error: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, itemId } = await params;
+
+    const task = await convertChecklistItemToSubtask(id, itemId, session.user.id);
+
+    if (!task) {
+      return NextResponse.json({ error: 'Checklist item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ task }, { status: 201 });
+  } catch (error) {
+    logger.error('Checklist item convert error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
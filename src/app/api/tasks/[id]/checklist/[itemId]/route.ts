@@ -0,0 +1,85 @@
+/**
+ * Checklist Item API Route
+ *
+ * PUT /api/tasks/[id]/checklist/[itemId] - Update a checklist item
+ * DELETE /api/tasks/[id]/checklist/[itemId] - Delete a checklist item
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { updateChecklistItem, deleteChecklistItem } from '@/lib/tasks/checklist';
+import { UpdateChecklistItemSchema } from '@/lib/tasks/schemas';
+import { logger } from '@/lib/logger';
+
+type RouteParams = { params: Promise<{ id: string; itemId: string }> };
+
+/**
+ * PUT /api/tasks/[id]/checklist/[itemId]
+ *
+ * Request body (all fields optional):
+ * - text: string
+ * - checked: boolean
+ * - sortOrder: number
+ *
+ * @response { item: ChecklistItemDto }
+ * @error { error: string }
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, itemId } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = UpdateChecklistItemSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const item = await updateChecklistItem(id, itemId, session.user.id, validation.data);
+
+    if (!item) {
+      return NextResponse.json({ error: 'Checklist item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    logger.error('Checklist item update error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/tasks/[id]/checklist/[itemId]
+ *
+ * @response { success: boolean }
+ * @error { error: string }
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, itemId } = await params;
+
+    const success = await deleteChecklistItem(id, itemId, session.user.id);
+
+    if (!success) {
+      return NextResponse.json({ error: 'Checklist item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Checklist item delete error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Checklist Reorder API Route
+ *
+ * POST /api/tasks/[id]/checklist/reorder - Reorder the checklist of a task
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { reorderChecklistItems } from '@/lib/tasks/checklist';
+import { ReorderChecklistItemsSchema } from '@/lib/tasks/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/tasks/[id]/checklist/reorder
+ *
+ * Request body:
+ * - itemIds: string[] - All item IDs in their new order
+ *
+ * @response { items: ChecklistItemDto[] }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = ReorderChecklistItemsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    let items;
+    try {
+      items = await reorderChecklistItems(id, session.user.id, validation.data.itemIds);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'One or more checklist items not found') {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (!items) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    logger.error('Checklist reorder error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
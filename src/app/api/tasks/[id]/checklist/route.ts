@@ -0,0 +1,86 @@
+/**
+ * Task Checklist API Route
+ *
+ * GET /api/tasks/[id]/checklist - List the checklist items of a task
+ * POST /api/tasks/[id]/checklist - Add a checklist item
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getChecklistItems, createChecklistItem } from '@/lib/tasks/checklist';
+import { CreateChecklistItemSchema } from '@/lib/tasks/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/tasks/[id]/checklist
+ *
+ * Retrieve the checklist of a task, in order.
+ *
+ * @response { items: ChecklistItemDto[] }
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const items = await getChecklistItems(id, session.user.id);
+
+    if (!items) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    logger.error('Checklist GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tasks/[id]/checklist
+ *
+ * Add an item to the end of the checklist.
+ *
+ * Request body:
+ * - text: string (required)
+ * - checked: boolean
+ *
+ * @response { item: ChecklistItemDto }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CreateChecklistItemSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const item = await createChecklistItem(id, session.user.id, validation.data);
+
+    if (!item) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    logger.error('Checklist item create error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Task Dependency API Route
+ *
+ * DELETE /api/tasks/[id]/dependencies/[blockerId] - Stop the task waiting on a blocker
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { removeTaskDependency } from '@/lib/tasks/dependencies';
+import { logger } from '@/lib/logger';
+
+/**
+ * DELETE /api/tasks/[id]/dependencies/[blockerId]
+ *
+ * Remove a dependency.
+ *
+ * @response { success: boolean }
+ * @error { error: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; blockerId: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, blockerId } = await params;
+
+    const success = await removeTaskDependency(id, blockerId, session.user.id);
+
+    if (!success) {
+      return NextResponse.json({ error: 'Dependency not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Task dependency delete error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
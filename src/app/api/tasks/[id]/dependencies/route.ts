@@ -0,0 +1,97 @@
+/**
+ * Task Dependencies API Route
+ *
+ * GET /api/tasks/[id]/dependencies - Get the tasks blocking a task and the tasks it blocks
+ * POST /api/tasks/[id]/dependencies - Make the task wait on another task
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getTaskDependencies, addTaskDependency } from '@/lib/tasks/dependencies';
+import { AddTaskDependencySchema } from '@/lib/tasks/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/tasks/[id]/dependencies
+ *
+ * Retrieve the dependencies of a task.
+ *
+ * @response { blockedBy: TaskDependencyDto[], blocking: TaskDependencyDto[] }
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const dependencies = await getTaskDependencies(id, session.user.id);
+
+    if (!dependencies) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(dependencies);
+  } catch (error) {
+    logger.error('Task dependencies GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tasks/[id]/dependencies
+ *
+ * Add a task that has to be completed before this one.
+ *
+ * Request body:
+ * - blockerId: string (required)
+ *
+ * @response { blockedBy: TaskDependencyDto[], blocking: TaskDependencyDto[] }
+ * @error { error: string } - 400 for self-dependencies and cycles
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = AddTaskDependencySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    let dependencies;
+    try {
+      dependencies = await addTaskDependency(id, validation.data.blockerId, session.user.id);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message === 'A task cannot block itself' ||
+          error.message === 'Dependency would create a cycle')
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (!dependencies) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(dependencies, { status: 201 });
+  } catch (error) {
+    logger.error('Task dependency create error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Task Duplicate API Route
+ *
+ * POST /api/tasks/[id]/duplicate - Deep-copy a task with its subtasks
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { duplicateTask } from '@/lib/tasks/duplicate';
+import { DuplicateTaskSchema } from '@/lib/tasks/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/tasks/[id]/duplicate
+ *
+ * Copy a task together with its subtasks, tags, checklist, reminders and goal link.
+ *
+ * Request body (optional):
+ * - listId: string - List for the copy (default: same list)
+ * - dueDate: Date | null - Due date of the copy; subtasks and reminders move along
+ * - resetStatus: boolean - Reopen the copy and its subtasks
+ *
+ * @response { task: TaskDto }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body; an empty body keeps the defaults
+    const body = await request.json().catch(() => ({}));
+    const validation = DuplicateTaskSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const task = await duplicateTask(id, session.user.id, validation.data);
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ task }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'List not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    logger.error('Task duplicate error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
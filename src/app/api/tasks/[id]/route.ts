@@ -8,10 +8,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
-import { getTaskById, updateTask, deleteTask } from '@/lib/tasks/service';
-import { updateGoalProgress } from '@/lib/goals';
+import { getTaskById, deleteTask } from '@/lib/tasks/service';
+import { getBlockedTaskMessage, saveTask } from '@/lib/tasks/completion';
 import { UpdateTaskSchema } from '@/lib/tasks/schemas';
-import { TaskStatus } from '@prisma/client';
 import type { TaskUpdateResponse, TaskDeleteResponse } from '@/lib/tasks';
 import { logger } from '@/lib/logger';
 
@@ -63,13 +62,15 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
  * - estimatedTime: number | null
  * - spentTime: number | null
  * - recurrenceRule: string | null
+ * - scope: 'this' | 'following' | 'all' - Which occurrences of a recurring task to update
+ * - force: boolean - Complete the task even if tasks blocking it are still open
  * - listId: string | null
  * - parentId: string | null
  * - sortOrder: number
  * - tags: Array<{ id: string }>
  *
  * @response { task: TaskDto }
- * @error { error: string }
+ * @error { error: string, blockers?: TaskDependencyDto[] } - 409 when completing a blocked task
  */
 export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -81,9 +82,6 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
 
     const { id } = await params;
 
-    // Get the current task to check if it's linked to a goal and if status is changing
-    const currentTask = await getTaskById(id, session.user.id);
-
     // Parse and validate request body
     const body = await request.json();
     const validation = UpdateTaskSchema.safeParse(body);
@@ -92,57 +90,32 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
     }
 
-    const data = validation.data;
-
-    // Check if task is being marked as DONE and has a linked goal
-    const isCompletingTask =
-      data.status === TaskStatus.DONE &&
-      currentTask &&
-      currentTask.status !== TaskStatus.DONE &&
-      currentTask.goalId;
+    const { scope, force, ...data } = validation.data;
 
-    // Update task
-    const task = await updateTask(id, session.user.id, data);
-
-    if (!task) {
-      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    // Update task, checking its blockers and updating goal progress
+    let result;
+    try {
+      result = await saveTask(id, session.user.id, data, { scope, force });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Recurrence rule can only be')) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
     }
 
-    // Auto-update goal progress when task is completed
-    if (isCompletingTask && currentTask.goalId) {
-      try {
-        await updateGoalProgress(session.user.id, currentTask.goalId, {
-          increment: 1,
-        });
-      } catch (goalError) {
-        // Log the error but don't fail the task update
-        logger.error(
-          'Failed to update goal progress',
-          goalError instanceof Error ? goalError : undefined
-        );
-      }
+    if (!result) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
     }
 
-    // If task is being uncompleted (status changed from DONE to something else), decrement goal progress
-    if (
-      data.status &&
-      data.status !== TaskStatus.DONE &&
-      currentTask &&
-      currentTask.status === TaskStatus.DONE &&
-      currentTask.goalId
-    ) {
-      try {
-        await updateGoalProgress(session.user.id, currentTask.goalId, {
-          increment: -1,
-        });
-      } catch (goalError) {
-        logger.error(
-          'Failed to update goal progress',
-          goalError instanceof Error ? goalError : undefined
-        );
-      }
+    // Completing a task whose blockers are still open has to be confirmed
+    if (result.blockers) {
+      return NextResponse.json(
+        { error: getBlockedTaskMessage(result.blockers), blockers: result.blockers },
+        { status: 409 }
+      );
     }
 
+    const { task } = result;
     const response: TaskUpdateResponse = { task };
     return NextResponse.json(response);
   } catch (error) {
@@ -6,7 +6,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
-import { batchUpdateTasks, batchDeleteTasks } from '@/lib/tasks/service';
+import { batchDeleteTasks } from '@/lib/tasks/service';
+import { saveTasks } from '@/lib/tasks/completion';
 import {
   BatchUpdateTaskSchema,
   BatchDeleteTaskSchema,
@@ -28,14 +29,15 @@ import { logger } from '@/lib/logger';
  * Request body for update:
  * - operation: "update"
  * - taskIds: string[] - Array of task IDs
- * - updates: { status?: TaskStatus, priority?: Priority, listId?: string | null }
+ * - updates: { status?: TaskStatus, priority?: Priority, listId?: string | null, dueDate?: Date | null }
+ * - force: boolean - Complete the tasks even if tasks blocking them are still open
  *
  * Request body for delete:
  * - operation: "delete"
  * - taskIds: string[] - Array of task IDs
  *
  * @response { updated: number, tasks: TaskDto[] } | { deleted: number, taskIds: string[] }
- * @error { error: string }
+ * @error { error: string, blocked?: Array<{ taskId: string, blockers: TaskDependencyDto[] }> } - 409 when completing blocked tasks
  */
 export async function POST(request: NextRequest) {
   try {
@@ -55,8 +57,20 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
       }
 
-      const { taskIds, updates } = validation.data;
-      const result = await batchUpdateTasks(session.user.id, taskIds, updates);
+      const { taskIds, updates, force } = validation.data;
+      const result = await saveTasks(session.user.id, taskIds, updates, { force });
+
+      // Completing tasks whose blockers are still open has to be confirmed
+      if (result.blocked) {
+        const count = result.blocked.length;
+        return NextResponse.json(
+          {
+            error: `${count} ${count === 1 ? 'task is' : 'tasks are'} blocked by open tasks`,
+            blocked: result.blocked,
+          },
+          { status: 409 }
+        );
+      }
 
       const response: BatchUpdateResponse = {
         updated: result.count,
@@ -7,13 +7,20 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
-import { getTasks, createTask } from '@/lib/tasks/service';
+import { getTasks, createTask, getAvailableTaskWhere } from '@/lib/tasks/service';
+import {
+  decodeTaskCursor,
+  encodeTaskCursor,
+  getTaskCursorWhere,
+  getTaskOrderBy,
+} from '@/lib/tasks/cursor';
 import {
   CreateTaskSchema,
   TaskQuerySchema,
   type TaskListResponse,
   type TaskCreateResponse,
 } from '@/lib/tasks';
+import { parseFilterQuery, compileFilterQuery, FilterQueryError } from '@/lib/filters';
 import { Prisma } from '@prisma/client';
 import { logger } from '@/lib/logger';
 
@@ -32,14 +39,18 @@ import { logger } from '@/lib/logger';
  * - dueBefore: Filter tasks due before this date
  * - dueAfter: Filter tasks due after this date
  * - includeSubtasks: Include subtasks in response
+ * - available: When true, exclude deferred tasks (start date after today)
  * - search: Search in title and description
+ * - filter: Filter query (e.g., "priority:high AND (tag:work OR list:Inbox) AND due:<7d")
  * - sortBy: Sort field (createdAt, updatedAt, dueDate, priority, title, sortOrder)
  * - sortOrder: Sort order (asc, desc)
  * - limit: Number of tasks to return (1-100, default: 50)
  * - offset: Number of tasks to skip (default: 0)
+ * - cursor: Continue after the page that returned this `nextCursor` (replaces offset)
+ * - includeTotal: Count all matching tasks (default: true)
  *
- * @response { tasks: TaskDto[], total: number, limit: number, offset: number }
- * @error { error: string }
+ * @response { tasks: TaskDto[], total: number | null, limit: number, offset: number, nextCursor: string | null }
+ * @error { error: string, start?: number, end?: number } - start/end locate filter query errors
  */
 export async function GET(request: NextRequest) {
   try {
@@ -104,29 +115,67 @@ export async function GET(request: NextRequest) {
       ];
     }
 
+    // Conditions that combine with search, which uses OR
+    const conditions: Prisma.TaskWhereInput[] = [];
+
     // Build order by
-    const orderBy = query.sortBy
-      ? { [query.sortBy]: query.sortOrder ?? 'asc' }
-      : { sortOrder: 'asc' as const };
+    const sortBy = query.sortBy ?? 'sortOrder';
+    const sortOrder = query.sortOrder ?? 'asc';
+    const orderBy = getTaskOrderBy(sortBy, sortOrder);
+
+    if (query.cursor) {
+      const cursor = decodeTaskCursor(query.cursor, sortBy, sortOrder);
+      if (!cursor) {
+        return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+      }
+      conditions.push(getTaskCursorWhere(cursor));
+    }
+
+    if (query.available) {
+      conditions.push(getAvailableTaskWhere());
+    }
 
-    // Pagination
+    if (query.filter) {
+      try {
+        conditions.push(compileFilterQuery(parseFilterQuery(query.filter)));
+      } catch (error) {
+        if (error instanceof FilterQueryError) {
+          return NextResponse.json(
+            { error: error.message, start: error.start, end: error.end },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    if (conditions.length > 0) {
+      where.AND = conditions;
+    }
+
+    // Pagination; a cursor already points past the earlier pages
     const limit = query.limit ?? 50;
-    const offset = query.offset ?? 0;
+    const offset = query.cursor ? 0 : (query.offset ?? 0);
 
-    // Fetch tasks
+    // Fetch one extra task to tell whether there is a next page
     const { tasks, total } = await getTasks(session.user.id, {
       where,
       orderBy,
-      take: limit,
+      take: limit + 1,
       skip: offset,
       includeSubtasks: query.includeSubtasks,
+      includeTotal: query.includeTotal ?? true,
     });
 
+    const page = tasks.slice(0, limit);
+    const hasMore = tasks.length > limit;
+
     const response: TaskListResponse = {
-      tasks,
+      tasks: page,
       total,
       limit,
       offset,
+      nextCursor: hasMore ? encodeTaskCursor(page[page.length - 1], sortBy, sortOrder) : null,
     };
 
     return NextResponse.json(response);
@@ -149,10 +198,12 @@ export async function GET(request: NextRequest) {
  * - dueDate: Date (optional) - Due date
  * - startDate: Date (optional) - Start date
  * - estimatedTime: number (optional) - Estimated time in minutes
+ * - recurrenceRule: string (optional) - RFC 5545 RRULE (e.g., "FREQ=WEEKLY;BYDAY=MO")
  * - listId: string (optional) - List ID (defaults to Inbox)
  * - parentId: string (optional) - Parent task ID for subtasks
  * - sortOrder: number (optional) - Sort order
  * - tags: Array<{ id: string }> (optional) - Task tags
+ * - tagNames: string[] (optional) - Tag names, created if they do not exist
  *
  * @response { task: TaskDto }
  * @error { error: string }
@@ -0,0 +1,71 @@
+/**
+ * Template Instantiate API Route
+ *
+ * POST /api/templates/[id]/instantiate - Create tasks or a list from a template
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { instantiateTemplate } from '@/lib/templates/service';
+import { InstantiateTemplateSchema } from '@/lib/templates/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/templates/[id]/instantiate
+ *
+ * Create a task tree (task templates) or a list with its tasks (list
+ * templates). Due dates are placed relative to the base date.
+ *
+ * Request body (optional):
+ * - baseDate: Date - Day the relative due dates count from (default: today)
+ * - listId: string - Task templates: list for the new tasks (default: Inbox)
+ * - title, description, icon, color - List templates: settings of the new list
+ *
+ * @response { task: TaskDto } | { list: ListDto }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body; an empty body keeps the defaults
+    const body = await request.json().catch(() => ({}));
+    const validation = InstantiateTemplateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const instance = await instantiateTemplate(id, session.user.id, validation.data);
+
+    if (!instance) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(instance, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'List not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message === 'Template has no tasks') {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      if (error.message.includes('Unique constraint')) {
+        return NextResponse.json(
+          { error: 'A list with this title already exists' },
+          { status: 400 }
+        );
+      }
+    }
+
+    logger.error('Template instantiate error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Template by ID API Route
+ *
+ * GET /api/templates/[id] - Get a template with its content
+ * DELETE /api/templates/[id] - Delete a template
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getTemplateById, deleteTemplate } from '@/lib/templates/service';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/templates/[id]
+ *
+ * Retrieve a single template.
+ *
+ * @response { template: TemplateDto }
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const template = await getTemplateById(id, session.user.id);
+
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    logger.error('Template GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/templates/[id]
+ *
+ * Delete a template. Tasks and lists created from it are kept.
+ *
+ * @response { success: true }
+ * @error { error: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const deleted = await deleteTemplate(id, session.user.id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Template DELETE error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Templates API Route
+ *
+ * GET /api/templates - List templates
+ * POST /api/templates - Save a task or list as a template
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getTemplates, createTemplate } from '@/lib/templates/service';
+import { CreateTemplateSchema, TemplateQuerySchema } from '@/lib/templates/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/templates
+ *
+ * Retrieve the authenticated user's templates, sorted by name.
+ *
+ * Query parameters:
+ * - kind: 'TASK' | 'LIST' (optional) - Only return templates of this kind
+ *
+ * @response { templates: TemplateDto[] }
+ * @error { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = TemplateQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const templates = await getTemplates(session.user.id, validation.data.kind);
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    logger.error('Templates GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/templates
+ *
+ * Save an existing task (with its subtasks) or a whole list as a template.
+ *
+ * Request body:
+ * - name: string (required) - Template name
+ * - description: string (optional)
+ * - taskId: string - Task to save, or
+ * - listId: string - List to save
+ *
+ * @response { template: TemplateDto }
+ * @error { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CreateTemplateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const template = await createTemplate(session.user.id, validation.data);
+
+    if (!template) {
+      const error = validation.data.listId ? 'List not found' : 'Task not found';
+      return NextResponse.json({ error }, { status: 404 });
+    }
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('A template can have at most')) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    logger.error('Templates POST error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
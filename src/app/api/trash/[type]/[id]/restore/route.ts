@@ -0,0 +1,50 @@
+/**
+ * Trash Restore API Route
+ *
+ * POST /api/trash/[type]/[id]/restore - Restore an item from the trash
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { restoreTrashItem } from '@/lib/trash/service';
+import { TrashItemParamsSchema } from '@/lib/trash/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/trash/[type]/[id]/restore
+ *
+ * Restore a task, list, tag, habit or goal together with everything deleted
+ * along with it. A task whose list is still in the trash moves to the Inbox.
+ *
+ * @response { success: true }
+ * @error { error: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = TrashItemParamsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const { type, id } = validation.data;
+    const restored = await restoreTrashItem(session.user.id, type, id);
+
+    if (!restored) {
+      return NextResponse.json({ error: 'Item not found in trash' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Trash restore error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
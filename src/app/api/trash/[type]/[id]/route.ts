@@ -0,0 +1,50 @@
+/**
+ * Trash Item API Route
+ *
+ * DELETE /api/trash/[type]/[id] - Permanently delete an item in the trash
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { deleteTrashItem } from '@/lib/trash/service';
+import { TrashItemParamsSchema } from '@/lib/trash/schemas';
+import { logger } from '@/lib/logger';
+
+/**
+ * DELETE /api/trash/[type]/[id]
+ *
+ * Permanently delete a task (with its subtasks), list (with its tasks), tag,
+ * habit or goal in the trash.
+ *
+ * @response { success: true }
+ * @error { error: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = TrashItemParamsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const { type, id } = validation.data;
+    const deleted = await deleteTrashItem(session.user.id, type, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Item not found in trash' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Trash item DELETE error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Trash API Route
+ *
+ * GET /api/trash - List deleted tasks, lists, tags, habits and goals
+ * DELETE /api/trash - Permanently delete everything in the trash
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getTrash, emptyTrash } from '@/lib/trash/service';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/trash
+ *
+ * List the items in the trash, most recently deleted first. Items older than
+ * the retention period are left out; the trash cron job purges them.
+ *
+ * @response { items: TrashItemDto[], retentionDays: number }
+ * @error { error: string }
+ */
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const trash = await getTrash(session.user.id);
+
+    return NextResponse.json(trash);
+  } catch (error) {
+    logger.error('Trash GET error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/trash
+ *
+ * Empty the trash.
+ *
+ * @response { count: number }
+ * @error { error: string }
+ */
+export async function DELETE() {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const count = await emptyTrash(session.user.id);
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    logger.error('Trash DELETE error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
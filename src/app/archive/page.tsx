@@ -0,0 +1,104 @@
+'use client';
+
+/**
+ * Archive Page
+ *
+ * Archived tasks and lists with search, a type filter and unarchive.
+ */
+
+import { useCallback, useState } from 'react';
+import { Search } from 'lucide-react';
+import { useArchive } from '@/hooks/useArchive';
+import type { ArchiveItemDto, ArchiveItemType } from '@/lib/archive/types';
+import { ArchiveList } from '@/components/archive';
+import { cn } from '@/lib/utils';
+
+const TYPE_FILTERS: Array<{ value: ArchiveItemType | undefined; label: string }> = [
+  { value: undefined, label: 'All' },
+  { value: 'task', label: 'Tasks' },
+  { value: 'list', label: 'Lists' },
+];
+
+export default function ArchivePage() {
+  const [search, setSearch] = useState('');
+  const [type, setType] = useState<ArchiveItemType | undefined>(undefined);
+  const { items, autoArchiveDays, isLoading, error, unarchiveItem } = useArchive({ search, type });
+
+  const handleUnarchive = useCallback(
+    async (item: ArchiveItemDto) => {
+      const success = await unarchiveItem(item.type, item.id);
+      if (!success) {
+        alert('Failed to unarchive item. Please try again.');
+      }
+    },
+    [unarchiveItem]
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-6xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                <span>📦</span>
+                Archive
+              </h1>
+              {autoArchiveDays !== null && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Tasks are archived {autoArchiveDays} days after they are completed
+                </p>
+              )}
+            </div>
+
+            <div className="flex rounded-lg border border-gray-200 p-0.5">
+              {TYPE_FILTERS.map((filter) => (
+                <button
+                  key={filter.label}
+                  type="button"
+                  onClick={() => setType(filter.value)}
+                  aria-pressed={type === filter.value}
+                  className={cn(
+                    'px-3 py-1.5 text-sm rounded-md transition-colors',
+                    type === filter.value
+                      ? 'bg-[#D97757] text-white'
+                      : 'text-gray-600 hover:bg-gray-100'
+                  )}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="relative mt-4">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search the archive"
+              aria-label="Search the archive"
+              className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#D97757]/40"
+            />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 py-6 pb-24">
+        {error && (
+          <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-sm text-red-600">{error}</div>
+        )}
+
+        <ArchiveList
+          items={items}
+          isLoading={isLoading}
+          search={search.trim()}
+          onUnarchive={handleUnarchive}
+        />
+      </main>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import { Button } from '@/components/ui/Button';
 import { MobileNav, getDefaultNavItems } from '@/components/mobile';
 import type { CalendarEvent } from '@/lib/calendar/types';
 import type { TaskDto } from '@/lib/tasks/types';
+import type { RecurrenceEditScope } from '@/lib/tasks/schemas';
 import { formatDateFull } from '@/lib/utils/date';
 import { logger } from '@/lib/logger';
 
@@ -74,6 +75,18 @@ export default function CalendarPage() {
 
   // Handle task drop (drag and drop to reschedule)
   const handleTaskDrop = async (taskId: string, newDate: Date) => {
+    const task = tasks.find((t) => t.id === taskId);
+
+    // Multi-day tasks keep their length: the start date moves with the due date
+    if (task?.startDate && task.dueDate) {
+      const offset = newDate.getTime() - new Date(task.dueDate).getTime();
+      await updateTask(taskId, {
+        dueDate: newDate,
+        startDate: new Date(new Date(task.startDate).getTime() + offset),
+      });
+      return;
+    }
+
     // Update the task with the new due date
     await updateTask(taskId, { dueDate: newDate });
   };
@@ -157,8 +170,12 @@ export default function CalendarPage() {
   };
 
   // Handle save task from detail modal
-  const handleSaveTask = async (id: string, updates: Partial<TaskDto>) => {
-    await updateTask(id, updates);
+  const handleSaveTask = async (
+    id: string,
+    updates: Partial<TaskDto>,
+    scope?: RecurrenceEditScope
+  ) => {
+    await updateTask(id, updates, scope);
   };
 
   // Handle delete task
@@ -8,8 +8,9 @@ import { SmartListSidebar } from '@/components/smart-lists';
 import { MobileSheet } from '@/components/ui/MobileSheet';
 import { HamburgerButton, MobileNav, getDefaultNavItems } from '@/components/mobile';
 import { useEisenhower } from '@/hooks/useEisenhower';
-import { getSmartListFilter, type SmartListType } from '@/lib/smart-lists';
+import { SMART_LISTS, getSmartListFilter, type SmartListType } from '@/lib/smart-lists';
 import type { TaskDto } from '@/lib/tasks/types';
+import type { RecurrenceEditScope } from '@/lib/tasks/schemas';
 import type { TaskWithQuadrant, EisenhowerQuadrant } from '@/lib/eisenhower';
 import { cn } from '@/lib/utils/cn';
 
@@ -78,8 +79,12 @@ export default function EisenhowerPage() {
     setIsModalOpen(true);
   };
 
-  const handleSaveTask = async (id: string, updates: Partial<TaskDto>) => {
-    const success = await updateTask(id, updates);
+  const handleSaveTask = async (
+    id: string,
+    updates: Partial<TaskDto>,
+    scope?: RecurrenceEditScope
+  ) => {
+    const success = await updateTask(id, updates, scope);
     if (success) {
       setIsModalOpen(false);
       setSelectedTask(null);
@@ -105,16 +110,7 @@ export default function EisenhowerPage() {
   // Get current view title
   const getViewTitle = () => {
     if (activeTab === 'smart') {
-      const titles: Record<SmartListType, string> = {
-        all: 'All Tasks',
-        today: 'Today',
-        tomorrow: 'Tomorrow',
-        next7Days: 'Next 7 Days',
-        overdue: 'Overdue',
-        noDate: 'No Date',
-        completed: 'Completed',
-      };
-      return titles[selectedSmartList];
+      return SMART_LISTS[selectedSmartList].name;
     }
     return selectedListId ? 'List View' : 'All Tasks';
   };
@@ -325,6 +321,7 @@ export default function EisenhowerPage() {
         }}
         onSave={handleSaveTask}
         onDelete={handleDeleteTask}
+        onTaskChange={refetch}
       />
     </div>
   );
@@ -31,7 +31,13 @@ export default function GoalDetailPage({ params }: GoalDetailPageProps) {
   } = useGoals({
     autoFetch: true,
   });
-  const { tasks, isLoading: tasksLoading } = useTasks({
+  const {
+    tasks,
+    isLoading: tasksLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+  } = useTasks({
     autoFetch: true,
     filter: { goalId: params.id },
   });
@@ -290,6 +296,9 @@ export default function GoalDetailPage({ params }: GoalDetailPageProps) {
           <TaskList
             tasks={linkedTasks}
             isLoading={tasksLoading}
+            hasMore={hasMore}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={loadMore}
             onUpdateTask={async () => {
               // Task updates are handled by the hook
               return true;
@@ -8,8 +8,9 @@ import { SmartListSidebar } from '@/components/smart-lists';
 import { MobileSheet } from '@/components/ui/MobileSheet';
 import { HamburgerButton, MobileNav, getDefaultNavItems } from '@/components/mobile';
 import { useKanban } from '@/hooks/useKanban';
-import { getSmartListFilter, type SmartListType } from '@/lib/smart-lists';
+import { SMART_LISTS, getSmartListFilter, type SmartListType } from '@/lib/smart-lists';
 import type { TaskDto } from '@/lib/tasks/types';
+import type { RecurrenceEditScope } from '@/lib/tasks/schemas';
 import { cn } from '@/lib/utils/cn';
 
 /**
@@ -80,8 +81,12 @@ export default function KanbanPage() {
     setIsModalOpen(true);
   };
 
-  const handleSaveTask = async (id: string, updates: Partial<TaskDto>) => {
-    const success = await updateTask(id, updates);
+  const handleSaveTask = async (
+    id: string,
+    updates: Partial<TaskDto>,
+    scope?: RecurrenceEditScope
+  ) => {
+    const success = await updateTask(id, updates, scope);
     if (success) {
       setIsModalOpen(false);
       setSelectedTask(null);
@@ -103,16 +108,7 @@ export default function KanbanPage() {
   // Get current view title
   const getViewTitle = () => {
     if (activeTab === 'smart') {
-      const titles: Record<SmartListType, string> = {
-        all: 'All Tasks',
-        today: 'Today',
-        tomorrow: 'Tomorrow',
-        next7Days: 'Next 7 Days',
-        overdue: 'Overdue',
-        noDate: 'No Date',
-        completed: 'Completed',
-      };
-      return titles[selectedSmartList];
+      return SMART_LISTS[selectedSmartList].name;
     }
     // Find list title - would need lists for this
     return selectedListId ? 'List View' : 'All Tasks';
@@ -322,6 +318,7 @@ export default function KanbanPage() {
         }}
         onSave={handleSaveTask}
         onDelete={handleDeleteTask}
+        onTaskChange={refetch}
       />
     </div>
   );
@@ -9,6 +9,7 @@ import { getServerSession } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
+import { PushNotificationSettings } from '@/components/reminders/PushNotificationSettings';
 import { db } from '@/lib/db';
 
 /**
@@ -25,9 +26,9 @@ export default async function ProfilePage() {
 
   // Fetch user statistics
   const [taskCount, listCount, tagCount] = await Promise.all([
-    db.task.count({ where: { userId: session.user.id } }),
-    db.list.count({ where: { userId: session.user.id } }),
-    db.tag.count({ where: { userId: session.user.id } }),
+    db.task.count({ where: { userId: session.user.id, deletedAt: null } }),
+    db.list.count({ where: { userId: session.user.id, deletedAt: null } }),
+    db.tag.count({ where: { userId: session.user.id, deletedAt: null } }),
   ]);
 
   // Format date
@@ -120,6 +121,14 @@ export default async function ProfilePage() {
         </div>
       </Card>
 
+      {/* Notifications Card */}
+      <Card className="mb-6">
+        <div className="p-6">
+          <h2 className="mb-4 text-xl font-semibold text-text-primary">Notifications</h2>
+          <PushNotificationSettings />
+        </div>
+      </Card>
+
       {/* Actions Card */}
       <Card>
         <div className="p-6">
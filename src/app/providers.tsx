@@ -7,12 +7,22 @@
 'use client';
 
 import { SessionProvider } from 'next-auth/react';
+import { EventStreamProvider } from '@/contexts/EventStreamContext';
 import { ReminderNotificationProvider } from '@/contexts/ReminderNotificationContext';
+import { UndoProvider } from '@/contexts/UndoContext';
+import { CommandPalette } from '@/components/search';
 
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <SessionProvider>
-      <ReminderNotificationProvider>{children}</ReminderNotificationProvider>
+      <EventStreamProvider>
+        <ReminderNotificationProvider>
+          <UndoProvider>
+            {children}
+            <CommandPalette />
+          </UndoProvider>
+        </ReminderNotificationProvider>
+      </EventStreamProvider>
     </SessionProvider>
   );
 }
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { TaskList, TaskDetailModal } from '@/components/tasks';
 import { ListSidebar } from '@/components/lists';
 import { SmartListSidebar } from '@/components/smart-lists';
@@ -10,9 +11,14 @@ import { HamburgerButton, MobileNav, getDefaultNavItems } from '@/components/mob
 import { useTasks, type SortBy, type SortOrder } from '@/hooks/useTasks';
 import { useLists } from '@/hooks/useLists';
 import { useSortPreferences } from '@/hooks/useSortPreferences';
-import { getSmartListFilter, type SmartListType } from '@/lib/smart-lists';
+import { useSavedFilters } from '@/hooks/useSavedFilters';
+import { useSmartListPreferences } from '@/hooks/useSmartListPreferences';
+import { useTemplates } from '@/hooks/useTemplates';
+import { SMART_LISTS, getSmartListFilter, type SmartListType } from '@/lib/smart-lists';
 import type { TaskFilter } from '@/components/filters';
 import type { SavedFilter } from '@/lib/filters/types';
+import type { CreateTaskInput, RecurrenceEditScope } from '@/lib/tasks/schemas';
+import type { RankPosition } from '@/lib/ordering/types';
 import { cn } from '@/lib/utils';
 
 /**
@@ -22,15 +28,25 @@ import { cn } from '@/lib/utils';
  * - Smart Lists navigation (Today, Tomorrow, Next 7 Days, etc.)
  * - User Lists navigation
  * - Advanced filtering (status, priority, list, tags, date range)
- * - Saved custom filters
+ * - Saved custom filters, pinned ones shown in the smart list sidebar
  * - Task list with filtering and sorting
  * - Add new tasks
  * - Edit task details
  * - Delete tasks
  * - Mobile responsive with hamburger menu and bottom nav
+ * - Deep links from search (?task=, ?list=, ?tag=)
  * - Warm Claude theme styling
  */
 export default function TasksPage() {
+  // useSearchParams requires a Suspense boundary
+  return (
+    <Suspense>
+      <TasksPageContent />
+    </Suspense>
+  );
+}
+
+function TasksPageContent() {
   // Navigation state
   const [activeTab, setActiveTab] = useState<'smart' | 'lists'>('smart');
   const [selectedSmartList, setSelectedSmartList] = useState<SmartListType>('all');
@@ -43,12 +59,21 @@ export default function TasksPage() {
   const [showAdvancedFilter, setShowAdvancedFilter] = useState(false);
   const [advancedFilter, setAdvancedFilter] = useState<TaskFilter>({});
   const [showSavedFilters, setShowSavedFilters] = useState(false);
+  const [activeSavedFilterId, setActiveSavedFilterId] = useState<string | null>(null);
 
   // Sort preferences (persistent)
   const { sortBy, sortOrder, updatePreferences } = useSortPreferences();
 
   // Data hooks
   const { lists } = useLists({ autoFetch: true });
+  const { pinnedFilters, refetch: refetchSavedFilters } = useSavedFilters();
+  const { options: smartListOptions } = useSmartListPreferences();
+  const {
+    templates: taskTemplates,
+    instantiateTemplate,
+    deleteTemplate,
+    refetch: refetchTemplates,
+  } = useTemplates({ kind: 'TASK' });
 
   // Transform lists for filter panel (convert null icon to undefined)
   const listsForFilter = useMemo(
@@ -66,8 +91,8 @@ export default function TasksPage() {
     const baseFilter: Record<string, string | undefined> = {};
 
     // Apply smart list filter
-    if (activeTab === 'smart' && selectedSmartList !== 'all') {
-      const smartFilter = getSmartListFilter(selectedSmartList);
+    if (activeTab === 'smart') {
+      const smartFilter = getSmartListFilter(selectedSmartList, smartListOptions);
       Object.assign(baseFilter, smartFilter);
     }
 
@@ -104,11 +129,28 @@ export default function TasksPage() {
     if (advancedFilter.search) {
       baseFilter.search = advancedFilter.search;
     }
+    if (advancedFilter.query) {
+      baseFilter.query = baseFilter.query
+        ? `(${baseFilter.query}) AND (${advancedFilter.query})`
+        : advancedFilter.query;
+    }
 
     return Object.keys(baseFilter).length > 0 ? baseFilter : undefined;
-  }, [activeTab, selectedSmartList, selectedListId, advancedFilter]);
-
-  const { tasks, isLoading, error, addTask, updateTask, deleteTask, reorderTasks } = useTasks({
+  }, [activeTab, selectedSmartList, selectedListId, advancedFilter, smartListOptions]);
+
+  const {
+    tasks,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    error,
+    refetch,
+    addTask,
+    updateTask,
+    deleteTask,
+    moveTask,
+  } = useTasks({
     autoFetch: true,
     filter: taskFilter,
     sortBy,
@@ -121,6 +163,33 @@ export default function TasksPage() {
   >(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  // Open the task, list or tag linked from search
+  const searchParams = useSearchParams();
+  useEffect(() => {
+    const listId = searchParams.get('list');
+    const tagId = searchParams.get('tag');
+    const taskId = searchParams.get('task');
+
+    if (listId) {
+      setActiveTab('lists');
+      setSelectedListId(listId);
+    }
+    if (tagId) {
+      setAdvancedFilter({ tagIds: [tagId] });
+    }
+    if (taskId) {
+      fetch(`/api/tasks/${taskId}`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => {
+          if (data?.task) {
+            setSelectedTask(data.task);
+            setIsModalOpen(true);
+          }
+        })
+        .catch(() => undefined);
+    }
+  }, [searchParams]);
+
   // Count active filters
   const activeFilterCount = useMemo(() => {
     return Object.keys(advancedFilter).filter(
@@ -134,13 +203,23 @@ export default function TasksPage() {
   }, [advancedFilter]);
 
   // Handlers
-  const handleAddTask = async (title: string) => {
-    const result = await addTask(title);
+  const handleAddTask = async (input: CreateTaskInput) => {
+    const result = await addTask(input);
     if (!result) {
       throw new Error('Failed to add task');
     }
   };
 
+  const handleAddFromTemplate = async (templateId: string, baseDate: string) => {
+    const instance = await instantiateTemplate(templateId, {
+      baseDate: baseDate ? new Date(baseDate) : undefined,
+      listId: (activeTab === 'lists' && selectedListId) || undefined,
+    });
+    if (instance) {
+      await refetch();
+    }
+  };
+
   const handleUpdateTask = async (id: string, updates: Partial<(typeof tasks)[number]>) => {
     return await updateTask(id, updates);
   };
@@ -150,8 +229,12 @@ export default function TasksPage() {
     setIsModalOpen(true);
   };
 
-  const handleSaveTask = async (id: string, updates: Partial<(typeof tasks)[number]>) => {
-    const success = await updateTask(id, updates);
+  const handleSaveTask = async (
+    id: string,
+    updates: Partial<(typeof tasks)[number]>,
+    scope?: RecurrenceEditScope
+  ) => {
+    const success = await updateTask(id, updates, scope);
     if (success) {
       setIsModalOpen(false);
       setSelectedTask(null);
@@ -166,6 +249,7 @@ export default function TasksPage() {
 
   const handleApplyAdvancedFilter = (filter: TaskFilter) => {
     setAdvancedFilter(filter);
+    setActiveSavedFilterId(null);
     // Switch to smart list "all" to apply custom filters
     setActiveTab('smart');
     setSelectedSmartList('all');
@@ -173,26 +257,44 @@ export default function TasksPage() {
 
   const handleClearAdvancedFilter = () => {
     setAdvancedFilter({});
+    setActiveSavedFilterId(null);
   };
 
   const handleSelectSavedFilter = (savedFilter: SavedFilter) => {
     setAdvancedFilter(savedFilter.filter);
+    setActiveSavedFilterId(savedFilter.id);
     setActiveTab('smart');
     setSelectedSmartList('all');
   };
 
+  const handleSelectSmartList = (smartList: SmartListType) => {
+    setSelectedSmartList(smartList);
+    // Leaving a pinned filter clears the filter it applied
+    if (activeSavedFilterId) {
+      setActiveSavedFilterId(null);
+      setAdvancedFilter({});
+    }
+  };
+
+  const handleCloseSavedFilters = () => {
+    setShowSavedFilters(false);
+    // Pick up pins and renames made in the modal
+    refetchSavedFilters();
+  };
+
   const handleTabChange = (tab: 'smart' | 'lists') => {
     setActiveTab(tab);
     // Clear advanced filter when switching tabs
     setAdvancedFilter({});
+    setActiveSavedFilterId(null);
   };
 
   const handleSortChange = (newSortBy: SortBy, newSortOrder: SortOrder) => {
     updatePreferences(newSortBy, newSortOrder);
   };
 
-  const handleReorderTasks = async (updates: Array<{ id: string; sortOrder: number }>) => {
-    return await reorderTasks(updates);
+  const handleMoveTask = async (id: string, position: RankPosition) => {
+    return await moveTask(id, position);
   };
 
   // Get current view title
@@ -201,16 +303,7 @@ export default function TasksPage() {
       if (selectedSmartList === 'all') {
         return activeFilterCount > 0 ? 'Filtered Tasks' : 'All Tasks';
       }
-      const titles: Record<SmartListType, string> = {
-        all: 'All Tasks',
-        today: 'Today',
-        tomorrow: 'Tomorrow',
-        next7Days: 'Next 7 Days',
-        overdue: 'Overdue',
-        noDate: 'No Date',
-        completed: 'Completed',
-      };
-      return titles[selectedSmartList];
+      return SMART_LISTS[selectedSmartList].name;
     }
     const list = lists.find((l) => l.id === selectedListId);
     return list?.title || 'All Tasks';
@@ -254,7 +347,10 @@ export default function TasksPage() {
           {activeTab === 'smart' ? (
             <SmartListSidebar
               activeSmartList={selectedSmartList}
-              onSelectSmartList={setSelectedSmartList}
+              onSelectSmartList={handleSelectSmartList}
+              pinnedFilters={pinnedFilters}
+              activeFilterId={activeSavedFilterId}
+              onSelectFilter={handleSelectSavedFilter}
             />
           ) : (
             <ListSidebar
@@ -309,7 +405,13 @@ export default function TasksPage() {
             <SmartListSidebar
               activeSmartList={selectedSmartList}
               onSelectSmartList={(list) => {
-                setSelectedSmartList(list);
+                handleSelectSmartList(list);
+                setIsMobileSidebarOpen(false);
+              }}
+              pinnedFilters={pinnedFilters}
+              activeFilterId={activeSavedFilterId}
+              onSelectFilter={(filter) => {
+                handleSelectSavedFilter(filter);
                 setIsMobileSidebarOpen(false);
               }}
             />
@@ -459,11 +561,18 @@ export default function TasksPage() {
             <TaskList
               tasks={tasks}
               isLoading={isLoading}
+              hasMore={hasMore}
+              isLoadingMore={isLoadingMore}
+              onLoadMore={loadMore}
               onAddTask={handleAddTask}
+              lists={lists}
+              templates={taskTemplates}
+              onAddFromTemplate={handleAddFromTemplate}
+              onDeleteTemplate={deleteTemplate}
               onUpdateTask={handleUpdateTask}
               onDeleteTask={deleteTask}
               onEditTask={handleEditTask}
-              onReorderTasks={handleReorderTasks}
+              onMoveTask={handleMoveTask}
               sortBy={sortBy}
               sortOrder={sortOrder}
               onChangeSort={handleSortChange}
@@ -484,15 +593,18 @@ export default function TasksPage() {
         onClose={() => {
           setIsModalOpen(false);
           setSelectedTask(null);
+          // The task may have been saved as a template
+          refetchTemplates();
         }}
         onSave={handleSaveTask}
         onDelete={handleDeleteTask}
+        onTaskChange={refetch}
       />
 
       {/* Saved Filters Modal */}
       <SavedFiltersModal
         isOpen={showSavedFilters}
-        onClose={() => setShowSavedFilters(false)}
+        onClose={handleCloseSavedFilters}
         onSelectFilter={handleSelectSavedFilter}
         currentFilter={advancedFilter}
       />
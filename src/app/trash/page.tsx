@@ -0,0 +1,94 @@
+'use client';
+
+/**
+ * Trash Page
+ *
+ * Deleted items with restore, delete forever and empty trash actions.
+ */
+
+import { useCallback } from 'react';
+import { useTrash } from '@/hooks/useTrash';
+import type { TrashItemDto } from '@/lib/trash/types';
+import { TrashList } from '@/components/trash';
+
+export default function TrashPage() {
+  const { items, retentionDays, isLoading, error, restoreItem, deleteItem, emptyTrash } = useTrash({
+    autoFetch: true,
+  });
+
+  const handleRestore = useCallback(
+    async (item: TrashItemDto) => {
+      const success = await restoreItem(item.type, item.id);
+      if (!success) {
+        alert('Failed to restore item. Please try again.');
+      }
+    },
+    [restoreItem]
+  );
+
+  const handleDelete = useCallback(
+    async (item: TrashItemDto) => {
+      const success = await deleteItem(item.type, item.id);
+      if (!success) {
+        alert('Failed to delete item. Please try again.');
+      }
+    },
+    [deleteItem]
+  );
+
+  const handleEmptyTrash = useCallback(async () => {
+    if (!confirm('Permanently delete everything in the trash?')) {
+      return;
+    }
+
+    const success = await emptyTrash();
+    if (!success) {
+      alert('Failed to empty trash. Please try again.');
+    }
+  }, [emptyTrash]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-6xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                <span>🗑️</span>
+                Trash
+              </h1>
+              {retentionDays !== null && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Items are permanently deleted after {retentionDays} days
+                </p>
+              )}
+            </div>
+
+            <button
+              onClick={handleEmptyTrash}
+              disabled={items.length === 0}
+              className="px-4 py-2 border border-red-200 text-red-500 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Empty Trash
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 py-6 pb-24">
+        {error && (
+          <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-sm text-red-600">{error}</div>
+        )}
+
+        <TrashList
+          items={items}
+          isLoading={isLoading}
+          onRestore={handleRestore}
+          onDelete={handleDelete}
+        />
+      </main>
+    </div>
+  );
+}
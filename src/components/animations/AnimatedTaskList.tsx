@@ -7,21 +7,31 @@ import { AnimatedTaskItem } from './AnimatedTaskItem';
 import { AddTaskInput } from '@/components/tasks/AddTaskInput';
 import { Spinner } from '@/components/ui/Spinner';
 import { TagBadge } from '@/components/tags';
+import { useVirtualList } from '@/hooks/useVirtualList';
 import { cn } from '@/lib/utils';
 import type { TaskDto } from '@/lib/tasks/types';
+import type { CreateTaskInput } from '@/lib/tasks/schemas';
 import type { SortBy, SortOrder } from '@/hooks/useTasks';
+import type { RankPosition } from '@/lib/ordering/types';
 
 export interface AnimatedTaskListProps {
   tasks: TaskDto[];
   isLoading?: boolean;
-  onAddTask?: (title: string) => Promise<void>;
+  /** More tasks can be loaded after the loaded ones */
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  onAddTask?: (input: CreateTaskInput) => Promise<void>;
+  /** Lists available for "^List" quick add syntax */
+  lists?: Array<{ id: string; title: string }>;
   onUpdateTask?: (
     id: string,
     updates: Partial<Pick<TaskDto, 'title' | 'status' | 'priority'>>
   ) => Promise<boolean>;
   onDeleteTask?: (id: string) => void;
   onEditTask?: (task: TaskDto) => void;
-  onReorderTasks?: (updates: Array<{ id: string; sortOrder: number }>) => Promise<boolean>;
+  /** Move a task between its new neighbours (for drag-and-drop) */
+  onMoveTask?: (id: string, position: RankPosition) => Promise<boolean>;
   activeTag?: { id: string; name: string; color: string | null } | null;
   onClearTagFilter?: () => void;
   sortBy?: SortBy;
@@ -56,6 +66,15 @@ const sortOptions: { value: TaskSort; label: string }[] = [
   { value: 'updatedAt', label: 'Modified' },
 ];
 
+/** Active tasks, then a divider and the completed tasks */
+type TaskRow = { type: 'task'; task: TaskDto } | { type: 'completed-header'; count: number };
+
+/** Height assumed for rows before they are measured */
+const ESTIMATED_ROW_HEIGHT = 64;
+
+/** Space between rows (gap-2) */
+const ROW_GAP = 8;
+
 const containerVariants = {
   hidden: { opacity: 0 },
   visible: {
@@ -75,17 +94,22 @@ const containerVariants = {
  * - Smooth exit animations on delete
  * - Animated checkbox with confetti
  * - Filter and sort controls
+ * - Only renders the rows on screen, loading more tasks near the end
  * - Empty states with animations
  * - Warm Claude theme styling
  */
 export function AnimatedTaskList({
   tasks,
   isLoading = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
   onAddTask,
+  lists,
   onUpdateTask,
   onDeleteTask,
   onEditTask,
-  onReorderTasks, // eslint-disable-line @typescript-eslint/no-unused-vars
+  onMoveTask, // eslint-disable-line @typescript-eslint/no-unused-vars
   activeTag,
   onClearTagFilter,
   sortBy = 'sortOrder',
@@ -109,12 +133,25 @@ export function AnimatedTaskList({
   );
   const completedTasks = filteredTasks.filter((t) => t.status === TaskStatus.DONE);
 
+  const rows: TaskRow[] = activeTasks.map((task) => ({ type: 'task', task }));
+  if (completedTasks.length > 0 && filter !== 'active') {
+    rows.push({ type: 'completed-header', count: completedTasks.length });
+    rows.push(...completedTasks.map((task) => ({ type: 'task' as const, task })));
+  }
+
+  const virtual = useVirtualList({
+    keys: rows.map((row) => (row.type === 'task' ? row.task.id : row.type)),
+    estimateSize: ESTIMATED_ROW_HEIGHT,
+    gap: ROW_GAP,
+    onEndReached: hasMore && !isLoading ? onLoadMore : undefined,
+  });
+
   const handleAddTask = useCallback(
-    async (title: string) => {
+    async (input: CreateTaskInput) => {
       if (!onAddTask) return;
       setIsAdding(true);
       try {
-        await onAddTask(title);
+        await onAddTask(input);
       } finally {
         setIsAdding(false);
       }
@@ -272,7 +309,12 @@ export function AnimatedTaskList({
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.1 }}
         >
-          <AddTaskInput onAdd={handleAddTask} isLoading={isAdding} placeholder="Add a task..." />
+          <AddTaskInput
+            onAdd={handleAddTask}
+            lists={lists}
+            isLoading={isAdding}
+            placeholder="Add a task..."
+          />
         </motion.div>
       )}
 
@@ -330,64 +372,56 @@ export function AnimatedTaskList({
         </motion.div>
       )}
 
-      {/* Task list with animations */}
+      {/* Task list with animations; rows off screen are left out */}
       {!isLoading && filteredTasks.length > 0 && (
         <motion.div
+          ref={virtual.listRef}
           className="flex flex-col gap-2"
+          style={{ paddingTop: virtual.paddingTop, paddingBottom: virtual.paddingBottom }}
           variants={containerVariants}
           initial="hidden"
           animate="visible"
         >
-          {/* Active tasks */}
-          {activeTasks.length > 0 && (
-            <div className="flex flex-col gap-2">
-              <AnimatePresence mode="popLayout">
-                {activeTasks.map((task, index) => (
+          <AnimatePresence mode="popLayout">
+            {rows.slice(virtual.startIndex, virtual.endIndex + 1).map((row, index) =>
+              row.type === 'completed-header' ? (
+                <motion.div
+                  key={row.type}
+                  ref={virtual.measureRef}
+                  data-key={row.type}
+                  className="flex items-center gap-2 px-2 pt-2"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                >
+                  <div className="h-px flex-1 bg-border-subtle" />
+                  <span className="text-xs font-medium text-text-tertiary uppercase tracking-wide">
+                    Completed ({row.count})
+                  </span>
+                  <div className="h-px flex-1 bg-border-subtle" />
+                </motion.div>
+              ) : (
+                <div key={row.task.id} ref={virtual.measureRef} data-key={row.task.id}>
                   <AnimatedTaskItem
-                    key={task.id}
-                    task={task}
+                    task={row.task}
                     index={index}
                     onUpdate={onUpdateTask ? handleUpdateTask : undefined}
                     onDelete={onDeleteTask ? handleDeleteTask : undefined}
                     onEdit={onEditTask}
                   />
-                ))}
-              </AnimatePresence>
-            </div>
-          )}
-
-          {/* Completed tasks section */}
-          {completedTasks.length > 0 && filter !== 'active' && (
-            <motion.div
-              className="mt-4"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              transition={{ delay: 0.2 }}
-            >
-              <div className="flex items-center gap-2 px-2 mb-2">
-                <div className="h-px flex-1 bg-border-subtle" />
-                <span className="text-xs font-medium text-text-tertiary uppercase tracking-wide">
-                  Completed ({completedTasks.length})
-                </span>
-                <div className="h-px flex-1 bg-border-subtle" />
-              </div>
-              <div className="flex flex-col gap-2">
-                <AnimatePresence mode="popLayout">
-                  {completedTasks.map((task) => (
-                    <AnimatedTaskItem
-                      key={task.id}
-                      task={task}
-                      onUpdate={onUpdateTask ? handleUpdateTask : undefined}
-                      onDelete={onDeleteTask ? handleDeleteTask : undefined}
-                      onEdit={onEditTask}
-                    />
-                  ))}
-                </AnimatePresence>
-              </div>
-            </motion.div>
-          )}
+                </div>
+              )
+            )}
+          </AnimatePresence>
         </motion.div>
       )}
+
+      {/* Next page */}
+      {isLoadingMore && (
+        <div className="flex items-center justify-center py-4">
+          <Spinner size="sm" />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,107 @@
+'use client';
+
+import { format, formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { ArchiveItemDto, ArchiveItemType } from '@/lib/archive/types';
+
+export interface ArchiveListProps {
+  items: ArchiveItemDto[];
+  isLoading?: boolean;
+  /** Current search, shown in the empty state */
+  search?: string;
+  onUnarchive: (item: ArchiveItemDto) => void;
+  className?: string;
+}
+
+const TYPE_LABELS: Record<ArchiveItemType, string> = {
+  task: 'Task',
+  list: 'List',
+};
+
+function describeItem(item: ArchiveItemDto): string {
+  const parts = [`Archived ${formatDistanceToNow(item.archivedAt, { addSuffix: true })}`];
+
+  if (item.completedAt) {
+    parts.push(`completed ${format(item.completedAt, 'MMM d, yyyy')}`);
+  }
+  if (item.listTitle) {
+    parts.push(`in ${item.listTitle}`);
+  }
+  if (item.taskCount > 0) {
+    const noun = item.type === 'list' ? 'task' : 'subtask';
+    parts.push(`${item.taskCount} ${noun}${item.taskCount === 1 ? '' : 's'}`);
+  }
+
+  return parts.join(' • ');
+}
+
+/**
+ * ArchiveList component showing archived tasks and lists with an unarchive
+ * action.
+ *
+ * Features:
+ * - Item type, archive and completion time, and the task's list
+ * - Number of tasks archived along with a list or task
+ * - Separate empty states for an empty archive and a search without results
+ */
+export function ArchiveList({
+  items,
+  isLoading = false,
+  search,
+  onUnarchive,
+  className,
+}: ArchiveListProps) {
+  if (isLoading && items.length === 0) {
+    return (
+      <div className={cn('space-y-2', className)}>
+        {[0, 1, 2].map((index) => (
+          <div key={index} className="h-16 rounded-xl bg-gray-100 animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className={cn('bg-white border border-gray-200 rounded-xl p-16 text-center', className)}>
+        <div className="text-6xl mb-4">📦</div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">
+          {search ? 'No matching items' : 'Archive is empty'}
+        </h2>
+        <p className="text-gray-500 max-w-md mx-auto">
+          {search
+            ? `Nothing in the archive matches "${search}".`
+            : 'Archived lists and completed tasks show up here.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className={cn('space-y-2', className)}>
+      {items.map((item) => (
+        <li
+          key={`${item.type}-${item.id}`}
+          className="flex items-center gap-4 bg-white border border-gray-200 rounded-xl px-4 py-3"
+        >
+          <span className="shrink-0 px-2 py-0.5 rounded-md bg-gray-100 text-xs font-medium text-gray-600">
+            {TYPE_LABELS[item.type]}
+          </span>
+
+          <div className="flex-1 min-w-0">
+            <p className="truncate font-medium text-gray-900">{item.title}</p>
+            <p className="text-xs text-gray-500">{describeItem(item)}</p>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => onUnarchive(item)}
+            className="px-3 py-1.5 text-sm font-medium text-[#D97757] rounded-lg hover:bg-[#D97757]/10 transition-colors"
+          >
+            Unarchive
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
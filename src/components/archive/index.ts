@@ -0,0 +1,8 @@
+/**
+ * Archive Components
+ *
+ * UI components for browsing and unarchiving archived items.
+ */
+
+export { ArchiveList } from './ArchiveList';
+export type { ArchiveListProps } from './ArchiveList';
@@ -2,7 +2,8 @@
 
 import { cn } from '@/lib/utils/cn';
 import type { CalendarDay as CalendarDayType, CalendarEvent } from '@/lib/calendar/types';
-import { formatDateShort } from '@/lib/utils/date';
+import { getEventKey } from '@/lib/calendar/events';
+import { formatDateShort, isSameDay } from '@/lib/utils/date';
 import { Priority } from '@prisma/client';
 import { useMemo } from 'react';
 import { useDraggable, useDroppable } from '@dnd-kit/core';
@@ -131,7 +132,7 @@ export function CalendarDay({
       <div className="flex flex-col gap-1">
         {visibleEvents.map((event) => (
           <DraggableCalendarTaskChip
-            key={event.id}
+            key={getEventKey(event)}
             event={event}
             date={date}
             onClick={(e) => handleTaskClick(event, e)}
@@ -163,6 +164,9 @@ interface CalendarTaskChipProps {
 
 /**
  * Draggable task chip displayed in a calendar day.
+ *
+ * Multi-day events render as one segment per day, joined into a bar
+ * across neighbouring cells.
  */
 function DraggableCalendarTaskChip({
   event,
@@ -170,9 +174,16 @@ function DraggableCalendarTaskChip({
   onClick,
   enableDragDrop = true,
 }: CalendarTaskChipProps) {
+  const isDone = event.status === 'DONE' || event.status === 'CANCELLED';
+  const isOverdue = event.isOverdue && !isDone;
+  // Projected occurrences of recurring tasks are not real tasks and cannot be moved
+  const isDragDisabled = !enableDragDrop || isDone || !!event.isProjected;
+  const continuesBefore = !!event.isMultiDay && !isSameDay(event.start, date);
+  const continuesAfter = !!event.isMultiDay && !isSameDay(event.end, date);
+
   const { setNodeRef, attributes, listeners, isDragging, transform } = useDraggable({
-    id: getTaskDraggableId(event.id, date),
-    disabled: !enableDragDrop || event.status === 'DONE' || event.status === 'CANCELLED',
+    id: getTaskDraggableId(getEventKey(event), date),
+    disabled: isDragDisabled,
     data: {
       taskId: event.id,
       taskTitle: event.title,
@@ -180,10 +191,6 @@ function DraggableCalendarTaskChip({
     },
   });
 
-  const isDone = event.status === 'DONE' || event.status === 'CANCELLED';
-  const isOverdue = event.isOverdue && !isDone;
-  const isDragDisabled = !enableDragDrop || isDone;
-
   const style = transform
     ? {
         transform: `translate3d(${transform.x}px, ${transform.y}px, 0)`,
@@ -201,7 +208,10 @@ function DraggableCalendarTaskChip({
         'hover:shadow-sm',
         'truncate max-w-full',
         priorityColors[event.priority],
-        isDone ? 'opacity-60' : 'opacity-100',
+        event.isMultiDay && 'bg-primary/10',
+        continuesBefore && '-ml-2 rounded-l-none border-l-0',
+        continuesAfter && '-mr-2 rounded-r-none',
+        isDone || event.isProjected ? 'opacity-60' : 'opacity-100',
         isOverdue && 'bg-red-50 dark:bg-red-950/20',
         // Enable cursor interaction only when not dragging
         !isDragging && 'cursor-pointer',
@@ -2,6 +2,7 @@
 
 import { memo } from 'react';
 import type { DayViewData, CalendarEvent } from '@/lib/calendar/types';
+import { getEventKey } from '@/lib/calendar/events';
 import { TimeGrid } from './TimeGrid';
 import { cn } from '@/lib/utils';
 
@@ -135,7 +136,7 @@ export const DayCalendar = memo(function DayCalendar({
           <div className="space-y-2">
             {allDayEvents.map((event) => (
               <div
-                key={event.id}
+                key={getEventKey(event)}
                 className="flex items-center gap-2 p-2 bg-bg-primary rounded border-l-4 border-accent-tertiary cursor-pointer hover:bg-bg-tertiary transition-colors"
                 onClick={() => onEventClick?.(event)}
               >
@@ -2,6 +2,7 @@
 
 import { memo } from 'react';
 import type { CalendarEvent } from '@/lib/calendar/types';
+import { getEventKey } from '@/lib/calendar/events';
 import { getTimeString } from '@/lib/utils/date';
 import { cn } from '@/lib/utils';
 
@@ -138,7 +139,7 @@ export const TimeGrid = memo(function TimeGrid({
           const style = getEventStyle(event);
           return (
             <div
-              key={event.id}
+              key={getEventKey(event)}
               className={cn(
                 'absolute left-1 right-1 rounded-md border-l-4 p-2 cursor-pointer hover:opacity-90 transition-opacity overflow-hidden',
                 getPriorityColor(event.priority),
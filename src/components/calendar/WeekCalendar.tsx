@@ -2,6 +2,7 @@
 
 import { memo } from 'react';
 import type { WeekViewData, CalendarEvent } from '@/lib/calendar/types';
+import { getEventKey, getEventSpan } from '@/lib/calendar/events';
 import { cn } from '@/lib/utils';
 import { getTimeString } from '@/lib/utils/date';
 
@@ -32,6 +33,7 @@ export interface WeekCalendarProps {
  * Week calendar view with 7-day time grid.
  *
  * Displays a full week with events positioned by time and day.
+ * All-day and multi-day events are shown as bars above the time grid.
  */
 export const WeekCalendar = memo(function WeekCalendar({
   weekViewData,
@@ -93,6 +95,9 @@ export const WeekCalendar = memo(function WeekCalendar({
   const displayHours = weekViewData.hours.filter((h) => h >= startHour && h <= endHour);
   const gridHeight = displayHours.length * hourHeight;
 
+  const weekDates = weekViewData.days.map((day) => day.date);
+  const allDayEvents = weekViewData.events.filter((event) => event.allDay);
+
   const now = new Date();
   const currentHour = now.getHours();
   const currentMinute = now.getMinutes();
@@ -154,6 +159,43 @@ export const WeekCalendar = memo(function WeekCalendar({
         ))}
       </div>
 
+      {/* All-day events */}
+      {allDayEvents.length > 0 && (
+        <div className="flex mb-2">
+          <div className="w-16 flex-shrink-0 pr-2 text-right text-xs text-text-secondary">
+            All day
+          </div>
+          <div className="flex-1 grid grid-cols-7 gap-y-1" style={{ minWidth: 0 }}>
+            {allDayEvents.map((event) => {
+              const span = getEventSpan(event, weekDates);
+              if (!span) return null;
+
+              const startsInWeek = span.start > 0 || event.start >= weekDates[0];
+              const endsInWeek =
+                span.start + span.span < weekDates.length || event.end <= weekViewData.endDate;
+
+              return (
+                <div
+                  key={getEventKey(event)}
+                  className={cn(
+                    'mx-0.5 px-2 py-0.5 border-l-2 text-xs font-medium truncate cursor-pointer hover:opacity-90 transition-opacity',
+                    getPriorityColor(event.priority),
+                    startsInWeek ? 'rounded-l-md' : 'border-l-0',
+                    endsInWeek && 'rounded-r-md',
+                    event.status === 'DONE' && 'opacity-60 line-through'
+                  )}
+                  style={{ gridColumn: `${span.start + 1} / span ${span.span}` }}
+                  onClick={() => onEventClick?.(event)}
+                  title={event.title}
+                >
+                  {event.title}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Week grid */}
       <div className="bg-bg-secondary rounded-lg border border-border-secondary overflow-x-auto">
         <div className="relative" style={{ height: `${gridHeight}px`, minWidth: '600px' }}>
@@ -264,7 +306,7 @@ export const WeekCalendar = memo(function WeekCalendar({
 
               return (
                 <div
-                  key={event.id}
+                  key={getEventKey(event)}
                   className={cn(
                     'absolute rounded-md border-l-2 p-1 cursor-pointer hover:opacity-90 transition-opacity overflow-hidden',
                     getPriorityColor(event.priority),
@@ -7,6 +7,7 @@ import { cn } from '@/lib/utils/cn';
 import { TaskStatus, Priority } from '@prisma/client';
 import type { TaskWithQuadrant } from '@/lib/eisenhower';
 import { TagBadge } from '@/components/tags/TagBadge';
+import { markdownToPlainText } from '@/lib/markdown';
 
 export interface EisenhowerTaskCardProps {
   task: TaskWithQuadrant;
@@ -176,7 +177,9 @@ export const EisenhowerTaskCard = memo(function EisenhowerTaskCard({
 
       {/* Description preview */}
       {task.description && (
-        <p className="text-xs text-text-tertiary mt-2 line-clamp-2">{task.description}</p>
+        <p className="text-xs text-text-tertiary mt-2 line-clamp-2">
+          {markdownToPlainText(task.description)}
+        </p>
       )}
 
       {/* Subtasks indicator */}
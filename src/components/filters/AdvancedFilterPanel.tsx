@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/Button';
 import { cn } from '@/lib/utils';
+import { parseFilterQuery, quoteFilterValue, FilterQueryError } from '@/lib/filters/query';
 import type { TaskStatus, Priority } from '@/lib/tasks/types';
 
 export interface TaskFilter {
@@ -13,8 +14,12 @@ export interface TaskFilter {
   dueDateFrom?: string;
   dueDateTo?: string;
   search?: string;
+  /** Filter query language expression; replaces the form fields when set */
+  query?: string;
 }
 
+type FilterMode = 'form' | 'text';
+
 export interface AdvancedFilterPanelProps {
   isOpen: boolean;
   onClose: () => void;
@@ -26,6 +31,48 @@ export interface AdvancedFilterPanelProps {
   className?: string;
 }
 
+/**
+ * Write the form fields as an equivalent filter query.
+ */
+function formatFilterQuery(
+  filter: TaskFilter,
+  lists: NonNullable<AdvancedFilterPanelProps['lists']>,
+  tags: NonNullable<AdvancedFilterPanelProps['tags']>
+): string {
+  const toArray = <T,>(value: T | T[] | undefined): T[] =>
+    value === undefined ? [] : Array.isArray(value) ? value : [value];
+  const anyOf = (terms: string[]) => (terms.length > 1 ? `(${terms.join(' OR ')})` : terms[0]);
+  const parts: string[] = [];
+
+  const statuses = toArray(filter.status);
+  if (statuses.length > 0) {
+    parts.push(anyOf(statuses.map((status) => `status:${status.toLowerCase()}`)));
+  }
+  const priorities = toArray(filter.priority);
+  if (priorities.length > 0) {
+    parts.push(anyOf(priorities.map((priority) => `priority:${priority.toLowerCase()}`)));
+  }
+  const list = lists.find((l) => l.id === filter.listId);
+  if (list) {
+    parts.push(`list:${quoteFilterValue(list.title)}`);
+  }
+  const tagNames = tags.filter((tag) => filter.tagIds?.includes(tag.id)).map((tag) => tag.name);
+  if (tagNames.length > 0) {
+    parts.push(anyOf(tagNames.map((name) => `tag:${quoteFilterValue(name)}`)));
+  }
+  if (filter.dueDateFrom) {
+    parts.push(`due:>=${filter.dueDateFrom}`);
+  }
+  if (filter.dueDateTo) {
+    parts.push(`due:<=${filter.dueDateTo}`);
+  }
+  if (filter.search) {
+    parts.push(`"${filter.search.replace(/"/g, '')}"`);
+  }
+
+  return parts.join(' AND ');
+}
+
 /**
  * Advanced filter panel for custom task filtering.
  *
@@ -36,6 +83,8 @@ export interface AdvancedFilterPanelProps {
  * - Filter by tags (multiple selection)
  * - Filter by date range
  * - Filter by search query
+ * - Text mode with the filter query language, e.g.
+ *   `priority:high AND (tag:work OR list:Inbox) AND due:<7d AND NOT status:done`
  * - Clear all filters
  */
 export function AdvancedFilterPanel({
@@ -49,6 +98,28 @@ export function AdvancedFilterPanel({
   className,
 }: AdvancedFilterPanelProps) {
   const [filter, setFilter] = useState<TaskFilter>(currentFilter);
+  const [mode, setMode] = useState<FilterMode>(currentFilter.query ? 'text' : 'form');
+  const [queryText, setQueryText] = useState(currentFilter.query ?? '');
+
+  const queryError = useMemo(() => {
+    try {
+      parseFilterQuery(queryText);
+      return null;
+    } catch (err) {
+      return err instanceof FilterQueryError ? err : null;
+    }
+  }, [queryText]);
+
+  const handleModeChange = useCallback(
+    (next: FilterMode) => {
+      // Start text mode from the current form selection
+      if (next === 'text' && !queryText.trim()) {
+        setQueryText(formatFilterQuery(filter, lists, tags));
+      }
+      setMode(next);
+    },
+    [filter, lists, tags, queryText]
+  );
 
   const handleStatusChange = useCallback((status: TaskStatus) => {
     setFilter((prev) => {
@@ -99,12 +170,21 @@ export function AdvancedFilterPanel({
   }, []);
 
   const handleApply = useCallback(() => {
-    onApply(filter);
+    if (mode === 'text') {
+      if (queryError) return;
+      const query = queryText.trim();
+      onApply(query ? { query } : {});
+    } else {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { query, ...fields } = filter;
+      onApply(fields);
+    }
     onClose();
-  }, [filter, onApply, onClose]);
+  }, [mode, filter, queryText, queryError, onApply, onClose]);
 
   const handleClearFilters = useCallback(() => {
     setFilter({});
+    setQueryText('');
     onClear();
   }, [onClear]);
 
@@ -144,154 +224,224 @@ export function AdvancedFilterPanel({
       )}
     >
       <div className="p-4">
-        {/* Status Filter */}
-        <div className="mb-6">
-          <h3 className="text-sm font-semibold text-text-primary mb-2">Status</h3>
-          <div className="flex flex-wrap gap-2">
-            {statusOptions.map((option) => (
-              <button
-                key={option.value}
-                onClick={() => handleStatusChange(option.value)}
-                className={cn(
-                  'px-3 py-1.5 rounded-md text-sm font-medium transition-all duration-200',
-                  'border-2',
-                  selectedStatuses.includes(option.value)
-                    ? 'border-primary bg-primary/10 text-primary'
-                    : 'border-border hover:border-primary/50'
-                )}
-              >
-                {option.label}
-              </button>
-            ))}
-          </div>
-        </div>
-
-        {/* Priority Filter */}
-        <div className="mb-6">
-          <h3 className="text-sm font-semibold text-text-primary mb-2">Priority</h3>
-          <div className="flex flex-wrap gap-2">
-            {priorityOptions.map((option) => (
-              <button
-                key={option.value}
-                onClick={() => handlePriorityChange(option.value)}
-                className={cn(
-                  'px-3 py-1.5 rounded-md text-sm font-medium transition-all duration-200',
-                  'border-2',
-                  selectedPriorities.includes(option.value)
-                    ? 'border-primary bg-primary/10 text-primary'
-                    : 'border-border hover:border-primary/50'
-                )}
-              >
-                {option.label}
-              </button>
-            ))}
-          </div>
+        {/* Mode Toggle */}
+        <div className="flex gap-2 mb-6">
+          {(['form', 'text'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => handleModeChange(option)}
+              className={cn(
+                'px-3 py-1.5 rounded-md text-sm font-medium transition-all duration-200',
+                'border-2',
+                mode === option
+                  ? 'border-primary bg-primary/10 text-primary'
+                  : 'border-border hover:border-primary/50'
+              )}
+              aria-pressed={mode === option}
+            >
+              {option === 'form' ? 'Form' : 'Query'}
+            </button>
+          ))}
         </div>
 
-        {/* List Filter */}
-        {lists.length > 0 && (
+        {mode === 'text' ? (
           <div className="mb-6">
-            <h3 className="text-sm font-semibold text-text-primary mb-2">List</h3>
-            <select
-              value={filter.listId || ''}
-              onChange={(e) =>
-                setFilter((prev) => ({
-                  ...prev,
-                  listId: e.target.value || undefined,
-                }))
-              }
-              className="w-full px-3 py-2 bg-background-secondary border border-border rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
-            >
-              <option value="">All Lists</option>
-              {lists.map((list) => (
-                <option key={list.id} value={list.id}>
-                  {list.icon ? `${list.icon} ` : ''}
-                  {list.title}
-                </option>
-              ))}
-            </select>
+            <label htmlFor="filterQuery" className="text-sm font-semibold text-text-primary">
+              Filter Query
+            </label>
+            <textarea
+              id="filterQuery"
+              value={queryText}
+              onChange={(e) => setQueryText(e.target.value)}
+              rows={3}
+              spellCheck={false}
+              placeholder="priority:high AND (tag:work OR list:Inbox) AND due:<7d AND NOT status:done"
+              className={cn(
+                'w-full mt-2 px-3 py-2 bg-background-secondary border rounded-md font-mono text-sm text-text-primary',
+                'focus:outline-none focus:ring-2 focus:ring-primary/50',
+                queryError ? 'border-error' : 'border-border'
+              )}
+              aria-invalid={queryError !== null}
+              aria-describedby="filterQueryHelp"
+            />
+            {queryError ? (
+              <div id="filterQueryHelp" className="mt-2 text-xs" role="alert">
+                <div className="font-mono whitespace-pre-wrap break-all text-text-secondary">
+                  {queryText.slice(0, queryError.start)}
+                  <mark className="bg-error/20 text-error rounded-sm">
+                    {queryText.slice(queryError.start, queryError.end) || ' '}
+                  </mark>
+                  {queryText.slice(queryError.end)}
+                </div>
+                <p className="mt-1 text-error">
+                  {queryError.message} (position {queryError.start + 1})
+                </p>
+              </div>
+            ) : (
+              <p id="filterQueryHelp" className="mt-2 text-xs text-text-tertiary">
+                Fields: status, priority, tag, list, title, due, start, completed, created, has
+                (goal, tags, due, start). Combine with AND, OR, NOT and parentheses. Dates: today,
+                tomorrow, 7d, -2w, 2025-06-30, none, any; compare with &lt;, &lt;=, &gt;, &gt;=.
+              </p>
+            )}
           </div>
-        )}
-
-        {/* Tags Filter */}
-        {tags.length > 0 && (
-          <div className="mb-6">
-            <h3 className="text-sm font-semibold text-text-primary mb-2">Tags</h3>
-            <div className="flex flex-wrap gap-2">
-              {tags.map((tag) => {
-                const isSelected = filter.tagIds?.includes(tag.id);
-                return (
+        ) : (
+          <>
+            {/* Status Filter */}
+            <div className="mb-6">
+              <h3 className="text-sm font-semibold text-text-primary mb-2">Status</h3>
+              <div className="flex flex-wrap gap-2">
+                {statusOptions.map((option) => (
                   <button
-                    key={tag.id}
-                    onClick={() => handleTagToggle(tag.id)}
+                    key={option.value}
+                    onClick={() => handleStatusChange(option.value)}
                     className={cn(
                       'px-3 py-1.5 rounded-md text-sm font-medium transition-all duration-200',
                       'border-2',
-                      isSelected
+                      selectedStatuses.includes(option.value)
                         ? 'border-primary bg-primary/10 text-primary'
                         : 'border-border hover:border-primary/50'
                     )}
-                    style={
-                      !isSelected
-                        ? { backgroundColor: `${tag.color}20`, borderColor: tag.color }
-                        : undefined
-                    }
                   >
-                    {tag.name}
+                    {option.label}
                   </button>
-                );
-              })}
+                ))}
+              </div>
             </div>
-          </div>
-        )}
 
-        {/* Date Range Filter */}
-        <div className="mb-6">
-          <h3 className="text-sm font-semibold text-text-primary mb-2">Due Date</h3>
-          <div className="flex gap-2">
-            <div className="flex-1">
-              <label htmlFor="dueDateFrom" className="text-xs text-text-secondary">
-                From
-              </label>
-              <input
-                id="dueDateFrom"
-                type="date"
-                value={filter.dueDateFrom || ''}
-                onChange={(e) =>
-                  setFilter((prev) => ({
-                    ...prev,
-                    dueDateFrom: e.target.value || undefined,
-                  }))
-                }
-                className="w-full px-3 py-2 bg-background-secondary border border-border rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
-              />
+            {/* Priority Filter */}
+            <div className="mb-6">
+              <h3 className="text-sm font-semibold text-text-primary mb-2">Priority</h3>
+              <div className="flex flex-wrap gap-2">
+                {priorityOptions.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => handlePriorityChange(option.value)}
+                    className={cn(
+                      'px-3 py-1.5 rounded-md text-sm font-medium transition-all duration-200',
+                      'border-2',
+                      selectedPriorities.includes(option.value)
+                        ? 'border-primary bg-primary/10 text-primary'
+                        : 'border-border hover:border-primary/50'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
             </div>
-            <div className="flex-1">
-              <label htmlFor="dueDateTo" className="text-xs text-text-secondary">
-                To
-              </label>
-              <input
-                id="dueDateTo"
-                type="date"
-                value={filter.dueDateTo || ''}
-                onChange={(e) =>
-                  setFilter((prev) => ({
-                    ...prev,
-                    dueDateTo: e.target.value || undefined,
-                  }))
-                }
-                className="w-full px-3 py-2 bg-background-secondary border border-border rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
-              />
+
+            {/* List Filter */}
+            {lists.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-text-primary mb-2">List</h3>
+                <select
+                  value={filter.listId || ''}
+                  onChange={(e) =>
+                    setFilter((prev) => ({
+                      ...prev,
+                      listId: e.target.value || undefined,
+                    }))
+                  }
+                  className="w-full px-3 py-2 bg-background-secondary border border-border rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                >
+                  <option value="">All Lists</option>
+                  {lists.map((list) => (
+                    <option key={list.id} value={list.id}>
+                      {list.icon ? `${list.icon} ` : ''}
+                      {list.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Tags Filter */}
+            {tags.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-text-primary mb-2">Tags</h3>
+                <div className="flex flex-wrap gap-2">
+                  {tags.map((tag) => {
+                    const isSelected = filter.tagIds?.includes(tag.id);
+                    return (
+                      <button
+                        key={tag.id}
+                        onClick={() => handleTagToggle(tag.id)}
+                        className={cn(
+                          'px-3 py-1.5 rounded-md text-sm font-medium transition-all duration-200',
+                          'border-2',
+                          isSelected
+                            ? 'border-primary bg-primary/10 text-primary'
+                            : 'border-border hover:border-primary/50'
+                        )}
+                        style={
+                          !isSelected
+                            ? { backgroundColor: `${tag.color}20`, borderColor: tag.color }
+                            : undefined
+                        }
+                      >
+                        {tag.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Date Range Filter */}
+            <div className="mb-6">
+              <h3 className="text-sm font-semibold text-text-primary mb-2">Due Date</h3>
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <label htmlFor="dueDateFrom" className="text-xs text-text-secondary">
+                    From
+                  </label>
+                  <input
+                    id="dueDateFrom"
+                    type="date"
+                    value={filter.dueDateFrom || ''}
+                    onChange={(e) =>
+                      setFilter((prev) => ({
+                        ...prev,
+                        dueDateFrom: e.target.value || undefined,
+                      }))
+                    }
+                    className="w-full px-3 py-2 bg-background-secondary border border-border rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                  />
+                </div>
+                <div className="flex-1">
+                  <label htmlFor="dueDateTo" className="text-xs text-text-secondary">
+                    To
+                  </label>
+                  <input
+                    id="dueDateTo"
+                    type="date"
+                    value={filter.dueDateTo || ''}
+                    onChange={(e) =>
+                      setFilter((prev) => ({
+                        ...prev,
+                        dueDateTo: e.target.value || undefined,
+                      }))
+                    }
+                    className="w-full px-3 py-2 bg-background-secondary border border-border rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                  />
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
+          </>
+        )}
 
         {/* Actions */}
         <div className="flex gap-2 pt-2 border-t border-border">
           <Button variant="outline" onClick={handleClearFilters} className="flex-1">
             Clear All
           </Button>
-          <Button variant="primary" onClick={handleApply} className="flex-1">
+          <Button
+            variant="primary"
+            onClick={handleApply}
+            disabled={mode === 'text' && queryError !== null}
+            className="flex-1"
+          >
             Apply Filters
           </Button>
         </div>
@@ -5,6 +5,7 @@ import { Modal } from '@/components/ui/Modal';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
 import { useSavedFilters } from '@/hooks/useSavedFilters';
+import { cn } from '@/lib/utils';
 import type { SavedFilter } from '@/lib/filters/types';
 
 export interface SavedFiltersModalProps {
@@ -24,6 +25,8 @@ export interface SavedFiltersModalProps {
  * - Delete saved filters
  * - Select saved filter to apply
  * - Edit saved filter names
+ * - Pin filters to the smart list sidebar
+ * - Reorder saved filters
  */
 export function SavedFiltersModal({
   isOpen,
@@ -32,20 +35,23 @@ export function SavedFiltersModal({
   currentFilter,
   className,
 }: SavedFiltersModalProps) {
-  const { savedFilters, createFilter, deleteFilter, updateFilter } = useSavedFilters();
+  const { savedFilters, error, createFilter, deleteFilter, updateFilter, togglePin, moveFilter } =
+    useSavedFilters();
   const [newFilterName, setNewFilterName] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
 
-  const handleCreateFilter = useCallback(() => {
+  const handleCreateFilter = useCallback(async () => {
     if (!newFilterName.trim() || !currentFilter) return;
 
-    createFilter({
+    const created = await createFilter({
       name: newFilterName.trim(),
       filter: currentFilter,
     });
 
-    setNewFilterName('');
+    if (created) {
+      setNewFilterName('');
+    }
   }, [newFilterName, currentFilter, createFilter]);
 
   const handleDeleteFilter = useCallback(
@@ -63,11 +69,12 @@ export function SavedFiltersModal({
   }, []);
 
   const handleSaveEdit = useCallback(
-    (id: string) => {
+    async (id: string) => {
       if (!editName.trim()) return;
-      updateFilter(id, { name: editName.trim() });
-      setEditingId(null);
-      setEditName('');
+      if (await updateFilter(id, { name: editName.trim() })) {
+        setEditingId(null);
+        setEditName('');
+      }
     },
     [editName, updateFilter]
   );
@@ -114,6 +121,8 @@ export function SavedFiltersModal({
         <div>
           <h3 className="text-sm font-semibold text-text-primary mb-3">Saved Filters</h3>
 
+          {error && <p className="text-sm text-error mb-3">{error}</p>}
+
           {savedFilters.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-text-secondary text-sm mb-3">No saved filters yet</p>
@@ -123,7 +132,7 @@ export function SavedFiltersModal({
             </div>
           ) : (
             <div className="space-y-2 max-h-64 overflow-y-auto">
-              {savedFilters.map((filter) => (
+              {savedFilters.map((filter, index) => (
                 <div
                   key={filter.id}
                   className="flex items-center gap-2 p-3 bg-background-secondary rounded-lg group hover:bg-background-tertiary transition-colors"
@@ -159,9 +168,78 @@ export function SavedFiltersModal({
                     )}
                   </div>
 
+                  {/* Pin */}
+                  {editingId !== filter.id && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => togglePin(filter.id)}
+                      className={cn(
+                        'p-1',
+                        filter.pinned
+                          ? 'text-primary'
+                          : 'opacity-0 group-hover:opacity-100 transition-opacity'
+                      )}
+                      aria-label={filter.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                      aria-pressed={filter.pinned}
+                      title={filter.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                    >
+                      <svg
+                        width="16"
+                        height="16"
+                        viewBox="0 0 24 24"
+                        fill={filter.pinned ? 'currentColor' : 'none'}
+                        stroke="currentColor"
+                        strokeWidth="2"
+                      >
+                        <path d="M12 17v5" />
+                        <path d="M9 10.76V6h6v4.76a2 2 0 0 0 1.11 1.79l1.78.9A2 2 0 0 1 19 15.24V17H5v-1.76a2 2 0 0 1 1.11-1.79l1.78-.9A2 2 0 0 0 9 10.76z" />
+                        <path d="M8 2h8v4H8z" />
+                      </svg>
+                    </Button>
+                  )}
+
                   {/* Actions */}
                   {editingId !== filter.id && (
                     <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveFilter(filter.id, 'up')}
+                        disabled={index === 0}
+                        className="p-1"
+                        aria-label="Move up"
+                      >
+                        <svg
+                          width="16"
+                          height="16"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                        >
+                          <path d="M18 15l-6-6-6 6" />
+                        </svg>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveFilter(filter.id, 'down')}
+                        disabled={index === savedFilters.length - 1}
+                        className="p-1"
+                        aria-label="Move down"
+                      >
+                        <svg
+                          width="16"
+                          height="16"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                        >
+                          <path d="M6 9l6 6 6-6" />
+                        </svg>
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
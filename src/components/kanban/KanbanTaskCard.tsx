@@ -7,6 +7,7 @@ import { cn } from '@/lib/utils/cn';
 import { TaskStatus, Priority } from '@prisma/client';
 import type { TaskDto } from '@/lib/tasks/types';
 import { TagBadge } from '@/components/tags/TagBadge';
+import { markdownToPlainText } from '@/lib/markdown';
 
 export interface KanbanTaskCardProps {
   task: TaskDto;
@@ -164,7 +165,9 @@ export const KanbanTaskCard = memo(function KanbanTaskCard({
 
       {/* Description preview */}
       {task.description && (
-        <p className="text-xs text-text-tertiary mt-2 line-clamp-2">{task.description}</p>
+        <p className="text-xs text-text-tertiary mt-2 line-clamp-2">
+          {markdownToPlainText(task.description)}
+        </p>
       )}
 
       {/* Subtasks indicator */}
@@ -183,6 +186,34 @@ export const KanbanTaskCard = memo(function KanbanTaskCard({
           {task._count?.subtasks ?? 0} subtasks
         </div>
       )}
+
+      {/* Checklist progress */}
+      {(task.checklist?.total ?? 0) > 0 && (
+        <div
+          className={cn(
+            'flex items-center gap-1 mt-2 text-xs',
+            task.checklist?.completed === task.checklist?.total
+              ? 'text-success'
+              : 'text-text-tertiary'
+          )}
+        >
+          <svg
+            className="w-3 h-3"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+          >
+            <line x1="8" y1="6" x2="21" y2="6" />
+            <line x1="8" y1="12" x2="21" y2="12" />
+            <line x1="8" y1="18" x2="21" y2="18" />
+            <line x1="3" y1="6" x2="3.01" y2="6" />
+            <line x1="3" y1="12" x2="3.01" y2="12" />
+            <line x1="3" y1="18" x2="3.01" y2="18" />
+          </svg>
+          {task.checklist?.completed}/{task.checklist?.total} checklist
+        </div>
+      )}
     </div>
   );
 });
@@ -2,7 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { Modal, Button, Input } from '@/components/ui';
+import { TemplatePicker } from '@/components/templates';
+import { format } from '@/lib/utils/date';
 import type { ListDto } from '@/lib/lists/types';
+import type { TemplateDto } from '@/lib/templates/types';
 
 export interface AddListModalProps {
   isOpen: boolean;
@@ -12,8 +15,17 @@ export interface AddListModalProps {
     description?: string;
     icon?: string;
     color?: string;
+    /** Template to create the list's tasks from */
+    templateId?: string;
+    /** Day the template's relative due dates count from (yyyy-MM-dd) */
+    baseDate?: string;
   }) => Promise<boolean>;
   list?: ListDto | null;
+  /** List templates offered when creating a list */
+  templates?: TemplateDto[];
+  onDeleteTemplate?: (templateId: string) => void;
+  /** Save the edited list as a template */
+  onSaveAsTemplate?: () => Promise<boolean>;
   isLoading?: boolean;
 }
 
@@ -56,6 +68,8 @@ const PREDEFINED_COLORS = [
  * - Title and description inputs
  * - Icon picker (emoji)
  * - Color picker (preset colors)
+ * - Start from a list template with a start date
+ * - Save an existing list as a template
  * - Create/Edit mode based on props
  */
 export function AddListModal({
@@ -63,6 +77,9 @@ export function AddListModal({
   onClose,
   onSave,
   list,
+  templates,
+  onDeleteTemplate,
+  onSaveAsTemplate,
   isLoading = false,
 }: AddListModalProps) {
   const [title, setTitle] = useState('');
@@ -70,6 +87,9 @@ export function AddListModal({
   const [icon, setIcon] = useState('📝');
   const [color, setColor] = useState(PREDEFINED_COLORS[0]);
   const [error, setError] = useState('');
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [baseDate, setBaseDate] = useState('');
+  const [isTemplateSaved, setIsTemplateSaved] = useState(false);
 
   // Reset form when modal opens or list changes
   useEffect(() => {
@@ -86,9 +106,38 @@ export function AddListModal({
         setColor(PREDEFINED_COLORS[0]);
       }
       setError('');
+      setTemplateId(null);
+      setBaseDate(format(new Date()));
+      setIsTemplateSaved(false);
     }
   }, [isOpen, list]);
 
+  const handleSelectTemplate = (template: TemplateDto) => {
+    if (templateId === template.id) {
+      setTemplateId(null);
+      return;
+    }
+
+    setTemplateId(template.id);
+    const info = template.content.list;
+    if (info) {
+      if (!title.trim()) setTitle(info.title);
+      if (!description.trim()) setDescription(info.description || '');
+      if (info.icon) setIcon(info.icon);
+      if (info.color) setColor(info.color);
+    }
+  };
+
+  const handleDeleteTemplate = (template: TemplateDto) => {
+    if (templateId === template.id) setTemplateId(null);
+    onDeleteTemplate?.(template.id);
+  };
+
+  const handleSaveAsTemplate = async () => {
+    if (!onSaveAsTemplate) return;
+    setIsTemplateSaved(await onSaveAsTemplate());
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -109,6 +158,7 @@ export function AddListModal({
       description: description.trim() || undefined,
       icon,
       color,
+      ...(templateId && { templateId, baseDate: baseDate || undefined }),
     });
 
     if (success) {
@@ -124,6 +174,16 @@ export function AddListModal({
       size="sm"
       footer={
         <>
+          {list && onSaveAsTemplate && (
+            <Button
+              variant="ghost"
+              onClick={handleSaveAsTemplate}
+              disabled={isLoading || isTemplateSaved}
+              className="mr-auto"
+            >
+              {isTemplateSaved ? 'Saved as template' : 'Save as template'}
+            </Button>
+          )}
           <Button variant="ghost" onClick={onClose} disabled={isLoading}>
             Cancel
           </Button>
@@ -154,6 +214,30 @@ export function AddListModal({
           maxLength={500}
         />
 
+        {/* Template picker */}
+        {!list && templates && (
+          <div className="flex flex-col gap-2">
+            <label className="text-sm font-medium text-text-primary">
+              Start from template (Optional)
+            </label>
+            <TemplatePicker
+              templates={templates}
+              selectedId={templateId}
+              onSelect={handleSelectTemplate}
+              onDelete={onDeleteTemplate && handleDeleteTemplate}
+              emptyMessage="No list templates yet. Save a list as a template while editing it."
+            />
+            {templateId && (
+              <Input
+                type="date"
+                label="Start date"
+                value={baseDate}
+                onChange={(e) => setBaseDate(e.target.value)}
+              />
+            )}
+          </div>
+        )}
+
         {/* Icon picker */}
         <div className="flex flex-col gap-2">
           <label className="text-sm font-medium text-text-primary">Icon</label>
@@ -10,7 +10,10 @@ export interface ListButtonProps {
   onClick: () => void;
   onToggleFavorite?: (listId: string, isFavorite: boolean) => void;
   onEdit?: (list: ListDto) => void;
+  onDuplicate?: (list: ListDto) => void;
   onDelete?: (list: ListDto) => void;
+  onArchive?: (list: ListDto) => void;
+  onArchiveCompleted?: (list: ListDto) => void;
   showActions?: boolean;
 }
 
@@ -22,11 +25,22 @@ export interface ListButtonProps {
  * - Task count badge
  * - Favorite star toggle
  * - Active state indicator
- * - Hover actions (edit, delete)
+ * - Hover actions (edit, duplicate, archive completed, archive, delete)
  */
 export const ListButton = forwardRef<HTMLButtonElement, ListButtonProps>(
   (
-    { list, isActive = false, onClick, onToggleFavorite, onEdit, onDelete, showActions = false },
+    {
+      list,
+      isActive = false,
+      onClick,
+      onToggleFavorite,
+      onEdit,
+      onDuplicate,
+      onDelete,
+      onArchive,
+      onArchiveCompleted,
+      showActions = false,
+    },
     ref
   ) => {
     const handleFavoriteClick = (e: React.MouseEvent) => {
@@ -39,11 +53,26 @@ export const ListButton = forwardRef<HTMLButtonElement, ListButtonProps>(
       onEdit?.(list);
     };
 
+    const handleDuplicateClick = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      onDuplicate?.(list);
+    };
+
     const handleDeleteClick = (e: React.MouseEvent) => {
       e.stopPropagation();
       onDelete?.(list);
     };
 
+    const handleArchiveClick = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      onArchive?.(list);
+    };
+
+    const handleArchiveCompletedClick = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      onArchiveCompleted?.(list);
+    };
+
     // Get display icon or default
     const displayIcon = list.icon || '📝';
 
@@ -120,43 +149,107 @@ export const ListButton = forwardRef<HTMLButtonElement, ListButtonProps>(
           </button>
         )}
 
-        {/* Hover actions */}
-        {showActions && !list.isDefault && (
+        {/* Hover actions; the default list can only have its completed tasks archived */}
+        {showActions && (!list.isDefault || onArchiveCompleted) && (
           <div className="absolute right-2 top-1/2 -translate-y-1/2 hidden group-hover:flex items-center gap-1 bg-background-card rounded-lg shadow-sm border border-border p-0.5">
-            <button
-              onClick={handleEditClick}
-              className="p-1.5 text-text-secondary hover:text-text-primary hover:bg-background-secondary rounded transition-all"
-              aria-label="Edit list"
-            >
-              <svg
-                width="14"
-                height="14"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
+            {onArchiveCompleted && (
+              <button
+                onClick={handleArchiveCompletedClick}
+                className="p-1.5 text-text-secondary hover:text-text-primary hover:bg-background-secondary rounded transition-all"
+                aria-label="Archive completed tasks"
+                title="Archive completed tasks"
               >
-                <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
-                <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
-              </svg>
-            </button>
-            <button
-              onClick={handleDeleteClick}
-              className="p-1.5 text-text-secondary hover:text-error hover:bg-error/10 rounded transition-all"
-              aria-label="Delete list"
-            >
-              <svg
-                width="14"
-                height="14"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-              >
-                <path d="M3 6h18" />
-                <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-              </svg>
-            </button>
+                <svg
+                  width="14"
+                  height="14"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                >
+                  <path d="M21 8v13H3V8" />
+                  <path d="M1 3h22v5H1z" />
+                  <path d="m9 14 2 2 4-4" />
+                </svg>
+              </button>
+            )}
+            {!list.isDefault && (
+              <>
+                <button
+                  onClick={handleEditClick}
+                  className="p-1.5 text-text-secondary hover:text-text-primary hover:bg-background-secondary rounded transition-all"
+                  aria-label="Edit list"
+                >
+                  <svg
+                    width="14"
+                    height="14"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                  >
+                    <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
+                    <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
+                  </svg>
+                </button>
+                {onDuplicate && (
+                  <button
+                    onClick={handleDuplicateClick}
+                    className="p-1.5 text-text-secondary hover:text-text-primary hover:bg-background-secondary rounded transition-all"
+                    aria-label="Duplicate list"
+                  >
+                    <svg
+                      width="14"
+                      height="14"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                    >
+                      <rect x="9" y="9" width="13" height="13" rx="2" />
+                      <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" />
+                    </svg>
+                  </button>
+                )}
+                {onArchive && (
+                  <button
+                    onClick={handleArchiveClick}
+                    className="p-1.5 text-text-secondary hover:text-text-primary hover:bg-background-secondary rounded transition-all"
+                    aria-label="Archive list"
+                  >
+                    <svg
+                      width="14"
+                      height="14"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                    >
+                      <path d="M21 8v13H3V8" />
+                      <path d="M1 3h22v5H1z" />
+                      <path d="M10 12h4" />
+                    </svg>
+                  </button>
+                )}
+                <button
+                  onClick={handleDeleteClick}
+                  className="p-1.5 text-text-secondary hover:text-error hover:bg-error/10 rounded transition-all"
+                  aria-label="Delete list"
+                >
+                  <svg
+                    width="14"
+                    height="14"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                  >
+                    <path d="M3 6h18" />
+                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                  </svg>
+                </button>
+              </>
+            )}
           </div>
         )}
       </button>
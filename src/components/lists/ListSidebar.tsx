@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { ListButton } from './ListButton';
 import { AddListModal } from './AddListModal';
 import { useLists } from '@/hooks/useLists';
+import { useTemplates } from '@/hooks/useTemplates';
 import { cn } from '@/lib/utils';
 import type { ListDto } from '@/lib/lists/types';
 
@@ -23,10 +24,28 @@ export interface ListSidebarProps {
  * - Favorite lists section
  * - Add new list button
  * - Edit/delete lists
+ * - Archive lists and their completed tasks
  */
 export function ListSidebar({ activeListId, onSelectList, className }: ListSidebarProps) {
-  const { lists, isLoading, error, refetch, addList, updateList, deleteList, toggleFavorite } =
-    useLists({ autoFetch: true });
+  const {
+    lists,
+    isLoading,
+    error,
+    refetch,
+    addList,
+    updateList,
+    deleteList,
+    archiveList,
+    archiveCompletedTasks,
+    duplicateList,
+    toggleFavorite,
+  } = useLists({ autoFetch: true });
+  const {
+    templates: listTemplates,
+    saveTemplate,
+    deleteTemplate,
+    instantiateTemplate,
+  } = useTemplates({ kind: 'LIST' });
 
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [editingList, setEditingList] = useState<ListDto | null>(null);
@@ -46,8 +65,26 @@ export function ListSidebar({ activeListId, onSelectList, className }: ListSideb
     description?: string;
     icon?: string;
     color?: string;
+    templateId?: string;
+    baseDate?: string;
   }) => {
     setIsSaving(true);
+
+    if (data.templateId) {
+      const instance = await instantiateTemplate(data.templateId, {
+        title: data.title,
+        description: data.description ?? null,
+        icon: data.icon,
+        color: data.color,
+        baseDate: data.baseDate ? new Date(data.baseDate) : undefined,
+      });
+      if (instance) {
+        await refetch();
+      }
+      setIsSaving(false);
+      return !!instance;
+    }
+
     const result = await addList(data.title, {
       description: data.description,
       icon: data.icon,
@@ -57,6 +94,15 @@ export function ListSidebar({ activeListId, onSelectList, className }: ListSideb
     return !!result;
   };
 
+  const handleSaveListAsTemplate = async () => {
+    if (!editingList) return false;
+
+    const name = window.prompt('Template name', editingList.title)?.trim();
+    if (!name) return false;
+
+    return !!(await saveTemplate({ name, listId: editingList.id }));
+  };
+
   const handleUpdateList = async (data: {
     title: string;
     description?: string;
@@ -76,6 +122,23 @@ export function ListSidebar({ activeListId, onSelectList, className }: ListSideb
     return result;
   };
 
+  const handleArchiveList = async (list: ListDto) => {
+    const confirmed = window.confirm(
+      `Archive "${list.title}" with its tasks? You can unarchive it from the Archive.`
+    );
+
+    if (confirmed && (await archiveList(list.id)) && activeListId === list.id) {
+      onSelectList(null);
+    }
+  };
+
+  const handleArchiveCompleted = async (list: ListDto) => {
+    const count = await archiveCompletedTasks(list.id);
+    if (count === 0) {
+      alert(`"${list.title}" has no completed tasks to archive.`);
+    }
+  };
+
   const handleDeleteList = async (list: ListDto) => {
     if (list.isDefault) {
       alert('Cannot delete the default Inbox list.');
@@ -95,6 +158,13 @@ export function ListSidebar({ activeListId, onSelectList, className }: ListSideb
     }
   };
 
+  const handleDuplicateList = async (list: ListDto) => {
+    const copy = await duplicateList(list.id);
+    if (copy) {
+      onSelectList(copy.id);
+    }
+  };
+
   const handleToggleFavorite = async (listId: string, isFavorite: boolean) => {
     await toggleFavorite(listId, isFavorite);
   };
@@ -196,7 +266,10 @@ export function ListSidebar({ activeListId, onSelectList, className }: ListSideb
                         onClick={() => onSelectList(list.id)}
                         onToggleFavorite={handleToggleFavorite}
                         onEdit={setEditingList}
+                        onDuplicate={handleDuplicateList}
                         onDelete={handleDeleteList}
+                        onArchive={handleArchiveList}
+                        onArchiveCompleted={handleArchiveCompleted}
                         showActions
                       />
                     ))}
@@ -221,7 +294,10 @@ export function ListSidebar({ activeListId, onSelectList, className }: ListSideb
                         onClick={() => onSelectList(list.id)}
                         onToggleFavorite={handleToggleFavorite}
                         onEdit={setEditingList}
+                        onDuplicate={handleDuplicateList}
                         onDelete={handleDeleteList}
+                        onArchive={handleArchiveList}
+                        onArchiveCompleted={handleArchiveCompleted}
                         showActions
                       />
                     ))}
@@ -246,7 +322,43 @@ export function ListSidebar({ activeListId, onSelectList, className }: ListSideb
         </div>
 
         {/* Footer */}
-        <div className="p-4 border-t border-border">
+        <div className="p-4 border-t border-border space-y-3">
+          <a
+            href="/archive"
+            className="flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary transition-colors duration-200"
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M21 8v13H3V8" />
+              <path d="M1 3h22v5H1z" />
+              <path d="M10 12h4" />
+            </svg>
+            <span>Archive</span>
+          </a>
+          <a
+            href="/trash"
+            className="flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary transition-colors duration-200"
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M3 6h18" />
+              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6" />
+              <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+            </svg>
+            <span>Trash</span>
+          </a>
           <a
             href="/profile"
             className="flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary transition-colors duration-200"
@@ -272,6 +384,8 @@ export function ListSidebar({ activeListId, onSelectList, className }: ListSideb
         isOpen={isAddModalOpen}
         onClose={() => setIsAddModalOpen(false)}
         onSave={handleAddList}
+        templates={listTemplates}
+        onDeleteTemplate={deleteTemplate}
         isLoading={isSaving}
       />
 
@@ -280,6 +394,7 @@ export function ListSidebar({ activeListId, onSelectList, className }: ListSideb
         isOpen={!!editingList}
         onClose={() => setEditingList(null)}
         onSave={handleUpdateList}
+        onSaveAsTemplate={handleSaveListAsTemplate}
         list={editingList}
         isLoading={isSaving}
       />
@@ -0,0 +1,67 @@
+/**
+ * PushNotificationSettings Component
+ *
+ * Turns push notifications for reminders on or off in this browser.
+ */
+
+'use client';
+
+import { Bell, BellOff } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+
+export function PushNotificationSettings() {
+  const {
+    isSupported,
+    isConfigured,
+    isSubscribed,
+    permission,
+    isLoading,
+    error,
+    subscribe,
+    unsubscribe,
+  } = usePushNotifications();
+
+  let status: string;
+  if (!isSupported) {
+    status = 'This browser does not support push notifications.';
+  } else if (!isLoading && !isConfigured) {
+    status = 'Push notifications are not set up on this server.';
+  } else if (permission === 'denied') {
+    status = 'Notifications are blocked. Allow them in your browser settings to turn them on.';
+  } else if (isSubscribed) {
+    status = 'Push reminders are delivered to this device, even when the app is closed.';
+  } else {
+    status = 'Get push reminders on this device, with Complete and Snooze actions.';
+  }
+
+  const canToggle = isSupported && isConfigured && permission !== 'denied';
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex items-start gap-3">
+        {isSubscribed ? (
+          <Bell className="mt-0.5 h-5 w-5 text-primary" />
+        ) : (
+          <BellOff className="mt-0.5 h-5 w-5 text-text-tertiary" />
+        )}
+        <div>
+          <p className="font-medium text-text-primary">Push notifications</p>
+          <p className="text-sm text-text-secondary">{status}</p>
+          {error && <p className="mt-1 text-sm text-error">{error}</p>}
+        </div>
+      </div>
+
+      {canToggle && (
+        <Button
+          variant={isSubscribed ? 'outline' : 'primary'}
+          size="sm"
+          disabled={isLoading}
+          onClick={isSubscribed ? unsubscribe : subscribe}
+        >
+          {isSubscribed ? 'Turn off' : 'Turn on'}
+        </Button>
+      )}
+    </div>
+  );
+}
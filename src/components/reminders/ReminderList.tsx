@@ -75,6 +75,7 @@ export function ReminderList({
         const now = new Date();
         const isOverdue = fireTime < now && reminder.status === 'PENDING';
         const isSnoozed = reminder.status === 'SNOOZED';
+        const isPaused = reminder.status === 'PAUSED';
 
         return (
           <div
@@ -111,7 +112,7 @@ export function ReminderList({
                 <span
                   className={cn(
                     'text-xs px-2 py-0.5 rounded-full',
-                    reminder.status === 'DISMISSED'
+                    reminder.status === 'DISMISSED' || isPaused
                       ? 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400'
                       : isSnoozed
                         ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'
@@ -120,19 +121,27 @@ export function ReminderList({
                 >
                   {reminder.status === 'DISMISSED'
                     ? 'Dismissed'
-                    : isSnoozed
-                      ? 'Snoozed'
-                      : isOverdue
-                        ? 'Overdue'
-                        : 'Pending'}
+                    : isPaused
+                      ? 'Paused'
+                      : isSnoozed
+                        ? 'Snoozed'
+                        : isOverdue
+                          ? 'Overdue'
+                          : 'Pending'}
                 </span>
               </div>
 
               <div className="text-sm text-gray-600 dark:text-gray-400 mt-0.5">
-                {format(fireTime, 'MMM d, h:mm a')}
-                <span className="ml-2 text-xs text-gray-500">
-                  ({formatDistanceToNow(fireTime, { addSuffix: true })})
-                </span>
+                {isPaused ? (
+                  'Waiting for the task to get a due date'
+                ) : (
+                  <>
+                    {format(fireTime, 'MMM d, h:mm a')}
+                    <span className="ml-2 text-xs text-gray-500">
+                      ({formatDistanceToNow(fireTime, { addSuffix: true })})
+                    </span>
+                  </>
+                )}
               </div>
 
               {reminder.relativeOffset !== null && taskDueDate && (
@@ -155,43 +164,45 @@ export function ReminderList({
               {reminder.status !== 'DISMISSED' && (
                 <>
                   {/* Snooze Button */}
-                  <div className="relative">
-                    <button
-                      type="button"
-                      onClick={() =>
-                        setSnoozeMenuOpen(snoozeMenuOpen === reminder.id ? null : reminder.id)
-                      }
-                      className="p-2 text-gray-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors dark:text-gray-400 dark:hover:bg-amber-900/20"
-                      title="Snooze"
-                    >
-                      <RotateCcw className="w-4 h-4" />
-                    </button>
-
-                    {/* Snooze Dropdown */}
-                    {snoozeMenuOpen === reminder.id && (
-                      <>
-                        <div
-                          className="fixed inset-0 z-10"
-                          onClick={() => setSnoozeMenuOpen(null)}
-                        />
-                        <div className="absolute right-0 z-20 mt-1 w-40 bg-white rounded-lg shadow-lg border border-gray-200 dark:bg-gray-800 dark:border-gray-700">
-                          {SNOOZE_OPTIONS.map((option) => (
-                            <button
-                              key={option.minutes}
-                              type="button"
-                              onClick={() => {
-                                onSnooze(reminder.id, option.minutes);
-                                setSnoozeMenuOpen(null);
-                              }}
-                              className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 first:rounded-t-lg last:rounded-b-lg"
-                            >
-                              {option.label}
-                            </button>
-                          ))}
-                        </div>
-                      </>
-                    )}
-                  </div>
+                  {!isPaused && (
+                    <div className="relative">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setSnoozeMenuOpen(snoozeMenuOpen === reminder.id ? null : reminder.id)
+                        }
+                        className="p-2 text-gray-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors dark:text-gray-400 dark:hover:bg-amber-900/20"
+                        title="Snooze"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+
+                      {/* Snooze Dropdown */}
+                      {snoozeMenuOpen === reminder.id && (
+                        <>
+                          <div
+                            className="fixed inset-0 z-10"
+                            onClick={() => setSnoozeMenuOpen(null)}
+                          />
+                          <div className="absolute right-0 z-20 mt-1 w-40 bg-white rounded-lg shadow-lg border border-gray-200 dark:bg-gray-800 dark:border-gray-700">
+                            {SNOOZE_OPTIONS.map((option) => (
+                              <button
+                                key={option.minutes}
+                                type="button"
+                                onClick={() => {
+                                  onSnooze(reminder.id, option.minutes);
+                                  setSnoozeMenuOpen(null);
+                                }}
+                                className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 first:rounded-t-lg last:rounded-b-lg"
+                              >
+                                {option.label}
+                              </button>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
 
                   {/* Dismiss Button */}
                   <button
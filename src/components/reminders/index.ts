@@ -6,3 +6,4 @@ export { ReminderBadge } from './ReminderBadge';
 export { ReminderPicker } from './ReminderPicker';
 export { ReminderList } from './ReminderList';
 export { ReminderToast, ReminderToastContainer } from './ReminderToast';
+export { PushNotificationSettings } from './PushNotificationSettings';
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, KeyboardEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { Spinner } from '@/components/ui/Spinner';
+import { useSearch } from '@/hooks/useSearch';
+import { cn } from '@/lib/utils';
+import type { HighlightSegment, SearchResult, SearchResultType } from '@/lib/search/types';
+
+export interface CommandPaletteProps {
+  className?: string;
+}
+
+const typeLabels: Record<SearchResultType, string> = {
+  task: 'Task',
+  list: 'List',
+  tag: 'Tag',
+  habit: 'Habit',
+  goal: 'Goal',
+};
+
+/**
+ * Get the page a search result opens.
+ */
+function getResultHref(result: SearchResult): string {
+  switch (result.type) {
+    case 'task':
+      return `/tasks?task=${result.id}`;
+    case 'list':
+      return `/tasks?list=${result.id}`;
+    case 'tag':
+      return `/tasks?tag=${result.id}`;
+    case 'habit':
+      return '/habits';
+    case 'goal':
+      return `/goals/${result.id}`;
+  }
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark key={index} className="bg-primary/15 text-primary rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * CommandPalette component for searching across the app.
+ *
+ * Features:
+ * - Opens with Cmd+K / Ctrl+K from anywhere
+ * - Ranked full-text search over tasks, lists, tags, habits and goals
+ * - Highlighted matches and description snippets
+ * - "Quoted phrases" and prefix matching
+ * - Arrow keys to move, Enter to open, Escape to close
+ * - Warm Claude theme styling
+ */
+export function CommandPalette({ className }: CommandPaletteProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { results, isLoading, error } = useSearch(isOpen ? query : '', { limit: 20 });
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setQuery('');
+  }, []);
+
+  // Global shortcut
+  useEffect(() => {
+    const handleShortcut = (e: globalThis.KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsOpen((open) => !open);
+      }
+    };
+
+    document.addEventListener('keydown', handleShortcut);
+    return () => document.removeEventListener('keydown', handleShortcut);
+  }, []);
+
+  // Focus input when opened
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  // Reset selection when results change
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  const openResult = (result: SearchResult) => {
+    close();
+    router.push(getResultHref(result));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((index) => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (results[activeIndex]) {
+          openResult(results[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        close();
+        break;
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] px-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200"
+        onClick={close}
+        aria-hidden="true"
+      />
+
+      {/* Palette */}
+      <div
+        className={cn(
+          'relative z-10 w-full max-w-xl bg-background-card rounded-xl shadow-lg overflow-hidden',
+          'animate-in zoom-in-95 duration-200 ease-out',
+          className
+        )}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+      >
+        {/* Input */}
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-border">
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className="text-text-tertiary shrink-0"
+          >
+            <circle cx="11" cy="11" r="8" />
+            <line x1="21" y1="21" x2="16.65" y2="16.65" />
+          </svg>
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder='Search tasks, lists, tags... (use "quotes" for phrases)'
+            className="flex-1 bg-transparent outline-none text-text-primary placeholder:text-text-tertiary"
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls="command-palette-results"
+            aria-activedescendant={
+              results[activeIndex] ? `command-palette-result-${activeIndex}` : undefined
+            }
+          />
+          {isLoading && <Spinner size="sm" />}
+        </div>
+
+        {/* Results */}
+        <ul id="command-palette-results" role="listbox" className="max-h-96 overflow-y-auto py-2">
+          {results.map((result, index) => (
+            <li
+              key={`${result.type}-${result.id}`}
+              id={`command-palette-result-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => openResult(result)}
+              className={cn(
+                'flex items-start gap-3 px-4 py-2 cursor-pointer',
+                index === activeIndex && 'bg-primary/5'
+              )}
+            >
+              <span className="mt-0.5 px-1.5 py-0.5 rounded text-xs font-medium bg-background-secondary text-text-secondary shrink-0">
+                {result.parentId ? 'Subtask' : typeLabels[result.type]}
+              </span>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm text-text-primary truncate">
+                  <Highlighted segments={result.titleHighlight} />
+                </div>
+                {result.snippet && (
+                  <div className="text-xs text-text-tertiary truncate">
+                    <Highlighted segments={result.snippet} />
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+
+          {query.trim() && !isLoading && !error && results.length === 0 && (
+            <li className="px-4 py-6 text-center text-sm text-text-tertiary">No results</li>
+          )}
+          {error && <li className="px-4 py-6 text-center text-sm text-error">{error}</li>}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Search Components
+ *
+ * UI components for full-text search.
+ */
+
+export { CommandPalette } from './CommandPalette';
+export type { CommandPaletteProps } from './CommandPalette';
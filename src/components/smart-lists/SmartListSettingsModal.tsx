@@ -0,0 +1,220 @@
+'use client';
+
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { useSmartListPreferences } from '@/hooks/useSmartListPreferences';
+import { SMART_LISTS, REQUIRED_SMART_LISTS, type SmartListOptions } from '@/lib/smart-lists';
+import { cn } from '@/lib/utils';
+
+export interface SmartListSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const next7DaysModeOptions: Array<{ value: SmartListOptions['next7DaysMode']; label: string }> = [
+  { value: 'rolling', label: 'Next 7 days' },
+  { value: 'calendarWeek', label: 'This calendar week' },
+];
+
+/**
+ * SmartListSettingsModal component for customizing the smart list sidebar.
+ *
+ * Features:
+ * - Show/hide built-in smart lists
+ * - Reorder smart lists
+ * - Whether Today includes overdue tasks
+ * - Rolling window or calendar week for Next 7 Days
+ * - Whether All Tasks and Today hide deferred tasks
+ * - Changes apply immediately
+ */
+export function SmartListSettingsModal({ isOpen, onClose }: SmartListSettingsModalProps) {
+  const { preferences, toggleHidden, moveSmartList, updateOptions, resetPreferences } =
+    useSmartListPreferences();
+  const { order, hidden, options } = preferences;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Smart Lists">
+      <div className="space-y-6">
+        {/* Visibility & Order */}
+        <div>
+          <h3 className="text-sm font-semibold text-text-primary mb-3">Show in sidebar</h3>
+          <ul className="space-y-1">
+            {order.map((id, index) => {
+              const smartList = SMART_LISTS[id];
+              const isRequired = REQUIRED_SMART_LISTS.includes(id);
+              return (
+                <li
+                  key={id}
+                  className="flex items-center gap-3 px-3 py-2 bg-background-secondary rounded-lg"
+                >
+                  <input
+                    id={`smart-list-${id}`}
+                    type="checkbox"
+                    checked={!hidden.includes(id)}
+                    disabled={isRequired}
+                    onChange={() => toggleHidden(id)}
+                    className="w-4 h-4 accent-primary"
+                  />
+                  <label
+                    htmlFor={`smart-list-${id}`}
+                    className={cn(
+                      'flex-1 flex items-center gap-2 text-sm',
+                      hidden.includes(id) ? 'text-text-tertiary' : 'text-text-primary'
+                    )}
+                  >
+                    <span aria-hidden="true">{smartList.icon}</span>
+                    {smartList.name}
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveSmartList(id, 'up')}
+                    disabled={index === 0}
+                    className="p-1"
+                    aria-label={`Move ${smartList.name} up`}
+                  >
+                    <svg
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                    >
+                      <path d="M18 15l-6-6-6 6" />
+                    </svg>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveSmartList(id, 'down')}
+                    disabled={index === order.length - 1}
+                    className="p-1"
+                    aria-label={`Move ${smartList.name} down`}
+                  >
+                    <svg
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                    >
+                      <path d="M6 9l6 6 6-6" />
+                    </svg>
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        {/* Today Options */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-text-primary">Today</h3>
+          <label className="flex items-center justify-between cursor-pointer">
+            <span className="text-sm text-text-secondary">Include overdue tasks</span>
+            <div className="relative">
+              <input
+                type="checkbox"
+                checked={options.todayIncludesOverdue}
+                onChange={(e) => updateOptions({ todayIncludesOverdue: e.target.checked })}
+                className="sr-only"
+              />
+              <div
+                className={cn(
+                  'w-12 h-6 rounded-full transition-colors duration-200',
+                  options.todayIncludesOverdue ? 'bg-primary' : 'bg-border'
+                )}
+              >
+                <div
+                  className={cn(
+                    'absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200',
+                    options.todayIncludesOverdue ? 'translate-x-7' : 'translate-x-1'
+                  )}
+                />
+              </div>
+            </div>
+          </label>
+        </div>
+
+        {/* Deferred Options */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-text-primary">Deferred tasks</h3>
+          <label className="flex items-center justify-between cursor-pointer">
+            <span className="text-sm text-text-secondary">
+              Hide tasks that start after today from All Tasks and Today
+            </span>
+            <div className="relative">
+              <input
+                type="checkbox"
+                checked={options.hideDeferred}
+                onChange={(e) => updateOptions({ hideDeferred: e.target.checked })}
+                className="sr-only"
+              />
+              <div
+                className={cn(
+                  'w-12 h-6 rounded-full transition-colors duration-200',
+                  options.hideDeferred ? 'bg-primary' : 'bg-border'
+                )}
+              >
+                <div
+                  className={cn(
+                    'absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200',
+                    options.hideDeferred ? 'translate-x-7' : 'translate-x-1'
+                  )}
+                />
+              </div>
+            </div>
+          </label>
+        </div>
+
+        {/* Next 7 Days Options */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-text-primary">Next 7 Days</h3>
+          <div className="flex gap-2">
+            {next7DaysModeOptions.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => updateOptions({ next7DaysMode: option.value })}
+                className={cn(
+                  'flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200',
+                  'border',
+                  options.next7DaysMode === option.value
+                    ? 'bg-primary/10 border-primary text-primary'
+                    : 'bg-background-card border-border-subtle text-text-secondary hover:border-border'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {options.next7DaysMode === 'calendarWeek' && (
+            <label className="flex items-center justify-between text-sm text-text-secondary">
+              Week starts on
+              <select
+                value={options.weekStartsOn}
+                onChange={(e) => updateOptions({ weekStartsOn: e.target.value === '0' ? 0 : 1 })}
+                className="px-3 py-1.5 bg-background-secondary border border-border rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+              >
+                <option value={1}>Monday</option>
+                <option value={0}>Sunday</option>
+              </select>
+            </label>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-2 pt-2 border-t border-border">
+          <Button variant="outline" onClick={resetPreferences} className="flex-1">
+            Reset to Defaults
+          </Button>
+          <Button variant="secondary" onClick={onClose} className="flex-1">
+            Done
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,11 +1,18 @@
 'use client';
 
-import { SMART_LISTS, type SmartListType } from '@/lib/smart-lists';
+import { useState } from 'react';
+import { type SmartListType } from '@/lib/smart-lists';
+import { useSmartListPreferences } from '@/hooks/useSmartListPreferences';
 import { cn } from '@/lib/utils';
+import { SmartListSettingsModal } from './SmartListSettingsModal';
+import type { SavedFilter } from '@/lib/filters/types';
 
 export interface SmartListSidebarProps {
   activeSmartList?: SmartListType;
   onSelectSmartList: (smartList: SmartListType) => void;
+  pinnedFilters?: SavedFilter[];
+  activeFilterId?: string | null;
+  onSelectFilter?: (filter: SavedFilter) => void;
   className?: string;
 }
 
@@ -16,14 +23,20 @@ export interface SmartListSidebarProps {
  * - Smart lists display (Today, Tomorrow, Next 7 Days, etc.)
  * - Active smart list indicator
  * - Icons for each smart list
+ * - User-configured order and visibility
+ * - Pinned saved filters
  * - Compact design
  */
 export function SmartListSidebar({
   activeSmartList = 'all',
   onSelectSmartList,
+  pinnedFilters = [],
+  activeFilterId = null,
+  onSelectFilter,
   className,
 }: SmartListSidebarProps) {
-  const smartLists = Object.values(SMART_LISTS);
+  const { visibleSmartLists: smartLists } = useSmartListPreferences();
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   return (
     <aside
@@ -33,8 +46,33 @@ export function SmartListSidebar({
       )}
     >
       {/* Header */}
-      <div className="p-4 border-b border-border">
+      <div className="p-4 border-b border-border flex items-center justify-between">
         <h2 className="text-lg font-semibold text-text-primary">Smart Lists</h2>
+        <button
+          onClick={() => setIsSettingsOpen(true)}
+          className="p-1 rounded-md text-text-tertiary hover:text-text-primary hover:bg-background-secondary transition-colors duration-200"
+          aria-label="Customize smart lists"
+          title="Customize smart lists"
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+          >
+            <path d="M4 21v-7" />
+            <path d="M4 10V3" />
+            <path d="M12 21v-9" />
+            <path d="M12 8V3" />
+            <path d="M20 21v-5" />
+            <path d="M20 12V3" />
+            <path d="M1 14h6" />
+            <path d="M9 8h6" />
+            <path d="M17 16h6" />
+          </svg>
+        </button>
       </div>
 
       {/* Smart Lists */}
@@ -48,7 +86,7 @@ export function SmartListSidebar({
                 'w-full flex items-center gap-3 px-3 py-2.5 rounded-lg',
                 'transition-all duration-200 ease-out',
                 'hover:bg-background-secondary',
-                activeSmartList === smartList.id
+                !activeFilterId && activeSmartList === smartList.id
                   ? 'bg-primary/10 text-primary font-medium'
                   : 'text-text-secondary hover:text-text-primary'
               )}
@@ -61,10 +99,85 @@ export function SmartListSidebar({
             </button>
           ))}
         </div>
+
+        {/* Pinned Filters */}
+        {pinnedFilters.length > 0 && (
+          <div className="mt-4">
+            <h3 className="px-3 mb-1 text-xs font-semibold uppercase tracking-wide text-text-tertiary">
+              Filters
+            </h3>
+            <div className="space-y-1">
+              {pinnedFilters.map((filter) => (
+                <button
+                  key={filter.id}
+                  onClick={() => onSelectFilter?.(filter)}
+                  className={cn(
+                    'w-full flex items-center gap-3 px-3 py-2.5 rounded-lg',
+                    'transition-all duration-200 ease-out',
+                    'hover:bg-background-secondary',
+                    activeFilterId === filter.id
+                      ? 'bg-primary/10 text-primary font-medium'
+                      : 'text-text-secondary hover:text-text-primary'
+                  )}
+                  title={filter.filter.query ?? filter.name}
+                >
+                  <svg
+                    width="18"
+                    height="18"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    aria-hidden="true"
+                  >
+                    <path d="M22 3H2l8 9.46V19l4 2v-8.54L22 3z" />
+                  </svg>
+                  <span className="flex-1 text-left truncate">{filter.name}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Footer */}
-      <div className="p-4 border-t border-border">
+      <div className="p-4 border-t border-border space-y-3">
+        <a
+          href="/archive"
+          className="flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary transition-colors duration-200"
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+          >
+            <path d="M21 8v13H3V8" />
+            <path d="M1 3h22v5H1z" />
+            <path d="M10 12h4" />
+          </svg>
+          <span>Archive</span>
+        </a>
+        <a
+          href="/trash"
+          className="flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary transition-colors duration-200"
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+          >
+            <path d="M3 6h18" />
+            <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6" />
+            <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+          </svg>
+          <span>Trash</span>
+        </a>
         <a
           href="/profile"
           className="flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary transition-colors duration-200"
@@ -83,6 +196,8 @@ export function SmartListSidebar({
           <span>Profile</span>
         </a>
       </div>
+
+      <SmartListSettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
     </aside>
   );
 }
@@ -3,3 +3,4 @@
  */
 
 export * from './SmartListSidebar';
+export * from './SmartListSettingsModal';
@@ -1,34 +1,65 @@
 'use client';
 
-import { useState, useRef, useEffect, KeyboardEvent } from 'react';
+import { useState, useRef, useEffect, useMemo, KeyboardEvent } from 'react';
 import { Button } from '@/components/ui/Button';
+import { TemplatePicker } from '@/components/templates';
 import { cn } from '@/lib/utils';
+import { format } from '@/lib/utils/date';
+import { parseQuickAdd, buildQuickAddInput, type QuickAddTokenType } from '@/lib/tasks/quick-add';
+import type { CreateTaskInput } from '@/lib/tasks/schemas';
+import type { TemplateDto } from '@/lib/templates/types';
 
 export interface AddTaskInputProps {
-  onAdd: (title: string) => Promise<void>;
+  onAdd: (input: CreateTaskInput) => Promise<void>;
+  /** Lists available for "^List" quick add syntax */
+  lists?: Array<{ id: string; title: string }>;
+  /** Task templates offered in the template picker */
+  templates?: TemplateDto[];
+  /** Create tasks from a template, with due dates relative to baseDate (yyyy-MM-dd) */
+  onAddFromTemplate?: (templateId: string, baseDate: string) => Promise<void>;
+  onDeleteTemplate?: (templateId: string) => void;
   isLoading?: boolean;
   placeholder?: string;
   className?: string;
 }
 
+const TOKEN_STYLES: Record<QuickAddTokenType, string> = {
+  date: 'bg-primary/10 text-primary',
+  time: 'bg-primary/10 text-primary',
+  recurrence: 'bg-primary/10 text-primary',
+  priority: 'bg-error/10 text-error',
+  tag: 'bg-success/10 text-success',
+  list: 'bg-warning/10 text-warning',
+  estimate: 'bg-background-secondary text-text-secondary',
+};
+
 /**
  * AddTaskInput component for quick task creation.
  *
  * Features:
  * - Auto-focus on mount
  * - Enter to add, Shift+Enter for new line
+ * - Natural-language quick add ("tomorrow 3pm !high #work ^Errands ~30m")
+ *   with recognized tokens highlighted while typing
+ * - Template picker with a start date for relative due dates
  * - Clear after add
  * - Loading state
  * - Warm Claude theme styling
  */
 export function AddTaskInput({
   onAdd,
+  lists,
+  templates = [],
+  onAddFromTemplate,
+  onDeleteTemplate,
   isLoading = false,
   placeholder = 'Add a task...',
   className,
 }: AddTaskInputProps) {
   const [value, setValue] = useState('');
   const [isFocused, setIsFocused] = useState(false);
+  const [isTemplateMenuOpen, setIsTemplateMenuOpen] = useState(false);
+  const [templateBaseDate, setTemplateBaseDate] = useState(() => format(new Date()));
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Auto-focus on mount
@@ -36,15 +67,24 @@ export function AddTaskInput({
     inputRef.current?.focus();
   }, []);
 
+  const parsed = useMemo(() => (value.trim() ? parseQuickAdd(value) : null), [value]);
+
   const handleSubmit = async () => {
     const trimmed = value.trim();
     if (!trimmed || isLoading) return;
 
-    await onAdd(trimmed);
+    await onAdd(buildQuickAddInput(parseQuickAdd(trimmed), lists));
     setValue('');
     inputRef.current?.focus();
   };
 
+  const handleSelectTemplate = async (template: TemplateDto) => {
+    if (!onAddFromTemplate || isLoading) return;
+
+    setIsTemplateMenuOpen(false);
+    await onAddFromTemplate(template.id, templateBaseDate);
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -53,100 +93,179 @@ export function AddTaskInput({
   };
 
   return (
-    <div
-      className={cn(
-        'flex items-center gap-3 bg-background-card rounded-lg border transition-all duration-200',
-        isFocused ? 'border-primary shadow-md' : 'border-border-subtle hover:border-border-default',
-        className
-      )}
-    >
-      <div className="flex-1 flex items-center gap-3 px-4 py-3">
-        {/* Add icon */}
-        <svg
-          width="20"
-          height="20"
-          viewBox="0 0 24 24"
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="2"
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          className={cn(
-            'text-text-tertiary transition-colors duration-200',
-            isFocused && 'text-primary'
-          )}
-        >
-          <line x1="12" y1="5" x2="12" y2="19" />
-          <line x1="5" y1="12" x2="19" y2="12" />
-        </svg>
-
-        {/* Input */}
-        <input
-          ref={inputRef}
-          type="text"
-          value={value}
-          onChange={(e) => setValue(e.target.value)}
-          onKeyDown={handleKeyDown}
-          onFocus={() => setIsFocused(true)}
-          onBlur={() => setIsFocused(false)}
-          placeholder={placeholder}
-          disabled={isLoading}
-          className="flex-1 bg-transparent outline-none text-text-primary placeholder:text-text-tertiary disabled:opacity-60"
-        />
-      </div>
+    <div className={cn('relative', className)}>
+      <div
+        className={cn(
+          'flex items-center gap-3 bg-background-card rounded-lg border transition-all duration-200',
+          isFocused
+            ? 'border-primary shadow-md'
+            : 'border-border-subtle hover:border-border-default'
+        )}
+      >
+        <div className="flex-1 flex items-center gap-3 px-4 py-3">
+          {/* Add icon */}
+          <svg
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={cn(
+              'text-text-tertiary transition-colors duration-200',
+              isFocused && 'text-primary'
+            )}
+          >
+            <line x1="12" y1="5" x2="12" y2="19" />
+            <line x1="5" y1="12" x2="19" y2="12" />
+          </svg>
 
-      {/* Add button - show when typing or focused */}
-      {(value || isFocused) && (
-        <div className="pr-2">
-          <Button
-            variant="primary"
-            size="sm"
-            onClick={handleSubmit}
-            disabled={!value.trim() || isLoading}
-            className="shrink-0"
+          {/* Input */}
+          <input
+            ref={inputRef}
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => setIsFocused(false)}
+            placeholder={placeholder}
+            disabled={isLoading}
+            className="flex-1 bg-transparent outline-none text-text-primary placeholder:text-text-tertiary disabled:opacity-60"
+          />
+        </div>
+
+        {/* Template picker toggle */}
+        {onAddFromTemplate && (
+          <button
+            type="button"
+            onClick={() => setIsTemplateMenuOpen((open) => !open)}
+            className={cn(
+              'p-2 rounded-lg transition-colors duration-200',
+              isTemplateMenuOpen
+                ? 'text-primary bg-primary/10'
+                : 'text-text-tertiary hover:text-text-primary hover:bg-background-secondary',
+              !(value || isFocused) && 'mr-2'
+            )}
+            aria-label="Add from template"
+            aria-expanded={isTemplateMenuOpen}
           >
-            {isLoading ? (
-              <svg
-                className="animate-spin"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                xmlns="http://www.w3.org/2000/svg"
-              >
-                <circle
-                  cx="12"
-                  cy="12"
-                  r="10"
-                  stroke="currentColor"
-                  strokeWidth="3"
-                  strokeOpacity="0.3"
-                />
-                <path
-                  d="M12 2C12 2 12 6 12 12C12 18 12 22 12 22"
-                  stroke="currentColor"
-                  strokeWidth="3"
-                  strokeLinecap="round"
-                />
-              </svg>
-            ) : (
-              <>
-                <span className="hidden sm:inline">Add</span>
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <rect x="3" y="3" width="18" height="18" rx="2" />
+              <line x1="3" y1="9" x2="21" y2="9" />
+              <line x1="9" y1="21" x2="9" y2="9" />
+            </svg>
+          </button>
+        )}
+
+        {/* Add button - show when typing or focused */}
+        {(value || isFocused) && (
+          <div className="pr-2">
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handleSubmit}
+              disabled={!value.trim() || isLoading}
+              className="shrink-0"
+            >
+              {isLoading ? (
                 <svg
+                  className="animate-spin"
                   width="16"
                   height="16"
                   viewBox="0 0 24 24"
                   fill="none"
-                  stroke="currentColor"
-                  strokeWidth="2"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
+                  xmlns="http://www.w3.org/2000/svg"
                 >
-                  <polyline points="20 6 9 17 4 12" />
+                  <circle
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="3"
+                    strokeOpacity="0.3"
+                  />
+                  <path
+                    d="M12 2C12 2 12 6 12 12C12 18 12 22 12 22"
+                    stroke="currentColor"
+                    strokeWidth="3"
+                    strokeLinecap="round"
+                  />
                 </svg>
-              </>
-            )}
-          </Button>
+              ) : (
+                <>
+                  <span className="hidden sm:inline">Add</span>
+                  <svg
+                    width="16"
+                    height="16"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <polyline points="20 6 9 17 4 12" />
+                  </svg>
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Template menu */}
+      {isTemplateMenuOpen && onAddFromTemplate && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-72 p-3 bg-background-card border border-border-subtle rounded-lg shadow-lg">
+          <label className="block text-xs font-medium text-text-secondary mb-1">Start date</label>
+          <input
+            type="date"
+            value={templateBaseDate}
+            onChange={(e) => setTemplateBaseDate(e.target.value)}
+            className="w-full mb-3 px-3 py-1.5 bg-background-card border border-border-subtle rounded-lg text-sm text-text-primary focus:border-primary outline-none transition-all duration-200"
+          />
+          <TemplatePicker
+            templates={templates}
+            onSelect={handleSelectTemplate}
+            onDelete={onDeleteTemplate && ((template) => onDeleteTemplate(template.id))}
+            emptyMessage="No task templates yet. Save a task as a template from its details."
+          />
+        </div>
+      )}
+
+      {/* Recognized quick add tokens */}
+      {parsed && parsed.tokens.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 px-4 pt-2 text-xs">
+          {parsed.tokens.map((token) => (
+            <span
+              key={`${token.type}-${token.start}`}
+              className={cn('px-2 py-0.5 rounded-full font-medium', TOKEN_STYLES[token.type])}
+            >
+              {token.text}
+            </span>
+          ))}
+          {parsed.dueDate && (
+            <span className="text-text-tertiary">
+              Due{' '}
+              {parsed.dueDate.toLocaleString(undefined, {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric',
+                ...(parsed.hasTime && { hour: 'numeric', minute: '2-digit' }),
+              })}
+            </span>
+          )}
         </div>
       )}
     </div>
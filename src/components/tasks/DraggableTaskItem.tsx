@@ -2,15 +2,12 @@
 
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { TaskItem } from './TaskItem';
+import { TaskItem, type TaskItemUpdate } from './TaskItem';
 import type { TaskDto } from '@/lib/tasks/types';
 
 export interface DraggableTaskItemProps {
   task: TaskDto;
-  onUpdate?: (
-    id: string,
-    updates: Partial<Pick<TaskDto, 'title' | 'status' | 'priority'>>
-  ) => Promise<boolean>;
+  onUpdate?: (id: string, updates: TaskItemUpdate) => Promise<boolean>;
   onDelete?: (id: string) => void;
   onEdit?: (task: TaskDto) => void;
   isDragging?: boolean;
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Markdown } from '@/components/ui/Markdown';
+import { useTaskActivity } from '@/hooks/useTaskActivity';
+import { formatDateShort, formatDuration, formatRelativeTime } from '@/lib/utils/date';
+import type { TaskActivityDto } from '@/lib/tasks/types';
+
+export interface TaskActivityTimelineProps {
+  taskId: string;
+  className?: string;
+}
+
+const fieldLabels: Record<string, string> = {
+  status: 'status',
+  priority: 'priority',
+  dueDate: 'due date',
+  startDate: 'start date',
+  estimatedTime: 'estimate',
+  spentTime: 'time spent',
+  tags: 'tags',
+};
+
+const statusLabels: Record<string, string> = {
+  TODO: 'To Do',
+  IN_PROGRESS: 'In Progress',
+  DONE: 'Done',
+  CANCELLED: 'Cancelled',
+};
+
+function formatValue(field: string, value: string | null): string {
+  if (value === null) return 'none';
+
+  switch (field) {
+    case 'status':
+      return statusLabels[value] ?? value;
+    case 'priority':
+      return value.charAt(0) + value.slice(1).toLowerCase();
+    case 'dueDate':
+    case 'startDate':
+      return formatDateShort(new Date(value));
+    case 'estimatedTime':
+    case 'spentTime':
+      return formatDuration(Number(value));
+    default:
+      return value;
+  }
+}
+
+/**
+ * Describe a recorded field change in a short sentence.
+ */
+function describeChange({ field, oldValue, newValue }: TaskActivityDto): string {
+  switch (field) {
+    case 'description':
+      return 'edited the description';
+    case 'recurrenceRule':
+      return newValue ? 'changed the repeat rule' : 'stopped repeating';
+    case 'listId':
+      return 'moved the task to another list';
+    case 'parentId':
+      return newValue ? 'changed the parent task' : 'removed the parent task';
+    case 'goalId':
+      return newValue ? 'linked a goal' : 'unlinked the goal';
+    case 'sortOrder':
+      return 'reordered the task';
+    case 'title':
+      return `renamed the task from "${oldValue}" to "${newValue}"`;
+  }
+
+  const key = field ?? '';
+  const label = fieldLabels[key] ?? key;
+  return `changed ${label} from ${formatValue(key, oldValue)} to ${formatValue(key, newValue)}`;
+}
+
+/**
+ * TaskActivityTimeline component showing the history of a task.
+ *
+ * Features:
+ * - Recorded field changes and comments in one timeline
+ * - Comments rendered as markdown
+ * - Cmd/Ctrl+Enter to post a comment
+ * - Comment deletion
+ */
+export function TaskActivityTimeline({ taskId, className }: TaskActivityTimelineProps) {
+  const [comment, setComment] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const { activities, isLoading, error, addComment, deleteComment } = useTaskActivity(taskId);
+
+  const handlePost = async () => {
+    const content = comment.trim();
+    if (!content) return;
+
+    setIsPosting(true);
+    if (await addComment(content)) {
+      setComment('');
+    }
+    setIsPosting(false);
+  };
+
+  const handleDelete = (commentId: string) => {
+    if (confirm('Delete this comment?')) {
+      deleteComment(commentId);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <label className="block text-sm font-medium text-text-secondary mb-2">Activity</label>
+
+      {activities.length > 0 ? (
+        <ol className="flex flex-col gap-3 mb-3 border-l border-border-subtle pl-4">
+          {activities.map((activity) => {
+            const author = activity.user.name || 'You';
+            const time = formatRelativeTime(new Date(activity.createdAt));
+
+            if (activity.type === 'COMMENT') {
+              return (
+                <li key={activity.id} className="relative">
+                  <span className="absolute -left-[21px] top-2 w-2.5 h-2.5 rounded-full bg-primary" />
+                  <div className="group px-3 py-2 bg-background-secondary rounded-lg">
+                    <div className="flex items-center gap-2 mb-1 text-xs text-text-tertiary">
+                      <span className="font-medium text-text-secondary">{author}</span>
+                      <span>{time}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(activity.id)}
+                        className="ml-auto opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-error transition-all"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                    <Markdown source={activity.content ?? ''} />
+                  </div>
+                </li>
+              );
+            }
+
+            return (
+              <li key={activity.id} className="relative text-xs text-text-tertiary">
+                <span className="absolute -left-[19px] top-1 w-1.5 h-1.5 rounded-full bg-border-default" />
+                <span className="font-medium text-text-secondary">{author}</span>{' '}
+                {describeChange(activity)} · {time}
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        !isLoading && <p className="mb-3 text-xs text-text-tertiary">No activity yet</p>
+      )}
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handlePost();
+          }
+        }}
+        placeholder="Write a comment... (markdown supported)"
+        rows={2}
+        maxLength={10000}
+        className="w-full px-4 py-3 bg-background-card border border-border-subtle rounded-lg text-sm text-text-primary placeholder:text-text-tertiary focus:border-primary outline-none transition-all duration-200 resize-none"
+      />
+      <div className="flex items-center justify-between mt-2">
+        {error ? <p className="text-sm text-error">{error}</p> : <span />}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handlePost}
+          disabled={!comment.trim() || isPosting}
+        >
+          Comment
+        </Button>
+      </div>
+    </div>
+  );
+}
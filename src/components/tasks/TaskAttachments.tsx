@@ -0,0 +1,143 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import { useAttachments } from '@/hooks/useAttachments';
+import { ALLOWED_MIME_TYPES, formatFileSize } from '@/lib/attachments/utils';
+import { cn } from '@/lib/utils';
+import type { AttachmentDto } from '@/lib/attachments/types';
+
+export interface TaskAttachmentsProps {
+  taskId: string;
+  className?: string;
+}
+
+function fileExtension(attachment: AttachmentDto): string {
+  const extension = attachment.fileName.split('.').pop();
+  return extension && extension !== attachment.fileName
+    ? extension.slice(0, 4).toUpperCase()
+    : 'FILE';
+}
+
+/**
+ * TaskAttachments component showing a strip of files attached to a task.
+ *
+ * Features:
+ * - Image thumbnails and file type tiles
+ * - Upload through the file picker or drag and drop
+ * - Open or download on click
+ * - Delete with confirmation
+ */
+export function TaskAttachments({ taskId, className }: TaskAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const { attachments, isUploading, error, uploadFiles, deleteAttachment } = useAttachments(taskId);
+
+  const handleDelete = (attachment: AttachmentDto) => {
+    if (confirm(`Delete "${attachment.fileName}"?`)) {
+      deleteAttachment(attachment.id);
+    }
+  };
+
+  return (
+    <div
+      className={className}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        uploadFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-text-secondary">Attachments</label>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={isUploading}
+          className="text-xs text-primary hover:underline disabled:opacity-50"
+        >
+          {isUploading ? 'Uploading...' : '+ Add file'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ALLOWED_MIME_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            uploadFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div
+        className={cn(
+          'flex gap-2 overflow-x-auto rounded-lg border border-dashed p-2 transition-colors',
+          isDragging ? 'border-primary bg-primary/5' : 'border-border-subtle'
+        )}
+      >
+        {attachments.length === 0 && (
+          <p className="py-3 w-full text-center text-xs text-text-tertiary">
+            Drop files here to attach them
+          </p>
+        )}
+
+        {attachments.map((attachment) => (
+          <div key={attachment.id} className="group relative flex-shrink-0 w-20">
+            <a
+              href={attachment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={`${attachment.fileName} (${formatFileSize(attachment.size)})`}
+              className="block"
+            >
+              {attachment.thumbnailUrl ? (
+                <Image
+                  src={attachment.thumbnailUrl}
+                  alt={attachment.fileName}
+                  width={80}
+                  height={80}
+                  unoptimized
+                  className="w-20 h-20 object-cover rounded-lg bg-background-secondary"
+                />
+              ) : (
+                <div className="w-20 h-20 flex items-center justify-center rounded-lg bg-background-secondary text-xs font-semibold text-text-secondary">
+                  {fileExtension(attachment)}
+                </div>
+              )}
+              <span className="block mt-1 truncate text-xs text-text-tertiary">
+                {attachment.fileName}
+              </span>
+            </a>
+            <button
+              type="button"
+              onClick={() => handleDelete(attachment)}
+              className="absolute top-1 right-1 p-0.5 rounded-full bg-background-card/90 text-text-tertiary hover:text-error opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all"
+              aria-label={`Delete ${attachment.fileName}`}
+            >
+              <svg
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <line x1="18" y1="6" x2="6" y2="18" />
+                <line x1="6" y1="6" x2="18" y2="18" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="mt-2 text-sm text-error">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { useChecklist } from '@/hooks/useChecklist';
+import { cn } from '@/lib/utils';
+import type { ChecklistItemDto } from '@/lib/tasks/types';
+
+export interface TaskChecklistProps {
+  taskId: string;
+  /** Called after the checklist or the task's subtasks change */
+  onChange?: () => void;
+  className?: string;
+}
+
+interface ChecklistRowProps {
+  item: ChecklistItemDto;
+  onToggle: () => void;
+  onRename: (text: string) => void;
+  onConvert: () => void;
+  onDelete: () => void;
+}
+
+function ChecklistRow({ item, onToggle, onRename, onConvert, onDelete }: ChecklistRowProps) {
+  const [text, setText] = useState(item.text);
+
+  const commit = () => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      setText(item.text);
+    } else if (trimmed !== item.text) {
+      onRename(trimmed);
+    }
+  };
+
+  return (
+    <li className="group flex items-center gap-2 px-3 py-1.5 bg-background-secondary rounded-lg text-sm">
+      <input
+        type="checkbox"
+        checked={item.checked}
+        onChange={onToggle}
+        className="w-4 h-4 accent-primary cursor-pointer"
+        aria-label={`Mark "${item.text}" as ${item.checked ? 'not done' : 'done'}`}
+      />
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            e.currentTarget.blur();
+          } else if (e.key === 'Escape') {
+            e.stopPropagation();
+            setText(item.text);
+          }
+        }}
+        maxLength={500}
+        className={cn(
+          'flex-1 min-w-0 bg-transparent outline-none',
+          item.checked ? 'line-through text-text-tertiary' : 'text-text-primary'
+        )}
+      />
+      <button
+        type="button"
+        onClick={onConvert}
+        className="p-1 text-text-tertiary hover:text-primary rounded opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all"
+        aria-label={`Convert "${item.text}" to subtask`}
+        title="Convert to subtask"
+      >
+        <svg
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <polyline points="9 10 4 15 9 20" />
+          <path d="M20 4v7a4 4 0 0 1-4 4H4" />
+        </svg>
+      </button>
+      <button
+        type="button"
+        onClick={onDelete}
+        className="p-1 text-text-tertiary hover:text-error rounded opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all"
+        aria-label={`Delete "${item.text}"`}
+      >
+        <svg
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <line x1="18" y1="6" x2="6" y2="18" />
+          <line x1="6" y1="6" x2="18" y2="18" />
+        </svg>
+      </button>
+    </li>
+  );
+}
+
+/**
+ * TaskChecklist component for editing the checklist of a task inline.
+ *
+ * Features:
+ * - Progress count (e.g. 3/5)
+ * - Check off, rename and delete items in place
+ * - Enter in the add field appends an item
+ * - Convert an item into a real subtask
+ */
+export function TaskChecklist({ taskId, onChange, className }: TaskChecklistProps) {
+  const [newText, setNewText] = useState('');
+  const { items, error, addItem, updateItem, deleteItem, convertItem } = useChecklist(taskId);
+
+  const completed = items.filter((item) => item.checked).length;
+
+  const run = async (action: Promise<unknown>) => {
+    if (await action) {
+      onChange?.();
+    }
+  };
+
+  const handleAdd = async () => {
+    const text = newText.trim();
+    if (!text) return;
+
+    if (await addItem(text)) {
+      setNewText('');
+      onChange?.();
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-text-secondary">Checklist</label>
+        {items.length > 0 && (
+          <span className="text-xs text-text-tertiary">
+            {completed}/{items.length}
+          </span>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <ul className="flex flex-col gap-1 mb-2">
+          {items.map((item) => (
+            <ChecklistRow
+              key={item.id}
+              item={item}
+              onToggle={() => run(updateItem(item.id, { checked: !item.checked }))}
+              onRename={(text) => run(updateItem(item.id, { text }))}
+              onConvert={() => run(convertItem(item.id))}
+              onDelete={() => run(deleteItem(item.id))}
+            />
+          ))}
+        </ul>
+      )}
+
+      <input
+        type="text"
+        value={newText}
+        onChange={(e) => setNewText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            handleAdd();
+          }
+        }}
+        maxLength={500}
+        placeholder="Add an item..."
+        className="w-full px-4 py-2 bg-background-card border border-border-subtle rounded-lg text-sm text-text-primary placeholder:text-text-tertiary focus:border-primary outline-none transition-all duration-200"
+      />
+
+      {error && <p className="mt-2 text-sm text-error">{error}</p>}
+    </div>
+  );
+}
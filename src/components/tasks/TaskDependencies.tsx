@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { TaskStatus } from '@prisma/client';
+import { useSearch } from '@/hooks/useSearch';
+import { useTaskDependencies } from '@/hooks/useTaskDependencies';
+import { cn } from '@/lib/utils';
+import type { TaskDependencyDto } from '@/lib/tasks/types';
+
+export interface TaskDependenciesProps {
+  taskId: string;
+  className?: string;
+}
+
+function isOpen(task: TaskDependencyDto): boolean {
+  return task.status === TaskStatus.TODO || task.status === TaskStatus.IN_PROGRESS;
+}
+
+/**
+ * TaskDependencies component for managing the tasks a task waits on.
+ *
+ * Features:
+ * - Lists blocking tasks, with open ones highlighted
+ * - Search to add a blocking task
+ * - Lists the tasks waiting on this one
+ */
+export function TaskDependencies({ taskId, className }: TaskDependenciesProps) {
+  const [query, setQuery] = useState('');
+  const { blockedBy, blocking, error, addBlocker, removeBlocker } = useTaskDependencies(taskId);
+  const { results } = useSearch(query, { types: ['task'], limit: 5 });
+
+  const candidates = results.filter(
+    (result) => result.id !== taskId && !blockedBy.some((blocker) => blocker.id === result.id)
+  );
+
+  const handleAdd = async (blockerId: string) => {
+    if (await addBlocker(blockerId)) {
+      setQuery('');
+    }
+  };
+
+  return (
+    <div className={className}>
+      <label className="block text-sm font-medium text-text-secondary mb-2">Blocked by</label>
+
+      {blockedBy.length > 0 && (
+        <ul className="flex flex-col gap-1 mb-2">
+          {blockedBy.map((blocker) => (
+            <li
+              key={blocker.id}
+              className="flex items-center gap-2 px-3 py-2 bg-background-secondary rounded-lg text-sm"
+            >
+              <span
+                className={cn(
+                  'flex-1 truncate',
+                  isOpen(blocker) ? 'text-text-primary' : 'line-through text-text-tertiary'
+                )}
+              >
+                {blocker.title}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeBlocker(blocker.id)}
+                className="p-1 text-text-tertiary hover:text-error rounded transition-colors"
+                aria-label={`Remove dependency on ${blocker.title}`}
+              >
+                <svg
+                  width="14"
+                  height="14"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                >
+                  <line x1="18" y1="6" x2="6" y2="18" />
+                  <line x1="6" y1="6" x2="18" y2="18" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search for a task this one waits on..."
+          className="w-full px-4 py-2 bg-background-card border border-border-subtle rounded-lg text-sm text-text-primary placeholder:text-text-tertiary focus:border-primary outline-none transition-all duration-200"
+        />
+        {query.trim() && candidates.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full bg-background-card border border-border-subtle rounded-lg shadow-md overflow-hidden">
+            {candidates.map((candidate) => (
+              <li key={candidate.id}>
+                <button
+                  type="button"
+                  onClick={() => handleAdd(candidate.id)}
+                  className="w-full px-4 py-2 text-left text-sm text-text-primary hover:bg-background-secondary truncate"
+                >
+                  {candidate.title}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && <p className="mt-2 text-sm text-error">{error}</p>}
+
+      {blocking.length > 0 && (
+        <p className="mt-2 text-xs text-text-tertiary">
+          Blocking: {blocking.map((task) => task.title).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { Markdown } from '@/components/ui/Markdown';
+import { toggleTaskListItem } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+export type DescriptionEditorMode = 'write' | 'preview' | 'split';
+
+export interface TaskDescriptionEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called with the updated text after a checkbox is toggled in the preview */
+  onToggleTask?: (value: string) => void;
+  defaultMode?: DescriptionEditorMode;
+  className?: string;
+}
+
+const modeOptions: { value: DescriptionEditorMode; label: string }[] = [
+  { value: 'write', label: 'Write' },
+  { value: 'preview', label: 'Preview' },
+  { value: 'split', label: 'Split' },
+];
+
+/**
+ * TaskDescriptionEditor component for writing task descriptions in markdown.
+ *
+ * Features:
+ * - Write, preview and side-by-side split modes
+ * - Sanitized markdown preview (headings, lists, code, links)
+ * - Clickable task list checkboxes that update the text
+ */
+export function TaskDescriptionEditor({
+  value,
+  onChange,
+  onToggleTask,
+  defaultMode = 'write',
+  className,
+}: TaskDescriptionEditorProps) {
+  const [mode, setMode] = useState<DescriptionEditorMode>(defaultMode);
+
+  const handleToggleTask = (line: number) => {
+    const next = toggleTaskListItem(value, line);
+    if (next === value) return;
+    onChange(next);
+    onToggleTask?.(next);
+  };
+
+  const editor = (
+    <textarea
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder="Add a description... Markdown is supported, e.g. - [ ] to-do"
+      rows={mode === 'split' ? 8 : 4}
+      className="w-full px-4 py-3 bg-background-card border border-border-subtle rounded-lg text-text-primary placeholder:text-text-tertiary focus:border-primary outline-none transition-all duration-200 resize-none font-mono text-sm"
+    />
+  );
+
+  const preview = (
+    <div className="min-h-[6rem] px-4 py-3 rounded-lg border border-border-subtle bg-background-secondary/40 overflow-y-auto">
+      {value.trim() ? (
+        <Markdown source={value} onToggleTask={handleToggleTask} />
+      ) : (
+        <p className="text-sm text-text-tertiary">Nothing to preview</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-text-secondary">Description</label>
+        <div className="flex gap-1">
+          {modeOptions.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setMode(option.value)}
+              className={cn(
+                'px-2 py-0.5 rounded-md text-xs font-medium transition-all duration-200 border',
+                mode === option.value
+                  ? 'bg-primary/10 border-primary text-primary'
+                  : 'bg-background-card border-border-subtle text-text-secondary hover:border-border-default'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'write' && editor}
+      {mode === 'preview' && preview}
+      {mode === 'split' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {editor}
+          {preview}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,19 +8,29 @@ import { Input } from '@/components/ui/Input';
 import { TagPicker } from '@/components/tags';
 import { ReminderPicker, ReminderList } from '@/components/reminders';
 import { GoalPicker } from '@/components/goals';
+import { TaskDependencies } from './TaskDependencies';
+import { TaskChecklist } from './TaskChecklist';
+import { TaskActivityTimeline } from './TaskActivityTimeline';
+import { TaskAttachments } from './TaskAttachments';
+import { TaskDescriptionEditor } from './TaskDescriptionEditor';
 import { useTags } from '@/hooks/useTags';
+import { useTasks } from '@/hooks/useTasks';
+import { useTemplates } from '@/hooks/useTemplates';
 import { useTaskReminders } from '@/hooks/useReminders';
 import { useGoals } from '@/hooks/useGoals';
 import { cn } from '@/lib/utils';
 import type { TaskDto } from '@/lib/tasks/types';
+import type { RecurrenceEditScope } from '@/lib/tasks/schemas';
 import type { TagDto } from '@/lib/tags/types';
 
 export interface TaskDetailModalProps {
   task: TaskDto | null;
   isOpen: boolean;
   onClose: () => void;
-  onSave?: (id: string, updates: Partial<TaskDto>) => Promise<void>;
+  onSave?: (id: string, updates: Partial<TaskDto>, scope?: RecurrenceEditScope) => Promise<void>;
   onDelete?: (id: string) => void;
+  /** Called after changes saved outside of onSave, such as checklist edits */
+  onTaskChange?: () => void;
   isLoading?: boolean;
 }
 
@@ -31,6 +41,12 @@ const statusOptions: { value: TaskStatus; label: string; icon: string }[] = [
   { value: TaskStatus.CANCELLED, label: 'Cancelled', icon: '⊘' },
 ];
 
+const scopeOptions: { value: RecurrenceEditScope; label: string }[] = [
+  { value: 'this', label: 'This task' },
+  { value: 'following', label: 'This and following' },
+  { value: 'all', label: 'All tasks' },
+];
+
 const priorityOptions: { value: Priority; label: string; color: string }[] = [
   { value: Priority.NONE, label: 'None', color: 'text-text-tertiary' },
   { value: Priority.LOW, label: 'Low', color: 'text-text-tertiary' },
@@ -46,8 +62,15 @@ const priorityOptions: { value: Priority; label: string; color: string }[] = [
  * - Edit all properties
  * - Status and priority selection
  * - Due date picker
- * - Description editing
+ * - Markdown description with preview and clickable checkboxes
  * - Goal linking
+ * - Checklist with subtask conversion
+ * - File attachments
+ * - Blocking dependencies
+ * - Edit scope for recurring tasks
+ * - Activity timeline with comments
+ * - Duplicate with subtasks
+ * - Save as a reusable template
  * - Delete confirmation
  * - Warm Claude theme styling
  */
@@ -57,6 +80,7 @@ export function TaskDetailModal({
   onClose,
   onSave,
   onDelete,
+  onTaskChange,
   isLoading = false,
 }: TaskDetailModalProps) {
   const [title, setTitle] = useState('');
@@ -67,11 +91,15 @@ export function TaskDetailModal({
   const [estimatedTime, setEstimatedTime] = useState('');
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
   const [selectedGoalId, setSelectedGoalId] = useState<string | null>(null);
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isTemplateSaved, setIsTemplateSaved] = useState(false);
 
   const { addTag, tags: allTags } = useTags({ autoFetch: true });
   const { goals } = useGoals({ autoFetch: true });
+  const { duplicateTask } = useTasks({ autoFetch: false });
+  const { saveTemplate } = useTemplates({ autoFetch: false });
   const {
     reminders,
     isLoading: remindersLoading,
@@ -93,6 +121,8 @@ export function TaskDetailModal({
       setEstimatedTime(task.estimatedTime ? String(task.estimatedTime) : '');
       setSelectedTagIds(task.tags?.map((tag) => tag.id) || []);
       setSelectedGoalId(task.goalId || null);
+      setScope('this');
+      setIsTemplateSaved(false);
     }
   }, [task]);
 
@@ -123,16 +153,24 @@ export function TaskDetailModal({
         }
       }
 
-      await onSave(task.id, {
-        title: title.trim(),
-        description: description.trim() || null,
-        status,
-        priority,
-        dueDate: dueDate ? new Date(dueDate) : null,
-        estimatedTime: estimatedTime ? parseInt(estimatedTime, 10) : null,
-        tags: selectedTagObjects,
-        goalId: selectedGoalId,
-      });
+      // Only send the due date when it changed, so the time of day is kept and
+      // recurring occurrences aren't rescheduled
+      const initialDueDate = task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : '';
+
+      await onSave(
+        task.id,
+        {
+          title: title.trim(),
+          description: description.trim() || null,
+          status,
+          priority,
+          ...(dueDate !== initialDueDate && { dueDate: dueDate ? new Date(dueDate) : null }),
+          estimatedTime: estimatedTime ? parseInt(estimatedTime, 10) : null,
+          tags: selectedTagObjects,
+          goalId: selectedGoalId,
+        },
+        task.recurrenceRule ? scope : undefined
+      );
       onClose();
     } finally {
       setIsSaving(false);
@@ -146,6 +184,42 @@ export function TaskDetailModal({
     [addTag]
   );
 
+  // Checkbox toggles in the preview are saved right away, like checklist edits.
+  // The editor has already put the toggled text in the form, so a later Save
+  // keeps it; only the description is sent, the other fields wait for Save.
+  const handleToggleDescriptionTask = async (nextDescription: string) => {
+    if (!task) return;
+
+    const response = await fetch(`/api/tasks/${task.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ description: nextDescription.trim() || null }),
+    }).catch(() => null);
+    if (response?.ok) {
+      onTaskChange?.();
+    }
+  };
+
+  const handleDuplicate = async () => {
+    if (!task) return;
+
+    const copy = await duplicateTask(task.id);
+    if (copy) {
+      onTaskChange?.();
+      onClose();
+    }
+  };
+
+  const handleSaveAsTemplate = async () => {
+    if (!task) return;
+
+    const name = window.prompt('Template name', task.title)?.trim();
+    if (!name) return;
+
+    const template = await saveTemplate({ name, taskId: task.id });
+    setIsTemplateSaved(!!template);
+  };
+
   const handleDelete = () => {
     if (task && onDelete) {
       onDelete(task.id);
@@ -236,6 +310,27 @@ export function TaskDetailModal({
               Delete
             </Button>
           )}
+          {!showDeleteConfirm && (
+            <Button
+              variant="ghost"
+              size="md"
+              onClick={handleDuplicate}
+              className={cn(!onDelete && 'mr-auto')}
+            >
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <rect x="9" y="9" width="13" height="13" rx="2" />
+                <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" />
+              </svg>
+              Duplicate
+            </Button>
+          )}
           {showDeleteConfirm && (
             <div className="mr-auto flex items-center gap-2">
               <span className="text-sm text-text-secondary">Delete this task?</span>
@@ -279,16 +374,13 @@ export function TaskDetailModal({
         </div>
 
         {/* Description */}
-        <div>
-          <label className="block text-sm font-medium text-text-secondary mb-2">Description</label>
-          <textarea
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            placeholder="Add a description..."
-            rows={4}
-            className="w-full px-4 py-3 bg-background-card border border-border-subtle rounded-lg text-text-primary placeholder:text-text-tertiary focus:border-primary outline-none transition-all duration-200 resize-none"
-          />
-        </div>
+        <TaskDescriptionEditor
+          key={task.id}
+          value={description}
+          onChange={setDescription}
+          onToggleTask={handleToggleDescriptionTask}
+          defaultMode={task.description ? 'preview' : 'write'}
+        />
 
         {/* Tags */}
         <div>
@@ -387,6 +479,40 @@ export function TaskDetailModal({
           </div>
         </div>
 
+        {/* Edit scope for recurring tasks */}
+        {task.recurrenceRule && (
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-2">
+              Apply changes to
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {scopeOptions.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setScope(option.value)}
+                  className={cn(
+                    'px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 border',
+                    scope === option.value
+                      ? 'bg-primary/10 border-primary text-primary'
+                      : 'bg-background-card border-border-subtle text-text-secondary hover:border-border-default'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Checklist */}
+        <TaskChecklist taskId={task.id} onChange={onTaskChange} />
+
+        {/* Attachments */}
+        <TaskAttachments taskId={task.id} />
+
+        {/* Dependencies */}
+        <TaskDependencies taskId={task.id} />
+
         {/* Reminders */}
         <div>
           <div className="flex items-center justify-between mb-3">
@@ -420,6 +546,9 @@ export function TaskDetailModal({
           </div>
         </div>
 
+        {/* Activity */}
+        <TaskActivityTimeline taskId={task.id} />
+
         {/* Metadata */}
         <div className="pt-4 border-t border-border-subtle">
           <div className="flex flex-wrap gap-4 text-xs text-text-tertiary">
@@ -428,6 +557,14 @@ export function TaskDetailModal({
             {task.completedAt && (
               <span>Completed: {new Date(task.completedAt).toLocaleDateString()}</span>
             )}
+            <button
+              type="button"
+              onClick={handleSaveAsTemplate}
+              disabled={isTemplateSaved}
+              className="ml-auto text-primary hover:underline disabled:no-underline disabled:text-text-tertiary"
+            >
+              {isTemplateSaved ? 'Saved as template' : 'Save as template'}
+            </button>
           </div>
         </div>
       </div>
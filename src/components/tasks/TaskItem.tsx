@@ -15,12 +15,14 @@ export interface DragHandleProps {
   isDragging: boolean;
 }
 
+export type TaskItemUpdate = Partial<Pick<TaskDto, 'title' | 'status' | 'priority'>> & {
+  /** Complete the task even if tasks blocking it are still open */
+  force?: boolean;
+};
+
 export interface TaskItemProps {
   task: TaskDto;
-  onUpdate?: (
-    id: string,
-    updates: Partial<Pick<TaskDto, 'title' | 'status' | 'priority'>>
-  ) => Promise<boolean>;
+  onUpdate?: (id: string, updates: TaskItemUpdate) => Promise<boolean>;
   onDelete?: (id: string) => void;
   onEdit?: (task: TaskDto) => void;
   dragHandleProps?: DragHandleProps;
@@ -45,6 +47,8 @@ const priorityConfig: Record<Priority, { color: string; label: string }> = {
  * - Priority indicator
  * - Due date display
  * - Goal badge
+ * - Checklist progress
+ * - Blocked badge
  * - Status badge
  * - Quick actions
  * - Warm Claude theme styling
@@ -72,6 +76,8 @@ export function TaskItem({
     task.dueDate && new Date(task.dueDate) <= new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
   const isOverdue = task.dueDate && new Date(task.dueDate) < new Date() && !isDone;
   const hasSubtasks = (task._count?.subtasks || 0) > 0;
+  const checklist = task.checklist?.total ? task.checklist : null;
+  const openBlockers = isInactive ? 0 : (task._count?.blockedBy ?? 0);
 
   // Focus input when editing starts
   useEffect(() => {
@@ -85,9 +91,21 @@ export function TaskItem({
     if (!onUpdate || isLoading) return;
 
     const newStatus = isDone ? TaskStatus.TODO : TaskStatus.DONE;
+
+    // Completing a blocked task needs confirmation
+    const force = newStatus === TaskStatus.DONE && openBlockers > 0;
+    if (
+      force &&
+      !confirm(
+        `This task is blocked by ${openBlockers} open ${openBlockers === 1 ? 'task' : 'tasks'}. Complete it anyway?`
+      )
+    ) {
+      return;
+    }
+
     setIsCompleting(true);
     try {
-      await onUpdate(task.id, { status: newStatus });
+      await onUpdate(task.id, force ? { status: newStatus, force } : { status: newStatus });
     } finally {
       setIsCompleting(false);
     }
@@ -324,6 +342,55 @@ export function TaskItem({
               </span>
             )}
 
+            {/* Checklist progress */}
+            {checklist && (
+              <span
+                className={cn(
+                  'text-xs flex items-center gap-1',
+                  checklist.completed === checklist.total ? 'text-success' : 'text-text-tertiary'
+                )}
+                title="Checklist progress"
+              >
+                <svg
+                  width="12"
+                  height="12"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M9 11l3 3L22 4" />
+                  <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11" />
+                </svg>
+                {checklist.completed}/{checklist.total}
+              </span>
+            )}
+
+            {/* Blocked badge */}
+            {openBlockers > 0 && (
+              <span
+                className="text-xs px-2 py-0.5 rounded-full font-medium text-warning bg-warning/10 flex items-center gap-1"
+                title={`Waiting on ${openBlockers} open ${openBlockers === 1 ? 'task' : 'tasks'}`}
+              >
+                <svg
+                  width="12"
+                  height="12"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <rect x="3" y="11" width="18" height="11" rx="2" ry="2" />
+                  <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+                </svg>
+                Blocked
+              </span>
+            )}
+
             {/* Reminders badge */}
             {task.reminders && task.reminders.length > 0 && (
               <ReminderBadge reminders={task.reminders} />
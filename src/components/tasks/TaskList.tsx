@@ -2,25 +2,37 @@
 
 import { useState, useCallback } from 'react';
 import { TaskStatus } from '@prisma/client';
-import { TaskItem } from './TaskItem';
+import { TaskItem, type TaskItemUpdate } from './TaskItem';
 import { AddTaskInput } from './AddTaskInput';
 import { Spinner } from '@/components/ui/Spinner';
 import { TagBadge } from '@/components/tags';
+import { useVirtualList } from '@/hooks/useVirtualList';
 import { cn } from '@/lib/utils';
 import type { TaskDto } from '@/lib/tasks/types';
+import type { CreateTaskInput } from '@/lib/tasks/schemas';
+import type { TemplateDto } from '@/lib/templates/types';
 import type { SortBy, SortOrder } from '@/hooks/useTasks';
+import type { RankPosition } from '@/lib/ordering/types';
 
 export interface TaskListProps {
   tasks: TaskDto[];
   isLoading?: boolean;
-  onAddTask?: (title: string) => Promise<void>;
-  onUpdateTask?: (
-    id: string,
-    updates: Partial<Pick<TaskDto, 'title' | 'status' | 'priority'>>
-  ) => Promise<boolean>;
+  /** More tasks can be loaded after the loaded ones */
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  onAddTask?: (input: CreateTaskInput) => Promise<void>;
+  /** Lists available for "^List" quick add syntax */
+  lists?: Array<{ id: string; title: string }>;
+  /** Task templates offered next to the add input */
+  templates?: TemplateDto[];
+  onAddFromTemplate?: (templateId: string, baseDate: string) => Promise<void>;
+  onDeleteTemplate?: (templateId: string) => void;
+  onUpdateTask?: (id: string, updates: TaskItemUpdate) => Promise<boolean>;
   onDeleteTask?: (id: string) => void;
   onEditTask?: (task: TaskDto) => void;
-  onReorderTasks?: (updates: Array<{ id: string; sortOrder: number }>) => Promise<boolean>;
+  /** Move a task between its new neighbours (for drag-and-drop) */
+  onMoveTask?: (id: string, position: RankPosition) => Promise<boolean>;
   activeTag?: { id: string; name: string; color: string | null } | null;
   onClearTagFilter?: () => void;
   // Sort state - controlled from parent
@@ -47,6 +59,15 @@ const filterButtons: { value: TaskFilter; label: string; count: (tasks: TaskDto[
   },
 ];
 
+/** Active tasks, then a divider and the completed tasks */
+type TaskRow = { type: 'task'; task: TaskDto } | { type: 'completed-header'; count: number };
+
+/** Height assumed for rows before they are measured */
+const ESTIMATED_ROW_HEIGHT = 64;
+
+/** Space between rows (gap-2) */
+const ROW_GAP = 8;
+
 const sortOptions: { value: TaskSort; label: string }[] = [
   { value: 'sortOrder', label: 'Custom Order' },
   { value: 'createdAt', label: 'Created' },
@@ -63,20 +84,28 @@ const sortOptions: { value: TaskSort; label: string }[] = [
  * - Filter by status (all, active, completed)
  * - Sort by multiple fields
  * - Ascending/descending toggle
- * - Add new tasks
+ * - Add new tasks, from scratch or from a template
  * - Inline editing
  * - Bulk status updates
+ * - Only renders the rows on screen, loading more tasks near the end
  * - Empty states
  * - Warm Claude theme styling
  */
 export function TaskList({
   tasks,
   isLoading = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
   onAddTask,
+  lists,
+  templates,
+  onAddFromTemplate,
+  onDeleteTemplate,
   onUpdateTask,
   onDeleteTask,
   onEditTask,
-  onReorderTasks, // eslint-disable-line @typescript-eslint/no-unused-vars
+  onMoveTask, // eslint-disable-line @typescript-eslint/no-unused-vars
   activeTag,
   onClearTagFilter,
   sortBy = 'sortOrder',
@@ -100,12 +129,25 @@ export function TaskList({
   );
   const completedTasks = filteredTasks.filter((t) => t.status === TaskStatus.DONE);
 
+  const rows: TaskRow[] = activeTasks.map((task) => ({ type: 'task', task }));
+  if (completedTasks.length > 0 && filter !== 'active') {
+    rows.push({ type: 'completed-header', count: completedTasks.length });
+    rows.push(...completedTasks.map((task) => ({ type: 'task' as const, task })));
+  }
+
+  const virtual = useVirtualList({
+    keys: rows.map((row) => (row.type === 'task' ? row.task.id : row.type)),
+    estimateSize: ESTIMATED_ROW_HEIGHT,
+    gap: ROW_GAP,
+    onEndReached: hasMore && !isLoading ? onLoadMore : undefined,
+  });
+
   const handleAddTask = useCallback(
-    async (title: string) => {
+    async (input: CreateTaskInput) => {
       if (!onAddTask) return;
       setIsAdding(true);
       try {
-        await onAddTask(title);
+        await onAddTask(input);
       } finally {
         setIsAdding(false);
       }
@@ -114,7 +156,7 @@ export function TaskList({
   );
 
   const handleUpdateTask = useCallback(
-    async (id: string, updates: Partial<Pick<TaskDto, 'title' | 'status' | 'priority'>>) => {
+    async (id: string, updates: TaskItemUpdate) => {
       if (!onUpdateTask) return false;
       return await onUpdateTask(id, updates);
     },
@@ -237,7 +279,15 @@ export function TaskList({
 
       {/* Add task input */}
       {onAddTask && (
-        <AddTaskInput onAdd={handleAddTask} isLoading={isAdding} placeholder="Add a task..." />
+        <AddTaskInput
+          onAdd={handleAddTask}
+          lists={lists}
+          templates={templates}
+          onAddFromTemplate={onAddFromTemplate}
+          onDeleteTemplate={onDeleteTemplate}
+          isLoading={isAdding}
+          placeholder="Add a task..."
+        />
       )}
 
       {/* Loading state */}
@@ -283,49 +333,47 @@ export function TaskList({
         </div>
       )}
 
-      {/* Task list */}
+      {/* Task list; rows off screen are left out */}
       {!isLoading && filteredTasks.length > 0 && (
-        <div className="flex flex-col gap-2">
-          {/* Active tasks */}
-          {activeTasks.length > 0 && (
-            <div className="flex flex-col gap-2">
-              {activeTasks.map((task) => (
-                <TaskItem
-                  key={task.id}
-                  task={task}
-                  onUpdate={onUpdateTask ? handleUpdateTask : undefined}
-                  onDelete={onDeleteTask ? handleDeleteTask : undefined}
-                  onEdit={onEditTask}
-                />
-              ))}
-            </div>
-          )}
-
-          {/* Completed tasks section */}
-          {completedTasks.length > 0 && filter !== 'active' && (
-            <div className="mt-4">
-              <div className="flex items-center gap-2 px-2 mb-2">
+        <div
+          ref={virtual.listRef}
+          className="flex flex-col gap-2"
+          style={{ paddingTop: virtual.paddingTop, paddingBottom: virtual.paddingBottom }}
+        >
+          {rows.slice(virtual.startIndex, virtual.endIndex + 1).map((row) =>
+            row.type === 'completed-header' ? (
+              <div
+                key={row.type}
+                ref={virtual.measureRef}
+                data-key={row.type}
+                className="flex items-center gap-2 px-2 pt-2"
+              >
                 <div className="h-px flex-1 bg-border-subtle" />
                 <span className="text-xs font-medium text-text-tertiary uppercase tracking-wide">
-                  Completed ({completedTasks.length})
+                  Completed ({row.count})
                 </span>
                 <div className="h-px flex-1 bg-border-subtle" />
               </div>
-              <div className="flex flex-col gap-2">
-                {completedTasks.map((task) => (
-                  <TaskItem
-                    key={task.id}
-                    task={task}
-                    onUpdate={onUpdateTask ? handleUpdateTask : undefined}
-                    onDelete={onDeleteTask ? handleDeleteTask : undefined}
-                    onEdit={onEditTask}
-                  />
-                ))}
+            ) : (
+              <div key={row.task.id} ref={virtual.measureRef} data-key={row.task.id}>
+                <TaskItem
+                  task={row.task}
+                  onUpdate={onUpdateTask ? handleUpdateTask : undefined}
+                  onDelete={onDeleteTask ? handleDeleteTask : undefined}
+                  onEdit={onEditTask}
+                />
               </div>
-            </div>
+            )
           )}
         </div>
       )}
+
+      {/* Next page */}
+      {isLoadingMore && (
+        <div className="flex items-center justify-center py-4">
+          <Spinner size="sm" />
+        </div>
+      )}
     </div>
   );
 }
@@ -10,3 +10,8 @@ export * from './TaskItem';
 export * from './TaskList';
 export * from './TaskDetailModal';
 export * from './DraggableTaskItem';
+export * from './TaskDependencies';
+export * from './TaskChecklist';
+export * from './TaskActivityTimeline';
+export * from './TaskAttachments';
+export * from './TaskDescriptionEditor';
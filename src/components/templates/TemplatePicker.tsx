@@ -0,0 +1,91 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { TemplateDto } from '@/lib/templates/types';
+
+export interface TemplatePickerProps {
+  templates: TemplateDto[];
+  selectedId?: string | null;
+  onSelect: (template: TemplateDto) => void;
+  onDelete?: (template: TemplateDto) => void;
+  emptyMessage?: string;
+  className?: string;
+}
+
+/**
+ * TemplatePicker component listing saved templates to start from.
+ *
+ * Features:
+ * - Template name, description and task count
+ * - Selected state
+ * - Delete with confirmation
+ */
+export function TemplatePicker({
+  templates,
+  selectedId,
+  onSelect,
+  onDelete,
+  emptyMessage = 'No templates yet',
+  className,
+}: TemplatePickerProps) {
+  if (templates.length === 0) {
+    return <p className={cn('py-2 text-xs text-text-tertiary', className)}>{emptyMessage}</p>;
+  }
+
+  const handleDelete = (template: TemplateDto) => {
+    if (confirm(`Delete template "${template.name}"?`)) {
+      onDelete?.(template);
+    }
+  };
+
+  return (
+    <ul className={cn('flex flex-col gap-1 max-h-48 overflow-y-auto', className)}>
+      {templates.map((template) => (
+        <li key={template.id} className="group flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => onSelect(template)}
+            className={cn(
+              'flex-1 min-w-0 flex items-center justify-between gap-2 px-3 py-2 rounded-lg border text-left text-sm transition-all duration-200',
+              selectedId === template.id
+                ? 'bg-primary/10 border-primary text-primary'
+                : 'bg-background-card border-border-subtle text-text-primary hover:border-border-default'
+            )}
+          >
+            <span className="min-w-0">
+              <span className="block truncate font-medium">{template.name}</span>
+              {template.description && (
+                <span className="block truncate text-xs text-text-tertiary">
+                  {template.description}
+                </span>
+              )}
+            </span>
+            <span className="shrink-0 text-xs text-text-tertiary">
+              {template.taskCount} {template.taskCount === 1 ? 'task' : 'tasks'}
+            </span>
+          </button>
+          {onDelete && (
+            <button
+              type="button"
+              onClick={() => handleDelete(template)}
+              className="p-1.5 rounded text-text-tertiary hover:text-error opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all"
+              aria-label={`Delete template ${template.name}`}
+            >
+              <svg
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <line x1="18" y1="6" x2="6" y2="18" />
+                <line x1="6" y1="6" x2="18" y2="18" />
+              </svg>
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Template Components
+ *
+ * UI components for picking task and list templates.
+ */
+
+export { TemplatePicker } from './TemplatePicker';
+export type { TemplatePickerProps } from './TemplatePicker';
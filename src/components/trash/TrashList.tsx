@@ -0,0 +1,117 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { TrashItemDto, TrashItemType } from '@/lib/trash/types';
+
+export interface TrashListProps {
+  items: TrashItemDto[];
+  isLoading?: boolean;
+  onRestore: (item: TrashItemDto) => void;
+  onDelete: (item: TrashItemDto) => void;
+  className?: string;
+}
+
+const TYPE_LABELS: Record<TrashItemType, string> = {
+  task: 'Task',
+  list: 'List',
+  tag: 'Tag',
+  habit: 'Habit',
+  goal: 'Goal',
+};
+
+function describeTasks(item: TrashItemDto): string | null {
+  if (item.taskCount === 0) {
+    return null;
+  }
+
+  const noun = item.type === 'list' ? 'task' : 'subtask';
+  return `${item.taskCount} ${noun}${item.taskCount === 1 ? '' : 's'}`;
+}
+
+/**
+ * TrashList component showing deleted items with restore and delete actions.
+ *
+ * Features:
+ * - Item type, deletion time and when it is purged
+ * - Number of tasks deleted along with a list or task
+ * - Restore and delete forever with confirmation
+ */
+export function TrashList({
+  items,
+  isLoading = false,
+  onRestore,
+  onDelete,
+  className,
+}: TrashListProps) {
+  if (isLoading && items.length === 0) {
+    return (
+      <div className={cn('space-y-2', className)}>
+        {[0, 1, 2].map((index) => (
+          <div key={index} className="h-16 rounded-xl bg-gray-100 animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className={cn('bg-white border border-gray-200 rounded-xl p-16 text-center', className)}>
+        <div className="text-6xl mb-4">🗑️</div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Trash is empty</h2>
+        <p className="text-gray-500 max-w-md mx-auto">
+          Deleted tasks, lists, tags, habits and goals show up here until they are purged.
+        </p>
+      </div>
+    );
+  }
+
+  const handleDelete = (item: TrashItemDto) => {
+    if (confirm(`Delete ${TYPE_LABELS[item.type].toLowerCase()} "${item.title}" forever?`)) {
+      onDelete(item);
+    }
+  };
+
+  return (
+    <ul className={cn('space-y-2', className)}>
+      {items.map((item) => {
+        const tasks = describeTasks(item);
+
+        return (
+          <li
+            key={`${item.type}-${item.id}`}
+            className="flex items-center gap-4 bg-white border border-gray-200 rounded-xl px-4 py-3"
+          >
+            <span className="shrink-0 px-2 py-0.5 rounded-md bg-gray-100 text-xs font-medium text-gray-600">
+              {TYPE_LABELS[item.type]}
+            </span>
+
+            <div className="flex-1 min-w-0">
+              <p className="truncate font-medium text-gray-900">{item.title}</p>
+              <p className="text-xs text-gray-500">
+                Deleted {formatDistanceToNow(item.deletedAt, { addSuffix: true })}
+                {tasks && ` • with ${tasks}`} • purged{' '}
+                {formatDistanceToNow(item.purgeAt, { addSuffix: true })}
+              </p>
+            </div>
+
+            <button
+              type="button"
+              onClick={() => onRestore(item)}
+              className="px-3 py-1.5 text-sm font-medium text-[#D97757] rounded-lg hover:bg-[#D97757]/10 transition-colors"
+            >
+              Restore
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(item)}
+              className="px-3 py-1.5 text-sm font-medium text-red-500 rounded-lg hover:bg-red-50 transition-colors"
+            >
+              Delete forever
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Trash Components
+ *
+ * UI components for browsing and restoring deleted items.
+ */
+
+export { TrashList } from './TrashList';
+export type { TrashListProps } from './TrashList';
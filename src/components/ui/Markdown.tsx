@@ -0,0 +1,143 @@
+import { useMemo, type ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownHeadingLevel,
+  type MarkdownInline,
+  type MarkdownListItem,
+} from '@/lib/markdown';
+
+export interface MarkdownProps {
+  /** Markdown text */
+  source: string;
+  /** Called with the source line of a task list item when its checkbox is clicked */
+  onToggleTask?: (line: number) => void;
+  className?: string;
+}
+
+const headingStyles: Record<MarkdownHeadingLevel, string> = {
+  1: 'text-lg font-semibold',
+  2: 'text-base font-semibold',
+  3: 'text-sm font-semibold',
+  4: 'text-sm font-semibold',
+  5: 'text-sm font-medium text-text-secondary',
+  6: 'text-sm font-medium text-text-secondary',
+};
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return (
+          <code
+            key={index}
+            className="px-1 py-0.5 rounded bg-background-secondary font-mono text-[0.9em]"
+          >
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return (
+          <strong key={index} className="font-semibold">
+            {renderInline(node.children)}
+          </strong>
+        );
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary underline underline-offset-2 hover:opacity-80"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderListItem(item: MarkdownListItem, onToggleTask?: (line: number) => void) {
+  if (item.checked === undefined) {
+    return <li key={item.line}>{renderInline(item.children)}</li>;
+  }
+
+  return (
+    <li key={item.line} className="flex items-start gap-2 -ml-5 list-none">
+      <input
+        type="checkbox"
+        checked={item.checked}
+        disabled={!onToggleTask}
+        onChange={() => onToggleTask?.(item.line)}
+        className="mt-1 accent-primary cursor-pointer disabled:cursor-default"
+      />
+      <span className={cn(item.checked && 'line-through text-text-tertiary')}>
+        {renderInline(item.children)}
+      </span>
+    </li>
+  );
+}
+
+function renderBlock(
+  block: MarkdownBlock,
+  index: number,
+  onToggleTask?: (line: number) => void
+): ReactNode {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${block.level}` as const;
+      return (
+        <Heading key={index} className={cn('text-text-primary', headingStyles[block.level])}>
+          {renderInline(block.children)}
+        </Heading>
+      );
+    }
+    case 'paragraph':
+      return <p key={index}>{renderInline(block.children)}</p>;
+    case 'code':
+      return (
+        <pre
+          key={index}
+          className="p-3 rounded-lg bg-background-secondary overflow-x-auto font-mono text-xs"
+        >
+          <code data-lang={block.lang ?? undefined}>{block.text}</code>
+        </pre>
+      );
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className={cn('pl-5', block.ordered ? 'list-decimal' : 'list-disc')}>
+          {block.items.map((item) => renderListItem(item, onToggleTask))}
+        </List>
+      );
+    }
+  }
+}
+
+/**
+ * Markdown component for rendering user-written markdown.
+ *
+ * Renders the parsed syntax tree as React elements, never raw HTML,
+ * so the output is safe for untrusted input. Task list checkboxes are
+ * read-only unless onToggleTask is provided.
+ *
+ * @example
+ * <Markdown source={comment.content} />
+ */
+export function Markdown({ source, onToggleTask, className }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={cn('flex flex-col gap-2 text-sm text-text-primary break-words', className)}>
+      {blocks.map((block, index) => renderBlock(block, index, onToggleTask))}
+    </div>
+  );
+}
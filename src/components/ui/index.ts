@@ -7,6 +7,7 @@ export * from './Button';
 export * from './Card';
 export * from './Input';
 export * from './Modal';
+export * from './Markdown';
 export * from './MobileSheet';
 export * from './Spinner';
 export * from './Skeleton';
@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { UndoAction } from '@/lib/undo/types';
+
+export interface UndoToastProps {
+  message: string;
+  /** Action offered next to the message */
+  action?: UndoAction;
+  onAction: (action: UndoAction) => void;
+  onDismiss: () => void;
+  autoCloseDelay?: number;
+  className?: string;
+}
+
+const ACTION_LABELS: Record<UndoAction, string> = {
+  undo: 'Undo',
+  redo: 'Redo',
+};
+
+/**
+ * UndoToast component confirming a change with an Undo or Redo action.
+ *
+ * Features:
+ * - Closes by itself after a delay
+ * - Undo/Redo action button
+ * - Announced to screen readers
+ */
+export function UndoToast({
+  message,
+  action,
+  onAction,
+  onDismiss,
+  autoCloseDelay = 6000,
+  className,
+}: UndoToastProps) {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, autoCloseDelay);
+    return () => clearTimeout(timeout);
+  }, [message, onDismiss, autoCloseDelay]);
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={cn(
+        'fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-3',
+        'bg-gray-900 text-white text-sm rounded-xl shadow-2xl max-w-md',
+        className
+      )}
+    >
+      <span className="truncate">{message}</span>
+      {action && (
+        <button
+          type="button"
+          onClick={() => onAction(action)}
+          className="shrink-0 font-semibold text-[#F0A58A] hover:text-white transition-colors"
+        >
+          {ACTION_LABELS[action]}
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onDismiss}
+        aria-label="Dismiss"
+        className="shrink-0 p-0.5 text-gray-400 hover:text-white transition-colors"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
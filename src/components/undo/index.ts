@@ -0,0 +1,8 @@
+/**
+ * Undo Components
+ *
+ * UI components for undoing and redoing changes.
+ */
+
+export { UndoToast } from './UndoToast';
+export type { UndoToastProps } from './UndoToast';
@@ -0,0 +1,133 @@
+/**
+ * Event Stream Context
+ *
+ * Keeps one Server-Sent Events connection to /api/events per tab and hands
+ * reminder, task and list events to subscribers. The browser reconnects on
+ * its own and resumes with Last-Event-ID; when the connection is closed for
+ * good (e.g. an error response), it is reopened with backoff from the last
+ * event received.
+ */
+
+'use client';
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  ReactNode,
+} from 'react';
+import { useSession } from 'next-auth/react';
+import type { AppEventDataMap, AppEventType } from '@/lib/events/types';
+import { APP_EVENT_TYPES } from '@/lib/events/types';
+
+type AppEventHandler<T extends AppEventType> = (data: AppEventDataMap[T]) => void;
+
+interface EventStreamContextValue {
+  subscribe: <T extends AppEventType>(type: T, handler: AppEventHandler<T>) => () => void;
+}
+
+const EventStreamContext = createContext<EventStreamContextValue | undefined>(undefined);
+
+const MIN_RECONNECT_DELAY = 1000; // 1 second
+const MAX_RECONNECT_DELAY = 30000; // 30 seconds
+
+export function EventStreamProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+  const handlersRef = useRef(new Map<AppEventType, Set<(data: unknown) => void>>());
+
+  const subscribe = useCallback(<T extends AppEventType>(type: T, handler: AppEventHandler<T>) => {
+    const handlers = handlersRef.current.get(type) ?? new Set();
+    handlersRef.current.set(type, handlers);
+
+    const listener = handler as (data: unknown) => void;
+    handlers.add(listener);
+    return () => {
+      handlers.delete(listener);
+    };
+  }, []);
+
+  // Connect while signed in
+  useEffect(() => {
+    if (!userId || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let lastEventId: string | null = null;
+    let reconnectDelay = MIN_RECONNECT_DELAY;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const dispatch = (event: MessageEvent<string>) => {
+      lastEventId = event.lastEventId || lastEventId;
+      try {
+        const data = JSON.parse(event.data);
+        handlersRef.current.get(event.type as AppEventType)?.forEach((handler) => handler(data));
+      } catch {
+        // Ignore malformed events
+      }
+    };
+
+    const connect = () => {
+      const url = lastEventId
+        ? `/api/events?lastEventId=${encodeURIComponent(lastEventId)}`
+        : '/api/events';
+      source = new EventSource(url);
+
+      APP_EVENT_TYPES.forEach((type) => source?.addEventListener(type, dispatch));
+
+      source.onopen = () => {
+        reconnectDelay = MIN_RECONNECT_DELAY;
+      };
+
+      source.onerror = () => {
+        // CONNECTING means the browser is already retrying
+        if (source?.readyState !== EventSource.CLOSED) return;
+
+        source = null;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    connect();
+
+    return () => {
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      source?.close();
+    };
+  }, [userId]);
+
+  const value = useMemo(() => ({ subscribe }), [subscribe]);
+
+  return <EventStreamContext.Provider value={value}>{children}</EventStreamContext.Provider>;
+}
+
+/**
+ * Call a handler for every event of the given types while mounted.
+ * Does nothing outside an EventStreamProvider.
+ */
+export function useAppEvents<T extends AppEventType>(
+  types: T[],
+  handler: (data: AppEventDataMap[T], type: T) => void
+) {
+  const context = useContext(EventStreamContext);
+  const handlerRef = useRef(handler);
+  const key = types.join(',');
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    if (!context) return;
+
+    const unsubscribes = (key.split(',') as T[]).map((type) =>
+      context.subscribe(type, (data) => handlerRef.current(data, type))
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [context, key]);
+}
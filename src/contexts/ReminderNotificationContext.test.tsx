@@ -0,0 +1,95 @@
+/**
+ * Reminder Notification Context Tests
+ *
+ * Tests that the provider only displays due reminders and leaves delivering
+ * them to the reminder worker.
+ */
+
+import { render, screen, waitFor } from '@testing-library/react';
+import { ReminderNotificationProvider } from './ReminderNotificationContext';
+
+jest.mock('next-auth/react', () => ({
+  useSession: () => ({ data: { user: { id: 'user-1' } } }),
+}));
+
+jest.mock('@/contexts/EventStreamContext', () => ({
+  useAppEvents: jest.fn(),
+}));
+
+jest.mock('@/components/reminders', () => ({
+  ReminderToastContainer: ({ toasts }: { toasts: Array<{ taskTitle: string }> }) => (
+    <ul>
+      {toasts.map((toast) => (
+        <li key={toast.taskTitle}>{toast.taskTitle}</li>
+      ))}
+    </ul>
+  ),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('ReminderNotificationProvider', () => {
+  const dueReminder = (id: string, type: string, status: string) => ({
+    id,
+    type,
+    status,
+    fireAt: new Date(Date.now() - 60 * 1000).toISOString(),
+    relativeOffset: null,
+    snoozedUntil: null,
+    snoozeCount: 0,
+    sentAt: null,
+    dismissedAt: null,
+    taskId: `task-${id}`,
+    userId: 'user-1',
+  });
+
+  const fetchMock = jest.fn();
+
+  beforeAll(() => {
+    jest.spyOn(window.HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.startsWith('/api/reminders?includePending')) {
+        return {
+          ok: true,
+          json: async () => ({
+            reminders: [
+              dueReminder('email', 'EMAIL', 'PENDING'),
+              dueReminder('push', 'PUSH', 'SNOOZED'),
+            ],
+          }),
+        };
+      }
+      if (url.startsWith('/api/reminders?status=SENT')) {
+        return { ok: true, json: async () => ({ reminders: [] }) };
+      }
+      const taskId = url.split('/').pop();
+      return { ok: true, json: async () => ({ task: { title: `Title of ${taskId}` } }) };
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('should show due email and push reminders without changing their status', async () => {
+    render(
+      <ReminderNotificationProvider>
+        <div />
+      </ReminderNotificationProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Title of task-email')).toBeTruthy();
+      expect(screen.getByText('Title of task-push')).toBeTruthy();
+    });
+
+    for (const [url, init] of fetchMock.mock.calls) {
+      expect(init?.method ?? 'GET').toBe('GET');
+      expect(url).not.toMatch(/^\/api\/reminders\/[^?]/);
+    }
+  });
+});
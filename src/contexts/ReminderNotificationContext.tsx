@@ -2,7 +2,9 @@
  * Reminder Notification Context
  *
  * Global provider for managing reminder notifications
- * Polls for due reminders and displays toasts
+ * Shows reminders fired by the reminder worker as they arrive on the event
+ * stream, polls for due and recently sent reminders as a fallback, and
+ * displays toasts
  */
 
 'use client';
@@ -11,6 +13,7 @@ import { createContext, useContext, useState, useEffect, useCallback, ReactNode
 import { useSession } from 'next-auth/react';
 import { ReminderDto } from '@/lib/reminders';
 import { ReminderToastContainer } from '@/components/reminders';
+import { useAppEvents } from '@/contexts/EventStreamContext';
 import { logger } from '@/lib/logger';
 
 interface NotificationToast {
@@ -31,6 +34,7 @@ const ReminderNotificationContext = createContext<ReminderNotificationContextVal
 );
 
 const POLL_INTERVAL = 30000; // 30 seconds
+const RECENTLY_SENT_WINDOW = 24 * 60 * 60 * 1000; // 1 day
 const SHOWN_REMINDERS_KEY = 'shown_reminders';
 
 export function ReminderNotificationProvider({ children }: { children: ReactNode }) {
@@ -87,6 +91,59 @@ export function ReminderNotificationProvider({ children }: { children: ReactNode
     [updateShownReminders]
   );
 
+  // Show new toasts with a sound and a browser notification
+  const showToasts = useCallback((newToasts: NotificationToast[]) => {
+    setActiveToasts((prev) => {
+      const existingIds = new Set(prev.map((t) => t.reminder.id));
+      const uniqueNewToasts = newToasts.filter((t) => !existingIds.has(t.reminder.id));
+      return [...prev, ...uniqueNewToasts];
+    });
+
+    // Play notification sound if available
+    if (typeof window !== 'undefined' && 'Audio' in window) {
+      try {
+        const audio = new Audio('/sounds/notification.mp3');
+        audio.volume = 0.5;
+        audio.play().catch(() => {
+          // Auto-play was prevented, ignore
+        });
+      } catch {
+        // Sound not available, ignore
+      }
+    }
+
+    // Request browser notification permission
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+
+    // Show browser notification if permitted; the tag matches push
+    // notifications, so other tabs and the service worker don't repeat it
+    if ('Notification' in window && Notification.permission === 'granted') {
+      newToasts.forEach((toast) => {
+        new Notification('Task Reminder', {
+          body: toast.taskTitle,
+          icon: '/icon-192.png',
+          tag: `reminder-${toast.reminder.id}`,
+        });
+      });
+    }
+  }, []);
+
+  // Show reminders the moment the reminder worker fires them
+  useAppEvents(['reminder.fired'], ({ reminder, taskTitle, taskDueDate }) => {
+    if (shownReminderIds.has(reminder.id)) return;
+
+    showToasts([{ reminder, taskTitle, taskDueDate: taskDueDate ? new Date(taskDueDate) : null }]);
+
+    setShownReminderIds((prev) => {
+      const updated = new Set(prev);
+      updated.add(reminder.id);
+      updateShownReminders(updated);
+      return updated;
+    });
+  });
+
   // Snooze a toast
   const snoozeToast = useCallback(async (reminderId: string, minutes: number) => {
     try {
@@ -110,11 +167,20 @@ export function ReminderNotificationProvider({ children }: { children: ReactNode
 
     const checkForReminders = async () => {
       try {
-        const response = await fetch(`/api/reminders?includePending=true&limit=20`);
-        if (!response.ok) return;
-
-        const data = await response.json();
-        const pendingReminders: ReminderDto[] = data.reminders || [];
+        // Reminders due now, plus those the reminder worker sent recently
+        const sentAfter = new Date(Date.now() - RECENTLY_SENT_WINDOW).toISOString();
+        const [pendingResponse, sentResponse] = await Promise.all([
+          fetch(`/api/reminders?includePending=true&limit=20`),
+          fetch(`/api/reminders?status=SENT&sentAfter=${encodeURIComponent(sentAfter)}&limit=20`),
+        ]);
+        if (!pendingResponse.ok) return;
+
+        const data = await pendingResponse.json();
+        const sentData = sentResponse.ok ? await sentResponse.json() : { reminders: [] };
+        const pendingReminders: ReminderDto[] = [
+          ...(data.reminders || []),
+          ...(sentData.reminders || []),
+        ];
 
         const now = new Date();
         const newToasts: NotificationToast[] = [];
@@ -131,14 +197,9 @@ export function ReminderNotificationProvider({ children }: { children: ReactNode
               ? new Date(reminder.snoozedUntil)
               : new Date(reminder.fireAt);
 
+          // Only display the reminder; delivering it and marking it as sent
+          // is up to the reminder worker
           if (fireTime <= now) {
-            // Mark as sent
-            await fetch(`/api/reminders/${reminder.id}`, {
-              method: 'PUT',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ status: 'SENT' }),
-            });
-
             // Fetch task details
             const taskResponse = await fetch(`/api/tasks/${reminder.taskId}`);
             if (taskResponse.ok) {
@@ -162,40 +223,7 @@ export function ReminderNotificationProvider({ children }: { children: ReactNode
 
         // Add new toasts
         if (newToasts.length > 0) {
-          setActiveToasts((prev) => {
-            const existingIds = new Set(prev.map((t) => t.reminder.id));
-            const uniqueNewToasts = newToasts.filter((t) => !existingIds.has(t.reminder.id));
-            return [...prev, ...uniqueNewToasts];
-          });
-
-          // Play notification sound if available
-          if (typeof window !== 'undefined' && 'Audio' in window) {
-            try {
-              const audio = new Audio('/sounds/notification.mp3');
-              audio.volume = 0.5;
-              audio.play().catch(() => {
-                // Auto-play was prevented, ignore
-              });
-            } catch {
-              // Sound not available, ignore
-            }
-          }
-
-          // Request browser notification permission
-          if ('Notification' in window && Notification.permission === 'default') {
-            Notification.requestPermission();
-          }
-
-          // Show browser notification if permitted
-          if ('Notification' in window && Notification.permission === 'granted') {
-            newToasts.forEach((toast) => {
-              new Notification('Task Reminder', {
-                body: toast.taskTitle,
-                icon: '/icon-192.png',
-                tag: toast.reminder.id,
-              });
-            });
-          }
+          showToasts(newToasts);
         }
       } catch (error) {
         logger.error('Failed to check for reminders', error instanceof Error ? error : undefined);
@@ -209,7 +237,7 @@ export function ReminderNotificationProvider({ children }: { children: ReactNode
     const interval = setInterval(checkForReminders, POLL_INTERVAL);
 
     return () => clearInterval(interval);
-  }, [session?.user?.id, shownReminderIds, updateShownReminders]);
+  }, [session?.user?.id, shownReminderIds, updateShownReminders, showToasts]);
 
   const value: ReminderNotificationContextValue = {
     activeToasts,
@@ -0,0 +1,172 @@
+/**
+ * Undo Context
+ *
+ * Global undo and redo stacks for task mutations.
+ * Handles Ctrl+Z / Ctrl+Shift+Z and shows an Undo toast after destructive changes.
+ */
+
+'use client';
+
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from 'react';
+import {
+  createHistory,
+  getUndoShortcutAction,
+  recordCommand,
+  takeRedo,
+  takeUndo,
+  type UndoAction,
+  type UndoCommand,
+  type UndoHistory,
+} from '@/lib/undo';
+import { UndoToast } from '@/components/undo';
+import { logger } from '@/lib/logger';
+
+interface UndoToastState {
+  id: number;
+  message: string;
+  action?: UndoAction;
+}
+
+interface UndoContextValue {
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Increases after every undo or redo, so views can reload what changed */
+  revision: number;
+  record: (command: UndoCommand) => void;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+}
+
+const UndoContext = createContext<UndoContextValue | undefined>(undefined);
+
+export function UndoProvider({ children }: { children: ReactNode }) {
+  const historyRef = useRef<UndoHistory>(createHistory());
+  const runningRef = useRef(false);
+  const toastIdRef = useRef(0);
+  const [history, setHistory] = useState<UndoHistory>(historyRef.current);
+  const [revision, setRevision] = useState(0);
+  const [toast, setToast] = useState<UndoToastState | null>(null);
+
+  const updateHistory = useCallback((next: UndoHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const showToast = useCallback((message: string, action?: UndoAction) => {
+    toastIdRef.current += 1;
+    setToast({ id: toastIdRef.current, message, action });
+  }, []);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  // Record a command that has just been applied
+  const record = useCallback(
+    (command: UndoCommand) => {
+      updateHistory(recordCommand(historyRef.current, command));
+      // The toast's action always applies to the latest command
+      if (command.destructive) {
+        showToast(command.label, 'undo');
+      } else {
+        setToast(null);
+      }
+    },
+    [updateHistory, showToast]
+  );
+
+  // Run the next command in one direction; one at a time so the stacks stay in order
+  const run = useCallback(
+    async (action: UndoAction): Promise<boolean> => {
+      if (runningRef.current) {
+        return false;
+      }
+
+      const next = action === 'undo' ? takeUndo(historyRef.current) : takeRedo(historyRef.current);
+      if (!next) {
+        return false;
+      }
+
+      runningRef.current = true;
+      updateHistory(next.history);
+
+      try {
+        await (action === 'undo' ? next.command.undo() : next.command.redo());
+        showToast(
+          `${action === 'undo' ? 'Undone' : 'Redone'}: ${next.command.label}`,
+          action === 'undo' ? 'redo' : 'undo'
+        );
+        return true;
+      } catch (error) {
+        logger.error(`Failed to ${action} change`, error instanceof Error ? error : undefined);
+        // The command no longer applies to the current state
+        updateHistory(
+          action === 'undo'
+            ? { ...historyRef.current, future: historyRef.current.future.slice(0, -1) }
+            : { ...historyRef.current, past: historyRef.current.past.slice(0, -1) }
+        );
+        showToast(`Could not ${action}: ${next.command.label}`);
+        return false;
+      } finally {
+        runningRef.current = false;
+        setRevision((prev) => prev + 1);
+      }
+    },
+    [updateHistory, showToast]
+  );
+
+  const undo = useCallback(() => run('undo'), [run]);
+  const redo = useCallback(() => run('redo'), [run]);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = getUndoShortcutAction(e);
+      if (action) {
+        e.preventDefault();
+        run(action);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [run]);
+
+  const value: UndoContextValue = {
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    revision,
+    record,
+    undo,
+    redo,
+  };
+
+  return (
+    <UndoContext.Provider value={value}>
+      {children}
+      {toast && (
+        <UndoToast
+          key={toast.id}
+          message={toast.message}
+          action={toast.action}
+          onAction={run}
+          onDismiss={dismissToast}
+        />
+      )}
+    </UndoContext.Provider>
+  );
+}
+
+export function useUndo() {
+  const context = useContext(UndoContext);
+  if (!context) {
+    throw new Error('useUndo must be used within UndoProvider');
+  }
+  return context;
+}
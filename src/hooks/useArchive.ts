@@ -0,0 +1,111 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ArchiveItemDto, ArchiveItemType } from '@/lib/archive/types';
+
+export interface UseArchiveOptions {
+  /** Title search */
+  search?: string;
+  /** Only list tasks or lists */
+  type?: ArchiveItemType;
+  /** Delay before searching after the search changes (ms) */
+  debounceMs?: number;
+}
+
+export interface UseArchiveResult {
+  items: ArchiveItemDto[];
+  autoArchiveDays: number | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  unarchiveItem: (type: ArchiveItemType, id: string) => Promise<boolean>;
+}
+
+/**
+ * Hook for searching and unarchiving archived tasks and lists.
+ */
+export function useArchive(options: UseArchiveOptions = {}): UseArchiveResult {
+  const { search = '', type, debounceMs = 200 } = options;
+
+  const [items, setItems] = useState<ArchiveItemDto[]>([]);
+  const [autoArchiveDays, setAutoArchiveDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchArchive = useCallback(
+    async (signal?: AbortSignal) => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams();
+        if (search.trim()) params.set('search', search.trim());
+        if (type) params.set('type', type);
+
+        const response = await fetch(`/api/archive?${params}`, { signal });
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch archive');
+        }
+
+        const data = await response.json();
+        setItems(
+          data.items.map((item: ArchiveItemDto) => ({
+            ...item,
+            archivedAt: new Date(item.archivedAt),
+            completedAt: item.completedAt ? new Date(item.completedAt) : null,
+          }))
+        );
+        setAutoArchiveDays(data.autoArchiveDays);
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') {
+          return;
+        }
+        setError(err instanceof Error ? err.message : 'Failed to fetch archive');
+      } finally {
+        if (!signal?.aborted) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [search, type]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => fetchArchive(controller.signal), debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [fetchArchive, debounceMs]);
+
+  const unarchiveItem = useCallback(async (type: ArchiveItemType, id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/archive/${type}/${id}/unarchive`, { method: 'POST' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to unarchive item');
+      }
+
+      setItems((prev) => prev.filter((item) => item.type !== type || item.id !== id));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unarchive item');
+      return false;
+    }
+  }, []);
+
+  return {
+    items,
+    autoArchiveDays,
+    isLoading,
+    error,
+    refetch: () => fetchArchive(),
+    unarchiveItem,
+  };
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AttachmentDto } from '@/lib/attachments/types';
+
+export interface UseAttachmentsResult {
+  attachments: AttachmentDto[];
+  isLoading: boolean;
+  isUploading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  uploadFiles: (files: File[]) => Promise<boolean>;
+  deleteAttachment: (attachmentId: string) => Promise<boolean>;
+}
+
+/**
+ * Hook for fetching and managing the attachments of a task.
+ */
+export function useAttachments(taskId: string | undefined): UseAttachmentsResult {
+  const [attachments, setAttachments] = useState<AttachmentDto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAttachments = useCallback(async () => {
+    if (!taskId) {
+      setAttachments([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/attachments`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch attachments');
+      }
+
+      const data = await response.json();
+      setAttachments(data.attachments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch attachments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  const uploadFiles = useCallback(
+    async (files: File[]): Promise<boolean> => {
+      if (!taskId || files.length === 0) return false;
+
+      setIsUploading(true);
+      setError(null);
+
+      try {
+        // Upload one at a time so a rejected file doesn't block the rest
+        for (const file of files) {
+          const body = new FormData();
+          body.append('file', file);
+
+          const response = await fetch(`/api/tasks/${taskId}/attachments`, {
+            method: 'POST',
+            body,
+          });
+
+          const data = await response.json();
+          if (!response.ok) {
+            throw new Error(`${file.name}: ${data.error || 'Failed to upload'}`);
+          }
+
+          setAttachments((prev) => [...prev, data.attachment]);
+        }
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to upload attachment');
+        return false;
+      } finally {
+        setIsUploading(false);
+      }
+    },
+    [taskId]
+  );
+
+  const deleteAttachment = useCallback(
+    async (attachmentId: string): Promise<boolean> => {
+      if (!taskId) return false;
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/attachments/${attachmentId}`, {
+          method: 'DELETE',
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to delete attachment');
+        }
+
+        setAttachments((prev) => prev.filter((attachment) => attachment.id !== attachmentId));
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to delete attachment');
+        return false;
+      }
+    },
+    [taskId]
+  );
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  return {
+    attachments,
+    isLoading,
+    isUploading,
+    error,
+    refetch: fetchAttachments,
+    uploadFiles,
+    deleteAttachment,
+  };
+}
@@ -89,6 +89,7 @@ function convertTaskDtoToCalendarTask(task: TaskDto) {
     completedAt: task.completedAt ? new Date(task.completedAt) : null,
     createdAt: new Date(task.createdAt),
     updatedAt: new Date(task.updatedAt),
+    deletedAt: null, // Tasks in the trash are never listed
     // Convert tags to TaskWithTags format
     tags: task.tags.map((tag) => ({
       tag: {
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ChecklistItemDto, TaskDto } from '@/lib/tasks/types';
+
+export interface UseChecklistResult {
+  items: ChecklistItemDto[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  addItem: (text: string) => Promise<boolean>;
+  updateItem: (
+    itemId: string,
+    updates: Partial<Pick<ChecklistItemDto, 'text' | 'checked'>>
+  ) => Promise<boolean>;
+  deleteItem: (itemId: string) => Promise<boolean>;
+  convertItem: (itemId: string) => Promise<TaskDto | null>;
+}
+
+/**
+ * Hook for fetching and managing the checklist of a task.
+ *
+ * Provides checklist CRUD operations with optimistic updates.
+ */
+export function useChecklist(taskId: string | undefined): UseChecklistResult {
+  const [items, setItems] = useState<ChecklistItemDto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/tasks/${taskId}/checklist`;
+
+  const fetchItems = useCallback(async () => {
+    if (!taskId) {
+      setItems([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/checklist`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch checklist');
+      }
+
+      const data = await response.json();
+      setItems(data.items);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch checklist');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  const addItem = useCallback(
+    async (text: string): Promise<boolean> => {
+      if (!taskId) return false;
+      setError(null);
+
+      try {
+        const response = await fetch(baseUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ text }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to add checklist item');
+        }
+
+        setItems((prev) => [...prev, data.item]);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to add checklist item');
+        return false;
+      }
+    },
+    [taskId, baseUrl]
+  );
+
+  const updateItem = useCallback(
+    async (
+      itemId: string,
+      updates: Partial<Pick<ChecklistItemDto, 'text' | 'checked'>>
+    ): Promise<boolean> => {
+      setError(null);
+
+      // Optimistic update
+      const previous = items;
+      setItems((prev) => prev.map((item) => (item.id === itemId ? { ...item, ...updates } : item)));
+
+      try {
+        const response = await fetch(`${baseUrl}/${itemId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to update checklist item');
+        }
+
+        return true;
+      } catch (err) {
+        setItems(previous);
+        setError(err instanceof Error ? err.message : 'Failed to update checklist item');
+        return false;
+      }
+    },
+    [items, baseUrl]
+  );
+
+  const deleteItem = useCallback(
+    async (itemId: string): Promise<boolean> => {
+      setError(null);
+
+      try {
+        const response = await fetch(`${baseUrl}/${itemId}`, { method: 'DELETE' });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to delete checklist item');
+        }
+
+        setItems((prev) => prev.filter((item) => item.id !== itemId));
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to delete checklist item');
+        return false;
+      }
+    },
+    [baseUrl]
+  );
+
+  const convertItem = useCallback(
+    async (itemId: string): Promise<TaskDto | null> => {
+      setError(null);
+
+      try {
+        const response = await fetch(`${baseUrl}/${itemId}/convert`, { method: 'POST' });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to convert checklist item');
+        }
+
+        setItems((prev) => prev.filter((item) => item.id !== itemId));
+        return data.task;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to convert checklist item');
+        return null;
+      }
+    },
+    [baseUrl]
+  );
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  return {
+    items,
+    isLoading,
+    error,
+    refetch: fetchItems,
+    addItem,
+    updateItem,
+    deleteItem,
+    convertItem,
+  };
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { TaskDto } from '@/lib/tasks/types';
+import type { RecurrenceEditScope } from '@/lib/tasks/schemas';
 import type {
   EisenhowerQuadrant,
   EisenhowerMatrixData,
@@ -17,6 +18,7 @@ import {
   clearQuadrantAssignment as clearQuadrantAssignmentUtil,
 } from '@/lib/eisenhower';
 import { useTasks } from './useTasks';
+import { useUndo } from '@/contexts/UndoContext';
 
 export interface UseEisenhowerOptions {
   autoFetch?: boolean;
@@ -44,9 +46,19 @@ export interface UseEisenhowerResult {
 
   // Task actions (delegated from useTasks)
   addTask: (title: string, description?: string) => Promise<TaskDto | null>;
-  updateTask: (id: string, updates: Partial<TaskDto>) => Promise<boolean>;
+  updateTask: (
+    id: string,
+    updates: Partial<TaskDto>,
+    scope?: RecurrenceEditScope
+  ) => Promise<boolean>;
   deleteTask: (id: string) => Promise<boolean>;
 
+  // Undo/redo (shared with every task view)
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+  canUndo: boolean;
+  canRedo: boolean;
+
   // Computed
   totalTasks: number;
   hasManualAssignments: boolean;
@@ -111,6 +123,10 @@ export function useEisenhower(options: UseEisenhowerOptions = {}): UseEisenhower
     addTask,
     updateTask,
     deleteTask,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   } = useTasks({
     autoFetch,
     filter: {
@@ -120,6 +136,8 @@ export function useEisenhower(options: UseEisenhowerOptions = {}): UseEisenhower
     },
   });
 
+  const { record } = useUndo();
+
   // Load manual assignments on mount
   useEffect(() => {
     setManualAssignmentsState(loadManualAssignments());
@@ -155,24 +173,40 @@ export function useEisenhower(options: UseEisenhowerOptions = {}): UseEisenhower
   // Has manual assignments
   const hasManualAssignments = Object.keys(manualAssignments).length > 0;
 
+  // Save manual assignments, recording the previous ones for undo
+  const applyAssignments = useCallback(
+    (updated: ManualQuadrantAssignments, previous: ManualQuadrantAssignments, label: string) => {
+      const apply = (assignments: ManualQuadrantAssignments) => {
+        setManualAssignmentsState(assignments);
+        saveManualAssignments(assignments);
+      };
+
+      apply(updated);
+      record({
+        label,
+        undo: async () => apply(previous),
+        redo: async () => apply(updated),
+      });
+    },
+    [record]
+  );
+
   // Move task to a different quadrant (manual override)
   const moveToQuadrant = useCallback(
     (taskId: string, toQuadrant: EisenhowerQuadrant) => {
       const updated = moveToQuadrantUtil(taskId, toQuadrant, manualAssignments);
-      setManualAssignmentsState(updated);
-      saveManualAssignments(updated);
+      applyAssignments(updated, manualAssignments, 'Move task to quadrant');
     },
-    [manualAssignments]
+    [manualAssignments, applyAssignments]
   );
 
   // Clear manual quadrant assignment
   const clearQuadrantAssignment = useCallback(
     (taskId: string) => {
       const updated = clearQuadrantAssignmentUtil(taskId, manualAssignments);
-      setManualAssignmentsState(updated);
-      saveManualAssignments(updated);
+      applyAssignments(updated, manualAssignments, 'Reset task quadrant');
     },
-    [manualAssignments]
+    [manualAssignments, applyAssignments]
   );
 
   // Refetch all data
@@ -192,6 +226,10 @@ export function useEisenhower(options: UseEisenhowerOptions = {}): UseEisenhower
     addTask,
     updateTask,
     deleteTask,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     totalTasks,
     hasManualAssignments,
   };
@@ -189,6 +189,7 @@ export function useGoals(options: UseGoalsOptions = {}): UseGoalsResult {
         sortOrder: input.sortOrder ?? goals.length,
         createdAt: new Date(),
         updatedAt: new Date(),
+        deletedAt: null,
         progress: 0,
         isOverdue: false,
         daysRemaining: null,
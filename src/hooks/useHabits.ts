@@ -183,6 +183,7 @@ export function useHabits(options: UseHabitsOptions = {}): UseHabitsResult {
         isArchived: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        deletedAt: null,
         entries: [],
         _count: { entries: 0 },
         currentStreak: 0,
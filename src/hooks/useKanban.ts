@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { TaskDto } from '@/lib/tasks/types';
+import type { RecurrenceEditScope } from '@/lib/tasks/schemas';
 import type { KanbanColumn, KanbanGroupBy, GroupedTasks } from '@/lib/kanban';
 import { groupTasks, sortColumnTasks, getDefaultGroupBy } from '@/lib/kanban';
 import { useTasks } from './useTasks';
@@ -37,9 +38,19 @@ export interface UseKanbanResult {
 
   // Task actions (delegated from useTasks)
   addTask: (title: string, description?: string) => Promise<TaskDto | null>;
-  updateTask: (id: string, updates: Partial<TaskDto>) => Promise<boolean>;
+  updateTask: (
+    id: string,
+    updates: Partial<TaskDto>,
+    scope?: RecurrenceEditScope
+  ) => Promise<boolean>;
   deleteTask: (id: string) => Promise<boolean>;
 
+  // Undo/redo (shared with every task view)
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+  canUndo: boolean;
+  canRedo: boolean;
+
   // Stats
   totalTasks: number;
   totalColumns: number;
@@ -111,6 +122,10 @@ export function useKanban(options: UseKanbanOptions = {}): UseKanbanResult {
     addTask,
     updateTask,
     deleteTask,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   } = useTasks({
     autoFetch,
     filter: {
@@ -244,6 +259,10 @@ export function useKanban(options: UseKanbanOptions = {}): UseKanbanResult {
     addTask,
     updateTask,
     deleteTask,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     totalTasks: groupedData.totalTasks,
     totalColumns: groupedData.columns.length,
   };
@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { ListDto } from '@/lib/lists/types';
+import { useAppEvents } from '@/contexts/EventStreamContext';
+import type { DuplicateListInput } from '@/lib/lists/schemas';
 
 export interface UseListsOptions {
   autoFetch?: boolean;
@@ -18,9 +20,16 @@ export interface UseListsResult {
   ) => Promise<ListDto | null>;
   updateList: (id: string, updates: Partial<ListDto>) => Promise<boolean>;
   deleteList: (id: string) => Promise<boolean>;
+  archiveList: (id: string) => Promise<boolean>;
+  /** Archive a list's completed tasks; resolves to the number archived */
+  archiveCompletedTasks: (id: string) => Promise<number | null>;
+  duplicateList: (id: string, options?: DuplicateListInput) => Promise<ListDto | null>;
   toggleFavorite: (id: string, isFavorite: boolean) => Promise<boolean>;
 }
 
+/** Wait for a burst of change events to settle before reloading */
+const EVENT_REFRESH_DELAY = 300;
+
 /**
  * Hook for fetching and managing lists.
  *
@@ -62,6 +71,38 @@ export function useLists(options: UseListsOptions = {}): UseListsResult {
     }
   }, [fetchLists, autoFetch]);
 
+  // Reload quietly when lists or their task counts change in another tab or on the server
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useAppEvents(
+    ['list.created', 'list.updated', 'list.deleted', 'task.created', 'task.deleted'],
+    () => {
+      if (!autoFetch) return;
+
+      if (refreshTimerRef.current) {
+        clearTimeout(refreshTimerRef.current);
+      }
+      refreshTimerRef.current = setTimeout(async () => {
+        try {
+          const response = await fetch('/api/lists?sortBy=sortOrder&sortOrder=asc');
+          if (response.ok) {
+            const data = await response.json();
+            setLists(data.lists || []);
+          }
+        } catch {
+          // The next change or fetch catches up
+        }
+      }, EVENT_REFRESH_DELAY);
+    }
+  );
+  useEffect(
+    () => () => {
+      if (refreshTimerRef.current) {
+        clearTimeout(refreshTimerRef.current);
+      }
+    },
+    []
+  );
+
   // Add list
   const addList = useCallback(
     async (
@@ -153,6 +194,90 @@ export function useLists(options: UseListsOptions = {}): UseListsResult {
     }
   }, []);
 
+  // Archive list with its tasks
+  const archiveList = useCallback(async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/archive/list/${id}`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to archive list');
+      }
+
+      // Optimistic update
+      setLists((prev) => prev.filter((list) => list.id !== id));
+
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, []);
+
+  // Archive the completed tasks of a list
+  const archiveCompletedTasks = useCallback(
+    async (id: string): Promise<number | null> => {
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/lists/${id}/archive-completed`, {
+          method: 'POST',
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to archive completed tasks');
+        }
+
+        const data = await response.json();
+
+        // Task counts changed
+        await fetchLists();
+
+        return data.count;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        return null;
+      }
+    },
+    [fetchLists]
+  );
+
+  // Duplicate list with its tasks
+  const duplicateList = useCallback(
+    async (id: string, options: DuplicateListInput = {}): Promise<ListDto | null> => {
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/lists/${id}/duplicate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(options),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to duplicate list');
+        }
+
+        const data = await response.json();
+        const newList = data.list;
+
+        setLists((prev) => [...prev, newList]);
+
+        return newList;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        return null;
+      }
+    },
+    []
+  );
+
   // Toggle favorite
   const toggleFavorite = useCallback(
     async (id: string, isFavorite: boolean): Promise<boolean> => {
@@ -169,6 +294,9 @@ export function useLists(options: UseListsOptions = {}): UseListsResult {
     addList,
     updateList,
     deleteList,
+    archiveList,
+    archiveCompletedTasks,
+    duplicateList,
     toggleFavorite,
   };
 }
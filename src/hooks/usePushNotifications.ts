@@ -0,0 +1,169 @@
+/**
+ * usePushNotifications Hook
+ *
+ * Registers the service worker and subscribes this browser to push
+ * notifications, so reminders of type PUSH reach it while the app is closed.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+interface UsePushNotificationsResult {
+  /** Whether this browser supports service workers and push */
+  isSupported: boolean;
+  /** Whether the server has VAPID keys */
+  isConfigured: boolean;
+  /** Whether this browser is subscribed */
+  isSubscribed: boolean;
+  permission: NotificationPermission | null;
+  isLoading: boolean;
+  error: string | null;
+  subscribe: () => Promise<boolean>;
+  unsubscribe: () => Promise<boolean>;
+}
+
+/**
+ * Convert a base64url VAPID key to the bytes PushManager expects.
+ */
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+export function usePushNotifications(): UsePushNotificationsResult {
+  const [isSupported, setIsSupported] = useState(false);
+  const [publicKey, setPublicKey] = useState<string | null>(null);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Register the service worker and read the current subscription
+  useEffect(() => {
+    if (!isPushSupported()) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsSupported(true);
+    setPermission(Notification.permission);
+
+    const init = async () => {
+      try {
+        const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+        const [response, subscription] = await Promise.all([
+          fetch('/api/push/subscriptions'),
+          registration.pushManager.getSubscription(),
+        ]);
+
+        if (!response.ok) {
+          throw new Error('Failed to load push settings');
+        }
+
+        const data = await response.json();
+        setPublicKey(data.publicKey);
+        setIsSubscribed(subscription !== null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    init();
+  }, []);
+
+  // Ask for permission, subscribe with the push service and save the subscription
+  const subscribe = useCallback(async (): Promise<boolean> => {
+    if (!publicKey) return false;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        throw new Error('Notifications are blocked for this site');
+      }
+
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: decodeBase64Url(publicKey),
+      });
+
+      const response = await fetch('/api/push/subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(subscription.toJSON()),
+      });
+
+      if (!response.ok) {
+        await subscription.unsubscribe();
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save subscription');
+      }
+
+      setIsSubscribed(true);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicKey]);
+
+  // Unsubscribe with the push service and forget the subscription
+  const unsubscribe = useCallback(async (): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+
+      if (subscription) {
+        await fetch('/api/push/subscriptions', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+
+      setIsSubscribed(false);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    isSupported,
+    isConfigured: publicKey !== null,
+    isSubscribed,
+    permission,
+    isLoading,
+    error,
+    subscribe,
+    unsubscribe,
+  };
+}
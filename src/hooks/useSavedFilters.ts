@@ -1,32 +1,94 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import type {
   SavedFilter,
   CreateSavedFilterOptions,
   UpdateSavedFilterOptions,
 } from '@/lib/filters/types';
 
-const STORAGE_KEY = 'ticktick-saved-filters';
+/** Where filters were kept before they were stored on the server */
+const LEGACY_STORAGE_KEY = 'ticktick-saved-filters';
+
+/** Filters per import request, the most the import route accepts */
+const IMPORT_BATCH_SIZE = 100;
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Upload filters from localStorage to the server once, then remove them.
+ *
+ * Shared by all hook instances on the page. Filters are uploaded in batches
+ * and the ones not uploaded yet are kept, so a failed upload is resumed on
+ * the next load. The server skips filters it already has, so uploads from
+ * several tabs or devices don't duplicate them.
+ */
+function migrateLocalFilters(): Promise<void> {
+  if (!migration) {
+    migration = (async () => {
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!stored) return;
+
+      let filters: unknown;
+      try {
+        filters = JSON.parse(stored);
+      } catch {
+        filters = null;
+      }
+
+      let remaining = Array.isArray(filters) ? filters : [];
+      while (remaining.length > 0) {
+        const response = await fetch('/api/filters/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ filters: remaining.slice(0, IMPORT_BATCH_SIZE) }),
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to import saved filters');
+        }
+
+        remaining = remaining.slice(IMPORT_BATCH_SIZE);
+        if (remaining.length > 0) {
+          localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(remaining));
+        }
+      }
+
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    })().catch(() => {
+      migration = null;
+    });
+  }
+  return migration;
+}
 
 /**
  * Hook for managing saved custom filters.
  *
- * Uses localStorage to persist filters across sessions.
+ * Filters are stored on the server so they follow the user across devices.
+ * Filters left in localStorage by earlier versions are uploaded on first load.
  */
 export function useSavedFilters() {
   const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load filters from localStorage on mount
-  useEffect(() => {
+  // Fetch filters
+  const fetchFilters = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored) as SavedFilter[];
-        setSavedFilters(parsed);
+      await migrateLocalFilters();
+
+      const response = await fetch('/api/filters');
+
+      if (!response.ok) {
+        throw new Error('Failed to load saved filters');
       }
+
+      const data = await response.json();
+      setSavedFilters(data.filters || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load saved filters');
     } finally {
@@ -34,58 +96,150 @@ export function useSavedFilters() {
     }
   }, []);
 
-  // Save filters to localStorage whenever they change
+  // Load filters on mount
   useEffect(() => {
-    if (!isLoading) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(savedFilters));
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to save filters');
-      }
-    }
-  }, [savedFilters, isLoading]);
+    fetchFilters();
+  }, [fetchFilters]);
 
   /**
    * Creates a new saved filter.
    */
-  const createFilter = useCallback((options: CreateSavedFilterOptions) => {
-    const newFilter: SavedFilter = {
-      id: `saved-filter-${Date.now()}`,
-      name: options.name,
-      filter: options.filter,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
-    setSavedFilters((prev) => [...prev, newFilter]);
-    return newFilter;
-  }, []);
+  const createFilter = useCallback(
+    async (options: CreateSavedFilterOptions): Promise<SavedFilter | null> => {
+      setError(null);
+
+      try {
+        const response = await fetch('/api/filters', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(options),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to save filter');
+        }
+
+        const data = await response.json();
+        const newFilter: SavedFilter = data.filter;
+
+        setSavedFilters((prev) => [...prev, newFilter]);
+        return newFilter;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save filter');
+        return null;
+      }
+    },
+    []
+  );
 
   /**
    * Updates an existing saved filter.
    */
-  const updateFilter = useCallback((id: string, options: UpdateSavedFilterOptions) => {
-    setSavedFilters((prev) =>
-      prev.map((filter) =>
-        filter.id === id
-          ? {
-              ...filter,
-              ...(options.name && { name: options.name }),
-              ...(options.filter && { filter: options.filter }),
-              updatedAt: new Date().toISOString(),
-            }
-          : filter
-      )
-    );
-  }, []);
+  const updateFilter = useCallback(
+    async (id: string, options: UpdateSavedFilterOptions): Promise<boolean> => {
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/filters/${id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(options),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to update filter');
+        }
+
+        const data = await response.json();
+        const updatedFilter: SavedFilter = data.filter;
+
+        setSavedFilters((prev) =>
+          prev.map((filter) => (filter.id === id ? updatedFilter : filter))
+        );
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update filter');
+        return false;
+      }
+    },
+    []
+  );
 
   /**
    * Deletes a saved filter.
    */
-  const deleteFilter = useCallback((id: string) => {
-    setSavedFilters((prev) => prev.filter((filter) => filter.id !== id));
+  const deleteFilter = useCallback(async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/filters/${id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete filter');
+      }
+
+      setSavedFilters((prev) => prev.filter((filter) => filter.id !== id));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete filter');
+      return false;
+    }
   }, []);
 
+  /**
+   * Pins a filter to the sidebar, or unpins it.
+   */
+  const togglePin = useCallback(
+    (id: string): Promise<boolean> => {
+      const filter = savedFilters.find((f) => f.id === id);
+      if (!filter) return Promise.resolve(false);
+      return updateFilter(id, { pinned: !filter.pinned });
+    },
+    [savedFilters, updateFilter]
+  );
+
+  /**
+   * Moves a filter one position up or down.
+   */
+  const moveFilter = useCallback(
+    async (id: string, direction: 'up' | 'down'): Promise<boolean> => {
+      const index = savedFilters.findIndex((filter) => filter.id === id);
+      const target = direction === 'up' ? index - 1 : index + 1;
+      if (index === -1 || target < 0 || target >= savedFilters.length) return false;
+
+      const previous = savedFilters;
+      const reordered = [...savedFilters];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      const filterOrders = reordered.map((filter, sortOrder) => ({ id: filter.id, sortOrder }));
+
+      // Optimistic update
+      setSavedFilters(reordered.map((filter, sortOrder) => ({ ...filter, sortOrder })));
+      setError(null);
+
+      try {
+        const response = await fetch('/api/filters/reorder', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ filterOrders }),
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to reorder filters');
+        }
+
+        return true;
+      } catch (err) {
+        setSavedFilters(previous);
+        setError(err instanceof Error ? err.message : 'Failed to reorder filters');
+        return false;
+      }
+    },
+    [savedFilters]
+  );
+
   /**
    * Gets a saved filter by ID.
    */
@@ -96,13 +250,22 @@ export function useSavedFilters() {
     [savedFilters]
   );
 
+  const pinnedFilters = useMemo(
+    () => savedFilters.filter((filter) => filter.pinned),
+    [savedFilters]
+  );
+
   return {
     savedFilters,
+    pinnedFilters,
     isLoading,
     error,
+    refetch: fetchFilters,
     createFilter,
     updateFilter,
     deleteFilter,
+    togglePin,
+    moveFilter,
     getFilter,
   };
 }
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { SearchResult, SearchResultType } from '@/lib/search/types';
+
+export interface UseSearchOptions {
+  /** Delay before searching after the query changes (ms) */
+  debounceMs?: number;
+  limit?: number;
+  types?: SearchResultType[];
+}
+
+export interface UseSearchResult {
+  results: SearchResult[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Hook for full-text search as the user types.
+ *
+ * Debounces the query and cancels outdated requests.
+ */
+export function useSearch(query: string, options: UseSearchOptions = {}): UseSearchResult {
+  const { debounceMs = 150, limit, types } = options;
+  const typesKey = types?.join(',') ?? '';
+
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({ q: trimmed });
+        if (limit) params.set('limit', String(limit));
+        if (typesKey) params.set('types', typesKey);
+
+        const response = await fetch(`/api/search?${params.toString()}`, {
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to search');
+        }
+
+        const data = await response.json();
+        setResults(data.results || []);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        setResults([]);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, debounceMs, limit, typesKey]);
+
+  return { results, isLoading, error };
+}
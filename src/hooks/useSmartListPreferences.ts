@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  DEFAULT_SMART_LIST_PREFERENCES,
+  getVisibleSmartLists,
+  normalizeSmartListPreferences,
+  type SmartListOptions,
+  type SmartListPreferences,
+  type SmartListType,
+} from '@/lib/smart-lists';
+import { logger } from '@/lib/logger';
+
+const SMART_LIST_PREFERENCES_KEY = 'ticktick:smartListPreferences';
+
+// Notifies other hook instances on the page (the storage event only fires in other tabs)
+const CHANGE_EVENT = 'ticktick:smartListPreferencesChange';
+
+function loadPreferences(): SmartListPreferences {
+  try {
+    const stored = localStorage.getItem(SMART_LIST_PREFERENCES_KEY);
+    return stored
+      ? normalizeSmartListPreferences(JSON.parse(stored))
+      : DEFAULT_SMART_LIST_PREFERENCES;
+  } catch (error) {
+    logger.error(
+      'Failed to load smart list preferences',
+      error instanceof Error ? error : undefined
+    );
+    return DEFAULT_SMART_LIST_PREFERENCES;
+  }
+}
+
+/**
+ * Hook for managing smart list order, visibility and options with
+ * localStorage persistence.
+ *
+ * All instances stay in sync, so the sidebar and the page applying the
+ * smart list filter see the same options.
+ */
+export function useSmartListPreferences() {
+  const [preferences, setPreferences] = useState<SmartListPreferences>(
+    DEFAULT_SMART_LIST_PREFERENCES
+  );
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load preferences on mount and when changed elsewhere
+  useEffect(() => {
+    const reload = () => setPreferences(loadPreferences());
+
+    reload();
+    setIsLoaded(true);
+
+    window.addEventListener(CHANGE_EVENT, reload);
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, []);
+
+  const savePreferences = useCallback((next: SmartListPreferences) => {
+    setPreferences(next);
+
+    try {
+      localStorage.setItem(SMART_LIST_PREFERENCES_KEY, JSON.stringify(next));
+      window.dispatchEvent(new Event(CHANGE_EVENT));
+    } catch (error) {
+      logger.error(
+        'Failed to save smart list preferences',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }, []);
+
+  // Show or hide a smart list
+  const toggleHidden = useCallback(
+    (id: SmartListType) => {
+      const hidden = preferences.hidden.includes(id)
+        ? preferences.hidden.filter((hiddenId) => hiddenId !== id)
+        : [...preferences.hidden, id];
+      savePreferences(normalizeSmartListPreferences({ ...preferences, hidden }));
+    },
+    [preferences, savePreferences]
+  );
+
+  // Move a smart list one position up or down
+  const moveSmartList = useCallback(
+    (id: SmartListType, direction: 'up' | 'down') => {
+      const index = preferences.order.indexOf(id);
+      const target = direction === 'up' ? index - 1 : index + 1;
+      if (index === -1 || target < 0 || target >= preferences.order.length) return;
+
+      const order = [...preferences.order];
+      [order[index], order[target]] = [order[target], order[index]];
+      savePreferences({ ...preferences, order });
+    },
+    [preferences, savePreferences]
+  );
+
+  // Update per-smart-list options
+  const updateOptions = useCallback(
+    (options: Partial<SmartListOptions>) => {
+      savePreferences({ ...preferences, options: { ...preferences.options, ...options } });
+    },
+    [preferences, savePreferences]
+  );
+
+  // Reset to defaults
+  const resetPreferences = useCallback(() => {
+    setPreferences(DEFAULT_SMART_LIST_PREFERENCES);
+    try {
+      localStorage.removeItem(SMART_LIST_PREFERENCES_KEY);
+      window.dispatchEvent(new Event(CHANGE_EVENT));
+    } catch (error) {
+      logger.error(
+        'Failed to clear smart list preferences',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }, []);
+
+  const visibleSmartLists = useMemo(() => getVisibleSmartLists(preferences), [preferences]);
+
+  return {
+    preferences,
+    options: preferences.options,
+    visibleSmartLists,
+    toggleHidden,
+    moveSmartList,
+    updateOptions,
+    resetPreferences,
+    isLoaded,
+  };
+}
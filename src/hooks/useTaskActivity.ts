@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { TaskActivityDto } from '@/lib/tasks/types';
+
+export interface UseTaskActivityResult {
+  activities: TaskActivityDto[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  addComment: (content: string) => Promise<boolean>;
+  deleteComment: (commentId: string) => Promise<boolean>;
+}
+
+/**
+ * Hook for fetching the activity timeline of a task and managing its comments.
+ */
+export function useTaskActivity(taskId: string | undefined): UseTaskActivityResult {
+  const [activities, setActivities] = useState<TaskActivityDto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActivities = useCallback(async () => {
+    if (!taskId) {
+      setActivities([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/activity`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch activity');
+      }
+
+      const data = await response.json();
+      setActivities(data.activities);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch activity');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  const addComment = useCallback(
+    async (content: string): Promise<boolean> => {
+      if (!taskId) return false;
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/activity`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to add comment');
+        }
+
+        setActivities((prev) => [...prev, data.activity]);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to add comment');
+        return false;
+      }
+    },
+    [taskId]
+  );
+
+  const deleteComment = useCallback(
+    async (commentId: string): Promise<boolean> => {
+      if (!taskId) return false;
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/activity/${commentId}`, {
+          method: 'DELETE',
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to delete comment');
+        }
+
+        setActivities((prev) => prev.filter((activity) => activity.id !== commentId));
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to delete comment');
+        return false;
+      }
+    },
+    [taskId]
+  );
+
+  useEffect(() => {
+    fetchActivities();
+  }, [fetchActivities]);
+
+  return {
+    activities,
+    isLoading,
+    error,
+    refetch: fetchActivities,
+    addComment,
+    deleteComment,
+  };
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { TaskDependencyDto, TaskDependenciesResponse } from '@/lib/tasks/types';
+
+export interface UseTaskDependenciesResult {
+  blockedBy: TaskDependencyDto[];
+  blocking: TaskDependencyDto[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  addBlocker: (blockerId: string) => Promise<boolean>;
+  removeBlocker: (blockerId: string) => Promise<boolean>;
+}
+
+const emptyDependencies: TaskDependenciesResponse = { blockedBy: [], blocking: [] };
+
+/**
+ * Hook for fetching and managing the dependencies of a task.
+ */
+export function useTaskDependencies(taskId: string | undefined): UseTaskDependenciesResult {
+  const [dependencies, setDependencies] = useState<TaskDependenciesResponse>(emptyDependencies);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDependencies = useCallback(async () => {
+    if (!taskId) {
+      setDependencies(emptyDependencies);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/dependencies`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch dependencies');
+      }
+
+      setDependencies(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch dependencies');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  const addBlocker = useCallback(
+    async (blockerId: string): Promise<boolean> => {
+      if (!taskId) return false;
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/dependencies`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ blockerId }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to add dependency');
+        }
+
+        setDependencies(data);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to add dependency');
+        return false;
+      }
+    },
+    [taskId]
+  );
+
+  const removeBlocker = useCallback(
+    async (blockerId: string): Promise<boolean> => {
+      if (!taskId) return false;
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/dependencies/${blockerId}`, {
+          method: 'DELETE',
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to remove dependency');
+        }
+
+        setDependencies((prev) => ({
+          ...prev,
+          blockedBy: prev.blockedBy.filter((blocker) => blocker.id !== blockerId),
+        }));
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to remove dependency');
+        return false;
+      }
+    },
+    [taskId]
+  );
+
+  useEffect(() => {
+    fetchDependencies();
+  }, [fetchDependencies]);
+
+  return {
+    blockedBy: dependencies.blockedBy,
+    blocking: dependencies.blocking,
+    isLoading,
+    error,
+    refetch: fetchDependencies,
+    addBlocker,
+    removeBlocker,
+  };
+}
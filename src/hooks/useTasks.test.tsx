@@ -0,0 +1,77 @@
+/**
+ * useTasks Tests
+ *
+ * Tests for reloading tasks after an undo or redo.
+ */
+
+import type { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { UndoProvider, useUndo } from '@/contexts/UndoContext';
+import { useTasks } from './useTasks';
+import type { UseTasksOptions } from './useTasks';
+
+jest.mock('@/contexts/EventStreamContext', () => ({
+  useAppEvents: jest.fn(),
+}));
+
+jest.mock('@/components/undo', () => ({
+  UndoToast: () => null,
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('useTasks', () => {
+  const fetchMock = jest.fn();
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <UndoProvider>{children}</UndoProvider>
+  );
+
+  // The filter is a dependency of the fetch, so it has to keep its identity
+  const filter = {};
+
+  const renderTasks = (options: UseTasksOptions) =>
+    renderHook(() => ({ tasks: useTasks({ ...options, filter }), history: useUndo() }), {
+      wrapper,
+    });
+
+  const taskFetches = () =>
+    fetchMock.mock.calls.filter(([url]) => String(url).startsWith('/api/tasks?'));
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ tasks: [], total: 0, nextCursor: null }),
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  const undoChange = async (result: { current: { history: ReturnType<typeof useUndo> } }) => {
+    act(() => {
+      result.current.history.record({ label: 'Edit task', undo: jest.fn(), redo: jest.fn() });
+    });
+    await act(async () => {
+      await result.current.history.undo();
+    });
+  };
+
+  it('should reload the tasks after an undo', async () => {
+    const { result } = renderTasks({});
+    await waitFor(() => expect(taskFetches()).toHaveLength(1));
+
+    await undoChange(result);
+
+    await waitFor(() => expect(taskFetches()).toHaveLength(2));
+  });
+
+  it('should not fetch after an undo when tasks are not fetched automatically', async () => {
+    const { result } = renderTasks({ autoFetch: false });
+
+    await undoChange(result);
+
+    expect(taskFetches()).toHaveLength(0);
+  });
+});
@@ -1,7 +1,18 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { TaskDto } from '@/lib/tasks/types';
+import type {
+  BatchUpdateTaskInput,
+  CreateTaskInput,
+  DuplicateTaskInput,
+  RecurrenceEditScope,
+} from '@/lib/tasks/schemas';
+import { getMoveIndex } from '@/lib/ordering/rank';
+import type { RankPosition } from '@/lib/ordering/types';
+import { getInverseUpdates } from '@/lib/undo';
+import { useUndo } from '@/contexts/UndoContext';
+import { useAppEvents } from '@/contexts/EventStreamContext';
 
 export type SortBy = 'createdAt' | 'updatedAt' | 'dueDate' | 'priority' | 'title' | 'sortOrder';
 export type SortOrder = 'asc' | 'desc';
@@ -18,6 +29,7 @@ export interface UseTasksOptions {
     dueDate?: string;
     dueBefore?: string;
     dueAfter?: string;
+    query?: string;
   };
   sortBy?: SortBy;
   sortOrder?: SortOrder;
@@ -25,26 +37,91 @@ export interface UseTasksOptions {
 
 export interface UseTasksResult {
   tasks: TaskDto[];
+  /** Number of matching tasks, including pages not loaded yet */
+  total: number | null;
   isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
   error: string | null;
   refetch: () => Promise<void>;
-  addTask: (title: string, description?: string) => Promise<TaskDto | null>;
-  updateTask: (id: string, updates: Partial<TaskDto>) => Promise<boolean>;
+  /** Load the next page of tasks */
+  loadMore: () => Promise<void>;
+  addTask: (input: string | CreateTaskInput, description?: string) => Promise<TaskDto | null>;
+  updateTask: (
+    id: string,
+    updates: Partial<TaskDto>,
+    scope?: RecurrenceEditScope
+  ) => Promise<boolean>;
   deleteTask: (id: string) => Promise<boolean>;
-  reorderTasks: (updates: Array<{ id: string; sortOrder: number }>) => Promise<boolean>;
+  duplicateTask: (id: string, options?: DuplicateTaskInput) => Promise<TaskDto | null>;
+  /** Move a task between its new neighbours, rewriting only its rank */
+  moveTask: (id: string, position: RankPosition) => Promise<boolean>;
+  batchUpdateTasks: (ids: string[], updates: BatchUpdateTaskInput['updates']) => Promise<boolean>;
+  batchDeleteTasks: (ids: string[]) => Promise<boolean>;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
+/**
+ * Send a task API request, throwing the server's error message on failure.
+ */
+async function request(url: string, method: string, body?: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method,
+    ...(body !== undefined && {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Request failed');
+  }
+}
+
+const saveTask = (id: string, updates: Record<string, unknown>) =>
+  request(`/api/tasks/${id}`, 'PUT', updates);
+const trashTask = (id: string) => request(`/api/tasks/${id}`, 'DELETE');
+const restoreTask = (id: string) => request(`/api/trash/task/${id}/restore`, 'POST');
+const saveSortOrders = (updates: Array<{ id: string; sortOrder: number }>) =>
+  request('/api/tasks/reorder', 'POST', { updates });
+
+/** Tasks loaded per page */
+const PAGE_SIZE = 50;
+
+/** Most tasks the API returns at once */
+const MAX_PAGE_SIZE = 100;
+
+/** Wait for a burst of change events to settle before reloading */
+const EVENT_REFRESH_DELAY = 300;
+
+const describeTasks = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
 /**
  * Hook for fetching and managing tasks.
  *
- * Provides task CRUD operations with optimistic updates.
+ * Provides task CRUD operations with optimistic updates. Every change is
+ * recorded with its inverse, so it can be undone and redone.
  */
 export function useTasks(options: UseTasksOptions = {}): UseTasksResult {
   const { autoFetch = true, filter = {}, sortBy = 'sortOrder', sortOrder = 'asc' } = options;
 
   const [tasks, setTasks] = useState<TaskDto[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { record, revision, undo, redo, canUndo, canRedo } = useUndo();
+
+  // Latest tasks, to record the state a change reverts to
+  const tasksRef = useRef(tasks);
+  useEffect(() => {
+    tasksRef.current = tasks;
+  }, [tasks]);
 
   // Build query string from filter options
   const buildQueryString = () => {
@@ -58,20 +135,25 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksResult {
     if (filter.dueDate) params.set('dueDate', filter.dueDate);
     if (filter.dueBefore) params.set('dueBefore', filter.dueBefore);
     if (filter.dueAfter) params.set('dueAfter', filter.dueAfter);
+    if (filter.query) params.set('filter', filter.query);
     // Add sort parameters
     params.set('sortBy', sortBy);
     params.set('sortOrder', sortOrder);
-    return params.toString();
+    params.set('limit', String(PAGE_SIZE));
+    return params;
   };
 
-  // Fetch tasks
+  // Bumped on every first-page fetch, so pages of an earlier query are dropped
+  const queryIdRef = useRef(0);
+
+  // Fetch the first page of tasks
   const fetchTasks = useCallback(async () => {
+    queryIdRef.current += 1;
     setIsLoading(true);
     setError(null);
 
     try {
-      const queryString = buildQueryString();
-      const response = await fetch(`/api/tasks${queryString ? `?${queryString}` : ''}`);
+      const response = await fetch(`/api/tasks?${buildQueryString()}`);
 
       if (!response.ok) {
         throw new Error('Failed to fetch tasks');
@@ -79,14 +161,58 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksResult {
 
       const data = await response.json();
       setTasks(data.tasks || []);
+      setTotal(data.total ?? null);
+      setNextCursor(data.nextCursor ?? null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
       setTasks([]);
+      setTotal(null);
+      setNextCursor(null);
     } finally {
       setIsLoading(false);
     }
   }, [filter]);
 
+  // Fetch the page after the loaded tasks; the total is already known
+  const loadingMoreRef = useRef(false);
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMoreRef.current) {
+      return;
+    }
+
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    const queryId = queryIdRef.current;
+
+    try {
+      const params = buildQueryString();
+      params.set('cursor', nextCursor);
+      params.set('includeTotal', 'false');
+
+      const response = await fetch(`/api/tasks?${params}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch tasks');
+      }
+
+      const data = await response.json();
+      if (queryId !== queryIdRef.current) {
+        return;
+      }
+
+      setTasks((prev) => {
+        const loaded = new Set(prev.map((task) => task.id));
+        return [...prev, ...(data.tasks || []).filter((task: TaskDto) => !loaded.has(task.id))];
+      });
+      setNextCursor(data.nextCursor ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [filter, nextCursor]);
+
   // Auto-fetch on mount and filter change
   useEffect(() => {
     if (autoFetch) {
@@ -94,16 +220,94 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksResult {
     }
   }, [fetchTasks, autoFetch]);
 
+  // Reload after an undo or redo, which may have changed any task
+  const fetchTasksRef = useRef(fetchTasks);
+  const revisionRef = useRef(revision);
+  useEffect(() => {
+    fetchTasksRef.current = fetchTasks;
+  }, [fetchTasks]);
+  useEffect(() => {
+    if (revision !== revisionRef.current) {
+      revisionRef.current = revision;
+      if (autoFetch) {
+        fetchTasksRef.current();
+      }
+    }
+  }, [revision, autoFetch]);
+
+  // Reload in place, keeping as many tasks loaded and without a loading state
+  const refreshTasks = useCallback(async () => {
+    queryIdRef.current += 1;
+    const queryId = queryIdRef.current;
+    const loadedCount = Math.max(PAGE_SIZE, tasksRef.current.length);
+
+    try {
+      // Page through until everything loaded before is loaded again
+      const fetched: TaskDto[] = [];
+      let cursor: string | null = null;
+      let pageTotal: number | null = null;
+
+      do {
+        const params = buildQueryString();
+        params.set('limit', String(Math.min(MAX_PAGE_SIZE, loadedCount - fetched.length)));
+        if (cursor) {
+          params.set('cursor', cursor);
+          params.set('includeTotal', 'false');
+        }
+
+        const response = await fetch(`/api/tasks?${params}`);
+        if (!response.ok || queryId !== queryIdRef.current) {
+          return;
+        }
+
+        const data = await response.json();
+        if (queryId !== queryIdRef.current) {
+          return;
+        }
+
+        fetched.push(...(data.tasks || []));
+        pageTotal = cursor ? pageTotal : (data.total ?? null);
+        cursor = data.nextCursor ?? null;
+      } while (cursor && fetched.length < loadedCount);
+
+      setTasks(fetched);
+      setTotal(pageTotal);
+      setNextCursor(cursor);
+    } catch {
+      // The next change or fetch catches up
+    }
+  }, [filter]);
+
+  // Reload when tasks change in another tab or on the server
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useAppEvents(['task.created', 'task.updated', 'task.deleted'], () => {
+    if (!autoFetch) return;
+
+    if (refreshTimerRef.current) {
+      clearTimeout(refreshTimerRef.current);
+    }
+    refreshTimerRef.current = setTimeout(refreshTasks, EVENT_REFRESH_DELAY);
+  });
+  useEffect(
+    () => () => {
+      if (refreshTimerRef.current) {
+        clearTimeout(refreshTimerRef.current);
+      }
+    },
+    []
+  );
+
   // Add task
   const addTask = useCallback(
-    async (title: string, description?: string): Promise<TaskDto | null> => {
+    async (input: string | CreateTaskInput, description?: string): Promise<TaskDto | null> => {
       setError(null);
 
       try {
+        const body = typeof input === 'string' ? { title: input, description } : input;
         const response = await fetch('/api/tasks', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ title, description }),
+          body: JSON.stringify(body),
         });
 
         if (!response.ok) {
@@ -117,25 +321,73 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksResult {
         // Optimistic update
         setTasks((prev) => [newTask, ...prev]);
 
+        record({
+          label: `Create "${newTask.title}"`,
+          undo: () => trashTask(newTask.id),
+          redo: () => restoreTask(newTask.id),
+        });
+
         return newTask;
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error');
         return null;
       }
     },
-    []
+    [record]
+  );
+
+  // Duplicate task with its subtasks
+  const duplicateTask = useCallback(
+    async (id: string, options: DuplicateTaskInput = {}): Promise<TaskDto | null> => {
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/tasks/${id}/duplicate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(options),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to duplicate task');
+        }
+
+        const data = await response.json();
+        const newTask = data.task;
+
+        setTasks((prev) => [newTask, ...prev]);
+
+        record({
+          label: `Duplicate "${newTask.title}"`,
+          undo: () => trashTask(newTask.id),
+          redo: () => restoreTask(newTask.id),
+        });
+
+        return newTask;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        return null;
+      }
+    },
+    [record]
   );
 
   // Update task
   const updateTask = useCallback(
-    async (id: string, updates: Partial<TaskDto>): Promise<boolean> => {
+    async (
+      id: string,
+      updates: Partial<TaskDto>,
+      scope?: RecurrenceEditScope
+    ): Promise<boolean> => {
       setError(null);
+      const previous = tasksRef.current.find((task) => task.id === id);
 
       try {
         const response = await fetch(`/api/tasks/${id}`, {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(updates),
+          body: JSON.stringify(scope ? { ...updates, scope } : updates),
         });
 
         if (!response.ok) {
@@ -149,63 +401,200 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksResult {
         // Optimistic update
         setTasks((prev) => prev.map((task) => (task.id === id ? updatedTask : task)));
 
+        // Completing a recurring task creates its next occurrence on the server,
+        // and series-wide edits change other tasks too
+        const changesOthers =
+          (updates.status === 'DONE' && updatedTask.recurrenceRule) || (scope && scope !== 'this');
+        if (changesOthers) {
+          await fetchTasks();
+        }
+
+        // Changes to other tasks can't be reverted, so those aren't recorded
+        const inverse = previous && !changesOthers ? getInverseUpdates(previous, updates) : null;
+        if (previous && inverse) {
+          record({
+            label: `Edit "${previous.title}"`,
+            undo: () => saveTask(id, inverse),
+            redo: () => saveTask(id, updates),
+          });
+        }
+
         return true;
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error');
         return false;
       }
     },
-    []
+    [fetchTasks, record]
   );
 
   // Delete task
-  const deleteTask = useCallback(async (id: string): Promise<boolean> => {
-    setError(null);
+  const deleteTask = useCallback(
+    async (id: string): Promise<boolean> => {
+      setError(null);
+      const previous = tasksRef.current.find((task) => task.id === id);
 
-    try {
-      const response = await fetch(`/api/tasks/${id}`, {
-        method: 'DELETE',
-      });
+      try {
+        const response = await fetch(`/api/tasks/${id}`, {
+          method: 'DELETE',
+        });
 
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete task');
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to delete task');
+        }
+
+        // Optimistic update
+        setTasks((prev) => prev.filter((task) => task.id !== id));
+
+        // Deleted tasks go to the trash, so undo restores them from there
+        record({
+          label: previous ? `Delete "${previous.title}"` : 'Delete task',
+          undo: () => restoreTask(id),
+          redo: () => trashTask(id),
+          destructive: true,
+        });
+
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        return false;
       }
+    },
+    [record]
+  );
 
-      // Optimistic update
-      setTasks((prev) => prev.filter((task) => task.id !== id));
+  // Move one task (for drag-and-drop)
+  const moveTask = useCallback(
+    async (id: string, position: RankPosition): Promise<boolean> => {
+      setError(null);
+      const previous = tasksRef.current.find((task) => task.id === id);
 
-      return true;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
-      return false;
-    }
-  }, []);
+      try {
+        const response = await fetch(`/api/reorder/task/${id}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(position),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to move task');
+        }
+
+        const { sortOrder } = (await response.json()) as { sortOrder: number };
+
+        // Place the task by its neighbours; other ranks may have been spread out
+        setTasks((prev) => {
+          const task = prev.find((t) => t.id === id);
+          if (!task) {
+            return prev;
+          }
+          const others = prev.filter((t) => t.id !== id);
+          const index = getMoveIndex(
+            others.map((t) => t.id),
+            position
+          );
+          others.splice(index ?? others.length, 0, { ...task, sortOrder });
+          return others;
+        });
+
+        if (previous) {
+          record({
+            label: 'Move task',
+            undo: () => saveSortOrders([{ id, sortOrder: previous.sortOrder }]),
+            redo: () => saveSortOrders([{ id, sortOrder }]),
+          });
+        }
+
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        return false;
+      }
+    },
+    [record]
+  );
 
-  // Reorder tasks (for drag-and-drop)
-  const reorderTasks = useCallback(
-    async (updates: Array<{ id: string; sortOrder: number }>): Promise<boolean> => {
+  // Update several tasks at once
+  const batchUpdateTasks = useCallback(
+    async (ids: string[], updates: BatchUpdateTaskInput['updates']): Promise<boolean> => {
       setError(null);
+      const previous = tasksRef.current.filter((task) => ids.includes(task.id));
 
       try {
-        const response = await fetch('/api/tasks/reorder', {
+        const response = await fetch('/api/tasks/batch', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ updates }),
+          body: JSON.stringify({ operation: 'update', taskIds: ids, updates }),
         });
 
         if (!response.ok) {
           const data = await response.json();
-          throw new Error(data.error || 'Failed to reorder tasks');
+          throw new Error(data.error || 'Failed to update tasks');
         }
 
         const data = await response.json();
-        const updatedTasks = data.tasks as TaskDto[];
+        const updatedMap = new Map<string, TaskDto>(
+          (data.tasks as TaskDto[]).map((task) => [task.id, task])
+        );
+        setTasks((prev) => prev.map((task) => updatedMap.get(task.id) ?? task));
+
+        // Tasks had different values before, so each one is reverted on its own
+        const inverses = previous.flatMap((task) => {
+          const inverse = getInverseUpdates(task, updates);
+          return inverse ? [{ id: task.id, updates: inverse }] : [];
+        });
+        if (inverses.length > 0 && inverses.length === previous.length) {
+          record({
+            label: `Update ${describeTasks(ids.length)}`,
+            undo: async () => {
+              await Promise.all(inverses.map((inverse) => saveTask(inverse.id, inverse.updates)));
+            },
+            redo: () =>
+              request('/api/tasks/batch', 'POST', { operation: 'update', taskIds: ids, updates }),
+          });
+        }
 
-        // Update tasks with new sort orders
-        setTasks((prev) => {
-          const updatedMap = new Map<string, TaskDto>(updatedTasks.map((t) => [t.id, t]));
-          return prev.map((task) => updatedMap.get(task.id) ?? task);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        return false;
+      }
+    },
+    [record]
+  );
+
+  // Delete several tasks at once
+  const batchDeleteTasks = useCallback(
+    async (ids: string[]): Promise<boolean> => {
+      setError(null);
+
+      try {
+        const response = await fetch('/api/tasks/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ operation: 'delete', taskIds: ids }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to delete tasks');
+        }
+
+        setTasks((prev) => prev.filter((task) => !ids.includes(task.id)));
+
+        record({
+          label: `Delete ${describeTasks(ids.length)}`,
+          // Subtasks come back with their parent, so some restores may find nothing left
+          undo: async () => {
+            const results = await Promise.allSettled(ids.map(restoreTask));
+            if (results.every((result) => result.status === 'rejected')) {
+              throw new Error('Failed to restore tasks');
+            }
+          },
+          redo: () => request('/api/tasks/batch', 'POST', { operation: 'delete', taskIds: ids }),
+          destructive: true,
         });
 
         return true;
@@ -214,17 +603,28 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksResult {
         return false;
       }
     },
-    []
+    [record]
   );
 
   return {
     tasks,
+    total,
     isLoading,
+    isLoadingMore,
+    hasMore: nextCursor !== null,
     error,
     refetch: fetchTasks,
+    loadMore,
     addTask,
     updateTask,
     deleteTask,
-    reorderTasks,
+    duplicateTask,
+    moveTask,
+    batchUpdateTasks,
+    batchDeleteTasks,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   };
 }
@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { TemplateDto, TemplateInstance, TemplateKind } from '@/lib/templates/types';
+import type { CreateTemplateInput, InstantiateTemplateInput } from '@/lib/templates/schemas';
+
+export interface UseTemplatesOptions {
+  kind?: TemplateKind;
+  autoFetch?: boolean;
+}
+
+export interface UseTemplatesResult {
+  templates: TemplateDto[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  saveTemplate: (input: CreateTemplateInput) => Promise<TemplateDto | null>;
+  deleteTemplate: (id: string) => Promise<boolean>;
+  instantiateTemplate: (
+    id: string,
+    options?: InstantiateTemplateInput
+  ) => Promise<TemplateInstance | null>;
+}
+
+/**
+ * Hook for fetching, saving and instantiating task and list templates.
+ */
+export function useTemplates(options: UseTemplatesOptions = {}): UseTemplatesResult {
+  const { kind, autoFetch = true } = options;
+
+  const [templates, setTemplates] = useState<TemplateDto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(kind ? `/api/templates?kind=${kind}` : '/api/templates');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch templates');
+      }
+
+      const data = await response.json();
+      setTemplates(data.templates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [kind]);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchTemplates();
+    }
+  }, [fetchTemplates, autoFetch]);
+
+  const saveTemplate = useCallback(
+    async (input: CreateTemplateInput): Promise<TemplateDto | null> => {
+      setError(null);
+
+      try {
+        const response = await fetch('/api/templates', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to save template');
+        }
+
+        const template: TemplateDto = data.template;
+        if (!kind || template.kind === kind) {
+          setTemplates((prev) => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+        }
+
+        return template;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save template');
+        return null;
+      }
+    },
+    [kind]
+  );
+
+  const deleteTemplate = useCallback(async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/templates/${id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete template');
+      }
+
+      setTemplates((prev) => prev.filter((template) => template.id !== id));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+      return false;
+    }
+  }, []);
+
+  const instantiateTemplate = useCallback(
+    async (
+      id: string,
+      instantiateOptions: InstantiateTemplateInput = {}
+    ): Promise<TemplateInstance | null> => {
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/templates/${id}/instantiate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(instantiateOptions),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to use template');
+        }
+
+        return data;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to use template');
+        return null;
+      }
+    },
+    []
+  );
+
+  return {
+    templates,
+    isLoading,
+    error,
+    refetch: fetchTemplates,
+    saveTemplate,
+    deleteTemplate,
+    instantiateTemplate,
+  };
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { TrashItemDto, TrashItemType } from '@/lib/trash/types';
+
+export interface UseTrashOptions {
+  autoFetch?: boolean;
+}
+
+export interface UseTrashResult {
+  items: TrashItemDto[];
+  retentionDays: number | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  restoreItem: (type: TrashItemType, id: string) => Promise<boolean>;
+  deleteItem: (type: TrashItemType, id: string) => Promise<boolean>;
+  emptyTrash: () => Promise<boolean>;
+}
+
+/**
+ * Hook for listing, restoring and permanently deleting items in the trash.
+ */
+export function useTrash(options: UseTrashOptions = {}): UseTrashResult {
+  const { autoFetch = true } = options;
+
+  const [items, setItems] = useState<TrashItemDto[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/trash');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch trash');
+      }
+
+      const data = await response.json();
+      setItems(
+        data.items.map((item: TrashItemDto) => ({
+          ...item,
+          deletedAt: new Date(item.deletedAt),
+          purgeAt: new Date(item.purgeAt),
+        }))
+      );
+      setRetentionDays(data.retentionDays);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchTrash();
+    }
+  }, [fetchTrash, autoFetch]);
+
+  const removeItem = (type: TrashItemType, id: string) =>
+    setItems((prev) => prev.filter((item) => item.type !== type || item.id !== id));
+
+  const restoreItem = useCallback(async (type: TrashItemType, id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/trash/${type}/${id}/restore`, { method: 'POST' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to restore item');
+      }
+
+      removeItem(type, id);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore item');
+      return false;
+    }
+  }, []);
+
+  const deleteItem = useCallback(async (type: TrashItemType, id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/trash/${type}/${id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete item');
+      }
+
+      removeItem(type, id);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete item');
+      return false;
+    }
+  }, []);
+
+  const emptyTrash = useCallback(async (): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/trash', { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to empty trash');
+      }
+
+      setItems([]);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to empty trash');
+      return false;
+    }
+  }, []);
+
+  return {
+    items,
+    retentionDays,
+    isLoading,
+    error,
+    refetch: fetchTrash,
+    restoreItem,
+    deleteItem,
+    emptyTrash,
+  };
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getVirtualRange, type VirtualRange } from '@/lib/utils/virtual';
+
+export interface UseVirtualListOptions {
+  /** Row keys, used to remember measured row heights */
+  keys: string[];
+  /** Height assumed for rows that have not been measured yet */
+  estimateSize: number;
+  /** Space between rows */
+  gap?: number;
+  /** Rows rendered beyond each edge of the viewport */
+  overscan?: number;
+  /** Called when the rendered rows reach the end of the list */
+  onEndReached?: () => void;
+}
+
+export interface UseVirtualListResult extends VirtualRange {
+  /** Ref for the element containing the rows */
+  listRef: (node: HTMLElement | null) => void;
+  /** Ref for each rendered row; rows need a `data-key` attribute */
+  measureRef: (node: HTMLElement | null) => void;
+}
+
+/**
+ * Find the element that scrolls a node, or null for the window.
+ */
+function getScrollParent(node: HTMLElement): HTMLElement | null {
+  for (let parent = node.parentElement; parent; parent = parent.parentElement) {
+    const { overflowY } = getComputedStyle(parent);
+    if (overflowY === 'auto' || overflowY === 'scroll') {
+      return parent;
+    }
+  }
+  return null;
+}
+
+/**
+ * Hook for windowed rendering of long lists.
+ *
+ * Tracks the viewport of the list's scroll container and the measured height
+ * of every rendered row, and returns the rows to render with the space to
+ * leave for the others.
+ */
+export function useVirtualList(options: UseVirtualListOptions): UseVirtualListResult {
+  const { keys, estimateSize, gap = 0, overscan = 5, onEndReached } = options;
+
+  const [list, setList] = useState<HTMLElement | null>(null);
+  const [viewport, setViewport] = useState({ start: 0, end: 0 });
+  const [, setMeasured] = useState(0);
+  const sizesRef = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  // Follow the viewport as the list's container scrolls or resizes
+  useEffect(() => {
+    if (!list) {
+      return;
+    }
+
+    const scroller = getScrollParent(list);
+    const target = scroller ?? window;
+
+    const update = () => {
+      const top = scroller ? scroller.getBoundingClientRect().top : 0;
+      const height = scroller ? scroller.clientHeight : window.innerHeight;
+      const start = top - list.getBoundingClientRect().top;
+      setViewport((prev) =>
+        prev.start === start && prev.end === start + height ? prev : { start, end: start + height }
+      );
+    };
+
+    update();
+    target.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+
+    return () => {
+      target.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [list]);
+
+  const setSize = useCallback((key: string | null, size: number) => {
+    if (key && size > 0 && sizesRef.current.get(key) !== size) {
+      sizesRef.current.set(key, size);
+      setMeasured((count) => count + 1);
+    }
+  }, []);
+
+  // Measure rows as they render and whenever their height changes
+  useEffect(() => {
+    if (typeof ResizeObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        const node = entry.target as HTMLElement;
+        if (!node.isConnected) {
+          observer.unobserve(node);
+          continue;
+        }
+        setSize(node.dataset.key ?? null, node.getBoundingClientRect().height);
+      }
+    });
+    observerRef.current = observer;
+
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [setSize]);
+
+  const measureRef = useCallback(
+    (node: HTMLElement | null) => {
+      if (!node) {
+        return;
+      }
+      if (observerRef.current) {
+        observerRef.current.observe(node);
+      } else {
+        setSize(node.dataset.key ?? null, node.getBoundingClientRect().height);
+      }
+    },
+    [setSize]
+  );
+
+  const sizes = keys.map((key) => sizesRef.current.get(key) ?? estimateSize);
+  const range = getVirtualRange(sizes, viewport.start, viewport.end, { gap, overscan });
+
+  // Ask for more rows once the last ones are rendered
+  const atEnd = range.endIndex >= keys.length - 1;
+  useEffect(() => {
+    if (atEnd) {
+      onEndReached?.();
+    }
+  }, [atEnd, keys.length, onEndReached]);
+
+  return { ...range, listRef: setList, measureRef };
+}
@@ -0,0 +1,34 @@
+/**
+ * Archive Validation Schemas
+ *
+ * Zod schemas for validating archive API requests.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Archive item type enum.
+ */
+export const ArchiveItemTypeEnum = z.enum(['task', 'list']);
+
+/**
+ * Schema for the route parameters identifying an archive item.
+ */
+export const ArchiveItemParamsSchema = z.object({
+  type: ArchiveItemTypeEnum,
+  id: z.string().cuid('Invalid item ID'),
+});
+
+/**
+ * Schema for archive query parameters.
+ */
+export const ArchiveQuerySchema = z.object({
+  search: z.string().trim().max(200, 'Search is too long').optional(),
+  type: ArchiveItemTypeEnum.optional(),
+});
+
+/**
+ * Infer TypeScript types from schemas.
+ */
+export type ArchiveItemParams = z.infer<typeof ArchiveItemParamsSchema>;
+export type ArchiveQuery = z.infer<typeof ArchiveQuerySchema>;
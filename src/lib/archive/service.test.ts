@@ -0,0 +1,238 @@
+/**
+ * Archive Service Tests
+ *
+ * Tests for archiving, listing and unarchiving tasks and lists.
+ */
+
+import { db } from '@/lib/db';
+import { getDefaultListId } from '@/lib/lists/service';
+import {
+  archiveCompletedTasks,
+  archiveItem,
+  autoArchiveCompletedTasks,
+  getArchive,
+  unarchiveItem,
+} from './service';
+
+jest.mock('@/lib/db', () => {
+  const createMockModel = () => ({
+    findMany: jest.fn().mockResolvedValue([]),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+  });
+
+  return {
+    db: {
+      task: createMockModel(),
+      list: createMockModel(),
+    },
+  };
+});
+
+jest.mock('@/lib/lists/service', () => ({
+  getDefaultListId: jest.fn(),
+}));
+
+describe('Archive Service', () => {
+  const userId = 'user-123';
+  const archivedAt = new Date('2026-03-01T10:00:00Z');
+  const later = new Date('2026-03-02T10:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.task.findMany as jest.Mock).mockResolvedValue([]);
+    delete process.env.AUTO_ARCHIVE_DAYS;
+  });
+
+  describe('archiveCompletedTasks', () => {
+    it('should archive completed top-level tasks with their subtasks', async () => {
+      (db.list.findFirst as jest.Mock).mockResolvedValue({ id: 'list-1' });
+      (db.task.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'task-1' }])
+        .mockResolvedValueOnce([{ id: 'subtask-1' }]);
+
+      const count = await archiveCompletedTasks(userId, 'list-1');
+
+      expect(count).toBe(1);
+      expect(db.task.findMany).toHaveBeenCalledWith({
+        where: {
+          listId: 'list-1',
+          parentId: null,
+          status: 'DONE',
+          userId,
+          deletedAt: null,
+          archivedAt: null,
+        },
+        select: { id: true },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['task-1', 'subtask-1'] }, userId },
+        data: { archivedAt: expect.any(Date) },
+      });
+    });
+
+    it('should return null when the list is not found', async () => {
+      (db.list.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await archiveCompletedTasks(userId, 'list-1')).toBeNull();
+      expect(db.task.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('autoArchiveCompletedTasks', () => {
+    it('should archive tasks completed before the auto-archive period', async () => {
+      process.env.AUTO_ARCHIVE_DAYS = '7';
+      const now = new Date('2026-04-08T00:00:00Z');
+      (db.task.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'task-1' }]);
+
+      const count = await autoArchiveCompletedTasks(userId, now);
+
+      expect(count).toBe(1);
+      expect(db.task.findMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          status: 'DONE',
+          completedAt: { lt: new Date('2026-04-01T00:00:00Z') },
+        }),
+        select: { id: true },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['task-1'] }, userId },
+        data: { archivedAt: now },
+      });
+    });
+  });
+
+  describe('archiveItem', () => {
+    it('should archive a list with its tasks', async () => {
+      (db.list.findFirst as jest.Mock).mockResolvedValue({ isDefault: false });
+
+      const result = await archiveItem(userId, 'list', 'list-1');
+
+      expect(result).toBe(true);
+      const listArchivedAt = (db.list.update as jest.Mock).mock.calls[0][0].data.archivedAt;
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { userId, listId: 'list-1', deletedAt: null, archivedAt: null },
+        data: { archivedAt: listArchivedAt },
+      });
+    });
+
+    it('should not archive the default list', async () => {
+      (db.list.findFirst as jest.Mock).mockResolvedValue({ isDefault: true });
+
+      await expect(archiveItem(userId, 'list', 'inbox')).rejects.toThrow(
+        'Cannot archive the default list'
+      );
+      expect(db.list.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unarchiveItem', () => {
+    it('should move a task out of an archived list into the default list', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({
+        archivedAt,
+        list: { archivedAt },
+        parent: null,
+      });
+      (db.task.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'subtask-1' }]);
+      (getDefaultListId as jest.Mock).mockResolvedValue('inbox');
+
+      const result = await unarchiveItem(userId, 'task', 'task-1');
+
+      expect(result).toBe(true);
+      expect(db.task.findMany).toHaveBeenCalledWith({
+        where: { userId, deletedAt: null, archivedAt, parentId: { in: ['task-1'] } },
+        select: { id: true },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['task-1', 'subtask-1'] }, userId },
+        data: { archivedAt: null, listId: 'inbox' },
+      });
+    });
+
+    it('should unarchive a list with the tasks archived along with it', async () => {
+      (db.list.findFirst as jest.Mock).mockResolvedValue({ archivedAt });
+
+      const result = await unarchiveItem(userId, 'list', 'list-1');
+
+      expect(result).toBe(true);
+      expect(db.list.update).toHaveBeenCalledWith({
+        where: { id: 'list-1' },
+        data: { archivedAt: null },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { userId, listId: 'list-1', archivedAt },
+        data: { archivedAt: null },
+      });
+    });
+
+    it('should return false when the item is not archived', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await unarchiveItem(userId, 'task', 'task-1')).toBe(false);
+      expect(db.task.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getArchive', () => {
+    it('should list items archived together as one entry', async () => {
+      (db.task.findMany as jest.Mock).mockResolvedValueOnce([
+        {
+          id: 'task-1',
+          title: 'Plan trip',
+          archivedAt,
+          completedAt: archivedAt,
+          list: { title: 'Inbox', archivedAt: null },
+          parent: null,
+          _count: { subtasks: 1 },
+        },
+        {
+          id: 'task-2',
+          title: 'Book hotel',
+          archivedAt,
+          completedAt: archivedAt,
+          list: { title: 'Inbox', archivedAt: null },
+          parent: { archivedAt },
+          _count: { subtasks: 0 },
+        },
+        {
+          id: 'task-3',
+          title: 'Pack',
+          archivedAt: later,
+          completedAt: null,
+          list: { title: 'Travel', archivedAt: later },
+          parent: null,
+          _count: { subtasks: 0 },
+        },
+      ]);
+      (db.list.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'list-2', title: 'Travel', archivedAt: later, _count: { tasks: 1 } },
+      ]);
+
+      const result = await getArchive(userId);
+
+      expect(result.autoArchiveDays).toBe(30);
+      expect(result.items).toEqual([
+        expect.objectContaining({ type: 'list', id: 'list-2', taskCount: 1 }),
+        expect.objectContaining({ type: 'task', id: 'task-1', listTitle: 'Inbox', taskCount: 1 }),
+      ]);
+      expect(db.task.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should search titles and skip lists when only tasks are requested', async () => {
+      await getArchive(userId, { search: 'trip', type: 'task' });
+
+      expect(db.task.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            userId,
+            deletedAt: null,
+            archivedAt: { not: null },
+            title: { contains: 'trip' },
+          },
+        })
+      );
+      expect(db.list.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
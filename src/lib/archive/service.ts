@@ -0,0 +1,360 @@
+/**
+ * Archive Service
+ *
+ * Archives completed tasks and whole lists, lists the archive and unarchives
+ * items.
+ *
+ * Like the trash, everything archived in one go (a list with its tasks, a
+ * task with its subtasks) shares the same `archivedAt`, which is how
+ * unarchiving finds the rows that belong together. Tasks completed longer
+ * ago than the auto-archive period are archived by a daily job.
+ */
+
+import { db } from '@/lib/db';
+import type { Prisma } from '@prisma/client';
+import { getDefaultListId } from '@/lib/lists/service';
+import { getAutoArchiveCutoff, getAutoArchiveDays } from './utils';
+import type { ArchiveItemDto, ArchiveItemType, ArchiveResponse } from './types';
+
+const archived = { not: null };
+
+/**
+ * Collect the given tasks and all of their subtasks matching a filter.
+ */
+async function collectSubtasks(
+  taskIds: string[],
+  where: Prisma.TaskWhereInput = {}
+): Promise<string[]> {
+  const ids = new Set(taskIds);
+  let parentIds = taskIds;
+
+  while (parentIds.length > 0) {
+    const children = await db.task.findMany({
+      where: { ...where, parentId: { in: parentIds } },
+      select: { id: true },
+    });
+    parentIds = children.map((child) => child.id).filter((id) => !ids.has(id));
+    parentIds.forEach((id) => ids.add(id));
+  }
+
+  return [...ids];
+}
+
+/**
+ * Archive tasks matching a filter, together with their subtasks.
+ *
+ * @param userId - User ID owning the tasks
+ * @param where - Filter for the tasks to archive
+ * @param archivedAt - Time of archival
+ * @returns Number of matching tasks archived, not counting their subtasks
+ */
+export async function archiveTasks(
+  userId: string,
+  where: Prisma.TaskWhereInput,
+  archivedAt: Date = new Date()
+): Promise<number> {
+  const active = { userId, deletedAt: null, archivedAt: null };
+  const matched = await db.task.findMany({
+    where: { ...where, ...active },
+    select: { id: true },
+  });
+
+  if (matched.length === 0) {
+    return 0;
+  }
+
+  const ids = await collectSubtasks(
+    matched.map((task) => task.id),
+    active
+  );
+
+  await db.task.updateMany({
+    where: { id: { in: ids }, userId },
+    data: { archivedAt },
+  });
+
+  return matched.length;
+}
+
+/**
+ * Archive the completed top-level tasks of a list.
+ *
+ * @param userId - User ID for authorization
+ * @param listId - List ID
+ * @returns Number of tasks archived, or null if the list is not found
+ */
+export async function archiveCompletedTasks(
+  userId: string,
+  listId: string
+): Promise<number | null> {
+  const list = await db.list.findFirst({
+    where: { id: listId, userId, deletedAt: null },
+    select: { id: true },
+  });
+
+  if (!list) {
+    return null;
+  }
+
+  return archiveTasks(userId, { listId, parentId: null, status: 'DONE' });
+}
+
+/**
+ * Archive tasks that were completed longer ago than the auto-archive period.
+ * Run daily by the archive cron job.
+ *
+ * @param userId - Only archive this user's tasks (default: everyone's)
+ * @param now - Reference time
+ * @returns Number of tasks archived, not counting their subtasks
+ */
+export async function autoArchiveCompletedTasks(
+  userId?: string,
+  now: Date = new Date()
+): Promise<number> {
+  const where: Prisma.TaskWhereInput = {
+    parentId: null,
+    status: 'DONE',
+    completedAt: { lt: getAutoArchiveCutoff(now) },
+  };
+
+  if (userId) {
+    return archiveTasks(userId, where, now);
+  }
+
+  // Archive per user so every batch stays scoped to its owner
+  const owners = await db.task.findMany({
+    where: { ...where, deletedAt: null, archivedAt: null },
+    select: { userId: true },
+    distinct: ['userId'],
+  });
+
+  let count = 0;
+  for (const owner of owners) {
+    count += await archiveTasks(owner.userId, where, now);
+  }
+
+  return count;
+}
+
+/**
+ * Archive a list with its tasks. The default list cannot be archived.
+ *
+ * @param userId - User ID for authorization
+ * @param listId - List ID
+ * @returns True if archived, false if not found
+ */
+async function archiveList(userId: string, listId: string): Promise<boolean> {
+  const list = await db.list.findFirst({
+    where: { id: listId, userId, deletedAt: null, archivedAt: null },
+    select: { isDefault: true },
+  });
+
+  if (!list) {
+    return false;
+  }
+
+  if (list.isDefault) {
+    throw new Error('Cannot archive the default list');
+  }
+
+  const archivedAt = new Date();
+
+  await db.list.update({ where: { id: listId }, data: { archivedAt } });
+  await db.task.updateMany({
+    where: { userId, listId, deletedAt: null, archivedAt: null },
+    data: { archivedAt },
+  });
+
+  return true;
+}
+
+/**
+ * Archive a task or a list.
+ *
+ * @param userId - User ID for authorization
+ * @param type - Kind of item
+ * @param id - Item ID
+ * @returns True if archived, false if the item is not found or already archived
+ */
+export async function archiveItem(
+  userId: string,
+  type: ArchiveItemType,
+  id: string
+): Promise<boolean> {
+  switch (type) {
+    case 'task':
+      return (await archiveTasks(userId, { id })) > 0;
+    case 'list':
+      return archiveList(userId, id);
+  }
+}
+
+/**
+ * Unarchive a task with the subtasks archived along with it. A task whose
+ * list is still archived moves to the default list; a subtask whose parent
+ * is still archived becomes a top-level task.
+ */
+async function unarchiveTask(userId: string, taskId: string): Promise<boolean> {
+  const task = await db.task.findFirst({
+    where: { id: taskId, userId, deletedAt: null, archivedAt: archived },
+    select: {
+      archivedAt: true,
+      list: { select: { archivedAt: true } },
+      parent: { select: { archivedAt: true } },
+    },
+  });
+
+  if (!task) {
+    return false;
+  }
+
+  const ids = await collectSubtasks([taskId], {
+    userId,
+    deletedAt: null,
+    archivedAt: task.archivedAt,
+  });
+
+  if (task.parent?.archivedAt) {
+    await db.task.update({ where: { id: taskId }, data: { parentId: null } });
+  }
+
+  await db.task.updateMany({
+    where: { id: { in: ids }, userId },
+    data: {
+      archivedAt: null,
+      ...(task.list.archivedAt && { listId: await getDefaultListId(userId) }),
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Unarchive a list with the tasks archived along with it.
+ */
+async function unarchiveList(userId: string, listId: string): Promise<boolean> {
+  const list = await db.list.findFirst({
+    where: { id: listId, userId, deletedAt: null, archivedAt: archived },
+    select: { archivedAt: true },
+  });
+
+  if (!list) {
+    return false;
+  }
+
+  await db.list.update({ where: { id: listId }, data: { archivedAt: null } });
+  await db.task.updateMany({
+    where: { userId, listId, archivedAt: list.archivedAt },
+    data: { archivedAt: null },
+  });
+
+  return true;
+}
+
+/**
+ * Unarchive a task or a list.
+ *
+ * @param userId - User ID for authorization
+ * @param type - Kind of item
+ * @param id - Item ID
+ * @returns True if unarchived, false if the item is not in the archive
+ */
+export async function unarchiveItem(
+  userId: string,
+  type: ArchiveItemType,
+  id: string
+): Promise<boolean> {
+  switch (type) {
+    case 'task':
+      return unarchiveTask(userId, id);
+    case 'list':
+      return unarchiveList(userId, id);
+  }
+}
+
+/**
+ * Get the items in a user's archive, most recently archived first.
+ * Tasks archived along with their list or parent task are not listed
+ * separately; they come back with it.
+ *
+ * @param userId - User ID to scope the archive to
+ * @param options - Title search and item type filter
+ * @returns Archive items and the auto-archive period
+ */
+export async function getArchive(
+  userId: string,
+  options: { search?: string; type?: ArchiveItemType } = {}
+): Promise<ArchiveResponse> {
+  const { search, type } = options;
+  const where = {
+    userId,
+    deletedAt: null,
+    archivedAt: archived,
+    ...(search && { title: { contains: search } }),
+  };
+
+  const [tasks, lists] = await Promise.all([
+    type === 'list'
+      ? []
+      : db.task.findMany({
+          where,
+          select: {
+            id: true,
+            title: true,
+            archivedAt: true,
+            completedAt: true,
+            list: { select: { title: true, archivedAt: true } },
+            parent: { select: { archivedAt: true } },
+            _count: {
+              select: { subtasks: { where: { deletedAt: null, archivedAt: archived } } },
+            },
+          },
+        }),
+    type === 'task'
+      ? []
+      : db.list.findMany({
+          where,
+          select: {
+            id: true,
+            title: true,
+            archivedAt: true,
+            _count: {
+              select: { tasks: { where: { deletedAt: null, archivedAt: archived } } },
+            },
+          },
+        }),
+  ]);
+
+  const sameBatch = (a: Date | null | undefined, b: Date | null) => a?.getTime() === b?.getTime();
+
+  const items: ArchiveItemDto[] = [
+    ...tasks
+      .filter(
+        (task) =>
+          !sameBatch(task.parent?.archivedAt, task.archivedAt) &&
+          !sameBatch(task.list.archivedAt, task.archivedAt)
+      )
+      .map((task) => ({
+        type: 'task' as const,
+        id: task.id,
+        title: task.title,
+        archivedAt: task.archivedAt ?? new Date(),
+        completedAt: task.completedAt,
+        listTitle: task.list.title,
+        taskCount: task._count.subtasks,
+      })),
+    ...lists.map((list) => ({
+      type: 'list' as const,
+      id: list.id,
+      title: list.title,
+      archivedAt: list.archivedAt ?? new Date(),
+      completedAt: null,
+      listTitle: null,
+      taskCount: list._count.tasks,
+    })),
+  ];
+
+  items.sort((a, b) => b.archivedAt.getTime() - a.archivedAt.getTime());
+
+  return { items, autoArchiveDays: getAutoArchiveDays() };
+}
@@ -0,0 +1,36 @@
+/**
+ * Archive Type Definitions
+ *
+ * Archived tasks and lists are kept out of task lists and the sidebar but
+ * stay searchable in the archive until they are unarchived.
+ */
+
+/**
+ * Kind of entity in the archive.
+ */
+export type ArchiveItemType = 'task' | 'list';
+
+/**
+ * Archive item DTO.
+ */
+export interface ArchiveItemDto {
+  type: ArchiveItemType;
+  id: string;
+  title: string;
+  archivedAt: Date;
+  /** When a task was completed */
+  completedAt: Date | null;
+  /** Title of the list a task belongs to */
+  listTitle: string | null;
+  /** Tasks archived along with it: a list's tasks or a task's subtasks */
+  taskCount: number;
+}
+
+/**
+ * Archive API response.
+ */
+export interface ArchiveResponse {
+  items: ArchiveItemDto[];
+  /** Days after completion that tasks are archived automatically */
+  autoArchiveDays: number;
+}
@@ -0,0 +1,28 @@
+/**
+ * Archive Utilities
+ *
+ * Auto-archive settings.
+ */
+
+const DEFAULT_AUTO_ARCHIVE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the number of days after completion that tasks are archived
+ * automatically.
+ */
+export function getAutoArchiveDays(): number {
+  const days = Number(process.env.AUTO_ARCHIVE_DAYS);
+  return days > 0 ? days : DEFAULT_AUTO_ARCHIVE_DAYS;
+}
+
+/**
+ * Get the cutoff before which completed tasks are archived.
+ */
+export function getAutoArchiveCutoff(
+  now: Date = new Date(),
+  autoArchiveDays = getAutoArchiveDays()
+): Date {
+  return new Date(now.getTime() - autoArchiveDays * DAY_MS);
+}
@@ -0,0 +1,7 @@
+/**
+ * Attachments module exports.
+ */
+
+export * from './types';
+export * from './utils';
+export * from './service';
@@ -0,0 +1,194 @@
+/**
+ * Attachment Service Tests
+ *
+ * Tests for uploads, limits, thumbnails and deletion.
+ */
+
+import { db } from '@/lib/db';
+import { createThumbnail } from './thumbnails';
+import { createAttachment, deleteAttachment, getAttachmentContent } from './service';
+import { validateAttachment, sanitizeFileName } from './utils';
+
+const storage = {
+  put: jest.fn(),
+  get: jest.fn(),
+  delete: jest.fn(),
+};
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    task: {
+      findFirst: jest.fn(),
+    },
+    attachment: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: { warn: jest.fn() },
+}));
+
+jest.mock('./storage', () => ({
+  getAttachmentStorage: () => storage,
+}));
+
+jest.mock('./thumbnails', () => ({
+  createThumbnail: jest.fn(),
+}));
+
+describe('Attachment Service', () => {
+  const userId = 'user-123';
+  const taskId = 'task-1';
+
+  const makeAttachment = (overrides = {}) => ({
+    id: 'attachment-1',
+    fileName: 'photo.png',
+    mimeType: 'image/png',
+    size: 4,
+    storageKey: `${userId}/${taskId}/abc`,
+    thumbnailKey: `${userId}/${taskId}/abc.thumb.webp`,
+    width: 640,
+    height: 480,
+    taskId,
+    userId,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('validateAttachment', () => {
+    it('should accept allowed types within the size limit', () => {
+      expect(validateAttachment({ size: 1024, mimeType: 'application/pdf' })).toBeNull();
+      expect(validateAttachment({ size: 1024, mimeType: 'text/plain; charset=utf-8' })).toBeNull();
+    });
+
+    it('should reject empty, oversized and disallowed files', () => {
+      expect(validateAttachment({ size: 0, mimeType: 'text/plain' })).toBe('File is empty');
+      expect(validateAttachment({ size: 11 * 1024 * 1024, mimeType: 'text/plain' })).toBe(
+        'File must be at most 10 MB'
+      );
+      expect(validateAttachment({ size: 10, mimeType: 'image/svg+xml' })).toBe(
+        'File type is not allowed'
+      );
+    });
+  });
+
+  describe('sanitizeFileName', () => {
+    it('should strip paths and quotes', () => {
+      expect(sanitizeFileName('../../etc/"passwd"')).toBe('passwd');
+      expect(sanitizeFileName('C:\\Users\\me\\report.pdf')).toBe('report.pdf');
+      expect(sanitizeFileName('')).toBe('file');
+    });
+  });
+
+  describe('createAttachment', () => {
+    const upload = { fileName: 'photo.png', mimeType: 'image/png', data: Buffer.from('data') };
+
+    it('should reject files that break the limits before touching storage', async () => {
+      await expect(
+        createAttachment(taskId, userId, { ...upload, mimeType: 'application/x-msdownload' })
+      ).rejects.toThrow('File type is not allowed');
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the task is not found', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await createAttachment(taskId, userId, upload)).toBeNull();
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should store an image with its thumbnail', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({ id: taskId });
+      (db.attachment.count as jest.Mock).mockResolvedValue(0);
+      (createThumbnail as jest.Mock).mockResolvedValue({
+        data: Buffer.from('thumb'),
+        width: 640,
+        height: 480,
+      });
+      (db.attachment.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'attachment-1', createdAt: new Date(), ...data })
+      );
+
+      const result = await createAttachment(taskId, userId, upload);
+
+      expect(storage.put).toHaveBeenCalledTimes(2);
+      const [key] = storage.put.mock.calls[0];
+      expect(key).toMatch(new RegExp(`^${userId}/${taskId}/`));
+      expect(storage.put.mock.calls[1][0]).toBe(`${key}.thumb.webp`);
+      expect(result).toMatchObject({
+        fileName: 'photo.png',
+        size: 4,
+        width: 640,
+        height: 480,
+        url: `/api/tasks/${taskId}/attachments/attachment-1`,
+        thumbnailUrl: `/api/tasks/${taskId}/attachments/attachment-1?thumbnail=true`,
+      });
+    });
+
+    it('should remove stored files when saving metadata fails', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({ id: taskId });
+      (db.attachment.count as jest.Mock).mockResolvedValue(0);
+      (createThumbnail as jest.Mock).mockResolvedValue(null);
+      (db.attachment.create as jest.Mock).mockRejectedValue(new Error('db down'));
+
+      await expect(createAttachment(taskId, userId, upload)).rejects.toThrow('db down');
+      expect(storage.delete).toHaveBeenCalledWith(storage.put.mock.calls[0][0]);
+    });
+
+    it('should enforce the per-task limit', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({ id: taskId });
+      (db.attachment.count as jest.Mock).mockResolvedValue(20);
+
+      await expect(createAttachment(taskId, userId, upload)).rejects.toThrow(
+        'A task can have at most 20 attachments'
+      );
+    });
+  });
+
+  describe('getAttachmentContent', () => {
+    it('should read the thumbnail as WebP', async () => {
+      (db.attachment.findFirst as jest.Mock).mockResolvedValue(makeAttachment());
+      storage.get.mockResolvedValue(Buffer.from('thumb'));
+
+      const result = await getAttachmentContent(taskId, 'attachment-1', userId, true);
+
+      expect(storage.get).toHaveBeenCalledWith(`${userId}/${taskId}/abc.thumb.webp`);
+      expect(result?.mimeType).toBe('image/webp');
+    });
+
+    it('should return null when there is no thumbnail', async () => {
+      (db.attachment.findFirst as jest.Mock).mockResolvedValue(
+        makeAttachment({ thumbnailKey: null })
+      );
+
+      expect(await getAttachmentContent(taskId, 'attachment-1', userId, true)).toBeNull();
+      expect(storage.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAttachment', () => {
+    it('should delete the record and both files', async () => {
+      (db.attachment.findFirst as jest.Mock).mockResolvedValue(makeAttachment());
+
+      expect(await deleteAttachment(taskId, 'attachment-1', userId)).toBe(true);
+      expect(db.attachment.delete).toHaveBeenCalledWith({ where: { id: 'attachment-1' } });
+      expect(storage.delete).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return false when not found', async () => {
+      (db.attachment.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await deleteAttachment(taskId, 'attachment-1', userId)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Attachment Service
+ *
+ * Business logic for task attachments. Metadata is stored in the database and
+ * file contents in the configured storage backend.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Attachment } from '@prisma/client';
+import { db } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { getAttachmentStorage } from './storage';
+import { createThumbnail } from './thumbnails';
+import {
+  MAX_ATTACHMENTS_PER_TASK,
+  isImageType,
+  normalizeMimeType,
+  sanitizeFileName,
+  validateAttachment,
+} from './utils';
+import type { AttachmentDto, AttachmentUpload } from './types';
+
+/**
+ * Convert Prisma Attachment model to DTO.
+ */
+export function toAttachmentDto(attachment: Attachment): AttachmentDto {
+  const url = `/api/tasks/${attachment.taskId}/attachments/${attachment.id}`;
+
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    width: attachment.width,
+    height: attachment.height,
+    taskId: attachment.taskId,
+    url,
+    thumbnailUrl: attachment.thumbnailKey ? `${url}?thumbnail=true` : null,
+    createdAt: attachment.createdAt,
+  };
+}
+
+async function findTask(taskId: string, userId: string) {
+  return db.task.findFirst({
+    where: { id: taskId, userId, deletedAt: null },
+    select: { id: true },
+  });
+}
+
+/**
+ * Get the attachments of a task, oldest first.
+ *
+ * @param taskId - Task ID
+ * @param userId - User ID for authorization
+ * @returns Attachments, or null if the task is not found
+ */
+export async function getAttachments(
+  taskId: string,
+  userId: string
+): Promise<AttachmentDto[] | null> {
+  if (!(await findTask(taskId, userId))) {
+    return null;
+  }
+
+  const attachments = await db.attachment.findMany({
+    where: { taskId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return attachments.map(toAttachmentDto);
+}
+
+/**
+ * Store an uploaded file and attach it to a task.
+ * Images also get a thumbnail.
+ *
+ * @param taskId - Task ID
+ * @param userId - User ID for authorization
+ * @param upload - File name, type and contents
+ * @returns Created attachment or null if the task is not found
+ * @throws Error if the file breaks the size or type limits
+ */
+export async function createAttachment(
+  taskId: string,
+  userId: string,
+  upload: AttachmentUpload
+): Promise<AttachmentDto | null> {
+  const mimeType = normalizeMimeType(upload.mimeType);
+  const validationError = validateAttachment({ size: upload.data.length, mimeType });
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  if (!(await findTask(taskId, userId))) {
+    return null;
+  }
+
+  const count = await db.attachment.count({ where: { taskId } });
+  if (count >= MAX_ATTACHMENTS_PER_TASK) {
+    throw new Error(`A task can have at most ${MAX_ATTACHMENTS_PER_TASK} attachments`);
+  }
+
+  const storage = getAttachmentStorage();
+  const storageKey = `${userId}/${taskId}/${randomUUID()}`;
+  const thumbnail = isImageType(mimeType) ? await createThumbnail(upload.data) : null;
+  const thumbnailKey = thumbnail ? `${storageKey}.thumb.webp` : null;
+
+  await storage.put(storageKey, upload.data, mimeType);
+  if (thumbnail && thumbnailKey) {
+    await storage.put(thumbnailKey, thumbnail.data, 'image/webp');
+  }
+
+  try {
+    const attachment = await db.attachment.create({
+      data: {
+        taskId,
+        userId,
+        fileName: sanitizeFileName(upload.fileName),
+        mimeType,
+        size: upload.data.length,
+        storageKey,
+        thumbnailKey,
+        width: thumbnail?.width ?? null,
+        height: thumbnail?.height ?? null,
+      },
+    });
+
+    return toAttachmentDto(attachment);
+  } catch (error) {
+    // Don't leave orphaned files behind
+    await removeAttachmentFiles([storageKey, thumbnailKey]);
+    throw error;
+  }
+}
+
+/**
+ * Read the contents of an attachment.
+ *
+ * @param taskId - Task ID
+ * @param attachmentId - Attachment ID
+ * @param userId - User ID for authorization
+ * @param thumbnail - Read the thumbnail instead of the original
+ * @returns Attachment and its bytes, or null if not found
+ */
+export async function getAttachmentContent(
+  taskId: string,
+  attachmentId: string,
+  userId: string,
+  thumbnail = false
+): Promise<{ attachment: AttachmentDto; mimeType: string; data: Buffer } | null> {
+  const attachment = await db.attachment.findFirst({
+    where: { id: attachmentId, taskId, userId },
+  });
+
+  const key = thumbnail ? attachment?.thumbnailKey : attachment?.storageKey;
+  if (!attachment || !key) {
+    return null;
+  }
+
+  const data = await getAttachmentStorage().get(key);
+  if (!data) {
+    return null;
+  }
+
+  return {
+    attachment: toAttachmentDto(attachment),
+    mimeType: thumbnail ? 'image/webp' : attachment.mimeType,
+    data,
+  };
+}
+
+/**
+ * Delete an attachment and its stored files.
+ *
+ * @param taskId - Task ID
+ * @param attachmentId - Attachment ID
+ * @param userId - User ID for authorization
+ * @returns True if the attachment was deleted
+ */
+export async function deleteAttachment(
+  taskId: string,
+  attachmentId: string,
+  userId: string
+): Promise<boolean> {
+  const attachment = await db.attachment.findFirst({
+    where: { id: attachmentId, taskId, userId },
+  });
+
+  if (!attachment) {
+    return false;
+  }
+
+  await db.attachment.delete({ where: { id: attachmentId } });
+  await removeAttachmentFiles([attachment.storageKey, attachment.thumbnailKey]);
+
+  return true;
+}
+
+/**
+ * Get the stored files of the attachments on tasks, so they can be removed
+ * once the tasks are permanently deleted.
+ *
+ * @param taskIds - Task IDs
+ * @returns Storage keys of the files and thumbnails
+ */
+export async function getTaskAttachmentFiles(taskIds: string[]): Promise<Array<string | null>> {
+  const attachments = await db.attachment.findMany({
+    where: { taskId: { in: taskIds } },
+    select: { storageKey: true, thumbnailKey: true },
+  });
+
+  return attachments.flatMap((attachment) => [attachment.storageKey, attachment.thumbnailKey]);
+}
+
+/**
+ * Delete stored attachment files, logging failures instead of throwing.
+ *
+ * @param keys - Storage keys; null entries are skipped
+ */
+export async function removeAttachmentFiles(keys: Array<string | null>): Promise<void> {
+  const storage = getAttachmentStorage();
+
+  for (const key of keys) {
+    if (!key) continue;
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      logger.warn(
+        'Failed to delete attachment file',
+        { key },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
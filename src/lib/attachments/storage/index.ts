@@ -0,0 +1,64 @@
+/**
+ * Attachment Storage
+ *
+ * Selects the storage backend from the environment:
+ * - STORAGE_DRIVER: `local` (default) or `s3`
+ * - STORAGE_LOCAL_DIR: directory for the local backend (default `./uploads`)
+ * - S3_ENDPOINT, S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY: s3 backend
+ */
+
+import path from 'path';
+import { createLocalStorage } from './local';
+import { createS3Storage } from './s3';
+import type { AttachmentStorage } from './types';
+
+export * from './types';
+export { createLocalStorage } from './local';
+export { createS3Storage, signS3Request } from './s3';
+
+let storage: AttachmentStorage | null = null;
+
+function requireEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    throw new Error(`Missing S3 storage configuration: ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Create the storage backend configured by the environment.
+ *
+ * @returns Storage backend
+ * @throws Error if the driver is unknown or its configuration is incomplete
+ */
+export function createStorageFromEnv(): AttachmentStorage {
+  const driver = process.env.STORAGE_DRIVER?.trim() || 'local';
+
+  switch (driver) {
+    case 'local':
+      return createLocalStorage(
+        process.env.STORAGE_LOCAL_DIR?.trim() || path.join(process.cwd(), 'uploads')
+      );
+    case 's3':
+      return createS3Storage({
+        endpoint: requireEnv('S3_ENDPOINT'),
+        bucket: requireEnv('S3_BUCKET'),
+        region: process.env.S3_REGION?.trim() || 'us-east-1',
+        accessKeyId: requireEnv('S3_ACCESS_KEY_ID'),
+        secretAccessKey: requireEnv('S3_SECRET_ACCESS_KEY'),
+      });
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+/**
+ * Get the shared storage backend, creating it on first use.
+ */
+export function getAttachmentStorage(): AttachmentStorage {
+  if (!storage) {
+    storage = createStorageFromEnv();
+  }
+  return storage;
+}
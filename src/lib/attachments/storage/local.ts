@@ -0,0 +1,51 @@
+/**
+ * Local Disk Storage
+ *
+ * Stores attachments as files below a root directory.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { AttachmentStorage } from './types';
+
+/**
+ * Create a storage backend that writes to the local file system.
+ *
+ * @param rootDir - Directory holding all stored files
+ * @returns Storage backend
+ */
+export function createLocalStorage(rootDir: string): AttachmentStorage {
+  const root = path.resolve(rootDir);
+
+  // Keys come from the service, but never let one escape the root directory
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * S3-Compatible Storage
+ *
+ * Stores attachments in an S3 bucket using path-style URLs, which works with
+ * AWS S3 as well as MinIO and other S3-compatible servers. Requests are
+ * signed with AWS Signature Version 4.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import type { AttachmentStorage, S3StorageOptions } from './types';
+
+function sha256(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * URI-encode a path segment as required by SigV4.
+ */
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Build the signed headers for an S3 request.
+ *
+ * @param options - Connection settings
+ * @param method - HTTP method
+ * @param url - Full request URL
+ * @param payload - Request body
+ * @param now - Signing time
+ * @returns Headers including Authorization
+ */
+export function signS3Request(
+  options: S3StorageOptions,
+  method: string,
+  url: URL,
+  payload: Uint8Array,
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256(payload);
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const signedHeaders = Object.keys(headers).join(';');
+  const canonicalHeaders = Object.entries(headers)
+    .map(([name, value]) => `${name}:${value}\n`)
+    .join('');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${options.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), options.region)
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Create a storage backend for an S3-compatible bucket.
+ *
+ * @param options - Connection settings
+ * @returns Storage backend
+ */
+export function createS3Storage(options: S3StorageOptions): AttachmentStorage {
+  const base = options.endpoint.replace(/\/+$/, '');
+
+  const request = async (
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body: Uint8Array<ArrayBuffer> = new Uint8Array(),
+    contentType?: string
+  ): Promise<Response> => {
+    const objectPath = [options.bucket, ...key.split('/')].map(encodeSegment).join('/');
+    const url = new URL(`${base}/${objectPath}`);
+    const headers = signS3Request(options, method, url, body);
+
+    return fetch(url, {
+      method,
+      headers: contentType ? { ...headers, 'content-type': contentType } : headers,
+      body: method === 'PUT' ? body : undefined,
+    });
+  };
+
+  return {
+    async put(key, data, contentType) {
+      const response = await request('PUT', key, new Uint8Array(data), contentType);
+      if (!response.ok) {
+        throw new Error(`Storage upload failed with status ${response.status}`);
+      }
+    },
+
+    async get(key) {
+      const response = await request('GET', key);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Storage download failed with status ${response.status}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async delete(key) {
+      const response = await request('DELETE', key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Storage delete failed with status ${response.status}`);
+      }
+    },
+  };
+}
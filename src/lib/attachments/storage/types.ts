@@ -0,0 +1,28 @@
+/**
+ * Attachment Storage Types
+ */
+
+/**
+ * Backend that stores attachment bytes by key.
+ * Keys are slash-separated relative paths such as `user/task/file`.
+ */
+export interface AttachmentStorage {
+  /** Store bytes under a key, replacing any existing object */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Read an object, or null if it does not exist */
+  get(key: string): Promise<Buffer | null>;
+  /** Delete an object; missing objects are ignored */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Connection settings for an S3-compatible backend (AWS S3, MinIO, R2, ...).
+ */
+export interface S3StorageOptions {
+  /** Base URL, e.g. `http://localhost:9000` for MinIO */
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
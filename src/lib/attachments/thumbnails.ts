@@ -0,0 +1,40 @@
+/**
+ * Image Thumbnails
+ */
+
+import sharp from 'sharp';
+
+/**
+ * Longest edge of a thumbnail in pixels.
+ */
+const THUMBNAIL_SIZE = 256;
+
+export interface Thumbnail {
+  data: Buffer;
+  /** Dimensions of the original image */
+  width: number;
+  height: number;
+}
+
+/**
+ * Create a WebP thumbnail of an image.
+ *
+ * @param data - Image bytes
+ * @returns Thumbnail and original dimensions, or null if the image cannot be decoded
+ */
+export async function createThumbnail(data: Buffer): Promise<Thumbnail | null> {
+  try {
+    const image = sharp(data, { animated: false });
+    const { width, height } = await image.metadata();
+
+    const thumbnail = await image
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+
+    return { data: thumbnail, width: width ?? 0, height: height ?? 0 };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Attachment Type Definitions
+ */
+
+/**
+ * Attachment response DTO.
+ */
+export interface AttachmentDto {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  width: number | null;
+  height: number | null;
+  taskId: string;
+  /** Download URL */
+  url: string;
+  /** Thumbnail URL, for images */
+  thumbnailUrl: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Uploaded file as received by the service.
+ */
+export interface AttachmentUpload {
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+}
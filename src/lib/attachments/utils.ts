@@ -0,0 +1,123 @@
+/**
+ * Attachment Utilities
+ *
+ * Size and type limits for uploads.
+ */
+
+/**
+ * Default maximum upload size in megabytes, overridable with ATTACHMENT_MAX_SIZE_MB.
+ */
+const DEFAULT_MAX_SIZE_MB = 10;
+
+/**
+ * Room for the multipart boundary and part headers around an uploaded file.
+ */
+const MULTIPART_OVERHEAD_BYTES = 16 * 1024;
+
+/**
+ * Maximum number of attachments per task.
+ */
+export const MAX_ATTACHMENTS_PER_TASK = 20;
+
+/**
+ * Image types that get a thumbnail. SVG is excluded because it can carry scripts.
+ */
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'] as const;
+
+/**
+ * All accepted upload types.
+ */
+export const ALLOWED_MIME_TYPES: readonly string[] = [
+  ...IMAGE_MIME_TYPES,
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/json',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+/**
+ * Get the maximum upload size in bytes.
+ */
+export function getMaxAttachmentSize(): number {
+  const megabytes = Number(process.env.ATTACHMENT_MAX_SIZE_MB);
+  return (megabytes > 0 ? megabytes : DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+}
+
+/**
+ * Get the largest multipart request body that can hold an accepted upload.
+ */
+export function getMaxAttachmentRequestSize(): number {
+  return getMaxAttachmentSize() + MULTIPART_OVERHEAD_BYTES;
+}
+
+/**
+ * Error message for an upload over the size limit.
+ */
+export function getAttachmentSizeError(): string {
+  return `File must be at most ${Math.floor(getMaxAttachmentSize() / (1024 * 1024))} MB`;
+}
+
+/**
+ * Check whether a MIME type is an image that gets a thumbnail.
+ */
+export function isImageType(mimeType: string): boolean {
+  return (IMAGE_MIME_TYPES as readonly string[]).includes(mimeType);
+}
+
+/**
+ * Normalize a MIME type by dropping parameters such as `; charset=utf-8`.
+ */
+export function normalizeMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Validate an upload against the size and type limits.
+ *
+ * @param file - Upload size in bytes and MIME type
+ * @returns Error message, or null if the file is accepted
+ */
+export function validateAttachment(file: { size: number; mimeType: string }): string | null {
+  if (file.size === 0) {
+    return 'File is empty';
+  }
+
+  if (file.size > getMaxAttachmentSize()) {
+    return getAttachmentSizeError();
+  }
+
+  if (!ALLOWED_MIME_TYPES.includes(normalizeMimeType(file.mimeType))) {
+    return 'File type is not allowed';
+  }
+
+  return null;
+}
+
+/**
+ * Make a file name safe to store and send in a Content-Disposition header.
+ *
+ * @param fileName - Name as uploaded
+ * @returns Name without path components or control characters
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[/\\]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+  return cleaned.slice(0, 255) || 'file';
+}
+
+/**
+ * Format a byte count for display (e.g. "1.5 MB").
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1).replace(/\.0$/, '')} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+}
@@ -6,6 +6,8 @@ import {
   taskToCalendarEvent,
   getEventsForDate,
   getEventsForRange,
+  getRecurringOccurrences,
+  getEventSpan,
   isTimeSlotAvailable,
   generateMonthView,
   generateWeekView,
@@ -44,9 +46,12 @@ const createMockTask = (overrides: Partial<MockTask> = {}): MockTask => ({
   spentTime: null,
   recurrenceRule: null,
   recurrenceId: null,
+  recurrenceDate: null,
   sortOrder: 0,
   createdAt: new Date('2024-01-01'),
   updatedAt: new Date('2024-01-01'),
+  deletedAt: null,
+  archivedAt: null,
   listId: 'list1',
   parentId: null,
   goalId: null,
@@ -133,6 +138,28 @@ describe('taskToCalendarEvent', () => {
     expect(event).not.toBeNull();
   });
 
+  it('should span from startDate to dueDate on different days', () => {
+    const task = createMockTask({
+      startDate: new Date(2024, 0, 15, 9, 0),
+      dueDate: new Date(2024, 0, 17, 18, 0),
+    });
+    const event = taskToCalendarEvent(task);
+
+    expect(event?.isMultiDay).toBe(true);
+    expect(event?.allDay).toBe(true);
+    expect(event?.start).toEqual(new Date(2024, 0, 15));
+    expect(event?.end).toEqual(new Date(2024, 0, 17, 23, 59, 59, 999));
+  });
+
+  it('should not span when startDate is on the due day', () => {
+    const task = createMockTask({
+      startDate: new Date(2024, 0, 15, 9, 0),
+      dueDate: new Date(2024, 0, 15, 18, 0),
+    });
+
+    expect(taskToCalendarEvent(task)?.isMultiDay).toBeUndefined();
+  });
+
   it('should detect recurring task', () => {
     const task = createMockTask({
       recurrenceRule: 'FREQ=DAILY',
@@ -224,6 +251,53 @@ describe('getEventsForRange', () => {
   });
 });
 
+describe('getRecurringOccurrences', () => {
+  const range = {
+    start: new Date('2024-01-01T00:00:00Z'),
+    end: new Date('2024-01-31T23:59:59Z'),
+  };
+
+  it('should project future occurrences after the current one', () => {
+    const tasks = [
+      createMockTask({
+        id: '1',
+        dueDate: new Date('2024-01-15T10:00:00Z'),
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=3',
+      }),
+    ];
+    const events = getRecurringOccurrences(tasks, range);
+
+    expect(events.map((e) => e.start.toISOString())).toEqual([
+      '2024-01-22T10:00:00.000Z',
+      '2024-01-29T10:00:00.000Z',
+    ]);
+    expect(events.every((e) => e.id === '1' && e.isProjected)).toBe(true);
+  });
+
+  it('should not project completed tasks', () => {
+    const tasks = [
+      createMockTask({
+        status: TaskStatus.DONE,
+        recurrenceRule: 'FREQ=DAILY',
+      }),
+    ];
+
+    expect(getRecurringOccurrences(tasks, range)).toHaveLength(0);
+  });
+
+  it('should be included in range queries unless disabled', () => {
+    const tasks = [
+      createMockTask({
+        dueDate: new Date('2024-01-29T10:00:00Z'),
+        recurrenceRule: 'FREQ=DAILY',
+      }),
+    ];
+
+    expect(getEventsForRange(tasks, range)).toHaveLength(3);
+    expect(getEventsForRange(tasks, range, { expandRecurring: false })).toHaveLength(1);
+  });
+});
+
 describe('isTimeSlotAvailable', () => {
   it('should return true when no events exist', () => {
     const events: CalendarEvent[] = [];
@@ -315,6 +389,31 @@ describe('generateMonthView', () => {
   });
 });
 
+describe('multi-day events', () => {
+  const task = createMockTask({
+    startDate: new Date(2024, 0, 12),
+    dueDate: new Date(2024, 0, 16),
+  });
+
+  it('should appear on every day they span in the month view', () => {
+    const viewData = generateMonthView([task], new Date(2024, 0, 15));
+    const daysWithEvent = viewData.weeks
+      .flatMap((week) => week.days)
+      .filter((day) => day.events.length > 0)
+      .map((day) => day.date.getDate());
+
+    expect(daysWithEvent).toEqual([12, 13, 14, 15, 16]);
+  });
+
+  it('should be placed across week columns', () => {
+    const event = taskToCalendarEvent(task) as CalendarEvent;
+    const week = Array.from({ length: 7 }, (_, i) => new Date(2024, 0, 14 + i));
+
+    expect(getEventSpan(event, week)).toEqual({ start: 0, span: 3 });
+    expect(getEventSpan(event, [new Date(2024, 0, 20)])).toBeNull();
+  });
+});
+
 describe('generateWeekView', () => {
   it('should generate week view data', () => {
     const tasks = [createMockTask({ dueDate: new Date('2024-01-15T10:00:00Z') })];
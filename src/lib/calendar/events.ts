@@ -32,10 +32,14 @@ import {
   isWithinRange,
   isPast,
 } from '@/lib/utils/date';
+import { getOccurrences } from '@/lib/recurrence';
 
 /**
  * Convert a task to a calendar event.
  *
+ * Tasks with a start date before the day they are due become multi-day
+ * all-day events spanning from the start date to the due date.
+ *
  * @param task - Task to convert
  * @returns Calendar event or null if task has no date
  */
@@ -47,6 +51,17 @@ export function taskToCalendarEvent(task: TaskWithTags): CalendarEvent | null {
     return null;
   }
 
+  if (task.dueDate && task.startDate && startOfDay(task.startDate) < startOfDay(task.dueDate)) {
+    return {
+      ...toEventDetails(task),
+      start: startOfDay(task.startDate),
+      end: endOfDay(task.dueDate),
+      allDay: true,
+      isOverdue: isTaskOverdue(task, task.dueDate),
+      isMultiDay: true,
+    };
+  }
+
   const start = new Date(eventDate);
   let end: Date;
 
@@ -66,14 +81,24 @@ export function taskToCalendarEvent(task: TaskWithTags): CalendarEvent | null {
     end = endOfDay(start);
   }
 
-  const isOverdue = task.status !== 'DONE' && task.status !== 'CANCELLED' && isPast(start);
-
   return {
-    id: task.id,
-    title: task.title,
+    ...toEventDetails(task),
     start,
     end,
     allDay: hasTime === false,
+    isOverdue: isTaskOverdue(task, start),
+  };
+}
+
+/**
+ * Event fields taken directly from the task.
+ */
+function toEventDetails(
+  task: TaskWithTags
+): Omit<CalendarEvent, 'start' | 'end' | 'allDay' | 'isOverdue'> {
+  return {
+    id: task.id,
+    title: task.title,
     status: task.status,
     priority: task.priority,
     description: task.description,
@@ -86,10 +111,13 @@ export function taskToCalendarEvent(task: TaskWithTags): CalendarEvent | null {
     })),
     isRecurring: !!task.recurrenceRule,
     estimatedTime: task.estimatedTime,
-    isOverdue,
   };
 }
 
+function isTaskOverdue(task: TaskWithTags, due: Date): boolean {
+  return task.status !== 'DONE' && task.status !== 'CANCELLED' && isPast(due);
+}
+
 /**
  * Get calendar events for a specific date.
  *
@@ -103,18 +131,7 @@ export function getEventsForDate(
   date: Date,
   filter?: CalendarEventFilter
 ): CalendarEvent[] {
-  const dayStart = startOfDay(date);
-  const dayEnd = endOfDay(date);
-
-  let events = tasks.map(taskToCalendarEvent).filter((event): event is CalendarEvent => {
-    if (!event) return false;
-
-    // Check if event overlaps with the target date
-    const eventStart = event.allDay ? startOfDay(event.start) : event.start;
-    const eventEnd = event.allDay ? endOfDay(event.end) : event.end;
-
-    return isTimeOverlap(eventStart, eventEnd, dayStart, dayEnd);
-  });
+  let events = collectEvents(tasks, { start: startOfDay(date), end: endOfDay(date) }, filter);
 
   // Apply filters
   if (filter) {
@@ -137,22 +154,149 @@ export function getEventsForRange(
   range: DateRange,
   filter?: CalendarEventFilter
 ): CalendarEvent[] {
-  let events = tasks.map(taskToCalendarEvent).filter((event): event is CalendarEvent => {
-    if (!event) return false;
+  let events = collectEvents(tasks, range, filter);
+
+  // Apply filters
+  if (filter) {
+    events = applyEventFilters(events, filter);
+  }
+
+  return events;
+}
+
+/**
+ * Convert tasks to events overlapping a range, including projected
+ * occurrences of recurring tasks unless disabled by the filter.
+ */
+function collectEvents(
+  tasks: TaskWithTags[],
+  range: DateRange,
+  filter?: CalendarEventFilter
+): CalendarEvent[] {
+  const events = tasks
+    .map(taskToCalendarEvent)
+    .filter((event): event is CalendarEvent => event !== null);
 
+  if (filter?.expandRecurring !== false) {
+    events.push(...getRecurringOccurrences(tasks, range));
+  }
+
+  return events.filter((event) => {
     // Check if event overlaps with the range
     const eventStart = event.allDay ? startOfDay(event.start) : event.start;
     const eventEnd = event.allDay ? endOfDay(event.end) : event.end;
 
     return isTimeOverlap(eventStart, eventEnd, range.start, range.end);
   });
+}
 
-  // Apply filters
-  if (filter) {
-    events = applyEventFilters(events, filter);
+/**
+ * Project future occurrences of recurring tasks into a date range.
+ *
+ * Only open tasks are expanded: completing an occurrence materializes the
+ * next one, which then becomes the task projected from. Projected events
+ * keep the task's ID so selecting one opens the current occurrence.
+ *
+ * @param tasks - Tasks to expand
+ * @param range - Date range to project into
+ * @returns Projected calendar events
+ */
+export function getRecurringOccurrences(tasks: TaskWithTags[], range: DateRange): CalendarEvent[] {
+  const projected: CalendarEvent[] = [];
+
+  for (const task of tasks) {
+    if (!task.recurrenceRule || task.status === 'DONE' || task.status === 'CANCELLED') {
+      continue;
+    }
+
+    const base = taskToCalendarEvent(task);
+    const anchor = task.dueDate ?? task.startDate;
+    if (!base || !anchor) continue;
+
+    // COUNT is measured from the first task of the series when it is loaded;
+    // a rescheduled occurrence still stands for its original slot
+    const slot = task.recurrenceDate ?? anchor;
+    const master = task.recurrenceId ? tasks.find((t) => t.id === task.recurrenceId) : null;
+    const seriesStart = master
+      ? (master.recurrenceDate ?? master.dueDate ?? master.startDate ?? slot)
+      : slot;
+
+    let occurrences: Date[];
+    try {
+      occurrences = getOccurrences(task.recurrenceRule, seriesStart, {
+        after: slot,
+        before: range.end,
+      });
+    } catch {
+      continue;
+    }
+
+    const duration = base.end.getTime() - base.start.getTime();
+    for (const occurrence of occurrences) {
+      const start = new Date(base.start.getTime() + (occurrence.getTime() - anchor.getTime()));
+      projected.push({
+        ...base,
+        start,
+        end:
+          base.allDay && !base.isMultiDay ? endOfDay(start) : new Date(start.getTime() + duration),
+        isOverdue: false,
+        isProjected: true,
+      });
+    }
   }
 
-  return events;
+  return projected;
+}
+
+/**
+ * Get a stable React key for an event.
+ * Projected occurrences share their task's ID, so the start time disambiguates them.
+ */
+export function getEventKey(event: CalendarEvent): string {
+  return event.isProjected ? `${event.id}@${event.start.getTime()}` : event.id;
+}
+
+/**
+ * Check if an event is shown on a day.
+ * Multi-day events are shown on every day they span, other events on the day they start.
+ */
+export function isEventOnDay(event: CalendarEvent, date: Date): boolean {
+  if (!event.isMultiDay) {
+    return isSameDay(event.start, date);
+  }
+  return event.start <= endOfDay(date) && event.end >= startOfDay(date);
+}
+
+/**
+ * Get the columns an event covers in a row of consecutive days.
+ *
+ * @param event - Event to place
+ * @param days - Days of the row (e.g. a week)
+ * @returns Index of the first column and number of columns, or null if the event is not in the row
+ */
+export function getEventSpan(
+  event: CalendarEvent,
+  days: Date[]
+): { start: number; span: number } | null {
+  const start = days.findIndex((day) => isEventOnDay(event, day));
+  if (start === -1) return null;
+
+  let end = start;
+  while (end + 1 < days.length && isEventOnDay(event, days[end + 1])) {
+    end++;
+  }
+
+  return { start, span: end - start + 1 };
+}
+
+/**
+ * Sort events so multi-day events come first, keeping their bars aligned across days.
+ */
+function sortMultiDayFirst(events: CalendarEvent[]): CalendarEvent[] {
+  return [...events].sort((a, b) => {
+    if (!!a.isMultiDay !== !!b.isMultiDay) return a.isMultiDay ? -1 : 1;
+    return a.isMultiDay ? a.start.getTime() - b.start.getTime() : 0;
+  });
 }
 
 /**
@@ -265,7 +409,7 @@ export function generateMonthView(
 
     for (let j = 0; j < 7; j++) {
       const dayDate = addDays(currentWeekStart, j);
-      const dayEvents = events.filter((e) => isSameDay(e.start, dayDate));
+      const dayEvents = sortMultiDayFirst(events.filter((e) => isEventOnDay(e, dayDate)));
 
       weekDays.push({
         date: dayDate,
@@ -327,7 +471,7 @@ export function generateWeekView(
   const days: CalendarDay[] = [];
   for (let i = 0; i < 7; i++) {
     const dayDate = addDays(weekStart, i);
-    const dayEvents = events.filter((e) => isSameDay(e.start, dayDate));
+    const dayEvents = sortMultiDayFirst(events.filter((e) => isEventOnDay(e, dayDate)));
 
     days.push({
       date: dayDate,
@@ -430,7 +574,7 @@ export function generateAgendaView(
 export function getOverlappingEvents(events: CalendarEvent[], date: Date): CalendarEvent[] {
   return events.filter((event) => {
     if (event.allDay) {
-      return isSameDay(event.start, date);
+      return isEventOnDay(event, date);
     }
     return isWithinRange(date, event.start, event.end);
   });
@@ -458,7 +602,7 @@ export function isTimeSlotAvailable(
 
     if (event.allDay) {
       // All-day events block the entire day
-      if (isSameDay(start, event.start)) {
+      if (isEventOnDay(event, start)) {
         return false;
       }
     } else {
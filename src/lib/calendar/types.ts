@@ -63,6 +63,10 @@ export interface CalendarEvent {
   estimatedTime?: number | null;
   /** Whether the task is overdue */
   isOverdue: boolean;
+  /** Whether this is a projected (not yet materialized) occurrence of a recurring task */
+  isProjected?: boolean;
+  /** Whether the event spans several days (from the task's start date to its due date) */
+  isMultiDay?: boolean;
 }
 
 /**
@@ -164,6 +168,8 @@ export interface CalendarViewOptions {
   priority?: Priority[];
   /** Include completed tasks */
   includeCompleted?: boolean;
+  /** Project future occurrences of recurring tasks (defaults to true) */
+  expandRecurring?: boolean;
 }
 
 /**
@@ -214,4 +220,6 @@ export interface CalendarEventFilter {
   excludeAllDay?: boolean;
   /** Only show all-day events */
   onlyAllDay?: boolean;
+  /** Project future occurrences of recurring tasks (defaults to true) */
+  expandRecurring?: boolean;
 }
@@ -0,0 +1,67 @@
+/**
+ * Email
+ *
+ * Sends email through the SMTP server configured by the environment:
+ * - SMTP_HOST: server host; email is disabled when unset
+ * - SMTP_PORT: server port (default 465 with SMTP_SECURE, otherwise 587)
+ * - SMTP_SECURE: `true` for TLS from the start instead of STARTTLS
+ * - SMTP_USER, SMTP_PASSWORD: credentials, if the server requires them
+ * - SMTP_FROM: sender (default `TickTick Clone <reminders@localhost>`)
+ *
+ * For local development, `npm run smtp:sink` starts a server that prints
+ * every message it receives (SMTP_HOST=localhost, SMTP_PORT=1025).
+ */
+
+import { sendMail } from './smtp';
+import type { EmailMessage, SmtpOptions } from './types';
+
+export * from './types';
+export { buildMimeMessage, getAddress, sendMail } from './smtp';
+export { parseEmail, startSmtpSink } from './sink';
+export type { SmtpSink, SmtpSinkOptions } from './sink';
+
+const DEFAULT_FROM = 'TickTick Clone <reminders@localhost>';
+
+/**
+ * Get the SMTP settings from the environment.
+ *
+ * @returns Settings, or null if email is not configured
+ */
+export function getSmtpOptionsFromEnv(): SmtpOptions | null {
+  const host = process.env.SMTP_HOST?.trim();
+  if (!host) {
+    return null;
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  const port = Number(process.env.SMTP_PORT);
+
+  return {
+    host,
+    port: port > 0 ? port : secure ? 465 : 587,
+    secure,
+    user: process.env.SMTP_USER?.trim() || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.SMTP_FROM?.trim() || DEFAULT_FROM,
+  };
+}
+
+/**
+ * Whether an SMTP server is configured.
+ */
+export function isEmailConfigured(): boolean {
+  return getSmtpOptionsFromEnv() !== null;
+}
+
+/**
+ * Send an email through the configured SMTP server.
+ *
+ * @throws Error if email is not configured or sending fails
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const options = getSmtpOptionsFromEnv();
+  if (!options) {
+    throw new Error('Email is not configured: SMTP_HOST is not set');
+  }
+  await sendMail(options, message);
+}
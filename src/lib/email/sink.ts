@@ -0,0 +1,156 @@
+/**
+ * SMTP Sink
+ *
+ * A local SMTP server that accepts every message and keeps it in memory,
+ * for trying out email delivery in development and for tests. It accepts
+ * any credentials and does not offer TLS.
+ */
+
+import net from 'net';
+import type { ReceivedEmail } from './types';
+
+export interface SmtpSink {
+  /** Port the sink listens on */
+  port: number;
+  /** Messages received so far */
+  messages: ReceivedEmail[];
+  /** Stop listening and close open connections */
+  close: () => Promise<void>;
+}
+
+export interface SmtpSinkOptions {
+  /** Port to listen on (default: any free port) */
+  port?: number;
+  host?: string;
+  /** Called for every received message */
+  onMessage?: (message: ReceivedEmail) => void;
+}
+
+/**
+ * Start an SMTP sink.
+ */
+export function startSmtpSink(options: SmtpSinkOptions = {}): Promise<SmtpSink> {
+  const messages: ReceivedEmail[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    let buffer = '';
+    let envelope: { from: string; to: string[] } = { from: '', to: [] };
+    let data: string[] | null = null;
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    const handle = (line: string) => {
+      if (data) {
+        if (line !== '.') {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+          return;
+        }
+        const message = { ...envelope, data: data.join('\r\n') };
+        messages.push(message);
+        options.onMessage?.(message);
+        data = null;
+        envelope = { from: '', to: [] };
+        reply('250 OK: queued');
+        return;
+      }
+
+      const verb = line.split(' ')[0].toUpperCase();
+      const address = line.match(/<([^>]*)>/)?.[1] ?? '';
+
+      switch (verb) {
+        case 'EHLO':
+          reply('250-localhost');
+          reply('250 AUTH PLAIN LOGIN');
+          break;
+        case 'HELO':
+        case 'NOOP':
+        case 'RSET':
+          reply('250 OK');
+          break;
+        case 'AUTH':
+          reply('235 Authentication succeeded');
+          break;
+        case 'MAIL':
+          envelope.from = address;
+          reply('250 OK');
+          break;
+        case 'RCPT':
+          envelope.to.push(address);
+          reply('250 OK');
+          break;
+        case 'DATA':
+          data = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    };
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        handle(line);
+      }
+    });
+
+    reply('220 localhost SMTP sink ready');
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({
+        port,
+        messages,
+        close: () =>
+          new Promise((done) => {
+            sockets.forEach((socket) => socket.destroy());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+/**
+ * Split a received message into its headers and decoded text and HTML
+ * bodies.
+ */
+export function parseEmail(data: string): {
+  headers: Record<string, string>;
+  text: string | null;
+  html: string | null;
+} {
+  const [head, ...rest] = data.split('\r\n\r\n');
+  const headers: Record<string, string> = {};
+  for (const line of head.split('\r\n')) {
+    const index = line.indexOf(':');
+    headers[line.slice(0, index).toLowerCase()] = line.slice(index + 1).trim();
+  }
+
+  const body = rest.join('\r\n\r\n');
+  const getPart = (type: string) => {
+    const match = body.match(
+      new RegExp(
+        `Content-Type: ${type};[^\\r\\n]*\\r\\n[^\\r\\n]*base64\\r\\n\\r\\n([\\s\\S]*?)\\r\\n--`
+      )
+    );
+    return match ? Buffer.from(match[1].replace(/\r\n/g, ''), 'base64').toString('utf8') : null;
+  };
+
+  return { headers, text: getPart('text/plain'), html: getPart('text/html') };
+}
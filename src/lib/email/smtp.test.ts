@@ -0,0 +1,71 @@
+/**
+ * SMTP Client Tests
+ *
+ * Sends messages to a local SMTP sink.
+ *
+ * @jest-environment node
+ */
+
+import { parseEmail, startSmtpSink, type SmtpSink } from './sink';
+import { sendMail } from './smtp';
+import type { SmtpOptions } from './types';
+
+describe('SMTP Client', () => {
+  let sink: SmtpSink;
+  let options: SmtpOptions;
+
+  beforeEach(async () => {
+    sink = await startSmtpSink();
+    options = {
+      host: '127.0.0.1',
+      port: sink.port,
+      secure: false,
+      from: 'TickTick <reminders@example.com>',
+      timeoutMs: 5000,
+    };
+  });
+
+  afterEach(async () => {
+    await sink.close();
+  });
+
+  it('should deliver a multipart message', async () => {
+    await sendMail(options, {
+      to: 'Ada <ada@example.com>',
+      subject: 'Reminder: Call dentist',
+      text: 'Call the dentist',
+      html: '<p>Call the <strong>dentist</strong></p>',
+    });
+
+    expect(sink.messages).toHaveLength(1);
+    const [message] = sink.messages;
+    expect(message.from).toBe('reminders@example.com');
+    expect(message.to).toEqual(['ada@example.com']);
+
+    const { headers, text, html } = parseEmail(message.data);
+    expect(headers.subject).toBe('Reminder: Call dentist');
+    expect(headers.to).toBe('Ada <ada@example.com>');
+    expect(headers['content-type']).toMatch(/^multipart\/alternative/);
+    expect(text).toBe('Call the dentist');
+    expect(html).toBe('<p>Call the <strong>dentist</strong></p>');
+  });
+
+  it('should encode non-ASCII subjects and keep bodies intact', async () => {
+    await sendMail(
+      { ...options, user: 'ada', password: 'secret' },
+      { to: 'ada@example.com', subject: 'Rappel : café', text: '.\nÉtape 1', html: '' }
+    );
+
+    const { headers, text } = parseEmail(sink.messages[0].data);
+    expect(headers.subject).toBe(`=?UTF-8?B?${Buffer.from('Rappel : café').toString('base64')}?=`);
+    expect(text).toBe('.\nÉtape 1');
+  });
+
+  it('should fail when the server cannot be reached', async () => {
+    await sink.close();
+
+    await expect(
+      sendMail(options, { to: 'ada@example.com', subject: 'Hi', text: 'Hi', html: '' })
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * SMTP Client
+ *
+ * Sends email over SMTP: implicit TLS or STARTTLS when the server offers it,
+ * AUTH PLAIN when credentials are configured, and a multipart message with
+ * plain-text and HTML bodies. One connection is opened per message.
+ */
+
+import { randomUUID } from 'crypto';
+import net from 'net';
+import tls from 'tls';
+import type { EmailMessage, SmtpOptions } from './types';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads SMTP replies from a socket. Multi-line replies (`250-...`) are
+ * collected until their last line (`250 ...`).
+ */
+interface ReplyReader {
+  read: () => Promise<SmtpReply>;
+  /** Stop reading, e.g. before the socket is upgraded to TLS */
+  detach: () => void;
+}
+
+function createReplyReader(socket: net.Socket): ReplyReader {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> =
+    [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+
+      if (line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines };
+        lines = [];
+        const waiter = waiting.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          replies.push(reply);
+        }
+      }
+    }
+  };
+
+  const onError = (error: Error) => {
+    failure = error;
+    waiting.splice(0).forEach((waiter) => waiter.reject(error));
+  };
+  const onClose = () => onError(failure ?? new Error('SMTP connection closed'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    read: () => {
+      const reply = replies.shift();
+      if (reply) {
+        return Promise.resolve(reply);
+      }
+      if (failure) {
+        return Promise.reject(failure);
+      }
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+
+    socket.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () =>
+      socket.destroy(new Error('SMTP connection timed out'))
+    );
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, options: SmtpOptions): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: options.host });
+    secure.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () =>
+      secure.destroy(new Error('SMTP connection timed out'))
+    );
+    secure.once('secureConnect', () => resolve(secure));
+    secure.once('error', reject);
+  });
+}
+
+/**
+ * Get the address of a mailbox like `Name <user@example.com>`.
+ */
+export function getAddress(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word if it is not plain ASCII.
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBody(body: string): string {
+  return (
+    Buffer.from(body, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+}
+
+/**
+ * Build the MIME message for an email.
+ *
+ * @param from - Sender mailbox
+ * @param message - Recipient, subject and bodies
+ * @returns Message with CRLF line endings
+ */
+export function buildMimeMessage(from: string, message: EmailMessage): string {
+  const boundary = `=_${randomUUID()}`;
+  const domain = getAddress(from).split('@')[1] ?? 'localhost';
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Send an email.
+ *
+ * @param options - SMTP server and sender
+ * @param message - Email to send
+ * @throws Error if the connection fails or the server rejects a command
+ */
+export async function sendMail(options: SmtpOptions, message: EmailMessage): Promise<void> {
+  let socket: net.Socket = await connect(options);
+  let reader = createReplyReader(socket);
+
+  const command = async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+    if (line !== null) {
+      socket.write(`${line}\r\n`);
+    }
+    const reply = await reader.read();
+    if (!expected.includes(reply.code)) {
+      const step =
+        line === null ? 'greeting' : line.includes('\r\n') ? 'message' : line.split(' ')[0];
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    const ehlo = await command('EHLO localhost', [250]);
+
+    if (!options.secure && ehlo.lines.some((line) => line.toUpperCase() === 'STARTTLS')) {
+      await command('STARTTLS', [220]);
+      reader.detach();
+      socket = await upgradeToTls(socket, options);
+      reader = createReplyReader(socket);
+      await command('EHLO localhost', [250]);
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ''}`, 'utf8');
+      await command(`AUTH PLAIN ${credentials.toString('base64')}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${getAddress(options.from)}>`, [250]);
+    await command(`RCPT TO:<${getAddress(message.to)}>`, [250, 251]);
+    await command('DATA', [354]);
+
+    // Lines starting with a dot are escaped by doubling it
+    const data = buildMimeMessage(options.from, message).replace(/^\./gm, '..');
+    await command(`${data}\r\n.`, [250]);
+
+    await command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Email Types
+ */
+
+/**
+ * Connection settings for an SMTP server.
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Use TLS from the start (port 465); otherwise STARTTLS is used when offered */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Sender, e.g. `TickTick <reminders@example.com>` */
+  from: string;
+  /** Socket inactivity timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Email with plain-text and HTML bodies.
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Email received by the SMTP sink.
+ */
+export interface ReceivedEmail {
+  /** Envelope sender */
+  from: string;
+  /** Envelope recipients */
+  to: string[];
+  /** Raw message as sent after DATA */
+  data: string;
+}
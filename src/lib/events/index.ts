@@ -0,0 +1,9 @@
+/**
+ * Event Module Exports
+ */
+
+export * from './types';
+export * from './service';
+export * from './utils';
+export { createEventStream, formatServerSentEvent } from './stream';
+export type { EventStreamOptions } from './stream';
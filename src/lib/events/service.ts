@@ -0,0 +1,105 @@
+/**
+ * Event Service
+ *
+ * Records events in the user's change feed and reads them back for
+ * streaming. Events go through the database so that every server process,
+ * including the reminder worker, reaches every open tab.
+ */
+
+import { db } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import type { AppEvent, AppEventDataMap, AppEventType } from './types';
+
+/** Events returned per read */
+const EVENT_BATCH_SIZE = 100;
+
+/**
+ * Record an event for a user.
+ *
+ * @param userId - User whose tabs receive the event
+ * @param type - Event type
+ * @param data - Event payload
+ */
+export async function publishEvent<T extends AppEventType>(
+  userId: string,
+  type: T,
+  data: AppEventDataMap[T]
+): Promise<void> {
+  await db.userEvent.create({
+    data: { userId, type, data: JSON.stringify(data) },
+  });
+}
+
+/**
+ * Record an event for a change that has already been saved. A lost event
+ * only delays other tabs until their next reload, so a failure is logged
+ * instead of failing the change.
+ *
+ * @param userId - User whose tabs receive the event
+ * @param type - Event type
+ * @param data - Event payload
+ */
+export async function publishEventSafely<T extends AppEventType>(
+  userId: string,
+  type: T,
+  data: AppEventDataMap[T]
+): Promise<void> {
+  try {
+    await publishEvent(userId, type, data);
+  } catch (error) {
+    logger.warn(
+      'Event not published',
+      { userId, type },
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Get the events of a user after an event ID, oldest first.
+ *
+ * @param userId - User ID
+ * @param afterId - Last event ID the client has seen
+ * @param limit - Most events to return
+ */
+export async function getEventsAfter(
+  userId: string,
+  afterId: number,
+  limit = EVENT_BATCH_SIZE
+): Promise<AppEvent[]> {
+  const events = await db.userEvent.findMany({
+    where: { userId, id: { gt: afterId } },
+    orderBy: { id: 'asc' },
+    take: limit,
+  });
+
+  return events.map((event) => ({
+    id: event.id,
+    type: event.type as AppEventType,
+    data: JSON.parse(event.data),
+    createdAt: event.createdAt,
+  }));
+}
+
+/**
+ * Get the ID of the latest event of a user, or 0 if there is none.
+ */
+export async function getLatestEventId(userId: string): Promise<number> {
+  const latest = await db.userEvent.findFirst({
+    where: { userId },
+    orderBy: { id: 'desc' },
+    select: { id: true },
+  });
+
+  return latest?.id ?? 0;
+}
+
+/**
+ * Delete events recorded before a time.
+ *
+ * @returns Number of events deleted
+ */
+export async function pruneEvents(before: Date): Promise<number> {
+  const { count } = await db.userEvent.deleteMany({ where: { createdAt: { lt: before } } });
+  return count;
+}
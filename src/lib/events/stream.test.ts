@@ -0,0 +1,137 @@
+/**
+ * Event Stream Tests
+ *
+ * Tests for formatting, resuming and closing Server-Sent Events streams.
+ *
+ * @jest-environment node
+ */
+
+import { getEventsAfter, getLatestEventId } from './service';
+import { createEventStream, formatServerSentEvent } from './stream';
+import type { AppEvent } from './types';
+import { parseLastEventId } from './utils';
+
+jest.mock('./service', () => ({
+  getEventsAfter: jest.fn(),
+  getLatestEventId: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('Event Stream', () => {
+  const userId = 'user-1';
+  const decoder = new TextDecoder();
+
+  const makeEvent = (id: number, taskId: string): AppEvent => ({
+    id,
+    type: 'task.updated',
+    data: { taskIds: [taskId] },
+    createdAt: new Date('2026-05-01T09:00:00Z'),
+  });
+
+  /**
+   * Read from a stream until the text contains a marker.
+   */
+  async function readUntil(reader: ReadableStreamDefaultReader<Uint8Array>, marker: string) {
+    let text = '';
+    while (!text.includes(marker)) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+    }
+    return text;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getEventsAfter as jest.Mock).mockReset().mockResolvedValue([]);
+    (getLatestEventId as jest.Mock).mockReset().mockResolvedValue(41);
+  });
+
+  describe('formatServerSentEvent', () => {
+    it('should write the ID, type and JSON data', () => {
+      expect(formatServerSentEvent(makeEvent(7, 'task-1'))).toBe(
+        'id: 7\nevent: task.updated\ndata: {"taskIds":["task-1"]}\n\n'
+      );
+    });
+  });
+
+  describe('parseLastEventId', () => {
+    it('should accept non-negative integers only', () => {
+      expect(parseLastEventId('42')).toBe(42);
+      expect(parseLastEventId(' 0 ')).toBe(0);
+      expect(parseLastEventId('-1')).toBeNull();
+      expect(parseLastEventId('abc')).toBeNull();
+      expect(parseLastEventId(null)).toBeNull();
+      expect(parseLastEventId('99999999999999999999')).toBeNull();
+    });
+  });
+
+  describe('createEventStream', () => {
+    it('should start after the latest event and stream new ones', async () => {
+      (getEventsAfter as jest.Mock)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([makeEvent(42, 'task-1'), makeEvent(43, 'task-2')])
+        .mockResolvedValue([]);
+
+      const controller = new AbortController();
+      const reader = createEventStream(userId, {
+        signal: controller.signal,
+        pollIntervalMs: 5,
+      }).getReader();
+
+      const text = await readUntil(reader, 'id: 43');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      controller.abort();
+      await readUntil(reader, '\0');
+
+      expect(text.startsWith('retry: 3000\n\n')).toBe(true);
+      expect(text).toContain('id: 42\nevent: task.updated');
+      expect(getEventsAfter).toHaveBeenNthCalledWith(1, userId, 41);
+      expect(getEventsAfter).toHaveBeenNthCalledWith(2, userId, 41);
+      expect(getEventsAfter).toHaveBeenLastCalledWith(userId, 43);
+    });
+
+    it('should resume after the last event ID without looking up the latest', async () => {
+      const controller = new AbortController();
+      const reader = createEventStream(userId, {
+        lastEventId: 10,
+        signal: controller.signal,
+        pollIntervalMs: 5,
+      }).getReader();
+
+      await reader.read();
+      controller.abort();
+      await readUntil(reader, '\0');
+
+      expect(getLatestEventId).not.toHaveBeenCalled();
+      expect(getEventsAfter).toHaveBeenCalledWith(userId, 10);
+    });
+
+    it('should send a heartbeat when idle', async () => {
+      const controller = new AbortController();
+      const reader = createEventStream(userId, {
+        signal: controller.signal,
+        pollIntervalMs: 5,
+        heartbeatMs: 20,
+      }).getReader();
+
+      const text = await readUntil(reader, ': heartbeat');
+      controller.abort();
+
+      expect(text).toContain(': heartbeat\n\n');
+    });
+
+    it('should close the stream when reading events fails', async () => {
+      (getEventsAfter as jest.Mock).mockRejectedValue(new Error('Database is locked'));
+
+      const reader = createEventStream(userId, { pollIntervalMs: 5 }).getReader();
+      const text = await readUntil(reader, '\0');
+
+      expect(text).toBe('retry: 3000\n\n');
+      expect((await reader.read()).done).toBe(true);
+    });
+  });
+});
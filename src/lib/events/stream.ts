@@ -0,0 +1,117 @@
+/**
+ * Event Stream
+ *
+ * Server-Sent Events stream of a user's change feed. The stream checks the
+ * feed for new events twice a second and writes each one with its ID, so a
+ * reconnecting browser sends `Last-Event-ID` and continues where it left off.
+ */
+
+import { logger } from '@/lib/logger';
+import { getEventsAfter, getLatestEventId } from './service';
+import type { AppEvent } from './types';
+import { EVENT_HEARTBEAT_MS, EVENT_POLL_INTERVAL_MS, EVENT_RETRY_MS } from './utils';
+
+export interface EventStreamOptions {
+  /** Resume after this event; without it only new events are sent */
+  lastEventId?: number | null;
+  /** Closes the stream when aborted, e.g. the request signal */
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+  heartbeatMs?: number;
+}
+
+/**
+ * Format an event in the `text/event-stream` format.
+ */
+export function formatServerSentEvent(event: AppEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Create the event stream of a user.
+ */
+export function createEventStream(
+  userId: string,
+  options: EventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const pollIntervalMs = options.pollIntervalMs ?? EVENT_POLL_INTERVAL_MS;
+  const heartbeatMs = options.heartbeatMs ?? EVENT_HEARTBEAT_MS;
+  const encoder = new TextEncoder();
+
+  let closed = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stop = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastWrite = Date.now();
+      const write = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastWrite = Date.now();
+      };
+
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+        options.signal?.removeEventListener('abort', stop);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the consumer
+        }
+      };
+
+      if (options.signal?.aborted) {
+        stop();
+        return;
+      }
+      options.signal?.addEventListener('abort', stop);
+
+      write(`retry: ${EVENT_RETRY_MS}\n\n`);
+
+      let cursor: number;
+      try {
+        cursor = options.lastEventId ?? (await getLatestEventId(userId));
+      } catch (error) {
+        logger.error('Event stream error', error instanceof Error ? error : undefined, { userId });
+        stop();
+        return;
+      }
+
+      const poll = async () => {
+        try {
+          const events = await getEventsAfter(userId, cursor);
+          if (closed) return;
+
+          for (const event of events) {
+            write(formatServerSentEvent(event));
+            cursor = event.id;
+          }
+          if (Date.now() - lastWrite >= heartbeatMs) {
+            write(': heartbeat\n\n');
+          }
+        } catch (error) {
+          // The browser reconnects and resumes from the last event it received
+          logger.error('Event stream error', error instanceof Error ? error : undefined, {
+            userId,
+          });
+          stop();
+          return;
+        }
+
+        if (!closed) {
+          timer = setTimeout(poll, pollIntervalMs);
+        }
+      };
+
+      await poll();
+    },
+
+    cancel() {
+      stop();
+    },
+  });
+}
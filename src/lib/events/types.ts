@@ -0,0 +1,65 @@
+/**
+ * Event Type Definitions
+ *
+ * Events streamed to the open tabs of a user.
+ */
+
+import type { ReminderDto } from '@/lib/reminders/types';
+
+/**
+ * A reminder was delivered and should be shown now.
+ */
+export interface ReminderFiredEventData {
+  reminder: ReminderDto;
+  taskTitle: string;
+  taskDueDate: Date | null;
+}
+
+/**
+ * Tasks were created, changed or moved to the trash.
+ */
+export interface TaskEventData {
+  taskIds: string[];
+}
+
+/**
+ * Lists were created, changed or moved to the trash.
+ */
+export interface ListEventData {
+  listIds: string[];
+}
+
+/**
+ * Payload of each event type.
+ */
+export interface AppEventDataMap {
+  'reminder.fired': ReminderFiredEventData;
+  'task.created': TaskEventData;
+  'task.updated': TaskEventData;
+  'task.deleted': TaskEventData;
+  'list.created': ListEventData;
+  'list.updated': ListEventData;
+  'list.deleted': ListEventData;
+}
+
+export type AppEventType = keyof AppEventDataMap;
+
+export const APP_EVENT_TYPES: AppEventType[] = [
+  'reminder.fired',
+  'task.created',
+  'task.updated',
+  'task.deleted',
+  'list.created',
+  'list.updated',
+  'list.deleted',
+];
+
+/**
+ * Event DTO. IDs increase, so a client resumes after the last ID it saw.
+ */
+export interface AppEvent<T extends AppEventType = AppEventType> {
+  id: number;
+  type: T;
+  data: AppEventDataMap[T];
+  createdAt: Date;
+}
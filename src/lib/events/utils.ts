@@ -0,0 +1,30 @@
+/**
+ * Event Utilities
+ *
+ * Stream settings and Last-Event-ID parsing.
+ */
+
+/** How often an open stream checks for new events */
+export const EVENT_POLL_INTERVAL_MS = 500;
+
+/** Idle time after which a comment is sent to keep proxies from closing the stream */
+export const EVENT_HEARTBEAT_MS = 15 * 1000;
+
+/** Reconnection delay suggested to the browser */
+export const EVENT_RETRY_MS = 3000;
+
+/** How long events are kept for clients to resume from */
+export const EVENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a Last-Event-ID header or query value.
+ *
+ * @returns The event ID, or null if missing or malformed
+ */
+export function parseLastEventId(value: string | null | undefined): number | null {
+  if (!value || !/^\d+$/.test(value.trim())) {
+    return null;
+  }
+  const id = Number(value.trim());
+  return Number.isSafeInteger(id) ? id : null;
+}
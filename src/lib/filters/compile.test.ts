@@ -0,0 +1,76 @@
+/**
+ * Filter Query Compiler Tests
+ *
+ * Tests for compiling filter queries into Prisma where clauses.
+ */
+
+import { compileFilterQuery } from './compile';
+import { parseFilterQuery } from './query';
+
+// Wednesday, June 11 2025, 10:00 local time
+const now = new Date(2025, 5, 11, 10, 0);
+
+function compile(input: string) {
+  return compileFilterQuery(parseFilterQuery(input), { now });
+}
+
+describe('compileFilterQuery', () => {
+  it('should match everything for an empty query', () => {
+    expect(compileFilterQuery(null)).toEqual({});
+  });
+
+  it('should compile the full example query', () => {
+    expect(
+      compile('priority:high AND (tag:work OR list:Inbox) AND due:<7d AND NOT status:done')
+    ).toEqual({
+      AND: [
+        { priority: 'HIGH' },
+        {
+          OR: [{ tags: { some: { tag: { name: 'work' } } } }, { list: { title: 'Inbox' } }],
+        },
+        { dueDate: { lt: new Date(2025, 5, 18) } },
+        { NOT: { status: 'DONE' } },
+      ],
+    });
+  });
+
+  it('should compile priority comparisons', () => {
+    expect(compile('priority:>=medium')).toEqual({ priority: { in: ['MEDIUM', 'HIGH'] } });
+    expect(compile('priority:<low')).toEqual({ priority: { in: ['NONE'] } });
+  });
+
+  it('should compile dates by whole day', () => {
+    expect(compile('due:today')).toEqual({
+      dueDate: { gte: new Date(2025, 5, 11), lt: new Date(2025, 5, 12) },
+    });
+    expect(compile('due:<=tomorrow')).toEqual({ dueDate: { lt: new Date(2025, 5, 13) } });
+    expect(compile('created:>2025-06-01')).toEqual({
+      createdAt: { gte: new Date(2025, 5, 2) },
+    });
+    expect(compile('start:>=-1w')).toEqual({ startDate: { gte: new Date(2025, 5, 4) } });
+  });
+
+  it('should compile set and unset dates', () => {
+    expect(compile('due:none')).toEqual({ dueDate: null });
+    expect(compile('completed:any')).toEqual({ completedAt: { not: null } });
+  });
+
+  it('should compile property tests', () => {
+    expect(compile('has:goal')).toEqual({ goalId: { not: null } });
+    expect(compile('NOT has:tags')).toEqual({ NOT: { tags: { some: {} } } });
+  });
+
+  it('should compile title and text search', () => {
+    expect(compile('title:report "weekly review"')).toEqual({
+      AND: [
+        { title: { contains: 'report' } },
+        {
+          OR: [
+            { title: { contains: 'weekly review' } },
+            { description: { contains: 'weekly review' } },
+          ],
+        },
+      ],
+    });
+  });
+});
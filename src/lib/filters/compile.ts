@@ -0,0 +1,156 @@
+/**
+ * Filter Query Compiler
+ *
+ * Converts parsed filter queries into Prisma task where clauses.
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { Priority } from '@/lib/tasks/types';
+import type { FilterDateValue, FilterNode, FilterOperator, FilterProperty } from './types';
+
+export interface CompileFilterOptions {
+  /** Reference time for relative dates (default: now) */
+  now?: Date;
+}
+
+type TermNode = Extract<FilterNode, { type: 'term' }>;
+
+const DATE_COLUMNS = {
+  due: 'dueDate',
+  start: 'startDate',
+  completed: 'completedAt',
+  created: 'createdAt',
+} as const;
+
+const PROPERTY_FILTERS: Record<FilterProperty, Prisma.TaskWhereInput> = {
+  goal: { goalId: { not: null } },
+  tags: { tags: { some: {} } },
+  due: { dueDate: { not: null } },
+  start: { startDate: { not: null } },
+};
+
+const PRIORITY_ORDER: Priority[] = ['NONE', 'LOW', 'MEDIUM', 'HIGH'];
+
+function compare(a: number, b: number, operator: FilterOperator): boolean {
+  switch (operator) {
+    case '=':
+      return a === b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+/**
+ * Start of the day a date value refers to.
+ */
+function getDay(
+  date: Extract<FilterDateValue, { kind: 'relative' | 'absolute' }>,
+  now: Date
+): Date {
+  if (date.kind === 'absolute') {
+    return new Date(date.year, date.month - 1, date.day);
+  }
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + date.days);
+}
+
+/**
+ * Build a date filter. Dates match by whole day: `due:<tomorrow` means before
+ * the start of tomorrow, `due:<=tomorrow` includes all of tomorrow.
+ */
+function compileDate(date: FilterDateValue, operator: FilterOperator, now: Date) {
+  if (date.kind === 'none') return null;
+  if (date.kind === 'any') return { not: null };
+
+  const start = getDay(date, now);
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+
+  switch (operator) {
+    case '=':
+      return { gte: start, lt: end };
+    case '<':
+      return { lt: start };
+    case '<=':
+      return { lt: end };
+    case '>':
+      return { gte: end };
+    case '>=':
+      return { gte: start };
+  }
+}
+
+function compileTerm(term: TermNode, now: Date): Prisma.TaskWhereInput {
+  const { field, operator, value } = term;
+
+  switch (value.kind) {
+    case 'status':
+      return { status: value.status };
+    case 'priority': {
+      if (operator === '=') {
+        return { priority: value.priority };
+      }
+      const rank = PRIORITY_ORDER.indexOf(value.priority);
+      return {
+        priority: {
+          in: PRIORITY_ORDER.filter((_, index) => compare(index, rank, operator)),
+        },
+      };
+    }
+    case 'text':
+      if (field === 'tag') {
+        return { tags: { some: { tag: { name: value.text } } } };
+      }
+      if (field === 'list') {
+        return { list: { title: value.text } };
+      }
+      return { title: { contains: value.text } };
+    case 'date':
+      return {
+        [DATE_COLUMNS[field as keyof typeof DATE_COLUMNS]]: compileDate(value.date, operator, now),
+      } as Prisma.TaskWhereInput;
+    case 'has':
+      return PROPERTY_FILTERS[value.property];
+  }
+}
+
+function compileNode(node: FilterNode, now: Date): Prisma.TaskWhereInput {
+  switch (node.type) {
+    case 'and':
+      return { AND: node.children.map((child) => compileNode(child, now)) };
+    case 'or':
+      return { OR: node.children.map((child) => compileNode(child, now)) };
+    case 'not':
+      return { NOT: compileNode(node.child, now) };
+    case 'text':
+      return {
+        OR: [{ title: { contains: node.text } }, { description: { contains: node.text } }],
+      };
+    case 'term':
+      return compileTerm(node, now);
+  }
+}
+
+/**
+ * Compile a parsed filter query into a Prisma where clause.
+ *
+ * Tag and list names match exactly; title and text search match substrings.
+ * Relative dates are resolved against the server's local day.
+ *
+ * @param node - Root node from parseFilterQuery (null matches everything)
+ * @param options - Reference time for relative dates
+ * @returns Where clause for task queries
+ */
+export function compileFilterQuery(
+  node: FilterNode | null,
+  options: CompileFilterOptions = {}
+): Prisma.TaskWhereInput {
+  if (!node) {
+    return {};
+  }
+  return compileNode(node, options.now ?? new Date());
+}
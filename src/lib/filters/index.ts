@@ -3,3 +3,7 @@
  */
 
 export * from './types';
+export * from './schemas';
+export * from './query';
+export * from './compile';
+export * from './service';
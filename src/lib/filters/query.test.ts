@@ -0,0 +1,180 @@
+/**
+ * Filter Query Parser Tests
+ *
+ * Tests for parsing filter query language expressions.
+ */
+
+import { parseFilterQuery, quoteFilterValue, FilterQueryError } from './query';
+
+function parseError(input: string): FilterQueryError {
+  try {
+    parseFilterQuery(input);
+  } catch (error) {
+    if (error instanceof FilterQueryError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${input}" to fail`);
+}
+
+describe('parseFilterQuery', () => {
+  it('should return null for an empty query', () => {
+    expect(parseFilterQuery('')).toBeNull();
+    expect(parseFilterQuery('   ')).toBeNull();
+  });
+
+  it('should parse a single term', () => {
+    expect(parseFilterQuery('priority:high')).toEqual({
+      type: 'term',
+      field: 'priority',
+      operator: '=',
+      value: { kind: 'priority', priority: 'HIGH' },
+      start: 0,
+      end: 13,
+    });
+  });
+
+  it('should give AND precedence over OR', () => {
+    const node = parseFilterQuery('tag:a OR tag:b AND tag:c');
+    expect(node?.type).toBe('or');
+    if (node?.type !== 'or') return;
+    expect(node.children[0]).toMatchObject({ type: 'term', field: 'tag' });
+    expect(node.children[1]).toMatchObject({ type: 'and' });
+  });
+
+  it('should parse the full example query', () => {
+    const node = parseFilterQuery(
+      'priority:high AND (tag:work OR list:Inbox) AND due:<7d AND NOT status:done'
+    );
+    expect(node).toMatchObject({
+      type: 'and',
+      children: [
+        { type: 'term', field: 'priority' },
+        {
+          type: 'or',
+          children: [
+            { field: 'tag', value: { kind: 'text', text: 'work' } },
+            { field: 'list', value: { kind: 'text', text: 'Inbox' } },
+          ],
+        },
+        {
+          field: 'due',
+          operator: '<',
+          value: { kind: 'date', date: { kind: 'relative', days: 7 } },
+        },
+        { type: 'not', child: { field: 'status', value: { kind: 'status', status: 'DONE' } } },
+      ],
+    });
+  });
+
+  it('should AND adjacent terms and accept lowercase keywords', () => {
+    expect(parseFilterQuery('tag:a not tag:b')).toMatchObject({
+      type: 'and',
+      children: [{ field: 'tag' }, { type: 'not' }],
+    });
+  });
+
+  it('should parse quoted values and bare text', () => {
+    expect(parseFilterQuery('list:"Deep Work" "weekly review" groceries')).toMatchObject({
+      type: 'and',
+      children: [
+        { field: 'list', value: { text: 'Deep Work' } },
+        { type: 'text', text: 'weekly review' },
+        { type: 'text', text: 'groceries' },
+      ],
+    });
+  });
+
+  it('should parse date values', () => {
+    const date = (input: string) => {
+      const node = parseFilterQuery(input);
+      return node?.type === 'term' && node.value.kind === 'date' ? node.value.date : null;
+    };
+    expect(date('due:today')).toEqual({ kind: 'relative', days: 0 });
+    expect(date('due:-2w')).toEqual({ kind: 'relative', days: -14 });
+    expect(date('start:>=2025-06-30')).toEqual({
+      kind: 'absolute',
+      year: 2025,
+      month: 6,
+      day: 30,
+    });
+    expect(date('completed:none')).toEqual({ kind: 'none' });
+  });
+
+  it('should parse property tests', () => {
+    expect(parseFilterQuery('NOT has:tags')).toEqual({
+      type: 'not',
+      child: {
+        type: 'term',
+        field: 'has',
+        operator: '=',
+        value: { kind: 'has', property: 'tags' },
+        start: 4,
+        end: 12,
+      },
+    });
+  });
+
+  it('should accept value aliases case-insensitively', () => {
+    expect(parseFilterQuery('Status:In-Progress')).toMatchObject({
+      field: 'status',
+      value: { status: 'IN_PROGRESS' },
+    });
+    expect(parseFilterQuery('priority:>=MED')).toMatchObject({
+      operator: '>=',
+      value: { priority: 'MEDIUM' },
+    });
+  });
+
+  describe('errors', () => {
+    it('should report unknown fields', () => {
+      const error = parseError('tag:work AND color:red');
+      expect(error.message).toBe('Unknown field "color"');
+      expect([error.start, error.end]).toEqual([13, 19]);
+    });
+
+    it('should report invalid values', () => {
+      const error = parseError('priority:urgent');
+      expect(error.message).toBe('Invalid priority value "urgent"');
+      expect([error.start, error.end]).toEqual([9, 15]);
+      expect(parseError('due:2025-02-30').message).toBe('Invalid due value "2025-02-30"');
+      expect(parseError('created:none').message).toBe('Invalid created value "none"');
+      expect(parseError('has:color').message).toBe('Invalid has value "color"');
+    });
+
+    it('should report unsupported operators', () => {
+      const error = parseError('status:<done');
+      expect(error.message).toBe('Operator "<" is not supported for status:done');
+      expect([error.start, error.end]).toEqual([7, 8]);
+    });
+
+    it('should report missing values and quotes', () => {
+      expect(parseError('tag:').message).toBe('Missing value for tag');
+      const error = parseError('list:"Deep Work');
+      expect(error.message).toBe('Missing closing quote');
+      expect(error.start).toBe(5);
+    });
+
+    it('should report unbalanced parentheses', () => {
+      const missing = parseError('tag:a AND (tag:b OR tag:c');
+      expect(missing.message).toBe('Missing closing parenthesis');
+      expect(missing.start).toBe(10);
+
+      const extra = parseError('tag:a)');
+      expect(extra.message).toBe('Unexpected ")"');
+      expect(extra.start).toBe(5);
+    });
+
+    it('should report dangling operators', () => {
+      expect(parseError('tag:a AND').message).toBe('Unexpected end of query');
+      expect(parseError('OR tag:a').message).toBe('Unexpected "OR"');
+    });
+  });
+});
+
+describe('quoteFilterValue', () => {
+  it('should quote values with spaces or parentheses', () => {
+    expect(quoteFilterValue('Inbox')).toBe('Inbox');
+    expect(quoteFilterValue('Deep Work')).toBe('"Deep Work"');
+    expect(quoteFilterValue('a(b)')).toBe('"a(b)"');
+  });
+});
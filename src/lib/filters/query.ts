@@ -0,0 +1,398 @@
+/**
+ * Filter Query Language
+ *
+ * Parses filter expressions such as
+ * `priority:high AND (tag:work OR list:Inbox) AND due:<7d AND NOT status:done`.
+ *
+ * Grammar (keywords are case-insensitive):
+ *   query   := or
+ *   or      := and ("OR" and)*
+ *   and     := unary ("AND"? unary)*
+ *   unary   := "NOT" unary | primary
+ *   primary := "(" query ")" | field ":" operator? value | text
+ *
+ * Adjacent terms are AND-ed. Values containing spaces are quoted
+ * (`list:"Deep Work"`). Bare words and quoted phrases search the title and
+ * description.
+ */
+
+import type { Priority, TaskStatus } from '@/lib/tasks/types';
+import type {
+  FilterDateValue,
+  FilterField,
+  FilterNode,
+  FilterOperator,
+  FilterProperty,
+  FilterValue,
+} from './types';
+
+/**
+ * Error in a filter query, with the offsets of the invalid input.
+ */
+export class FilterQueryError extends Error {
+  /** Offset of the first invalid character */
+  readonly start: number;
+  /** Offset just past the invalid input */
+  readonly end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = 'FilterQueryError';
+    this.start = start;
+    this.end = end;
+  }
+}
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; start: number; end: number }
+  | { type: 'text'; text: string; start: number; end: number }
+  | {
+      type: 'term';
+      field: string;
+      operator: FilterOperator;
+      operatorStart: number;
+      value: string;
+      valueStart: number;
+      start: number;
+      end: number;
+    };
+
+const FIELD_KINDS: Record<FilterField, FilterValue['kind']> = {
+  status: 'status',
+  priority: 'priority',
+  tag: 'text',
+  list: 'text',
+  title: 'text',
+  due: 'date',
+  start: 'date',
+  completed: 'date',
+  created: 'date',
+  has: 'has',
+};
+
+const STATUS_VALUES: Record<string, TaskStatus> = {
+  todo: 'TODO',
+  in_progress: 'IN_PROGRESS',
+  'in-progress': 'IN_PROGRESS',
+  inprogress: 'IN_PROGRESS',
+  done: 'DONE',
+  cancelled: 'CANCELLED',
+  canceled: 'CANCELLED',
+};
+
+const PRIORITY_VALUES: Record<string, Priority> = {
+  none: 'NONE',
+  low: 'LOW',
+  medium: 'MEDIUM',
+  med: 'MEDIUM',
+  high: 'HIGH',
+};
+
+const PROPERTIES: FilterProperty[] = ['goal', 'tags', 'due', 'start'];
+
+const RELATIVE_DAYS: Record<string, number> = {
+  yesterday: -1,
+  today: 0,
+  tomorrow: 1,
+};
+
+// Longest first, so `<=` is not read as `<`
+const OPERATORS: FilterOperator[] = ['<=', '>=', '<', '>', '='];
+
+const FIELD_PATTERN = /([a-z]+):/iy;
+const OFFSET_PATTERN = /^([+-]?\d{1,4})([dw])$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function isBreak(char: string): boolean {
+  return /\s/.test(char) || char === '(' || char === ')';
+}
+
+/**
+ * Find the end of a bare word starting at `start`.
+ */
+function readWord(input: string, start: number): number {
+  let end = start;
+  while (end < input.length && !isBreak(input[end])) end++;
+  return end;
+}
+
+/**
+ * Read a quoted string whose opening quote is at `start`.
+ */
+function readQuoted(input: string, start: number): { text: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new FilterQueryError('Missing closing quote', start, input.length);
+  }
+  return { text: input.slice(start + 1, close), end: close + 1 };
+}
+
+/**
+ * Read a `field:value` term starting at `start`.
+ */
+function readTerm(input: string, start: number, field: string): Token {
+  const operatorStart = start + field.length + 1;
+  const explicit = OPERATORS.find((op) => input.startsWith(op, operatorStart));
+  const valueStart = operatorStart + (explicit?.length ?? 0);
+
+  let value: string;
+  let end: number;
+  if (input[valueStart] === '"') {
+    ({ text: value, end } = readQuoted(input, valueStart));
+  } else {
+    end = readWord(input, valueStart);
+    value = input.slice(valueStart, end);
+  }
+
+  if (!value) {
+    throw new FilterQueryError(`Missing value for ${field}`, start, end);
+  }
+
+  return {
+    type: 'term',
+    field,
+    operator: explicit ?? '=',
+    operatorStart,
+    value,
+    valueStart,
+    start,
+    end,
+  };
+}
+
+/**
+ * Split a filter query into tokens.
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: index, end: index + 1 });
+      index++;
+      continue;
+    }
+
+    if (char === '"') {
+      const { text, end } = readQuoted(input, index);
+      tokens.push({ type: 'text', text, start: index, end });
+      index = end;
+      continue;
+    }
+
+    FIELD_PATTERN.lastIndex = index;
+    const field = FIELD_PATTERN.exec(input);
+    if (field) {
+      const token = readTerm(input, index, field[1]);
+      tokens.push(token);
+      index = token.end;
+      continue;
+    }
+
+    const end = readWord(input, index);
+    const word = input.slice(index, end);
+    const keyword = word.toLowerCase();
+    if (keyword === 'and' || keyword === 'or' || keyword === 'not') {
+      tokens.push({ type: keyword, start: index, end });
+    } else {
+      tokens.push({ type: 'text', text: word, start: index, end });
+    }
+    index = end;
+  }
+
+  return tokens;
+}
+
+function isFilterField(field: string): field is FilterField {
+  return Object.prototype.hasOwnProperty.call(FIELD_KINDS, field);
+}
+
+function parseDateValue(value: string): FilterDateValue | null {
+  if (value === 'none' || value === 'any') {
+    return { kind: value };
+  }
+
+  if (value in RELATIVE_DAYS) {
+    return { kind: 'relative', days: RELATIVE_DAYS[value] };
+  }
+
+  const offset = OFFSET_PATTERN.exec(value);
+  if (offset) {
+    const amount = parseInt(offset[1], 10);
+    return { kind: 'relative', days: offset[2] === 'w' ? amount * 7 : amount };
+  }
+
+  const date = DATE_PATTERN.exec(value);
+  if (date) {
+    const [year, month, day] = date.slice(1).map((part) => parseInt(part, 10));
+    const check = new Date(year, month - 1, day);
+    if (check.getMonth() !== month - 1 || check.getDate() !== day) {
+      return null;
+    }
+    return { kind: 'absolute', year, month, day };
+  }
+
+  return null;
+}
+
+function parseValue(kind: FilterValue['kind'], raw: string): FilterValue | null {
+  const value = raw.toLowerCase();
+
+  switch (kind) {
+    case 'status':
+      return value in STATUS_VALUES ? { kind, status: STATUS_VALUES[value] } : null;
+    case 'priority':
+      return value in PRIORITY_VALUES ? { kind, priority: PRIORITY_VALUES[value] } : null;
+    case 'text':
+      return { kind, text: raw };
+    case 'date': {
+      const date = parseDateValue(value);
+      return date ? { kind, date } : null;
+    }
+    case 'has': {
+      const property = PROPERTIES.find((p) => p === value);
+      return property ? { kind, property } : null;
+    }
+  }
+}
+
+/**
+ * Whether a value can be used with `<`, `<=`, `>` and `>=`.
+ */
+function isOrdered(value: FilterValue): boolean {
+  if (value.kind === 'date') {
+    return value.date.kind === 'relative' || value.date.kind === 'absolute';
+  }
+  return value.kind === 'priority';
+}
+
+function parseTerm(token: Extract<Token, { type: 'term' }>): FilterNode {
+  const field = token.field.toLowerCase();
+  if (!isFilterField(field)) {
+    throw new FilterQueryError(`Unknown field "${token.field}"`, token.start, token.operatorStart);
+  }
+
+  const value = parseValue(FIELD_KINDS[field], token.value);
+  const unset = value?.kind === 'date' && value.date.kind === 'none';
+  if (!value || (field === 'created' && unset)) {
+    throw new FilterQueryError(
+      `Invalid ${field} value "${token.value}"`,
+      token.valueStart,
+      token.end
+    );
+  }
+
+  if (token.operator !== '=' && !isOrdered(value)) {
+    throw new FilterQueryError(
+      `Operator "${token.operator}" is not supported for ${field}:${token.value}`,
+      token.operatorStart,
+      token.valueStart
+    );
+  }
+
+  return {
+    type: 'term',
+    field,
+    operator: token.operator,
+    value,
+    start: token.start,
+    end: token.end,
+  };
+}
+
+/**
+ * Parse a filter query.
+ *
+ * @param input - Query text, e.g. `tag:work AND NOT status:done`
+ * @returns Root node, or null if the query is empty
+ * @throws FilterQueryError with the position of the invalid input
+ */
+export function parseFilterQuery(input: string): FilterNode | null {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let index = 0;
+
+  const unexpected = (token: Token) =>
+    new FilterQueryError(
+      `Unexpected "${input.slice(token.start, token.end)}"`,
+      token.start,
+      token.end
+    );
+
+  function parseOr(): FilterNode {
+    const children = [parseAnd()];
+    while (tokens[index]?.type === 'or') {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  function parseAnd(): FilterNode {
+    const children = [parseUnary()];
+    for (;;) {
+      const token = tokens[index];
+      if (!token || token.type === 'or' || token.type === 'rparen') break;
+      if (token.type === 'and') index++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  function parseUnary(): FilterNode {
+    if (tokens[index]?.type === 'not') {
+      index++;
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): FilterNode {
+    const token = tokens[index];
+    if (!token) {
+      throw new FilterQueryError('Unexpected end of query', input.length, input.length);
+    }
+    index++;
+
+    switch (token.type) {
+      case 'lparen': {
+        const node = parseOr();
+        if (tokens[index]?.type !== 'rparen') {
+          throw new FilterQueryError('Missing closing parenthesis', token.start, token.end);
+        }
+        index++;
+        return node;
+      }
+      case 'term':
+        return parseTerm(token);
+      case 'text':
+        return { type: 'text', text: token.text, start: token.start, end: token.end };
+      default:
+        throw unexpected(token);
+    }
+  }
+
+  const root = parseOr();
+  if (index < tokens.length) {
+    throw unexpected(tokens[index]);
+  }
+  return root;
+}
+
+/**
+ * Quote a filter value if it would not survive as a bare word.
+ */
+export function quoteFilterValue(value: string): string {
+  return value === '' || /[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
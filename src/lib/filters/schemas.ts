@@ -0,0 +1,103 @@
+/**
+ * Saved Filter Validation Schemas
+ *
+ * Zod schemas for validating saved filter API requests.
+ */
+
+import { z } from 'zod';
+import { TaskStatusEnum, PriorityEnum } from '@/lib/tasks/schemas';
+import { parseFilterQuery, FilterQueryError } from './query';
+
+const DateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}/, 'Invalid date');
+
+/**
+ * Schema for saved filter criteria.
+ * Filter queries are parsed so invalid queries are rejected with their position.
+ */
+export const SavedFilterCriteriaSchema = z.object({
+  status: z.union([TaskStatusEnum, z.array(TaskStatusEnum)]).optional(),
+  priority: z.union([PriorityEnum, z.array(PriorityEnum)]).optional(),
+  listId: z.string().cuid().optional(),
+  tagIds: z.array(z.string().cuid()).max(50).optional(),
+  dueDateFrom: DateStringSchema.optional(),
+  dueDateTo: DateStringSchema.optional(),
+  search: z.string().max(200).optional(),
+  query: z
+    .string()
+    .max(1000)
+    .superRefine((query, ctx) => {
+      try {
+        parseFilterQuery(query);
+      } catch (error) {
+        if (!(error instanceof FilterQueryError)) throw error;
+        ctx.addIssue({
+          code: 'custom',
+          message: `${error.message} at position ${error.start + 1}`,
+        });
+      }
+    })
+    .optional(),
+});
+
+/**
+ * Schema for creating a new saved filter.
+ */
+export const CreateSavedFilterSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be at most 100 characters'),
+  filter: SavedFilterCriteriaSchema,
+  pinned: z.boolean().optional(),
+});
+
+/**
+ * Schema for updating an existing saved filter.
+ * All fields are optional for partial updates.
+ */
+export const UpdateSavedFilterSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  filter: SavedFilterCriteriaSchema.optional(),
+  pinned: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+});
+
+/**
+ * Schema for updating sort order of multiple saved filters.
+ */
+export const ReorderSavedFiltersSchema = z.object({
+  filterOrders: z
+    .array(
+      z.object({
+        id: z.string().cuid(),
+        sortOrder: z.number().int().min(0),
+      })
+    )
+    .min(1, 'At least one filter order is required'),
+});
+
+/**
+ * Schema for one filter imported from browser storage.
+ */
+export const ImportedSavedFilterSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  filter: SavedFilterCriteriaSchema,
+  createdAt: z.coerce.date().optional(),
+});
+
+/**
+ * Schema for importing filters previously stored in the browser.
+ * Items are validated individually so one stale filter doesn't block the rest.
+ */
+export const ImportSavedFiltersSchema = z.object({
+  filters: z.array(z.unknown()).max(100, 'At most 100 filters can be imported at once'),
+});
+
+/**
+ * Infer TypeScript types from schemas.
+ */
+export type CreateSavedFilterInput = z.infer<typeof CreateSavedFilterSchema>;
+export type UpdateSavedFilterInput = z.infer<typeof UpdateSavedFilterSchema>;
+export type ReorderSavedFiltersInput = z.infer<typeof ReorderSavedFiltersSchema>;
+export type ImportedSavedFilterInput = z.infer<typeof ImportedSavedFilterSchema>;
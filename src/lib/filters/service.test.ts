@@ -0,0 +1,179 @@
+/**
+ * Saved Filter Service Tests
+ *
+ * Tests for saved filter persistence, ordering and localStorage import.
+ */
+
+import {
+  getSavedFilters,
+  createSavedFilter,
+  updateSavedFilter,
+  deleteSavedFilter,
+  reorderSavedFilters,
+  importSavedFilters,
+} from './service';
+import { db } from '@/lib/db';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    savedFilter: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+describe('Saved Filter Service', () => {
+  const userId = 'user-123';
+
+  const mockFilter = {
+    id: 'filter-1',
+    name: 'Urgent work',
+    filter: JSON.stringify({ query: 'priority:high AND tag:work' }),
+    pinned: true,
+    sortOrder: 0,
+    createdAt: new Date('2025-06-01'),
+    updatedAt: new Date('2025-06-01'),
+    userId,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getSavedFilters', () => {
+    it('should return filters in sort order with parsed criteria', async () => {
+      (db.savedFilter.findMany as jest.Mock).mockResolvedValue([mockFilter]);
+
+      const filters = await getSavedFilters(userId);
+
+      expect(db.savedFilter.findMany).toHaveBeenCalledWith({
+        where: { userId },
+        orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+      });
+      expect(filters).toEqual([
+        {
+          id: 'filter-1',
+          name: 'Urgent work',
+          filter: { query: 'priority:high AND tag:work' },
+          pinned: true,
+          sortOrder: 0,
+          createdAt: mockFilter.createdAt,
+          updatedAt: mockFilter.updatedAt,
+        },
+      ]);
+    });
+
+    it('should treat unreadable criteria as an empty filter', async () => {
+      (db.savedFilter.findMany as jest.Mock).mockResolvedValue([
+        { ...mockFilter, filter: 'not json' },
+      ]);
+
+      const [filter] = await getSavedFilters(userId);
+
+      expect(filter.filter).toEqual({});
+    });
+  });
+
+  describe('createSavedFilter', () => {
+    it('should append the filter after existing ones', async () => {
+      (db.savedFilter.findFirst as jest.Mock).mockResolvedValue({ sortOrder: 4 });
+      (db.savedFilter.create as jest.Mock).mockResolvedValue({ ...mockFilter, sortOrder: 5 });
+
+      await createSavedFilter(userId, {
+        name: 'Urgent work',
+        filter: { priority: 'HIGH' },
+      });
+
+      expect(db.savedFilter.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Urgent work',
+          filter: '{"priority":"HIGH"}',
+          pinned: false,
+          sortOrder: 5,
+          user: { connect: { id: userId } },
+        },
+      });
+    });
+  });
+
+  describe('updateSavedFilter', () => {
+    it('should update only provided fields', async () => {
+      (db.savedFilter.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (db.savedFilter.findFirst as jest.Mock).mockResolvedValue({ ...mockFilter, pinned: false });
+
+      const result = await updateSavedFilter('filter-1', userId, { pinned: false });
+
+      expect(db.savedFilter.updateMany).toHaveBeenCalledWith({
+        where: { id: 'filter-1', userId },
+        data: { pinned: false },
+      });
+      expect(result?.pinned).toBe(false);
+    });
+
+    it('should return null when the filter is not found', async () => {
+      (db.savedFilter.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      expect(await updateSavedFilter('missing', userId, { name: 'x' })).toBeNull();
+    });
+  });
+
+  describe('deleteSavedFilter', () => {
+    it('should report whether a filter was deleted', async () => {
+      (db.savedFilter.deleteMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+      (db.savedFilter.deleteMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+      expect(await deleteSavedFilter('filter-1', userId)).toBe(true);
+      expect(await deleteSavedFilter('filter-1', userId)).toBe(false);
+    });
+  });
+
+  describe('reorderSavedFilters', () => {
+    it('should update each filter scoped to the user', async () => {
+      (db.savedFilter.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const count = await reorderSavedFilters(userId, [
+        { id: 'filter-2', sortOrder: 0 },
+        { id: 'filter-1', sortOrder: 1 },
+      ]);
+
+      expect(count).toBe(2);
+      expect(db.savedFilter.updateMany).toHaveBeenCalledWith({
+        where: { id: 'filter-2', userId },
+        data: { sortOrder: 0 },
+      });
+    });
+  });
+
+  describe('importSavedFilters', () => {
+    it('should skip names that already exist', async () => {
+      (db.savedFilter.findMany as jest.Mock).mockResolvedValue([{ name: 'Urgent work' }]);
+      (db.savedFilter.findFirst as jest.Mock).mockResolvedValue({ sortOrder: 0 });
+      (db.savedFilter.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ ...mockFilter, ...data, id: `filter-${data.sortOrder}` })
+      );
+      const createdAt = new Date('2025-01-01');
+
+      const imported = await importSavedFilters(userId, [
+        { name: 'Urgent work', filter: {} },
+        { name: 'Errands', filter: { search: 'shop' }, createdAt },
+        { name: 'Errands', filter: {} },
+      ]);
+
+      expect(imported).toHaveLength(1);
+      expect(db.savedFilter.create).toHaveBeenCalledTimes(1);
+      expect(db.savedFilter.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Errands',
+          filter: '{"search":"shop"}',
+          sortOrder: 1,
+          createdAt,
+          user: { connect: { id: userId } },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Saved Filter Service
+ *
+ * Business logic layer for saved filter CRUD operations.
+ * Filter criteria are stored as JSON in the database.
+ */
+
+import { db } from '@/lib/db';
+import { Prisma } from '@prisma/client';
+import type { SavedFilter as PrismaSavedFilter } from '@prisma/client';
+import type { SavedFilterCriteria, SavedFilterDto } from './types';
+import type {
+  CreateSavedFilterInput,
+  ImportedSavedFilterInput,
+  UpdateSavedFilterInput,
+} from './schemas';
+
+/**
+ * Parse stored filter criteria, treating unreadable values as an empty filter.
+ */
+function parseCriteria(value: string): SavedFilterCriteria {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? (parsed as SavedFilterCriteria) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Convert Prisma SavedFilter model to SavedFilter DTO.
+ */
+function toSavedFilterDto(filter: PrismaSavedFilter): SavedFilterDto {
+  return {
+    id: filter.id,
+    name: filter.name,
+    filter: parseCriteria(filter.filter),
+    pinned: filter.pinned,
+    sortOrder: filter.sortOrder,
+    createdAt: filter.createdAt,
+    updatedAt: filter.updatedAt,
+  };
+}
+
+/**
+ * Get the sort order after the user's last saved filter.
+ */
+async function getNextSortOrder(userId: string): Promise<number> {
+  const last = await db.savedFilter.findFirst({
+    where: { userId },
+    select: { sortOrder: true },
+    orderBy: { sortOrder: 'desc' },
+  });
+  return (last?.sortOrder ?? -1) + 1;
+}
+
+/**
+ * Get a user's saved filters in display order.
+ *
+ * @param userId - User ID to scope filters to
+ * @returns Saved filters ordered by sort order
+ */
+export async function getSavedFilters(userId: string): Promise<SavedFilterDto[]> {
+  const filters = await db.savedFilter.findMany({
+    where: { userId },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return filters.map(toSavedFilterDto);
+}
+
+/**
+ * Get a single saved filter by ID.
+ *
+ * @param filterId - Saved filter ID
+ * @param userId - User ID for authorization
+ * @returns Saved filter or null if not found
+ */
+export async function getSavedFilterById(
+  filterId: string,
+  userId: string
+): Promise<SavedFilterDto | null> {
+  const filter = await db.savedFilter.findFirst({
+    where: { id: filterId, userId },
+  });
+
+  return filter ? toSavedFilterDto(filter) : null;
+}
+
+/**
+ * Create a new saved filter at the end of the user's filters.
+ *
+ * @param userId - User ID creating the filter
+ * @param data - Filter creation data
+ * @returns Created saved filter
+ */
+export async function createSavedFilter(
+  userId: string,
+  data: CreateSavedFilterInput
+): Promise<SavedFilterDto> {
+  const filter = await db.savedFilter.create({
+    data: {
+      name: data.name,
+      filter: JSON.stringify(data.filter),
+      pinned: data.pinned ?? false,
+      sortOrder: await getNextSortOrder(userId),
+      user: { connect: { id: userId } },
+    },
+  });
+
+  return toSavedFilterDto(filter);
+}
+
+/**
+ * Update an existing saved filter.
+ *
+ * @param filterId - Saved filter ID to update
+ * @param userId - User ID for authorization
+ * @param data - Update data
+ * @returns Updated saved filter or null if not found
+ */
+export async function updateSavedFilter(
+  filterId: string,
+  userId: string,
+  data: UpdateSavedFilterInput
+): Promise<SavedFilterDto | null> {
+  const updateData: Prisma.SavedFilterUpdateManyMutationInput = {};
+
+  if (data.name !== undefined) {
+    updateData.name = data.name;
+  }
+  if (data.filter !== undefined) {
+    updateData.filter = JSON.stringify(data.filter);
+  }
+  if (data.pinned !== undefined) {
+    updateData.pinned = data.pinned;
+  }
+  if (data.sortOrder !== undefined) {
+    updateData.sortOrder = data.sortOrder;
+  }
+
+  const result = await db.savedFilter.updateMany({
+    where: { id: filterId, userId },
+    data: updateData,
+  });
+
+  if (result.count === 0) {
+    return null;
+  }
+
+  return getSavedFilterById(filterId, userId);
+}
+
+/**
+ * Delete a saved filter.
+ *
+ * @param filterId - Saved filter ID to delete
+ * @param userId - User ID for authorization
+ * @returns True if deleted, false if not found
+ */
+export async function deleteSavedFilter(filterId: string, userId: string): Promise<boolean> {
+  const result = await db.savedFilter.deleteMany({
+    where: { id: filterId, userId },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Update sort order for multiple saved filters.
+ *
+ * @param userId - User ID for authorization
+ * @param filterOrders - Array of { id, sortOrder } pairs
+ * @returns Number of filters updated
+ */
+export async function reorderSavedFilters(
+  userId: string,
+  filterOrders: Array<{ id: string; sortOrder: number }>
+): Promise<number> {
+  let count = 0;
+
+  for (const item of filterOrders) {
+    const result = await db.savedFilter.updateMany({
+      where: { id: item.id, userId },
+      data: { sortOrder: item.sortOrder },
+    });
+    count += result.count;
+  }
+
+  return count;
+}
+
+/**
+ * Import filters previously stored in the browser.
+ *
+ * Filters whose name already exists are skipped, so repeating an import
+ * (e.g. from a second tab or device) does not create duplicates.
+ *
+ * @param userId - User ID importing the filters
+ * @param filters - Filters to import, in their original order
+ * @returns Imported saved filters
+ */
+export async function importSavedFilters(
+  userId: string,
+  filters: ImportedSavedFilterInput[]
+): Promise<SavedFilterDto[]> {
+  const existing = await db.savedFilter.findMany({
+    where: { userId },
+    select: { name: true },
+  });
+  const names = new Set(existing.map((filter) => filter.name));
+
+  let sortOrder = await getNextSortOrder(userId);
+  const imported: SavedFilterDto[] = [];
+
+  for (const item of filters) {
+    if (names.has(item.name)) continue;
+    names.add(item.name);
+
+    const filter = await db.savedFilter.create({
+      data: {
+        name: item.name,
+        filter: JSON.stringify(item.filter),
+        sortOrder: sortOrder++,
+        ...(item.createdAt && { createdAt: item.createdAt }),
+        user: { connect: { id: userId } },
+      },
+    });
+    imported.push(toSavedFilterDto(filter));
+  }
+
+  return imported;
+}
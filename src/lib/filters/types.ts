@@ -4,31 +4,62 @@
 
 import type { TaskStatus, Priority } from '@/lib/tasks/types';
 
+/**
+ * Criteria of a saved filter.
+ */
+export interface SavedFilterCriteria {
+  status?: TaskStatus | TaskStatus[];
+  priority?: Priority | Priority[];
+  listId?: string;
+  tagIds?: string[];
+  dueDateFrom?: string;
+  dueDateTo?: string;
+  search?: string;
+  /** Filter query language expression, e.g. `priority:high AND due:<7d` */
+  query?: string;
+}
+
 /**
  * A saved filter configuration.
  */
 export interface SavedFilter {
   id: string;
   name: string;
-  filter: {
-    status?: TaskStatus | TaskStatus[];
-    priority?: Priority | Priority[];
-    listId?: string;
-    tagIds?: string[];
-    dueDateFrom?: string;
-    dueDateTo?: string;
-    search?: string;
-  };
+  filter: SavedFilterCriteria;
+  /** Whether the filter is shown in the smart list sidebar */
+  pinned: boolean;
+  sortOrder: number;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Saved filter response DTO.
+ */
+export interface SavedFilterDto {
+  id: string;
+  name: string;
+  filter: SavedFilterCriteria;
+  pinned: boolean;
+  sortOrder: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Saved filter list response.
+ */
+export interface SavedFilterListResponse {
+  filters: SavedFilterDto[];
+}
+
 /**
  * Options for creating a new saved filter.
  */
 export interface CreateSavedFilterOptions {
   name: string;
-  filter: SavedFilter['filter'];
+  filter: SavedFilterCriteria;
+  pinned?: boolean;
 }
 
 /**
@@ -36,5 +67,71 @@ export interface CreateSavedFilterOptions {
  */
 export interface UpdateSavedFilterOptions {
   name?: string;
-  filter?: SavedFilter['filter'];
+  filter?: SavedFilterCriteria;
+  pinned?: boolean;
 }
+
+/**
+ * Fields supported by the filter query language.
+ */
+export type FilterField =
+  | 'status'
+  | 'priority'
+  | 'tag'
+  | 'list'
+  | 'title'
+  | 'due'
+  | 'start'
+  | 'completed'
+  | 'created'
+  | 'has';
+
+/**
+ * Comparison operator of a filter term. `:` tests equality; the others are
+ * written after the colon, e.g. `due:<7d`.
+ */
+export type FilterOperator = '=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * Date value of a filter term.
+ * - relative: days from today (`today`, `tomorrow`, `7d`, `-2w`)
+ * - absolute: calendar date (`2025-06-30`)
+ * - none / any: date is or isn't set
+ */
+export type FilterDateValue =
+  | { kind: 'relative'; days: number }
+  | { kind: 'absolute'; year: number; month: number; day: number }
+  | { kind: 'none' }
+  | { kind: 'any' };
+
+/**
+ * Task property tested by `has:`, e.g. `has:goal` or `NOT has:tags`.
+ */
+export type FilterProperty = 'goal' | 'tags' | 'due' | 'start';
+
+/**
+ * Parsed value of a filter term.
+ */
+export type FilterValue =
+  | { kind: 'status'; status: TaskStatus }
+  | { kind: 'priority'; priority: Priority }
+  | { kind: 'text'; text: string }
+  | { kind: 'date'; date: FilterDateValue }
+  | { kind: 'has'; property: FilterProperty };
+
+/**
+ * Node of a parsed filter query.
+ */
+export type FilterNode =
+  | { type: 'and'; children: FilterNode[] }
+  | { type: 'or'; children: FilterNode[] }
+  | { type: 'not'; child: FilterNode }
+  | {
+      type: 'term';
+      field: FilterField;
+      operator: FilterOperator;
+      value: FilterValue;
+      start: number;
+      end: number;
+    }
+  | { type: 'text'; text: string; start: number; end: number };
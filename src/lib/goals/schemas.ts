@@ -21,7 +21,7 @@ export const createGoalSchema = z.object({
     .optional(),
   unit: z.string().min(1).max(50, 'Unit must be less than 50 characters').optional(),
   deadline: z.coerce.date().optional(),
-  sortOrder: z.number().int().min(0).optional(),
+  sortOrder: z.number().min(0).optional(),
 });
 
 export const updateGoalSchema = z.object({
@@ -32,7 +32,7 @@ export const updateGoalSchema = z.object({
   unit: z.string().min(1).max(50).optional(),
   deadline: z.coerce.date().nullable().optional(),
   status: z.enum(['ACTIVE', 'PAUSED', 'COMPLETED', 'ABANDONED']).optional(),
-  sortOrder: z.number().int().min(0).optional(),
+  sortOrder: z.number().min(0).optional(),
 });
 
 export const goalQuerySchema = z.object({
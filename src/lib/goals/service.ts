@@ -5,6 +5,7 @@
  */
 
 import { db } from '@/lib/db';
+import { applyItemOrders } from '@/lib/ordering/service';
 import type { Task } from '@prisma/client';
 import type {
   GoalDto,
@@ -35,9 +36,10 @@ export async function getGoals(
   // Build where clause
   const where: {
     userId: string;
+    deletedAt: null;
     status?: 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'ABANDONED';
     title?: { contains: string; mode: 'insensitive' };
-  } = { userId };
+  } = { userId, deletedAt: null };
 
   if (status) {
     where.status = status;
@@ -97,7 +99,7 @@ export async function getGoals(
  */
 export async function getGoalById(userId: string, goalId: string): Promise<GoalDto | null> {
   const goal = await db.goal.findFirst({
-    where: { id: goalId, userId },
+    where: { id: goalId, userId, deletedAt: null },
   });
 
   if (!goal) return null;
@@ -113,7 +115,7 @@ export async function getGoalWithTasks(
   goalId: string
 ): Promise<GoalWithTasks | null> {
   const goal = await db.goal.findFirst({
-    where: { id: goalId, userId },
+    where: { id: goalId, userId, deletedAt: null },
   });
 
   if (!goal) return null;
@@ -171,7 +173,7 @@ export async function updateGoal(
 ): Promise<GoalDto | null> {
   // Verify ownership
   const existing = await db.goal.findFirst({
-    where: { id: goalId, userId },
+    where: { id: goalId, userId, deletedAt: null },
   });
 
   if (!existing) return null;
@@ -185,52 +187,49 @@ export async function updateGoal(
 }
 
 /**
- * Delete a goal.
+ * Move a goal to the trash. Linked tasks keep their link for a restore.
  */
 export async function deleteGoal(userId: string, goalId: string): Promise<boolean> {
   // Verify ownership
   const existing = await db.goal.findFirst({
-    where: { id: goalId, userId },
+    where: { id: goalId, userId, deletedAt: null },
   });
 
   if (!existing) return false;
 
-  await db.goal.delete({
+  await db.goal.update({
     where: { id: goalId },
+    data: { deletedAt: new Date() },
   });
 
   return true;
 }
 
 /**
- * Batch delete goals.
+ * Batch move goals to the trash.
  */
 export async function batchDeleteGoals(userId: string, goalIds: string[]): Promise<number> {
-  const result = await db.goal.deleteMany({
+  const result = await db.goal.updateMany({
     where: {
       id: { in: goalIds },
       userId,
+      deletedAt: null,
     },
+    data: { deletedAt: new Date() },
   });
 
   return result.count;
 }
 
 /**
- * Update goal sort orders.
+ * Put goals in the order of the given sort orders, writing only the goals
+ * that moved.
  */
 export async function updateGoalOrders(
   userId: string,
   orders: { id: string; sortOrder: number }[]
 ): Promise<void> {
-  await db.$transaction(
-    orders.map(({ id, sortOrder }) =>
-      db.goal.updateMany({
-        where: { id, userId },
-        data: { sortOrder },
-      })
-    )
-  );
+  await applyItemOrders('goal', userId, orders);
 }
 
 // ============================================================================
@@ -247,7 +246,7 @@ export async function updateGoalProgress(
 ): Promise<GoalDto | null> {
   // Verify ownership
   const existing = await db.goal.findFirst({
-    where: { id: goalId, userId },
+    where: { id: goalId, userId, deletedAt: null },
   });
 
   if (!existing) return null;
@@ -300,6 +299,7 @@ export async function batchUpdateGoalStatus(
     where: {
       id: { in: goalIds },
       userId,
+      deletedAt: null,
     },
     data: { status },
   });
@@ -316,7 +316,7 @@ export async function batchUpdateGoalStatus(
  */
 export async function getGoalStatistics(userId: string): Promise<GoalStatistics> {
   const goals = await db.goal.findMany({
-    where: { userId },
+    where: { userId, deletedAt: null },
   });
 
   const activeGoals = goals.filter((g) => g.status === 'ACTIVE');
@@ -424,6 +424,7 @@ function enrichGoalWithData(goal: {
   sortOrder: number;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
 }): GoalDto {
   // Calculate progress
   const progressData = calculateGoalProgress(goal.currentValue, goal.targetValue);
@@ -446,6 +447,7 @@ export async function getUpcomingDeadlines(userId: string, days: number = 7): Pr
   const goals = await db.goal.findMany({
     where: {
       userId,
+      deletedAt: null,
       status: 'ACTIVE',
       deadline: { not: null },
     },
@@ -476,6 +478,7 @@ export async function getStalledGoals(userId: string): Promise<GoalDto[]> {
   const goals = await db.goal.findMany({
     where: {
       userId,
+      deletedAt: null,
       status: 'ACTIVE',
       deadline: { not: null },
       targetValue: { not: null },
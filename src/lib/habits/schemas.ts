@@ -26,7 +26,7 @@ export const createHabitSchema = z.object({
     .max(100, 'Target count must be at most 100')
     .optional()
     .default(1),
-  sortOrder: z.number().int().min(0).optional(),
+  sortOrder: z.number().min(0).optional(),
 });
 
 export const updateHabitSchema = z.object({
@@ -39,7 +39,7 @@ export const updateHabitSchema = z.object({
   icon: z.string().max(10).optional(),
   frequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
   targetCount: z.number().int().min(1).max(100).optional(),
-  sortOrder: z.number().int().min(0).optional(),
+  sortOrder: z.number().min(0).optional(),
   isArchived: z.boolean().optional(),
 });
 
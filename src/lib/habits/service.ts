@@ -5,6 +5,7 @@
  */
 
 import { db } from '@/lib/db';
+import { applyItemOrders } from '@/lib/ordering/service';
 import type {
   HabitDto,
   HabitEntryDto,
@@ -61,10 +62,11 @@ export async function getHabits(
   // Build where clause
   const where: {
     userId: string;
+    deletedAt: null;
     isArchived?: boolean;
     frequency?: 'daily' | 'weekly' | 'monthly';
     title?: { contains: string; mode: 'insensitive' };
-  } = { userId };
+  } = { userId, deletedAt: null };
 
   if (isArchived !== undefined) {
     where.isArchived = isArchived;
@@ -135,7 +137,7 @@ export async function getHabits(
  */
 export async function getHabitById(userId: string, habitId: string): Promise<HabitDto | null> {
   const habit = await db.habit.findFirst({
-    where: { id: habitId, userId },
+    where: { id: habitId, userId, deletedAt: null },
     include: {
       entries: {
         orderBy: { date: 'desc' },
@@ -198,7 +200,7 @@ export async function updateHabit(
 ): Promise<HabitDto | null> {
   // Verify ownership
   const existing = await db.habit.findFirst({
-    where: { id: habitId, userId },
+    where: { id: habitId, userId, deletedAt: null },
   });
 
   if (!existing) return null;
@@ -218,54 +220,51 @@ export async function updateHabit(
 }
 
 /**
- * Delete a habit.
+ * Move a habit to the trash.
  */
 export async function deleteHabit(userId: string, habitId: string): Promise<boolean> {
   // Verify ownership
   const existing = await db.habit.findFirst({
-    where: { id: habitId, userId },
+    where: { id: habitId, userId, deletedAt: null },
   });
 
   if (!existing) return false;
 
-  // Delete habit (entries will be cascade deleted)
-  await db.habit.delete({
+  // Entries are kept so the habit can be restored with its history
+  await db.habit.update({
     where: { id: habitId },
+    data: { deletedAt: new Date() },
   });
 
   return true;
 }
 
 /**
- * Batch delete habits.
+ * Batch move habits to the trash.
  */
 export async function batchDeleteHabits(userId: string, habitIds: string[]): Promise<number> {
-  // Delete only habits owned by user
-  const result = await db.habit.deleteMany({
+  // Trash only habits owned by user
+  const result = await db.habit.updateMany({
     where: {
       id: { in: habitIds },
       userId,
+      deletedAt: null,
     },
+    data: { deletedAt: new Date() },
   });
 
   return result.count;
 }
 
 /**
- * Update habit sort orders.
+ * Put habits in the order of the given sort orders, writing only the habits
+ * that moved.
  */
 export async function updateHabitOrders(
   userId: string,
   orders: { id: string; sortOrder: number }[]
 ): Promise<void> {
-  await db.$transaction(
-    orders.map(({ id, sortOrder }) =>
-      db.habit.updateMany({
-        where: { id, userId },
-        data: { sortOrder },
-      })
-    )
-  );
+  await applyItemOrders('habit', userId, orders);
 }
 
 // ============================================================================
@@ -282,7 +281,7 @@ export async function getHabitEntries(
 ): Promise<HabitEntryDto[]> {
   // Verify ownership
   const habit = await db.habit.findFirst({
-    where: { id: habitId, userId },
+    where: { id: habitId, userId, deletedAt: null },
   });
 
   if (!habit) return [];
@@ -319,7 +318,7 @@ export async function getHabitEntryById(
   if (!entry) return null;
 
   // Verify ownership via habit
-  if (entry.habit.userId !== userId) return null;
+  if (entry.habit.userId !== userId || entry.habit.deletedAt) return null;
 
   return entry;
 }
@@ -333,7 +332,7 @@ export async function createHabitEntry(
 ): Promise<HabitEntryDto | null> {
   // Verify habit ownership
   const habit = await db.habit.findFirst({
-    where: { id: input.habitId, userId },
+    where: { id: input.habitId, userId, deletedAt: null },
   });
 
   if (!habit) return null;
@@ -364,7 +363,7 @@ export async function updateHabitEntry(
     include: { habit: true },
   });
 
-  if (!existing || existing.habit.userId !== userId) return null;
+  if (!existing || existing.habit.userId !== userId || existing.habit.deletedAt) return null;
 
   const data: { date?: Date; count?: number; note?: string | null } = {};
   if (input.date !== undefined) {
@@ -395,7 +394,7 @@ export async function deleteHabitEntry(userId: string, entryId: string): Promise
     include: { habit: true },
   });
 
-  if (!existing || existing.habit.userId !== userId) return false;
+  if (!existing || existing.habit.userId !== userId || existing.habit.deletedAt) return false;
 
   await db.habitEntry.delete({
     where: { id: entryId },
@@ -415,7 +414,7 @@ export async function toggleHabitEntry(
 ): Promise<{ created: boolean; entry: HabitEntryDto | null; habit: HabitDto | null }> {
   // Verify habit ownership
   const habit = await db.habit.findFirst({
-    where: { id: habitId, userId },
+    where: { id: habitId, userId, deletedAt: null },
     include: {
       entries: {
         where: { date: startOfDay(input.date) },
@@ -493,7 +492,7 @@ export async function getHabitStreak(
   habitId: string
 ): Promise<HabitStreakData | null> {
   const habit = await db.habit.findFirst({
-    where: { id: habitId, userId },
+    where: { id: habitId, userId, deletedAt: null },
     include: {
       entries: {
         orderBy: { date: 'asc' },
@@ -511,7 +510,7 @@ export async function getHabitStreak(
  */
 export async function getHabitStatistics(userId: string): Promise<HabitStatistics> {
   const habits = await db.habit.findMany({
-    where: { userId, isArchived: false },
+    where: { userId, isArchived: false, deletedAt: null },
     include: {
       entries: true,
     },
@@ -616,7 +615,7 @@ export async function getHabitCalendarData(
   month: number
 ): Promise<HabitCalendarData[]> {
   const habit = await db.habit.findFirst({
-    where: { id: habitId, userId },
+    where: { id: habitId, userId, deletedAt: null },
   });
 
   if (!habit) return [];
@@ -649,7 +648,7 @@ export async function getAllHabitsCalendarData(
   month: number
 ): Promise<Map<string, HabitCalendarData[]>> {
   const habits = await db.habit.findMany({
-    where: { userId, isArchived: false },
+    where: { userId, isArchived: false, deletedAt: null },
   });
 
   const result = new Map<string, HabitCalendarData[]>();
@@ -682,6 +681,7 @@ function enrichHabitWithStreakData(habit: {
   isArchived: boolean;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
   entries?: HabitEntryDto[];
   _count?: { entries: number };
 }): HabitDto {
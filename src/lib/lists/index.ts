@@ -25,6 +25,7 @@ export {
   ListQuerySchema,
   BatchDeleteListSchema,
   UpdateListOrderSchema,
+  DuplicateListSchema,
 } from './schemas';
 
 export type {
@@ -33,6 +34,7 @@ export type {
   ListQueryInput,
   BatchDeleteListInput,
   UpdateListOrderInput,
+  DuplicateListInput,
 } from './schemas';
 
 // Service
@@ -42,6 +44,7 @@ export {
   createList,
   updateList,
   deleteList,
+  duplicateList,
   batchDeleteLists,
   updateListOrders,
   getDefaultList,
@@ -31,7 +31,7 @@ export const CreateListSchema = z.object({
     .string()
     .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a valid hex color code (e.g., #D97757)')
     .optional(),
-  sortOrder: z.number().int().min(0).optional(),
+  sortOrder: z.number().min(0).optional(),
   isDefault: z.boolean().optional(),
   isFavorite: z.boolean().optional(),
 });
@@ -49,7 +49,7 @@ export const UpdateListSchema = z.object({
     .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a valid hex color code')
     .optional()
     .nullable(),
-  sortOrder: z.number().int().min(0).optional(),
+  sortOrder: z.number().min(0).optional(),
   isDefault: z.boolean().optional(),
   isFavorite: z.boolean().optional(),
 });
@@ -74,6 +74,16 @@ export const ListQuerySchema = z.object({
   includeTasks: z.coerce.boolean().optional(),
 });
 
+/**
+ * Schema for duplicating a list with its tasks.
+ */
+export const DuplicateListSchema = z.object({
+  title: z.string().min(1).max(100, 'Title must be at most 100 characters').optional(),
+  resetStatus: z.boolean().optional(),
+  // Days to move every task date by, e.g. 7 to reuse last week's list
+  dateOffsetDays: z.number().int().min(-3650).max(3650).optional(),
+});
+
 /**
  * Schema for batch delete operations.
  */
@@ -89,7 +99,7 @@ export const UpdateListOrderSchema = z.object({
     .array(
       z.object({
         id: z.string().cuid(),
-        sortOrder: z.number().int().min(0),
+        sortOrder: z.number().min(0),
       })
     )
     .min(1, 'At least one list order is required'),
@@ -101,5 +111,6 @@ export const UpdateListOrderSchema = z.object({
 export type CreateListInput = z.infer<typeof CreateListSchema>;
 export type UpdateListInput = z.infer<typeof UpdateListSchema>;
 export type ListQueryInput = z.infer<typeof ListQuerySchema>;
+export type DuplicateListInput = z.infer<typeof DuplicateListSchema>;
 export type BatchDeleteListInput = z.infer<typeof BatchDeleteListSchema>;
 export type UpdateListOrderInput = z.infer<typeof UpdateListOrderSchema>;
@@ -11,12 +11,16 @@ import {
   createList,
   updateList,
   deleteList,
+  duplicateList,
   batchDeleteLists,
   updateListOrders,
   getDefaultList,
   getDefaultListId,
 } from './service';
 import { db } from '@/lib/db';
+import { applyItemOrders } from '@/lib/ordering/service';
+import { copyListTasks } from '@/lib/tasks/duplicate';
+import { trashTasks } from '@/lib/tasks/service';
 
 // Mock the database
 type MockModel = {
@@ -29,6 +33,14 @@ type MockModel = {
   deleteMany: jest.Mock;
 };
 
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('@/lib/ordering/service', () => ({
+  applyItemOrders: jest.fn(),
+}));
+
 jest.mock('@/lib/db', () => {
   const createMockModel = (): MockModel => ({
     findMany: jest.fn(),
@@ -43,10 +55,21 @@ jest.mock('@/lib/db', () => {
   return {
     db: {
       list: createMockModel(),
+      userEvent: {
+        create: jest.fn(),
+      },
     },
   };
 });
 
+jest.mock('@/lib/tasks/duplicate', () => ({
+  copyListTasks: jest.fn(),
+}));
+
+jest.mock('@/lib/tasks/service', () => ({
+  trashTasks: jest.fn().mockResolvedValue(0),
+}));
+
 describe('List Service', () => {
   const mockUserId = 'user-123';
 
@@ -88,6 +111,8 @@ describe('List Service', () => {
       expect(db.list.count).toHaveBeenCalledWith({
         where: {
           userId: mockUserId,
+          deletedAt: null,
+          archivedAt: null,
           isFavorite: true,
         },
       });
@@ -125,7 +150,7 @@ describe('List Service', () => {
 
       expect(result).toBeDefined();
       expect(db.list.findFirst).toHaveBeenCalledWith({
-        where: { id: 'list-123', userId: mockUserId },
+        where: { id: 'list-123', userId: mockUserId, deletedAt: null },
         include: expect.any(Object),
       });
     });
@@ -194,7 +219,10 @@ describe('List Service', () => {
 
     it('should auto-assign sortOrder if not provided', async () => {
       const existingList = { ...mockList, sortOrder: 2 };
-      (db.list.findFirst as jest.Mock).mockResolvedValueOnce(existingList).mockResolvedValue([]);
+      (db.list.findFirst as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(existingList)
+        .mockResolvedValue([]);
       (db.list.create as jest.Mock).mockResolvedValue(mockList);
 
       await createList(mockUserId, {
@@ -216,20 +244,40 @@ describe('List Service', () => {
       const createCall = (db.list.create as jest.Mock).mock.calls[0][0];
       expect(createCall.data.sortOrder).toBe(0);
     });
+
+    it('should rename a list in the trash holding the same title', async () => {
+      (db.list.findFirst as jest.Mock)
+        .mockResolvedValueOnce({ id: 'trashed-list' })
+        .mockResolvedValueOnce(null);
+      (db.list.findMany as jest.Mock).mockResolvedValue([{ title: 'New List (deleted)' }]);
+      (db.list.create as jest.Mock).mockResolvedValue(mockList);
+
+      await createList(mockUserId, { title: 'New List' });
+
+      expect(db.list.findFirst).toHaveBeenCalledWith({
+        where: { userId: mockUserId, title: 'New List', deletedAt: { not: null } },
+        select: { id: true },
+      });
+      expect(db.list.update).toHaveBeenCalledWith({
+        where: { id: 'trashed-list' },
+        data: { title: 'New List (deleted 2)' },
+      });
+    });
   });
 
   describe('updateList', () => {
     it('should update an existing list', async () => {
       (db.list.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
-      (db.list.findFirst as jest.Mock).mockResolvedValue(mockList);
+      (db.list.findFirst as jest.Mock).mockResolvedValueOnce(null).mockResolvedValue(mockList);
 
       const result = await updateList('list-123', mockUserId, {
         title: 'Updated Title',
       });
 
       expect(result).toBeDefined();
+      expect(db.list.update).not.toHaveBeenCalled();
       expect(db.list.updateMany).toHaveBeenCalledWith({
-        where: { id: 'list-123', userId: mockUserId },
+        where: { id: 'list-123', userId: mockUserId, deletedAt: null },
         data: expect.objectContaining({
           title: 'Updated Title',
         }),
@@ -268,17 +316,32 @@ describe('List Service', () => {
   });
 
   describe('deleteList', () => {
-    it('should delete a list', async () => {
+    it('should move a list and its tasks to the trash', async () => {
       (db.list.findFirst as jest.Mock).mockResolvedValue({
         isDefault: false,
       });
-      (db.list.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (db.list.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
 
       const result = await deleteList('list-123', mockUserId);
 
       expect(result).toBe(true);
-      expect(db.list.deleteMany).toHaveBeenCalledWith({
-        where: { id: 'list-123', userId: mockUserId },
+      expect(db.list.deleteMany).not.toHaveBeenCalled();
+      expect(db.list.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['list-123'] }, userId: mockUserId, deletedAt: null },
+        data: { deletedAt: expect.any(Date) },
+      });
+      const { deletedAt } = (db.list.updateMany as jest.Mock).mock.calls[0][0].data;
+      expect(trashTasks).toHaveBeenCalledWith(
+        mockUserId,
+        { listId: { in: ['list-123'] } },
+        deletedAt
+      );
+      expect(db.userEvent.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockUserId,
+          type: 'list.deleted',
+          data: JSON.stringify({ listIds: ['list-123'] }),
+        },
       });
     });
 
@@ -301,10 +364,47 @@ describe('List Service', () => {
     });
   });
 
+  describe('duplicateList', () => {
+    it('should copy the list under a free title with its tasks', async () => {
+      (db.list.findFirst as jest.Mock)
+        .mockResolvedValueOnce(mockList)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ sortOrder: 4 });
+      (db.list.findMany as jest.Mock).mockResolvedValue([{ title: 'Test List (copy)' }]);
+      (db.list.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ ...mockList, id: 'list-456', isFavorite: false, ...data })
+      );
+      (copyListTasks as jest.Mock).mockResolvedValue(3);
+
+      const result = await duplicateList('list-123', mockUserId, {
+        resetStatus: true,
+        dateOffsetDays: 7,
+      });
+
+      expect(db.list.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ title: 'Test List (copy 2)', sortOrder: 5 }),
+        })
+      );
+      expect(copyListTasks).toHaveBeenCalledWith(mockUserId, 'list-123', 'list-456', {
+        resetStatus: true,
+        offsetMs: 7 * 24 * 60 * 60 * 1000,
+      });
+      expect(result).toMatchObject({ id: 'list-456', isDefault: false, _count: { tasks: 3 } });
+    });
+
+    it('should return null when list not found', async () => {
+      (db.list.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await duplicateList('non-existent', mockUserId)).toBeNull();
+      expect(copyListTasks).not.toHaveBeenCalled();
+    });
+  });
+
   describe('batchDeleteLists', () => {
     it('should delete multiple lists', async () => {
       (db.list.findMany as jest.Mock).mockResolvedValue([]);
-      (db.list.deleteMany as jest.Mock).mockResolvedValue({ count: 3 });
+      (db.list.updateMany as jest.Mock).mockResolvedValue({ count: 3 });
 
       const result = await batchDeleteLists(mockUserId, ['list-1', 'list-2', 'list-3']);
 
@@ -317,16 +417,18 @@ describe('List Service', () => {
         { id: 'list-3', isDefault: true },
       ];
       (db.list.findMany as jest.Mock).mockResolvedValue(defaultLists);
-      (db.list.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (db.list.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
 
       const result = await batchDeleteLists(mockUserId, ['list-1', 'list-2', 'list-3']);
 
       expect(result).toBe(1);
-      expect(db.list.deleteMany).toHaveBeenCalledWith({
+      expect(db.list.updateMany).toHaveBeenCalledWith({
         where: {
           id: { in: ['list-2'] },
           userId: mockUserId,
+          deletedAt: null,
         },
+        data: { deletedAt: expect.any(Date) },
       });
     });
 
@@ -343,23 +445,17 @@ describe('List Service', () => {
   });
 
   describe('updateListOrders', () => {
-    it('should update sort order for multiple lists', async () => {
-      (db.list.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
-
-      const result = await updateListOrders(mockUserId, [
-        { id: 'list-1', sortOrder: 0 },
+    it('should move the lists into the order of their sort orders', async () => {
+      (applyItemOrders as jest.Mock).mockResolvedValue(1);
+      const orders = [
         { id: 'list-2', sortOrder: 1 },
-        { id: 'list-3', sortOrder: 2 },
-      ]);
-
-      expect(result).toBe(3);
-      expect(db.list.updateMany).toHaveBeenCalledTimes(3);
-    });
+        { id: 'list-1', sortOrder: 0 },
+      ];
 
-    it('should return 0 when no lists to update', async () => {
-      const result = await updateListOrders(mockUserId, []);
+      const result = await updateListOrders(mockUserId, orders);
 
-      expect(result).toBe(0);
+      expect(result).toBe(1);
+      expect(applyItemOrders).toHaveBeenCalledWith('list', mockUserId, orders);
     });
   });
 
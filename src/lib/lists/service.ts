@@ -7,8 +7,18 @@
 
 import { db } from '@/lib/db';
 import { Prisma } from '@prisma/client';
+import { publishEventSafely } from '@/lib/events/service';
+import { applyItemOrders } from '@/lib/ordering/service';
+import { copyListTasks } from '@/lib/tasks/duplicate';
+import { trashTasks } from '@/lib/tasks/service';
+import type { DuplicateListInput } from './schemas';
 import type { ListDto, ListListOptions, ListWithTaskCount, ListWithFullRelations } from './types';
 
+/**
+ * Tasks counted and shown with a list: neither trashed nor archived.
+ */
+const activeTaskWhere = { deletedAt: null, archivedAt: null };
+
 /**
  * Convert Prisma List model to List DTO.
  */
@@ -24,6 +34,7 @@ function toListDto(list: ListWithTaskCount | ListWithFullRelations): ListDto {
     isFavorite: list.isFavorite,
     createdAt: list.createdAt,
     updatedAt: list.updatedAt,
+    archivedAt: list.archivedAt,
   };
 
   // Add task count if available
@@ -52,6 +63,8 @@ export async function getLists(
   // Build where clause with user scoping
   const baseWhere: Prisma.ListWhereInput = {
     userId,
+    deletedAt: null,
+    archivedAt: null,
     ...where,
   };
 
@@ -67,11 +80,12 @@ export async function getLists(
     include: {
       _count: {
         select: {
-          tasks: true,
+          tasks: { where: activeTaskWhere },
         },
       },
       ...(includeTasks && {
         tasks: {
+          where: activeTaskWhere,
           select: {
             id: true,
             title: true,
@@ -110,14 +124,16 @@ export async function getListById(
     where: {
       id: listId,
       userId,
+      deletedAt: null,
     },
     include: {
       _count: {
         select: {
-          tasks: true,
+          tasks: { where: activeTaskWhere },
         },
       },
       tasks: {
+        where: activeTaskWhere,
         select: {
           id: true,
           title: true,
@@ -174,11 +190,13 @@ export async function createList(
     });
   }
 
+  await releaseTrashedTitle(userId, data.title);
+
   // Get the next sort order if not provided
   let sortOrder = data.sortOrder;
   if (sortOrder === undefined) {
     const maxSortOrder = await db.list.findFirst({
-      where: { userId },
+      where: { userId, deletedAt: null },
       select: { sortOrder: true },
       orderBy: { sortOrder: 'desc' },
     });
@@ -200,12 +218,14 @@ export async function createList(
     include: {
       _count: {
         select: {
-          tasks: true,
+          tasks: { where: activeTaskWhere },
         },
       },
     },
   });
 
+  await publishEventSafely(userId, 'list.created', { listIds: [list.id] });
+
   return toListDto(list);
 }
 
@@ -248,6 +268,7 @@ export async function updateList(
   const updateData: Prisma.ListUpdateInput = {};
 
   if (data.title !== undefined) {
+    await releaseTrashedTitle(userId, data.title);
     updateData.title = data.title;
   }
   if (data.description !== undefined) {
@@ -274,6 +295,7 @@ export async function updateList(
     where: {
       id: listId,
       userId,
+      deletedAt: null,
     },
     data: updateData,
   });
@@ -282,16 +304,19 @@ export async function updateList(
     return null;
   }
 
+  await publishEventSafely(userId, 'list.updated', { listIds: [listId] });
+
   // Fetch and return updated list
   const updatedList = await db.list.findFirst({
     where: {
       id: listId,
       userId,
+      deletedAt: null,
     },
     include: {
       _count: {
         select: {
-          tasks: true,
+          tasks: { where: activeTaskWhere },
         },
       },
     },
@@ -301,7 +326,7 @@ export async function updateList(
 }
 
 /**
- * Delete a list.
+ * Move a list and all of its tasks to the trash.
  *
  * @param listId - List ID to delete
  * @param userId - User ID for authorization
@@ -313,6 +338,7 @@ export async function deleteList(listId: string, userId: string): Promise<boolea
     where: {
       id: listId,
       userId,
+      deletedAt: null,
     },
     select: {
       isDefault: true,
@@ -327,18 +353,118 @@ export async function deleteList(listId: string, userId: string): Promise<boolea
     throw new Error('Cannot delete the default list');
   }
 
-  const result = await db.list.deleteMany({
+  const count = await trashLists(userId, [listId]);
+
+  return count > 0;
+}
+
+/**
+ * Move lists and their tasks to the trash, all with the same `deletedAt`.
+ *
+ * @returns Number of lists trashed
+ */
+async function trashLists(userId: string, listIds: string[]): Promise<number> {
+  const deletedAt = new Date();
+
+  const result = await db.list.updateMany({
+    where: {
+      id: { in: listIds },
+      userId,
+      deletedAt: null,
+    },
+    data: {
+      deletedAt,
+    },
+  });
+
+  if (result.count > 0) {
+    await trashTasks(userId, { listId: { in: listIds } }, deletedAt);
+    await publishEventSafely(userId, 'list.deleted', { listIds });
+  }
+
+  return result.count;
+}
+
+/**
+ * Pick a title that doesn't clash with the user's other lists, including
+ * those in the trash, e.g. "Groceries (copy)", then "Groceries (copy 2)".
+ */
+async function getCopyTitle(userId: string, title: string, label = 'copy'): Promise<string> {
+  const base = `${title} (${label}`;
+  const existing = await db.list.findMany({
+    where: { userId, title: { startsWith: base } },
+    select: { title: true },
+  });
+  const taken = new Set(existing.map((list) => list.title));
+
+  let candidate = `${base})`;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${base} ${n})`;
+  }
+  return candidate;
+}
+
+/**
+ * Free up a title held by a list in the trash, so a new list can use it.
+ * The trashed list is renamed, e.g. "Groceries (deleted)".
+ */
+async function releaseTrashedTitle(userId: string, title: string): Promise<void> {
+  const trashed = await db.list.findFirst({
+    where: { userId, title, deletedAt: { not: null } },
+    select: { id: true },
+  });
+
+  if (trashed) {
+    await db.list.update({
+      where: { id: trashed.id },
+      data: { title: await getCopyTitle(userId, title, 'deleted') },
+    });
+  }
+}
+
+/**
+ * Duplicate a list with all of its tasks.
+ * The copy is never the default list and starts out of favorites.
+ *
+ * @param listId - List ID to duplicate
+ * @param userId - User ID for authorization
+ * @param data - Title of the copy, whether to reopen tasks and how many days to move dates by
+ * @returns The copy or null if not found
+ */
+export async function duplicateList(
+  listId: string,
+  userId: string,
+  data: DuplicateListInput = {}
+): Promise<ListDto | null> {
+  const source = await db.list.findFirst({
     where: {
       id: listId,
       userId,
+      deletedAt: null,
     },
   });
 
-  return result.count > 0;
+  if (!source) {
+    return null;
+  }
+
+  const list = await createList(userId, {
+    title: data.title ?? (await getCopyTitle(userId, source.title)),
+    description: source.description,
+    icon: source.icon,
+    color: source.color,
+  });
+
+  const count = await copyListTasks(userId, listId, list.id, {
+    resetStatus: data.resetStatus,
+    offsetMs: (data.dateOffsetDays ?? 0) * 24 * 60 * 60 * 1000,
+  });
+
+  return { ...list, _count: { tasks: count } };
 }
 
 /**
- * Batch delete multiple lists.
+ * Batch move multiple lists and their tasks to the trash.
  *
  * @param userId - User ID for authorization
  * @param listIds - Array of list IDs to delete
@@ -363,43 +489,23 @@ export async function batchDeleteLists(userId: string, listIds: string[]): Promi
     return 0;
   }
 
-  const result = await db.list.deleteMany({
-    where: {
-      id: { in: idsToDelete },
-      userId,
-    },
-  });
-
-  return result.count;
+  return trashLists(userId, idsToDelete);
 }
 
 /**
- * Update sort order for multiple lists.
+ * Put lists in the order of the given sort orders.
+ * Only the lists that moved are written, with ranks between their new
+ * neighbours; see `applyItemOrders` in `@/lib/ordering`.
  *
  * @param userId - User ID for authorization
  * @param listOrders - Array of { id, sortOrder } pairs
- * @returns Number of lists updated
+ * @returns Number of lists moved
  */
 export async function updateListOrders(
   userId: string,
   listOrders: Array<{ id: string; sortOrder: number }>
 ): Promise<number> {
-  let count = 0;
-
-  for (const item of listOrders) {
-    const result = await db.list.updateMany({
-      where: {
-        id: item.id,
-        userId,
-      },
-      data: {
-        sortOrder: item.sortOrder,
-      },
-    });
-    count += result.count;
-  }
-
-  return count;
+  return applyItemOrders('list', userId, listOrders);
 }
 
 /**
@@ -418,7 +524,7 @@ export async function getDefaultList(userId: string): Promise<ListDto> {
     include: {
       _count: {
         select: {
-          tasks: true,
+          tasks: { where: activeTaskWhere },
         },
       },
     },
@@ -435,7 +541,7 @@ export async function getDefaultList(userId: string): Promise<ListDto> {
       include: {
         _count: {
           select: {
-            tasks: true,
+            tasks: { where: activeTaskWhere },
           },
         },
       },
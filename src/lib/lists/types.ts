@@ -22,6 +22,8 @@ export interface ListDto {
   isFavorite: boolean;
   createdAt: Date;
   updatedAt: Date;
+  /** Set when archived; archived lists are left out of the sidebar */
+  archivedAt: Date | null;
   // Counters for performance
   _count?: {
     tasks: number;
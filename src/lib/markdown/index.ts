@@ -0,0 +1,6 @@
+/**
+ * Markdown module exports.
+ */
+
+export * from './types';
+export * from './parse';
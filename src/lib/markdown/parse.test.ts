@@ -0,0 +1,142 @@
+/**
+ * Markdown Parser Tests
+ */
+
+import {
+  markdownToPlainText,
+  parseInline,
+  parseMarkdown,
+  sanitizeUrl,
+  toggleTaskListItem,
+} from './parse';
+
+describe('Markdown Parser', () => {
+  describe('parseInline', () => {
+    it('should parse code, strong and emphasis', () => {
+      expect(parseInline('Run `npm test` **now**, *please*')).toEqual([
+        { type: 'text', text: 'Run ' },
+        { type: 'code', text: 'npm test' },
+        { type: 'text', text: ' ' },
+        { type: 'strong', children: [{ type: 'text', text: 'now' }] },
+        { type: 'text', text: ', ' },
+        { type: 'em', children: [{ type: 'text', text: 'please' }] },
+      ]);
+    });
+
+    it('should leave underscores inside words alone', () => {
+      expect(parseInline('see snake_case_name')).toEqual([
+        { type: 'text', text: 'see snake_case_name' },
+      ]);
+    });
+
+    it('should parse links with safe targets', () => {
+      expect(parseInline('[docs](https://example.com/a)')).toEqual([
+        { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'docs' }] },
+      ]);
+    });
+
+    it('should render links with unsafe targets as text', () => {
+      expect(parseInline('[click](javascript:void)')).toEqual([{ type: 'text', text: 'click' }]);
+    });
+  });
+
+  describe('sanitizeUrl', () => {
+    it('should allow http(s), mailto and relative URLs', () => {
+      expect(sanitizeUrl('https://example.com')).toBe('https://example.com');
+      expect(sanitizeUrl('mailto:me@example.com')).toBe('mailto:me@example.com');
+      expect(sanitizeUrl('/tasks')).toBe('/tasks');
+    });
+
+    it('should reject other schemes and protocol-relative URLs', () => {
+      expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('data:text/html,hi')).toBeNull();
+      expect(sanitizeUrl('//evil.example.com')).toBeNull();
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should split paragraphs on blank lines and keep line breaks', () => {
+      expect(parseMarkdown('one\ntwo\n\nthree')).toEqual([
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', text: 'one' },
+            { type: 'break' },
+            { type: 'text', text: 'two' },
+          ],
+        },
+        { type: 'paragraph', children: [{ type: 'text', text: 'three' }] },
+      ]);
+    });
+
+    it('should parse bullet and numbered lists', () => {
+      const blocks = parseMarkdown('- a\n* b\n1. c\n2) d');
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0]).toMatchObject({ type: 'list', ordered: false });
+      expect(blocks[1]).toMatchObject({
+        type: 'list',
+        ordered: true,
+        items: [
+          { children: [{ type: 'text', text: 'c' }] },
+          { children: [{ type: 'text', text: 'd' }] },
+        ],
+      });
+    });
+
+    it('should parse headings', () => {
+      expect(parseMarkdown('# Title\n### Notes ##\n#hashtag')).toEqual([
+        { type: 'heading', level: 1, children: [{ type: 'text', text: 'Title' }] },
+        { type: 'heading', level: 3, children: [{ type: 'text', text: 'Notes' }] },
+        { type: 'paragraph', children: [{ type: 'text', text: '#hashtag' }] },
+      ]);
+    });
+
+    it('should parse task list items with their source lines', () => {
+      const [, list] = parseMarkdown('Steps\n\n- [ ] draft\n- [x] **review**\n- plain');
+
+      expect(list).toEqual({
+        type: 'list',
+        ordered: false,
+        items: [
+          { children: [{ type: 'text', text: 'draft' }], checked: false, line: 2 },
+          {
+            children: [{ type: 'strong', children: [{ type: 'text', text: 'review' }] }],
+            checked: true,
+            line: 3,
+          },
+          { children: [{ type: 'text', text: 'plain' }], line: 4 },
+        ],
+      });
+    });
+
+    it('should keep fenced code verbatim', () => {
+      expect(parseMarkdown('```ts\nconst a = **b**;\n```\nafter')).toEqual([
+        { type: 'code', lang: 'ts', text: 'const a = **b**;' },
+        { type: 'paragraph', children: [{ type: 'text', text: 'after' }] },
+      ]);
+    });
+  });
+
+  describe('toggleTaskListItem', () => {
+    it('should flip the checkbox on the given line', () => {
+      const source = 'Steps\r\n- [ ] draft\r\n- [X] review';
+
+      expect(toggleTaskListItem(source, 1)).toBe('Steps\r\n- [x] draft\r\n- [X] review');
+      expect(toggleTaskListItem(source, 2)).toBe('Steps\r\n- [ ] draft\r\n- [ ] review');
+    });
+
+    it('should leave other lines unchanged', () => {
+      expect(toggleTaskListItem('[ ] not a list item', 0)).toBe('[ ] not a list item');
+      expect(toggleTaskListItem('- [ ] a', 5)).toBe('- [ ] a');
+    });
+  });
+
+  describe('markdownToPlainText', () => {
+    it('should strip markdown syntax', () => {
+      expect(markdownToPlainText('## Plan\n\n- [ ] call [Sam](https://x.y)\n- **ship** it')).toBe(
+        'Plan\ncall Sam\nship it'
+      );
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Markdown Parser
+ *
+ * Parses the subset of markdown used in comments and task descriptions:
+ * headings, paragraphs, fenced code blocks, bullet, numbered and task
+ * lists, and inline `code`, **strong**, *emphasis* and
+ * [links](https://example.com).
+ *
+ * Link targets are restricted to http(s), mailto and relative URLs; links
+ * with any other scheme are rendered as plain text.
+ */
+
+import type {
+  MarkdownBlock,
+  MarkdownHeadingLevel,
+  MarkdownInline,
+  MarkdownListItem,
+} from './types';
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE = /^\s*```\s*([\w+-]*)\s*$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const TASK_ITEM = /^\[([ xX])\](?:\s+(.*))?$/;
+const TASK_MARKER = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\])/;
+const SAFE_URL = /^(https?:\/\/|mailto:|\/(?!\/)|#)/i;
+
+/**
+ * Return the URL if it is safe to link to, otherwise null.
+ *
+ * @param url - Link target as written
+ * @returns The trimmed URL or null
+ */
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  return SAFE_URL.test(trimmed) ? trimmed : null;
+}
+
+type InlineRule = {
+  pattern: RegExp;
+  /** Only match at a word boundary, so snake_case stays literal */
+  boundary?: boolean;
+  build: (match: RegExpExecArray) => MarkdownInline | MarkdownInline[];
+};
+
+const INLINE_RULES: InlineRule[] = [
+  {
+    pattern: /^`([^`]+)`/,
+    build: (match) => ({ type: 'code', text: match[1] }),
+  },
+  {
+    pattern: /^\*\*(.+?)\*\*/,
+    build: (match) => ({ type: 'strong', children: parseInline(match[1]) }),
+  },
+  {
+    pattern: /^__(.+?)__/,
+    boundary: true,
+    build: (match) => ({ type: 'strong', children: parseInline(match[1]) }),
+  },
+  {
+    pattern: /^\*([^*\s](?:[^*]*[^*\s])?)\*/,
+    build: (match) => ({ type: 'em', children: parseInline(match[1]) }),
+  },
+  {
+    pattern: /^_([^_\s](?:[^_]*[^_\s])?)_(?!\w)/,
+    boundary: true,
+    build: (match) => ({ type: 'em', children: parseInline(match[1]) }),
+  },
+  {
+    pattern: /^\[([^\]]+)\]\(([^)\s]+)\)/,
+    build: (match) => {
+      const href = sanitizeUrl(match[2]);
+      const children = parseInline(match[1]);
+      return href ? { type: 'link', href, children } : children;
+    },
+  },
+];
+
+/**
+ * Parse inline markdown.
+ *
+ * @param source - Text of a single paragraph line or list item
+ * @returns Inline nodes
+ */
+export function parseInline(source: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let text = '';
+  let index = 0;
+
+  const flush = () => {
+    if (text) {
+      nodes.push({ type: 'text', text });
+      text = '';
+    }
+  };
+
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const atBoundary = index === 0 || !/\w/.test(source[index - 1]);
+    let matched = false;
+
+    for (const rule of INLINE_RULES) {
+      if (rule.boundary && !atBoundary) continue;
+
+      const match = rule.pattern.exec(rest);
+      if (!match) continue;
+
+      flush();
+      nodes.push(...[rule.build(match)].flat());
+      index += match[0].length;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      text += source[index];
+      index++;
+    }
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Parse lines of a paragraph, keeping line breaks.
+ */
+function parseLines(lines: string[]): MarkdownInline[] {
+  return lines.flatMap((line, index) => {
+    const children = parseInline(line.trim());
+    return index === 0 ? children : [{ type: 'break' as const }, ...children];
+  });
+}
+
+function isBlockStart(line: string): boolean {
+  return (
+    HEADING.test(line) || FENCE.test(line) || BULLET_ITEM.test(line) || ORDERED_ITEM.test(line)
+  );
+}
+
+/**
+ * Parse the text of a list item, picking up a leading task checkbox.
+ */
+function parseListItem(text: string, line: number): MarkdownListItem {
+  const task = TASK_ITEM.exec(text);
+  if (task) {
+    return {
+      children: parseInline((task[2] ?? '').trim()),
+      checked: task[1] !== ' ',
+      line,
+    };
+  }
+  return { children: parseInline(text.trim()), line };
+}
+
+/**
+ * Parse markdown into block nodes.
+ *
+ * @param source - Markdown text
+ * @returns Block nodes in document order
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    // Fenced code block; an unclosed fence runs to the end of the text
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !FENCE.test(lines[index])) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push({ type: 'code', lang: fence[1] || null, text: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as MarkdownHeadingLevel,
+        children: parseInline(heading[2]),
+      });
+      index++;
+      continue;
+    }
+
+    // Consecutive items of the same kind form one list
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || BULLET_ITEM.test(line)) {
+      const pattern = ordered ? ORDERED_ITEM : BULLET_ITEM;
+      const items: MarkdownListItem[] = [];
+      let match: RegExpExecArray | null;
+      while (index < lines.length && (match = pattern.exec(lines[index]))) {
+        items.push(parseListItem(match[1], index));
+        index++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() && !isBlockStart(lines[index])) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    blocks.push({ type: 'paragraph', children: parseLines(paragraph) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Flip the checkbox of the task list item on a source line.
+ *
+ * @param source - Markdown text
+ * @param line - Zero-based line of the item, as reported by parseMarkdown
+ * @returns Updated markdown, or the source unchanged if the line is not a task item
+ */
+export function toggleTaskListItem(source: string, line: number): string {
+  // Keep the separators so the original line endings survive
+  const parts = source.split(/(\r\n?|\n)/);
+  const target = parts[line * 2];
+  if (target === undefined || !TASK_MARKER.test(target)) {
+    return source;
+  }
+
+  parts[line * 2] = target.replace(
+    TASK_MARKER,
+    (_, open: string, mark: string, close: string) => open + (mark === ' ' ? 'x' : ' ') + close
+  );
+  return parts.join('');
+}
+
+function inlineToText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'break':
+          return ' ';
+        default:
+          return inlineToText(node.children);
+      }
+    })
+    .join('');
+}
+
+/**
+ * Strip markdown syntax for compact previews such as task cards.
+ *
+ * @param source - Markdown text
+ * @returns Text of each block on its own line
+ */
+export function markdownToPlainText(source: string): string {
+  return parseMarkdown(source)
+    .flatMap((block) => {
+      switch (block.type) {
+        case 'code':
+          return [block.text];
+        case 'list':
+          return block.items.map((item) => inlineToText(item.children));
+        default:
+          return [inlineToText(block.children)];
+      }
+    })
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,39 @@
+/**
+ * Markdown Type Definitions
+ *
+ * Syntax tree produced by the markdown parser. Rendering walks this tree
+ * instead of injecting HTML, so user input can never produce markup.
+ */
+
+/**
+ * Inline content of a paragraph or list item.
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+/**
+ * Item of a bullet or numbered list.
+ */
+export interface MarkdownListItem {
+  children: MarkdownInline[];
+  /** Set for task list items (`- [ ]` / `- [x]`) */
+  checked?: boolean;
+  /** Zero-based source line of the item, used to toggle task items */
+  line: number;
+}
+
+export type MarkdownHeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Block-level node.
+ */
+export type MarkdownBlock =
+  | { type: 'heading'; level: MarkdownHeadingLevel; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; lang: string | null; text: string }
+  | { type: 'list'; ordered: boolean; items: MarkdownListItem[] };
@@ -0,0 +1,8 @@
+/**
+ * Ordering module exports.
+ */
+
+export * from './types';
+export * from './schemas';
+export * from './rank';
+export * from './service';
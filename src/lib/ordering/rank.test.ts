@@ -0,0 +1,87 @@
+/**
+ * Rank Utility Tests
+ */
+
+import {
+  CROWDED_RANK_GAP,
+  RANK_STEP,
+  getItemsToMove,
+  getMoveIndex,
+  getRankBetween,
+  getSpreadRanks,
+  needsRebalance,
+} from './rank';
+
+describe('Rank Utilities', () => {
+  describe('getRankBetween', () => {
+    it('should return the midpoint between two neighbours', () => {
+      expect(getRankBetween(1024, 2048)).toBe(1536);
+      expect(getRankBetween(null, 1)).toBe(0.5);
+    });
+
+    it('should step past the last item and start an empty list', () => {
+      expect(getRankBetween(2048, null)).toBe(2048 + RANK_STEP);
+      expect(getRankBetween(null, null)).toBe(RANK_STEP);
+    });
+
+    it('should return null when there is no room between the neighbours', () => {
+      expect(getRankBetween(3, 3)).toBeNull();
+      expect(getRankBetween(1, 1 + 1e-7)).toBeNull();
+      expect(getRankBetween(null, 0)).toBeNull();
+    });
+  });
+
+  describe('getSpreadRanks', () => {
+    it('should return evenly spaced ranks', () => {
+      expect(getSpreadRanks(3)).toEqual([RANK_STEP, 2 * RANK_STEP, 3 * RANK_STEP]);
+    });
+  });
+
+  describe('needsRebalance', () => {
+    it('should flag crowded gaps but not ties', () => {
+      expect(needsRebalance([1, 1 + CROWDED_RANK_GAP / 2, 2])).toBe(true);
+      expect(needsRebalance([0, 0, 0])).toBe(false);
+      expect(needsRebalance(getSpreadRanks(4))).toBe(false);
+    });
+  });
+
+  describe('getMoveIndex', () => {
+    const ids = ['a', 'b', 'c'];
+
+    it('should place an item after or before a neighbour', () => {
+      expect(getMoveIndex(ids, { afterId: 'b' })).toBe(2);
+      expect(getMoveIndex(ids, { beforeId: 'b' })).toBe(1);
+      expect(getMoveIndex(ids, { afterId: 'a', beforeId: 'c' })).toBe(1);
+    });
+
+    it('should move to the start or the end', () => {
+      expect(getMoveIndex(ids, { afterId: null })).toBe(0);
+      expect(getMoveIndex(ids, { beforeId: null })).toBe(3);
+    });
+
+    it('should return null for an unknown neighbour', () => {
+      expect(getMoveIndex(ids, { afterId: 'x' })).toBeNull();
+      expect(getMoveIndex(ids, { beforeId: 'x' })).toBeNull();
+    });
+  });
+
+  describe('getItemsToMove', () => {
+    const current = new Map(['a', 'b', 'c', 'd', 'e'].map((id, index) => [id, index]));
+
+    it('should move only a dragged item', () => {
+      expect(getItemsToMove(['a', 'd', 'b', 'c', 'e'], current)).toEqual(['d']);
+      expect(getItemsToMove(['e', 'a', 'b', 'c', 'd'], current)).toEqual(['e']);
+      expect(getItemsToMove(['b', 'c', 'd', 'e', 'a'], current)).toEqual(['a']);
+    });
+
+    it('should move nothing when the order is unchanged', () => {
+      expect(getItemsToMove(['a', 'b', 'c', 'd', 'e'], current)).toEqual([]);
+      expect(getItemsToMove(['b', 'd'], current)).toEqual([]);
+    });
+
+    it('should keep the longest run in order', () => {
+      expect(getItemsToMove(['e', 'd', 'c', 'b', 'a'], current)).toHaveLength(4);
+      expect(getItemsToMove(['b', 'a', 'd', 'c', 'e'], current)).toHaveLength(2);
+    });
+  });
+});
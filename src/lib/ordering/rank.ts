@@ -0,0 +1,125 @@
+/**
+ * Rank Utilities
+ *
+ * Fractional ranks: an item moved between two others gets the midpoint of
+ * their ranks. Repeated moves into the same gap halve it each time, so once
+ * it gets too small the ranks are spread out again.
+ */
+
+import type { RankPosition } from './types';
+
+/** Distance between ranks after spreading them out */
+export const RANK_STEP = 1024;
+
+/** Smallest gap a midpoint can still be placed in */
+export const MIN_RANK_GAP = 1e-6;
+
+/** Gaps below this are spread out by the rebalancing job: 20 moves into one gap */
+export const CROWDED_RANK_GAP = RANK_STEP / 2 ** 20;
+
+/**
+ * Get a rank between two neighbours.
+ *
+ * @param before - Rank of the item before, or null at the start
+ * @param after - Rank of the item after, or null at the end
+ * @returns The new rank, or null if there is no room left between them
+ */
+export function getRankBetween(before: number | null, after: number | null): number | null {
+  if (before === null && after === null) {
+    return RANK_STEP;
+  }
+
+  if (after === null) {
+    return (before ?? 0) + RANK_STEP;
+  }
+
+  // Ranks stay non-negative, so the start is rank 0
+  const low = before ?? 0;
+  if (after - low < MIN_RANK_GAP * 2) {
+    return null;
+  }
+
+  return (low + after) / 2;
+}
+
+/**
+ * Get evenly spread ranks for a number of items.
+ */
+export function getSpreadRanks(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => (index + 1) * RANK_STEP);
+}
+
+/**
+ * Whether ordered ranks have a crowded gap that should be spread out before
+ * moves run out of room. Equal ranks are left alone; ties are ordered by ID.
+ */
+export function needsRebalance(ranks: number[]): boolean {
+  return ranks.some((rank, index) => {
+    const gap = index > 0 ? rank - ranks[index - 1] : 0;
+    return gap > 0 && gap < CROWDED_RANK_GAP;
+  });
+}
+
+/**
+ * Get the index an item moves to among the other items, in order.
+ *
+ * @param ids - IDs of the other items, in order
+ * @param position - The moved item's new neighbours; `afterId` wins if both are given
+ * @returns The index, or null if a neighbour is not among the items
+ */
+export function getMoveIndex(ids: string[], position: RankPosition): number | null {
+  const { afterId, beforeId } = position;
+
+  if (afterId !== undefined) {
+    if (afterId === null) {
+      return 0;
+    }
+    const index = ids.indexOf(afterId);
+    return index === -1 ? null : index + 1;
+  }
+
+  if (beforeId === undefined || beforeId === null) {
+    return ids.length;
+  }
+
+  const index = ids.indexOf(beforeId);
+  return index === -1 ? null : index;
+}
+
+/**
+ * Get the fewest items to move to turn the current order into a new one:
+ * those outside a longest run of items already in the right relative order.
+ * Dragging one item therefore moves only that item.
+ *
+ * @param ids - IDs in their new order
+ * @param currentIndex - Position of each ID in the current order
+ * @returns IDs to move, in their new order
+ */
+export function getItemsToMove(ids: string[], currentIndex: Map<string, number>): string[] {
+  // Longest increasing subsequence of current positions, by patience sorting
+  const tails: number[] = [];
+  const previous: number[] = [];
+
+  ids.forEach((id, index) => {
+    const position = currentIndex.get(id) ?? 0;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if ((currentIndex.get(ids[tails[middle]]) ?? 0) < position) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const kept = new Set<number>();
+  for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = previous[index]) {
+    kept.add(index);
+  }
+
+  return ids.filter((_, index) => !kept.has(index));
+}
@@ -0,0 +1,38 @@
+/**
+ * Ordering Validation Schemas
+ *
+ * Zod schemas for validating move requests.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Ordered item type enum.
+ */
+export const OrderedModelEnum = z.enum(['task', 'list', 'tag', 'habit', 'goal']);
+
+/**
+ * Schema for the route parameters identifying the item to move.
+ */
+export const MoveItemParamsSchema = z.object({
+  type: OrderedModelEnum,
+  id: z.string().cuid('Invalid item ID'),
+});
+
+/**
+ * Schema for moving an item, given by its new neighbours.
+ */
+export const MoveItemSchema = z
+  .object({
+    afterId: z.string().cuid('Invalid item ID').nullable().optional(),
+    beforeId: z.string().cuid('Invalid item ID').nullable().optional(),
+  })
+  .refine((data) => data.afterId !== undefined || data.beforeId !== undefined, {
+    message: 'Either afterId or beforeId is required',
+  });
+
+/**
+ * Infer TypeScript types from schemas.
+ */
+export type MoveItemParams = z.infer<typeof MoveItemParamsSchema>;
+export type MoveItemInput = z.infer<typeof MoveItemSchema>;
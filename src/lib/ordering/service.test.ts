@@ -0,0 +1,213 @@
+/**
+ * Ordering Service Tests
+ *
+ * Tests for moving items by rank and rebalancing crowded ranks.
+ */
+
+import { db } from '@/lib/db';
+import { moveItem, rebalanceCrowdedRanks, rebalanceRanks, reorderItems } from './service';
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('@/lib/db', () => {
+  const createMockModel = () => ({
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+  });
+
+  return {
+    db: {
+      task: createMockModel(),
+      list: createMockModel(),
+      tag: createMockModel(),
+      habit: createMockModel(),
+      goal: createMockModel(),
+      user: { findMany: jest.fn() },
+      userEvent: { create: jest.fn() },
+      taskActivity: { createMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      $transaction: jest.fn(),
+    },
+  };
+});
+
+describe('Ordering Service', () => {
+  const userId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    for (const model of ['task', 'list', 'tag', 'habit', 'goal'] as const) {
+      (db[model].findMany as jest.Mock).mockResolvedValue([]);
+      (db[model].findFirst as jest.Mock).mockResolvedValue(null);
+      (db[model].update as jest.Mock).mockImplementation((args) => args);
+    }
+    (db.$transaction as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('moveItem', () => {
+    it('should read the neighbours and write only the moved item', async () => {
+      (db.task.findFirst as jest.Mock)
+        .mockResolvedValueOnce({ id: 'task-3', sortOrder: 3072 }) // moved item
+        .mockResolvedValueOnce({ id: 'task-1', sortOrder: 1024 }) // afterId
+        .mockResolvedValueOnce({ id: 'task-2', sortOrder: 2048 }); // next row
+
+      const rank = await moveItem('task', userId, 'task-3', { afterId: 'task-1' });
+
+      expect(rank).toBe(1536);
+      expect(db.task.findFirst).toHaveBeenLastCalledWith({
+        where: {
+          userId,
+          deletedAt: null,
+          id: { not: 'task-3' },
+          OR: [{ sortOrder: { gt: 1024 } }, { sortOrder: 1024, id: { gt: 'task-1' } }],
+        },
+        select: { id: true, sortOrder: true },
+        orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
+      });
+      expect(db.task.findMany).not.toHaveBeenCalled();
+      expect(db.task.update).toHaveBeenCalledTimes(1);
+      expect(db.task.update).toHaveBeenCalledWith({
+        where: { id: 'task-3' },
+        data: { sortOrder: 1536 },
+      });
+      expect(db.$transaction).not.toHaveBeenCalled();
+      expect(db.taskActivity.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            taskId: 'task-3',
+            userId,
+            field: 'sortOrder',
+            oldValue: '3072',
+            newValue: '1536',
+          }),
+        ],
+      });
+      expect(db.userEvent.create).toHaveBeenCalledWith({
+        data: { userId, type: 'task.updated', data: JSON.stringify({ taskIds: ['task-3'] }) },
+      });
+    });
+
+    it('should move an item after the last row', async () => {
+      (db.habit.findFirst as jest.Mock)
+        .mockResolvedValueOnce({ id: 'habit-1', sortOrder: 1024 }) // moved item
+        .mockResolvedValueOnce({ id: 'habit-3', sortOrder: 3072 }); // last row
+
+      const rank = await moveItem('habit', userId, 'habit-1', { beforeId: null });
+
+      expect(rank).toBe(4096);
+      expect(db.habit.findFirst).toHaveBeenLastCalledWith({
+        where: { userId, deletedAt: null, id: { not: 'habit-1' } },
+        select: { id: true, sortOrder: true },
+        orderBy: [{ sortOrder: 'desc' }, { id: 'desc' }],
+      });
+      expect(db.taskActivity.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should spread out ranks when the neighbours have no room left', async () => {
+      (db.list.findFirst as jest.Mock)
+        .mockResolvedValueOnce({ id: 'list-3', sortOrder: 0 }) // moved item
+        .mockResolvedValueOnce({ id: 'list-2', sortOrder: 0 }) // beforeId
+        .mockResolvedValueOnce({ id: 'list-1', sortOrder: 0 }); // previous row
+      (db.list.findMany as jest.Mock).mockResolvedValue([
+        { id: 'list-1', sortOrder: 0 },
+        { id: 'list-2', sortOrder: 0 },
+        { id: 'list-3', sortOrder: 0 },
+      ]);
+
+      const rank = await moveItem('list', userId, 'list-3', { beforeId: 'list-2' });
+
+      expect(rank).toBe(2048);
+      expect(db.$transaction).toHaveBeenCalledWith([
+        { where: { id: 'list-1' }, data: { sortOrder: 1024 } },
+        { where: { id: 'list-3' }, data: { sortOrder: 2048 } },
+        { where: { id: 'list-2' }, data: { sortOrder: 3072 } },
+      ]);
+    });
+
+    it('should return null when the item or a neighbour is not found', async () => {
+      expect(await moveItem('tag', userId, 'tag-9', { afterId: null })).toBeNull();
+
+      (db.tag.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'tag-1', sortOrder: 1024 });
+      expect(await moveItem('tag', userId, 'tag-1', { afterId: 'tag-9' })).toBeNull();
+      expect(db.tag.update).not.toHaveBeenCalled();
+    });
+
+    it('should not move an item next to itself', async () => {
+      await expect(moveItem('goal', userId, 'goal-1', { beforeId: 'goal-1' })).rejects.toThrow(
+        'Cannot move an item next to itself'
+      );
+    });
+  });
+
+  describe('reorderItems', () => {
+    it('should move only the dragged item', async () => {
+      (db.goal.findMany as jest.Mock).mockResolvedValue([
+        { id: 'goal-a', sortOrder: 1024 },
+        { id: 'goal-b', sortOrder: 2048 },
+        { id: 'goal-c', sortOrder: 3072 },
+      ]);
+      (db.goal.findFirst as jest.Mock)
+        .mockResolvedValueOnce({ id: 'goal-c', sortOrder: 3072 }) // moved item
+        .mockResolvedValueOnce({ id: 'goal-a', sortOrder: 1024 }) // afterId
+        .mockResolvedValueOnce({ id: 'goal-b', sortOrder: 2048 }); // next row
+
+      const count = await reorderItems('goal', userId, ['goal-a', 'goal-c', 'goal-b']);
+
+      expect(count).toBe(1);
+      expect(db.goal.findMany).toHaveBeenCalledWith({
+        where: { userId, deletedAt: null, id: { in: ['goal-a', 'goal-c', 'goal-b'] } },
+        select: { id: true, sortOrder: true },
+        orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
+      });
+      expect(db.goal.update).toHaveBeenCalledTimes(1);
+      expect(db.goal.update).toHaveBeenCalledWith({
+        where: { id: 'goal-c' },
+        data: { sortOrder: 1536 },
+      });
+    });
+
+    it('should write nothing when the order is unchanged', async () => {
+      (db.goal.findMany as jest.Mock).mockResolvedValue([
+        { id: 'goal-a', sortOrder: 1024 },
+        { id: 'goal-b', sortOrder: 2048 },
+      ]);
+
+      expect(await reorderItems('goal', userId, ['goal-a', 'goal-b', 'goal-x'])).toBe(0);
+      expect(db.goal.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rebalanceRanks', () => {
+    it('should rewrite only the ranks that change', async () => {
+      (db.habit.findMany as jest.Mock).mockResolvedValue([
+        { id: 'habit-1', sortOrder: 1024 },
+        { id: 'habit-2', sortOrder: 1024.5 },
+      ]);
+
+      expect(await rebalanceRanks('habit', userId)).toBe(1);
+      expect(db.$transaction).toHaveBeenCalledWith([
+        { where: { id: 'habit-2' }, data: { sortOrder: 2048 } },
+      ]);
+    });
+  });
+
+  describe('rebalanceCrowdedRanks', () => {
+    it('should only rebalance crowded rankings', async () => {
+      (db.user.findMany as jest.Mock).mockResolvedValue([{ id: userId }]);
+      (db.task.findMany as jest.Mock).mockResolvedValue([
+        { id: 'task-1', sortOrder: 1 },
+        { id: 'task-2', sortOrder: 1.0000001 },
+      ]);
+      (db.goal.findMany as jest.Mock).mockResolvedValue([
+        { id: 'goal-1', sortOrder: 1 },
+        { id: 'goal-2', sortOrder: 7 },
+      ]);
+
+      expect(await rebalanceCrowdedRanks()).toBe(2);
+      expect(db.$transaction).toHaveBeenCalledTimes(1);
+      expect(db.goal.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Ordering Service
+ *
+ * Moves tasks, lists, tags, habits and goals by giving them a rank between
+ * their new neighbours, so a move reads the neighbours and writes the moved
+ * row only. When a gap has
+ * no room left, the user's ranks of that kind are spread out again; the
+ * rebalancing job does the same ahead of time for crowded gaps.
+ */
+
+import { db } from '@/lib/db';
+import { publishEventSafely } from '@/lib/events/service';
+import type { Prisma } from '@prisma/client';
+import { diffTaskFields, recordTaskActivity } from '@/lib/tasks/activity';
+import {
+  getItemsToMove,
+  getMoveIndex,
+  getRankBetween,
+  getSpreadRanks,
+  needsRebalance,
+} from './rank';
+import type { OrderedModel, RankPosition } from './types';
+
+interface RankedRow {
+  id: string;
+  sortOrder: number;
+}
+
+const rankSelect = { id: true, sortOrder: true } as const;
+const rankOrderBy = [{ sortOrder: 'asc' as const }, { id: 'asc' as const }];
+const reverseRankOrderBy = [{ sortOrder: 'desc' as const }, { id: 'desc' as const }];
+
+/**
+ * Query for the row right next to another in rank order, skipping the moved
+ * item. Without a row to start from, it finds the first or last row.
+ */
+function getAdjacentQuery(
+  userId: string,
+  excludeId: string,
+  from: RankedRow | null,
+  direction: 'next' | 'previous'
+) {
+  const next = direction === 'next';
+
+  return {
+    where: {
+      userId,
+      deletedAt: null,
+      id: { not: excludeId },
+      ...(from && {
+        OR: next
+          ? [
+              { sortOrder: { gt: from.sortOrder } },
+              { sortOrder: from.sortOrder, id: { gt: from.id } },
+            ]
+          : [
+              { sortOrder: { lt: from.sortOrder } },
+              { sortOrder: from.sortOrder, id: { lt: from.id } },
+            ],
+      }),
+    },
+    select: rankSelect,
+    orderBy: next ? rankOrderBy : reverseRankOrderBy,
+  };
+}
+
+type AdjacentQuery = ReturnType<typeof getAdjacentQuery>;
+
+/**
+ * Rank access for one kind of entity.
+ */
+interface RankDelegate {
+  /** A user's rows in rank order, ties broken by ID; optionally only some of them */
+  findRanks: (userId: string, ids?: string[]) => Promise<RankedRow[]>;
+  /** One of the user's rows */
+  findRank: (userId: string, id: string) => Promise<RankedRow | null>;
+  /** The row found by an adjacent query */
+  findAdjacent: (query: AdjacentQuery) => Promise<RankedRow | null>;
+  /** Write one row's rank, for use in a transaction */
+  setRank: (id: string, sortOrder: number) => Prisma.PrismaPromise<unknown>;
+}
+
+function getRanksWhere(userId: string, ids?: string[]) {
+  return { userId, deletedAt: null, ...(ids && { id: { in: ids } }) };
+}
+
+const delegates: Record<OrderedModel, RankDelegate> = {
+  task: {
+    findRanks: (userId, ids) =>
+      db.task.findMany({
+        where: getRanksWhere(userId, ids),
+        select: rankSelect,
+        orderBy: rankOrderBy,
+      }),
+    findRank: (userId, id) =>
+      db.task.findFirst({ where: { id, userId, deletedAt: null }, select: rankSelect }),
+    findAdjacent: (query) => db.task.findFirst(query),
+    setRank: (id, sortOrder) => db.task.update({ where: { id }, data: { sortOrder } }),
+  },
+  list: {
+    findRanks: (userId, ids) =>
+      db.list.findMany({
+        where: getRanksWhere(userId, ids),
+        select: rankSelect,
+        orderBy: rankOrderBy,
+      }),
+    findRank: (userId, id) =>
+      db.list.findFirst({ where: { id, userId, deletedAt: null }, select: rankSelect }),
+    findAdjacent: (query) => db.list.findFirst(query),
+    setRank: (id, sortOrder) => db.list.update({ where: { id }, data: { sortOrder } }),
+  },
+  tag: {
+    findRanks: (userId, ids) =>
+      db.tag.findMany({
+        where: getRanksWhere(userId, ids),
+        select: rankSelect,
+        orderBy: rankOrderBy,
+      }),
+    findRank: (userId, id) =>
+      db.tag.findFirst({ where: { id, userId, deletedAt: null }, select: rankSelect }),
+    findAdjacent: (query) => db.tag.findFirst(query),
+    setRank: (id, sortOrder) => db.tag.update({ where: { id }, data: { sortOrder } }),
+  },
+  habit: {
+    findRanks: (userId, ids) =>
+      db.habit.findMany({
+        where: getRanksWhere(userId, ids),
+        select: rankSelect,
+        orderBy: rankOrderBy,
+      }),
+    findRank: (userId, id) =>
+      db.habit.findFirst({ where: { id, userId, deletedAt: null }, select: rankSelect }),
+    findAdjacent: (query) => db.habit.findFirst(query),
+    setRank: (id, sortOrder) => db.habit.update({ where: { id }, data: { sortOrder } }),
+  },
+  goal: {
+    findRanks: (userId, ids) =>
+      db.goal.findMany({
+        where: getRanksWhere(userId, ids),
+        select: rankSelect,
+        orderBy: rankOrderBy,
+      }),
+    findRank: (userId, id) =>
+      db.goal.findFirst({ where: { id, userId, deletedAt: null }, select: rankSelect }),
+    findAdjacent: (query) => db.goal.findFirst(query),
+    setRank: (id, sortOrder) => db.goal.update({ where: { id }, data: { sortOrder } }),
+  },
+};
+
+/**
+ * Give rows evenly spread ranks in their current order, writing the rows
+ * whose rank changes.
+ *
+ * @returns Number of rows rewritten
+ */
+async function spreadRanks(model: OrderedModel, rows: RankedRow[]): Promise<number> {
+  const ranks = getSpreadRanks(rows.length);
+  const changed = rows.flatMap((row, index) =>
+    row.sortOrder === ranks[index] ? [] : [{ id: row.id, sortOrder: ranks[index] }]
+  );
+
+  if (changed.length > 0) {
+    await db.$transaction(changed.map((row) => delegates[model].setRank(row.id, row.sortOrder)));
+  }
+
+  return changed.length;
+}
+
+/**
+ * Move an item next to other items of the same kind.
+ *
+ * Only the item and its new neighbours are read, and usually only the item
+ * is written. If its new neighbours have no room left between them, all of
+ * the user's items of that kind are spread out.
+ *
+ * @param model - Kind of item
+ * @param userId - User ID for authorization
+ * @param id - ID of the item to move
+ * @param position - The item's new neighbours
+ * @returns The item's new rank, or null if the item or a neighbour is not found
+ */
+export async function moveItem(
+  model: OrderedModel,
+  userId: string,
+  id: string,
+  position: RankPosition
+): Promise<number | null> {
+  if (position.afterId === id || position.beforeId === id) {
+    throw new Error('Cannot move an item next to itself');
+  }
+
+  const delegate = delegates[model];
+  const item = await delegate.findRank(userId, id);
+
+  if (!item) {
+    return null;
+  }
+
+  // The neighbour given by ID, then the one on its other side
+  const { afterId, beforeId } = position;
+  let before: RankedRow | null;
+  let after: RankedRow | null;
+
+  if (afterId !== undefined) {
+    before = afterId === null ? null : await delegate.findRank(userId, afterId);
+    if (afterId !== null && !before) {
+      return null;
+    }
+    after = await delegate.findAdjacent(getAdjacentQuery(userId, id, before, 'next'));
+  } else {
+    after = beforeId ? await delegate.findRank(userId, beforeId) : null;
+    if (beforeId && !after) {
+      return null;
+    }
+    before = await delegate.findAdjacent(getAdjacentQuery(userId, id, after, 'previous'));
+  }
+
+  let rank = getRankBetween(before?.sortOrder ?? null, after?.sortOrder ?? null);
+
+  if (rank === null) {
+    // No room between the neighbours: spread everything out with the item in place
+    const others = (await delegate.findRanks(userId)).filter((row) => row.id !== id);
+    const index =
+      getMoveIndex(
+        others.map((row) => row.id),
+        position
+      ) ?? others.length;
+    await spreadRanks(model, [...others.slice(0, index), item, ...others.slice(index)]);
+    rank = getSpreadRanks(index + 1)[index];
+  } else {
+    await delegate.setRank(id, rank);
+  }
+
+  if (model === 'task') {
+    await recordTaskActivity(userId, [
+      { taskId: id, changes: diffTaskFields({ sortOrder: item.sortOrder }, { sortOrder: rank }) },
+    ]);
+  }
+  await publishMove(model, userId, [id]);
+
+  return rank;
+}
+
+/**
+ * Put items of the same kind in a new order by moving as few of them as
+ * possible, so a drag-and-drop that sends the whole order still writes only
+ * the dragged item. Items not in the order keep their ranks.
+ *
+ * @param model - Kind of item
+ * @param userId - User ID for authorization
+ * @param ids - IDs in their new order; unknown IDs are ignored
+ * @returns Number of items moved
+ */
+export async function reorderItems(
+  model: OrderedModel,
+  userId: string,
+  ids: string[]
+): Promise<number> {
+  const rows = await delegates[model].findRanks(userId, ids);
+  const currentIndex = new Map(rows.map((row, index) => [row.id, index]));
+  const order = [...new Set(ids)].filter((id) => currentIndex.has(id));
+
+  const toMove = getItemsToMove(order, currentIndex);
+  const moving = new Set(toMove);
+
+  let count = 0;
+  for (const id of toMove) {
+    // Items before this one in the new order are already in place
+    const index = order.indexOf(id);
+    const position =
+      index > 0
+        ? { afterId: order[index - 1] }
+        : { beforeId: order.find((other) => !moving.has(other)) ?? null };
+
+    if ((await moveItem(model, userId, id, position)) !== null) {
+      count++;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Put items in the order of their requested sort orders, moving as few of
+ * them as possible. Used by the bulk reorder endpoints, whose clients send
+ * the renumbered order of every item.
+ *
+ * @param model - Kind of item
+ * @param userId - User ID for authorization
+ * @param orders - Array of { id, sortOrder } pairs
+ * @returns Number of items moved
+ */
+export async function applyItemOrders(
+  model: OrderedModel,
+  userId: string,
+  orders: Array<{ id: string; sortOrder: number }>
+): Promise<number> {
+  const ids = [...orders].sort((a, b) => a.sortOrder - b.sortOrder).map((order) => order.id);
+  return reorderItems(model, userId, ids);
+}
+
+/**
+ * Let the user's open tabs know that tasks or lists moved.
+ */
+async function publishMove(model: OrderedModel, userId: string, ids: string[]): Promise<void> {
+  if (model === 'task') {
+    await publishEventSafely(userId, 'task.updated', { taskIds: ids });
+  } else if (model === 'list') {
+    await publishEventSafely(userId, 'list.updated', { listIds: ids });
+  }
+}
+
+/**
+ * Spread out a user's ranks of one kind, keeping their order.
+ *
+ * @param model - Kind of item
+ * @param userId - User whose items to rebalance
+ * @returns Number of rows rewritten
+ */
+export async function rebalanceRanks(model: OrderedModel, userId: string): Promise<number> {
+  return spreadRanks(model, await delegates[model].findRanks(userId));
+}
+
+/**
+ * Spread out the ranks of every user and kind of item that has crowded
+ * gaps, before moves run out of room. Run periodically.
+ *
+ * @returns Number of rows rewritten
+ */
+export async function rebalanceCrowdedRanks(): Promise<number> {
+  const users = await db.user.findMany({ select: { id: true } });
+  let count = 0;
+
+  for (const user of users) {
+    for (const model of Object.keys(delegates) as OrderedModel[]) {
+      const rows = await delegates[model].findRanks(user.id);
+      if (needsRebalance(rows.map((row) => row.sortOrder))) {
+        count += await spreadRanks(model, rows);
+      }
+    }
+  }
+
+  return count;
+}
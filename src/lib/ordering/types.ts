@@ -0,0 +1,22 @@
+/**
+ * Ordering Type Definitions
+ *
+ * Tasks, lists, tags, habits and goals are ordered by a fractional
+ * `sortOrder` rank. Moving an item gives it a rank between its new
+ * neighbours, so only the moved row is written.
+ */
+
+/**
+ * Kind of entity ordered by rank.
+ */
+export type OrderedModel = 'task' | 'list' | 'tag' | 'habit' | 'goal';
+
+/**
+ * Where to move an item, given by its new neighbours.
+ */
+export interface RankPosition {
+  /** Item that ends up right before the moved item; null to move to the start */
+  afterId?: string | null;
+  /** Item that ends up right after the moved item; null to move to the end */
+  beforeId?: string | null;
+}
@@ -106,7 +106,7 @@ export async function createPomodoroSession(
   // Verify task exists if provided
   if (taskId) {
     const task = await db.task.findFirst({
-      where: { id: taskId, userId },
+      where: { id: taskId, userId, deletedAt: null },
     });
     if (!task) {
       throw new Error('Task not found');
@@ -0,0 +1,180 @@
+/**
+ * Push Encryption and VAPID Tests
+ *
+ * Decrypts messages the way a browser would and verifies VAPID tokens with
+ * the public key.
+ *
+ * @jest-environment node
+ */
+
+import {
+  createDecipheriv,
+  createECDH,
+  createPublicKey,
+  hkdfSync,
+  randomBytes,
+  verify,
+} from 'crypto';
+import { encryptPushPayload, MAX_PUSH_PAYLOAD_BYTES } from './encryption';
+import { createVapidToken, generateVapidKeys, getVapidAuthorization } from './vapid';
+
+function hkdf(ikm: Buffer, salt: Buffer, info: string | Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * Decrypt an aes128gcm message as the user agent (RFC 8291, section 3.4).
+ */
+function decrypt(body: Buffer, clientKeys: ReturnType<typeof createECDH>, authSecret: Buffer) {
+  const salt = body.subarray(0, 16);
+  const recordSize = body.readUInt32BE(16);
+  const keyIdLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+  const record = body.subarray(21 + keyIdLength);
+
+  const ikm = hkdf(
+    clientKeys.computeSecret(serverPublicKey),
+    authSecret,
+    Buffer.concat([Buffer.from('WebPush: info\0'), clientKeys.getPublicKey(), serverPublicKey]),
+    32
+  );
+  const decipher = createDecipheriv(
+    'aes-128-gcm',
+    hkdf(ikm, salt, 'Content-Encoding: aes128gcm\0', 16),
+    hkdf(ikm, salt, 'Content-Encoding: nonce\0', 12)
+  );
+  decipher.setAuthTag(record.subarray(record.length - 16));
+  const padded = Buffer.concat([
+    decipher.update(record.subarray(0, record.length - 16)),
+    decipher.final(),
+  ]);
+
+  return { recordSize, keyIdLength, plaintext: padded.subarray(0, padded.lastIndexOf(2)) };
+}
+
+describe('Push Encryption', () => {
+  const client = createECDH('prime256v1');
+  client.generateKeys();
+  const authSecret = randomBytes(16);
+  const keys = {
+    p256dh: client.getPublicKey().toString('base64url'),
+    auth: authSecret.toString('base64url'),
+  };
+
+  it('should encrypt a payload that the subscriber can decrypt', () => {
+    const body = encryptPushPayload('{"title":"Reminder"}', keys);
+    const { recordSize, keyIdLength, plaintext } = decrypt(body, client, authSecret);
+
+    expect(recordSize).toBe(4096);
+    expect(keyIdLength).toBe(65);
+    expect(plaintext.toString('utf8')).toBe('{"title":"Reminder"}');
+  });
+
+  it('should use a fresh key and salt for every message', () => {
+    const first = encryptPushPayload('same', keys);
+    const second = encryptPushPayload('same', keys);
+
+    expect(first.subarray(0, 16).equals(second.subarray(0, 16))).toBe(false);
+    expect(first.subarray(21, 86).equals(second.subarray(21, 86))).toBe(false);
+  });
+
+  it('should be deterministic with a fixed salt and sender key', () => {
+    const options = { salt: randomBytes(16), privateKey: randomBytes(32) };
+
+    expect(encryptPushPayload('same', keys, options)).toEqual(
+      encryptPushPayload('same', keys, options)
+    );
+  });
+
+  it('should match the RFC 8291 example message', () => {
+    // Appendix A: the user agent keys, sender key and salt are fixed
+    const body = encryptPushPayload(
+      'When I grow up, I want to be a watermelon',
+      {
+        p256dh:
+          'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+        auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+      },
+      {
+        salt: Buffer.from('DGv6ra1nlYgDCS1FRnbzlw', 'base64url'),
+        privateKey: Buffer.from('yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw', 'base64url'),
+      }
+    );
+
+    expect(body.toString('base64url')).toBe(
+      'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWA' +
+        'mS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSx' +
+        'sj_Qulcy4a-fN'
+    );
+  });
+
+  it('should reject payloads that do not fit in one record', () => {
+    expect(() => encryptPushPayload('x'.repeat(MAX_PUSH_PAYLOAD_BYTES), keys)).not.toThrow();
+    expect(() => encryptPushPayload('x'.repeat(MAX_PUSH_PAYLOAD_BYTES + 1), keys)).toThrow(
+      'Push payload cannot exceed'
+    );
+  });
+
+  it('should reject invalid subscription keys', () => {
+    expect(() => encryptPushPayload('hi', { ...keys, auth: 'c2hvcnQ' })).toThrow(
+      'Invalid push subscription keys'
+    );
+  });
+});
+
+describe('VAPID', () => {
+  const vapidKeys = { ...generateVapidKeys(), subject: 'mailto:admin@example.com' };
+  const endpoint = 'https://push.example.com/send/abc123';
+  const now = new Date('2026-05-01T09:00:00Z');
+
+  it('should generate an uncompressed P-256 key pair', () => {
+    expect(Buffer.from(vapidKeys.publicKey, 'base64url')).toHaveLength(65);
+    expect(Buffer.from(vapidKeys.privateKey, 'base64url')).toHaveLength(32);
+  });
+
+  it('should sign a token for the push service origin', () => {
+    const [header, claims, signature] = createVapidToken(endpoint, vapidKeys, now).split('.');
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({
+      typ: 'JWT',
+      alg: 'ES256',
+    });
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toEqual({
+      aud: 'https://push.example.com',
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: 'mailto:admin@example.com',
+    });
+
+    const publicKey = Buffer.from(vapidKeys.publicKey, 'base64url');
+    const key = createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+
+    expect(
+      verify(
+        'sha256',
+        Buffer.from(`${header}.${claims}`),
+        { key, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url')
+      )
+    ).toBe(true);
+  });
+
+  it('should build the Authorization header with the public key', () => {
+    expect(getVapidAuthorization(endpoint, vapidKeys, now)).toMatch(
+      new RegExp(`^vapid t=[\\w-]+\\.[\\w-]+\\.[\\w-]+, k=${vapidKeys.publicKey}$`)
+    );
+  });
+
+  it('should reject a malformed public key', () => {
+    expect(() => createVapidToken(endpoint, { ...vapidKeys, publicKey: 'abc' }, now)).toThrow(
+      'VAPID public key must be an uncompressed P-256 key'
+    );
+  });
+});
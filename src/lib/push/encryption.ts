@@ -0,0 +1,94 @@
+/**
+ * Push Payload Encryption
+ *
+ * Message encryption for Web Push (RFC 8291) in the aes128gcm content coding
+ * (RFC 8188). Each message uses a fresh key pair and salt; only the browser
+ * holding the subscription's private key and auth secret can read it.
+ */
+
+import { createCipheriv, createECDH, hkdfSync, randomBytes } from 'crypto';
+import type { PushSubscriptionInput } from './types';
+
+/** Record size; a push message is always a single record */
+const RECORD_SIZE = 4096;
+
+/** Salt, record size, key ID length and a 65-byte key ID */
+const HEADER_LENGTH = 16 + 4 + 1 + 65;
+
+/** AES-GCM tag length */
+const TAG_LENGTH = 16;
+
+/** Largest payload that fits in one record after its delimiter and tag */
+export const MAX_PUSH_PAYLOAD_BYTES = RECORD_SIZE - HEADER_LENGTH - TAG_LENGTH - 1;
+
+export interface EncryptOptions {
+  /** Salt (default: random) */
+  salt?: Buffer;
+  /** Sender private key (default: a new key pair) */
+  privateKey?: Buffer;
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * Encrypt a payload for a subscription.
+ *
+ * @param payload - Message to encrypt
+ * @param keys - Subscription keys
+ * @param options - Fixed salt and sender key, for tests
+ * @returns Request body in the aes128gcm content coding
+ * @throws Error if the payload is too large or the keys are invalid
+ */
+export function encryptPushPayload(
+  payload: string | Buffer,
+  keys: PushSubscriptionInput['keys'],
+  options: EncryptOptions = {}
+): Buffer {
+  const plaintext = typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload;
+  if (plaintext.length > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new Error(`Push payload cannot exceed ${MAX_PUSH_PAYLOAD_BYTES} bytes`);
+  }
+
+  const clientPublicKey = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+  if (clientPublicKey.length !== 65 || authSecret.length !== 16) {
+    throw new Error('Invalid push subscription keys');
+  }
+
+  const ecdh = createECDH('prime256v1');
+  if (options.privateKey) {
+    ecdh.setPrivateKey(options.privateKey);
+  } else {
+    ecdh.generateKeys();
+  }
+  const serverPublicKey = ecdh.getPublicKey();
+  const sharedSecret = ecdh.computeSecret(clientPublicKey);
+
+  const ikm = hkdf(
+    sharedSecret,
+    authSecret,
+    Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]),
+    32
+  );
+
+  const salt = options.salt ?? randomBytes(16);
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([plaintext, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
@@ -0,0 +1,10 @@
+/**
+ * Push Notification Module Exports
+ */
+
+export * from './types';
+export * from './schemas';
+export * from './service';
+export * from './utils';
+export { encryptPushPayload, MAX_PUSH_PAYLOAD_BYTES } from './encryption';
+export { createVapidToken, generateVapidKeys, getVapidAuthorization } from './vapid';
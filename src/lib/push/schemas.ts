@@ -0,0 +1,47 @@
+/**
+ * Push Notification Validation Schemas
+ *
+ * Zod schemas for push subscription validation and type inference
+ */
+
+import { z } from 'zod';
+
+const EndpointSchema = z
+  .string()
+  .min(1, 'Endpoint is required')
+  .max(2048, 'Endpoint is too long')
+  .refine((value) => {
+    try {
+      return new URL(value).protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }, 'Endpoint must be an https URL');
+
+const KeySchema = (name: string) =>
+  z
+    .string()
+    .min(1, `${name} is required`)
+    .max(256, `${name} is too long`)
+    .regex(/^[A-Za-z0-9_-]+=*$/, `${name} must be base64url encoded`);
+
+/**
+ * Subscribe Schema
+ */
+export const SubscribeSchema = z.object({
+  endpoint: EndpointSchema,
+  keys: z.object({
+    p256dh: KeySchema('p256dh key'),
+    auth: KeySchema('auth key'),
+  }),
+});
+
+/**
+ * Unsubscribe Schema
+ */
+export const UnsubscribeSchema = z.object({
+  endpoint: EndpointSchema,
+});
+
+export type SubscribeInput = z.infer<typeof SubscribeSchema>;
+export type UnsubscribeInput = z.infer<typeof UnsubscribeSchema>;
@@ -0,0 +1,158 @@
+/**
+ * Push Notification Service Tests
+ *
+ * Tests for saving subscriptions and sending notifications to push services.
+ *
+ * @jest-environment node
+ */
+
+import { createECDH, randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { sendPushNotification, subscribe, unsubscribe } from './service';
+import { generateVapidKeys } from './vapid';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    pushSubscription: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('Push Notification Service', () => {
+  const userId = 'user-1';
+  const fetchMock = jest.fn();
+
+  const makeSubscription = (id: string) => {
+    const client = createECDH('prime256v1');
+    client.generateKeys();
+    return {
+      id,
+      endpoint: `https://push.example.com/send/${id}`,
+      p256dh: client.getPublicKey().toString('base64url'),
+      auth: randomBytes(16).toString('base64url'),
+    };
+  };
+
+  beforeAll(() => {
+    const keys = generateVapidKeys();
+    process.env.VAPID_PUBLIC_KEY = keys.publicKey;
+    process.env.VAPID_PRIVATE_KEY = keys.privateKey;
+  });
+
+  afterAll(() => {
+    delete process.env.VAPID_PUBLIC_KEY;
+    delete process.env.VAPID_PRIVATE_KEY;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fetchMock.mockReset().mockResolvedValue(new Response(null, { status: 201 }));
+    global.fetch = fetchMock;
+    (db.pushSubscription.findMany as jest.Mock).mockResolvedValue([]);
+    (db.pushSubscription.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  describe('subscribe', () => {
+    it('should upsert the subscription by endpoint for the user', async () => {
+      const input = {
+        endpoint: 'https://push.example.com/send/abc',
+        keys: { p256dh: 'p256dh-key', auth: 'auth-key' },
+      };
+
+      await subscribe(userId, input, 'Firefox');
+
+      const data = { userId, p256dh: 'p256dh-key', auth: 'auth-key', userAgent: 'Firefox' };
+      expect(db.pushSubscription.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { endpoint: input.endpoint },
+          create: { endpoint: input.endpoint, ...data },
+          update: data,
+        })
+      );
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should only remove the subscription of the user', async () => {
+      (db.pushSubscription.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      expect(await unsubscribe(userId, 'https://push.example.com/send/abc')).toBe(false);
+      expect(db.pushSubscription.deleteMany).toHaveBeenCalledWith({
+        where: { userId, endpoint: 'https://push.example.com/send/abc' },
+      });
+    });
+  });
+
+  describe('sendPushNotification', () => {
+    const payload = { title: 'Reminder', body: 'Call dentist' };
+
+    it('should post an encrypted, signed message to every subscription', async () => {
+      (db.pushSubscription.findMany as jest.Mock).mockResolvedValue([
+        makeSubscription('sub-1'),
+        makeSubscription('sub-2'),
+      ]);
+
+      const result = await sendPushNotification(userId, payload, 60);
+
+      expect(result).toEqual({ sent: 2, failed: 0, removed: 0 });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://push.example.com/send/sub-1');
+      expect(init.method).toBe('POST');
+      expect(init.headers).toMatchObject({
+        'Content-Encoding': 'aes128gcm',
+        TTL: '60',
+        Urgency: 'high',
+      });
+      expect(init.headers.Authorization).toMatch(/^vapid t=.+, k=.+$/);
+      expect(Buffer.from(init.body).includes(Buffer.from('Call dentist'))).toBe(false);
+      expect(db.pushSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('should remove subscriptions the push service no longer knows', async () => {
+      (db.pushSubscription.findMany as jest.Mock).mockResolvedValue([makeSubscription('sub-1')]);
+      fetchMock.mockResolvedValue(new Response(null, { status: 410 }));
+
+      const result = await sendPushNotification(userId, payload);
+
+      expect(result).toEqual({ sent: 0, failed: 0, removed: 1 });
+      expect(db.pushSubscription.deleteMany).toHaveBeenCalledWith({ where: { id: 'sub-1' } });
+    });
+
+    it('should count rejected and unreachable subscriptions as failed', async () => {
+      (db.pushSubscription.findMany as jest.Mock).mockResolvedValue([
+        makeSubscription('sub-1'),
+        makeSubscription('sub-2'),
+      ]);
+      fetchMock
+        .mockResolvedValueOnce(new Response(null, { status: 500 }))
+        .mockRejectedValueOnce(new Error('ECONNRESET'));
+
+      const result = await sendPushNotification(userId, payload);
+
+      expect(result).toEqual({ sent: 0, failed: 2, removed: 0 });
+      expect(db.pushSubscription.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw when VAPID keys are not configured', async () => {
+      const publicKey = process.env.VAPID_PUBLIC_KEY;
+      delete process.env.VAPID_PUBLIC_KEY;
+
+      await expect(sendPushNotification(userId, payload)).rejects.toThrow('Push is not configured');
+
+      process.env.VAPID_PUBLIC_KEY = publicKey;
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Push Notification Service
+ *
+ * Business logic for push subscriptions and sending notifications to them.
+ */
+
+import { db } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { encryptPushPayload } from './encryption';
+import type { PushPayload, PushSendResult, PushSubscriptionDto } from './types';
+import type { SubscribeInput } from './schemas';
+import { getVapidKeys } from './utils';
+import { getVapidAuthorization } from './vapid';
+
+/** How long push services keep an undelivered notification, in seconds */
+const DEFAULT_PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+const SUBSCRIPTION_SELECT = {
+  id: true,
+  endpoint: true,
+  userAgent: true,
+  createdAt: true,
+  lastUsedAt: true,
+} as const;
+
+/**
+ * Get the push subscriptions of a user, newest first.
+ */
+export async function getPushSubscriptions(userId: string): Promise<PushSubscriptionDto[]> {
+  return db.pushSubscription.findMany({
+    where: { userId },
+    select: SUBSCRIPTION_SELECT,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Save the push subscription of a device. A browser keeps its endpoint when
+ * it resubscribes or another user signs in, so an existing subscription
+ * with the same endpoint is updated and moved to this user.
+ *
+ * @param userId - User ID
+ * @param input - Subscription from the browser
+ * @param userAgent - User agent of the device, to tell devices apart
+ */
+export async function subscribe(
+  userId: string,
+  input: SubscribeInput,
+  userAgent?: string | null
+): Promise<PushSubscriptionDto> {
+  const data = {
+    userId,
+    p256dh: input.keys.p256dh,
+    auth: input.keys.auth,
+    userAgent: userAgent?.slice(0, 512) || null,
+  };
+
+  return db.pushSubscription.upsert({
+    where: { endpoint: input.endpoint },
+    create: { endpoint: input.endpoint, ...data },
+    update: data,
+    select: SUBSCRIPTION_SELECT,
+  });
+}
+
+/**
+ * Remove the push subscription of a device.
+ *
+ * @returns True if removed, false if the user has no such subscription
+ */
+export async function unsubscribe(userId: string, endpoint: string): Promise<boolean> {
+  const { count } = await db.pushSubscription.deleteMany({ where: { userId, endpoint } });
+  return count > 0;
+}
+
+/**
+ * Send a notification to every device of a user. Subscriptions the push
+ * service reports as gone (404 or 410) are removed.
+ *
+ * @param userId - User ID
+ * @param payload - Notification for the service worker
+ * @param ttlSeconds - How long the push service may hold the notification
+ * @throws Error if VAPID keys are not configured
+ */
+export async function sendPushNotification(
+  userId: string,
+  payload: PushPayload,
+  ttlSeconds: number = DEFAULT_PUSH_TTL_SECONDS
+): Promise<PushSendResult> {
+  const keys = getVapidKeys();
+  if (!keys) {
+    throw new Error('Push is not configured: VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are not set');
+  }
+
+  const subscriptions = await db.pushSubscription.findMany({
+    where: { userId },
+    select: { id: true, endpoint: true, p256dh: true, auth: true },
+  });
+
+  const result: PushSendResult = { sent: 0, failed: 0, removed: 0 };
+  const message = JSON.stringify(payload);
+
+  await Promise.all(
+    subscriptions.map(async (subscription) => {
+      try {
+        const body = encryptPushPayload(message, subscription);
+        const response = await fetch(subscription.endpoint, {
+          method: 'POST',
+          headers: {
+            Authorization: getVapidAuthorization(subscription.endpoint, keys),
+            'Content-Encoding': 'aes128gcm',
+            'Content-Type': 'application/octet-stream',
+            TTL: String(ttlSeconds),
+            Urgency: 'high',
+          },
+          body: new Uint8Array(body),
+        });
+
+        if (response.ok) {
+          result.sent++;
+          await db.pushSubscription.update({
+            where: { id: subscription.id },
+            data: { lastUsedAt: new Date() },
+          });
+        } else if (response.status === 404 || response.status === 410) {
+          result.removed++;
+          await db.pushSubscription.deleteMany({ where: { id: subscription.id } });
+        } else {
+          result.failed++;
+          logger.warn('Push service rejected notification', {
+            subscriptionId: subscription.id,
+            status: response.status,
+          });
+        }
+      } catch (error) {
+        result.failed++;
+        logger.warn(
+          'Push notification failed',
+          { subscriptionId: subscription.id },
+          error instanceof Error ? error : undefined
+        );
+      }
+    })
+  );
+
+  return result;
+}
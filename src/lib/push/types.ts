@@ -0,0 +1,64 @@
+/**
+ * Push Notification Types
+ */
+
+/**
+ * Subscription of one browser or device, as returned by
+ * `PushSubscription.toJSON()` in the browser.
+ */
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys: {
+    /** Device public key (base64url) */
+    p256dh: string;
+    /** Device auth secret (base64url) */
+    auth: string;
+  };
+}
+
+/**
+ * Push Subscription DTO
+ */
+export interface PushSubscriptionDto {
+  id: string;
+  endpoint: string;
+  userAgent: string | null;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+/**
+ * VAPID key pair and contact, identifying the application to push services.
+ */
+export interface VapidKeys {
+  /** Uncompressed P-256 public key (base64url) */
+  publicKey: string;
+  /** P-256 private key (base64url) */
+  privateKey: string;
+  /** Contact URI, e.g. `mailto:admin@example.com` */
+  subject: string;
+}
+
+/**
+ * Payload of a push notification, read by the service worker.
+ */
+export interface PushPayload {
+  title: string;
+  body: string;
+  /** Notifications with the same tag replace each other */
+  tag?: string;
+  /** Page to open when the notification is clicked */
+  url?: string;
+  reminderId?: string;
+  taskId?: string;
+}
+
+/**
+ * Outcome of sending a notification to every device of a user.
+ */
+export interface PushSendResult {
+  sent: number;
+  failed: number;
+  /** Subscriptions removed because the push service no longer knows them */
+  removed: number;
+}
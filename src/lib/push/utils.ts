@@ -0,0 +1,39 @@
+/**
+ * Push Notification Utilities
+ *
+ * VAPID settings from the environment:
+ * - VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY: key pair from `npm run push:vapid-keys`;
+ *   push is disabled when unset
+ * - VAPID_SUBJECT: contact URI for push service operators
+ *   (default `mailto:admin@localhost`)
+ */
+
+import type { VapidKeys } from './types';
+
+const DEFAULT_SUBJECT = 'mailto:admin@localhost';
+
+/**
+ * Get the VAPID keys from the environment.
+ *
+ * @returns Keys, or null if push is not configured
+ */
+export function getVapidKeys(): VapidKeys | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY?.trim();
+  const privateKey = process.env.VAPID_PRIVATE_KEY?.trim();
+  if (!publicKey || !privateKey) {
+    return null;
+  }
+
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT?.trim() || DEFAULT_SUBJECT,
+  };
+}
+
+/**
+ * Whether VAPID keys are configured.
+ */
+export function isPushConfigured(): boolean {
+  return getVapidKeys() !== null;
+}
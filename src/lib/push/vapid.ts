@@ -0,0 +1,86 @@
+/**
+ * VAPID
+ *
+ * Voluntary Application Server Identification (RFC 8292): every push request
+ * carries a short-lived ES256 JWT signed with the application's key pair, so
+ * push services can tell which server sends to a subscription.
+ */
+
+import { createECDH, createPrivateKey, sign } from 'crypto';
+import type { VapidKeys } from './types';
+
+/** Lifetime of a VAPID token; push services reject anything over 24 hours */
+const TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Generate a VAPID key pair.
+ */
+export function generateVapidKeys(): Omit<VapidKeys, 'subject'> {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+
+  // JWK private keys must be exactly 32 bytes, including leading zeros
+  const privateKey = Buffer.from(ecdh.getPrivateKey('hex').padStart(64, '0'), 'hex');
+
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: privateKey.toString('base64url'),
+  };
+}
+
+function base64UrlJson(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Create the VAPID JWT for a push service.
+ *
+ * @param endpoint - Subscription endpoint; its origin is the token audience
+ * @param keys - Application key pair and contact
+ * @param now - Issue time
+ */
+export function createVapidToken(
+  endpoint: string,
+  keys: VapidKeys,
+  now: Date = new Date()
+): string {
+  const publicKey = Buffer.from(keys.publicKey, 'base64url');
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 key');
+  }
+
+  const privateKey = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33).toString('base64url'),
+      d: keys.privateKey,
+    },
+    format: 'jwk',
+  });
+
+  const unsigned = `${base64UrlJson({ typ: 'JWT', alg: 'ES256' })}.${base64UrlJson({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + TOKEN_TTL_SECONDS,
+    sub: keys.subject,
+  })}`;
+
+  const signature = sign('sha256', Buffer.from(unsigned), {
+    key: privateKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `${unsigned}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Get the Authorization header of a push request.
+ */
+export function getVapidAuthorization(
+  endpoint: string,
+  keys: VapidKeys,
+  now: Date = new Date()
+): string {
+  return `vapid t=${createVapidToken(endpoint, keys, now)}, k=${keys.publicKey}`;
+}
@@ -0,0 +1,8 @@
+/**
+ * Recurrence Module
+ *
+ * RFC 5545 recurrence rule parsing and expansion for recurring tasks.
+ */
+
+export * from './types';
+export * from './rrule';
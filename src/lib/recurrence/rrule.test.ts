@@ -0,0 +1,204 @@
+/**
+ * Recurrence Rule Engine Tests
+ */
+
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  isValidRecurrenceRule,
+  getOccurrences,
+  getNextOccurrence,
+} from './rrule';
+
+// Monday, January 6, 2025 at 09:00 local time
+const dtstart = new Date(2025, 0, 6, 9, 0);
+
+const toDays = (dates: Date[]) =>
+  dates.map((d) => `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`);
+
+describe('parseRecurrenceRule', () => {
+  it('should parse a bare rule with defaults', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY');
+
+    expect(rule).toEqual({ freq: 'DAILY', interval: 1, weekStart: 'MO', exDates: [] });
+  });
+
+  it('should parse an RRULE property with all supported parts', () => {
+    const rule = parseRecurrenceRule(
+      'RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,-1FR;BYMONTHDAY=1,-1;BYMONTH=1,6;COUNT=4;WKST=SU'
+    );
+
+    expect(rule.freq).toBe('MONTHLY');
+    expect(rule.interval).toBe(2);
+    expect(rule.byDay).toEqual([{ day: 'MO' }, { day: 'FR', nth: -1 }]);
+    expect(rule.byMonthDay).toEqual([1, -1]);
+    expect(rule.byMonth).toEqual([1, 6]);
+    expect(rule.count).toBe(4);
+    expect(rule.weekStart).toBe('SU');
+  });
+
+  it('should parse UNTIL as UTC date-time', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20250110T090000Z');
+
+    expect(rule.until?.toISOString()).toBe('2025-01-10T09:00:00.000Z');
+  });
+
+  it('should treat a date-only UNTIL as the end of that day', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20250110');
+
+    expect(rule.until).toEqual(new Date(2025, 0, 10, 23, 59, 59, 999));
+  });
+
+  it('should parse EXDATE lines', () => {
+    const rule = parseRecurrenceRule('RRULE:FREQ=DAILY\nEXDATE:20250107T090000,20250108T090000');
+
+    expect(rule.exDates).toEqual([new Date(2025, 0, 7, 9, 0), new Date(2025, 0, 8, 9, 0)]);
+  });
+
+  it.each([
+    ['missing FREQ', 'INTERVAL=2'],
+    ['unsupported FREQ', 'FREQ=HOURLY'],
+    ['zero INTERVAL', 'FREQ=DAILY;INTERVAL=0'],
+    ['COUNT with UNTIL', 'FREQ=DAILY;COUNT=2;UNTIL=20250110'],
+    ['ordinal BYDAY with WEEKLY', 'FREQ=WEEKLY;BYDAY=1MO'],
+    ['BYMONTHDAY of zero', 'FREQ=MONTHLY;BYMONTHDAY=0'],
+    ['unknown part', 'FREQ=DAILY;BYSETPOS=1'],
+    ['invalid UNTIL', 'FREQ=DAILY;UNTIL=tomorrow'],
+  ])('should reject %s', (_, input) => {
+    expect(() => parseRecurrenceRule(input)).toThrow();
+    expect(isValidRecurrenceRule(input)).toBe(false);
+  });
+});
+
+describe('formatRecurrenceRule', () => {
+  it('should round-trip a rule', () => {
+    const input = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10';
+
+    expect(formatRecurrenceRule(parseRecurrenceRule(input))).toBe(input);
+  });
+
+  it('should serialize UNTIL and EXDATE in UTC', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20250110T090000Z');
+    rule.exDates = [new Date(Date.UTC(2025, 0, 7, 9))];
+
+    expect(formatRecurrenceRule(rule)).toBe(
+      'FREQ=DAILY;UNTIL=20250110T090000Z\nEXDATE:20250107T090000Z'
+    );
+  });
+});
+
+describe('getOccurrences', () => {
+  it('should expand a daily rule with COUNT', () => {
+    const dates = getOccurrences('FREQ=DAILY;COUNT=3', dtstart);
+
+    expect(toDays(dates)).toEqual(['2025-1-6', '2025-1-7', '2025-1-8']);
+    expect(dates[0].getHours()).toBe(9);
+  });
+
+  it('should apply INTERVAL', () => {
+    const dates = getOccurrences('FREQ=DAILY;INTERVAL=3;COUNT=3', dtstart);
+
+    expect(toDays(dates)).toEqual(['2025-1-6', '2025-1-9', '2025-1-12']);
+  });
+
+  it('should expand every weekday', () => {
+    const dates = getOccurrences('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', dtstart, { limit: 7 });
+
+    expect(toDays(dates)).toEqual([
+      '2025-1-6',
+      '2025-1-7',
+      '2025-1-8',
+      '2025-1-9',
+      '2025-1-10',
+      '2025-1-13',
+      '2025-1-14',
+    ]);
+  });
+
+  it('should expand a biweekly rule', () => {
+    const dates = getOccurrences('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=4', dtstart);
+
+    expect(toDays(dates)).toEqual(['2025-1-6', '2025-1-9', '2025-1-20', '2025-1-23']);
+  });
+
+  it('should expand monthly BYMONTHDAY including negative days', () => {
+    const dates = getOccurrences('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3', dtstart);
+
+    expect(toDays(dates)).toEqual(['2025-1-31', '2025-2-28', '2025-3-31']);
+  });
+
+  it('should skip months without the start day', () => {
+    const start = new Date(2025, 0, 31, 9, 0);
+    const dates = getOccurrences('FREQ=MONTHLY;COUNT=3', start);
+
+    expect(toDays(dates)).toEqual(['2025-1-31', '2025-3-31', '2025-5-31']);
+  });
+
+  it('should expand ordinal weekdays', () => {
+    const dates = getOccurrences('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3', dtstart);
+
+    expect(toDays(dates)).toEqual(['2025-1-31', '2025-2-28', '2025-3-28']);
+  });
+
+  it('should intersect BYDAY and BYMONTHDAY', () => {
+    // Friday the 13th
+    const dates = getOccurrences('FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13;COUNT=2', dtstart);
+
+    expect(toDays(dates)).toEqual(['2025-6-13', '2026-2-13']);
+  });
+
+  it('should expand yearly rules with BYMONTH', () => {
+    const dates = getOccurrences('FREQ=YEARLY;BYMONTH=3,9;BYMONTHDAY=1;COUNT=3', dtstart);
+
+    expect(toDays(dates)).toEqual(['2025-3-1', '2025-9-1', '2026-3-1']);
+  });
+
+  it('should stop at UNTIL', () => {
+    const dates = getOccurrences('FREQ=DAILY;UNTIL=20250108', dtstart);
+
+    expect(toDays(dates)).toEqual(['2025-1-6', '2025-1-7', '2025-1-8']);
+  });
+
+  it('should exclude EXDATE while still counting it', () => {
+    const dates = getOccurrences('FREQ=DAILY;COUNT=3\nEXDATE:20250107T090000', dtstart);
+
+    expect(toDays(dates)).toEqual(['2025-1-6', '2025-1-8']);
+  });
+
+  it('should restrict results to a range', () => {
+    const dates = getOccurrences('FREQ=DAILY', dtstart, {
+      after: new Date(2025, 0, 10, 9, 0),
+      before: new Date(2025, 0, 13, 9, 0),
+    });
+
+    expect(toDays(dates)).toEqual(['2025-1-11', '2025-1-12']);
+  });
+
+  it('should include range boundaries when inclusive', () => {
+    const dates = getOccurrences('FREQ=DAILY', dtstart, {
+      after: new Date(2025, 0, 10, 9, 0),
+      before: new Date(2025, 0, 11, 9, 0),
+      inclusive: true,
+    });
+
+    expect(toDays(dates)).toEqual(['2025-1-10', '2025-1-11']);
+  });
+
+  it('should terminate for rules that never match', () => {
+    expect(getOccurrences('FREQ=MONTHLY;BYMONTHDAY=31;BYMONTH=2', dtstart)).toEqual([]);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('should return the occurrence after a date', () => {
+    const next = getNextOccurrence('FREQ=WEEKLY;BYDAY=MO,FR', dtstart, dtstart);
+
+    expect(next).toEqual(new Date(2025, 0, 10, 9, 0));
+  });
+
+  it('should return null when the series has ended', () => {
+    const next = getNextOccurrence('FREQ=DAILY;COUNT=2', dtstart, new Date(2025, 0, 7, 9, 0));
+
+    expect(next).toBeNull();
+  });
+});
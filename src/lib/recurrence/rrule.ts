@@ -0,0 +1,510 @@
+/**
+ * Recurrence Rule Engine
+ *
+ * Parses, serializes and expands the RFC 5545 RRULE subset supported by tasks:
+ * FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY, BYMONTHDAY, BYMONTH,
+ * COUNT, UNTIL and WKST, plus EXDATE lines.
+ *
+ * Occurrences are computed in local time and keep the time of day of the
+ * series start (DTSTART), which is the due date of the first task in the series.
+ */
+
+import { addDays, endOfDay, getDaysInMonth, startOfDay, startOfWeek } from '@/lib/utils/date';
+import type {
+  OccurrenceQuery,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceWeekday,
+  WeekdayCode,
+} from './types';
+
+/**
+ * Weekday codes indexed by `Date.getDay()`.
+ */
+export const WEEKDAY_CODES: WeekdayCode[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/**
+ * Upper bound on periods walked while expanding a rule.
+ * Protects against rules that can never produce another occurrence
+ * (e.g. FREQ=MONTHLY;BYMONTHDAY=31;BYMONTH=2).
+ */
+const MAX_PERIODS = 50000;
+
+/**
+ * Upper bound on occurrences returned for an unbounded query.
+ */
+const MAX_OCCURRENCES = 1000;
+
+const RFC_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const BYDAY_PATTERN = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+
+/**
+ * Parse an RFC 5545 DATE or DATE-TIME value.
+ * Values ending in "Z" are UTC; all others are local time.
+ */
+function parseRfcDate(value: string): { date: Date; dateOnly: boolean } {
+  const match = RFC_DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid recurrence date: ${value}`);
+  }
+
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0', utc] = match;
+  const y = Number(year);
+  const mo = Number(month) - 1;
+  const d = Number(day);
+  const h = Number(hours);
+  const mi = Number(minutes);
+  const s = Number(seconds);
+
+  const date = utc ? new Date(Date.UTC(y, mo, d, h, mi, s)) : new Date(y, mo, d, h, mi, s);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid recurrence date: ${value}`);
+  }
+
+  return { date, dateOnly: match[4] === undefined };
+}
+
+/**
+ * Format a date as an RFC 5545 UTC DATE-TIME (e.g. 20250131T090000Z).
+ */
+function formatRfcDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/**
+ * Parse a comma-separated list of integers within a range, excluding zero.
+ */
+function parseIntegerList(name: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map((part) => {
+    const num = Number(part);
+    if (!Number.isInteger(num) || num === 0 || num < min || num > max) {
+      throw new Error(`Invalid ${name} value: ${part}`);
+    }
+    return num;
+  });
+}
+
+/**
+ * Parse a positive integer rule part.
+ */
+function parsePositiveInteger(name: string, value: string): number {
+  const num = Number(value);
+  if (!Number.isInteger(num) || num < 1) {
+    throw new Error(`Invalid ${name} value: ${value}`);
+  }
+  return num;
+}
+
+/**
+ * Parse the value of an RRULE property (e.g. "FREQ=WEEKLY;BYDAY=MO,WE").
+ */
+function parseRulePart(body: string): Omit<RecurrenceRule, 'exDates'> {
+  const parts = new Map<string, string>();
+
+  for (const segment of body.split(';')) {
+    if (!segment.trim()) continue;
+
+    const [rawKey, rawValue] = segment.split('=');
+    if (!rawKey || rawValue === undefined) {
+      throw new Error(`Invalid recurrence rule part: ${segment}`);
+    }
+
+    const key = rawKey.trim().toUpperCase();
+    if (parts.has(key)) {
+      throw new Error(`Duplicate recurrence rule part: ${key}`);
+    }
+    parts.set(key, rawValue.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq) {
+    throw new Error('Recurrence rule must include FREQ');
+  }
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(`Unsupported recurrence frequency: ${freq}`);
+  }
+
+  const rule: Omit<RecurrenceRule, 'exDates'> = {
+    freq,
+    interval: 1,
+    weekStart: 'MO',
+  };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositiveInteger(key, value);
+        break;
+      case 'COUNT':
+        rule.count = parsePositiveInteger(key, value);
+        break;
+      case 'UNTIL': {
+        const { date, dateOnly } = parseRfcDate(value);
+        // A date-only UNTIL includes occurrences on that whole day
+        rule.until = dateOnly ? endOfDay(date) : date;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((part): RecurrenceWeekday => {
+          const match = BYDAY_PATTERN.exec(part);
+          if (!match) {
+            throw new Error(`Invalid BYDAY value: ${part}`);
+          }
+          const day = match[2] as WeekdayCode;
+          if (match[1] === undefined) {
+            return { day };
+          }
+          const nth = Number(match[1]);
+          if (nth === 0 || nth < -5 || nth > 5) {
+            throw new Error(`Invalid BYDAY value: ${part}`);
+          }
+          return { day, nth };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(key, value, -31, 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(key, value, 1, 12);
+        break;
+      case 'WKST':
+        if (!WEEKDAY_CODES.includes(value as WeekdayCode)) {
+          throw new Error(`Invalid WKST value: ${value}`);
+        }
+        rule.weekStart = value as WeekdayCode;
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('Recurrence rule cannot include both COUNT and UNTIL');
+  }
+
+  if (
+    (rule.freq === 'DAILY' || rule.freq === 'WEEKLY') &&
+    rule.byDay?.some((d) => d.nth !== undefined)
+  ) {
+    throw new Error(`BYDAY ordinals are not allowed with FREQ=${rule.freq}`);
+  }
+
+  if (rule.freq === 'WEEKLY' && rule.byMonthDay) {
+    throw new Error('BYMONTHDAY is not allowed with FREQ=WEEKLY');
+  }
+
+  return rule;
+}
+
+/**
+ * Parse a recurrence rule string.
+ *
+ * Accepts a bare rule ("FREQ=DAILY;COUNT=5"), an "RRULE:" property, and
+ * optional "EXDATE:" lines separated by newlines.
+ *
+ * @param input - Recurrence rule string
+ * @returns Parsed recurrence rule
+ * @throws Error if the rule is malformed or uses unsupported parts
+ */
+export function parseRecurrenceRule(input: string): RecurrenceRule {
+  let rule: Omit<RecurrenceRule, 'exDates'> | null = null;
+  const exDates: Date[] = [];
+
+  for (const rawLine of input.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const colon = line.indexOf(':');
+    const name = colon === -1 ? null : line.slice(0, colon).split(';')[0].toUpperCase();
+
+    if (name === 'EXDATE') {
+      for (const value of line.slice(colon + 1).split(',')) {
+        exDates.push(parseRfcDate(value).date);
+      }
+    } else if (name === 'RRULE' || name === null) {
+      if (rule) {
+        throw new Error('Only one RRULE is supported per task');
+      }
+      rule = parseRulePart(name === null ? line : line.slice(colon + 1));
+    } else {
+      throw new Error(`Unsupported recurrence property: ${name}`);
+    }
+  }
+
+  if (!rule) {
+    throw new Error('Recurrence rule must include FREQ');
+  }
+
+  return { ...rule, exDates };
+}
+
+/**
+ * Check whether a string is a valid, supported recurrence rule.
+ */
+export function isValidRecurrenceRule(input: string): boolean {
+  try {
+    parseRecurrenceRule(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serialize a recurrence rule back to its string form.
+ * The RRULE body comes first; EXDATE, if any, follows on its own line.
+ *
+ * @param rule - Recurrence rule to serialize
+ * @returns Rule string suitable for `Task.recurrenceRule`
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ''}${d.day}`).join(',')}`);
+  }
+  if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.byMonth && rule.byMonth.length > 0) {
+    parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== undefined) {
+    parts.push(`UNTIL=${formatRfcDate(rule.until)}`);
+  }
+  if (rule.weekStart !== 'MO') {
+    parts.push(`WKST=${rule.weekStart}`);
+  }
+
+  const lines = [parts.join(';')];
+  if (rule.exDates.length > 0) {
+    lines.push(`EXDATE:${rule.exDates.map(formatRfcDate).join(',')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Local calendar-day key used to match EXDATE entries.
+ * Tasks recur at most once per day, so matching by day is unambiguous.
+ */
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+/**
+ * Create a date on the given day with the series start's time of day.
+ */
+function atStartTime(year: number, month: number, day: number, dtstart: Date): Date {
+  return new Date(
+    year,
+    month,
+    day,
+    dtstart.getHours(),
+    dtstart.getMinutes(),
+    dtstart.getSeconds(),
+    dtstart.getMilliseconds()
+  );
+}
+
+/**
+ * Check whether a date passes the BYMONTH, BYMONTHDAY and BYDAY filters.
+ * Used by DAILY rules, where these parts limit rather than expand.
+ */
+function matchesFilters(rule: RecurrenceRule, date: Date): boolean {
+  if (rule.byMonth && !rule.byMonth.includes(date.getMonth() + 1)) {
+    return false;
+  }
+
+  if (rule.byMonthDay) {
+    const daysInMonth = getDaysInMonth(date);
+    const day = date.getDate();
+    const matches = rule.byMonthDay.some((d) => (d > 0 ? d : daysInMonth + d + 1) === day);
+    if (!matches) return false;
+  }
+
+  if (rule.byDay && !rule.byDay.some((d) => d.day === WEEKDAY_CODES[date.getDay()])) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Expand BYMONTHDAY and BYDAY within a single month.
+ * Returns sorted day-of-month numbers.
+ */
+function expandMonthDays(
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  dtstart: Date
+): number[] {
+  const daysInMonth = getDaysInMonth(new Date(year, month, 1));
+
+  let monthDays: number[] | null = null;
+  if (rule.byMonthDay) {
+    monthDays = rule.byMonthDay
+      .map((d) => (d > 0 ? d : daysInMonth + d + 1))
+      .filter((d) => d >= 1 && d <= daysInMonth);
+  }
+
+  let weekDays: number[] | null = null;
+  if (rule.byDay) {
+    weekDays = [];
+    for (const { day, nth } of rule.byDay) {
+      const weekdayIndex = WEEKDAY_CODES.indexOf(day);
+      const firstWeekday = new Date(year, month, 1).getDay();
+      const matches: number[] = [];
+      for (let d = 1 + ((weekdayIndex - firstWeekday + 7) % 7); d <= daysInMonth; d += 7) {
+        matches.push(d);
+      }
+
+      if (nth === undefined) {
+        weekDays.push(...matches);
+      } else {
+        const picked = nth > 0 ? matches[nth - 1] : matches[matches.length + nth];
+        if (picked !== undefined) weekDays.push(picked);
+      }
+    }
+  }
+
+  let days: number[];
+  if (monthDays && weekDays) {
+    const allowed = new Set(weekDays);
+    days = monthDays.filter((d) => allowed.has(d));
+  } else {
+    days = monthDays ?? weekDays ?? [dtstart.getDate()].filter((d) => d <= daysInMonth);
+  }
+
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+/**
+ * Get the candidate occurrences for the n-th period of the rule.
+ */
+function getPeriodCandidates(rule: RecurrenceRule, dtstart: Date, period: number): Date[] {
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = addDays(startOfDay(dtstart), step);
+      if (!matchesFilters(rule, day)) return [];
+      return [atStartTime(day.getFullYear(), day.getMonth(), day.getDate(), dtstart)];
+    }
+
+    case 'WEEKLY': {
+      const weekStartIndex = WEEKDAY_CODES.indexOf(rule.weekStart);
+      const weekStart = addDays(startOfWeek(dtstart, weekStartIndex), step * 7);
+      const weekdays = rule.byDay
+        ? rule.byDay.map((d) => WEEKDAY_CODES.indexOf(d.day))
+        : [dtstart.getDay()];
+
+      return Array.from(new Set(weekdays))
+        .map((weekday) => addDays(weekStart, (weekday - weekStartIndex + 7) % 7))
+        .filter((day) => !rule.byMonth || rule.byMonth.includes(day.getMonth() + 1))
+        .sort((a, b) => a.getTime() - b.getTime())
+        .map((day) => atStartTime(day.getFullYear(), day.getMonth(), day.getDate(), dtstart));
+    }
+
+    case 'MONTHLY': {
+      const monthDate = new Date(dtstart.getFullYear(), dtstart.getMonth() + step, 1);
+      const year = monthDate.getFullYear();
+      const month = monthDate.getMonth();
+      if (rule.byMonth && !rule.byMonth.includes(month + 1)) return [];
+
+      return expandMonthDays(rule, year, month, dtstart).map((day) =>
+        atStartTime(year, month, day, dtstart)
+      );
+    }
+
+    case 'YEARLY': {
+      // BYDAY ordinals are evaluated within each month of the year
+      const year = dtstart.getFullYear() + step;
+      const months = rule.byMonth
+        ? [...rule.byMonth].sort((a, b) => a - b).map((m) => m - 1)
+        : [dtstart.getMonth()];
+
+      return months.flatMap((month) =>
+        expandMonthDays(rule, year, month, dtstart).map((day) =>
+          atStartTime(year, month, day, dtstart)
+        )
+      );
+    }
+  }
+}
+
+/**
+ * Expand a recurrence rule into concrete occurrence dates.
+ *
+ * COUNT is applied before EXDATE, as in RFC 5545, so excluded dates still
+ * use up part of the count.
+ *
+ * @param ruleInput - Parsed rule or rule string
+ * @param dtstart - Start of the series (first occurrence)
+ * @param query - Range and limit options
+ * @returns Sorted occurrence dates
+ */
+export function getOccurrences(
+  ruleInput: RecurrenceRule | string,
+  dtstart: Date,
+  query: OccurrenceQuery = {}
+): Date[] {
+  const rule = typeof ruleInput === 'string' ? parseRecurrenceRule(ruleInput) : ruleInput;
+  const { after, before, inclusive = false } = query;
+  const limit = query.limit ?? MAX_OCCURRENCES;
+
+  const excluded = new Set(rule.exDates.map(dayKey));
+  const results: Date[] = [];
+  let generated = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const candidate of getPeriodCandidates(rule, dtstart, period)) {
+      if (candidate < dtstart) continue;
+
+      if (rule.until && candidate > rule.until) return results;
+      if (before && (inclusive ? candidate > before : candidate >= before)) return results;
+
+      generated++;
+      if (rule.count !== undefined && generated > rule.count) return results;
+
+      if (excluded.has(dayKey(candidate))) continue;
+      if (after && (inclusive ? candidate < after : candidate <= after)) continue;
+
+      results.push(candidate);
+      if (results.length >= limit) return results;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Get the first occurrence strictly after a given date.
+ *
+ * @param ruleInput - Parsed rule or rule string
+ * @param dtstart - Start of the series
+ * @param after - Reference date (usually the current occurrence)
+ * @returns Next occurrence or null when the series has ended
+ */
+export function getNextOccurrence(
+  ruleInput: RecurrenceRule | string,
+  dtstart: Date,
+  after: Date
+): Date | null {
+  return getOccurrences(ruleInput, dtstart, { after, limit: 1 })[0] ?? null;
+}
@@ -0,0 +1,63 @@
+/**
+ * Recurrence Type Definitions
+ *
+ * TypeScript types for the RFC 5545 recurrence rule subset used by tasks.
+ */
+
+/**
+ * Supported RRULE frequencies.
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/**
+ * Two-letter RFC 5545 weekday codes.
+ */
+export type WeekdayCode = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+/**
+ * A BYDAY entry, optionally with an ordinal (e.g. 2MO, -1FR).
+ */
+export interface RecurrenceWeekday {
+  /** Weekday code */
+  day: WeekdayCode;
+  /** Ordinal within the month (1 = first, -1 = last); MONTHLY and YEARLY only */
+  nth?: number;
+}
+
+/**
+ * Parsed recurrence rule.
+ */
+export interface RecurrenceRule {
+  /** Recurrence frequency */
+  freq: RecurrenceFrequency;
+  /** Interval between periods (defaults to 1) */
+  interval: number;
+  /** Weekdays the rule expands to or is limited by */
+  byDay?: RecurrenceWeekday[];
+  /** Days of the month (1-31, or -1 to -31 counted from the end) */
+  byMonthDay?: number[];
+  /** Months of the year (1-12) */
+  byMonth?: number[];
+  /** Total number of occurrences in the series */
+  count?: number;
+  /** Last possible occurrence (inclusive) */
+  until?: Date;
+  /** First day of the week used by WEEKLY rules (defaults to MO) */
+  weekStart: WeekdayCode;
+  /** Excluded occurrence dates (EXDATE) */
+  exDates: Date[];
+}
+
+/**
+ * Options for expanding a rule into concrete occurrences.
+ */
+export interface OccurrenceQuery {
+  /** Only return occurrences after this date */
+  after?: Date;
+  /** Only return occurrences before this date */
+  before?: Date;
+  /** Whether `after` and `before` are inclusive (defaults to false) */
+  inclusive?: boolean;
+  /** Maximum number of occurrences to return */
+  limit?: number;
+}
@@ -0,0 +1,122 @@
+/**
+ * Reminder Action Tests
+ *
+ * Tests for signed action links and the actions they perform.
+ */
+
+import { db } from '@/lib/db';
+import { saveTask } from '@/lib/tasks/completion';
+import {
+  applyReminderAction,
+  createReminderActionToken,
+  getReminderActionUrl,
+  verifyReminderActionToken,
+} from './actions';
+import { snoozeReminder } from './service';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    reminder: { findUnique: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/env', () => ({
+  env: { public: { appUrl: 'https://app.example.com' } },
+}));
+
+jest.mock('@/lib/tasks/completion', () => ({
+  saveTask: jest.fn(),
+  getBlockedTaskMessage: () => 'Task is blocked by 1 open task',
+}));
+
+jest.mock('./service', () => ({
+  snoozeReminder: jest.fn(),
+}));
+
+describe('Reminder Actions', () => {
+  const now = new Date('2026-05-01T09:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.REMINDER_LINK_SECRET = 'test-secret';
+  });
+
+  describe('action tokens', () => {
+    it('should verify a token it created', () => {
+      const token = createReminderActionToken('reminder-1', 'snooze', now);
+
+      expect(verifyReminderActionToken(token, now)).toEqual({
+        reminderId: 'reminder-1',
+        action: 'snooze',
+      });
+    });
+
+    it('should reject tampered, foreign and expired tokens', () => {
+      const token = createReminderActionToken('reminder-1', 'done', now);
+      const [payload, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ r: 'reminder-2', a: 'done', e: 9e15 })).toString(
+        'base64url'
+      );
+
+      expect(verifyReminderActionToken(`${forged}.${signature}`, now)).toBeNull();
+      expect(verifyReminderActionToken(payload, now)).toBeNull();
+      expect(verifyReminderActionToken(token, new Date('2026-05-09T09:00:00Z'))).toBeNull();
+
+      process.env.REMINDER_LINK_SECRET = 'other-secret';
+      expect(verifyReminderActionToken(token, now)).toBeNull();
+    });
+
+    it('should build a link to the action route', () => {
+      const url = new URL(getReminderActionUrl('reminder-1', 'done'));
+
+      expect(url.origin + url.pathname).toBe('https://app.example.com/api/reminders/actions/done');
+      expect(verifyReminderActionToken(url.searchParams.get('token') ?? '')).toEqual({
+        reminderId: 'reminder-1',
+        action: 'done',
+      });
+    });
+  });
+
+  describe('applyReminderAction', () => {
+    it('should complete the task of the reminder', async () => {
+      (db.reminder.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-1',
+        taskId: 'task-1',
+      });
+      (saveTask as jest.Mock).mockResolvedValue({ task: { id: 'task-1' } });
+
+      expect(await applyReminderAction('reminder-1', 'done')).toBe(true);
+      expect(saveTask).toHaveBeenCalledWith('task-1', 'user-1', { status: 'DONE' });
+    });
+
+    it('should refuse to complete a blocked task', async () => {
+      (db.reminder.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-1',
+        taskId: 'task-1',
+      });
+      (saveTask as jest.Mock).mockResolvedValue({
+        blockers: [{ id: 'task-2', title: 'Blocker', status: 'TODO' }],
+      });
+
+      await expect(applyReminderAction('reminder-1', 'done')).rejects.toThrow('Task is blocked');
+    });
+
+    it('should snooze the reminder for an hour', async () => {
+      (db.reminder.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-1',
+        taskId: 'task-1',
+      });
+      (snoozeReminder as jest.Mock).mockResolvedValue({ id: 'reminder-1' });
+
+      expect(await applyReminderAction('reminder-1', 'snooze')).toBe(true);
+      expect(snoozeReminder).toHaveBeenCalledWith('reminder-1', 'user-1', { minutes: 60 });
+    });
+
+    it('should return false when the reminder is gone', async () => {
+      (db.reminder.findUnique as jest.Mock).mockResolvedValue(null);
+
+      expect(await applyReminderAction('reminder-1', 'done')).toBe(false);
+      expect(saveTask).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Reminder Actions
+ *
+ * One-click actions on a reminder from outside the app, such as the links in
+ * reminder emails. A link carries a signed token naming the reminder and the
+ * action, so it works without a session; tokens expire after a week.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { db } from '@/lib/db';
+import { env } from '@/lib/env';
+import { getBlockedTaskMessage, saveTask } from '@/lib/tasks/completion';
+import { snoozeReminder } from './service';
+
+export type ReminderAction = 'done' | 'snooze';
+
+/** How long action links stay valid */
+const ACTION_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Snooze length of the snooze action */
+export const ACTION_SNOOZE_MINUTES = 60;
+
+interface ActionTokenPayload {
+  /** Reminder ID */
+  r: string;
+  /** Action */
+  a: ReminderAction;
+  /** Expiry, in milliseconds since the epoch */
+  e: number;
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.REMINDER_LINK_SECRET?.trim() || process.env.NEXTAUTH_SECRET?.trim();
+  if (!secret) {
+    throw new Error('Missing REMINDER_LINK_SECRET or NEXTAUTH_SECRET for reminder links');
+  }
+  return secret;
+}
+
+function sign(payload: string): Buffer {
+  return createHmac('sha256', getSigningSecret()).update(payload).digest();
+}
+
+/**
+ * Create a signed token for an action on a reminder.
+ *
+ * @param reminderId - Reminder ID
+ * @param action - Action the token allows
+ * @param now - Issue time
+ */
+export function createReminderActionToken(
+  reminderId: string,
+  action: ReminderAction,
+  now: Date = new Date()
+): string {
+  const payload: ActionTokenPayload = {
+    r: reminderId,
+    a: action,
+    e: now.getTime() + ACTION_TOKEN_TTL_MS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return `${encoded}.${sign(encoded).toString('base64url')}`;
+}
+
+/**
+ * Verify an action token.
+ *
+ * @param token - Token from an action link
+ * @param now - Reference time for expiry
+ * @returns The reminder and action, or null if the token is invalid or expired
+ */
+export function verifyReminderActionToken(
+  token: string,
+  now: Date = new Date()
+): { reminderId: string; action: ReminderAction } | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = sign(encoded);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (
+      typeof payload.r !== 'string' ||
+      (payload.a !== 'done' && payload.a !== 'snooze') ||
+      typeof payload.e !== 'number' ||
+      payload.e < now.getTime()
+    ) {
+      return null;
+    }
+    return { reminderId: payload.r, action: payload.a };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the link that performs an action on a reminder.
+ */
+export function getReminderActionUrl(reminderId: string, action: ReminderAction): string {
+  const token = createReminderActionToken(reminderId, action);
+  return `${env.public.appUrl}/api/reminders/actions/${action}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Perform an action on a reminder on behalf of its owner: complete its task
+ * or snooze it for an hour. Completing goes through the same checks as
+ * completing the task in the app.
+ *
+ * @param reminderId - Reminder ID
+ * @param action - Action to perform
+ * @returns True if performed, false if the reminder or its task is gone
+ * @throws Error if the task is blocked or the reminder cannot be snoozed in its current state
+ */
+export async function applyReminderAction(
+  reminderId: string,
+  action: ReminderAction
+): Promise<boolean> {
+  const reminder = await db.reminder.findUnique({
+    where: { id: reminderId },
+    select: { userId: true, taskId: true },
+  });
+
+  if (!reminder) {
+    return false;
+  }
+
+  switch (action) {
+    case 'done': {
+      const result = await saveTask(reminder.taskId, reminder.userId, { status: 'DONE' });
+      if (result?.blockers) {
+        throw new Error(getBlockedTaskMessage(result.blockers));
+      }
+      return result !== null;
+    }
+    case 'snooze':
+      return (
+        (await snoozeReminder(reminderId, reminder.userId, {
+          minutes: ACTION_SNOOZE_MINUTES,
+        })) !== null
+      );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Reminder Email Template
+ *
+ * Plain-text and HTML bodies of reminder emails.
+ */
+
+import type { EmailMessage } from '@/lib/email/types';
+
+export interface ReminderEmailContent {
+  taskTitle: string;
+  dueDate: Date | null;
+  listTitle: string | null;
+  /** Link that completes the task */
+  doneUrl: string;
+  /** Link that snoozes the reminder */
+  snoozeUrl: string;
+  /** Time zone for the due date (default UTC) */
+  timeZone?: string;
+}
+
+const ACCENT_COLOR = '#D97757';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Format a due date for an email, e.g. `Friday, May 1, 2026 at 9:00 AM UTC`.
+ */
+export function formatEmailDueDate(date: Date, timeZone = 'UTC'): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(date);
+}
+
+/**
+ * Render the subject and bodies of a reminder email.
+ */
+export function renderReminderEmail(content: ReminderEmailContent): Omit<EmailMessage, 'to'> {
+  const { taskTitle, dueDate, listTitle, doneUrl, snoozeUrl, timeZone } = content;
+  const due = dueDate ? formatEmailDueDate(dueDate, timeZone) : null;
+
+  const details = [...(due ? [['Due', due]] : []), ...(listTitle ? [['List', listTitle]] : [])];
+
+  const text = [
+    `Reminder: ${taskTitle}`,
+    '',
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    ...(details.length > 0 ? [''] : []),
+    `Mark done: ${doneUrl}`,
+    `Snooze 1 hour: ${snoozeUrl}`,
+  ].join('\n');
+
+  const button = (href: string, label: string, primary: boolean) =>
+    `<a href="${escapeHtml(href)}" style="display:inline-block;padding:10px 18px;margin-right:8px;` +
+    `border-radius:6px;text-decoration:none;font-weight:600;` +
+    (primary
+      ? `background:${ACCENT_COLOR};color:#ffffff;">`
+      : `border:1px solid ${ACCENT_COLOR};color:${ACCENT_COLOR};">`) +
+    `${label}</a>`;
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html><body style="margin:0;padding:24px;background:#f7f5f2;font-family:Arial,sans-serif;color:#1f1f1f;">',
+    '<div style="max-width:480px;margin:0 auto;padding:24px;background:#ffffff;border-radius:8px;">',
+    `<p style="margin:0 0 8px;color:${ACCENT_COLOR};font-size:13px;font-weight:600;">Reminder</p>`,
+    `<h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(taskTitle)}</h1>`,
+    ...details.map(
+      ([label, value]) =>
+        `<p style="margin:0 0 4px;font-size:14px;"><strong>${label}:</strong> ${escapeHtml(value)}</p>`
+    ),
+    '<p style="margin:20px 0 0;">',
+    button(doneUrl, 'Mark done', true),
+    button(snoozeUrl, 'Snooze 1h', false),
+    '</p>',
+    '</div>',
+    '</body></html>',
+  ].join('\n');
+
+  return { subject: `Reminder: ${taskTitle}`, text, html };
+}
@@ -0,0 +1,100 @@
+/**
+ * Email Reminder Channel Tests
+ *
+ * Delivers reminder emails to a local SMTP sink.
+ *
+ * @jest-environment node
+ */
+
+import { db } from '@/lib/db';
+import { parseEmail, startSmtpSink, type SmtpSink } from '@/lib/email/sink';
+import type { ReminderWithTask } from '../types';
+import { verifyReminderActionToken } from '../actions';
+import { emailChannel } from './email';
+import { getReminderChannel } from '.';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    task: { findUnique: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/env', () => ({
+  env: { public: { appUrl: 'https://app.example.com' } },
+}));
+
+jest.mock('@/lib/tasks/service', () => ({
+  updateTask: jest.fn(),
+}));
+
+describe('Email Reminder Channel', () => {
+  let sink: SmtpSink;
+
+  const reminder = {
+    id: 'reminder-1',
+    type: 'EMAIL',
+    taskId: 'task-1',
+    userId: 'user-1',
+  } as ReminderWithTask;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    sink = await startSmtpSink();
+    process.env.SMTP_HOST = '127.0.0.1';
+    process.env.SMTP_PORT = String(sink.port);
+    process.env.SMTP_FROM = 'TickTick <reminders@example.com>';
+    process.env.REMINDER_LINK_SECRET = 'test-secret';
+    delete process.env.REMINDER_EMAIL_TIMEZONE;
+  });
+
+  afterEach(async () => {
+    await sink.close();
+    delete process.env.SMTP_HOST;
+    delete process.env.SMTP_PORT;
+    delete process.env.SMTP_FROM;
+  });
+
+  it('should email the task with its due date, list and action links', async () => {
+    (db.task.findUnique as jest.Mock).mockResolvedValue({
+      title: 'Call <dentist>',
+      dueDate: new Date('2026-05-01T09:00:00Z'),
+      list: { title: 'Health' },
+      user: { email: 'ada@example.com' },
+    });
+
+    await emailChannel.deliver(reminder);
+
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0].to).toEqual(['ada@example.com']);
+
+    const { headers, text, html } = parseEmail(sink.messages[0].data);
+    expect(headers.subject).toBe('Reminder: Call <dentist>');
+    expect(text).toContain('Due: Friday, May 1, 2026 at 9:00 AM UTC');
+    expect(text).toContain('List: Health');
+    expect(html).toContain('Call &lt;dentist&gt;');
+
+    const links = [...(text ?? '').matchAll(/https:\/\/\S+/g)].map((match) => new URL(match[0]));
+    expect(links.map((link) => link.pathname)).toEqual([
+      '/api/reminders/actions/done',
+      '/api/reminders/actions/snooze',
+    ]);
+    expect(verifyReminderActionToken(links[1].searchParams.get('token') ?? '')).toEqual({
+      reminderId: 'reminder-1',
+      action: 'snooze',
+    });
+  });
+
+  it('should fail when the task is gone so the delivery is retried', async () => {
+    (db.task.findUnique as jest.Mock).mockResolvedValue(null);
+
+    await expect(emailChannel.deliver(reminder)).rejects.toThrow('Task not found');
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('should only route email reminders to email when SMTP is configured', () => {
+    expect(getReminderChannel('EMAIL')).toBe(emailChannel);
+
+    delete process.env.SMTP_HOST;
+    expect(getReminderChannel('EMAIL')).not.toBe(emailChannel);
+  });
+});
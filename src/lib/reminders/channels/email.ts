@@ -0,0 +1,42 @@
+/**
+ * Email Reminder Channel
+ *
+ * Emails the reminder to its owner through the configured SMTP server, with
+ * signed links to complete the task or snooze the reminder.
+ */
+
+import { db } from '@/lib/db';
+import { sendEmail } from '@/lib/email';
+import { getReminderActionUrl } from '../actions';
+import { renderReminderEmail } from './email-template';
+import type { ReminderChannel } from './types';
+
+export const emailChannel: ReminderChannel = {
+  deliver: async (reminder) => {
+    const task = await db.task.findUnique({
+      where: { id: reminder.taskId },
+      select: {
+        title: true,
+        dueDate: true,
+        list: { select: { title: true } },
+        user: { select: { email: true } },
+      },
+    });
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    await sendEmail({
+      to: task.user.email,
+      ...renderReminderEmail({
+        taskTitle: task.title,
+        dueDate: task.dueDate,
+        listTitle: task.list.title,
+        doneUrl: getReminderActionUrl(reminder.id, 'done'),
+        snoozeUrl: getReminderActionUrl(reminder.id, 'snooze'),
+        timeZone: process.env.REMINDER_EMAIL_TIMEZONE?.trim() || undefined,
+      }),
+    });
+  },
+};
@@ -0,0 +1,12 @@
+/**
+ * In-App Reminder Channel
+ *
+ * Nothing leaves the server: once marked sent, a reminder is shown by the
+ * next open app that has not shown it yet.
+ */
+
+import type { ReminderChannel } from './types';
+
+export const inAppChannel: ReminderChannel = {
+  deliver: async () => {},
+};
@@ -0,0 +1,33 @@
+/**
+ * Reminder Channels
+ *
+ * Channel adapters by reminder type.
+ */
+
+import { isEmailConfigured } from '@/lib/email';
+import { isPushConfigured } from '@/lib/push/utils';
+import type { ReminderType } from '../types';
+import { emailChannel } from './email';
+import { inAppChannel } from './in-app';
+import { pushChannel } from './push';
+import type { ReminderChannel } from './types';
+
+export type { ReminderChannel } from './types';
+export { renderReminderEmail, formatEmailDueDate } from './email-template';
+export type { ReminderEmailContent } from './email-template';
+
+/**
+ * Get the channel that delivers reminders of a type.
+ */
+export function getReminderChannel(type: ReminderType): ReminderChannel {
+  switch (type) {
+    case 'IN_APP':
+      return inAppChannel;
+    case 'EMAIL':
+      // Without an SMTP server, email reminders are shown in the app instead
+      return isEmailConfigured() ? emailChannel : inAppChannel;
+    case 'PUSH':
+      // Without VAPID keys, push reminders are shown in the app instead
+      return isPushConfigured() ? pushChannel : inAppChannel;
+  }
+}
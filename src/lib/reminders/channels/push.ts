@@ -0,0 +1,37 @@
+/**
+ * Push Reminder Channel
+ *
+ * Sends the reminder to every browser and device its owner has subscribed.
+ * The service worker shows it with Complete and Snooze actions.
+ */
+
+import { db } from '@/lib/db';
+import { sendPushNotification } from '@/lib/push/service';
+import type { ReminderChannel } from './types';
+
+export const pushChannel: ReminderChannel = {
+  deliver: async (reminder) => {
+    const task = await db.task.findUnique({
+      where: { id: reminder.taskId },
+      select: { title: true },
+    });
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const result = await sendPushNotification(reminder.userId, {
+      title: 'Reminder',
+      body: task.title,
+      tag: `reminder-${reminder.id}`,
+      url: '/tasks',
+      reminderId: reminder.id,
+      taskId: reminder.taskId,
+    });
+
+    // Without a subscribed device the reminder is still shown in the app
+    if (result.failed > 0 && result.sent === 0) {
+      throw new Error(`Push delivery failed on ${result.failed} device(s)`);
+    }
+  },
+};
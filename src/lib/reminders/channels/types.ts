@@ -0,0 +1,13 @@
+/**
+ * Reminder Channel Types
+ */
+
+import type { ReminderWithTask } from '../types';
+
+/**
+ * Delivers reminders of one type. Throws to report a failed delivery, which
+ * the dispatcher retries.
+ */
+export interface ReminderChannel {
+  deliver: (reminder: ReminderWithTask) => Promise<void>;
+}
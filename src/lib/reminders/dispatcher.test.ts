@@ -0,0 +1,198 @@
+/**
+ * Reminder Dispatcher Tests
+ *
+ * Tests for claiming due reminders and delivering them with retries.
+ */
+
+import { db } from '@/lib/db';
+import { getReminderChannel } from './channels';
+import { claimDueReminders, dispatchDueReminders, dispatchReminder } from './dispatcher';
+import type { ClaimedReminder } from './dispatcher';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    reminder: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    reminderDelivery: {
+      create: jest.fn(),
+    },
+    userEvent: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('./channels', () => ({
+  getReminderChannel: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('Reminder Dispatcher', () => {
+  const now = new Date('2026-05-01T09:00:00Z');
+  const workerId = 'worker-1';
+  const deliver = jest.fn();
+
+  const makeRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    type: 'IN_APP',
+    fireAt: new Date('2026-05-01T08:59:00Z'),
+    relativeOffset: null,
+    status: 'PENDING',
+    snoozedUntil: null,
+    snoozeCount: 0,
+    sentAt: null,
+    dismissedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    taskId: 'task-1',
+    userId: 'user-1',
+    attempts: 0,
+    task: { id: 'task-1', title: 'Call dentist', dueDate: null },
+    ...overrides,
+  });
+
+  const makeClaimed = (overrides: Partial<ClaimedReminder> = {}): ClaimedReminder =>
+    ({ ...makeRow('reminder-1'), ...overrides }) as ClaimedReminder;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.REMINDER_MAX_ATTEMPTS;
+    deliver.mockResolvedValue(undefined);
+    (getReminderChannel as jest.Mock).mockReturnValue({ deliver });
+    (db.userEvent.create as jest.Mock).mockReset().mockResolvedValue({});
+    (db.reminder.findMany as jest.Mock).mockResolvedValue([]);
+    (db.reminder.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (db.reminder.findFirst as jest.Mock).mockResolvedValue(makeRow('reminder-1'));
+    (db.reminder.update as jest.Mock).mockResolvedValue(makeRow('reminder-1'));
+  });
+
+  describe('claimDueReminders', () => {
+    it('should only return reminders this dispatcher won', async () => {
+      (db.reminder.findMany as jest.Mock)
+        .mockResolvedValueOnce([makeRow('reminder-1'), makeRow('reminder-2')])
+        .mockResolvedValueOnce([makeRow('reminder-1')]);
+      (db.reminder.updateMany as jest.Mock)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const claimed = await claimDueReminders(workerId, now);
+
+      expect(claimed.map((reminder) => reminder.id)).toEqual(['reminder-1']);
+      expect(db.reminder.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'reminder-1', task: { deletedAt: null } }),
+        data: { claimedAt: now, claimedBy: workerId },
+      });
+      expect(db.reminder.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { id: { in: ['reminder-1'] }, claimedBy: workerId } })
+      );
+    });
+
+    it('should not claim reminders that are not due', async () => {
+      expect(await claimDueReminders(workerId, now)).toEqual([]);
+      expect(db.reminder.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispatchReminder', () => {
+    it('should mark a delivered reminder as sent and record the attempt', async () => {
+      const result = await dispatchReminder(makeClaimed(), workerId, now);
+
+      expect(result).toBe('sent');
+      expect(deliver).toHaveBeenCalledWith(expect.objectContaining({ id: 'reminder-1' }));
+      expect(db.reminderDelivery.create).toHaveBeenCalledWith({
+        data: {
+          reminderId: 'reminder-1',
+          channel: 'IN_APP',
+          attempt: 1,
+          workerId,
+          success: true,
+        },
+      });
+      expect(db.reminder.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'reminder-1' },
+          data: expect.objectContaining({ status: 'SENT', claimedAt: null }),
+        })
+      );
+    });
+
+    it('should publish the fired reminder to open tabs', async () => {
+      await dispatchReminder(makeClaimed(), workerId, now);
+
+      const { data } = (db.userEvent.create as jest.Mock).mock.calls[0][0];
+      expect(data).toMatchObject({ userId: 'user-1', type: 'reminder.fired' });
+      expect(JSON.parse(data.data)).toMatchObject({
+        reminder: { id: 'reminder-1' },
+        taskTitle: 'Call dentist',
+        taskDueDate: null,
+      });
+    });
+
+    it('should not retry a delivered reminder when publishing fails', async () => {
+      (db.userEvent.create as jest.Mock).mockRejectedValue(new Error('Database is locked'));
+
+      expect(await dispatchReminder(makeClaimed(), workerId, now)).toBe('sent');
+      expect(deliver).toHaveBeenCalledTimes(1);
+    });
+
+    it('should schedule a retry with backoff when delivery fails', async () => {
+      deliver.mockRejectedValue(new Error('Mail server unavailable'));
+
+      const result = await dispatchReminder(makeClaimed({ attempts: 2 }), workerId, now);
+
+      expect(result).toBe('retrying');
+      expect(db.reminderDelivery.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          attempt: 3,
+          success: false,
+          error: 'Mail server unavailable',
+        }),
+      });
+      expect(db.reminder.update).toHaveBeenCalledWith({
+        where: { id: 'reminder-1' },
+        data: {
+          attempts: 3,
+          claimedAt: null,
+          claimedBy: null,
+          nextAttemptAt: new Date('2026-05-01T09:04:00Z'),
+        },
+      });
+    });
+
+    it('should mark the reminder failed after the last attempt', async () => {
+      process.env.REMINDER_MAX_ATTEMPTS = '3';
+      deliver.mockRejectedValue(new Error('Mail server unavailable'));
+
+      const result = await dispatchReminder(makeClaimed({ attempts: 2 }), workerId, now);
+
+      expect(result).toBe('failed');
+      expect(db.reminder.update).toHaveBeenCalledWith({
+        where: { id: 'reminder-1' },
+        data: expect.objectContaining({ status: 'FAILED', nextAttemptAt: null }),
+      });
+    });
+  });
+
+  describe('dispatchDueReminders', () => {
+    it('should count the outcome of each claimed reminder', async () => {
+      (db.reminder.findMany as jest.Mock)
+        .mockResolvedValueOnce([makeRow('reminder-1'), makeRow('reminder-2')])
+        .mockResolvedValueOnce([makeRow('reminder-1'), makeRow('reminder-2')]);
+      deliver.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('Offline'));
+
+      expect(await dispatchDueReminders(workerId, now)).toEqual({
+        claimed: 2,
+        sent: 1,
+        retrying: 1,
+        failed: 0,
+      });
+    });
+  });
+});
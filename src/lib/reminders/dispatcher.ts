@@ -0,0 +1,175 @@
+/**
+ * Reminder Dispatcher
+ *
+ * Delivers due reminders through the channel of their type. Any number of
+ * dispatchers can run side by side: each reminder is claimed with a
+ * conditional update that only one of them can win, and a claim left behind
+ * by a crashed dispatcher expires. Failed deliveries are retried with
+ * exponential backoff until the reminder is marked failed, and every attempt
+ * is recorded.
+ */
+
+import { db } from '@/lib/db';
+import { publishEventSafely } from '@/lib/events/service';
+import { logger } from '@/lib/logger';
+import { getReminderChannel } from './channels';
+import {
+  getDueReminderWhere,
+  getRemindersToSend,
+  markReminderSent,
+  toReminderDto,
+} from './service';
+import type { ReminderWithTask } from './types';
+import { getReminderMaxAttempts, getRetryDelay } from './utils';
+
+/** Reminders claimed per run */
+const DISPATCH_BATCH_SIZE = 50;
+
+/**
+ * Reminder claimed for delivery.
+ */
+export interface ClaimedReminder extends ReminderWithTask {
+  /** Failed delivery attempts so far */
+  attempts: number;
+}
+
+/**
+ * Outcome of a dispatcher run.
+ */
+export interface DispatchResult {
+  claimed: number;
+  sent: number;
+  /** Failed and scheduled for another attempt */
+  retrying: number;
+  /** Failed for the last time */
+  failed: number;
+}
+
+/**
+ * Claim due reminders for a dispatcher.
+ *
+ * @param workerId - ID of the claiming dispatcher
+ * @param now - Reference time
+ * @param limit - Most reminders to claim
+ * @returns The reminders this dispatcher won
+ */
+export async function claimDueReminders(
+  workerId: string,
+  now: Date = new Date(),
+  limit = DISPATCH_BATCH_SIZE
+): Promise<ClaimedReminder[]> {
+  const due = await getRemindersToSend(now, limit);
+  const claimedIds: string[] = [];
+
+  for (const reminder of due) {
+    // Matches only while the reminder is still due and unclaimed
+    const result = await db.reminder.updateMany({
+      where: { id: reminder.id, ...getDueReminderWhere(now) },
+      data: { claimedAt: now, claimedBy: workerId },
+    });
+    if (result.count === 1) {
+      claimedIds.push(reminder.id);
+    }
+  }
+
+  if (claimedIds.length === 0) {
+    return [];
+  }
+
+  const reminders = await db.reminder.findMany({
+    where: { id: { in: claimedIds }, claimedBy: workerId },
+    include: { task: { select: { id: true, title: true, dueDate: true } } },
+    orderBy: { fireAt: 'asc' },
+  });
+
+  return reminders.map((reminder) => ({
+    ...toReminderDto(reminder),
+    task: reminder.task,
+    attempts: reminder.attempts,
+  }));
+}
+
+/**
+ * Deliver a claimed reminder and record the attempt.
+ *
+ * @param reminder - Reminder claimed by this dispatcher
+ * @param workerId - ID of the dispatcher
+ * @param now - Reference time for scheduling a retry
+ * @returns Whether the reminder was sent, will be retried or failed for good
+ */
+export async function dispatchReminder(
+  reminder: ClaimedReminder,
+  workerId: string,
+  now: Date = new Date()
+): Promise<'sent' | 'retrying' | 'failed'> {
+  const attempt = reminder.attempts + 1;
+  const delivery = { reminderId: reminder.id, channel: reminder.type, attempt, workerId };
+
+  try {
+    await getReminderChannel(reminder.type).deliver(reminder);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const failed = attempt >= getReminderMaxAttempts();
+
+    await db.reminderDelivery.create({ data: { ...delivery, success: false, error: message } });
+    await db.reminder.update({
+      where: { id: reminder.id },
+      data: {
+        attempts: attempt,
+        claimedAt: null,
+        claimedBy: null,
+        ...(failed
+          ? { status: 'FAILED', nextAttemptAt: null }
+          : { nextAttemptAt: new Date(now.getTime() + getRetryDelay(attempt)) }),
+      },
+    });
+
+    logger.warn(
+      'Reminder delivery failed',
+      { reminderId: reminder.id, attempt, failed },
+      error instanceof Error ? error : undefined
+    );
+
+    return failed ? 'failed' : 'retrying';
+  }
+
+  await db.reminderDelivery.create({ data: { ...delivery, success: true } });
+  const sent = await markReminderSent(reminder.id, reminder.userId);
+
+  // Open tabs show the reminder right away; a missed event must not cause a second delivery
+  await publishEventSafely(reminder.userId, 'reminder.fired', {
+    reminder: sent ?? reminder,
+    taskTitle: reminder.task.title,
+    taskDueDate: reminder.task.dueDate,
+  });
+
+  return 'sent';
+}
+
+/**
+ * Claim and deliver the reminders that are due.
+ *
+ * @param workerId - ID of the dispatcher
+ * @param now - Reference time
+ * @returns Counts of claimed, sent, retrying and failed reminders
+ */
+export async function dispatchDueReminders(
+  workerId: string,
+  now: Date = new Date()
+): Promise<DispatchResult> {
+  const reminders = await claimDueReminders(workerId, now);
+  const result: DispatchResult = { claimed: reminders.length, sent: 0, retrying: 0, failed: 0 };
+
+  for (const reminder of reminders) {
+    try {
+      result[await dispatchReminder(reminder, workerId, now)] += 1;
+    } catch (error) {
+      // The claim expires, so the reminder is picked up again later
+      logger.error('Reminder dispatch error', error instanceof Error ? error : undefined, {
+        reminderId: reminder.id,
+      });
+    }
+  }
+
+  return result;
+}
@@ -30,6 +30,7 @@ export {
   BatchReminderSchema,
   CreateRemindersSchema,
   ReminderPresetSchema,
+  ReminderActionLinkSchema,
 } from './schemas';
 
 export type {
@@ -39,7 +40,21 @@ export type {
   SnoozeReminderInput,
   BatchReminderInput,
   CreateRemindersInput,
+  ReminderActionLinkInput,
 } from './schemas';
 
 // Service
 export * from './service';
+
+// Dispatcher (the long-running worker lives in ./worker)
+export * from './dispatcher';
+export { getReminderChannel, renderReminderEmail } from './channels';
+export {
+  applyReminderAction,
+  createReminderActionToken,
+  getReminderActionUrl,
+  verifyReminderActionToken,
+} from './actions';
+export type { ReminderAction } from './actions';
+export { getRelativeReminderUpdate, rescheduleRelativeReminders } from './relative';
+export type { ReminderChannel } from './channels';
@@ -0,0 +1,117 @@
+/**
+ * Relative Reminder Tests
+ *
+ * Tests for moving relative reminders along with their task's due date.
+ */
+
+import { db } from '@/lib/db';
+import { getRelativeReminderUpdate, rescheduleRelativeReminders } from './relative';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    reminder: { findMany: jest.fn(), update: jest.fn() },
+  },
+}));
+
+describe('Relative Reminders', () => {
+  const now = new Date('2026-05-01T09:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getRelativeReminderUpdate', () => {
+    it('should ignore reminders at a fixed time', () => {
+      const reminder = { relativeOffset: null, status: 'PENDING' as const };
+
+      expect(getRelativeReminderUpdate(reminder, new Date('2026-05-02T09:00:00Z'), now)).toBeNull();
+    });
+
+    it('should reset a reminder whose new time is ahead', () => {
+      const reminder = { relativeOffset: 15, status: 'SENT' as const };
+
+      expect(getRelativeReminderUpdate(reminder, new Date('2026-05-02T09:00:00Z'), now)).toEqual({
+        fireAt: new Date('2026-05-02T08:45:00Z'),
+        status: 'PENDING',
+        snoozedUntil: null,
+        sentAt: null,
+        dismissedAt: null,
+        attempts: 0,
+        nextAttemptAt: null,
+        claimedAt: null,
+        claimedBy: null,
+      });
+    });
+
+    it('should only move the time of a sent reminder whose new time has passed', () => {
+      const reminder = { relativeOffset: 15, status: 'SENT' as const };
+
+      expect(getRelativeReminderUpdate(reminder, new Date('2026-05-01T09:10:00Z'), now)).toEqual({
+        fireAt: new Date('2026-05-01T08:55:00Z'),
+      });
+    });
+
+    it('should pause pending and snoozed reminders when the due date is cleared', () => {
+      const paused = { status: 'PAUSED', snoozedUntil: null, nextAttemptAt: null };
+
+      expect(
+        getRelativeReminderUpdate({ relativeOffset: 15, status: 'PENDING' }, null, now)
+      ).toEqual(paused);
+      expect(
+        getRelativeReminderUpdate({ relativeOffset: 15, status: 'SNOOZED' }, null, now)
+      ).toEqual(paused);
+      expect(
+        getRelativeReminderUpdate({ relativeOffset: 15, status: 'SENT' }, null, now)
+      ).toBeNull();
+    });
+
+    it('should resume a paused reminder even if its time has passed', () => {
+      const reminder = { relativeOffset: 15, status: 'PAUSED' as const };
+
+      expect(getRelativeReminderUpdate(reminder, new Date('2026-05-01T09:10:00Z'), now)).toEqual(
+        expect.objectContaining({ fireAt: new Date('2026-05-01T08:55:00Z'), status: 'PENDING' })
+      );
+    });
+  });
+
+  describe('rescheduleRelativeReminders', () => {
+    it('should update the relative reminders of the given tasks', async () => {
+      (db.reminder.findMany as jest.Mock).mockResolvedValue([
+        { id: 'reminder-1', taskId: 'task-1', relativeOffset: 60, status: 'PENDING' },
+        { id: 'reminder-2', taskId: 'task-2', relativeOffset: 60, status: 'DISMISSED' },
+      ]);
+
+      const count = await rescheduleRelativeReminders(
+        'user-1',
+        [
+          { id: 'task-1', dueDate: new Date('2026-05-03T09:00:00Z') },
+          { id: 'task-2', dueDate: null },
+        ],
+        now
+      );
+
+      expect(count).toBe(1);
+      expect(db.reminder.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          taskId: { in: ['task-1', 'task-2'] },
+          relativeOffset: { not: null },
+        },
+        select: { id: true, taskId: true, relativeOffset: true, status: true },
+      });
+      expect(db.reminder.update).toHaveBeenCalledTimes(1);
+      expect(db.reminder.update).toHaveBeenCalledWith({
+        where: { id: 'reminder-1' },
+        data: expect.objectContaining({
+          fireAt: new Date('2026-05-03T08:00:00Z'),
+          status: 'PENDING',
+        }),
+      });
+    });
+
+    it('should skip the query when no tasks changed', async () => {
+      expect(await rescheduleRelativeReminders('user-1', [], now)).toBe(0);
+      expect(db.reminder.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Relative Reminders
+ *
+ * Reminders set relative to a task's due date (`relativeOffset` minutes
+ * before it) follow the due date when it changes. A reminder whose new time
+ * is still ahead starts over as pending, even if it was already sent,
+ * snoozed or dismissed for the old time. When the due date is cleared,
+ * reminders that have yet to fire are paused, and resume once the task has
+ * a due date again.
+ */
+
+import type { Prisma, ReminderStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+
+/** Reminder fields that decide how it follows a due date change */
+export type RelativeReminderState = {
+  relativeOffset: number | null;
+  status: ReminderStatus;
+};
+
+/**
+ * Get the change that makes a relative reminder follow its task's due date.
+ *
+ * @param reminder - Reminder before the change
+ * @param dueDate - New due date of the task, or null if cleared
+ * @param now - Reference time
+ * @returns Update data, or null if the reminder stays as it is
+ */
+export function getRelativeReminderUpdate(
+  reminder: RelativeReminderState,
+  dueDate: Date | null,
+  now: Date = new Date()
+): Prisma.ReminderUpdateInput | null {
+  if (reminder.relativeOffset === null) {
+    return null;
+  }
+
+  if (!dueDate) {
+    return reminder.status === 'PENDING' || reminder.status === 'SNOOZED'
+      ? { status: 'PAUSED', snoozedUntil: null, nextAttemptAt: null }
+      : null;
+  }
+
+  const fireAt = new Date(dueDate.getTime() - reminder.relativeOffset * 60 * 1000);
+
+  if (fireAt > now || reminder.status === 'PAUSED') {
+    // A paused reminder whose time has passed in the meantime fires right away
+    return {
+      fireAt,
+      status: 'PENDING',
+      snoozedUntil: null,
+      sentAt: null,
+      dismissedAt: null,
+      attempts: 0,
+      nextAttemptAt: null,
+      claimedAt: null,
+      claimedBy: null,
+    };
+  }
+
+  // The new time has passed; a reminder that was due fires now, others keep their state
+  return { fireAt };
+}
+
+/**
+ * Move the relative reminders of tasks whose due date changed.
+ *
+ * @param userId - User owning the tasks
+ * @param tasks - Tasks with their new due dates
+ * @param now - Reference time
+ * @returns Number of reminders changed
+ */
+export async function rescheduleRelativeReminders(
+  userId: string,
+  tasks: Array<{ id: string; dueDate: Date | null }>,
+  now: Date = new Date()
+): Promise<number> {
+  if (tasks.length === 0) {
+    return 0;
+  }
+
+  const dueDates = new Map(tasks.map((task) => [task.id, task.dueDate]));
+  const reminders = await db.reminder.findMany({
+    where: { userId, taskId: { in: [...dueDates.keys()] }, relativeOffset: { not: null } },
+    select: { id: true, taskId: true, relativeOffset: true, status: true },
+  });
+
+  let count = 0;
+  for (const reminder of reminders) {
+    const data = getRelativeReminderUpdate(reminder, dueDates.get(reminder.taskId) ?? null, now);
+    if (data) {
+      await db.reminder.update({ where: { id: reminder.id }, data });
+      count++;
+    }
+  }
+
+  return count;
+}
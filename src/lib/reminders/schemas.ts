@@ -8,7 +8,14 @@ import { z } from 'zod';
 
 // Re-export enum values for validation
 export const ReminderTypeEnum = z.enum(['IN_APP', 'PUSH', 'EMAIL']);
-export const ReminderStatusEnum = z.enum(['PENDING', 'SENT', 'DISMISSED', 'SNOOZED']);
+export const ReminderStatusEnum = z.enum([
+  'PENDING',
+  'SENT',
+  'DISMISSED',
+  'SNOOZED',
+  'FAILED',
+  'PAUSED',
+]);
 
 /**
  * Create Reminder Schema
@@ -59,6 +66,7 @@ export const ReminderQuerySchema = z.object({
   taskId: z.string().optional(),
   fireBefore: z.coerce.date().optional(),
   fireAfter: z.coerce.date().optional(),
+  sentAfter: z.coerce.date().optional(),
   includePending: z.coerce.boolean().optional(),
   sortBy: z.enum(['fireAt', 'createdAt', 'snoozedUntil']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
@@ -127,6 +135,14 @@ export const CreateRemindersSchema = z.object({
     .max(5, 'Maximum 5 reminders per task'),
 });
 
+/**
+ * Reminder Action Link Schema (route parameter and query)
+ */
+export const ReminderActionLinkSchema = z.object({
+  action: z.enum(['done', 'snooze']),
+  token: z.string().min(1, 'Token is required'),
+});
+
 /**
  * Reminder Preset Schema
  */
@@ -148,3 +164,4 @@ export type SnoozeReminderInput = z.infer<typeof SnoozeReminderSchema>;
 export type BatchReminderInput = z.infer<typeof BatchReminderSchema>;
 export type CreateRemindersInput = z.infer<typeof CreateRemindersSchema>;
 export type ReminderPreset = z.infer<typeof ReminderPresetSchema>;
+export type ReminderActionLinkInput = z.infer<typeof ReminderActionLinkSchema>;
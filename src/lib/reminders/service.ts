@@ -16,6 +16,7 @@ import {
   ReminderType,
   ReminderStatus,
 } from './types';
+import { getClaimCutoff } from './utils';
 
 /**
  * Transform Prisma reminder to DTO
@@ -79,6 +80,7 @@ export async function getReminders(
     taskId,
     fireBefore,
     fireAfter,
+    sentAfter,
     includePending,
     sortBy = 'fireAt',
     sortOrder = 'asc',
@@ -88,12 +90,15 @@ export async function getReminders(
 
   const where: Prisma.ReminderWhereInput = {
     userId,
+    // Reminders of tasks in the trash stay quiet until the task is restored
+    task: { deletedAt: null },
     ...(status && { status }),
     ...(type && { type }),
     ...(taskId && { taskId }),
     ...(includePending && { status: 'PENDING' }),
     ...(fireBefore && { fireAt: { lte: fireBefore } }),
     ...(fireAfter && { fireAt: { gte: fireAfter } }),
+    ...(sentAfter && { sentAt: { gte: sentAfter } }),
     // If snoozed, use snoozedUntil for time-based queries
     ...(fireBefore && status === 'SNOOZED' && { snoozedUntil: { lte: fireBefore } }),
   };
@@ -171,6 +176,7 @@ export async function getPendingReminders(
     where: {
       userId,
       status: 'PENDING',
+      task: { deletedAt: null },
       OR: [{ fireAt: { lte: before } }, { snoozedUntil: { lte: before } }],
     },
     orderBy: { fireAt: 'asc' },
@@ -198,7 +204,7 @@ export async function createReminder(
 ): Promise<ReminderDto> {
   // Verify task exists and belongs to user
   const task = await db.task.findFirst({
-    where: { id: taskId, userId },
+    where: { id: taskId, userId, deletedAt: null },
     select: { dueDate: true },
   });
 
@@ -261,7 +267,7 @@ export async function createReminders(
 ): Promise<ReminderDto[]> {
   // Verify task exists and belongs to user
   const task = await db.task.findFirst({
-    where: { id: taskId, userId },
+    where: { id: taskId, userId, deletedAt: null },
     select: { dueDate: true },
   });
 
@@ -520,6 +526,10 @@ export async function markReminderSent(
     data: {
       status: 'SENT',
       sentAt: new Date(),
+      attempts: 0,
+      nextAttemptAt: null,
+      claimedAt: null,
+      claimedBy: null,
     },
     include: {
       task: {
@@ -535,18 +545,79 @@ export async function markReminderSent(
   return toReminderDto(updated);
 }
 
+/**
+ * Build a where clause matching reminders that are due for delivery: pending
+ * or snoozed reminders whose time has come, that are not waiting for a retry
+ * and not claimed by a running dispatcher.
+ */
+export function getDueReminderWhere(before: Date = new Date()): Prisma.ReminderWhereInput {
+  return {
+    // Reminders of tasks in the trash stay quiet until the task is restored
+    task: { deletedAt: null },
+    OR: [
+      { fireAt: { lte: before }, status: 'PENDING' },
+      { snoozedUntil: { lte: before }, status: 'SNOOZED' },
+    ],
+    AND: [
+      { OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: before } }] },
+      { OR: [{ claimedAt: null }, { claimedAt: { lt: getClaimCutoff(before) } }] },
+    ],
+  };
+}
+
+/**
+ * Check whether any reminder is due for delivery.
+ *
+ * @param before - Reminders due at or before this time count
+ */
+export async function hasDueReminders(before: Date = new Date()): Promise<boolean> {
+  const reminder = await db.reminder.findFirst({
+    where: getDueReminderWhere(before),
+    select: { id: true },
+  });
+
+  return reminder !== null;
+}
+
+/**
+ * Get the time the next pending or snoozed reminder becomes due, so the
+ * dispatcher can wake up for it instead of waiting for its next poll.
+ *
+ * @param after - Only reminders due after this time are considered
+ * @returns The time, or null if no reminder is scheduled
+ */
+export async function getNextReminderTime(after: Date = new Date()): Promise<Date | null> {
+  const where = { task: { deletedAt: null }, nextAttemptAt: null, claimedAt: null };
+
+  const [pending, snoozed] = await Promise.all([
+    db.reminder.findFirst({
+      where: { ...where, status: 'PENDING', fireAt: { gt: after } },
+      orderBy: { fireAt: 'asc' },
+      select: { fireAt: true },
+    }),
+    db.reminder.findFirst({
+      where: { ...where, status: 'SNOOZED', snoozedUntil: { gt: after } },
+      orderBy: { snoozedUntil: 'asc' },
+      select: { snoozedUntil: true },
+    }),
+  ]);
+
+  const times = [pending?.fireAt, snoozed?.snoozedUntil].filter(
+    (time): time is Date => time instanceof Date
+  );
+
+  return times.length > 0 ? new Date(Math.min(...times.map((time) => time.getTime()))) : null;
+}
+
 /**
  * Get reminders that need to be sent
  */
-export async function getRemindersToSend(before: Date = new Date()): Promise<ReminderDto[]> {
+export async function getRemindersToSend(
+  before: Date = new Date(),
+  limit?: number
+): Promise<ReminderDto[]> {
   const reminders = await db.reminder.findMany({
-    where: {
-      status: { in: ['PENDING', 'SNOOZED'] },
-      OR: [
-        { fireAt: { lte: before }, status: 'PENDING' },
-        { snoozedUntil: { lte: before }, status: 'SNOOZED' },
-      ],
-    },
+    where: getDueReminderWhere(before),
     include: {
       task: {
         select: {
@@ -557,6 +628,7 @@ export async function getRemindersToSend(before: Date = new Date()): Promise<Rem
       },
     },
     orderBy: { fireAt: 'asc' },
+    ...(limit !== undefined && { take: limit }),
   });
 
   return reminders.map(toReminderDto);
@@ -579,6 +651,8 @@ export async function countRemindersByStatus(
     SENT: 0,
     DISMISSED: 0,
     SNOOZED: 0,
+    FAILED: 0,
+    PAUSED: 0,
   };
 
   for (const count of counts) {
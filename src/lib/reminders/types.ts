@@ -9,7 +9,7 @@
 export type ReminderType = 'IN_APP' | 'PUSH' | 'EMAIL';
 
 // Reminder statuses (matching Prisma schema)
-export type ReminderStatus = 'PENDING' | 'SENT' | 'DISMISSED' | 'SNOOZED';
+export type ReminderStatus = 'PENDING' | 'SENT' | 'DISMISSED' | 'SNOOZED' | 'FAILED' | 'PAUSED';
 
 /**
  * Reminder DTO - Main interface for reminder data
@@ -70,6 +70,7 @@ export interface ReminderListOptions {
   taskId?: string;
   fireBefore?: Date;
   fireAfter?: Date;
+  sentAfter?: Date; // Only reminders delivered since then
   includePending?: boolean; // Include only pending reminders
   sortBy?: 'fireAt' | 'createdAt' | 'snoozedUntil';
   sortOrder?: 'asc' | 'desc';
@@ -162,4 +163,6 @@ export const REMINDER_STATUS_LABELS: Record<ReminderStatus, string> = {
   SENT: 'Sent',
   DISMISSED: 'Dismissed',
   SNOOZED: 'Snoozed',
+  FAILED: 'Failed',
+  PAUSED: 'Paused',
 };
@@ -0,0 +1,51 @@
+/**
+ * Reminder Utilities
+ *
+ * Dispatcher settings.
+ */
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_POLL_INTERVAL_SECONDS = 30;
+
+const MINUTE_MS = 60 * 1000;
+
+/** First retry delay; each further retry waits twice as long */
+const BASE_RETRY_DELAY_MS = MINUTE_MS;
+
+/** Longest wait between retries */
+const MAX_RETRY_DELAY_MS = 60 * MINUTE_MS;
+
+/** Claims older than this are assumed abandoned by a crashed dispatcher */
+export const REMINDER_CLAIM_TIMEOUT_MS = 5 * MINUTE_MS;
+
+/**
+ * Get the number of delivery attempts before a reminder is marked failed.
+ */
+export function getReminderMaxAttempts(): number {
+  const attempts = Number(process.env.REMINDER_MAX_ATTEMPTS);
+  return Number.isInteger(attempts) && attempts > 0 ? attempts : DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Get how often the dispatcher looks for due reminders, in milliseconds.
+ */
+export function getReminderPollInterval(): number {
+  const seconds = Number(process.env.REMINDER_POLL_INTERVAL_SECONDS);
+  return (seconds > 0 ? seconds : DEFAULT_POLL_INTERVAL_SECONDS) * 1000;
+}
+
+/**
+ * Get the delay before retrying a delivery.
+ *
+ * @param attempts - Failed attempts so far
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Get the time before which a claim is considered abandoned.
+ */
+export function getClaimCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - REMINDER_CLAIM_TIMEOUT_MS);
+}
@@ -0,0 +1,85 @@
+/**
+ * Reminder Worker Tests
+ *
+ * Tests for scheduling dispatcher runs between intervals.
+ */
+
+import { dispatchDueReminders } from './dispatcher';
+import { getNextReminderTime, hasDueReminders } from './service';
+import { startReminderWorker } from './worker';
+
+jest.mock('./dispatcher', () => ({
+  dispatchDueReminders: jest.fn(),
+}));
+
+jest.mock('./service', () => ({
+  getNextReminderTime: jest.fn(),
+  hasDueReminders: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('Reminder Worker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    (dispatchDueReminders as jest.Mock).mockResolvedValue({ claimed: 0, sent: 0, failed: 0 });
+    (getNextReminderTime as jest.Mock).mockResolvedValue(null);
+    (hasDueReminders as jest.Mock).mockResolvedValue(false);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run again once the interval has passed', async () => {
+    const stop = startReminderWorker({ workerId: 'worker-1', intervalMs: 30_000 });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(dispatchDueReminders).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(29_000);
+    expect(dispatchDueReminders).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(dispatchDueReminders).toHaveBeenCalledTimes(2);
+
+    await stop();
+  });
+
+  it('should wake up for a reminder scheduled while it sleeps', async () => {
+    const stop = startReminderWorker({ workerId: 'worker-1', intervalMs: 30_000 });
+    await jest.advanceTimersByTimeAsync(0);
+
+    (hasDueReminders as jest.Mock).mockResolvedValue(true);
+    await jest.advanceTimersByTimeAsync(1_000);
+
+    expect(dispatchDueReminders).toHaveBeenCalledTimes(2);
+
+    await stop();
+  });
+
+  it('should run when the next known reminder is due', async () => {
+    (getNextReminderTime as jest.Mock).mockResolvedValueOnce(new Date(Date.now() + 500));
+
+    const stop = startReminderWorker({ workerId: 'worker-1', intervalMs: 30_000 });
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(dispatchDueReminders).toHaveBeenCalledTimes(2);
+    expect(hasDueReminders).not.toHaveBeenCalled();
+
+    await stop();
+  });
+
+  it('should stop scheduling runs once stopped', async () => {
+    const stop = startReminderWorker({ workerId: 'worker-1', intervalMs: 30_000 });
+    await jest.advanceTimersByTimeAsync(0);
+    await stop();
+
+    await jest.advanceTimersByTimeAsync(60_000);
+
+    expect(dispatchDueReminders).toHaveBeenCalledTimes(1);
+    expect(hasDueReminders).not.toHaveBeenCalled();
+  });
+});
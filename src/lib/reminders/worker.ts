@@ -0,0 +1,106 @@
+/**
+ * Reminder Worker
+ *
+ * Runs the reminder dispatcher on an interval in a long-lived process, and
+ * wakes up early when a reminder becomes due before the next interval.
+ */
+
+import { hostname } from 'os';
+import { logger } from '@/lib/logger';
+import { dispatchDueReminders } from './dispatcher';
+import { getNextReminderTime, hasDueReminders } from './service';
+import { getReminderPollInterval } from './utils';
+
+/**
+ * How often an idle worker checks for reminders that became due since its
+ * last run, such as ones created or snoozed to fire before the next run
+ */
+const WAKE_CHECK_MS = 1000;
+
+export interface ReminderWorkerOptions {
+  /** ID recorded on claims and delivery attempts (default: host and process ID) */
+  workerId?: string;
+  /** Longest time between runs in milliseconds */
+  intervalMs?: number;
+}
+
+/**
+ * Start dispatching due reminders. Runs never overlap; the next one starts
+ * when the next reminder is due, or at most an interval after the previous
+ * one ends. In between, the worker checks every second whether a reminder
+ * scheduled since the last run is due, so it is delivered without waiting
+ * for the next run.
+ *
+ * @returns A function that stops the worker once the current run ends
+ */
+export function startReminderWorker(options: ReminderWorkerOptions = {}): () => Promise<void> {
+  const workerId = options.workerId ?? `${hostname()}:${process.pid}`;
+  const intervalMs = options.intervalMs ?? getReminderPollInterval();
+
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let current: Promise<void> = Promise.resolve();
+
+  const schedule = (runAt: number) => {
+    if (stopped) {
+      return;
+    }
+    const delay = Math.min(WAKE_CHECK_MS, Math.max(0, runAt - Date.now()));
+    timer = setTimeout(() => {
+      current = wake(runAt);
+    }, delay);
+  };
+
+  const wake = async (runAt: number) => {
+    if (Date.now() >= runAt) {
+      return run();
+    }
+
+    try {
+      if (await hasDueReminders()) {
+        return run();
+      }
+    } catch (error) {
+      logger.error('Reminder worker error', error instanceof Error ? error : undefined, {
+        workerId,
+      });
+    }
+
+    schedule(runAt);
+  };
+
+  const run = async () => {
+    let runAt = Date.now() + intervalMs;
+
+    try {
+      const result = await dispatchDueReminders(workerId);
+      if (result.claimed > 0) {
+        logger.info('Reminders dispatched', { workerId, ...result });
+      }
+
+      runAt = Date.now() + intervalMs;
+      const next = await getNextReminderTime();
+      if (next) {
+        runAt = Math.min(runAt, next.getTime());
+      }
+    } catch (error) {
+      logger.error('Reminder worker error', error instanceof Error ? error : undefined, {
+        workerId,
+      });
+    }
+
+    schedule(runAt);
+  };
+
+  logger.info('Reminder worker started', { workerId, intervalMs });
+  current = run();
+
+  return async () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+    await current;
+    logger.info('Reminder worker stopped', { workerId });
+  };
+}
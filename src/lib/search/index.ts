@@ -0,0 +1,10 @@
+/**
+ * Search Module
+ *
+ * Exports full-text search types, schemas, and service functions.
+ */
+
+export * from './types';
+export * from './schemas';
+export * from './query';
+export * from './service';
@@ -0,0 +1,46 @@
+/**
+ * Search Query Helper Tests
+ *
+ * Tests for FTS5 match expression building and highlight parsing.
+ */
+
+import { buildMatchQuery, parseHighlight, HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE } from './query';
+
+describe('buildMatchQuery', () => {
+  it('should match words by prefix', () => {
+    expect(buildMatchQuery('groc list')).toBe('"groc"* "list"*');
+  });
+
+  it('should match quoted text as a phrase', () => {
+    expect(buildMatchQuery('"weekly review" notes')).toBe('"weekly review" "notes"*');
+  });
+
+  it('should accept an unterminated phrase while typing', () => {
+    expect(buildMatchQuery('"weekly rev')).toBe('"weekly rev"');
+  });
+
+  it('should treat FTS5 syntax as plain text', () => {
+    expect(buildMatchQuery('NOT title:foo*')).toBe('"NOT"* "title:foo"*');
+    expect(buildMatchQuery('say"hi')).toBe('"say""hi"*');
+  });
+
+  it('should return null when there is nothing to search for', () => {
+    expect(buildMatchQuery('')).toBeNull();
+    expect(buildMatchQuery('  - * ""')).toBeNull();
+  });
+});
+
+describe('parseHighlight', () => {
+  it('should split text into highlighted segments', () => {
+    const text = `Buy ${HIGHLIGHT_OPEN}groceries${HIGHLIGHT_CLOSE} today`;
+    expect(parseHighlight(text)).toEqual([
+      { text: 'Buy ', highlight: false },
+      { text: 'groceries', highlight: true },
+      { text: ' today', highlight: false },
+    ]);
+  });
+
+  it('should return plain text as a single segment', () => {
+    expect(parseHighlight('No matches')).toEqual([{ text: 'No matches', highlight: false }]);
+  });
+});
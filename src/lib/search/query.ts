@@ -0,0 +1,85 @@
+/**
+ * Search Query Helpers
+ *
+ * Converts user input into SQLite FTS5 match expressions and parses
+ * highlighted FTS5 output.
+ */
+
+import type { HighlightSegment } from './types';
+
+/** Marker FTS5 inserts before a matched term */
+export const HIGHLIGHT_OPEN = '\u0002';
+
+/** Marker FTS5 inserts after a matched term */
+export const HIGHLIGHT_CLOSE = '\u0003';
+
+// Quoted phrase (closing quote optional while typing) or bare word
+const TERM_PATTERN = /"([^"]*)"?|(\S+)/g;
+
+/**
+ * Quote a term as an FTS5 string, escaping embedded quotes.
+ */
+function quote(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Build an FTS5 MATCH expression from user input.
+ *
+ * Quoted text matches as an exact phrase; every other word matches as a
+ * prefix, so results update while the user is still typing. All terms must
+ * match. FTS5 operators in the input are treated as plain words.
+ *
+ * @param input - Raw search input, e.g. `"weekly review" grocer`
+ * @returns Match expression, or null if the input has no searchable terms
+ */
+export function buildMatchQuery(input: string): string | null {
+  const terms: string[] = [];
+
+  for (const match of input.matchAll(TERM_PATTERN)) {
+    const [, phrase, word] = match;
+    const text = (phrase ?? word).trim();
+
+    // Terms without letters or digits produce no tokens and would not match
+    if (!/[\p{L}\p{N}]/u.test(text)) continue;
+
+    if (phrase !== undefined) {
+      terms.push(quote(text));
+    } else {
+      terms.push(`${quote(text.replace(/\*+$/, ''))}*`);
+    }
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/**
+ * Split FTS5 `highlight()`/`snippet()` output into segments.
+ *
+ * @param text - Text containing highlight markers
+ * @returns Segments in order; empty segments are omitted
+ */
+export function parseHighlight(text: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let highlight = false;
+  let current = '';
+
+  const flush = () => {
+    if (current) {
+      segments.push({ text: current, highlight });
+      current = '';
+    }
+  };
+
+  for (const char of text) {
+    if (char === HIGHLIGHT_OPEN || char === HIGHLIGHT_CLOSE) {
+      flush();
+      highlight = char === HIGHLIGHT_OPEN;
+    } else {
+      current += char;
+    }
+  }
+  flush();
+
+  return segments;
+}
@@ -0,0 +1,36 @@
+/**
+ * Search Validation Schemas
+ *
+ * Zod schemas for validating search API requests.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Searchable entity types.
+ */
+export const SearchResultTypeEnum = z.enum(['task', 'list', 'tag', 'habit', 'goal']);
+
+/**
+ * Schema for search query parameters.
+ * `types` is a comma-separated list (e.g., "task,list").
+ */
+export const SearchQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(1, 'Search query is required')
+    .max(200, 'Search query must be at most 200 characters'),
+  types: z
+    .preprocess(
+      (value) => (typeof value === 'string' ? value.split(',').filter(Boolean) : value),
+      z.array(SearchResultTypeEnum)
+    )
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+/**
+ * Infer TypeScript types from schemas.
+ */
+export type SearchQueryInput = z.infer<typeof SearchQuerySchema>;
@@ -0,0 +1,110 @@
+/**
+ * Search Service Tests
+ *
+ * Tests for full-text search with a mocked database.
+ */
+
+import { db } from '@/lib/db';
+import { search, ensureSearchIndex } from './service';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    $queryRawUnsafe: jest.fn(),
+    $executeRawUnsafe: jest.fn(),
+  },
+}));
+
+describe('Search Service', () => {
+  const userId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Runs first: the index is created once per process
+  it('should create and populate the index on first use', async () => {
+    (db.$queryRawUnsafe as jest.Mock).mockResolvedValueOnce([]);
+
+    await ensureSearchIndex();
+    await ensureSearchIndex();
+
+    const statements = (db.$executeRawUnsafe as jest.Mock).mock.calls.map(([sql]) => sql);
+    expect(statements[0]).toContain('CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5');
+    expect(statements.filter((sql) => sql.startsWith('CREATE TRIGGER'))).toHaveLength(15);
+    expect(statements.filter((sql) => sql.startsWith('DROP TRIGGER IF EXISTS'))).toHaveLength(15);
+    expect(statements).toContain('DELETE FROM search_index');
+    expect(statements.filter((sql) => sql.startsWith('INSERT INTO search_index'))).toHaveLength(5);
+    // Trashed rows stay out of the index
+    expect(
+      statements
+        .filter((sql) => sql.startsWith('INSERT INTO search_index'))
+        .every((sql) => sql.includes('deletedAt IS NULL'))
+    ).toBe(true);
+    expect(db.$queryRawUnsafe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not query the database for empty input', async () => {
+    const results = await search(userId, '   ');
+
+    expect(results).toEqual([]);
+    expect(db.$queryRawUnsafe).not.toHaveBeenCalled();
+  });
+
+  it('should query the index and map results', async () => {
+    (db.$queryRawUnsafe as jest.Mock).mockResolvedValue([
+      {
+        type: 'task',
+        id: 'task-1',
+        parentId: null,
+        title: 'Buy groceries',
+        titleHighlight: 'Buy \u0002groceries\u0003',
+        snippet: 'Milk and eggs',
+        rank: -2.5,
+      },
+    ]);
+
+    const results = await search(userId, 'groc', { types: ['task', 'list'], limit: 5 });
+
+    const [sql, ...params] = (db.$queryRawUnsafe as jest.Mock).mock.calls[0];
+    expect(sql).toContain('search_index MATCH ?');
+    expect(sql).toContain('type IN (?, ?)');
+    expect(params).toEqual(['"groc"*', userId, 'task', 'list', 5]);
+
+    expect(results).toEqual([
+      {
+        type: 'task',
+        id: 'task-1',
+        title: 'Buy groceries',
+        titleHighlight: [
+          { text: 'Buy ', highlight: false },
+          { text: 'groceries', highlight: true },
+        ],
+        snippet: null,
+        parentId: null,
+        rank: -2.5,
+      },
+    ]);
+  });
+
+  it('should include snippets when the description matched', async () => {
+    (db.$queryRawUnsafe as jest.Mock).mockResolvedValue([
+      {
+        type: 'goal',
+        id: 'goal-1',
+        parentId: null,
+        title: 'Run a marathon',
+        titleHighlight: 'Run a marathon',
+        snippet: '…train for the \u0002spring\u0003 race…',
+        rank: -1,
+      },
+    ]);
+
+    const [result] = await search(userId, 'spring');
+
+    expect(result.snippet).toEqual([
+      { text: '…train for the ', highlight: false },
+      { text: 'spring', highlight: true },
+      { text: ' race…', highlight: false },
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Search Service
+ *
+ * Full-text search across tasks, lists, tags, habits and goals, backed by an
+ * SQLite FTS5 index.
+ *
+ * The index is a standalone FTS5 table kept in sync by triggers on the source
+ * tables. Both are created on first use, since they cannot be described in the
+ * Prisma schema; if the index table is missing (e.g. after `prisma db push`
+ * recreated the database) it is rebuilt from the source tables. Rows in the
+ * trash are left out of the index and come back when they are restored.
+ */
+
+import { db } from '@/lib/db';
+import { buildMatchQuery, parseHighlight, HIGHLIGHT_CLOSE, HIGHLIGHT_OPEN } from './query';
+import type { SearchOptions, SearchResult, SearchResultType } from './types';
+
+const INDEX_TABLE = 'search_index';
+
+/**
+ * Source table for one searchable entity type.
+ */
+interface SearchSource {
+  type: SearchResultType;
+  table: string;
+  /** Column holding the title */
+  title: string;
+  /** Column holding the longer text, if any */
+  body: string | null;
+  /** Column holding the parent ID, if any */
+  parent: string | null;
+}
+
+const SOURCES: SearchSource[] = [
+  { type: 'task', table: 'tasks', title: 'title', body: 'description', parent: 'parentId' },
+  { type: 'list', table: 'lists', title: 'title', body: 'description', parent: null },
+  { type: 'tag', table: 'tags', title: 'name', body: null, parent: null },
+  { type: 'habit', table: 'habits', title: 'title', body: 'description', parent: null },
+  { type: 'goal', table: 'goals', title: 'title', body: 'description', parent: null },
+];
+
+// Column order matters for highlight(), snippet() and bm25() below
+const CREATE_INDEX_SQL = `CREATE VIRTUAL TABLE IF NOT EXISTS ${INDEX_TABLE} USING fts5(
+  type UNINDEXED,
+  entity_id UNINDEXED,
+  user_id UNINDEXED,
+  parent_id UNINDEXED,
+  title,
+  body,
+  tokenize = 'unicode61 remove_diacritics 2'
+)`;
+
+const TITLE_COLUMN = 4;
+const BODY_COLUMN = 5;
+
+// Title matches weigh more than description matches
+const RANK_SQL = `bm25(${INDEX_TABLE}, 0, 0, 0, 0, 10.0, 1.0)`;
+
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Build the SELECT that produces index rows for a source, using `row` as the
+ * source row alias (`new` in triggers).
+ */
+function sourceValues(source: SearchSource, row: string): string {
+  const body = source.body ? `${row}.${source.body}` : 'NULL';
+  const parent = source.parent ? `${row}.${source.parent}` : 'NULL';
+  return `'${source.type}', ${row}.id, ${row}.userId, ${parent}, ${row}.${source.title}, ${body}`;
+}
+
+/**
+ * Build the triggers that keep the index in sync with a source table.
+ * Existing triggers are dropped first so changed definitions take effect.
+ */
+function triggerStatements(source: SearchSource): string[] {
+  const insert = `INSERT INTO ${INDEX_TABLE} (type, entity_id, user_id, parent_id, title, body)
+    SELECT ${sourceValues(source, 'new')} WHERE new.deletedAt IS NULL;`;
+  const remove = `DELETE FROM ${INDEX_TABLE} WHERE type = '${source.type}' AND entity_id = old.id;`;
+  const columns = [source.title, source.body, source.parent, 'deletedAt']
+    .filter(Boolean)
+    .join(', ');
+  const name = `${INDEX_TABLE}_${source.table}`;
+
+  return [
+    ...['insert', 'update', 'delete'].map((event) => `DROP TRIGGER IF EXISTS ${name}_${event}`),
+    `CREATE TRIGGER IF NOT EXISTS ${name}_insert AFTER INSERT ON ${source.table} BEGIN ${insert} END`,
+    `CREATE TRIGGER IF NOT EXISTS ${name}_update AFTER UPDATE OF ${columns} ON ${source.table} BEGIN ${remove} ${insert} END`,
+    `CREATE TRIGGER IF NOT EXISTS ${name}_delete AFTER DELETE ON ${source.table} BEGIN ${remove} END`,
+  ];
+}
+
+/**
+ * Rebuild the search index from the source tables.
+ */
+export async function rebuildSearchIndex(): Promise<void> {
+  await db.$executeRawUnsafe(`DELETE FROM ${INDEX_TABLE}`);
+
+  for (const source of SOURCES) {
+    await db.$executeRawUnsafe(
+      `INSERT INTO ${INDEX_TABLE} (type, entity_id, user_id, parent_id, title, body)
+       SELECT ${sourceValues(source, 'src')} FROM ${source.table} AS src
+       WHERE src.deletedAt IS NULL`
+    );
+  }
+}
+
+/**
+ * Create the index table and sync triggers, populating the index if it is new.
+ */
+async function createSearchIndex(): Promise<void> {
+  const existing = await db.$queryRawUnsafe<Array<{ name: string }>>(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    INDEX_TABLE
+  );
+
+  await db.$executeRawUnsafe(CREATE_INDEX_SQL);
+  for (const source of SOURCES) {
+    for (const statement of triggerStatements(source)) {
+      await db.$executeRawUnsafe(statement);
+    }
+  }
+
+  if (existing.length === 0) {
+    await rebuildSearchIndex();
+  }
+}
+
+let indexReady: Promise<void> | null = null;
+
+/**
+ * Ensure the search index exists. Runs once per process; a failed attempt is
+ * retried on the next call.
+ */
+export function ensureSearchIndex(): Promise<void> {
+  if (!indexReady) {
+    indexReady = createSearchIndex().catch((error) => {
+      indexReady = null;
+      throw error;
+    });
+  }
+  return indexReady;
+}
+
+/**
+ * Search a user's tasks, lists, tags, habits and goals.
+ *
+ * Results are ranked with BM25, weighting title matches above description
+ * matches, and include highlighted titles and description snippets.
+ *
+ * @param userId - User ID to search for
+ * @param query - Raw search input (supports "quoted phrases"; words match by prefix)
+ * @param options - Type filter and limit
+ * @returns Ranked search results
+ */
+export async function search(
+  userId: string,
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const match = buildMatchQuery(query);
+  if (!match) {
+    return [];
+  }
+
+  await ensureSearchIndex();
+
+  const params: unknown[] = [match, userId];
+  let typeFilter = '';
+  if (options.types && options.types.length > 0) {
+    typeFilter = `AND type IN (${options.types.map(() => '?').join(', ')})`;
+    params.push(...options.types);
+  }
+  params.push(options.limit ?? DEFAULT_LIMIT);
+
+  const rows = await db.$queryRawUnsafe<
+    Array<{
+      type: SearchResultType;
+      id: string;
+      parentId: string | null;
+      title: string;
+      titleHighlight: string;
+      snippet: string | null;
+      rank: number;
+    }>
+  >(
+    `SELECT
+       type,
+       entity_id AS id,
+       parent_id AS parentId,
+       title,
+       highlight(${INDEX_TABLE}, ${TITLE_COLUMN}, char(2), char(3)) AS titleHighlight,
+       snippet(${INDEX_TABLE}, ${BODY_COLUMN}, char(2), char(3), '…', 16) AS snippet,
+       ${RANK_SQL} AS rank
+     FROM ${INDEX_TABLE}
+     WHERE ${INDEX_TABLE} MATCH ? AND user_id = ? ${typeFilter}
+     ORDER BY rank
+     LIMIT ?`,
+    ...params
+  );
+
+  return rows.map((row) => ({
+    type: row.type,
+    id: row.id,
+    title: row.title,
+    titleHighlight: parseHighlight(row.titleHighlight),
+    snippet:
+      row.snippet && row.snippet.includes(HIGHLIGHT_OPEN) && row.snippet.includes(HIGHLIGHT_CLOSE)
+        ? parseHighlight(row.snippet)
+        : null,
+    parentId: row.parentId,
+    rank: Number(row.rank),
+  }));
+}
@@ -0,0 +1,53 @@
+/**
+ * Search Type Definitions
+ *
+ * TypeScript types for full-text search results and API responses.
+ */
+
+/**
+ * Kind of entity a search result points to.
+ */
+export type SearchResultType = 'task' | 'list' | 'tag' | 'habit' | 'goal';
+
+/**
+ * Part of a highlighted text; `highlight` marks matched terms.
+ */
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * Search result DTO.
+ */
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  /** Title split into matched and unmatched segments */
+  titleHighlight: HighlightSegment[];
+  /** Excerpt of the description around the matched terms, if any */
+  snippet: HighlightSegment[] | null;
+  /** Parent task ID for subtasks */
+  parentId: string | null;
+  /** BM25 score; lower is a better match */
+  rank: number;
+}
+
+/**
+ * Search response.
+ */
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
+
+/**
+ * Options for a search query.
+ */
+export interface SearchOptions {
+  /** Restrict results to these entity types */
+  types?: SearchResultType[];
+  /** Maximum number of results (default: 20) */
+  limit?: number;
+}
@@ -0,0 +1,21 @@
+/**
+ * Cron request authorization.
+ *
+ * Scheduled jobs are plain HTTP requests. The scheduler sends
+ * `Authorization: Bearer <CRON_SECRET>`, which is checked here.
+ */
+
+/**
+ * Checks whether a request comes from the job scheduler.
+ * Without a configured `CRON_SECRET`, jobs can only be triggered outside
+ * production.
+ */
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return process.env.NODE_ENV !== 'production';
+  }
+
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
@@ -1,8 +1,9 @@
 /**
  * Security utilities module.
  *
- * Exports CORS, CSP, and other security-related utilities.
+ * Exports CORS, CSP, cron authorization and other security-related utilities.
  */
 
 export * from './cors';
 export * from './csp';
+export * from './cron';
@@ -5,3 +5,4 @@
  */
 
 export * from './utils';
+export * from './preferences';
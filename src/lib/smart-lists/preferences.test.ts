@@ -0,0 +1,106 @@
+/**
+ * Smart List Tests
+ *
+ * Tests for smart list filters and stored preference normalization.
+ */
+
+import { parseFilterQuery } from '@/lib/filters/query';
+import {
+  SMART_LISTS,
+  DEFAULT_SMART_LIST_OPTIONS,
+  getSmartListFilter,
+  type SmartListType,
+} from './utils';
+import {
+  DEFAULT_SMART_LIST_PREFERENCES,
+  normalizeSmartListPreferences,
+  getVisibleSmartLists,
+} from './preferences';
+
+// Wednesday
+const now = new Date(2025, 5, 11, 10, 0, 0);
+
+describe('getSmartListFilter', () => {
+  it('should produce a valid query for every smart list', () => {
+    for (const id of Object.keys(SMART_LISTS) as SmartListType[]) {
+      const { query } = getSmartListFilter(id, DEFAULT_SMART_LIST_OPTIONS, now);
+      expect(() => parseFilterQuery(query ?? '')).not.toThrow();
+    }
+  });
+
+  it('should only include overdue tasks in Today when enabled', () => {
+    expect(getSmartListFilter('today', DEFAULT_SMART_LIST_OPTIONS, now).query).toContain(
+      'due:today'
+    );
+    const options = { ...DEFAULT_SMART_LIST_OPTIONS, todayIncludesOverdue: true };
+    expect(getSmartListFilter('today', options, now).query).toContain('due:<=today');
+  });
+
+  it('should use a rolling window for Next 7 Days by default', () => {
+    expect(getSmartListFilter('next7Days', DEFAULT_SMART_LIST_OPTIONS, now).query).toContain(
+      'due:>=today AND due:<7d'
+    );
+  });
+
+  it('should cover the calendar week for Next 7 Days', () => {
+    const monday = { ...DEFAULT_SMART_LIST_OPTIONS, next7DaysMode: 'calendarWeek' as const };
+    expect(getSmartListFilter('next7Days', monday, now).query).toContain('due:>=-2d AND due:<5d');
+
+    const sunday = { ...monday, weekStartsOn: 0 as const };
+    expect(getSmartListFilter('next7Days', sunday, now).query).toContain('due:>=-3d AND due:<4d');
+  });
+
+  it('should hide deferred tasks from All Tasks and Today by default', () => {
+    expect(getSmartListFilter('all', DEFAULT_SMART_LIST_OPTIONS, now)).toEqual({
+      query: '(start:none OR start:<=today)',
+    });
+    expect(getSmartListFilter('today', DEFAULT_SMART_LIST_OPTIONS, now).query).toContain(
+      'start:<=today'
+    );
+
+    const options = { ...DEFAULT_SMART_LIST_OPTIONS, hideDeferred: false };
+    expect(getSmartListFilter('all', options, now)).toEqual({});
+    expect(getSmartListFilter('today', options, now).query).not.toContain('start:');
+  });
+
+  it('should show tasks starting after today in Deferred', () => {
+    expect(getSmartListFilter('deferred', DEFAULT_SMART_LIST_OPTIONS, now).query).toContain(
+      'start:>today'
+    );
+  });
+});
+
+describe('normalizeSmartListPreferences', () => {
+  it('should fall back to defaults for invalid input', () => {
+    expect(normalizeSmartListPreferences(null)).toEqual(DEFAULT_SMART_LIST_PREFERENCES);
+    expect(normalizeSmartListPreferences({ options: { next7DaysMode: 'month' } })).toEqual(
+      DEFAULT_SMART_LIST_PREFERENCES
+    );
+  });
+
+  it('should drop unknown ids and append missing smart lists', () => {
+    const preferences = normalizeSmartListPreferences({
+      order: ['completed', 'someday', 'today', 'completed'],
+      hidden: ['someday', 'noDate'],
+    });
+    expect(preferences.order.slice(0, 2)).toEqual(['completed', 'today']);
+    expect(preferences.order).toHaveLength(Object.keys(SMART_LISTS).length);
+    expect(preferences.hidden).toEqual(['noDate']);
+  });
+
+  it('should never hide required smart lists', () => {
+    expect(normalizeSmartListPreferences({ hidden: ['all', 'today'] }).hidden).toEqual(['today']);
+  });
+});
+
+describe('getVisibleSmartLists', () => {
+  it('should return unhidden smart lists in order', () => {
+    const preferences = normalizeSmartListPreferences({
+      order: ['today', 'all'],
+      hidden: ['tomorrow'],
+    });
+    const ids = getVisibleSmartLists(preferences).map((smartList) => smartList.id);
+    expect(ids.slice(0, 2)).toEqual(['today', 'all']);
+    expect(ids).not.toContain('tomorrow');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Smart list preferences.
+ *
+ * Users can reorder and hide built-in smart lists and set per-list options.
+ * Preferences are stored client-side, so stored values are validated and
+ * smart lists added in later versions are appended to the user's order.
+ */
+
+import {
+  SMART_LISTS,
+  DEFAULT_SMART_LIST_OPTIONS,
+  type SmartList,
+  type SmartListOptions,
+  type SmartListType,
+} from './utils';
+
+export interface SmartListPreferences {
+  /** Display order of all smart lists */
+  order: SmartListType[];
+  /** Smart lists hidden from the sidebar */
+  hidden: SmartListType[];
+  options: SmartListOptions;
+}
+
+/** Smart lists that are always shown */
+export const REQUIRED_SMART_LISTS: SmartListType[] = ['all'];
+
+export const DEFAULT_SMART_LIST_PREFERENCES: SmartListPreferences = {
+  order: Object.keys(SMART_LISTS) as SmartListType[],
+  hidden: [],
+  options: DEFAULT_SMART_LIST_OPTIONS,
+};
+
+function isSmartListType(value: unknown): value is SmartListType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SMART_LISTS, value);
+}
+
+/**
+ * Keep the known, unique smart list IDs of a stored list.
+ */
+function toSmartListTypes(value: unknown): SmartListType[] {
+  if (!Array.isArray(value)) return [];
+  return [...new Set(value.filter(isSmartListType))];
+}
+
+function normalizeOptions(value: unknown): SmartListOptions {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<SmartListOptions>;
+  const defaults = DEFAULT_SMART_LIST_OPTIONS;
+
+  return {
+    todayIncludesOverdue:
+      typeof stored.todayIncludesOverdue === 'boolean'
+        ? stored.todayIncludesOverdue
+        : defaults.todayIncludesOverdue,
+    next7DaysMode:
+      stored.next7DaysMode === 'rolling' || stored.next7DaysMode === 'calendarWeek'
+        ? stored.next7DaysMode
+        : defaults.next7DaysMode,
+    weekStartsOn:
+      stored.weekStartsOn === 0 || stored.weekStartsOn === 1
+        ? stored.weekStartsOn
+        : defaults.weekStartsOn,
+    hideDeferred:
+      typeof stored.hideDeferred === 'boolean' ? stored.hideDeferred : defaults.hideDeferred,
+  };
+}
+
+/**
+ * Validate stored preferences, falling back to defaults for invalid values.
+ *
+ * @param value - Parsed stored preferences (any shape)
+ * @returns Complete preferences
+ */
+export function normalizeSmartListPreferences(value: unknown): SmartListPreferences {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+
+  const order = toSmartListTypes(stored.order);
+  for (const id of DEFAULT_SMART_LIST_PREFERENCES.order) {
+    if (!order.includes(id)) order.push(id);
+  }
+
+  return {
+    order,
+    hidden: toSmartListTypes(stored.hidden).filter((id) => !REQUIRED_SMART_LISTS.includes(id)),
+    options: normalizeOptions(stored.options),
+  };
+}
+
+/**
+ * Get the smart lists to show, in the user's order.
+ */
+export function getVisibleSmartLists(preferences: SmartListPreferences): SmartList[] {
+  return preferences.order
+    .filter((id) => !preferences.hidden.includes(id))
+    .map((id) => SMART_LISTS[id]);
+}
@@ -1,12 +1,11 @@
 /**
  * Smart list utilities for generating task filters.
  *
- * Provides pre-configured filter objects for common task views like
- * Today, Tomorrow, Next 7 Days, etc.
+ * Provides built-in views like Today, Tomorrow, Next 7 Days, etc. Each smart
+ * list is a filter query (see `@/lib/filters/query`), shaped by the user's
+ * smart list options.
  */
 
-import { startOfDay, endOfDay, addDays } from '@/lib/utils';
-
 export type SmartListType =
   | 'all'
   | 'today'
@@ -14,26 +13,61 @@ export type SmartListType =
   | 'next7Days'
   | 'overdue'
   | 'noDate'
-  | 'completed';
+  | 'completed'
+  | 'deferred'
+  | 'startingToday'
+  | 'highPriority'
+  | 'assignedToGoal'
+  | 'noTags';
+
+/**
+ * User options that change what a smart list shows.
+ */
+export interface SmartListOptions {
+  /** Today also shows overdue tasks */
+  todayIncludesOverdue: boolean;
+  /** Next 7 Days is a rolling window from today, or the current calendar week */
+  next7DaysMode: 'rolling' | 'calendarWeek';
+  /** First day of the calendar week (0 = Sunday, 1 = Monday) */
+  weekStartsOn: 0 | 1;
+  /** All Tasks and Today hide tasks with a future start date */
+  hideDeferred: boolean;
+}
+
+/**
+ * Task filter produced by a smart list.
+ */
+export interface SmartListFilter {
+  /** Filter query language expression */
+  query?: string;
+}
 
 export interface SmartList {
   id: SmartListType;
   name: string;
   icon: string;
   description: string;
-  getFilter: () => {
-    dueDate?: string;
-    dueBefore?: string;
-    dueAfter?: string;
-    status?: string;
-  };
+  getFilter: (options: SmartListOptions, now: Date) => SmartListFilter;
 }
 
+export const DEFAULT_SMART_LIST_OPTIONS: SmartListOptions = {
+  todayIncludesOverdue: false,
+  next7DaysMode: 'rolling',
+  weekStartsOn: 1,
+  hideDeferred: true,
+};
+
+// Tasks that still need doing
+const OPEN = '(status:todo OR status:in_progress)';
+
+// Tasks without a start date after today
+const AVAILABLE = '(start:none OR start:<=today)';
+
 /**
- * Formats a date to ISO string for API queries.
+ * Build a filter for open tasks matching a condition.
  */
-function toISODate(date: Date): string {
-  return date.toISOString().split('T')[0];
+function open(condition: string): SmartListFilter {
+  return { query: `${condition} AND ${OPEN}` };
 }
 
 /**
@@ -45,92 +79,94 @@ export const SMART_LISTS: Record<SmartListType, SmartList> = {
     name: 'All Tasks',
     icon: '📋',
     description: 'View all your tasks',
-    getFilter: () => ({}),
+    getFilter: (options) => (options.hideDeferred ? { query: AVAILABLE } : {}),
   },
-
   today: {
     id: 'today',
     name: 'Today',
     icon: '📅',
     description: 'Tasks due today',
-    getFilter: () => {
-      const today = startOfDay(new Date());
-      return {
-        dueDate: toISODate(today),
-        status: 'TODO,IN_PROGRESS',
-      };
+    getFilter: (options) => {
+      const due = options.todayIncludesOverdue ? 'due:<=today' : 'due:today';
+      return open(options.hideDeferred ? `${due} AND ${AVAILABLE}` : due);
     },
   },
-
   tomorrow: {
     id: 'tomorrow',
     name: 'Tomorrow',
     icon: '📆',
     description: 'Tasks due tomorrow',
-    getFilter: () => {
-      const tomorrow = addDays(startOfDay(new Date()), 1);
-      return {
-        dueDate: toISODate(tomorrow),
-        status: 'TODO,IN_PROGRESS',
-      };
-    },
+    getFilter: () => open('due:tomorrow'),
   },
-
   next7Days: {
     id: 'next7Days',
     name: 'Next 7 Days',
     icon: '🗓️',
     description: 'Tasks due in the next week',
-    getFilter: () => {
-      const today = startOfDay(new Date());
-      const weekFromNow = addDays(endOfDay(new Date()), 7);
-      return {
-        dueAfter: toISODate(today),
-        dueBefore: toISODate(weekFromNow),
-        status: 'TODO,IN_PROGRESS',
-      };
+    getFilter: (options, now) => {
+      if (options.next7DaysMode === 'rolling') {
+        return open('due:>=today AND due:<7d');
+      }
+      // Days from today back to the start of the week
+      const weekStart = -((now.getDay() - options.weekStartsOn + 7) % 7);
+      return open(`due:>=${weekStart}d AND due:<${weekStart + 7}d`);
     },
   },
-
   overdue: {
     id: 'overdue',
     name: 'Overdue',
     icon: '⚠️',
     description: 'Tasks that are past due',
-    getFilter: () => {
-      const today = startOfDay(new Date());
-      return {
-        dueBefore: toISODate(today),
-        status: 'TODO,IN_PROGRESS',
-      };
-    },
+    getFilter: () => open('due:<today'),
   },
-
   noDate: {
     id: 'noDate',
     name: 'No Date',
     icon: '🔹',
     description: 'Tasks without a due date',
-    getFilter: () => {
-      // Using a special empty string to filter for tasks without due dates
-      // The API will interpret this as "tasks where dueDate is null"
-      return {
-        dueDate: '',
-        status: 'TODO,IN_PROGRESS',
-      };
-    },
+    getFilter: () => open('due:none'),
   },
-
   completed: {
     id: 'completed',
     name: 'Completed',
     icon: '✅',
     description: 'All completed tasks',
-    getFilter: () => {
-      return {
-        status: 'DONE',
-      };
-    },
+    getFilter: () => ({ query: 'status:done' }),
+  },
+  deferred: {
+    id: 'deferred',
+    name: 'Deferred',
+    icon: '⏳',
+    description: 'Tasks that start after today',
+    getFilter: () => open('start:>today'),
+  },
+  startingToday: {
+    id: 'startingToday',
+    name: 'Starting Today',
+    icon: '🚀',
+    description: 'Tasks with a start date of today',
+    getFilter: () => open('start:today'),
+  },
+  highPriority: {
+    id: 'highPriority',
+    name: 'High Priority',
+    icon: '🔥',
+    description: 'Open high priority tasks',
+    getFilter: () => open('priority:high'),
+  },
+  assignedToGoal: {
+    id: 'assignedToGoal',
+    name: 'Assigned to Goal',
+    icon: '🎯',
+    description: 'Open tasks linked to a goal',
+    getFilter: () => open('has:goal'),
+  },
+  noTags: {
+    id: 'noTags',
+    name: 'No Tags',
+    icon: '🏷️',
+    description: 'Open tasks without tags',
+    getFilter: () => open('NOT has:tags'),
   },
 };
 
@@ -144,9 +180,13 @@ export function getSmartList(id: SmartListType): SmartList | undefined {
 /**
  * Gets the filter object for a smart list ID.
  */
-export function getSmartListFilter(id: SmartListType): ReturnType<SmartList['getFilter']> {
+export function getSmartListFilter(
+  id: SmartListType,
+  options: SmartListOptions = DEFAULT_SMART_LIST_OPTIONS,
+  now: Date = new Date()
+): SmartListFilter {
   const smartList = getSmartList(id);
-  return smartList?.getFilter() ?? {};
+  return smartList?.getFilter(options, now) ?? {};
 }
 
 /**
@@ -27,7 +27,7 @@ export const CreateTagSchema = z.object({
     .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a valid hex color code (e.g., #D97757)')
     .nullable()
     .optional(),
-  sortOrder: z.number().int().min(0).optional(),
+  sortOrder: z.number().min(0).optional(),
 });
 
 /**
@@ -41,7 +41,7 @@ export const UpdateTagSchema = z.object({
     .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a valid hex color code')
     .nullable()
     .optional(),
-  sortOrder: z.number().int().min(0).optional(),
+  sortOrder: z.number().min(0).optional(),
 });
 
 /**
@@ -75,7 +75,7 @@ export const UpdateTagOrderSchema = z.object({
     .array(
       z.object({
         id: z.string().cuid(),
-        sortOrder: z.number().int().min(0),
+        sortOrder: z.number().min(0),
       })
     )
     .min(1, 'At least one tag order is required'),
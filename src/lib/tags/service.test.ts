@@ -17,6 +17,7 @@ import {
   assignTagsToTask,
 } from './service';
 import { db } from '@/lib/db';
+import { applyItemOrders } from '@/lib/ordering/service';
 
 // Mock the database
 type MockModel = {
@@ -30,6 +31,10 @@ type MockModel = {
   deleteMany: jest.Mock;
 };
 
+jest.mock('@/lib/ordering/service', () => ({
+  applyItemOrders: jest.fn(),
+}));
+
 jest.mock('@/lib/db', () => {
   const createMockModel = (): MockModel => ({
     findMany: jest.fn(),
@@ -88,6 +93,7 @@ describe('Tag Service', () => {
       expect(db.tag.count).toHaveBeenCalledWith({
         where: {
           userId: mockUserId,
+          deletedAt: null,
           name: { contains: 'work' },
         },
       });
@@ -125,7 +131,7 @@ describe('Tag Service', () => {
 
       expect(result).toBeDefined();
       expect(db.tag.findFirst).toHaveBeenCalledWith({
-        where: { id: 'tag-123', userId: mockUserId },
+        where: { id: 'tag-123', userId: mockUserId, deletedAt: null },
         include: expect.any(Object),
       });
     });
@@ -170,6 +176,22 @@ describe('Tag Service', () => {
       expect(db.tag.create).toHaveBeenCalled();
     });
 
+    it('should rename a tag in the trash holding the same name', async () => {
+      (db.tag.findFirst as jest.Mock)
+        .mockResolvedValueOnce(null) // No live duplicate
+        .mockResolvedValueOnce({ id: 'tag-trashed' }) // Trashed tag with the name
+        .mockResolvedValue(null);
+      (db.tag.findMany as jest.Mock).mockResolvedValue([]);
+      (db.tag.create as jest.Mock).mockResolvedValue(mockTag);
+
+      await createTag(mockUserId, { name: 'Work' });
+
+      expect(db.tag.update).toHaveBeenCalledWith({
+        where: { id: 'tag-trashed' },
+        data: { name: 'Work (deleted)' },
+      });
+    });
+
     it('should throw error when tag with same name exists', async () => {
       (db.tag.findFirst as jest.Mock).mockResolvedValue(mockTag);
 
@@ -183,7 +205,8 @@ describe('Tag Service', () => {
     it('should auto-assign sortOrder if not provided', async () => {
       const existingTag = { ...mockTag, sortOrder: 2 };
       (db.tag.findFirst as jest.Mock)
-        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null) // No duplicate
+        .mockResolvedValueOnce(null) // No trashed tag with the name
         .mockResolvedValueOnce(existingTag);
       (db.tag.create as jest.Mock).mockResolvedValue(mockTag);
 
@@ -196,7 +219,7 @@ describe('Tag Service', () => {
     });
 
     it('should start sortOrder from 0 if no tags exist', async () => {
-      (db.tag.findFirst as jest.Mock).mockResolvedValueOnce(null).mockResolvedValueOnce(null);
+      (db.tag.findFirst as jest.Mock).mockResolvedValue(null);
       (db.tag.create as jest.Mock).mockResolvedValue(mockTag);
 
       await createTag(mockUserId, {
@@ -214,6 +237,7 @@ describe('Tag Service', () => {
       (db.tag.findFirst as jest.Mock)
         .mockResolvedValueOnce(mockTag) // Tag exists
         .mockResolvedValueOnce(null) // No duplicate with new name
+        .mockResolvedValueOnce(null) // No trashed tag with the new name
         .mockResolvedValueOnce(updatedTag); // Fetched updated tag
       (db.tag.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
 
@@ -223,7 +247,7 @@ describe('Tag Service', () => {
 
       expect(result).toBeDefined();
       expect(db.tag.updateMany).toHaveBeenCalledWith({
-        where: { id: 'tag-123', userId: mockUserId },
+        where: { id: 'tag-123', userId: mockUserId, deletedAt: null },
         data: expect.objectContaining({
           name: 'Updated Work',
         }),
@@ -269,19 +293,21 @@ describe('Tag Service', () => {
   });
 
   describe('deleteTag', () => {
-    it('should delete a tag', async () => {
-      (db.tag.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+    it('should move a tag to the trash', async () => {
+      (db.tag.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
 
       const result = await deleteTag('tag-123', mockUserId);
 
       expect(result).toBe(true);
-      expect(db.tag.deleteMany).toHaveBeenCalledWith({
-        where: { id: 'tag-123', userId: mockUserId },
+      expect(db.tag.deleteMany).not.toHaveBeenCalled();
+      expect(db.tag.updateMany).toHaveBeenCalledWith({
+        where: { id: 'tag-123', userId: mockUserId, deletedAt: null },
+        data: { deletedAt: expect.any(Date) },
       });
     });
 
     it('should return false when tag not found', async () => {
-      (db.tag.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+      (db.tag.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
 
       const result = await deleteTag('non-existent', mockUserId);
 
@@ -290,8 +316,8 @@ describe('Tag Service', () => {
   });
 
   describe('batchDeleteTags', () => {
-    it('should delete multiple tags', async () => {
-      (db.tag.deleteMany as jest.Mock).mockResolvedValue({ count: 3 });
+    it('should move multiple tags to the trash', async () => {
+      (db.tag.updateMany as jest.Mock).mockResolvedValue({ count: 3 });
 
       const result = await batchDeleteTags(mockUserId, ['tag-1', 'tag-2', 'tag-3']);
 
@@ -299,7 +325,7 @@ describe('Tag Service', () => {
     });
 
     it('should return 0 when no tags to delete', async () => {
-      (db.tag.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+      (db.tag.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
 
       const result = await batchDeleteTags(mockUserId, []);
 
@@ -308,23 +334,17 @@ describe('Tag Service', () => {
   });
 
   describe('updateTagOrders', () => {
-    it('should update sort order for multiple tags', async () => {
-      (db.tag.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
-
-      const result = await updateTagOrders(mockUserId, [
-        { id: 'tag-1', sortOrder: 0 },
+    it('should move the tags into the order of their sort orders', async () => {
+      (applyItemOrders as jest.Mock).mockResolvedValue(1);
+      const orders = [
         { id: 'tag-2', sortOrder: 1 },
-        { id: 'tag-3', sortOrder: 2 },
-      ]);
-
-      expect(result).toBe(3);
-      expect(db.tag.updateMany).toHaveBeenCalledTimes(3);
-    });
+        { id: 'tag-1', sortOrder: 0 },
+      ];
 
-    it('should return 0 when no tags to update', async () => {
-      const result = await updateTagOrders(mockUserId, []);
+      const result = await updateTagOrders(mockUserId, orders);
 
-      expect(result).toBe(0);
+      expect(result).toBe(1);
+      expect(applyItemOrders).toHaveBeenCalledWith('tag', mockUserId, orders);
     });
   });
 
@@ -343,8 +363,10 @@ describe('Tag Service', () => {
       expect(db.taskTag.findMany).toHaveBeenCalledWith({
         where: {
           taskId: 'task-123',
+          task: { deletedAt: null },
           tag: {
             userId: mockUserId,
+            deletedAt: null,
           },
         },
         include: expect.any(Object),
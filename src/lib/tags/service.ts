@@ -7,6 +7,7 @@
 
 import { db } from '@/lib/db';
 import { Prisma } from '@prisma/client';
+import { applyItemOrders } from '@/lib/ordering/service';
 import type { TagDto, TagListOptions } from './types';
 import type { Tag as PrismaTag, TaskTag as PrismaTaskTag } from '@prisma/client';
 
@@ -56,6 +57,7 @@ export async function getTags(
   // Build where clause with user scoping
   const baseWhere: Prisma.TagWhereInput = {
     userId,
+    deletedAt: null,
     ...where,
   };
 
@@ -71,11 +73,12 @@ export async function getTags(
     include: {
       _count: {
         select: {
-          tasks: true,
+          tasks: { where: { task: { deletedAt: null, archivedAt: null } } },
         },
       },
       ...(includeTasks && {
         tasks: {
+          where: { task: { deletedAt: null, archivedAt: null } },
           include: {
             task: {
               select: {
@@ -120,14 +123,16 @@ export async function getTagById(
     where: {
       id: tagId,
       userId,
+      deletedAt: null,
     },
     include: {
       _count: {
         select: {
-          tasks: true,
+          tasks: { where: { task: { deletedAt: null, archivedAt: null } } },
         },
       },
       tasks: {
+        where: { task: { deletedAt: null, archivedAt: null } },
         include: {
           task: {
             select: {
@@ -158,6 +163,41 @@ export async function getTagById(
   };
 }
 
+/**
+ * Free up a tag name held by a tag in the trash, so a new tag can use it.
+ * The trashed tag is renamed, e.g. "work (deleted)", then "work (deleted 2)".
+ *
+ * @param userId - User ID owning the tags
+ * @param name - Tag name to free up
+ */
+export async function releaseTrashedTagName(userId: string, name: string): Promise<void> {
+  const trashed = await db.tag.findFirst({
+    where: { userId, name, deletedAt: { not: null } },
+    select: { id: true },
+  });
+
+  if (!trashed) {
+    return;
+  }
+
+  const base = `${name} (deleted`;
+  const existing = await db.tag.findMany({
+    where: { userId, name: { startsWith: base } },
+    select: { name: true },
+  });
+  const taken = new Set(existing.map((tag) => tag.name));
+
+  let candidate = `${base})`;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${base} ${n})`;
+  }
+
+  await db.tag.update({
+    where: { id: trashed.id },
+    data: { name: candidate },
+  });
+}
+
 /**
  * Create a new tag.
  *
@@ -179,6 +219,7 @@ export async function createTag(
     where: {
       userId,
       name: data.name,
+      deletedAt: null,
     },
   });
 
@@ -186,6 +227,8 @@ export async function createTag(
     throw new Error(`Tag with name "${data.name}" already exists`);
   }
 
+  await releaseTrashedTagName(userId, data.name);
+
   // Get the next sort order if not provided
   let sortOrder = data.sortOrder;
   if (sortOrder === undefined) {
@@ -208,7 +251,7 @@ export async function createTag(
     include: {
       _count: {
         select: {
-          tasks: true,
+          tasks: { where: { task: { deletedAt: null, archivedAt: null } } },
         },
       },
     },
@@ -240,6 +283,7 @@ export async function updateTag(
     where: {
       id: tagId,
       userId,
+      deletedAt: null,
     },
     select: {
       id: true,
@@ -258,12 +302,15 @@ export async function updateTag(
         userId,
         name: data.name,
         id: { not: tagId },
+        deletedAt: null,
       },
     });
 
     if (duplicateTag) {
       throw new Error(`Tag with name "${data.name}" already exists`);
     }
+
+    await releaseTrashedTagName(userId, data.name);
   }
 
   // Build update data
@@ -284,6 +331,7 @@ export async function updateTag(
     where: {
       id: tagId,
       userId,
+      deletedAt: null,
     },
     data: updateData,
   });
@@ -297,11 +345,12 @@ export async function updateTag(
     where: {
       id: tagId,
       userId,
+      deletedAt: null,
     },
     include: {
       _count: {
         select: {
-          tasks: true,
+          tasks: { where: { task: { deletedAt: null, archivedAt: null } } },
         },
       },
     },
@@ -311,17 +360,21 @@ export async function updateTag(
 }
 
 /**
- * Delete a tag.
+ * Move a tag to the trash. Its task links are kept so it can be restored.
  *
  * @param tagId - Tag ID to delete
  * @param userId - User ID for authorization
  * @returns True if deleted, false if not found
  */
 export async function deleteTag(tagId: string, userId: string): Promise<boolean> {
-  const result = await db.tag.deleteMany({
+  const result = await db.tag.updateMany({
     where: {
       id: tagId,
       userId,
+      deletedAt: null,
+    },
+    data: {
+      deletedAt: new Date(),
     },
   });
 
@@ -329,17 +382,21 @@ export async function deleteTag(tagId: string, userId: string): Promise<boolean>
 }
 
 /**
- * Batch delete multiple tags.
+ * Batch move multiple tags to the trash.
  *
  * @param userId - User ID for authorization
  * @param tagIds - Array of tag IDs to delete
  * @returns Number of tags deleted
  */
 export async function batchDeleteTags(userId: string, tagIds: string[]): Promise<number> {
-  const result = await db.tag.deleteMany({
+  const result = await db.tag.updateMany({
     where: {
       id: { in: tagIds },
       userId,
+      deletedAt: null,
+    },
+    data: {
+      deletedAt: new Date(),
     },
   });
 
@@ -347,32 +404,19 @@ export async function batchDeleteTags(userId: string, tagIds: string[]): Promise
 }
 
 /**
- * Update sort order for multiple tags.
+ * Put tags in the order of the given sort orders.
+ * Only the tags that moved are written, with ranks between their new
+ * neighbours; see `applyItemOrders` in `@/lib/ordering`.
  *
  * @param userId - User ID for authorization
  * @param tagOrders - Array of { id, sortOrder } pairs
- * @returns Number of tags updated
+ * @returns Number of tags moved
  */
 export async function updateTagOrders(
   userId: string,
   tagOrders: Array<{ id: string; sortOrder: number }>
 ): Promise<number> {
-  let count = 0;
-
-  for (const item of tagOrders) {
-    const result = await db.tag.updateMany({
-      where: {
-        id: item.id,
-        userId,
-      },
-      data: {
-        sortOrder: item.sortOrder,
-      },
-    });
-    count += result.count;
-  }
-
-  return count;
+  return applyItemOrders('tag', userId, tagOrders);
 }
 
 /**
@@ -386,8 +430,12 @@ export async function getTagsByTaskId(taskId: string, userId: string): Promise<T
   const taskTags = await db.taskTag.findMany({
     where: {
       taskId,
+      task: {
+        deletedAt: null,
+      },
       tag: {
         userId,
+        deletedAt: null,
       },
     },
     include: {
@@ -395,7 +443,7 @@ export async function getTagsByTaskId(taskId: string, userId: string): Promise<T
         include: {
           _count: {
             select: {
-              tasks: true,
+              tasks: { where: { task: { deletedAt: null, archivedAt: null } } },
             },
           },
         },
@@ -429,6 +477,7 @@ export async function assignTagsToTask(
     where: {
       id: taskId,
       userId,
+      deletedAt: null,
     },
     select: {
       id: true,
@@ -444,6 +493,7 @@ export async function assignTagsToTask(
     where: {
       id: { in: tagIds },
       userId,
+      deletedAt: null,
     },
     select: {
       id: true,
@@ -454,10 +504,13 @@ export async function assignTagsToTask(
     throw new Error('One or more tags not found');
   }
 
-  // Delete existing task-tag relationships
+  // Delete existing task-tag relationships, keeping links to tags in the trash
   await db.taskTag.deleteMany({
     where: {
       taskId,
+      tag: {
+        deletedAt: null,
+      },
     },
   });
 
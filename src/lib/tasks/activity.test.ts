@@ -0,0 +1,155 @@
+/**
+ * Task Activity Tests
+ *
+ * Tests for change detection, activity recording and comments.
+ */
+
+import { TaskActivityType } from '@prisma/client';
+import { db } from '@/lib/db';
+import {
+  diffTaskFields,
+  recordTaskActivity,
+  getTaskActivity,
+  addTaskComment,
+  deleteTaskComment,
+} from './activity';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    task: {
+      findFirst: jest.fn(),
+    },
+    taskActivity: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+describe('Task Activity', () => {
+  const userId = 'user-123';
+  const taskId = 'task-1';
+  const user = { id: userId, name: 'Sam' };
+
+  const makeActivity = (overrides = {}) => ({
+    id: 'activity-1',
+    type: TaskActivityType.COMMENT,
+    field: null,
+    oldValue: null,
+    newValue: null,
+    content: 'Looks **good**',
+    taskId,
+    userId,
+    user,
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+    updatedAt: new Date('2025-01-01T10:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('diffTaskFields', () => {
+    it('should list changed fields with serialized values', () => {
+      const changes = diffTaskFields(
+        { title: 'Old', dueDate: null, estimatedTime: 30 },
+        { title: 'New', dueDate: new Date('2025-02-01T00:00:00Z'), estimatedTime: 30 }
+      );
+
+      expect(changes).toEqual([
+        { field: 'title', oldValue: 'Old', newValue: 'New' },
+        { field: 'dueDate', oldValue: null, newValue: '2025-02-01T00:00:00.000Z' },
+      ]);
+    });
+
+    it('should skip fields that were not loaded on both sides', () => {
+      expect(diffTaskFields({ status: 'TODO' }, { status: 'DONE', priority: 'HIGH' })).toEqual([
+        { field: 'status', oldValue: 'TODO', newValue: 'DONE' },
+      ]);
+    });
+
+    it('should compare tags regardless of order', () => {
+      expect(diffTaskFields({ tags: ['a', 'b'] }, { tags: ['b', 'a'] })).toEqual([]);
+      expect(diffTaskFields({ tags: [] }, { tags: ['work'] })).toEqual([
+        { field: 'tags', oldValue: null, newValue: 'work' },
+      ]);
+    });
+  });
+
+  describe('recordTaskActivity', () => {
+    it('should create one entry per change', async () => {
+      (db.taskActivity.createMany as jest.Mock).mockResolvedValue({ count: 2 });
+
+      const count = await recordTaskActivity(userId, [
+        { taskId: 'a', changes: [{ field: 'sortOrder', oldValue: '0', newValue: '1' }] },
+        { taskId: 'b', changes: [{ field: 'sortOrder', oldValue: '1', newValue: '0' }] },
+      ]);
+
+      expect(count).toBe(2);
+      const { data } = (db.taskActivity.createMany as jest.Mock).mock.calls[0][0];
+      expect(data[1]).toEqual({
+        taskId: 'b',
+        userId,
+        type: TaskActivityType.UPDATE,
+        field: 'sortOrder',
+        oldValue: '1',
+        newValue: '0',
+      });
+    });
+
+    it('should not write when nothing changed', async () => {
+      expect(await recordTaskActivity(userId, [{ taskId: 'a', changes: [] }])).toBe(0);
+      expect(db.taskActivity.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTaskActivity', () => {
+    it('should return null when the task is not found', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await getTaskActivity(taskId, userId)).toBeNull();
+      expect(db.taskActivity.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return the timeline oldest first', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({ id: taskId });
+      (db.taskActivity.findMany as jest.Mock).mockResolvedValue([
+        makeActivity({ id: 'newer' }),
+        makeActivity({ id: 'older' }),
+      ]);
+
+      const result = await getTaskActivity(taskId, userId);
+
+      expect(result?.map((activity) => activity.id)).toEqual(['older', 'newer']);
+      expect(result?.[0].user).toEqual(user);
+    });
+  });
+
+  describe('comments', () => {
+    it('should add a comment to an owned task', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({ id: taskId });
+      (db.taskActivity.create as jest.Mock).mockResolvedValue(makeActivity());
+
+      const result = await addTaskComment(taskId, userId, 'Looks **good**');
+
+      expect(db.taskActivity.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { taskId, userId, type: TaskActivityType.COMMENT, content: 'Looks **good**' },
+        })
+      );
+      expect(result?.content).toBe('Looks **good**');
+    });
+
+    it('should only delete comments', async () => {
+      (db.taskActivity.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      expect(await deleteTaskComment(taskId, 'activity-1', userId)).toBe(false);
+      expect(db.taskActivity.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'activity-1', taskId, userId, type: TaskActivityType.COMMENT },
+      });
+    });
+  });
+});
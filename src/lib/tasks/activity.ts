@@ -0,0 +1,222 @@
+/**
+ * Task Activity
+ *
+ * History of a task: field changes recorded by the task service and
+ * user-authored markdown comments, merged into one timeline.
+ */
+
+import { db } from '@/lib/db';
+import { TaskActivityType, type TaskActivity } from '@prisma/client';
+import type { TaskActivityDto, TaskFieldChange } from './types';
+
+/**
+ * Task fields whose changes are recorded, in display order.
+ */
+export const TRACKED_TASK_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'startDate',
+  'estimatedTime',
+  'spentTime',
+  'recurrenceRule',
+  'listId',
+  'parentId',
+  'goalId',
+  'sortOrder',
+] as const;
+
+export type TrackedTaskField = (typeof TRACKED_TASK_FIELDS)[number];
+
+/**
+ * Task state compared when recording changes.
+ * Fields left undefined were not loaded and are not compared; tags are tag names.
+ */
+export type TaskActivitySnapshot = { [K in TrackedTaskField]?: unknown } & { tags?: string[] };
+
+/**
+ * Maximum number of timeline entries returned for a task.
+ */
+const ACTIVITY_LIMIT = 200;
+
+/**
+ * Convert a field value to its stored string form.
+ */
+function serializeValue(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * Compare two states of a task and list the fields that changed.
+ *
+ * @param before - State before the update
+ * @param after - State after the update
+ * @returns Changed fields with their old and new values
+ */
+export function diffTaskFields(
+  before: TaskActivitySnapshot,
+  after: TaskActivitySnapshot
+): TaskFieldChange[] {
+  const changes: TaskFieldChange[] = [];
+
+  for (const field of TRACKED_TASK_FIELDS) {
+    if (before[field] === undefined || after[field] === undefined) {
+      continue;
+    }
+
+    const oldValue = serializeValue(before[field]);
+    const newValue = serializeValue(after[field]);
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  if (before.tags && after.tags) {
+    const oldValue = [...before.tags].sort().join(', ');
+    const newValue = [...after.tags].sort().join(', ');
+    if (oldValue !== newValue) {
+      changes.push({ field: 'tags', oldValue: oldValue || null, newValue: newValue || null });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Record field changes for one or more tasks.
+ *
+ * @param userId - User who made the changes
+ * @param entries - Changes per task
+ * @returns Number of activity entries created
+ */
+export async function recordTaskActivity(
+  userId: string,
+  entries: Array<{ taskId: string; changes: TaskFieldChange[] }>
+): Promise<number> {
+  const data = entries.flatMap(({ taskId, changes }) =>
+    changes.map((change) => ({
+      taskId,
+      userId,
+      type: TaskActivityType.UPDATE,
+      ...change,
+    }))
+  );
+
+  if (data.length === 0) {
+    return 0;
+  }
+
+  const result = await db.taskActivity.createMany({ data });
+  return result.count;
+}
+
+/**
+ * Convert Prisma TaskActivity model to DTO.
+ */
+function toTaskActivityDto(
+  activity: TaskActivity & { user: { id: string; name: string | null } }
+): TaskActivityDto {
+  return {
+    id: activity.id,
+    type: activity.type,
+    field: activity.field,
+    oldValue: activity.oldValue,
+    newValue: activity.newValue,
+    content: activity.content,
+    taskId: activity.taskId,
+    user: activity.user,
+    createdAt: activity.createdAt,
+    updatedAt: activity.updatedAt,
+  };
+}
+
+const activityUserInclude = {
+  user: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Get the activity timeline of a task, oldest first.
+ * Only the most recent entries are returned.
+ *
+ * @param taskId - Task ID
+ * @param userId - User ID for authorization
+ * @returns Timeline entries, or null if the task is not found
+ */
+export async function getTaskActivity(
+  taskId: string,
+  userId: string
+): Promise<TaskActivityDto[] | null> {
+  const task = await db.task.findFirst({
+    where: { id: taskId, userId, deletedAt: null },
+    select: { id: true },
+  });
+  if (!task) {
+    return null;
+  }
+
+  const activities = await db.taskActivity.findMany({
+    where: { taskId },
+    include: activityUserInclude,
+    orderBy: { createdAt: 'desc' },
+    take: ACTIVITY_LIMIT,
+  });
+
+  return activities.reverse().map(toTaskActivityDto);
+}
+
+/**
+ * Add a comment to a task.
+ *
+ * @param taskId - Task ID
+ * @param userId - Comment author
+ * @param content - Markdown body
+ * @returns Created comment or null if the task is not found
+ */
+export async function addTaskComment(
+  taskId: string,
+  userId: string,
+  content: string
+): Promise<TaskActivityDto | null> {
+  const task = await db.task.findFirst({
+    where: { id: taskId, userId, deletedAt: null },
+    select: { id: true },
+  });
+  if (!task) {
+    return null;
+  }
+
+  const comment = await db.taskActivity.create({
+    data: { taskId, userId, type: TaskActivityType.COMMENT, content },
+    include: activityUserInclude,
+  });
+
+  return toTaskActivityDto(comment);
+}
+
+/**
+ * Delete a comment. Recorded field changes cannot be deleted.
+ *
+ * @param taskId - Task ID
+ * @param commentId - Activity ID of the comment
+ * @param userId - Comment author
+ * @returns True if the comment was deleted
+ */
+export async function deleteTaskComment(
+  taskId: string,
+  commentId: string,
+  userId: string
+): Promise<boolean> {
+  const result = await db.taskActivity.deleteMany({
+    where: { id: commentId, taskId, userId, type: TaskActivityType.COMMENT },
+  });
+
+  return result.count > 0;
+}
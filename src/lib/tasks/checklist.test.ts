@@ -0,0 +1,141 @@
+/**
+ * Task Checklist Tests
+ *
+ * Tests for checklist item CRUD, reordering and conversion to subtasks.
+ */
+
+import { TaskStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { createTask } from './service';
+import {
+  createChecklistItem,
+  updateChecklistItem,
+  reorderChecklistItems,
+  convertChecklistItemToSubtask,
+} from './checklist';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    task: {
+      findFirst: jest.fn(),
+    },
+    checklistItem: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+      count: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('./service', () => ({
+  createTask: jest.fn(),
+}));
+
+describe('Task Checklist', () => {
+  const userId = 'user-123';
+  const taskId = 'task-1';
+
+  const makeItem = (overrides = {}) => ({
+    id: 'item-1',
+    text: 'Buy milk',
+    checked: false,
+    sortOrder: 0,
+    taskId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createChecklistItem', () => {
+    it('should return null when the task is not found', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await createChecklistItem(taskId, userId, { text: 'Buy milk' })).toBeNull();
+      expect(db.checklistItem.create).not.toHaveBeenCalled();
+    });
+
+    it('should append the item after the last one', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({ id: taskId, listId: null });
+      (db.checklistItem.findFirst as jest.Mock).mockResolvedValue({ sortOrder: 2 });
+      (db.checklistItem.create as jest.Mock).mockResolvedValue(makeItem({ sortOrder: 3 }));
+
+      const result = await createChecklistItem(taskId, userId, { text: 'Buy milk' });
+
+      expect(db.checklistItem.create).toHaveBeenCalledWith({
+        data: { taskId, text: 'Buy milk', checked: false, sortOrder: 3 },
+      });
+      expect(result?.sortOrder).toBe(3);
+    });
+  });
+
+  describe('updateChecklistItem', () => {
+    it('should return null when the item is not found', async () => {
+      (db.checklistItem.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      expect(await updateChecklistItem(taskId, 'item-1', userId, { checked: true })).toBeNull();
+    });
+
+    it('should scope the update to the task owner', async () => {
+      (db.checklistItem.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (db.checklistItem.findUnique as jest.Mock).mockResolvedValue(makeItem({ checked: true }));
+
+      const result = await updateChecklistItem(taskId, 'item-1', userId, { checked: true });
+
+      expect(db.checklistItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'item-1', taskId, task: { userId } },
+        data: { checked: true },
+      });
+      expect(result?.checked).toBe(true);
+    });
+  });
+
+  describe('reorderChecklistItems', () => {
+    it('should reject items from another task', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({ id: taskId, listId: null });
+      (db.checklistItem.count as jest.Mock).mockResolvedValue(1);
+
+      await expect(reorderChecklistItems(taskId, userId, ['item-1', 'item-2'])).rejects.toThrow(
+        'One or more checklist items not found'
+      );
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('convertChecklistItemToSubtask', () => {
+    it('should return null when the item is not found', async () => {
+      (db.checklistItem.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await convertChecklistItemToSubtask(taskId, 'item-1', userId)).toBeNull();
+      expect(createTask).not.toHaveBeenCalled();
+    });
+
+    it('should create a subtask and remove the item', async () => {
+      (db.checklistItem.findFirst as jest.Mock).mockResolvedValue({
+        ...makeItem({ checked: true }),
+        task: { listId: 'list-1' },
+      });
+      (createTask as jest.Mock).mockResolvedValue({ id: 'subtask-1', title: 'Buy milk' });
+
+      const result = await convertChecklistItemToSubtask(taskId, 'item-1', userId);
+
+      expect(createTask).toHaveBeenCalledWith(userId, {
+        title: 'Buy milk',
+        status: TaskStatus.DONE,
+        listId: 'list-1',
+        parentId: taskId,
+      });
+      expect(db.checklistItem.delete).toHaveBeenCalledWith({ where: { id: 'item-1' } });
+      expect(result).toEqual({ id: 'subtask-1', title: 'Buy milk' });
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Task Checklists
+ *
+ * Lightweight checklist items inside a task. Unlike subtasks they have no
+ * dates, tags or status of their own; an item can be converted into a real
+ * subtask when it needs them.
+ */
+
+import { db } from '@/lib/db';
+import { TaskStatus, type ChecklistItem } from '@prisma/client';
+import { createTask } from './service';
+import type { ChecklistItemDto, TaskDto } from './types';
+
+/**
+ * Convert Prisma ChecklistItem model to DTO.
+ */
+function toChecklistItemDto(item: ChecklistItem): ChecklistItemDto {
+  return {
+    id: item.id,
+    text: item.text,
+    checked: item.checked,
+    sortOrder: item.sortOrder,
+    taskId: item.taskId,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+/**
+ * Check that a task exists and belongs to the user.
+ */
+async function findTask(taskId: string, userId: string) {
+  return db.task.findFirst({
+    where: { id: taskId, userId, deletedAt: null },
+    select: { id: true, listId: true },
+  });
+}
+
+/**
+ * Get the checklist of a task.
+ *
+ * @param taskId - Task ID
+ * @param userId - User ID for authorization
+ * @returns Checklist items in order, or null if the task is not found
+ */
+export async function getChecklistItems(
+  taskId: string,
+  userId: string
+): Promise<ChecklistItemDto[] | null> {
+  if (!(await findTask(taskId, userId))) {
+    return null;
+  }
+
+  const items = await db.checklistItem.findMany({
+    where: { taskId },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return items.map(toChecklistItemDto);
+}
+
+/**
+ * Add an item to the end of a task's checklist.
+ *
+ * @param taskId - Task ID
+ * @param userId - User ID for authorization
+ * @param data - Item text and checked state
+ * @returns Created item or null if the task is not found
+ */
+export async function createChecklistItem(
+  taskId: string,
+  userId: string,
+  data: { text: string; checked?: boolean }
+): Promise<ChecklistItemDto | null> {
+  if (!(await findTask(taskId, userId))) {
+    return null;
+  }
+
+  const last = await db.checklistItem.findFirst({
+    where: { taskId },
+    orderBy: { sortOrder: 'desc' },
+    select: { sortOrder: true },
+  });
+
+  const item = await db.checklistItem.create({
+    data: {
+      taskId,
+      text: data.text,
+      checked: data.checked ?? false,
+      sortOrder: (last?.sortOrder ?? -1) + 1,
+    },
+  });
+
+  return toChecklistItemDto(item);
+}
+
+/**
+ * Update a checklist item.
+ *
+ * @param taskId - Task ID
+ * @param itemId - Item ID
+ * @param userId - User ID for authorization
+ * @param data - Fields to update
+ * @returns Updated item or null if not found
+ */
+export async function updateChecklistItem(
+  taskId: string,
+  itemId: string,
+  userId: string,
+  data: { text?: string; checked?: boolean; sortOrder?: number }
+): Promise<ChecklistItemDto | null> {
+  const result = await db.checklistItem.updateMany({
+    where: { id: itemId, taskId, task: { userId } },
+    data,
+  });
+
+  if (result.count === 0) {
+    return null;
+  }
+
+  const item = await db.checklistItem.findUnique({ where: { id: itemId } });
+  return item ? toChecklistItemDto(item) : null;
+}
+
+/**
+ * Delete a checklist item.
+ *
+ * @param taskId - Task ID
+ * @param itemId - Item ID
+ * @param userId - User ID for authorization
+ * @returns True if the item was deleted
+ */
+export async function deleteChecklistItem(
+  taskId: string,
+  itemId: string,
+  userId: string
+): Promise<boolean> {
+  const result = await db.checklistItem.deleteMany({
+    where: { id: itemId, taskId, task: { userId } },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Reorder a task's checklist.
+ *
+ * @param taskId - Task ID
+ * @param userId - User ID for authorization
+ * @param itemIds - Item IDs in their new order
+ * @returns Reordered checklist, or null if the task is not found
+ * @throws Error if an item does not belong to the task
+ */
+export async function reorderChecklistItems(
+  taskId: string,
+  userId: string,
+  itemIds: string[]
+): Promise<ChecklistItemDto[] | null> {
+  if (!(await findTask(taskId, userId))) {
+    return null;
+  }
+
+  const count = await db.checklistItem.count({ where: { id: { in: itemIds }, taskId } });
+  if (count !== itemIds.length) {
+    throw new Error('One or more checklist items not found');
+  }
+
+  await db.$transaction(
+    itemIds.map((id, index) =>
+      db.checklistItem.update({ where: { id }, data: { sortOrder: index } })
+    )
+  );
+
+  return getChecklistItems(taskId, userId);
+}
+
+/**
+ * Turn a checklist item into a subtask of its task.
+ * The subtask takes the item's text as its title and is done if the item was checked.
+ *
+ * @param taskId - Task ID
+ * @param itemId - Item ID
+ * @param userId - User ID for authorization
+ * @returns Created subtask or null if the item is not found
+ */
+export async function convertChecklistItemToSubtask(
+  taskId: string,
+  itemId: string,
+  userId: string
+): Promise<TaskDto | null> {
+  const item = await db.checklistItem.findFirst({
+    where: { id: itemId, taskId, task: { userId } },
+    include: { task: { select: { listId: true } } },
+  });
+
+  if (!item) {
+    return null;
+  }
+
+  const subtask = await createTask(userId, {
+    title: item.text,
+    status: item.checked ? TaskStatus.DONE : TaskStatus.TODO,
+    listId: item.task.listId,
+    parentId: taskId,
+  });
+
+  await db.checklistItem.delete({ where: { id: itemId } });
+
+  return subtask;
+}
@@ -0,0 +1,156 @@
+/**
+ * Task Completion Tests
+ *
+ * Tests for the blocker check, goal progress and unblocking notifications
+ * around task status changes.
+ */
+
+import { TaskStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { updateGoalProgress } from '@/lib/goals';
+import { getOpenBlockers, notifyUnblockedTasks } from './dependencies';
+import { saveTask, saveTasks } from './completion';
+import { batchUpdateTasks, getTaskById, updateTask } from './service';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    task: { findMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/goals', () => ({
+  updateGoalProgress: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('./dependencies', () => ({
+  getOpenBlockers: jest.fn(),
+  notifyUnblockedTasks: jest.fn(),
+}));
+
+jest.mock('./series', () => ({
+  updateRecurringTask: jest.fn(),
+}));
+
+jest.mock('./service', () => ({
+  batchUpdateTasks: jest.fn(),
+  getTaskById: jest.fn(),
+  updateTask: jest.fn(),
+}));
+
+describe('Task Completion', () => {
+  const userId = 'user-123';
+  const openTask = { id: 'task-1', status: TaskStatus.TODO, goalId: 'goal-1' };
+  const blocker = { id: 'task-2', title: 'Blocker', status: TaskStatus.TODO };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getOpenBlockers as jest.Mock).mockResolvedValue([]);
+    (updateTask as jest.Mock).mockResolvedValue({ ...openTask, status: TaskStatus.DONE });
+  });
+
+  it('should return null when the task is not found', async () => {
+    (getTaskById as jest.Mock).mockResolvedValue(null);
+
+    expect(await saveTask('task-1', userId, { status: TaskStatus.DONE })).toBeNull();
+    expect(updateTask).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to complete a task with open blockers', async () => {
+    (getTaskById as jest.Mock).mockResolvedValue(openTask);
+    (getOpenBlockers as jest.Mock).mockResolvedValue([blocker]);
+
+    const result = await saveTask('task-1', userId, { status: TaskStatus.DONE });
+
+    expect(result).toEqual({ blockers: [blocker] });
+    expect(updateTask).not.toHaveBeenCalled();
+    expect(notifyUnblockedTasks).not.toHaveBeenCalled();
+  });
+
+  it('should complete a blocked task when forced', async () => {
+    (getTaskById as jest.Mock).mockResolvedValue(openTask);
+    (getOpenBlockers as jest.Mock).mockResolvedValue([blocker]);
+
+    const result = await saveTask('task-1', userId, { status: TaskStatus.DONE }, { force: true });
+
+    expect(result?.task).toBeDefined();
+    expect(getOpenBlockers).not.toHaveBeenCalled();
+  });
+
+  it('should update the goal and notify unblocked tasks on completion', async () => {
+    (getTaskById as jest.Mock).mockResolvedValue(openTask);
+
+    await saveTask('task-1', userId, { status: TaskStatus.DONE });
+
+    expect(updateGoalProgress).toHaveBeenCalledWith(userId, 'goal-1', { increment: 1 });
+    expect(notifyUnblockedTasks).toHaveBeenCalledWith('task-1', userId);
+  });
+
+  it('should take a reopened task off its goal', async () => {
+    (getTaskById as jest.Mock).mockResolvedValue({ ...openTask, status: TaskStatus.DONE });
+
+    await saveTask('task-1', userId, { status: TaskStatus.TODO });
+
+    expect(updateGoalProgress).toHaveBeenCalledWith(userId, 'goal-1', { increment: -1 });
+    expect(notifyUnblockedTasks).not.toHaveBeenCalled();
+  });
+
+  it('should not fail the update when notifying fails', async () => {
+    (getTaskById as jest.Mock).mockResolvedValue({ ...openTask, goalId: null });
+    (notifyUnblockedTasks as jest.Mock).mockRejectedValue(new Error('db down'));
+
+    const result = await saveTask('task-1', userId, { status: TaskStatus.DONE });
+
+    expect(result?.task).toBeDefined();
+    expect(updateGoalProgress).not.toHaveBeenCalled();
+  });
+
+  describe('saveTasks', () => {
+    const tasks = [
+      { id: 'task-1', status: TaskStatus.TODO, goalId: 'goal-1' },
+      { id: 'task-3', status: TaskStatus.TODO, goalId: null },
+    ];
+
+    beforeEach(() => {
+      (db.task.findMany as jest.Mock).mockResolvedValue(tasks);
+      (batchUpdateTasks as jest.Mock).mockResolvedValue({ count: 2, tasks: [] });
+    });
+
+    it('should reject the batch when a task has open blockers', async () => {
+      (getOpenBlockers as jest.Mock).mockImplementation(async (taskId: string) =>
+        taskId === 'task-1' ? [blocker] : []
+      );
+
+      const result = await saveTasks(userId, ['task-1', 'task-3'], { status: TaskStatus.DONE });
+
+      expect(result).toEqual({ blocked: [{ taskId: 'task-1', blockers: [blocker] }] });
+      expect(batchUpdateTasks).not.toHaveBeenCalled();
+    });
+
+    it('should not count blockers completed in the same batch', async () => {
+      (getOpenBlockers as jest.Mock).mockImplementation(async (taskId: string) =>
+        taskId === 'task-1' ? [{ ...blocker, id: 'task-3' }] : []
+      );
+
+      const result = await saveTasks(userId, ['task-1', 'task-3'], { status: TaskStatus.DONE });
+
+      expect(result).toEqual({ count: 2, tasks: [] });
+      expect(updateGoalProgress).toHaveBeenCalledWith(userId, 'goal-1', { increment: 1 });
+      expect(notifyUnblockedTasks).toHaveBeenCalledWith('task-1', userId);
+      expect(notifyUnblockedTasks).toHaveBeenCalledWith('task-3', userId);
+    });
+
+    it('should leave blockers alone for other updates', async () => {
+      await saveTasks(userId, ['task-1', 'task-3'], { priority: 'HIGH' });
+
+      expect(getOpenBlockers).not.toHaveBeenCalled();
+      expect(notifyUnblockedTasks).not.toHaveBeenCalled();
+      expect(batchUpdateTasks).toHaveBeenCalledWith(userId, ['task-1', 'task-3'], {
+        priority: 'HIGH',
+      });
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Task Completion
+ *
+ * Updates tasks together with what changing their status sets off.
+ * Completing a task requires its blockers to be done first, unless forced;
+ * it then counts towards the linked goal and notifies the tasks that were
+ * waiting on it. Reopening a completed task takes it off the goal again.
+ */
+
+import { TaskStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { updateGoalProgress } from '@/lib/goals';
+import { logger } from '@/lib/logger';
+import { getOpenBlockers, notifyUnblockedTasks } from './dependencies';
+import { updateRecurringTask } from './series';
+import { batchUpdateTasks, getTaskById, updateTask } from './service';
+import type { RecurrenceEditScope } from './schemas';
+import type { TaskDependencyDto, TaskDto } from './types';
+
+type TaskUpdateData = Parameters<typeof updateTask>[2];
+type BatchUpdateData = Parameters<typeof batchUpdateTasks>[2];
+
+export interface SaveTaskOptions {
+  /** Which occurrences of a recurring task to update */
+  scope?: RecurrenceEditScope;
+  /** Complete the task even if tasks blocking it are still open */
+  force?: boolean;
+}
+
+/**
+ * Outcome of saving a task: the updated task, or the open blockers that
+ * kept it from being completed.
+ */
+export type SaveTaskResult =
+  | { task: TaskDto; blockers?: undefined }
+  | { task?: undefined; blockers: TaskDependencyDto[] };
+
+/**
+ * Outcome of saving several tasks: the updated tasks, or the tasks that
+ * could not be completed with their open blockers.
+ */
+export type SaveTasksResult =
+  | { count: number; tasks: TaskDto[]; blocked?: undefined }
+  | {
+      count?: undefined;
+      tasks?: undefined;
+      blocked: Array<{ taskId: string; blockers: TaskDependencyDto[] }>;
+    };
+
+async function changeGoalProgress(userId: string, goalId: string, increment: number) {
+  try {
+    await updateGoalProgress(userId, goalId, { increment });
+  } catch (error) {
+    // Log the error but don't fail the task update
+    logger.error('Failed to update goal progress', error instanceof Error ? error : undefined);
+  }
+}
+
+/**
+ * Notify about tasks that were waiting on a completed task.
+ * Failures are logged and don't fail the update.
+ *
+ * @param taskId - Completed task
+ * @param userId - User ID for authorization
+ */
+export async function notifyUnblockedTasksSafely(taskId: string, userId: string): Promise<void> {
+  try {
+    await notifyUnblockedTasks(taskId, userId);
+  } catch (error) {
+    logger.error('Failed to notify unblocked tasks', error instanceof Error ? error : undefined);
+  }
+}
+
+/**
+ * Update a task, checking its blockers when it is being completed and
+ * keeping goal progress and dependent tasks up to date.
+ *
+ * @param taskId - Task ID to update
+ * @param userId - User ID for authorization
+ * @param data - Update data
+ * @param options - Recurrence scope and whether to override open blockers
+ * @returns The updated task or its open blockers, or null if not found
+ * @throws Error if the recurrence rule is changed for a single occurrence
+ */
+export async function saveTask(
+  taskId: string,
+  userId: string,
+  data: TaskUpdateData,
+  options: SaveTaskOptions = {}
+): Promise<SaveTaskResult | null> {
+  const current = await getTaskById(taskId, userId);
+  if (!current) {
+    return null;
+  }
+
+  const isCompleting = data.status === TaskStatus.DONE && current.status !== TaskStatus.DONE;
+  const isReopening =
+    data.status !== undefined &&
+    data.status !== TaskStatus.DONE &&
+    current.status === TaskStatus.DONE;
+
+  // Completing a task whose blockers are still open has to be confirmed
+  if (isCompleting && !options.force) {
+    const blockers = await getOpenBlockers(taskId, userId);
+    if (blockers.length > 0) {
+      return { blockers };
+    }
+  }
+
+  // Update the task, or the requested part of its recurring series
+  const task = options.scope
+    ? await updateRecurringTask(taskId, userId, data, options.scope)
+    : await updateTask(taskId, userId, data);
+
+  if (!task) {
+    return null;
+  }
+
+  if (current.goalId && (isCompleting || isReopening)) {
+    await changeGoalProgress(userId, current.goalId, isCompleting ? 1 : -1);
+  }
+
+  if (isCompleting) {
+    await notifyUnblockedTasksSafely(taskId, userId);
+  }
+
+  return { task };
+}
+
+/**
+ * Update several tasks at once, with the same blocker check, goal progress
+ * and notifications as saving them one by one. Blockers completed in the
+ * same batch don't count. If any task is blocked, none are updated.
+ *
+ * @param userId - User ID for authorization
+ * @param taskIds - Tasks to update
+ * @param updates - Update data to apply to all tasks
+ * @param options - Whether to override open blockers
+ * @returns The updated tasks, or the blocked tasks with their open blockers
+ */
+export async function saveTasks(
+  userId: string,
+  taskIds: string[],
+  updates: BatchUpdateData,
+  options: Pick<SaveTaskOptions, 'force'> = {}
+): Promise<SaveTasksResult> {
+  const current = await db.task.findMany({
+    where: { id: { in: taskIds }, userId, deletedAt: null },
+    select: { id: true, status: true, goalId: true },
+  });
+
+  const completing =
+    updates.status === TaskStatus.DONE
+      ? current.filter((task) => task.status !== TaskStatus.DONE)
+      : [];
+  const reopening =
+    updates.status !== undefined && updates.status !== TaskStatus.DONE
+      ? current.filter((task) => task.status === TaskStatus.DONE)
+      : [];
+
+  // Completing tasks whose blockers are still open has to be confirmed
+  if (!options.force) {
+    const inBatch = new Set(taskIds);
+    const blocked = [];
+    for (const task of completing) {
+      const blockers = (await getOpenBlockers(task.id, userId)).filter(
+        (blocker) => !inBatch.has(blocker.id)
+      );
+      if (blockers.length > 0) {
+        blocked.push({ taskId: task.id, blockers });
+      }
+    }
+    if (blocked.length > 0) {
+      return { blocked };
+    }
+  }
+
+  const result = await batchUpdateTasks(userId, taskIds, updates);
+
+  for (const task of [...completing, ...reopening]) {
+    if (task.goalId) {
+      await changeGoalProgress(userId, task.goalId, completing.includes(task) ? 1 : -1);
+    }
+  }
+
+  for (const task of completing) {
+    await notifyUnblockedTasksSafely(task.id, userId);
+  }
+
+  return result;
+}
+
+/**
+ * Error message for a task that cannot be completed yet.
+ */
+export function getBlockedTaskMessage(blockers: TaskDependencyDto[]): string {
+  return `Task is blocked by ${blockers.length} open ${blockers.length === 1 ? 'task' : 'tasks'}`;
+}
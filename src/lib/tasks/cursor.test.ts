@@ -0,0 +1,106 @@
+/**
+ * Task Cursor Pagination Tests
+ *
+ * Tests for encoding cursors and the keyset filters built from them.
+ */
+
+import type { TaskDto } from './types';
+import {
+  decodeTaskCursor,
+  encodeTaskCursor,
+  getTaskCursorWhere,
+  getTaskOrderBy,
+  type TaskCursor,
+} from './cursor';
+
+describe('Task Cursor Pagination', () => {
+  const task = {
+    id: 'task-9',
+    title: 'Write report',
+    priority: 'MEDIUM',
+    dueDate: new Date('2026-05-01T09:00:00Z'),
+    sortOrder: 4,
+    createdAt: new Date('2026-04-01T00:00:00Z'),
+  } as TaskDto;
+
+  describe('encodeTaskCursor and decodeTaskCursor', () => {
+    it('should round-trip the sort key and ID', () => {
+      const cursor = encodeTaskCursor(task, 'dueDate', 'desc');
+
+      expect(decodeTaskCursor(cursor, 'dueDate', 'desc')).toEqual({
+        sortBy: 'dueDate',
+        sortOrder: 'desc',
+        value: '2026-05-01T09:00:00.000Z',
+        id: 'task-9',
+      });
+    });
+
+    it('should reject cursors made for another order', () => {
+      const cursor = encodeTaskCursor(task, 'sortOrder', 'asc');
+
+      expect(decodeTaskCursor(cursor, 'sortOrder', 'desc')).toBeNull();
+      expect(decodeTaskCursor(cursor, 'title', 'asc')).toBeNull();
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(decodeTaskCursor('not-a-cursor', 'sortOrder', 'asc')).toBeNull();
+      expect(
+        decodeTaskCursor(Buffer.from('{"id":1}').toString('base64url'), 'sortOrder', 'asc')
+      ).toBeNull();
+    });
+  });
+
+  describe('getTaskOrderBy', () => {
+    it('should break ties by ID', () => {
+      expect(getTaskOrderBy('priority', 'desc')).toEqual([{ priority: 'desc' }, { id: 'asc' }]);
+    });
+  });
+
+  describe('getTaskCursorWhere', () => {
+    const cursor = (overrides: Partial<TaskCursor>): TaskCursor => ({
+      sortBy: 'sortOrder',
+      sortOrder: 'asc',
+      value: 4,
+      id: 'task-9',
+      ...overrides,
+    });
+
+    it('should continue after the sort key, then after the ID', () => {
+      expect(getTaskCursorWhere(cursor({}))).toEqual({
+        OR: [{ sortOrder: { gt: 4 } }, { sortOrder: 4, id: { gt: 'task-9' } }],
+      });
+    });
+
+    it('should compare dates and keep tasks without a due date last when descending', () => {
+      const value = '2026-05-01T09:00:00.000Z';
+
+      expect(getTaskCursorWhere(cursor({ sortBy: 'dueDate', sortOrder: 'desc', value }))).toEqual({
+        OR: [
+          { dueDate: { lt: new Date(value) } },
+          { dueDate: new Date(value), id: { gt: 'task-9' } },
+          { dueDate: null },
+        ],
+      });
+    });
+
+    it('should continue from an empty sort key', () => {
+      expect(getTaskCursorWhere(cursor({ sortBy: 'dueDate', value: null }))).toEqual({
+        OR: [{ dueDate: { not: null } }, { dueDate: null, id: { gt: 'task-9' } }],
+      });
+      expect(
+        getTaskCursorWhere(cursor({ sortBy: 'dueDate', sortOrder: 'desc', value: null }))
+      ).toEqual({ dueDate: null, id: { gt: 'task-9' } });
+    });
+
+    it('should list the priorities that sort after the cursor', () => {
+      expect(getTaskCursorWhere(cursor({ sortBy: 'priority', value: 'LOW' }))).toEqual({
+        OR: [{ priority: { in: ['MEDIUM', 'NONE'] } }, { priority: 'LOW', id: { gt: 'task-9' } }],
+      });
+      expect(
+        getTaskCursorWhere(cursor({ sortBy: 'priority', sortOrder: 'desc', value: 'LOW' }))
+      ).toEqual({
+        OR: [{ priority: { in: ['HIGH'] } }, { priority: 'LOW', id: { gt: 'task-9' } }],
+      });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Task Cursor Pagination
+ *
+ * Opaque cursors for keyset pagination of task lists. A cursor holds the
+ * sort key and ID of the last task of a page; the next page continues after
+ * that task in the same order, so pages stay stable while tasks are added
+ * and no rows have to be skipped.
+ */
+
+import { Priority, type Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { SortByEnum, SortOrderEnum } from './schemas';
+import type { TaskDto } from './types';
+
+export type TaskSortBy = z.infer<typeof SortByEnum>;
+export type TaskSortOrder = z.infer<typeof SortOrderEnum>;
+
+/**
+ * Decoded task cursor.
+ */
+export interface TaskCursor {
+  sortBy: TaskSortBy;
+  sortOrder: TaskSortOrder;
+  /** Sort key of the last task; dates as ISO strings */
+  value: string | number | null;
+  id: string;
+}
+
+const TaskCursorSchema = z.object({
+  sortBy: SortByEnum,
+  sortOrder: SortOrderEnum,
+  value: z.union([z.string(), z.number(), z.null()]),
+  id: z.string().min(1),
+});
+
+const DATE_SORT_FIELDS = new Set<TaskSortBy>(['createdAt', 'updatedAt', 'dueDate']);
+
+/** Sort fields that can be empty; SQLite sorts NULL before any value */
+const NULLABLE_SORT_FIELDS = new Set<TaskSortBy>(['dueDate']);
+
+/**
+ * Get the order of a task listing, with the ID as tiebreaker so every task
+ * has a unique position.
+ */
+export function getTaskOrderBy(
+  sortBy: TaskSortBy,
+  sortOrder: TaskSortOrder
+): Array<Record<string, TaskSortOrder>> {
+  return [{ [sortBy]: sortOrder }, { id: 'asc' }];
+}
+
+/**
+ * Encode the cursor pointing after a task.
+ */
+export function encodeTaskCursor(
+  task: TaskDto,
+  sortBy: TaskSortBy,
+  sortOrder: TaskSortOrder
+): string {
+  const key = task[sortBy];
+  const value = key instanceof Date ? key.toISOString() : key;
+  const cursor: TaskCursor = { sortBy, sortOrder, value, id: task.id };
+
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor for a listing in the given order.
+ *
+ * @returns The cursor, or null if it is malformed or was made for another order
+ */
+export function decodeTaskCursor(
+  cursor: string,
+  sortBy: TaskSortBy,
+  sortOrder: TaskSortOrder
+): TaskCursor | null {
+  try {
+    const decoded = TaskCursorSchema.parse(
+      JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    );
+    return decoded.sortBy === sortBy && decoded.sortOrder === sortOrder ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a where clause matching the tasks after a cursor.
+ */
+export function getTaskCursorWhere(cursor: TaskCursor): Prisma.TaskWhereInput {
+  const { sortBy, sortOrder, id } = cursor;
+  const sameKeyAfter = { id: { gt: id } };
+
+  if (sortBy === 'priority') {
+    // Enums sort by their stored name and only support equality filters
+    const value = String(cursor.value);
+    const later = Object.values(Priority)
+      .sort()
+      .filter((name) => (sortOrder === 'asc' ? name > value : name < value));
+
+    return {
+      OR: [{ priority: { in: later } }, { priority: value as Priority, ...sameKeyAfter }],
+    };
+  }
+
+  const nullable = NULLABLE_SORT_FIELDS.has(sortBy);
+
+  if (cursor.value === null) {
+    // Empty keys come first ascending and last descending
+    return (
+      sortOrder === 'asc'
+        ? { OR: [{ [sortBy]: { not: null } }, { [sortBy]: null, ...sameKeyAfter }] }
+        : { [sortBy]: null, ...sameKeyAfter }
+    ) as Prisma.TaskWhereInput;
+  }
+
+  const value = DATE_SORT_FIELDS.has(sortBy) ? new Date(cursor.value) : cursor.value;
+  const after = sortOrder === 'asc' ? 'gt' : 'lt';
+
+  return {
+    OR: [
+      { [sortBy]: { [after]: value } },
+      { [sortBy]: value, ...sameKeyAfter },
+      ...(nullable && sortOrder === 'desc' ? [{ [sortBy]: null }] : []),
+    ],
+  } as Prisma.TaskWhereInput;
+}
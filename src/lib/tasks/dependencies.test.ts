@@ -0,0 +1,119 @@
+/**
+ * Task Dependencies Tests
+ *
+ * Tests for blocked-by relations, cycle detection and unblocking notifications.
+ */
+
+import { ReminderType, TaskStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { wouldCreateCycle, addTaskDependency, notifyUnblockedTasks } from './dependencies';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    task: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    taskDependency: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    reminder: {
+      createMany: jest.fn(),
+    },
+  },
+}));
+
+describe('Task Dependencies', () => {
+  const userId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('wouldCreateCycle', () => {
+    // c waits on b, b waits on a
+    const edges = [
+      { taskId: 'b', blockerId: 'a' },
+      { taskId: 'c', blockerId: 'b' },
+    ];
+
+    it('should detect direct and indirect cycles', () => {
+      expect(wouldCreateCycle(edges, 'a', 'b')).toBe(true);
+      expect(wouldCreateCycle(edges, 'a', 'c')).toBe(true);
+    });
+
+    it('should allow dependencies that keep the graph acyclic', () => {
+      expect(wouldCreateCycle(edges, 'c', 'a')).toBe(false);
+      expect(wouldCreateCycle(edges, 'd', 'c')).toBe(false);
+    });
+  });
+
+  describe('addTaskDependency', () => {
+    it('should reject self-dependencies', async () => {
+      await expect(addTaskDependency('a', 'a', userId)).rejects.toThrow(
+        'A task cannot block itself'
+      );
+    });
+
+    it('should return null when a task is not found', async () => {
+      (db.task.count as jest.Mock).mockResolvedValue(1);
+
+      expect(await addTaskDependency('a', 'b', userId)).toBeNull();
+      expect(db.taskDependency.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject cycles', async () => {
+      (db.task.count as jest.Mock).mockResolvedValue(2);
+      (db.taskDependency.findMany as jest.Mock).mockResolvedValue([
+        { taskId: 'b', blockerId: 'a' },
+      ]);
+
+      await expect(addTaskDependency('a', 'b', userId)).rejects.toThrow(
+        'Dependency would create a cycle'
+      );
+      expect(db.taskDependency.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should create the dependency and return the updated dependencies', async () => {
+      const blocker = { id: 'b', title: 'Blocker', status: TaskStatus.TODO };
+      (db.task.count as jest.Mock).mockResolvedValue(2);
+      (db.taskDependency.findMany as jest.Mock).mockResolvedValue([]);
+      (db.task.findFirst as jest.Mock).mockResolvedValue({
+        blockedBy: [{ blocker }],
+        blocking: [],
+      });
+
+      const result = await addTaskDependency('a', 'b', userId);
+
+      expect(db.taskDependency.upsert).toHaveBeenCalledWith({
+        where: { taskId_blockerId: { taskId: 'a', blockerId: 'b' } },
+        create: { taskId: 'a', blockerId: 'b' },
+        update: {},
+      });
+      expect(result).toEqual({ blockedBy: [blocker], blocking: [] });
+    });
+  });
+
+  describe('notifyUnblockedTasks', () => {
+    it('should create an in-app reminder for each unblocked task', async () => {
+      (db.task.findMany as jest.Mock).mockResolvedValue([{ id: 'c' }, { id: 'd' }]);
+
+      const result = await notifyUnblockedTasks('b', userId);
+
+      expect(result).toEqual(['c', 'd']);
+      const { data } = (db.reminder.createMany as jest.Mock).mock.calls[0][0];
+      expect(data).toHaveLength(2);
+      expect(data[0]).toMatchObject({ userId, taskId: 'c', type: ReminderType.IN_APP });
+    });
+
+    it('should do nothing when no task was unblocked', async () => {
+      (db.task.findMany as jest.Mock).mockResolvedValue([]);
+
+      expect(await notifyUnblockedTasks('b', userId)).toEqual([]);
+      expect(db.reminder.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
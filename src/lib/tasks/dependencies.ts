@@ -0,0 +1,213 @@
+/**
+ * Task Dependencies
+ *
+ * "Blocked by" relations between tasks. A task is blocked while any of the
+ * tasks blocking it is still open (TODO or IN_PROGRESS). Dependencies may
+ * not form cycles, since no task in a cycle could ever be unblocked.
+ */
+
+import { db } from '@/lib/db';
+import { ReminderType, TaskStatus } from '@prisma/client';
+import type { TaskDependencyDto, TaskDependenciesResponse } from './types';
+
+const OPEN_STATUSES: TaskStatus[] = [TaskStatus.TODO, TaskStatus.IN_PROGRESS];
+
+const dependencyTaskSelect = { id: true, title: true, status: true } as const;
+
+/**
+ * Check whether making a task wait on a blocker would create a cycle,
+ * i.e. whether the blocker already waits on the task, directly or not.
+ *
+ * @param edges - Existing dependencies
+ * @param taskId - Task to be blocked
+ * @param blockerId - Task to block it
+ * @returns True if the new dependency would create a cycle
+ */
+export function wouldCreateCycle(
+  edges: Array<{ taskId: string; blockerId: string }>,
+  taskId: string,
+  blockerId: string
+): boolean {
+  const blockersOf = new Map<string, string[]>();
+  for (const edge of edges) {
+    blockersOf.set(edge.taskId, [...(blockersOf.get(edge.taskId) ?? []), edge.blockerId]);
+  }
+
+  const visited = new Set<string>();
+  const pending = [blockerId];
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    pending.push(...(blockersOf.get(current) ?? []));
+  }
+
+  return false;
+}
+
+/**
+ * Get the tasks blocking a task and the tasks it blocks.
+ *
+ * @param taskId - Task ID
+ * @param userId - User ID for authorization
+ * @returns Dependencies or null if the task is not found
+ */
+export async function getTaskDependencies(
+  taskId: string,
+  userId: string
+): Promise<TaskDependenciesResponse | null> {
+  const task = await db.task.findFirst({
+    where: { id: taskId, userId, deletedAt: null },
+    select: {
+      blockedBy: {
+        where: { blocker: { deletedAt: null } },
+        select: { blocker: { select: dependencyTaskSelect } },
+        orderBy: { createdAt: 'asc' },
+      },
+      blocking: {
+        where: { task: { deletedAt: null } },
+        select: { task: { select: dependencyTaskSelect } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!task) {
+    return null;
+  }
+
+  return {
+    blockedBy: task.blockedBy.map((dependency) => dependency.blocker),
+    blocking: task.blocking.map((dependency) => dependency.task),
+  };
+}
+
+/**
+ * Get the open tasks blocking a task.
+ *
+ * @param taskId - Task ID
+ * @param userId - User ID for authorization
+ * @returns Open blockers
+ */
+export async function getOpenBlockers(
+  taskId: string,
+  userId: string
+): Promise<TaskDependencyDto[]> {
+  const dependencies = await db.taskDependency.findMany({
+    where: {
+      taskId,
+      task: { userId },
+      blocker: { status: { in: OPEN_STATUSES }, deletedAt: null },
+    },
+    select: { blocker: { select: dependencyTaskSelect } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return dependencies.map((dependency) => dependency.blocker);
+}
+
+/**
+ * Make a task wait on another task.
+ * Adding an existing dependency is a no-op.
+ *
+ * @param taskId - Task to be blocked
+ * @param blockerId - Task that has to be completed first
+ * @param userId - User ID for authorization
+ * @returns Updated dependencies or null if either task is not found
+ * @throws Error if the task would block itself or the dependency would create a cycle
+ */
+export async function addTaskDependency(
+  taskId: string,
+  blockerId: string,
+  userId: string
+): Promise<TaskDependenciesResponse | null> {
+  if (taskId === blockerId) {
+    throw new Error('A task cannot block itself');
+  }
+
+  const count = await db.task.count({
+    where: { id: { in: [taskId, blockerId] }, userId, deletedAt: null },
+  });
+  if (count !== 2) {
+    return null;
+  }
+
+  const edges = await db.taskDependency.findMany({
+    where: { task: { userId } },
+    select: { taskId: true, blockerId: true },
+  });
+
+  if (wouldCreateCycle(edges, taskId, blockerId)) {
+    throw new Error('Dependency would create a cycle');
+  }
+
+  await db.taskDependency.upsert({
+    where: { taskId_blockerId: { taskId, blockerId } },
+    create: { taskId, blockerId },
+    update: {},
+  });
+
+  return getTaskDependencies(taskId, userId);
+}
+
+/**
+ * Remove a dependency between two tasks.
+ *
+ * @param taskId - Blocked task
+ * @param blockerId - Blocking task
+ * @param userId - User ID for authorization
+ * @returns True if the dependency was removed
+ */
+export async function removeTaskDependency(
+  taskId: string,
+  blockerId: string,
+  userId: string
+): Promise<boolean> {
+  const result = await db.taskDependency.deleteMany({
+    where: { taskId, blockerId, task: { userId } },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Notify about tasks a completed task was the last open blocker of.
+ *
+ * Each unblocked task gets an in-app reminder firing now, which shows up
+ * with the other reminder notifications.
+ *
+ * @param blockerId - Completed task
+ * @param userId - User ID for authorization
+ * @returns IDs of the unblocked tasks
+ */
+export async function notifyUnblockedTasks(blockerId: string, userId: string): Promise<string[]> {
+  const unblocked = await db.task.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      status: { in: OPEN_STATUSES },
+      blockedBy: {
+        some: { blockerId },
+        none: { blocker: { status: { in: OPEN_STATUSES }, deletedAt: null } },
+      },
+    },
+    select: { id: true },
+  });
+
+  if (unblocked.length === 0) {
+    return [];
+  }
+
+  const fireAt = new Date();
+  await db.reminder.createMany({
+    data: unblocked.map((task) => ({
+      userId,
+      taskId: task.id,
+      type: ReminderType.IN_APP,
+      fireAt,
+    })),
+  });
+
+  return unblocked.map((task) => task.id);
+}
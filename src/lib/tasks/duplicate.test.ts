@@ -0,0 +1,247 @@
+/**
+ * Task Duplication Tests
+ */
+
+import { db } from '@/lib/db';
+import { moveItem } from '@/lib/ordering/service';
+import { getTaskById } from './service';
+import { copyListTasks, duplicateTask, rebaseReminderFireAt } from './duplicate';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    task: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    list: {
+      findFirst: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/ordering/service', () => ({
+  moveItem: jest.fn(),
+}));
+
+jest.mock('./service', () => ({
+  getTaskById: jest.fn(),
+}));
+
+describe('Task Duplication', () => {
+  const userId = 'user-123';
+  const hour = 60 * 60 * 1000;
+  const dueDate = new Date(Date.now() + 24 * hour);
+
+  const makeTask = (overrides = {}) => ({
+    id: 'task-1',
+    title: 'Write report',
+    description: null,
+    status: 'DONE',
+    priority: 'HIGH',
+    dueDate,
+    startDate: null,
+    completedAt: new Date(),
+    estimatedTime: 60,
+    spentTime: 45,
+    recurrenceRule: 'FREQ=WEEKLY',
+    recurrenceId: 'series-1',
+    recurrenceDate: null,
+    sortOrder: 2,
+    userId,
+    listId: 'list-1',
+    parentId: null,
+    goalId: 'goal-1',
+    tags: [{ tagId: 'tag-1' }],
+    reminders: [],
+    checklistItems: [{ text: 'Outline', checked: true, sortOrder: 0 }],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    let created = 0;
+    (db.task.create as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ id: `copy-${++created}` })
+    );
+    (db.task.findFirst as jest.Mock).mockResolvedValue({ sortOrder: 3 });
+  });
+
+  describe('rebaseReminderFireAt', () => {
+    it('should follow the new due date for relative reminders', () => {
+      const fireAt = rebaseReminderFireAt(
+        { fireAt: new Date(0), relativeOffset: 15 },
+        new Date('2026-03-01T10:00:00Z'),
+        0
+      );
+      expect(fireAt).toEqual(new Date('2026-03-01T09:45:00Z'));
+    });
+
+    it('should move absolute reminders by the offset', () => {
+      const fireAt = rebaseReminderFireAt(
+        { fireAt: new Date('2026-03-01T08:00:00Z'), relativeOffset: null },
+        null,
+        hour
+      );
+      expect(fireAt).toEqual(new Date('2026-03-01T09:00:00Z'));
+    });
+  });
+
+  describe('duplicateTask', () => {
+    it('should return null when the task is not found', async () => {
+      (db.task.findMany as jest.Mock).mockResolvedValue([]);
+
+      expect(await duplicateTask('missing', userId)).toBeNull();
+      expect(db.task.create).not.toHaveBeenCalled();
+    });
+
+    it('should copy the task with subtasks, tags, checklist and goal', async () => {
+      (db.task.findMany as jest.Mock)
+        .mockResolvedValueOnce([makeTask()])
+        .mockResolvedValueOnce([makeTask({ id: 'sub-1', parentId: 'task-1', goalId: null })])
+        .mockResolvedValueOnce([]);
+      (getTaskById as jest.Mock).mockResolvedValue({ id: 'copy-1' });
+
+      const result = await duplicateTask('task-1', userId);
+
+      expect(result).toEqual({ id: 'copy-1' });
+      expect(db.task.create).toHaveBeenCalledTimes(2);
+
+      const root = (db.task.create as jest.Mock).mock.calls[0][0].data;
+      expect(root).toMatchObject({
+        title: 'Write report',
+        status: 'DONE',
+        listId: 'list-1',
+        parentId: null,
+        goalId: 'goal-1',
+        recurrenceRule: 'FREQ=WEEKLY',
+        tags: { create: [{ tagId: 'tag-1' }] },
+        checklistItems: { create: [{ text: 'Outline', checked: true, sortOrder: 0 }] },
+      });
+      expect(root).not.toHaveProperty('recurrenceId');
+
+      const subtask = (db.task.create as jest.Mock).mock.calls[1][0].data;
+      expect(subtask.parentId).toBe('copy-1');
+    });
+
+    it('should rank the copy right after its source', async () => {
+      (db.task.findMany as jest.Mock).mockResolvedValueOnce([makeTask()]).mockResolvedValueOnce([]);
+
+      await duplicateTask('task-1', userId);
+
+      expect(db.task.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId,
+          deletedAt: null,
+          OR: [{ sortOrder: { gt: 2 } }, { sortOrder: 2, id: { gt: 'task-1' } }],
+        },
+        select: { sortOrder: true },
+        orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
+      });
+      expect((db.task.create as jest.Mock).mock.calls[0][0].data.sortOrder).toBe(2.5);
+      expect(moveItem).not.toHaveBeenCalled();
+    });
+
+    it('should move the copy after its source when there is no room for its rank', async () => {
+      (db.task.findMany as jest.Mock).mockResolvedValueOnce([makeTask()]).mockResolvedValueOnce([]);
+      (db.task.findFirst as jest.Mock).mockResolvedValue({ sortOrder: 2 });
+
+      await duplicateTask('task-1', userId);
+
+      expect((db.task.create as jest.Mock).mock.calls[0][0].data.sortOrder).toBe(2);
+      expect(moveItem).toHaveBeenCalledWith('task', userId, 'copy-1', { afterId: 'task-1' });
+    });
+
+    it('should re-base reminders and dates on the new due date', async () => {
+      const newDueDate = new Date(dueDate.getTime() + 48 * hour);
+      (db.task.findMany as jest.Mock)
+        .mockResolvedValueOnce([
+          makeTask({
+            startDate: new Date(dueDate.getTime() - 2 * hour),
+            reminders: [
+              { type: 'IN_APP', fireAt: new Date(dueDate.getTime() - hour), relativeOffset: 60 },
+              {
+                type: 'EMAIL',
+                fireAt: new Date(dueDate.getTime() - 3 * hour),
+                relativeOffset: null,
+              },
+              { type: 'IN_APP', fireAt: new Date(0), relativeOffset: null },
+            ],
+          }),
+        ])
+        .mockResolvedValueOnce([]);
+
+      await duplicateTask('task-1', userId, { dueDate: newDueDate, resetStatus: true });
+
+      const data = (db.task.create as jest.Mock).mock.calls[0][0].data;
+      expect(data).toMatchObject({
+        status: 'TODO',
+        completedAt: null,
+        spentTime: null,
+        dueDate: newDueDate,
+        startDate: new Date(newDueDate.getTime() - 2 * hour),
+        checklistItems: { create: [{ text: 'Outline', checked: false, sortOrder: 0 }] },
+      });
+      expect(data.reminders.create).toEqual([
+        {
+          type: 'IN_APP',
+          relativeOffset: 60,
+          fireAt: new Date(newDueDate.getTime() - hour),
+          userId,
+        },
+        {
+          type: 'EMAIL',
+          relativeOffset: null,
+          fireAt: new Date(newDueDate.getTime() - 3 * hour),
+          userId,
+        },
+      ]);
+    });
+
+    it('should reject a target list the user does not own', async () => {
+      (db.task.findMany as jest.Mock).mockResolvedValueOnce([makeTask()]);
+      (db.list.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(duplicateTask('task-1', userId, { listId: 'list-2' })).rejects.toThrow(
+        'List not found'
+      );
+      expect(db.task.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('copyListTasks', () => {
+    it('should copy all tasks into the target list, keeping the hierarchy', async () => {
+      (db.task.findMany as jest.Mock)
+        .mockResolvedValueOnce([
+          makeTask({ id: 'sub-1', parentId: 'task-1' }),
+          makeTask({ id: 'task-1' }),
+          makeTask({ id: 'task-2', parentId: 'outside' }),
+        ])
+        .mockResolvedValueOnce([]);
+
+      expect(await copyListTasks(userId, 'list-1', 'list-2')).toBe(3);
+
+      const calls = (db.task.create as jest.Mock).mock.calls.map(([args]) => args.data);
+      expect(calls.map((data) => [data.listId, data.parentId])).toEqual([
+        ['list-2', null],
+        ['list-2', 'copy-1'],
+        ['list-2', null],
+      ]);
+    });
+
+    it('should leave archived subtasks behind', async () => {
+      (db.task.findMany as jest.Mock)
+        .mockResolvedValueOnce([makeTask({ id: 'task-1' })])
+        .mockResolvedValueOnce([]);
+
+      await copyListTasks(userId, 'list-1', 'list-2');
+
+      expect((db.task.findMany as jest.Mock).mock.calls[1][0].where).toEqual({
+        userId,
+        deletedAt: null,
+        parentId: { in: ['task-1'] },
+        archivedAt: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Task Duplication
+ *
+ * Deep copies of tasks. A copy takes its subtasks, tags, checklist, goal
+ * link and upcoming reminders along, and starts a new recurring series if
+ * the source repeats. Comments, change history, attachments and
+ * dependencies belong to the original and are not copied.
+ */
+
+import { db } from '@/lib/db';
+import { Prisma, TaskStatus, type Reminder } from '@prisma/client';
+import { getRankBetween } from '@/lib/ordering/rank';
+import { moveItem } from '@/lib/ordering/service';
+import { getTaskById } from './service';
+import type { DuplicateTaskInput } from './schemas';
+import type { TaskDto } from './types';
+
+const sourceInclude = {
+  tags: { select: { tagId: true, tag: { select: { name: true } } } },
+  reminders: true,
+  checklistItems: { orderBy: { sortOrder: 'asc' } },
+} satisfies Prisma.TaskInclude;
+
+/**
+ * A task loaded with everything needed to copy it.
+ */
+export type SourceTask = Prisma.TaskGetPayload<{ include: typeof sourceInclude }>;
+
+interface CopyOptions {
+  /** Put every copy in this list instead of its source's list */
+  listId?: string;
+  /** Reopen every copy and uncheck its checklist */
+  resetStatus?: boolean;
+  /** Milliseconds to move all dates by */
+  offsetMs?: number;
+  /** Due date of the top-level copies; overrides the offset for them */
+  dueDate?: Date | null;
+}
+
+function shiftDate(date: Date | null, offsetMs: number): Date | null {
+  return date && offsetMs ? new Date(date.getTime() + offsetMs) : date;
+}
+
+/**
+ * Fire time of a copied reminder. Reminders relative to the due date follow
+ * the copy's due date; absolute reminders move by the offset.
+ *
+ * @param reminder - Source reminder
+ * @param dueDate - Due date of the copy
+ * @param offsetMs - Milliseconds the copy's dates moved by
+ * @returns New fire time
+ */
+export function rebaseReminderFireAt(
+  reminder: Pick<Reminder, 'fireAt' | 'relativeOffset'>,
+  dueDate: Date | null,
+  offsetMs: number
+): Date {
+  if (reminder.relativeOffset !== null && dueDate) {
+    return new Date(dueDate.getTime() - reminder.relativeOffset * 60 * 1000);
+  }
+  return new Date(reminder.fireAt.getTime() + offsetMs);
+}
+
+/**
+ * Rank right after a task, before the task that follows it.
+ *
+ * @param userId - User ID owning the task
+ * @param task - Task to rank after
+ * @returns The rank, or null if there is no room left after the task
+ */
+async function getRankAfter(
+  userId: string,
+  task: Pick<SourceTask, 'id' | 'sortOrder'>
+): Promise<number | null> {
+  const next = await db.task.findFirst({
+    where: {
+      userId,
+      deletedAt: null,
+      OR: [
+        { sortOrder: { gt: task.sortOrder } },
+        { sortOrder: task.sortOrder, id: { gt: task.id } },
+      ],
+    },
+    select: { sortOrder: true },
+    orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
+  });
+
+  return getRankBetween(task.sortOrder, next?.sortOrder ?? null);
+}
+
+/**
+ * Load tasks matching a filter together with all of their subtasks.
+ * Subtasks are filtered by the same archive state as the top-level tasks.
+ *
+ * @param userId - User ID owning the tasks
+ * @param where - Filter for the top-level tasks
+ * @returns Matching tasks and their descendants
+ */
+export async function loadTaskTrees(
+  userId: string,
+  where: Prisma.TaskWhereInput
+): Promise<SourceTask[]> {
+  const tasks = await db.task.findMany({
+    where: { ...where, userId, deletedAt: null },
+    include: sourceInclude,
+    orderBy: { sortOrder: 'asc' },
+  });
+
+  const seen = new Set(tasks.map((task) => task.id));
+  let parentIds = [...seen];
+
+  while (parentIds.length > 0) {
+    const children = await db.task.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        parentId: { in: parentIds },
+        ...(where.archivedAt !== undefined && { archivedAt: where.archivedAt }),
+      },
+      include: sourceInclude,
+      orderBy: { sortOrder: 'asc' },
+    });
+    const fresh = children.filter((child) => !seen.has(child.id));
+    for (const child of fresh) {
+      seen.add(child.id);
+      tasks.push(child);
+    }
+    parentIds = fresh.map((child) => child.id);
+  }
+
+  return tasks;
+}
+
+/**
+ * Copy a set of tasks, keeping the subtask structure among them.
+ *
+ * @returns Map of source task IDs to the IDs of their copies
+ */
+async function copyTaskTrees(
+  userId: string,
+  sources: SourceTask[],
+  options: CopyOptions
+): Promise<Map<string, string>> {
+  const { listId, resetStatus = false, offsetMs = 0 } = options;
+  const sourceIds = new Set(sources.map((task) => task.id));
+  const copies = new Map<string, string>();
+  const now = Date.now();
+
+  const copy = async (source: SourceTask, parentId: string | null, isRoot: boolean) => {
+    const status = resetStatus ? TaskStatus.TODO : source.status;
+    const dueDate =
+      isRoot && options.dueDate !== undefined
+        ? options.dueDate
+        : shiftDate(source.dueDate, offsetMs);
+
+    // Reminders that would already have fired are left behind
+    const reminders = source.reminders
+      .map((reminder) => ({
+        type: reminder.type,
+        relativeOffset: dueDate ? reminder.relativeOffset : null,
+        fireAt: rebaseReminderFireAt(reminder, dueDate, offsetMs),
+        userId,
+      }))
+      .filter((reminder) => reminder.fireAt.getTime() > now);
+
+    // The copy goes right after its source
+    const sortOrder = await getRankAfter(userId, source);
+
+    const created = await db.task.create({
+      data: {
+        title: source.title,
+        description: source.description,
+        status,
+        priority: source.priority,
+        dueDate,
+        startDate: shiftDate(source.startDate, offsetMs),
+        completedAt: status === TaskStatus.DONE ? source.completedAt : null,
+        estimatedTime: source.estimatedTime,
+        spentTime: resetStatus ? null : source.spentTime,
+        recurrenceRule: source.recurrenceRule,
+        sortOrder: sortOrder ?? source.sortOrder,
+        userId,
+        listId: listId ?? source.listId,
+        parentId,
+        goalId: source.goalId,
+        tags: { create: source.tags.map((tag) => ({ tagId: tag.tagId })) },
+        checklistItems: {
+          create: source.checklistItems.map((item) => ({
+            text: item.text,
+            checked: resetStatus ? false : item.checked,
+            sortOrder: item.sortOrder,
+          })),
+        },
+        reminders: { create: reminders },
+      },
+      select: { id: true },
+    });
+    copies.set(source.id, created.id);
+
+    if (sortOrder === null) {
+      // No room after the source: let the ordering service spread the ranks out
+      await moveItem('task', userId, created.id, { afterId: source.id });
+    }
+
+    for (const child of sources.filter((task) => task.parentId === source.id)) {
+      await copy(child, created.id, false);
+    }
+  };
+
+  for (const root of sources.filter((task) => !task.parentId || !sourceIds.has(task.parentId))) {
+    // A copied subtask stays under the original parent unless it moves to another list
+    const parentId = listId && listId !== root.listId ? null : root.parentId;
+    await copy(root, parentId, true);
+  }
+
+  return copies;
+}
+
+/**
+ * Duplicate a task with its subtasks.
+ *
+ * @param taskId - Task to duplicate
+ * @param userId - User ID for authorization
+ * @param data - Target list, new due date and whether to reopen the copy
+ * @returns The copy, or null if the task is not found
+ */
+export async function duplicateTask(
+  taskId: string,
+  userId: string,
+  data: DuplicateTaskInput = {}
+): Promise<TaskDto | null> {
+  const sources = await loadTaskTrees(userId, { id: taskId });
+  const root = sources[0];
+  if (!root) {
+    return null;
+  }
+
+  if (data.listId) {
+    const list = await db.list.findFirst({
+      where: { id: data.listId, userId, deletedAt: null },
+    });
+    if (!list) {
+      throw new Error('List not found');
+    }
+  }
+
+  // Moving the due date moves the rest of the tree by the same amount
+  const offsetMs =
+    data.dueDate && root.dueDate ? data.dueDate.getTime() - root.dueDate.getTime() : 0;
+
+  const copies = await copyTaskTrees(userId, sources, {
+    listId: data.listId,
+    resetStatus: data.resetStatus,
+    offsetMs,
+    dueDate: data.dueDate,
+  });
+
+  const copyId = copies.get(taskId);
+  return copyId ? getTaskById(copyId, userId) : null;
+}
+
+/**
+ * Copy every task of a list into another list.
+ *
+ * @param userId - User ID owning both lists
+ * @param sourceListId - List to copy from
+ * @param targetListId - List to copy into
+ * @param options - Whether to reopen the copies and how far to move their dates
+ * @returns Number of tasks copied
+ */
+export async function copyListTasks(
+  userId: string,
+  sourceListId: string,
+  targetListId: string,
+  options: { resetStatus?: boolean; offsetMs?: number } = {}
+): Promise<number> {
+  const sources = await loadTaskTrees(userId, { listId: sourceListId, archivedAt: null });
+  const copies = await copyTaskTrees(userId, sources, { ...options, listId: targetListId });
+  return copies.size;
+}
@@ -7,3 +7,10 @@
 export * from './schemas';
 export * from './types';
 export * from './service';
+export * from './series';
+export * from './dependencies';
+export * from './completion';
+export * from './checklist';
+export * from './activity';
+export * from './duplicate';
+export * from './cursor';
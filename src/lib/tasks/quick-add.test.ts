@@ -0,0 +1,134 @@
+/**
+ * Quick Add Parser Tests
+ *
+ * Tests for natural-language task input parsing.
+ */
+
+import { parseQuickAdd, buildQuickAddInput } from './quick-add';
+
+// Wednesday, June 11 2025, 10:00 local time
+const now = new Date(2025, 5, 11, 10, 0);
+
+function parse(input: string) {
+  return parseQuickAdd(input, { now });
+}
+
+describe('parseQuickAdd', () => {
+  it('should return plain text unchanged', () => {
+    const result = parse('Buy milk');
+    expect(result.title).toBe('Buy milk');
+    expect(result.dueDate).toBeNull();
+    expect(result.priority).toBeNull();
+    expect(result.tags).toEqual([]);
+    expect(result.tokens).toEqual([]);
+  });
+
+  it('should parse relative dates with a time', () => {
+    const result = parse('Call mom tomorrow 3pm');
+    expect(result.title).toBe('Call mom');
+    expect(result.dueDate).toEqual(new Date(2025, 5, 12, 15, 0));
+    expect(result.hasTime).toBe(true);
+  });
+
+  it('should parse weekdays', () => {
+    expect(parse('Review fri').dueDate).toEqual(new Date(2025, 5, 13));
+    expect(parse('Review next fri').dueDate).toEqual(new Date(2025, 5, 20));
+    expect(parse('Review wednesday').dueDate).toEqual(new Date(2025, 5, 11));
+    expect(parse('Review next week').dueDate).toEqual(new Date(2025, 5, 16));
+  });
+
+  it('should parse absolute dates', () => {
+    expect(parse('Trip jan 5').dueDate).toEqual(new Date(2026, 0, 5));
+    expect(parse('Trip 5 july').dueDate).toEqual(new Date(2025, 6, 5));
+    expect(parse('Trip 2025-08-01').dueDate).toEqual(new Date(2025, 7, 1));
+    expect(parse('Trip 12/24').dueDate).toEqual(new Date(2025, 11, 24));
+    expect(parse('Trip feb 30').dueDate).toBeNull();
+  });
+
+  it('should parse times with "at" and 24-hour clock', () => {
+    const result = parse('Standup at 9:30am');
+    expect(result.title).toBe('Standup');
+    expect(result.dueDate).toEqual(new Date(2025, 5, 11, 9, 30));
+    expect(parse('Deploy 15:45').dueDate).toEqual(new Date(2025, 5, 11, 15, 45));
+    expect(parse('Lunch noon').dueDate).toEqual(new Date(2025, 5, 11, 12, 0));
+  });
+
+  it('should parse priority', () => {
+    expect(parse('Fix bug !high').priority).toBe('HIGH');
+    expect(parse('Fix bug !med').priority).toBe('MEDIUM');
+    expect(parse('Fix bug !!!').priority).toBe('HIGH');
+    expect(parse('Fix bug !').priority).toBe('LOW');
+    expect(parse('Fix bug !high').title).toBe('Fix bug');
+  });
+
+  it('should parse tags, list and estimate', () => {
+    const result = parse('Draft report #work #Q3 #work ^"Deep Work" ~1h30m');
+    expect(result.title).toBe('Draft report');
+    expect(result.tags).toEqual(['work', 'Q3']);
+    expect(result.listName).toBe('Deep Work');
+    expect(result.estimatedTime).toBe(90);
+  });
+
+  it('should parse recurrence and start at the first occurrence', () => {
+    const result = parse('Team sync every monday 10am');
+    expect(result.title).toBe('Team sync');
+    expect(result.recurrenceRule).toBe('FREQ=WEEKLY;BYDAY=MO');
+    expect(result.dueDate).toEqual(new Date(2025, 5, 16, 10, 0));
+  });
+
+  it('should parse recurrence intervals and day lists', () => {
+    expect(parse('Water plants every other day').recurrenceRule).toBe('FREQ=DAILY;INTERVAL=2');
+    expect(parse('Report every 3 months').recurrenceRule).toBe('FREQ=MONTHLY;INTERVAL=3');
+    expect(parse('Gym every mon, wed and fri').recurrenceRule).toBe('FREQ=WEEKLY;BYDAY=MO,WE,FR');
+    expect(parse('Journal daily').recurrenceRule).toBe('FREQ=DAILY');
+    expect(parse('Standup every weekday').recurrenceRule).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+  });
+
+  it('should record token positions', () => {
+    const result = parse('Pay rent tomorrow !high');
+    expect(result.tokens).toEqual([
+      { type: 'date', text: 'tomorrow', start: 9, end: 17 },
+      { type: 'priority', text: '!high', start: 18, end: 23 },
+    ]);
+  });
+
+  it('should not match tokens inside words', () => {
+    const result = parse('Email today@example.com about issue#12');
+    expect(result.title).toBe('Email today@example.com about issue#12');
+    expect(result.tokens).toEqual([]);
+  });
+
+  it('should keep the raw input as title when only tokens are given', () => {
+    const result = parse('tomorrow');
+    expect(result.title).toBe('tomorrow');
+    expect(result.dueDate).toEqual(new Date(2025, 5, 12));
+  });
+});
+
+describe('buildQuickAddInput', () => {
+  const lists = [
+    { id: 'clxlist000001', title: 'Inbox' },
+    { id: 'clxlist000002', title: 'Errands' },
+  ];
+
+  it('should build a create task payload', () => {
+    const input = buildQuickAddInput(
+      parse('Buy stamps tomorrow !low #post ^errands ~15m every month'),
+      lists
+    );
+    expect(input).toEqual({
+      title: 'Buy stamps',
+      dueDate: new Date(2025, 5, 12),
+      priority: 'LOW',
+      estimatedTime: 15,
+      recurrenceRule: 'FREQ=MONTHLY',
+      tagNames: ['post'],
+      listId: 'clxlist000002',
+    });
+  });
+
+  it('should omit unknown lists', () => {
+    const input = buildQuickAddInput(parse('Buy stamps ^Nowhere'), lists);
+    expect(input).toEqual({ title: 'Buy stamps' });
+  });
+});
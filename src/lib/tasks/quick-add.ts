@@ -0,0 +1,400 @@
+/**
+ * Quick Add Parser
+ *
+ * Parses natural-language task input such as
+ * "Pay rent tomorrow 3pm !high #home ^Errands ~15m every month"
+ * into structured task fields, keeping track of the matched tokens so the
+ * input can highlight them while the user types.
+ *
+ * Supported syntax:
+ * - Dates: today, tonight, tomorrow, mon/monday, this/next fri, next week,
+ *   next month, in 3 days, jan 5, 5 jan, 1/5, 2025-01-05
+ * - Times: 3pm, 3:30pm, 15:00, noon, midnight (optionally prefixed by "at")
+ * - Priority: !high, !medium, !low, !none, or !!!, !!, !
+ * - Tags: #work (any number)
+ * - List: ^Errands or ^"Weekly review"
+ * - Estimate: ~30m, ~1h30m, ~2h
+ * - Recurrence: daily, weekly, every day, every other week, every 2 months,
+ *   every weekday, every weekend, every mon and wed
+ */
+
+import type { Priority } from '@prisma/client';
+import { addDays, addMonths, parseDuration, startOfDay } from '@/lib/utils/date';
+import { getOccurrences, WEEKDAY_CODES } from '@/lib/recurrence';
+import type { CreateTaskInput } from './schemas';
+
+/**
+ * Kind of token recognized in quick add input.
+ */
+export type QuickAddTokenType =
+  | 'date'
+  | 'time'
+  | 'priority'
+  | 'tag'
+  | 'list'
+  | 'estimate'
+  | 'recurrence';
+
+/**
+ * A recognized span of the input text.
+ */
+export interface QuickAddToken {
+  type: QuickAddTokenType;
+  /** Matched text as typed */
+  text: string;
+  /** Start offset in the input (inclusive) */
+  start: number;
+  /** End offset in the input (exclusive) */
+  end: number;
+}
+
+/**
+ * Result of parsing quick add input.
+ */
+export interface QuickAddResult {
+  /** Input with all recognized tokens removed */
+  title: string;
+  /** Due date, including the time when one was given */
+  dueDate: Date | null;
+  /** Whether a time of day was given */
+  hasTime: boolean;
+  priority: Priority | null;
+  /** Tag names without the leading "#" */
+  tags: string[];
+  /** List name without the leading "^" */
+  listName: string | null;
+  /** Estimated time in minutes */
+  estimatedTime: number | null;
+  /** RFC 5545 recurrence rule */
+  recurrenceRule: string | null;
+  /** Recognized tokens, sorted by position */
+  tokens: QuickAddToken[];
+}
+
+/**
+ * Options for parsing quick add input.
+ */
+export interface QuickAddOptions {
+  /** Reference time for relative dates (defaults to now) */
+  now?: Date;
+}
+
+// Tokens must be delimited by whitespace, the input edges or trailing punctuation
+const START = '(?<=^|\\s)';
+const END = '(?=$|[\\s,.;!?])';
+
+const WEEKDAY =
+  'mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?';
+const MONTH =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const DATE_PREFIX = '(?:(?:on|by|due)\\s+)?';
+const TIME_PREFIX = '(?:at\\s+)?';
+
+const WEEKDAY_PREFIXES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTH_PREFIXES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+const PRIORITY_WORDS: Record<string, Priority> = {
+  high: 'HIGH',
+  medium: 'MEDIUM',
+  med: 'MEDIUM',
+  low: 'LOW',
+  none: 'NONE',
+};
+
+const PRIORITY_BANGS: Priority[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const FREQUENCY_BY_UNIT: Record<string, string> = {
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  year: 'YEARLY',
+};
+
+/**
+ * Convert a weekday word (e.g. "thurs") to its `Date.getDay()` index.
+ */
+function weekdayIndex(word: string): number {
+  return WEEKDAY_PREFIXES.indexOf(word.slice(0, 3).toLowerCase());
+}
+
+/**
+ * Convert a month word (e.g. "sept") to its zero-based month index.
+ */
+function monthIndex(word: string): number {
+  return MONTH_PREFIXES.indexOf(word.slice(0, 3).toLowerCase());
+}
+
+/**
+ * Build a date, rejecting overflow such as February 30.
+ */
+function buildDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+/**
+ * Build a date without an explicit year, rolling over to next year if it has passed.
+ */
+function upcomingDate(month: number, day: number, today: Date): Date | null {
+  const date = buildDate(today.getFullYear(), month, day);
+  if (date && date < today) {
+    return buildDate(today.getFullYear() + 1, month, day);
+  }
+  return date;
+}
+
+type Handler<T> = (match: RegExpExecArray, today: Date) => T | null;
+
+interface Matcher<T> {
+  pattern: RegExp;
+  handle: Handler<T>;
+}
+
+/**
+ * Create a case-insensitive, whitespace-delimited matcher.
+ */
+function matcher<T>(source: string, handle: Handler<T>): Matcher<T> {
+  return { pattern: new RegExp(`${START}(?:${source})${END}`, 'giu'), handle };
+}
+
+const RECURRENCE_MATCHERS: Matcher<string>[] = [
+  matcher('every\\s+weekday', () => 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'),
+  matcher('every\\s+weekend', () => 'FREQ=WEEKLY;BYDAY=SA,SU'),
+  matcher(`every\\s+((?:${WEEKDAY})(?:\\s*(?:,|and|&)\\s*(?:${WEEKDAY}))*)`, (m) => {
+    const days = m[1].split(/\s*(?:,|and|&)\s*/i).map((word) => WEEKDAY_CODES[weekdayIndex(word)]);
+    return `FREQ=WEEKLY;BYDAY=${Array.from(new Set(days)).join(',')}`;
+  }),
+  matcher('every\\s+(?:(other|\\d+)\\s+)?(day|week|month|year)s?', (m) => {
+    const interval = m[1] === undefined ? 1 : m[1].toLowerCase() === 'other' ? 2 : Number(m[1]);
+    if (interval < 1) return null;
+    const freq = FREQUENCY_BY_UNIT[m[2].toLowerCase()];
+    return interval > 1 ? `FREQ=${freq};INTERVAL=${interval}` : `FREQ=${freq}`;
+  }),
+  matcher('daily|weekly|monthly|yearly|annually', (m) => {
+    const word = m[0].toLowerCase();
+    return `FREQ=${word === 'annually' ? 'YEARLY' : word.toUpperCase()}`;
+  }),
+];
+
+const DATE_MATCHERS: Matcher<Date>[] = [
+  matcher(`${DATE_PREFIX}(\\d{4})-(\\d{2})-(\\d{2})`, (m) =>
+    buildDate(Number(m[1]), Number(m[2]) - 1, Number(m[3]))
+  ),
+  matcher(`${DATE_PREFIX}(\\d{1,2})\\/(\\d{1,2})(?:\\/(\\d{2}|\\d{4}))?`, (m, today) => {
+    const month = Number(m[1]) - 1;
+    const day = Number(m[2]);
+    if (m[3] === undefined) return upcomingDate(month, day, today);
+    const year = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+    return buildDate(year, month, day);
+  }),
+  matcher(
+    `${DATE_PREFIX}(${MONTH})\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`,
+    (m, today) =>
+      m[3] === undefined
+        ? upcomingDate(monthIndex(m[1]), Number(m[2]), today)
+        : buildDate(Number(m[3]), monthIndex(m[1]), Number(m[2]))
+  ),
+  matcher(`${DATE_PREFIX}(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH})(?:\\s+(\\d{4}))?`, (m, today) =>
+    m[3] === undefined
+      ? upcomingDate(monthIndex(m[2]), Number(m[1]), today)
+      : buildDate(Number(m[3]), monthIndex(m[2]), Number(m[1]))
+  ),
+  matcher('today|tonight', (_, today) => today),
+  matcher(`${DATE_PREFIX}(?:tomorrow|tmrw?|tmr)`, (_, today) => addDays(today, 1)),
+  matcher('next\\s+week', (_, today) => addDays(today, (1 - today.getDay() + 7) % 7 || 7)),
+  matcher('next\\s+month', (_, today) =>
+    addMonths(new Date(today.getFullYear(), today.getMonth(), 1), 1)
+  ),
+  matcher('in\\s+(\\d+)\\s+(day|week|month)s?', (m, today) => {
+    const amount = Number(m[1]);
+    const unit = m[2].toLowerCase();
+    if (unit === 'month') return addMonths(today, amount);
+    return addDays(today, unit === 'week' ? amount * 7 : amount);
+  }),
+  matcher(`${DATE_PREFIX}(?:(this|next)\\s+)?(${WEEKDAY})`, (m, today) => {
+    // "fri" is the upcoming Friday (today included); "next fri" is a week after that
+    const ahead = (weekdayIndex(m[2]) - today.getDay() + 7) % 7;
+    return addDays(today, m[1]?.toLowerCase() === 'next' ? ahead + 7 : ahead);
+  }),
+];
+
+const TIME_MATCHERS: Matcher<{ hours: number; minutes: number }>[] = [
+  matcher(`${TIME_PREFIX}(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)`, (m) => {
+    const hour = Number(m[1]);
+    const minutes = Number(m[2] ?? 0);
+    if (hour < 1 || hour > 12 || minutes > 59) return null;
+    const isPm = m[3].toLowerCase() === 'pm';
+    return { hours: (hour % 12) + (isPm ? 12 : 0), minutes };
+  }),
+  matcher(`${TIME_PREFIX}([01]?\\d|2[0-3]):([0-5]\\d)`, (m) => ({
+    hours: Number(m[1]),
+    minutes: Number(m[2]),
+  })),
+  matcher(`${TIME_PREFIX}(noon|midnight)`, (m) => ({
+    hours: m[1].toLowerCase() === 'noon' ? 12 : 0,
+    minutes: 0,
+  })),
+];
+
+const PRIORITY_MATCHER = matcher<Priority>('!(high|medium|med|low|none)|(!{1,3})', (m) =>
+  m[1] ? PRIORITY_WORDS[m[1].toLowerCase()] : PRIORITY_BANGS[m[2].length - 1]
+);
+
+const TAG_MATCHER = matcher<string>('#([\\p{L}\\p{N}_\\-/]{1,50})', (m) => m[1]);
+
+const LIST_MATCHER = matcher<string>('\\^(?:"([^"]+)"|([\\p{L}\\p{N}_\\-]+))', (m) =>
+  (m[1] ?? m[2]).trim()
+);
+
+const ESTIMATE_MATCHER = matcher<number>('~(\\d+[dhm]?(?:\\d+[dhm])*)', (m) => {
+  try {
+    const minutes = parseDuration(m[1]);
+    return minutes > 0 ? minutes : null;
+  } catch {
+    return null;
+  }
+});
+
+/**
+ * Parse quick add input into task fields.
+ *
+ * Each kind of token is recognized once (tags may repeat); later duplicates
+ * stay in the title. Recurrence is matched before dates so "every monday"
+ * is not read as a one-off Monday.
+ *
+ * @param input - Raw input text
+ * @param options - Parser options
+ * @returns Parsed fields and recognized tokens
+ */
+export function parseQuickAdd(input: string, options: QuickAddOptions = {}): QuickAddResult {
+  const today = startOfDay(options.now ?? new Date());
+  const tokens: QuickAddToken[] = [];
+
+  const overlaps = (start: number, end: number) =>
+    tokens.some((t) => start < t.end && end > t.start);
+
+  // Claim the first non-overlapping match of any matcher, in matcher order
+  const claim = <T>(type: QuickAddTokenType, matchers: Matcher<T>[]): T | null => {
+    for (const { pattern, handle } of matchers) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(input)) !== null) {
+        const start = match.index;
+        const end = start + match[0].length;
+        if (overlaps(start, end)) continue;
+
+        const value = handle(match, today);
+        if (value !== null) {
+          tokens.push({ type, text: match[0], start, end });
+          return value;
+        }
+      }
+    }
+    return null;
+  };
+
+  const recurrenceRule = claim('recurrence', RECURRENCE_MATCHERS);
+  const date = claim('date', DATE_MATCHERS);
+  const time = claim('time', TIME_MATCHERS);
+  const priority = claim('priority', [PRIORITY_MATCHER]);
+  const listName = claim('list', [LIST_MATCHER]);
+  const estimatedTime = claim('estimate', [ESTIMATE_MATCHER]);
+
+  const tags: string[] = [];
+  let tag: string | null;
+  while ((tag = claim('tag', [TAG_MATCHER])) !== null) {
+    if (!tags.some((t) => t.toLowerCase() === tag?.toLowerCase())) {
+      tags.push(tag);
+    }
+  }
+
+  let dueDate: Date | null = null;
+  if (date || time || recurrenceRule) {
+    dueDate = new Date(date ?? today);
+    if (time) {
+      dueDate.setHours(time.hours, time.minutes, 0, 0);
+    }
+    // Without an explicit date, a recurring task starts at its first occurrence
+    if (!date && recurrenceRule) {
+      dueDate = getOccurrences(recurrenceRule, dueDate, { limit: 1 })[0] ?? dueDate;
+    }
+  }
+
+  tokens.sort((a, b) => a.start - b.start);
+
+  // Remove tokens from the title, keeping the raw input if nothing else remains
+  let title = '';
+  let cursor = 0;
+  for (const token of tokens) {
+    title += input.slice(cursor, token.start);
+    cursor = token.end;
+  }
+  title = (title + input.slice(cursor)).replace(/\s+/g, ' ').trim();
+
+  return {
+    title: title || input.trim(),
+    dueDate,
+    hasTime: time !== null,
+    priority,
+    tags,
+    listName,
+    estimatedTime,
+    recurrenceRule,
+    tokens,
+  };
+}
+
+/**
+ * Build the create task payload for parsed quick add input.
+ *
+ * The list is resolved by case-insensitive title; an unknown list falls back
+ * to the default list. Tags are sent by name and created on demand.
+ *
+ * @param result - Parsed quick add result
+ * @param lists - Lists available for "^List" resolution
+ * @returns Create task input
+ */
+export function buildQuickAddInput(
+  result: QuickAddResult,
+  lists: Array<{ id: string; title: string }> = []
+): CreateTaskInput {
+  const input: CreateTaskInput = { title: result.title };
+
+  if (result.dueDate) {
+    input.dueDate = result.dueDate;
+  }
+  if (result.priority) {
+    input.priority = result.priority;
+  }
+  if (result.estimatedTime !== null) {
+    input.estimatedTime = result.estimatedTime;
+  }
+  if (result.recurrenceRule) {
+    input.recurrenceRule = result.recurrenceRule;
+  }
+  if (result.tags.length > 0) {
+    input.tagNames = result.tags;
+  }
+  if (result.listName) {
+    const name = result.listName.toLowerCase();
+    const list = lists.find((l) => l.title.toLowerCase() === name);
+    if (list) {
+      input.listId = list.id;
+    }
+  }
+
+  return input;
+}
@@ -136,6 +136,16 @@ describe('Task Schemas', () => {
       const result = UpdateTaskSchema.safeParse({ title: '' });
       expect(result.success).toBe(false);
     });
+
+    it('should accept a valid recurrence rule', () => {
+      const result = UpdateTaskSchema.safeParse({ recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,FR' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an invalid recurrence rule', () => {
+      const result = UpdateTaskSchema.safeParse({ recurrenceRule: 'every monday' });
+      expect(result.success).toBe(false);
+    });
   });
 
   describe('TaskQuerySchema', () => {
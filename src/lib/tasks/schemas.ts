@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { isValidRecurrenceRule } from '@/lib/recurrence';
 
 /**
  * Task status enum values from Prisma schema.
@@ -65,6 +66,19 @@ export const TimezoneSchema = z.string().refine(
   }
 );
 
+/**
+ * RFC 5545 recurrence rule schema (e.g., "FREQ=WEEKLY;BYDAY=MO,WE,FR").
+ */
+export const RecurrenceRuleSchema = z.string().max(500).refine(isValidRecurrenceRule, {
+  message: 'Invalid recurrence rule',
+});
+
+/**
+ * Scope of an edit to a recurring task: only this occurrence, this and all
+ * following occurrences, or the whole series.
+ */
+export const RecurrenceEditScopeEnum = z.enum(['this', 'following', 'all']);
+
 /**
  * Tag connection schema for creating tasks with tags.
  */
@@ -98,10 +112,12 @@ export const CreateTaskSchema = z.object({
   startTime: TimeStringSchema.optional(),
   estimatedTime: z.union([z.number().int().min(0), DurationStringSchema]).optional(),
   timezone: TimezoneSchema.optional(),
+  recurrenceRule: RecurrenceRuleSchema.optional(),
   listId: z.string().cuid().optional(),
   parentId: z.string().cuid().optional(),
-  sortOrder: z.number().int().optional(),
+  sortOrder: z.number().optional(),
   tags: z.array(TaskTagSchema).optional(),
+  tagNames: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
 });
 
 /**
@@ -127,13 +143,62 @@ export const UpdateTaskSchema = z.object({
     .optional()
     .nullable(),
   timezone: TimezoneSchema.optional().nullable(),
-  recurrenceRule: z.string().max(500).optional().nullable(),
+  recurrenceRule: RecurrenceRuleSchema.optional().nullable(),
+  scope: RecurrenceEditScopeEnum.optional(),
+  // Complete the task even if tasks blocking it are still open
+  force: z.boolean().optional(),
   listId: z.string().cuid().optional().nullable(),
   parentId: z.string().cuid().optional().nullable(),
-  sortOrder: z.number().int().optional(),
+  sortOrder: z.number().optional(),
   tags: z.array(TaskTagSchema).optional(),
 });
 
+/**
+ * Schema for adding a dependency to a task.
+ */
+export const AddTaskDependencySchema = z.object({
+  blockerId: z.string().cuid(),
+});
+
+/**
+ * Schema for creating a checklist item.
+ */
+export const CreateChecklistItemSchema = z.object({
+  text: z
+    .string()
+    .trim()
+    .min(1, 'Text is required')
+    .max(500, 'Text must be at most 500 characters'),
+  checked: z.boolean().optional(),
+});
+
+/**
+ * Schema for updating a checklist item.
+ */
+export const UpdateChecklistItemSchema = z.object({
+  text: z.string().trim().min(1, 'Text is required').max(500).optional(),
+  checked: z.boolean().optional(),
+  sortOrder: z.number().min(0).optional(),
+});
+
+/**
+ * Schema for reordering a checklist.
+ */
+export const ReorderChecklistItemsSchema = z.object({
+  itemIds: z.array(z.string().cuid()).min(1).max(200),
+});
+
+/**
+ * Schema for adding a comment to a task.
+ */
+export const CreateTaskCommentSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Comment cannot be empty')
+    .max(10000, 'Comment must be at most 10000 characters'),
+});
+
 /**
  * Schema for task query parameters (filtering and sorting).
  */
@@ -163,14 +228,28 @@ export const TaskQuerySchema = z.object({
   timed: z.coerce.boolean().optional(),
   // Subtasks filter
   includeSubtasks: z.coerce.boolean().optional(),
+  // Exclude deferred tasks (start date in the future)
+  available: z
+    .enum(['true', 'false'])
+    .transform((val) => val === 'true')
+    .optional(),
   // Search query
   search: z.string().max(200).optional(),
+  // Filter query language expression
+  filter: z.string().max(1000).optional(),
   // Sorting
   sortBy: SortByEnum.optional(),
   sortOrder: SortOrderEnum.optional(),
   // Pagination
   limit: z.coerce.number().int().min(1).max(100).optional(),
   offset: z.coerce.number().int().min(0).optional(),
+  // Opaque cursor from a previous page (replaces offset)
+  cursor: z.string().max(1000).optional(),
+  // Count all matching tasks (skip for later pages)
+  includeTotal: z
+    .enum(['true', 'false'])
+    .transform((val) => val === 'true')
+    .optional(),
 });
 
 /**
@@ -185,6 +264,18 @@ export const BatchUpdateTaskSchema = z.object({
     dueDate: z.coerce.date().optional().nullable(),
     dueTime: TimeStringSchema.optional(),
   }),
+  // Complete the tasks even if tasks blocking them are still open
+  force: z.boolean().optional(),
+});
+
+/**
+ * Schema for duplicating a task.
+ */
+export const DuplicateTaskSchema = z.object({
+  listId: z.string().cuid().optional(),
+  // New due date of the copy; subtasks and reminders move along with it
+  dueDate: z.coerce.date().optional().nullable(),
+  resetStatus: z.boolean().optional(),
 });
 
 /**
@@ -236,8 +327,15 @@ export const CalendarEventQuerySchema = z.object({
  */
 export type CreateTaskInput = z.infer<typeof CreateTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof UpdateTaskSchema>;
+export type RecurrenceEditScope = z.infer<typeof RecurrenceEditScopeEnum>;
 export type TaskQueryInput = z.infer<typeof TaskQuerySchema>;
+export type AddTaskDependencyInput = z.infer<typeof AddTaskDependencySchema>;
+export type CreateChecklistItemInput = z.infer<typeof CreateChecklistItemSchema>;
+export type UpdateChecklistItemInput = z.infer<typeof UpdateChecklistItemSchema>;
+export type ReorderChecklistItemsInput = z.infer<typeof ReorderChecklistItemsSchema>;
+export type CreateTaskCommentInput = z.infer<typeof CreateTaskCommentSchema>;
 export type BatchUpdateTaskInput = z.infer<typeof BatchUpdateTaskSchema>;
+export type DuplicateTaskInput = z.infer<typeof DuplicateTaskSchema>;
 export type BatchDeleteTaskInput = z.infer<typeof BatchDeleteTaskSchema>;
 export type CompleteTaskInput = z.infer<typeof CompleteTaskSchema>;
 export type RescheduleTaskInput = z.infer<typeof RescheduleTaskSchema>;
@@ -0,0 +1,238 @@
+/**
+ * Recurring Series Editing Tests
+ *
+ * Tests for scoped updates of recurring tasks.
+ */
+
+import { TaskStatus, Priority } from '@prisma/client';
+import { db } from '@/lib/db';
+import { parseRecurrenceRule } from '@/lib/recurrence';
+import { updateRecurringTask } from './series';
+import { updateTask, getTaskById } from './service';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    task: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('./service', () => ({
+  updateTask: jest.fn(),
+  getTaskById: jest.fn(),
+}));
+
+describe('Recurring Series Editing', () => {
+  const userId = 'user-123';
+
+  const baseTask = {
+    description: null,
+    status: TaskStatus.TODO,
+    priority: Priority.NONE,
+    startDate: null,
+    completedAt: null,
+    estimatedTime: null,
+    spentTime: null,
+    recurrenceRule: 'FREQ=WEEKLY;COUNT=5',
+    recurrenceId: null,
+    recurrenceDate: null,
+    sortOrder: 0,
+    createdAt: new Date(2025, 5, 1),
+    updatedAt: new Date(2025, 5, 1),
+    userId,
+    listId: 'list-123',
+    parentId: null,
+    goalId: null,
+  };
+
+  // First occurrence (completed) and the open second occurrence
+  const master = {
+    ...baseTask,
+    id: 'task-1',
+    title: 'Weekly review',
+    status: TaskStatus.DONE,
+    dueDate: new Date(2025, 5, 2, 9, 0),
+  };
+  const occurrence = {
+    ...baseTask,
+    id: 'task-2',
+    title: 'Weekly review',
+    dueDate: new Date(2025, 5, 9, 9, 0),
+    recurrenceId: 'task-1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.task.findMany as jest.Mock).mockResolvedValue([master, occurrence]);
+    (updateTask as jest.Mock).mockResolvedValue({ id: 'task-2' });
+    (getTaskById as jest.Mock).mockResolvedValue({ id: 'task-2' });
+  });
+
+  it('should update non-recurring tasks normally', async () => {
+    (db.task.findFirst as jest.Mock).mockResolvedValue({
+      ...occurrence,
+      recurrenceRule: null,
+      recurrenceId: null,
+    });
+
+    await updateRecurringTask('task-2', userId, { title: 'Renamed' }, 'all');
+
+    expect(updateTask).toHaveBeenCalledTimes(1);
+    expect(updateTask).toHaveBeenCalledWith('task-2', userId, { title: 'Renamed' });
+  });
+
+  it('should return null when the task is not found', async () => {
+    (db.task.findFirst as jest.Mock).mockResolvedValue(null);
+
+    const result = await updateRecurringTask('missing', userId, { title: 'x' }, 'this');
+
+    expect(result).toBeNull();
+    expect(updateTask).not.toHaveBeenCalled();
+  });
+
+  describe('scope: this', () => {
+    it('should record the original slot when rescheduling an occurrence', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue(occurrence);
+      const moved = new Date(2025, 5, 10, 14, 0);
+
+      await updateRecurringTask('task-2', userId, { dueDate: moved }, 'this');
+
+      expect(updateTask).toHaveBeenCalledWith('task-2', userId, {
+        dueDate: moved,
+        recurrenceDate: occurrence.dueDate,
+      });
+    });
+
+    it('should keep the original slot of an occurrence rescheduled again', async () => {
+      const slot = new Date(2025, 5, 9, 9, 0);
+      (db.task.findFirst as jest.Mock).mockResolvedValue({
+        ...occurrence,
+        dueDate: new Date(2025, 5, 10, 14, 0),
+        recurrenceDate: slot,
+      });
+      const moved = new Date(2025, 5, 11, 14, 0);
+
+      await updateRecurringTask('task-2', userId, { dueDate: moved }, 'this');
+
+      expect(updateTask).toHaveBeenCalledWith('task-2', userId, { dueDate: moved });
+    });
+
+    it('should not record an exception when the date is unchanged', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue(occurrence);
+      const data = { title: 'Renamed', dueDate: new Date(occurrence.dueDate) };
+
+      await updateRecurringTask('task-2', userId, data, 'this');
+
+      expect(updateTask).toHaveBeenCalledWith('task-2', userId, data);
+    });
+
+    it('should reject recurrence rule changes', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue(occurrence);
+
+      await expect(
+        updateRecurringTask('task-2', userId, { recurrenceRule: 'FREQ=DAILY' }, 'this')
+      ).rejects.toThrow('Recurrence rule can only be changed for following or all occurrences');
+    });
+  });
+
+  describe('scope: following', () => {
+    it('should end the old series and start a new one at the occurrence', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue(occurrence);
+
+      await updateRecurringTask('task-2', userId, { title: 'Planning' }, 'following');
+
+      const [masterCall, occurrenceCall] = (updateTask as jest.Mock).mock.calls;
+      expect(masterCall[0]).toBe('task-1');
+      const ended = parseRecurrenceRule(masterCall[2].recurrenceRule);
+      expect(ended.count).toBeUndefined();
+      expect(ended.until).toEqual(new Date(2025, 5, 9, 8, 59, 59));
+
+      expect(occurrenceCall).toEqual([
+        'task-2',
+        userId,
+        { title: 'Planning', recurrenceRule: 'FREQ=WEEKLY;COUNT=4', recurrenceId: null },
+      ]);
+    });
+
+    it('should start the new series at the new date when rescheduling', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({
+        ...occurrence,
+        recurrenceDate: new Date(2025, 5, 9, 9, 0),
+      });
+      const moved = new Date(2025, 5, 10, 9, 0);
+
+      await updateRecurringTask('task-2', userId, { dueDate: moved }, 'following');
+
+      expect(updateTask).toHaveBeenLastCalledWith('task-2', userId, {
+        dueDate: moved,
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=4',
+        recurrenceId: null,
+        recurrenceDate: null,
+      });
+    });
+
+    it('should treat the first occurrence as the whole series', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({ ...master, status: TaskStatus.TODO });
+      (db.task.findMany as jest.Mock).mockResolvedValue([{ ...master, status: TaskStatus.TODO }]);
+
+      await updateRecurringTask('task-1', userId, { recurrenceRule: 'FREQ=DAILY' }, 'following');
+
+      expect(updateTask).toHaveBeenCalledTimes(1);
+      expect(updateTask).toHaveBeenCalledWith('task-1', userId, { recurrenceRule: 'FREQ=DAILY' });
+    });
+  });
+
+  describe('scope: all', () => {
+    it('should move the series start along with the occurrence', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue(occurrence);
+      const moved = new Date(2025, 5, 9, 10, 30);
+
+      await updateRecurringTask(
+        'task-2',
+        userId,
+        { dueDate: moved, recurrenceRule: 'FREQ=WEEKLY;COUNT=6' },
+        'all'
+      );
+
+      expect(updateTask).toHaveBeenCalledWith('task-1', userId, {
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=6',
+        dueDate: new Date(2025, 5, 2, 10, 30),
+        startDate: undefined,
+      });
+      expect(updateTask).toHaveBeenLastCalledWith('task-2', userId, {
+        dueDate: moved,
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=6',
+      });
+    });
+
+    it('should apply series fields to other open occurrences only', async () => {
+      const overdue = {
+        ...occurrence,
+        id: 'task-0',
+        dueDate: new Date(2025, 5, 2, 9, 0),
+      };
+      (db.task.findFirst as jest.Mock).mockResolvedValue(occurrence);
+      (db.task.findMany as jest.Mock).mockResolvedValue([master, overdue, occurrence]);
+
+      await updateRecurringTask(
+        'task-2',
+        userId,
+        { title: 'Planning', status: TaskStatus.DONE },
+        'all'
+      );
+
+      expect(updateTask).toHaveBeenCalledWith('task-0', userId, {
+        title: 'Planning',
+        dueDate: undefined,
+        startDate: undefined,
+        recurrenceDate: undefined,
+      });
+      expect(updateTask).toHaveBeenLastCalledWith('task-2', userId, {
+        title: 'Planning',
+        status: TaskStatus.DONE,
+      });
+    });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Recurring Series Editing
+ *
+ * Applies an update to a recurring task with a calendar-style scope:
+ * - this: only this occurrence; rescheduling it records an exception so the
+ *   series keeps its original slots
+ * - following: splits the series, ending the old rule with UNTIL and starting
+ *   a new series at this occurrence
+ * - all: rewrites the rule and open occurrences of the whole series
+ *
+ * Only one open occurrence of a series is usually materialized at a time;
+ * later ones are generated from its rule, so rewriting the open occurrences
+ * also rewrites the un-materialized ones.
+ */
+
+import { db } from '@/lib/db';
+import type { Task } from '@prisma/client';
+import { formatRecurrenceRule, getOccurrences, parseRecurrenceRule } from '@/lib/recurrence';
+import { getTaskById, updateTask } from './service';
+import type { RecurrenceEditScope } from './schemas';
+import type { TaskDto } from './types';
+
+type TaskUpdateData = Parameters<typeof updateTask>[2];
+
+/**
+ * Slot of an occurrence in its series: the original date for rescheduled
+ * occurrences, otherwise its due or start date.
+ */
+function getSlot(task: Task): Date | null {
+  return task.recurrenceDate ?? task.dueDate ?? task.startDate;
+}
+
+/**
+ * Strip per-occurrence fields from an update so it can be applied series-wide.
+ */
+function toSeriesUpdate(data: TaskUpdateData): TaskUpdateData {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { status, completedAt, spentTime, sortOrder, dueDate, startDate, ...update } = data;
+  return update;
+}
+
+/**
+ * Move a date by the same amount the edited task's date moved.
+ */
+function shiftDate(
+  value: Date | null,
+  before: Date | null,
+  after: Date | null | undefined
+): Date | null | undefined {
+  if (after === undefined) return undefined;
+  if (after === null) return null;
+  if (!value || !before) return undefined;
+  return new Date(value.getTime() + (after.getTime() - before.getTime()));
+}
+
+/**
+ * Shift the dates of another occurrence to follow the edited task.
+ */
+function shiftOccurrence(member: Task, edited: Task, data: TaskUpdateData): TaskUpdateData {
+  const anchorBefore = edited.dueDate ?? edited.startDate;
+  const anchorAfter = edited.dueDate ? data.dueDate : data.startDate;
+
+  return {
+    dueDate: shiftDate(member.dueDate, edited.dueDate, data.dueDate),
+    startDate: shiftDate(member.startDate, edited.startDate, data.startDate),
+    recurrenceDate: shiftDate(member.recurrenceDate, anchorBefore, anchorAfter),
+  };
+}
+
+/**
+ * Whether an update moves the task's due or start date.
+ */
+function isRescheduled(task: Task, data: TaskUpdateData): boolean {
+  const changed = (before: Date | null, after: Date | null | undefined) =>
+    after !== undefined && after?.getTime() !== before?.getTime();
+  return changed(task.dueDate, data.dueDate) || changed(task.startDate, data.startDate);
+}
+
+/**
+ * Whether an occurrence is still open and should follow series-wide edits.
+ */
+function isOpen(task: Task): boolean {
+  return task.status !== 'DONE' && task.status !== 'CANCELLED';
+}
+
+/**
+ * Update a task, applying the change to its recurring series according to scope.
+ *
+ * Tasks that aren't recurring are updated normally regardless of scope.
+ *
+ * @param taskId - Task ID to update
+ * @param userId - User ID for authorization
+ * @param data - Update data
+ * @param scope - Which occurrences of the series the update applies to
+ * @returns Updated task or null if not found
+ * @throws Error if the recurrence rule is changed for a single occurrence
+ */
+export async function updateRecurringTask(
+  taskId: string,
+  userId: string,
+  data: TaskUpdateData,
+  scope: RecurrenceEditScope
+): Promise<TaskDto | null> {
+  const task = await db.task.findFirst({ where: { id: taskId, userId, deletedAt: null } });
+  if (!task) {
+    return null;
+  }
+
+  const slot = getSlot(task);
+  if (!task.recurrenceRule || !slot) {
+    return updateTask(taskId, userId, data);
+  }
+
+  const seriesId = task.recurrenceId ?? task.id;
+  const effectiveScope = scope === 'following' && task.id === seriesId ? 'all' : scope;
+
+  switch (effectiveScope) {
+    case 'this':
+      return updateOccurrence(task, userId, data);
+    case 'following':
+      return splitSeries(task, userId, data, seriesId, slot);
+    case 'all':
+      return updateSeries(task, userId, data, seriesId);
+  }
+}
+
+/**
+ * Update a single occurrence, recording its original slot when it is rescheduled.
+ */
+async function updateOccurrence(
+  task: Task,
+  userId: string,
+  data: TaskUpdateData
+): Promise<TaskDto | null> {
+  if (data.recurrenceRule !== undefined) {
+    throw new Error('Recurrence rule can only be changed for following or all occurrences');
+  }
+
+  if (isRescheduled(task, data) && !task.recurrenceDate) {
+    return updateTask(task.id, userId, {
+      ...data,
+      recurrenceDate: task.dueDate ?? task.startDate,
+    });
+  }
+
+  return updateTask(task.id, userId, data);
+}
+
+/**
+ * Apply an update to the whole series.
+ *
+ * Open occurrences receive the change; completed ones are history and keep
+ * their values, except the first task, whose rule and dates define the series.
+ */
+async function updateSeries(
+  task: Task,
+  userId: string,
+  data: TaskUpdateData,
+  seriesId: string
+): Promise<TaskDto | null> {
+  const members = await db.task.findMany({
+    where: { userId, deletedAt: null, OR: [{ id: seriesId }, { recurrenceId: seriesId }] },
+  });
+  const seriesUpdate = toSeriesUpdate(data);
+
+  for (const member of members) {
+    if (member.id === task.id) continue;
+
+    const shifted = shiftOccurrence(member, task, data);
+    if (isOpen(member)) {
+      await updateTask(member.id, userId, { ...seriesUpdate, ...shifted });
+    } else if (member.id === seriesId) {
+      await updateTask(member.id, userId, {
+        recurrenceRule: data.recurrenceRule,
+        dueDate: shifted.dueDate,
+        startDate: shifted.startDate,
+      });
+    }
+  }
+
+  return updateTask(task.id, userId, {
+    ...data,
+    ...(task.recurrenceDate && {
+      recurrenceDate: shiftOccurrence(task, task, data).recurrenceDate,
+    }),
+  });
+}
+
+/**
+ * Split the series at an occurrence.
+ *
+ * The old series ends just before the occurrence's slot. The occurrence becomes
+ * the first task of a new series that takes the update, and later occurrences
+ * move to the new series. A COUNT limit is divided between the two series.
+ */
+async function splitSeries(
+  task: Task,
+  userId: string,
+  data: TaskUpdateData,
+  seriesId: string,
+  slot: Date
+): Promise<TaskDto | null> {
+  const members = await db.task.findMany({
+    where: { userId, deletedAt: null, OR: [{ id: seriesId }, { recurrenceId: seriesId }] },
+  });
+  const master = members.find((m) => m.id === seriesId);
+  const seriesStart = (master && getSlot(master)) ?? slot;
+
+  const rule = parseRecurrenceRule(task.recurrenceRule as string);
+  const endedRule = formatRecurrenceRule({
+    ...rule,
+    count: undefined,
+    until: new Date(slot.getTime() - 1000),
+  });
+
+  let nextRule = data.recurrenceRule;
+  if (nextRule === undefined) {
+    const elapsed = rule.count ? getOccurrences(rule, seriesStart, { before: slot }).length : 0;
+    nextRule = formatRecurrenceRule({
+      ...rule,
+      count: rule.count ? Math.max(rule.count - elapsed, 1) : undefined,
+    });
+  }
+
+  const seriesUpdate = toSeriesUpdate(data);
+
+  for (const member of members) {
+    if (member.id === task.id) continue;
+
+    const memberSlot = getSlot(member);
+    if (memberSlot && memberSlot < slot) {
+      if (member.recurrenceRule) {
+        await updateTask(member.id, userId, { recurrenceRule: endedRule });
+      }
+    } else if (isOpen(member)) {
+      await updateTask(member.id, userId, {
+        ...seriesUpdate,
+        ...shiftOccurrence(member, task, data),
+        recurrenceRule: nextRule,
+        recurrenceId: task.id,
+      });
+    } else {
+      await updateTask(member.id, userId, { recurrenceId: task.id });
+    }
+  }
+
+  // Rescheduling the new first task also moves the start of the new series
+  await updateTask(task.id, userId, {
+    ...data,
+    recurrenceRule: nextRule,
+    recurrenceId: null,
+    ...(isRescheduled(task, data) && { recurrenceDate: null }),
+  });
+
+  return getTaskById(task.id, userId);
+}
@@ -14,8 +14,10 @@ import {
   batchUpdateTasks,
   batchDeleteTasks,
   toTaskDto,
+  getAvailableTaskWhere,
 } from './service';
 import { db } from '@/lib/db';
+import { logger } from '@/lib/logger';
 import { TaskStatus, Priority } from '@prisma/client';
 
 // Mock the database
@@ -29,6 +31,10 @@ type MockModel = {
   deleteMany: jest.Mock;
 };
 
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
 jest.mock('@/lib/db', () => {
   const createMockModel = (): MockModel => ({
     findMany: jest.fn(),
@@ -47,6 +53,21 @@ jest.mock('@/lib/db', () => {
         findFirst: jest.fn(),
         create: jest.fn(),
       },
+      tag: {
+        findMany: jest.fn(),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+      },
+      taskActivity: {
+        createMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      userEvent: {
+        create: jest.fn(),
+      },
+      reminder: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+      },
     },
   };
 });
@@ -69,9 +90,12 @@ describe('Task Service', () => {
     spentTime: null,
     recurrenceRule: null,
     recurrenceId: null,
+    recurrenceDate: null,
     sortOrder: 0,
     createdAt: new Date('2025-01-01'),
     updatedAt: new Date('2025-01-01'),
+    deletedAt: null,
+    archivedAt: null,
     listId: mockListId,
     parentId: null,
     userId: mockUserId,
@@ -171,6 +195,8 @@ describe('Task Service', () => {
       expect(db.task.count).toHaveBeenCalledWith({
         where: {
           userId: mockUserId,
+          deletedAt: null,
+          archivedAt: null,
           status: TaskStatus.TODO,
         },
       });
@@ -200,6 +226,16 @@ describe('Task Service', () => {
     });
   });
 
+  describe('getAvailableTaskWhere', () => {
+    it('should exclude tasks starting after today', () => {
+      const now = new Date(2025, 5, 11, 22, 30);
+
+      expect(getAvailableTaskWhere(now)).toEqual({
+        OR: [{ startDate: null }, { startDate: { lt: new Date(2025, 5, 12) } }],
+      });
+    });
+  });
+
   describe('getTaskById', () => {
     it('should fetch a single task by ID', async () => {
       (db.task.findFirst as jest.Mock).mockResolvedValue(mockTask);
@@ -208,7 +244,7 @@ describe('Task Service', () => {
 
       expect(result).toBeDefined();
       expect(db.task.findFirst).toHaveBeenCalledWith({
-        where: { id: 'task-123', userId: mockUserId },
+        where: { id: 'task-123', userId: mockUserId, deletedAt: null },
         include: expect.any(Object),
       });
     });
@@ -307,6 +343,25 @@ describe('Task Service', () => {
         create: [{ tag: { connect: { id: mockTagId } } }],
       });
     });
+
+    it('should resolve tag names, creating missing tags', async () => {
+      (db.task.create as jest.Mock).mockResolvedValue(mockTask);
+      (db.tag.findMany as jest.Mock).mockResolvedValue([{ id: mockTagId, name: 'Work' }]);
+      (db.tag.create as jest.Mock).mockResolvedValue({ id: 'tag-new', name: 'errands' });
+
+      await createTask(mockUserId, {
+        title: 'Task with tag names',
+        tagNames: ['work', 'errands'],
+      });
+
+      expect(db.tag.create).toHaveBeenCalledWith({
+        data: { userId: mockUserId, name: 'errands' },
+      });
+      const createCall = (db.task.create as jest.Mock).mock.calls[0][0];
+      expect(createCall.data.tags).toEqual({
+        create: [{ tag: { connect: { id: mockTagId } } }, { tag: { connect: { id: 'tag-new' } } }],
+      });
+    });
   });
 
   describe('updateTask', () => {
@@ -320,7 +375,7 @@ describe('Task Service', () => {
 
       expect(result).toBeDefined();
       expect(db.task.updateMany).toHaveBeenCalledWith({
-        where: { id: 'task-123', userId: mockUserId },
+        where: { id: 'task-123', userId: mockUserId, deletedAt: null },
         data: expect.objectContaining({
           title: 'Updated Title',
         }),
@@ -361,6 +416,130 @@ describe('Task Service', () => {
       expect(updateCall.data.completedAt).toBeNull();
     });
 
+    it('should reschedule relative reminders when the due date changes', async () => {
+      const dueDate = new Date('2099-01-10T09:00:00Z');
+      (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (db.task.findFirst as jest.Mock).mockResolvedValue(mockTask);
+      (db.reminder.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'reminder-1', taskId: 'task-123', relativeOffset: 30, status: 'SENT' },
+      ]);
+
+      await updateTask('task-123', mockUserId, { dueDate });
+
+      expect(db.reminder.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: mockUserId,
+            taskId: { in: ['task-123'] },
+            relativeOffset: { not: null },
+          },
+        })
+      );
+      expect(db.reminder.update).toHaveBeenCalledWith({
+        where: { id: 'reminder-1' },
+        data: expect.objectContaining({
+          fireAt: new Date('2099-01-10T08:30:00Z'),
+          status: 'PENDING',
+        }),
+      });
+    });
+
+    it('should leave reminders alone when the due date is unchanged', async () => {
+      (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (db.task.findFirst as jest.Mock).mockResolvedValue(mockTask);
+
+      await updateTask('task-123', mockUserId, { dueDate: new Date('2025-12-31') });
+
+      expect(db.reminder.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should create the next occurrence when completing a recurring task', async () => {
+      const recurringTask = {
+        ...mockTask,
+        recurrenceRule: 'FREQ=WEEKLY',
+        dueDate: new Date(2025, 0, 6, 9, 0),
+        tags: [{ tagId: mockTagId, tag: { name: 'Work', deletedAt: null } }],
+      };
+      (db.task.findFirst as jest.Mock)
+        .mockResolvedValueOnce(recurringTask) // current state
+        .mockResolvedValueOnce(null) // no existing occurrence
+        .mockResolvedValue(mockTask);
+      (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (db.task.create as jest.Mock).mockResolvedValue(mockTask);
+
+      await updateTask('task-123', mockUserId, { status: TaskStatus.DONE });
+
+      const createCall = (db.task.create as jest.Mock).mock.calls[0][0];
+      expect(createCall.data).toMatchObject({
+        title: 'Test Task',
+        dueDate: new Date(2025, 0, 13, 9, 0),
+        recurrenceRule: 'FREQ=WEEKLY',
+        recurrenceId: 'task-123',
+        tags: { create: [{ tag: { connect: { id: mockTagId } } }] },
+      });
+    });
+
+    it('should not create an occurrence when the series has ended', async () => {
+      const recurringTask = {
+        ...mockTask,
+        recurrenceRule: 'FREQ=DAILY;COUNT=1',
+        dueDate: new Date(2025, 0, 6, 9, 0),
+        tags: [],
+      };
+      (db.task.findFirst as jest.Mock)
+        .mockResolvedValueOnce(recurringTask)
+        .mockResolvedValue(mockTask);
+      (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      await updateTask('task-123', mockUserId, { status: TaskStatus.DONE });
+
+      expect(db.task.create).not.toHaveBeenCalled();
+    });
+
+    it('should continue from the original slot of a rescheduled occurrence', async () => {
+      // Monday occurrence moved back to the previous Saturday
+      const rescheduledTask = {
+        ...mockTask,
+        recurrenceRule: 'FREQ=WEEKLY',
+        dueDate: new Date(2025, 0, 4, 9, 0),
+        recurrenceDate: new Date(2025, 0, 6, 9, 0),
+        tags: [],
+      };
+      (db.task.findFirst as jest.Mock)
+        .mockResolvedValueOnce(rescheduledTask)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue(mockTask);
+      (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (db.task.create as jest.Mock).mockResolvedValue(mockTask);
+
+      await updateTask('task-123', mockUserId, { status: TaskStatus.DONE });
+
+      const createCall = (db.task.create as jest.Mock).mock.calls[0][0];
+      expect(createCall.data.dueDate).toEqual(new Date(2025, 0, 13, 9, 0));
+    });
+
+    it('should record changed fields in the activity log', async () => {
+      (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (db.task.findFirst as jest.Mock)
+        .mockResolvedValueOnce(mockTask) // current state
+        .mockResolvedValue({ ...mockTask, title: 'Updated Title' });
+
+      await updateTask('task-123', mockUserId, { title: 'Updated Title' });
+
+      expect(db.taskActivity.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            taskId: 'task-123',
+            userId: mockUserId,
+            type: 'UPDATE',
+            field: 'title',
+            oldValue: 'Test Task',
+            newValue: 'Updated Title',
+          },
+        ],
+      });
+    });
+
     it('should update tags when provided', async () => {
       (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
       (db.task.findFirst as jest.Mock).mockResolvedValue(mockTask);
@@ -371,30 +550,59 @@ describe('Task Service', () => {
 
       const updateCall = (db.task.updateMany as jest.Mock).mock.calls[0][0];
       expect(updateCall.data.tags).toEqual({
-        deleteMany: {},
+        deleteMany: { tagId: { notIn: [] } },
         create: [{ tag: { connect: { id: mockTagId } } }],
       });
     });
   });
 
   describe('deleteTask', () => {
-    it('should delete a task', async () => {
-      (db.task.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+    it('should move a task and its subtasks to the trash', async () => {
+      (db.task.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'task-123' }])
+        .mockResolvedValueOnce([{ id: 'subtask-1' }])
+        .mockResolvedValue([]);
+      (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
 
       const result = await deleteTask('task-123', mockUserId);
 
       expect(result).toBe(true);
-      expect(db.task.deleteMany).toHaveBeenCalledWith({
-        where: { id: 'task-123', userId: mockUserId },
+      expect(db.task.deleteMany).not.toHaveBeenCalled();
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['task-123', 'subtask-1'] }, userId: mockUserId },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(db.userEvent.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockUserId,
+          type: 'task.deleted',
+          data: JSON.stringify({ taskIds: ['task-123', 'subtask-1'] }),
+        },
       });
     });
 
+    it('should not fail the deletion when the event is not published', async () => {
+      (db.task.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'task-123' }])
+        .mockResolvedValue([]);
+      (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (db.userEvent.create as jest.Mock).mockRejectedValueOnce(new Error('Database is locked'));
+
+      expect(await deleteTask('task-123', mockUserId)).toBe(true);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Event not published',
+        { userId: mockUserId, type: 'task.deleted' },
+        expect.any(Error)
+      );
+    });
+
     it('should return false when task not found', async () => {
-      (db.task.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+      (db.task.findMany as jest.Mock).mockResolvedValue([]);
 
       const result = await deleteTask('non-existent', mockUserId);
 
       expect(result).toBe(false);
+      expect(db.task.updateMany).not.toHaveBeenCalled();
     });
   });
 
@@ -414,6 +622,7 @@ describe('Task Service', () => {
         where: {
           id: { in: ['task-123', 'task-456'] },
           userId: mockUserId,
+          deletedAt: null,
         },
         data: expect.objectContaining({
           status: TaskStatus.DONE,
@@ -433,25 +642,56 @@ describe('Task Service', () => {
       const updateCall = (db.task.updateMany as jest.Mock).mock.calls[0][0];
       expect(updateCall.data.completedAt).toBeInstanceOf(Date);
     });
+
+    it('should pause relative reminders when clearing due dates', async () => {
+      (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+      (db.task.findMany as jest.Mock).mockResolvedValue([
+        mockTask,
+        { ...mockTask, id: 'task-456', dueDate: null },
+      ]);
+      (db.reminder.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'reminder-1', taskId: 'task-123', relativeOffset: 30, status: 'PENDING' },
+      ]);
+
+      await batchUpdateTasks(mockUserId, ['task-123', 'task-456'], { dueDate: null });
+
+      const updateCall = (db.task.updateMany as jest.Mock).mock.calls[0][0];
+      expect(updateCall.data.dueDate).toBeNull();
+      expect(db.reminder.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ taskId: { in: ['task-123'] } }),
+        })
+      );
+      expect(db.reminder.update).toHaveBeenCalledWith({
+        where: { id: 'reminder-1' },
+        data: { status: 'PAUSED', snoozedUntil: null, nextAttemptAt: null },
+      });
+    });
   });
 
   describe('batchDeleteTasks', () => {
-    it('should delete multiple tasks', async () => {
-      (db.task.deleteMany as jest.Mock).mockResolvedValue({ count: 3 });
+    it('should move multiple tasks to the trash', async () => {
+      const ids = ['task-123', 'task-456', 'task-789'];
+      (db.task.findMany as jest.Mock)
+        .mockResolvedValueOnce(ids.map((id) => ({ id })))
+        .mockResolvedValue([]);
+      (db.task.updateMany as jest.Mock).mockResolvedValue({ count: 3 });
 
-      const result = await batchDeleteTasks(mockUserId, ['task-123', 'task-456', 'task-789']);
+      const result = await batchDeleteTasks(mockUserId, ids);
 
       expect(result).toBe(3);
-      expect(db.task.deleteMany).toHaveBeenCalledWith({
-        where: {
-          id: { in: ['task-123', 'task-456', 'task-789'] },
-          userId: mockUserId,
-        },
+      expect(db.task.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ids }, userId: mockUserId, deletedAt: null },
+        select: { id: true },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ids }, userId: mockUserId },
+        data: { deletedAt: expect.any(Date) },
       });
     });
 
     it('should return 0 when no tasks found', async () => {
-      (db.task.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+      (db.task.findMany as jest.Mock).mockResolvedValue([]);
 
       const result = await batchDeleteTasks(mockUserId, ['non-existent']);
 
@@ -6,9 +6,20 @@
  */
 
 import { db } from '@/lib/db';
-import { Prisma, TaskStatus, Priority } from '@prisma/client';
-import { parseDuration } from '@/lib/utils/date';
-import type { TaskDto, TaskListOptions, TaskWithTags, TaskWithFullRelations } from './types';
+import { Prisma, Task, TaskStatus, Priority } from '@prisma/client';
+import { addDays, parseDuration, startOfDay } from '@/lib/utils/date';
+import { getNextOccurrence } from '@/lib/recurrence';
+import { releaseTrashedTagName } from '@/lib/tags/service';
+import { publishEventSafely } from '@/lib/events/service';
+import { rescheduleRelativeReminders } from '@/lib/reminders/relative';
+import { diffTaskFields, recordTaskActivity } from './activity';
+import type {
+  ChecklistProgress,
+  TaskDto,
+  TaskListOptions,
+  TaskWithTags,
+  TaskWithFullRelations,
+} from './types';
 
 /**
  * Normalize duration input to minutes (number).
@@ -29,6 +40,31 @@ function normalizeDuration(value: number | string | null | undefined): number |
   }
 }
 
+/**
+ * Counts included with tasks: subtasks, and open blockers for the blocked state.
+ */
+const taskCountSelect = {
+  subtasks: { where: { deletedAt: null } },
+  blockedBy: {
+    where: {
+      blocker: { status: { in: [TaskStatus.TODO, TaskStatus.IN_PROGRESS] }, deletedAt: null },
+    },
+  },
+} satisfies Prisma.TaskCountOutputTypeSelect;
+
+// Checked states of checklist items, for checklist progress
+const checklistProgressSelect = { select: { checked: true } } as const;
+
+/**
+ * Summarize checklist items as checked and total counts.
+ */
+function toChecklistProgress(
+  items: Array<{ checked: boolean }> | undefined
+): ChecklistProgress | undefined {
+  if (!items) return undefined;
+  return { completed: items.filter((item) => item.checked).length, total: items.length };
+}
+
 /**
  * Extended task type with goal relation.
  */
@@ -40,6 +76,7 @@ type TaskWithGoal = TaskWithTags & {
     targetValue: number | null;
     currentValue: number;
     unit: string | null;
+    deletedAt: Date | null;
   } | null;
 };
 
@@ -47,11 +84,12 @@ type TaskWithGoal = TaskWithTags & {
  * Convert Prisma Task model with tags and goal to Task DTO.
  */
 function toTaskDtoWithGoal(task: TaskWithGoal): TaskDto {
+  // A goal in the trash is hidden until it is restored
+  const goal = task.goal && !task.goal.deletedAt ? task.goal : null;
+
   // Calculate progress for goal if present
   const goalProgress =
-    task.goal && task.goal.targetValue
-      ? Math.round((task.goal.currentValue / task.goal.targetValue) * 100)
-      : null;
+    goal && goal.targetValue ? Math.round((goal.currentValue / goal.targetValue) * 100) : null;
 
   return {
     id: task.id,
@@ -66,21 +104,23 @@ function toTaskDtoWithGoal(task: TaskWithGoal): TaskDto {
     spentTime: task.spentTime,
     recurrenceRule: task.recurrenceRule,
     recurrenceId: task.recurrenceId,
+    recurrenceDate: task.recurrenceDate,
     sortOrder: task.sortOrder,
     createdAt: task.createdAt,
     updatedAt: task.updatedAt,
+    archivedAt: task.archivedAt,
     listId: task.listId,
     parentId: task.parentId,
     goalId: task.goalId ?? null,
-    goal: task.goal
+    goal: goal
       ? {
-          id: task.goal.id,
-          title: task.goal.title,
-          status: task.goal.status,
+          id: goal.id,
+          title: goal.title,
+          status: goal.status,
           progress: goalProgress,
-          targetValue: task.goal.targetValue,
-          currentValue: task.goal.currentValue,
-          unit: task.goal.unit,
+          targetValue: goal.targetValue,
+          currentValue: goal.currentValue,
+          unit: goal.unit,
         }
       : null,
     tags: task.tags.map((t) => ({
@@ -88,7 +128,10 @@ function toTaskDtoWithGoal(task: TaskWithGoal): TaskDto {
       name: t.tag.name,
       color: t.tag.color,
     })),
-    _count: task._count ? { subtasks: task._count.subtasks } : undefined,
+    checklist: toChecklistProgress(task.checklistItems),
+    _count: task._count
+      ? { subtasks: task._count.subtasks, blockedBy: task._count.blockedBy }
+      : undefined,
   };
 }
 
@@ -109,9 +152,11 @@ export function toTaskDto(task: TaskWithFullRelations): TaskDto {
     spentTime: task.spentTime,
     recurrenceRule: task.recurrenceRule,
     recurrenceId: task.recurrenceId,
+    recurrenceDate: task.recurrenceDate,
     sortOrder: task.sortOrder,
     createdAt: task.createdAt,
     updatedAt: task.updatedAt,
+    archivedAt: task.archivedAt,
     listId: task.listId,
     parentId: task.parentId,
     goalId: task.goalId ?? null, // Phase 24: Include goalId
@@ -133,9 +178,11 @@ export function toTaskDto(task: TaskWithFullRelations): TaskDto {
       spentTime: subtask.spentTime,
       recurrenceRule: subtask.recurrenceRule,
       recurrenceId: subtask.recurrenceId,
+      recurrenceDate: subtask.recurrenceDate,
       sortOrder: subtask.sortOrder,
       createdAt: subtask.createdAt,
       updatedAt: subtask.updatedAt,
+      archivedAt: subtask.archivedAt,
       listId: subtask.listId,
       parentId: subtask.parentId,
       goalId: subtask.goalId ?? null, // Phase 24: Include goalId
@@ -145,7 +192,25 @@ export function toTaskDto(task: TaskWithFullRelations): TaskDto {
         color: t.tag.color,
       })),
     })),
-    _count: task._count ? { subtasks: task._count.subtasks } : undefined,
+    checklist: toChecklistProgress(task.checklistItems),
+    _count: task._count
+      ? { subtasks: task._count.subtasks, blockedBy: task._count.blockedBy }
+      : undefined,
+  };
+}
+
+/**
+ * Build a where clause matching available tasks.
+ *
+ * A task with a start date is deferred until that day: it becomes available
+ * at the start of its start day.
+ *
+ * @param now - Reference time (defaults to now)
+ * @returns Where clause excluding deferred tasks
+ */
+export function getAvailableTaskWhere(now: Date = new Date()): Prisma.TaskWhereInput {
+  return {
+    OR: [{ startDate: null }, { startDate: { lt: startOfDay(addDays(now, 1)) } }],
   };
 }
 
@@ -154,22 +219,24 @@ export function toTaskDto(task: TaskWithFullRelations): TaskDto {
  *
  * @param userId - User ID to scope tasks to
  * @param options - Query options (where, orderBy, pagination)
- * @returns List of tasks and total count
+ * @returns List of tasks and total count (null when `includeTotal` is false)
  */
 export async function getTasks(
   userId: string,
   options: TaskListOptions = {}
-): Promise<{ tasks: TaskDto[]; total: number }> {
-  const { where, orderBy, take, skip, includeSubtasks } = options;
+): Promise<{ tasks: TaskDto[]; total: number | null }> {
+  const { where, orderBy, take, skip, includeSubtasks, includeTotal = true } = options;
 
-  // Build where clause with user scoping
+  // Build where clause with user scoping; archived tasks are skipped unless asked for
   const baseWhere: Prisma.TaskWhereInput = {
     userId,
+    deletedAt: null,
+    archivedAt: null,
     ...where,
   };
 
   // Count total matching tasks
-  const total = await db.task.count({ where: baseWhere });
+  const total = includeTotal ? await db.task.count({ where: baseWhere }) : null;
 
   // Fetch tasks with relations
   const tasks = await db.task.findMany({
@@ -179,6 +246,7 @@ export async function getTasks(
     skip,
     include: {
       tags: {
+        where: { tag: { deletedAt: null } },
         include: {
           tag: {
             select: {
@@ -197,17 +265,19 @@ export async function getTasks(
           targetValue: true,
           currentValue: true,
           unit: true,
+          deletedAt: true,
         },
       },
       _count: {
-        select: {
-          subtasks: true,
-        },
+        select: taskCountSelect,
       },
+      checklistItems: checklistProgressSelect,
       subtasks: includeSubtasks
         ? {
+            where: { deletedAt: null },
             include: {
               tags: {
+                where: { tag: { deletedAt: null } },
                 include: {
                   tag: {
                     select: {
@@ -242,9 +312,11 @@ export async function getTaskById(taskId: string, userId: string): Promise<TaskD
     where: {
       id: taskId,
       userId,
+      deletedAt: null,
     },
     include: {
       tags: {
+        where: { tag: { deletedAt: null } },
         include: {
           tag: {
             select: {
@@ -263,6 +335,7 @@ export async function getTaskById(taskId: string, userId: string): Promise<TaskD
           targetValue: true,
           currentValue: true,
           unit: true,
+          deletedAt: true,
         },
       },
       list: {
@@ -279,8 +352,10 @@ export async function getTaskById(taskId: string, userId: string): Promise<TaskD
         },
       },
       subtasks: {
+        where: { deletedAt: null },
         include: {
           tags: {
+            where: { tag: { deletedAt: null } },
             include: {
               tag: {
                 select: {
@@ -294,16 +369,46 @@ export async function getTaskById(taskId: string, userId: string): Promise<TaskD
         },
       },
       _count: {
-        select: {
-          subtasks: true,
-        },
+        select: taskCountSelect,
       },
+      checklistItems: checklistProgressSelect,
     },
   });
 
   return task ? toTaskDto(task as TaskWithFullRelations) : null;
 }
 
+/**
+ * Resolve tag names to the user's tags, creating any that don't exist.
+ * Names are matched case-insensitively against existing tags.
+ *
+ * @param userId - User ID owning the tags
+ * @param names - Tag names
+ * @returns Tag references
+ */
+async function resolveTagNames(userId: string, names: string[]): Promise<Array<{ id: string }>> {
+  const existing = await db.tag.findMany({
+    where: { userId, deletedAt: null },
+    select: { id: true, name: true },
+  });
+  const byName = new Map(existing.map((tag) => [tag.name.toLowerCase(), tag.id]));
+
+  const resolved: Array<{ id: string }> = [];
+  for (const name of names) {
+    const key = name.toLowerCase();
+    let id = byName.get(key);
+    if (!id) {
+      await releaseTrashedTagName(userId, name);
+      const tag = await db.tag.create({ data: { userId, name } });
+      id = tag.id;
+      byName.set(key, id);
+    }
+    resolved.push({ id });
+  }
+
+  return resolved;
+}
+
 /**
  * Create a new task.
  *
@@ -324,11 +429,22 @@ export async function createTask(
     listId?: string;
     parentId?: string;
     goalId?: string | null;
+    recurrenceRule?: string | null;
+    recurrenceId?: string | null;
     sortOrder?: number;
     tags?: Array<{ id: string }>;
+    tagNames?: string[];
   }
 ): Promise<TaskDto> {
-  const { tags, ...taskData } = data;
+  const { tags: tagRefs, tagNames, ...taskData } = data;
+  const tags = [...(tagRefs ?? [])];
+  if (tagNames && tagNames.length > 0) {
+    for (const tag of await resolveTagNames(userId, tagNames)) {
+      if (!tags.some((t) => t.id === tag.id)) {
+        tags.push(tag);
+      }
+    }
+  }
 
   // If no listId provided, find or create user's default list
   let listId = data.listId;
@@ -385,6 +501,12 @@ export async function createTask(
   if (taskData.estimatedTime !== undefined) {
     createData.estimatedTime = normalizeDuration(taskData.estimatedTime);
   }
+  if (taskData.recurrenceRule !== undefined) {
+    createData.recurrenceRule = taskData.recurrenceRule;
+  }
+  if (taskData.recurrenceId !== undefined) {
+    createData.recurrenceId = taskData.recurrenceId;
+  }
   if (taskData.parentId) {
     createData.parent = { connect: { id: taskData.parentId } };
   }
@@ -394,7 +516,7 @@ export async function createTask(
   if (taskData.goalId !== undefined) {
     createData.goal = taskData.goalId ? { connect: { id: taskData.goalId } } : undefined;
   }
-  if (tags && tags.length > 0) {
+  if (tags.length > 0) {
     createData.tags = {
       create: tags.map((tag) => ({
         tag: { connect: { id: tag.id } },
@@ -407,6 +529,7 @@ export async function createTask(
     data: createData,
     include: {
       tags: {
+        where: { tag: { deletedAt: null } },
         include: {
           tag: {
             select: {
@@ -425,6 +548,7 @@ export async function createTask(
           targetValue: true,
           currentValue: true,
           unit: true,
+          deletedAt: true,
         },
       },
       list: {
@@ -441,13 +565,14 @@ export async function createTask(
         },
       },
       _count: {
-        select: {
-          subtasks: true,
-        },
+        select: taskCountSelect,
       },
+      checklistItems: checklistProgressSelect,
     },
   });
 
+  await publishEventSafely(userId, 'task.created', { taskIds: [task.id] });
+
   return toTaskDto(task as TaskWithFullRelations);
 }
 
@@ -473,6 +598,8 @@ export async function updateTask(
     estimatedTime?: number | string | null;
     spentTime?: number | string | null;
     recurrenceRule?: string | null;
+    recurrenceId?: string | null;
+    recurrenceDate?: Date | null;
     listId?: string | null;
     parentId?: string | null;
     goalId?: string | null;
@@ -482,6 +609,17 @@ export async function updateTask(
 ): Promise<TaskDto | null> {
   const { tags, ...taskData } = data;
 
+  // Load the current state for the activity log and so recurring tasks can roll forward
+  const previous = await db.task.findFirst({
+    where: { id: taskId, userId, deletedAt: null },
+    include: {
+      tags: { select: { tagId: true, tag: { select: { name: true, deletedAt: true } } } },
+    },
+  });
+  const trashedTagIds = (previous?.tags ?? [])
+    .filter(({ tag }) => tag.deletedAt)
+    .map(({ tagId }) => tagId);
+
   // Auto-set completedAt when status changes to DONE
   let completedAt = data.completedAt;
   if (data.status === 'DONE' && !completedAt) {
@@ -523,6 +661,12 @@ export async function updateTask(
   if (taskData.recurrenceRule !== undefined) {
     updateData.recurrenceRule = taskData.recurrenceRule;
   }
+  if (taskData.recurrenceId !== undefined) {
+    updateData.recurrenceId = taskData.recurrenceId;
+  }
+  if (taskData.recurrenceDate !== undefined) {
+    updateData.recurrenceDate = taskData.recurrenceDate;
+  }
   if (taskData.listId !== undefined) {
     updateData.list = taskData.listId ? { connect: { id: taskData.listId } } : undefined;
   }
@@ -539,7 +683,8 @@ export async function updateTask(
   // Handle tag updates by replacing all tags
   if (tags) {
     updateData.tags = {
-      deleteMany: {},
+      // Links to tags in the trash stay so the tags come back on restore
+      deleteMany: { tagId: { notIn: trashedTagIds } },
       create: tags.map((tag) => ({
         tag: { connect: { id: tag.id } },
       })),
@@ -551,6 +696,7 @@ export async function updateTask(
     where: {
       id: taskId,
       userId,
+      deletedAt: null,
     },
     data: updateData,
   });
@@ -559,26 +705,95 @@ export async function updateTask(
     return null;
   }
 
-  // Fetch and return updated task
-  return getTaskById(taskId, userId);
+  // Reminders set relative to the due date move with it
+  if (
+    previous &&
+    taskData.dueDate !== undefined &&
+    taskData.dueDate?.getTime() !== previous.dueDate?.getTime()
+  ) {
+    await rescheduleRelativeReminders(userId, [{ id: taskId, dueDate: taskData.dueDate }]);
+  }
+
+  // Spawn the next occurrence when a recurring task is completed
+  if (data.status === 'DONE' && previous && previous.status !== 'DONE' && previous.recurrenceRule) {
+    await createNextOccurrence(userId, previous);
+  }
+
+  // Fetch updated task
+  const updated = await getTaskById(taskId, userId);
+
+  if (previous && updated) {
+    const changes = diffTaskFields(
+      {
+        ...previous,
+        tags: tags
+          ? previous.tags.filter(({ tag }) => !tag.deletedAt).map(({ tag }) => tag.name)
+          : undefined,
+      },
+      { ...updated, tags: tags ? updated.tags.map(({ name }) => name) : undefined }
+    );
+    await recordTaskActivity(userId, [{ taskId, changes }]);
+  }
+
+  await publishEventSafely(userId, 'task.updated', { taskIds: [taskId] });
+
+  return updated;
 }
 
 /**
- * Delete a task.
+ * Move tasks matching a filter to the trash, together with their subtasks.
+ * Everything trashed in one go shares the same `deletedAt`, so it can be
+ * restored together.
+ *
+ * @param userId - User ID owning the tasks
+ * @param where - Filter for the tasks to trash
+ * @param deletedAt - Time of deletion
+ * @returns Number of matching tasks trashed, not counting their subtasks
+ */
+export async function trashTasks(
+  userId: string,
+  where: Prisma.TaskWhereInput,
+  deletedAt: Date = new Date()
+): Promise<number> {
+  const matched = await db.task.findMany({
+    where: { ...where, userId, deletedAt: null },
+    select: { id: true },
+  });
+
+  const ids = new Set(matched.map((task) => task.id));
+  let parentIds = [...ids];
+
+  while (parentIds.length > 0) {
+    const children = await db.task.findMany({
+      where: { userId, deletedAt: null, parentId: { in: parentIds } },
+      select: { id: true },
+    });
+    parentIds = children.map((child) => child.id).filter((id) => !ids.has(id));
+    parentIds.forEach((id) => ids.add(id));
+  }
+
+  if (ids.size > 0) {
+    await db.task.updateMany({
+      where: { id: { in: [...ids] }, userId },
+      data: { deletedAt },
+    });
+    await publishEventSafely(userId, 'task.deleted', { taskIds: [...ids] });
+  }
+
+  return matched.length;
+}
+
+/**
+ * Move a task and its subtasks to the trash.
  *
  * @param taskId - Task ID to delete
  * @param userId - User ID for authorization
  * @returns True if deleted, false if not found
  */
 export async function deleteTask(taskId: string, userId: string): Promise<boolean> {
-  const task = await db.task.deleteMany({
-    where: {
-      id: taskId,
-      userId,
-    },
-  });
+  const count = await trashTasks(userId, { id: taskId });
 
-  return task.count > 0;
+  return count > 0;
 }
 
 /**
@@ -596,6 +811,7 @@ export async function batchUpdateTasks(
     status?: string;
     priority?: string;
     listId?: string | null;
+    dueDate?: Date | null;
   }
 ): Promise<{ count: number; tasks: TaskDto[] }> {
   // Auto-set completedAt when status changes to DONE
@@ -618,26 +834,72 @@ export async function batchUpdateTasks(
   if (updates.listId !== undefined && updates.listId !== null) {
     updateData.listId = updates.listId;
   }
+  if (updates.dueDate !== undefined) {
+    updateData.dueDate = updates.dueDate;
+  }
   if (completedAt !== undefined) {
     updateData.completedAt = completedAt;
   }
 
+  // Current state for the activity log
+  const previousTasks = await db.task.findMany({
+    where: {
+      id: { in: taskIds },
+      userId,
+      deletedAt: null,
+    },
+    select: { id: true, status: true, priority: true, listId: true, dueDate: true },
+  });
+
+  // Recurring tasks that are about to be completed roll forward afterwards
+  const completingRecurring =
+    updates.status === 'DONE'
+      ? await db.task.findMany({
+          where: {
+            id: { in: taskIds },
+            userId,
+            deletedAt: null,
+            status: { not: 'DONE' },
+            recurrenceRule: { not: null },
+          },
+          include: { tags: { select: { tagId: true } } },
+        })
+      : [];
+
   const result = await db.task.updateMany({
     where: {
       id: { in: taskIds },
       userId,
+      deletedAt: null,
     },
     data: updateData,
   });
 
+  // Reminders set relative to the due date move with it
+  const { dueDate } = updates;
+  if (dueDate !== undefined) {
+    await rescheduleRelativeReminders(
+      userId,
+      previousTasks
+        .filter((task) => task.dueDate?.getTime() !== dueDate?.getTime())
+        .map((task) => ({ id: task.id, dueDate }))
+    );
+  }
+
+  for (const task of completingRecurring) {
+    await createNextOccurrence(userId, task);
+  }
+
   // Fetch updated tasks
   const tasks = await db.task.findMany({
     where: {
       id: { in: taskIds },
       userId,
+      deletedAt: null,
     },
     include: {
       tags: {
+        where: { tag: { deletedAt: null } },
         include: {
           tag: {
             select: {
@@ -656,43 +918,61 @@ export async function batchUpdateTasks(
           targetValue: true,
           currentValue: true,
           unit: true,
+          deletedAt: true,
         },
       },
       _count: {
-        select: {
-          subtasks: true,
-        },
+        select: taskCountSelect,
       },
+      checklistItems: checklistProgressSelect,
     },
   });
 
+  const updatedTasks = tasks.map(toTaskDtoWithGoal);
+
+  await recordTaskActivity(
+    userId,
+    previousTasks.flatMap((previous) => {
+      const updated = updatedTasks.find((task) => task.id === previous.id);
+      if (!updated) return [];
+
+      const { status, priority, listId, dueDate } = updated;
+      return [
+        {
+          taskId: previous.id,
+          changes: diffTaskFields(previous, { status, priority, listId, dueDate }),
+        },
+      ];
+    })
+  );
+
+  if (result.count > 0) {
+    await publishEventSafely(userId, 'task.updated', {
+      taskIds: updatedTasks.map((task) => task.id),
+    });
+  }
+
   return {
     count: result.count,
-    tasks: tasks.map(toTaskDtoWithGoal),
+    tasks: updatedTasks,
   };
 }
 
 /**
- * Batch delete multiple tasks.
+ * Batch move multiple tasks and their subtasks to the trash.
  *
  * @param userId - User ID for authorization
  * @param taskIds - Array of task IDs to delete
  * @returns Number of tasks deleted
  */
 export async function batchDeleteTasks(userId: string, taskIds: string[]): Promise<number> {
-  const result = await db.task.deleteMany({
-    where: {
-      id: { in: taskIds },
-      userId,
-    },
-  });
-
-  return result.count;
+  return trashTasks(userId, { id: { in: taskIds } });
 }
 
 /**
- * Reorder multiple tasks.
- * Used for drag-and-drop reordering.
+ * Set the ranks of multiple tasks, e.g. to restore them on undo.
+ * Ranks are fractional; moving a single task goes through `moveItem` in
+ * `@/lib/ordering`, which writes only that task.
  *
  * @param userId - User ID for authorization
  * @param updates - Array of { id, sortOrder } updates
@@ -708,6 +988,7 @@ export async function reorderTasks(
     where: {
       id: { in: taskIds },
       userId,
+      deletedAt: null,
     },
   });
 
@@ -722,6 +1003,7 @@ export async function reorderTasks(
         where: {
           id: update.id,
           userId,
+          deletedAt: null,
         },
         data: {
           sortOrder: update.sortOrder,
@@ -735,9 +1017,11 @@ export async function reorderTasks(
     where: {
       id: { in: taskIds },
       userId,
+      deletedAt: null,
     },
     include: {
       tags: {
+        where: { tag: { deletedAt: null } },
         include: {
           tag: {
             select: {
@@ -756,19 +1040,116 @@ export async function reorderTasks(
           targetValue: true,
           currentValue: true,
           unit: true,
+          deletedAt: true,
         },
       },
       _count: {
-        select: {
-          subtasks: true,
-        },
+        select: taskCountSelect,
       },
+      checklistItems: checklistProgressSelect,
     },
   });
 
+  await recordTaskActivity(
+    userId,
+    tasks.map((task) => {
+      const sortOrder = updates.find((update) => update.id === task.id)?.sortOrder;
+      return {
+        taskId: task.id,
+        changes: diffTaskFields({ sortOrder: task.sortOrder }, { sortOrder }),
+      };
+    })
+  );
+
+  await publishEventSafely(userId, 'task.updated', { taskIds });
+
   return updatedTasks.map(toTaskDtoWithGoal);
 }
 
+/**
+ * Create the next occurrence of a recurring task.
+ *
+ * The new task copies the completed occurrence and is linked to the series
+ * through `recurrenceId`, which always points at the first task of the series.
+ * The series start (DTSTART) is that first task's due date, so COUNT and
+ * INTERVAL stay aligned no matter which occurrence is completed.
+ *
+ * @param userId - User ID owning the task
+ * @param task - Occurrence that was just completed
+ * @returns The created occurrence, or null if the series has ended
+ */
+export async function createNextOccurrence(
+  userId: string,
+  task: Task & { tags: Array<{ tagId: string }> }
+): Promise<TaskDto | null> {
+  const anchor = task.dueDate ?? task.startDate;
+  if (!task.recurrenceRule || !anchor) {
+    return null;
+  }
+
+  // A rescheduled occurrence still stands for its original slot in the series
+  const slot = task.recurrenceDate ?? anchor;
+  const seriesId = task.recurrenceId ?? task.id;
+  // The first task anchors the series even while it is in the trash
+  const master = task.recurrenceId
+    ? await db.task.findFirst({
+        where: { id: seriesId, userId },
+        select: { dueDate: true, startDate: true, recurrenceDate: true },
+      })
+    : null;
+  const seriesStart = master
+    ? (master.recurrenceDate ?? master.dueDate ?? master.startDate ?? slot)
+    : slot;
+
+  let next: Date | null;
+  try {
+    next = getNextOccurrence(task.recurrenceRule, seriesStart, slot);
+  } catch {
+    // Rules are validated on write; tolerate legacy values instead of failing completion
+    return null;
+  }
+
+  if (!next) {
+    return null;
+  }
+
+  // Shift both dates by the same amount so the start/due span is preserved
+  const shift = next.getTime() - anchor.getTime();
+  const dueDate = task.dueDate ? new Date(task.dueDate.getTime() + shift) : null;
+  const startDate = task.startDate ? new Date(task.startDate.getTime() + shift) : null;
+
+  // Completing, reopening and completing again must not create duplicates
+  const existing = await db.task.findFirst({
+    where: {
+      userId,
+      deletedAt: null,
+      recurrenceId: seriesId,
+      OR: [dueDate ? { dueDate } : { startDate }, { recurrenceDate: next }],
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    return null;
+  }
+
+  return createTask(userId, {
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    dueDate,
+    startDate,
+    estimatedTime: task.estimatedTime,
+    listId: task.listId,
+    parentId: task.parentId ?? undefined,
+    goalId: task.goalId,
+    recurrenceRule: task.recurrenceRule,
+    recurrenceId: seriesId,
+    sortOrder: task.sortOrder,
+    tags: task.tags.map((t) => ({ id: t.tagId })),
+  });
+}
+
 /**
  * Get default list ID for a user.
  * Creates one if it doesn't exist.
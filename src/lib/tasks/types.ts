@@ -5,12 +5,12 @@
  * Matches the Prisma Task model with selected fields for API responses.
  */
 
-import { Task, TaskStatus, Priority } from '@prisma/client';
+import { Task, TaskStatus, Priority, TaskActivityType } from '@prisma/client';
 import type { Prisma } from '@prisma/client';
 import type { ReminderDto } from '@/lib/reminders';
 
 // Re-export Prisma enums for use in other modules
-export type { TaskStatus, Priority };
+export type { TaskStatus, Priority, TaskActivityType };
 
 /**
  * Tag DTO for task responses.
@@ -50,9 +50,12 @@ export interface TaskDto {
   spentTime: number | null;
   recurrenceRule: string | null;
   recurrenceId: string | null;
+  recurrenceDate: Date | null;
   sortOrder: number;
   createdAt: Date;
   updatedAt: Date;
+  /** Set when archived; archived tasks are left out of task lists */
+  archivedAt: Date | null;
   listId: string;
   parentId: string | null;
   goalId: string | null; // Phase 24: Goal relation
@@ -60,20 +63,78 @@ export interface TaskDto {
   tags: TaskTagDto[];
   reminders?: ReminderDto[]; // Optional reminders array
   subtasks?: TaskDto[];
+  /** Checked and total checklist items */
+  checklist?: ChecklistProgress;
   // Counters for performance
   _count?: {
     subtasks: number;
+    /** Open tasks blocking this one */
+    blockedBy?: number;
   };
 }
 
+/**
+ * Checklist progress of a task.
+ */
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Checklist item DTO.
+ */
+export interface ChecklistItemDto {
+  id: string;
+  text: string;
+  checked: boolean;
+  sortOrder: number;
+  taskId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A single field change recorded in a task's activity log.
+ * Values are stored as strings; dates use ISO format and tags a comma-separated list of names.
+ */
+export interface TaskFieldChange {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * Task activity DTO: either a field change or a comment.
+ */
+export interface TaskActivityDto {
+  id: string;
+  type: TaskActivityType;
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  /** Markdown body of a comment */
+  content: string | null;
+  taskId: string;
+  user: {
+    id: string;
+    name: string | null;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Task list response with pagination.
  */
 export interface TaskListResponse {
   tasks: TaskDto[];
-  total: number;
+  /** Number of matching tasks, or null when not requested */
+  total: number | null;
   limit: number;
   offset: number;
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
 }
 
 /**
@@ -129,6 +190,25 @@ export interface BatchDeleteResponse {
   taskIds: string[];
 }
 
+/**
+ * Task summary in dependency lists.
+ */
+export interface TaskDependencyDto {
+  id: string;
+  title: string;
+  status: TaskStatus;
+}
+
+/**
+ * Dependencies of a task.
+ */
+export interface TaskDependenciesResponse {
+  /** Tasks that have to be completed first */
+  blockedBy: TaskDependencyDto[];
+  /** Tasks waiting on this one */
+  blocking: TaskDependencyDto[];
+}
+
 /**
  * Error response type.
  */
@@ -149,8 +229,10 @@ export type TaskWithTags = Task & {
       color: string | null;
     };
   }>;
+  checklistItems?: Array<{ checked: boolean }>;
   _count?: {
     subtasks: number;
+    blockedBy?: number;
   };
 };
 
@@ -187,8 +269,10 @@ export type TaskWithFullRelations = Task & {
       goalId?: string | null;
     } & Task
   >;
+  checklistItems?: Array<{ checked: boolean }>;
   _count?: {
     subtasks: number;
+    blockedBy?: number;
   };
 };
 
@@ -197,10 +281,14 @@ export type TaskWithFullRelations = Task & {
  */
 export interface TaskListOptions {
   where?: Prisma.TaskWhereInput;
-  orderBy?: {
-    [key: string]: 'asc' | 'desc';
-  };
+  orderBy?:
+    | {
+        [key: string]: 'asc' | 'desc';
+      }
+    | Array<{ [key: string]: 'asc' | 'desc' }>;
   take?: number;
   skip?: number;
   includeSubtasks?: boolean;
+  /** Count all matching tasks (default: true) */
+  includeTotal?: boolean;
 }
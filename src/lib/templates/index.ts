@@ -0,0 +1,7 @@
+/**
+ * Templates module exports.
+ */
+
+export * from './types';
+export * from './schemas';
+export * from './service';
@@ -0,0 +1,63 @@
+/**
+ * Template Validation Schemas
+ *
+ * Zod schemas for validating template API requests.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Template kind enum.
+ */
+export const TemplateKindEnum = z.enum(['TASK', 'LIST']);
+
+/**
+ * Schema for saving an existing task or list as a template.
+ */
+export const CreateTemplateSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Name is required')
+      .max(100, 'Name must be at most 100 characters'),
+    description: z.string().max(500, 'Description must be at most 500 characters').optional(),
+    taskId: z.string().cuid().optional(),
+    listId: z.string().cuid().optional(),
+  })
+  .refine((data) => Boolean(data.taskId) !== Boolean(data.listId), {
+    message: 'Provide either taskId or listId',
+  });
+
+/**
+ * Schema for template query parameters.
+ */
+export const TemplateQuerySchema = z.object({
+  kind: TemplateKindEnum.optional(),
+});
+
+/**
+ * Schema for creating tasks or a list from a template.
+ */
+export const InstantiateTemplateSchema = z.object({
+  // Day the relative due dates count from (default: today)
+  baseDate: z.coerce.date().optional(),
+  // Task templates: list for the new tasks
+  listId: z.string().cuid().optional(),
+  // List templates: settings of the new list (default: the template's)
+  title: z.string().trim().min(1).max(100, 'Title must be at most 100 characters').optional(),
+  description: z.string().max(500).optional().nullable(),
+  icon: z.string().max(10).optional().nullable(),
+  color: z
+    .string()
+    .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a valid hex color code')
+    .optional()
+    .nullable(),
+});
+
+/**
+ * Infer TypeScript types from schemas.
+ */
+export type CreateTemplateInput = z.infer<typeof CreateTemplateSchema>;
+export type TemplateQueryInput = z.infer<typeof TemplateQuerySchema>;
+export type InstantiateTemplateInput = z.infer<typeof InstantiateTemplateSchema>;
@@ -0,0 +1,274 @@
+/**
+ * Template Service Tests
+ *
+ * Tests for saving tasks and lists as templates and instantiating them.
+ */
+
+import { db } from '@/lib/db';
+import { createTask, getTaskById } from '@/lib/tasks/service';
+import { loadTaskTrees } from '@/lib/tasks/duplicate';
+import { createList } from '@/lib/lists/service';
+import { createTemplate, getTemplates, instantiateTemplate } from './service';
+import type { TemplateContent } from './types';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    template: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    list: {
+      findFirst: jest.fn(),
+    },
+    checklistItem: {
+      createMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/tasks/service', () => ({
+  createTask: jest.fn(),
+  getTaskById: jest.fn(),
+}));
+
+jest.mock('@/lib/tasks/duplicate', () => ({
+  loadTaskTrees: jest.fn(),
+}));
+
+jest.mock('@/lib/lists/service', () => ({
+  createList: jest.fn(),
+}));
+
+describe('Template Service', () => {
+  const userId = 'user-123';
+
+  const makeSource = (overrides = {}) => ({
+    id: 'task-1',
+    title: 'Sprint review',
+    description: 'Demo the work',
+    priority: 'HIGH',
+    dueDate: new Date(2026, 5, 10, 15, 0),
+    estimatedTime: 60,
+    parentId: null,
+    listId: 'list-1',
+    tags: [{ tagId: 'tag-1', tag: { name: 'work' } }],
+    checklistItems: [{ text: 'Book room' }, { text: 'Send invite' }],
+    ...overrides,
+  });
+
+  const makeTemplate = (kind: 'TASK' | 'LIST', content: TemplateContent) => ({
+    id: 'template-1',
+    name: 'Sprint',
+    description: null,
+    kind,
+    content: JSON.stringify(content),
+    userId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const node = {
+    title: 'Sprint review',
+    description: null,
+    priority: 'HIGH' as const,
+    dueOffset: 15 * 60,
+    estimatedTime: null,
+    tags: ['work'],
+    checklist: ['Book room'],
+    subtasks: [
+      {
+        title: 'Prepare slides',
+        description: null,
+        priority: 'NONE' as const,
+        dueOffset: null,
+        estimatedTime: 30,
+        tags: [],
+        checklist: [],
+        subtasks: [],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.template.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...makeTemplate(data.kind, JSON.parse(data.content)), ...data })
+    );
+  });
+
+  describe('createTemplate', () => {
+    it('should store the task tree with due dates relative to the earliest due day', async () => {
+      (loadTaskTrees as jest.Mock).mockResolvedValue([
+        makeSource(),
+        makeSource({
+          id: 'task-2',
+          title: 'Prepare slides',
+          parentId: 'task-1',
+          dueDate: new Date(2026, 5, 12, 9, 30),
+          tags: [],
+          checklistItems: [],
+        }),
+      ]);
+
+      const template = await createTemplate(userId, { name: 'Sprint', taskId: 'task-1' });
+
+      expect(loadTaskTrees).toHaveBeenCalledWith(userId, { id: 'task-1' });
+      expect(template).toMatchObject({ kind: 'TASK', taskCount: 2 });
+      expect(template?.content.tasks).toEqual([
+        {
+          title: 'Sprint review',
+          description: 'Demo the work',
+          priority: 'HIGH',
+          dueOffset: 15 * 60,
+          estimatedTime: 60,
+          tags: ['work'],
+          checklist: ['Book room', 'Send invite'],
+          subtasks: [
+            expect.objectContaining({
+              title: 'Prepare slides',
+              dueOffset: 2 * 24 * 60 + 9 * 60 + 30,
+              subtasks: [],
+            }),
+          ],
+        },
+      ]);
+    });
+
+    it('should store list settings for list templates', async () => {
+      (db.list.findFirst as jest.Mock).mockResolvedValue({
+        id: 'list-1',
+        title: 'Sprint board',
+        description: null,
+        icon: '🎯',
+        color: '#D97757',
+      });
+      (loadTaskTrees as jest.Mock).mockResolvedValue([makeSource({ dueDate: null })]);
+
+      const template = await createTemplate(userId, { name: 'Sprint', listId: 'list-1' });
+
+      expect(template?.kind).toBe('LIST');
+      expect(template?.content.list).toEqual({
+        title: 'Sprint board',
+        description: null,
+        icon: '🎯',
+        color: '#D97757',
+      });
+      expect(template?.content.tasks[0].dueOffset).toBeNull();
+    });
+
+    it('should return null when the task is not found', async () => {
+      (loadTaskTrees as jest.Mock).mockResolvedValue([]);
+
+      expect(await createTemplate(userId, { name: 'Sprint', taskId: 'missing' })).toBeNull();
+      expect(db.template.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTemplates', () => {
+    it('should treat unreadable content as an empty template', async () => {
+      (db.template.findMany as jest.Mock).mockResolvedValue([
+        { ...makeTemplate('TASK', { tasks: [] }), content: 'not json' },
+      ]);
+
+      const [template] = await getTemplates(userId, 'TASK');
+
+      expect(db.template.findMany).toHaveBeenCalledWith({
+        where: { userId, kind: 'TASK' },
+        orderBy: { name: 'asc' },
+      });
+      expect(template.content).toEqual({ tasks: [] });
+      expect(template.taskCount).toBe(0);
+    });
+  });
+
+  describe('instantiateTemplate', () => {
+    beforeEach(() => {
+      let created = 0;
+      (createTask as jest.Mock).mockImplementation((_, data) =>
+        Promise.resolve({ id: `new-${++created}`, listId: data.listId ?? 'inbox' })
+      );
+    });
+
+    it('should create the task tree relative to the base date', async () => {
+      (db.template.findFirst as jest.Mock).mockResolvedValue(
+        makeTemplate('TASK', { tasks: [node] })
+      );
+      (getTaskById as jest.Mock).mockResolvedValue({ id: 'new-1' });
+
+      const result = await instantiateTemplate('template-1', userId, {
+        baseDate: new Date(2026, 6, 1, 8, 0),
+      });
+
+      expect(result).toEqual({ task: { id: 'new-1' } });
+      expect(createTask).toHaveBeenNthCalledWith(
+        1,
+        userId,
+        expect.objectContaining({
+          title: 'Sprint review',
+          dueDate: new Date(2026, 6, 1, 15, 0),
+          tagNames: ['work'],
+          listId: undefined,
+          parentId: undefined,
+        })
+      );
+      expect(createTask).toHaveBeenNthCalledWith(
+        2,
+        userId,
+        expect.objectContaining({
+          title: 'Prepare slides',
+          dueDate: null,
+          listId: 'inbox',
+          parentId: 'new-1',
+        })
+      );
+      expect(db.checklistItem.createMany).toHaveBeenCalledWith({
+        data: [{ text: 'Book room', sortOrder: 0, taskId: 'new-1' }],
+      });
+    });
+
+    it('should create a list with its tasks for list templates', async () => {
+      (db.template.findMany as jest.Mock).mockResolvedValue([]);
+      (db.template.findFirst as jest.Mock).mockResolvedValue(
+        makeTemplate('LIST', {
+          list: { title: 'Sprint board', description: 'Two weeks', icon: '🎯', color: null },
+          tasks: [node],
+        })
+      );
+      (createList as jest.Mock).mockResolvedValue({ id: 'list-9', title: 'Sprint 42' });
+
+      const result = await instantiateTemplate('template-1', userId, { title: 'Sprint 42' });
+
+      expect(createList).toHaveBeenCalledWith(userId, {
+        title: 'Sprint 42',
+        description: 'Two weeks',
+        icon: '🎯',
+        color: null,
+      });
+      expect(createTask).toHaveBeenCalledWith(
+        userId,
+        expect.objectContaining({ title: 'Sprint review', listId: 'list-9' })
+      );
+      expect(result).toEqual({ list: { id: 'list-9', title: 'Sprint 42', _count: { tasks: 2 } } });
+    });
+
+    it('should reject a target list the user does not own', async () => {
+      (db.template.findFirst as jest.Mock).mockResolvedValue(
+        makeTemplate('TASK', { tasks: [node] })
+      );
+      (db.list.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(instantiateTemplate('template-1', userId, { listId: 'list-2' })).rejects.toThrow(
+        'List not found'
+      );
+      expect(createTask).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the template is not found', async () => {
+      (db.template.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await instantiateTemplate('missing', userId)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Template Service
+ *
+ * Saves tasks and lists as templates and creates new ones from them.
+ * Template content is stored as JSON in the database.
+ */
+
+import { db } from '@/lib/db';
+import type { Template as PrismaTemplate, TemplateKind } from '@prisma/client';
+import { createTask, getTaskById } from '@/lib/tasks/service';
+import { loadTaskTrees, type SourceTask } from '@/lib/tasks/duplicate';
+import { createList } from '@/lib/lists/service';
+import { addMinutes, startOfDay } from '@/lib/utils/date';
+import type { TemplateContent, TemplateDto, TemplateInstance, TemplateTaskNode } from './types';
+import type { CreateTemplateInput, InstantiateTemplateInput } from './schemas';
+
+/**
+ * Maximum number of tasks, including subtasks, a template can hold.
+ */
+export const MAX_TEMPLATE_TASKS = 500;
+
+/**
+ * Parse stored template content, treating unreadable values as an empty template.
+ */
+function parseContent(value: string): TemplateContent {
+  try {
+    const parsed = JSON.parse(value) as TemplateContent | null;
+    return parsed && Array.isArray(parsed.tasks) ? parsed : { tasks: [] };
+  } catch {
+    return { tasks: [] };
+  }
+}
+
+function countTasks(nodes: TemplateTaskNode[]): number {
+  return nodes.reduce((total, node) => total + 1 + countTasks(node.subtasks), 0);
+}
+
+/**
+ * Convert Prisma Template model to Template DTO.
+ */
+function toTemplateDto(template: PrismaTemplate): TemplateDto {
+  const content = parseContent(template.content);
+
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    kind: template.kind,
+    content,
+    taskCount: countTasks(content.tasks),
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
+
+/**
+ * Snapshot task trees as template nodes, with due dates relative to the anchor day.
+ */
+function toTemplateNodes(sources: SourceTask[], anchor: Date | null): TemplateTaskNode[] {
+  const sourceIds = new Set(sources.map((task) => task.id));
+
+  const build = (task: SourceTask): TemplateTaskNode => ({
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    dueOffset:
+      task.dueDate && anchor
+        ? Math.round((task.dueDate.getTime() - anchor.getTime()) / (60 * 1000))
+        : null,
+    estimatedTime: task.estimatedTime,
+    tags: task.tags.map((tag) => tag.tag.name),
+    checklist: task.checklistItems.map((item) => item.text),
+    subtasks: sources.filter((child) => child.parentId === task.id).map(build),
+  });
+
+  return sources.filter((task) => !task.parentId || !sourceIds.has(task.parentId)).map(build);
+}
+
+/**
+ * Create a template task and its subtasks.
+ *
+ * @returns ID of the created task and the number of tasks created
+ */
+async function createTemplateTask(
+  userId: string,
+  node: TemplateTaskNode,
+  target: { listId?: string; parentId?: string; baseDay: Date }
+): Promise<{ id: string; count: number }> {
+  const task = await createTask(userId, {
+    title: node.title,
+    description: node.description,
+    priority: node.priority,
+    dueDate: node.dueOffset === null ? null : addMinutes(target.baseDay, node.dueOffset),
+    estimatedTime: node.estimatedTime,
+    listId: target.listId,
+    parentId: target.parentId,
+    tagNames: node.tags,
+  });
+
+  if (node.checklist.length > 0) {
+    await db.checklistItem.createMany({
+      data: node.checklist.map((text, index) => ({ text, sortOrder: index, taskId: task.id })),
+    });
+  }
+
+  let count = 1;
+  for (const subtask of node.subtasks) {
+    const created = await createTemplateTask(userId, subtask, {
+      listId: task.listId,
+      parentId: task.id,
+      baseDay: target.baseDay,
+    });
+    count += created.count;
+  }
+
+  return { id: task.id, count };
+}
+
+/**
+ * Get a user's templates, sorted by name.
+ *
+ * @param userId - User ID to scope templates to
+ * @param kind - Only return templates of this kind
+ * @returns Templates
+ */
+export async function getTemplates(userId: string, kind?: TemplateKind): Promise<TemplateDto[]> {
+  const templates = await db.template.findMany({
+    where: { userId, ...(kind && { kind }) },
+    orderBy: { name: 'asc' },
+  });
+
+  return templates.map(toTemplateDto);
+}
+
+/**
+ * Get a single template by ID.
+ *
+ * @param templateId - Template ID
+ * @param userId - User ID for authorization
+ * @returns Template or null if not found
+ */
+export async function getTemplateById(
+  templateId: string,
+  userId: string
+): Promise<TemplateDto | null> {
+  const template = await db.template.findFirst({
+    where: { id: templateId, userId },
+  });
+
+  return template ? toTemplateDto(template) : null;
+}
+
+/**
+ * Save an existing task (with its subtasks) or a whole list as a template.
+ * Due dates are stored relative to the day of the earliest due date.
+ *
+ * @param userId - User ID owning the task or list
+ * @param data - Template name and the task or list to save
+ * @returns Created template, or null if the task or list is not found
+ */
+export async function createTemplate(
+  userId: string,
+  data: CreateTemplateInput
+): Promise<TemplateDto | null> {
+  const list = data.listId
+    ? await db.list.findFirst({ where: { id: data.listId, userId, deletedAt: null } })
+    : null;
+
+  if (data.listId && !list) {
+    return null;
+  }
+
+  const sources = await loadTaskTrees(
+    userId,
+    list ? { listId: list.id, archivedAt: null } : { id: data.taskId }
+  );
+
+  if (!list && sources.length === 0) {
+    return null;
+  }
+
+  if (sources.length > MAX_TEMPLATE_TASKS) {
+    throw new Error(`A template can have at most ${MAX_TEMPLATE_TASKS} tasks`);
+  }
+
+  const dueTimes = sources.flatMap((task) => (task.dueDate ? [task.dueDate.getTime()] : []));
+  const anchor = dueTimes.length > 0 ? startOfDay(new Date(Math.min(...dueTimes))) : null;
+
+  const content: TemplateContent = {
+    ...(list && {
+      list: {
+        title: list.title,
+        description: list.description,
+        icon: list.icon,
+        color: list.color,
+      },
+    }),
+    tasks: toTemplateNodes(sources, anchor),
+  };
+
+  const template = await db.template.create({
+    data: {
+      name: data.name,
+      description: data.description ?? null,
+      kind: list ? 'LIST' : 'TASK',
+      content: JSON.stringify(content),
+      user: { connect: { id: userId } },
+    },
+  });
+
+  return toTemplateDto(template);
+}
+
+/**
+ * Delete a template.
+ *
+ * @param templateId - Template ID to delete
+ * @param userId - User ID for authorization
+ * @returns True if deleted, false if not found
+ */
+export async function deleteTemplate(templateId: string, userId: string): Promise<boolean> {
+  const result = await db.template.deleteMany({
+    where: { id: templateId, userId },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Create tasks or a list from a template.
+ * Due dates are placed relative to the start of the base date's day.
+ *
+ * @param templateId - Template ID
+ * @param userId - User ID for authorization
+ * @param data - Base date, target list (task templates) or list settings (list templates)
+ * @returns The created task or list, or null if the template is not found
+ */
+export async function instantiateTemplate(
+  templateId: string,
+  userId: string,
+  data: InstantiateTemplateInput = {}
+): Promise<TemplateInstance | null> {
+  const template = await db.template.findFirst({
+    where: { id: templateId, userId },
+  });
+
+  if (!template) {
+    return null;
+  }
+
+  const content = parseContent(template.content);
+  const baseDay = startOfDay(data.baseDate ?? new Date());
+
+  if (template.kind === 'LIST') {
+    const list = await createList(userId, {
+      title: data.title ?? content.list?.title ?? template.name,
+      description: data.description !== undefined ? data.description : content.list?.description,
+      icon: data.icon !== undefined ? data.icon : content.list?.icon,
+      color: data.color !== undefined ? data.color : content.list?.color,
+    });
+
+    let count = 0;
+    for (const node of content.tasks) {
+      const created = await createTemplateTask(userId, node, { listId: list.id, baseDay });
+      count += created.count;
+    }
+
+    return { list: { ...list, _count: { tasks: count } } };
+  }
+
+  const [root] = content.tasks;
+  if (!root) {
+    throw new Error('Template has no tasks');
+  }
+
+  if (data.listId) {
+    const list = await db.list.findFirst({
+      where: { id: data.listId, userId, deletedAt: null },
+    });
+    if (!list) {
+      throw new Error('List not found');
+    }
+  }
+
+  const created = await createTemplateTask(userId, root, { listId: data.listId, baseDay });
+  const task = await getTaskById(created.id, userId);
+
+  return task ? { task } : null;
+}
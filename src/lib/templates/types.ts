@@ -0,0 +1,68 @@
+/**
+ * Template Type Definitions
+ *
+ * Templates snapshot a task tree or a whole list so it can be recreated
+ * later. Due dates are stored relative to a base day, so instantiating a
+ * template on a new date moves every task along with it.
+ */
+
+import type { Priority, TemplateKind } from '@prisma/client';
+import type { TaskDto } from '@/lib/tasks/types';
+import type { ListDto } from '@/lib/lists/types';
+
+export type { TemplateKind };
+
+/**
+ * A task inside a template, with its subtasks.
+ */
+export interface TemplateTaskNode {
+  title: string;
+  description: string | null;
+  priority: Priority;
+  /** Minutes from the start of the base day to the due date, or null for no due date */
+  dueOffset: number | null;
+  estimatedTime: number | null;
+  /** Tag names, created on instantiation if missing */
+  tags: string[];
+  /** Checklist item texts */
+  checklist: string[];
+  subtasks: TemplateTaskNode[];
+}
+
+/**
+ * List settings stored by list templates.
+ */
+export interface TemplateListInfo {
+  title: string;
+  description: string | null;
+  icon: string | null;
+  color: string | null;
+}
+
+/**
+ * Stored content of a template. Task templates have a single top-level task.
+ */
+export interface TemplateContent {
+  list?: TemplateListInfo;
+  tasks: TemplateTaskNode[];
+}
+
+/**
+ * Template response DTO.
+ */
+export interface TemplateDto {
+  id: string;
+  name: string;
+  description: string | null;
+  kind: TemplateKind;
+  content: TemplateContent;
+  /** Number of tasks the template creates, including subtasks */
+  taskCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Result of instantiating a template: the created task or list.
+ */
+export type TemplateInstance = { task: TaskDto } | { list: ListDto };
@@ -0,0 +1,8 @@
+/**
+ * Trash module exports.
+ */
+
+export * from './types';
+export * from './schemas';
+export * from './utils';
+export * from './service';
@@ -0,0 +1,25 @@
+/**
+ * Trash Validation Schemas
+ *
+ * Zod schemas for validating trash API requests.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Trash item type enum.
+ */
+export const TrashItemTypeEnum = z.enum(['task', 'list', 'tag', 'habit', 'goal']);
+
+/**
+ * Schema for the route parameters identifying a trash item.
+ */
+export const TrashItemParamsSchema = z.object({
+  type: TrashItemTypeEnum,
+  id: z.string().cuid('Invalid item ID'),
+});
+
+/**
+ * Infer TypeScript types from schemas.
+ */
+export type TrashItemParams = z.infer<typeof TrashItemParamsSchema>;
@@ -0,0 +1,230 @@
+/**
+ * Trash Service Tests
+ *
+ * Tests for listing, restoring and purging items in the trash.
+ */
+
+import { db } from '@/lib/db';
+import { getTaskAttachmentFiles, removeAttachmentFiles } from '@/lib/attachments/service';
+import { getDefaultListId } from '@/lib/lists/service';
+import { deleteTrashItem, getTrash, purgeExpiredTrash, restoreTrashItem } from './service';
+
+jest.mock('@/lib/db', () => {
+  const createMockModel = () => ({
+    findMany: jest.fn().mockResolvedValue([]),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+  });
+
+  return {
+    db: {
+      task: createMockModel(),
+      list: createMockModel(),
+      tag: createMockModel(),
+      habit: createMockModel(),
+      goal: createMockModel(),
+    },
+  };
+});
+
+jest.mock('@/lib/attachments/service', () => ({
+  getTaskAttachmentFiles: jest.fn().mockResolvedValue([]),
+  removeAttachmentFiles: jest.fn(),
+}));
+
+jest.mock('@/lib/lists/service', () => ({
+  getDefaultListId: jest.fn(),
+}));
+
+describe('Trash Service', () => {
+  const userId = 'user-123';
+  const deletedAt = new Date('2026-03-01T10:00:00Z');
+  const later = new Date('2026-03-02T10:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.TRASH_RETENTION_DAYS;
+  });
+
+  describe('getTrash', () => {
+    it('should list items deleted together as one entry', async () => {
+      (db.task.findMany as jest.Mock).mockResolvedValueOnce([
+        {
+          id: 'task-1',
+          title: 'Plan trip',
+          deletedAt,
+          parentId: null,
+          listId: 'list-1',
+          parent: null,
+          list: { deletedAt: null },
+        },
+        {
+          id: 'task-2',
+          title: 'Book hotel',
+          deletedAt,
+          parentId: 'task-1',
+          listId: 'list-1',
+          parent: { deletedAt },
+          list: { deletedAt: null },
+        },
+        {
+          id: 'task-3',
+          title: 'Pack',
+          deletedAt: later,
+          parentId: null,
+          listId: 'list-2',
+          parent: null,
+          list: { deletedAt: later },
+        },
+      ]);
+      (db.list.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'list-2', title: 'Travel', deletedAt: later },
+      ]);
+
+      const result = await getTrash(userId);
+
+      expect(result.retentionDays).toBe(30);
+      expect(result.items).toEqual([
+        expect.objectContaining({ type: 'list', id: 'list-2', taskCount: 1 }),
+        expect.objectContaining({
+          type: 'task',
+          id: 'task-1',
+          taskCount: 1,
+          purgeAt: new Date('2026-03-31T10:00:00Z'),
+        }),
+      ]);
+    });
+
+    it('should leave out expired items without purging them', async () => {
+      process.env.TRASH_RETENTION_DAYS = '7';
+      const now = new Date('2026-04-01T00:00:00Z');
+
+      await getTrash(userId, now);
+
+      expect(db.tag.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId, deletedAt: { not: null, gte: new Date('2026-03-25T00:00:00Z') } },
+        })
+      );
+      expect(db.tag.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreTrashItem', () => {
+    it('should move a task out of a trashed list into the default list', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({
+        deletedAt,
+        list: { deletedAt },
+        parent: null,
+      });
+      (db.task.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'subtask-1' }])
+        .mockResolvedValue([]);
+      (getDefaultListId as jest.Mock).mockResolvedValue('inbox');
+
+      const result = await restoreTrashItem(userId, 'task', 'task-1');
+
+      expect(result).toBe(true);
+      expect(db.task.findMany).toHaveBeenCalledWith({
+        where: { userId, deletedAt, parentId: { in: ['task-1'] } },
+        select: { id: true },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['task-1', 'subtask-1'] }, userId },
+        data: { deletedAt: null, listId: 'inbox' },
+      });
+    });
+
+    it('should detach a restored subtask whose parent is still in the trash', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue({
+        deletedAt: later,
+        list: { deletedAt: null },
+        parent: { deletedAt },
+      });
+
+      await restoreTrashItem(userId, 'task', 'task-2');
+
+      expect(db.task.update).toHaveBeenCalledWith({
+        where: { id: 'task-2' },
+        data: { parentId: null },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['task-2'] }, userId },
+        data: { deletedAt: null },
+      });
+    });
+
+    it('should restore a list with the tasks deleted along with it', async () => {
+      (db.list.findFirst as jest.Mock).mockResolvedValue({ deletedAt });
+
+      const result = await restoreTrashItem(userId, 'list', 'list-1');
+
+      expect(result).toBe(true);
+      expect(db.list.update).toHaveBeenCalledWith({
+        where: { id: 'list-1' },
+        data: { deletedAt: null },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { userId, listId: 'list-1', deletedAt },
+        data: { deletedAt: null },
+      });
+    });
+
+    it('should return false when the item is not in the trash', async () => {
+      (db.task.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await restoreTrashItem(userId, 'task', 'task-1')).toBe(false);
+      expect(await restoreTrashItem(userId, 'habit', 'habit-1')).toBe(false);
+      expect(db.habit.updateMany).toHaveBeenCalledWith({
+        where: { id: 'habit-1', userId, deletedAt: { not: null } },
+        data: { deletedAt: null },
+      });
+    });
+  });
+
+  describe('deleteTrashItem', () => {
+    it('should delete a task, its subtasks and their attachment files', async () => {
+      const files = ['a.png', null];
+      (db.task.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'task-1' }])
+        .mockResolvedValueOnce([{ id: 'subtask-1' }])
+        .mockResolvedValue([]);
+      (db.task.deleteMany as jest.Mock).mockResolvedValue({ count: 2 });
+      (getTaskAttachmentFiles as jest.Mock).mockResolvedValue(files);
+
+      const result = await deleteTrashItem(userId, 'task', 'task-1');
+
+      expect(result).toBe(true);
+      expect(db.task.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['task-1', 'subtask-1'] } },
+      });
+      expect(removeAttachmentFiles).toHaveBeenCalledWith(files);
+    });
+
+    it('should not delete a list that is not in the trash', async () => {
+      (db.list.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const result = await deleteTrashItem(userId, 'list', 'list-1');
+
+      expect(result).toBe(false);
+      expect(db.list.deleteMany).not.toHaveBeenCalled();
+      expect(db.task.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    it('should purge every user when no user is given', async () => {
+      const now = new Date('2026-04-01T00:00:00Z');
+      (db.goal.deleteMany as jest.Mock).mockResolvedValue({ count: 2 });
+
+      const count = await purgeExpiredTrash(undefined, now);
+
+      expect(count).toBe(2);
+      expect(db.goal.deleteMany).toHaveBeenCalledWith({
+        where: { deletedAt: { lt: new Date('2026-03-02T00:00:00Z') } },
+      });
+    });
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Trash Service
+ *
+ * Lists, restores and permanently deletes items in the trash.
+ *
+ * Everything trashed in one go (a list with its tasks, a task with its
+ * subtasks) shares the same `deletedAt`, which is how a restore finds the
+ * rows that belong together. Expired items are no longer listed and are
+ * purged by a daily job.
+ */
+
+import { db } from '@/lib/db';
+import type { Prisma } from '@prisma/client';
+import { getTaskAttachmentFiles, removeAttachmentFiles } from '@/lib/attachments/service';
+import { getDefaultListId } from '@/lib/lists/service';
+import { getPurgeCutoff, getPurgeDate, getTrashRetentionDays } from './utils';
+import type { TrashItemDto, TrashItemType, TrashResponse } from './types';
+
+const inTrash = { not: null };
+
+/**
+ * Collect the given tasks and all of their subtasks matching a filter.
+ */
+async function collectSubtasks(
+  taskIds: string[],
+  where: Prisma.TaskWhereInput = {}
+): Promise<string[]> {
+  const ids = new Set(taskIds);
+  let parentIds = taskIds;
+
+  while (parentIds.length > 0) {
+    const children = await db.task.findMany({
+      where: { ...where, parentId: { in: parentIds } },
+      select: { id: true },
+    });
+    parentIds = children.map((child) => child.id).filter((id) => !ids.has(id));
+    parentIds.forEach((id) => ids.add(id));
+  }
+
+  return [...ids];
+}
+
+/**
+ * Permanently delete tasks matching a filter, their subtasks and their
+ * attachment files.
+ *
+ * @returns Number of tasks deleted
+ */
+async function purgeTasks(where: Prisma.TaskWhereInput): Promise<number> {
+  const matched = await db.task.findMany({ where, select: { id: true } });
+  if (matched.length === 0) {
+    return 0;
+  }
+
+  const ids = await collectSubtasks(matched.map((task) => task.id));
+  if (ids.length === 0) {
+    return 0;
+  }
+
+  const files = await getTaskAttachmentFiles(ids);
+  const result = await db.task.deleteMany({ where: { id: { in: ids } } });
+  await removeAttachmentFiles(files);
+
+  return result.count;
+}
+
+/**
+ * Count the subtasks trashed together with each task.
+ */
+function countTrashedSubtasks(
+  tasks: Array<{ id: string; parentId: string | null; deletedAt: Date | null }>
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+
+  for (const task of tasks) {
+    let parent = task.parentId ? byId.get(task.parentId) : undefined;
+    while (parent && parent.deletedAt?.getTime() === task.deletedAt?.getTime()) {
+      counts.set(parent.id, (counts.get(parent.id) ?? 0) + 1);
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Get the items in a user's trash, most recently deleted first.
+ * Tasks deleted along with their list or parent task are not listed
+ * separately; they come back with it.
+ *
+ * @param userId - User ID to scope the trash to
+ * @param now - Reference time for expiry
+ * @returns Trash items and the retention period
+ */
+export async function getTrash(userId: string, now: Date = new Date()): Promise<TrashResponse> {
+  // Expired items wait for the purge job but are already gone for the user
+  const where = { userId, deletedAt: { not: null, gte: getPurgeCutoff(now) } };
+  const [tasks, lists, tags, habits, goals] = await Promise.all([
+    db.task.findMany({
+      where,
+      select: {
+        id: true,
+        title: true,
+        deletedAt: true,
+        parentId: true,
+        listId: true,
+        parent: { select: { deletedAt: true } },
+        list: { select: { deletedAt: true } },
+      },
+    }),
+    db.list.findMany({ where, select: { id: true, title: true, deletedAt: true } }),
+    db.tag.findMany({ where, select: { id: true, name: true, deletedAt: true } }),
+    db.habit.findMany({ where, select: { id: true, title: true, deletedAt: true } }),
+    db.goal.findMany({ where, select: { id: true, title: true, deletedAt: true } }),
+  ]);
+
+  const retentionDays = getTrashRetentionDays();
+  const subtaskCounts = countTrashedSubtasks(tasks);
+  const sameBatch = (a: Date | null | undefined, b: Date | null) => a?.getTime() === b?.getTime();
+
+  const toItem = (
+    type: TrashItemType,
+    item: { id: string; title: string; deletedAt: Date | null },
+    taskCount = 0
+  ): TrashItemDto => {
+    const deletedAt = item.deletedAt ?? new Date();
+    return {
+      type,
+      id: item.id,
+      title: item.title,
+      deletedAt,
+      purgeAt: getPurgeDate(deletedAt, retentionDays),
+      taskCount,
+    };
+  };
+
+  const items: TrashItemDto[] = [
+    ...tasks
+      .filter(
+        (task) =>
+          !sameBatch(task.parent?.deletedAt, task.deletedAt) &&
+          !sameBatch(task.list.deletedAt, task.deletedAt)
+      )
+      .map((task) => toItem('task', task, subtaskCounts.get(task.id))),
+    ...lists.map((list) =>
+      toItem(
+        'list',
+        list,
+        tasks.filter((task) => task.listId === list.id && sameBatch(task.deletedAt, list.deletedAt))
+          .length
+      )
+    ),
+    ...tags.map((tag) => toItem('tag', { ...tag, title: tag.name })),
+    ...habits.map((habit) => toItem('habit', habit)),
+    ...goals.map((goal) => toItem('goal', goal)),
+  ];
+
+  items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+  return { items, retentionDays };
+}
+
+/**
+ * Restore a task with the subtasks trashed along with it. A task whose list
+ * is still in the trash moves to the default list; a subtask whose parent is
+ * still in the trash becomes a top-level task.
+ */
+async function restoreTask(userId: string, taskId: string): Promise<boolean> {
+  const task = await db.task.findFirst({
+    where: { id: taskId, userId, deletedAt: inTrash },
+    select: {
+      deletedAt: true,
+      list: { select: { deletedAt: true } },
+      parent: { select: { deletedAt: true } },
+    },
+  });
+
+  if (!task) {
+    return false;
+  }
+
+  const ids = await collectSubtasks([taskId], { userId, deletedAt: task.deletedAt });
+
+  if (task.parent?.deletedAt) {
+    await db.task.update({ where: { id: taskId }, data: { parentId: null } });
+  }
+
+  await db.task.updateMany({
+    where: { id: { in: ids }, userId },
+    data: {
+      deletedAt: null,
+      ...(task.list.deletedAt && { listId: await getDefaultListId(userId) }),
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Restore a list with the tasks trashed along with it.
+ */
+async function restoreList(userId: string, listId: string): Promise<boolean> {
+  const list = await db.list.findFirst({
+    where: { id: listId, userId, deletedAt: inTrash },
+    select: { deletedAt: true },
+  });
+
+  if (!list) {
+    return false;
+  }
+
+  await db.list.update({ where: { id: listId }, data: { deletedAt: null } });
+  await db.task.updateMany({
+    where: { userId, listId, deletedAt: list.deletedAt },
+    data: { deletedAt: null },
+  });
+
+  return true;
+}
+
+/**
+ * Restore an item from the trash.
+ *
+ * @param userId - User ID for authorization
+ * @param type - Kind of item
+ * @param id - Item ID
+ * @returns True if restored, false if the item is not in the trash
+ */
+export async function restoreTrashItem(
+  userId: string,
+  type: TrashItemType,
+  id: string
+): Promise<boolean> {
+  const where = { id, userId, deletedAt: inTrash };
+  const data = { deletedAt: null };
+
+  switch (type) {
+    case 'task':
+      return restoreTask(userId, id);
+    case 'list':
+      return restoreList(userId, id);
+    case 'tag':
+      return (await db.tag.updateMany({ where, data })).count > 0;
+    case 'habit':
+      return (await db.habit.updateMany({ where, data })).count > 0;
+    case 'goal':
+      return (await db.goal.updateMany({ where, data })).count > 0;
+  }
+}
+
+/**
+ * Permanently delete an item in the trash.
+ *
+ * @param userId - User ID for authorization
+ * @param type - Kind of item
+ * @param id - Item ID
+ * @returns True if deleted, false if the item is not in the trash
+ */
+export async function deleteTrashItem(
+  userId: string,
+  type: TrashItemType,
+  id: string
+): Promise<boolean> {
+  const where = { id, userId, deletedAt: inTrash };
+
+  switch (type) {
+    case 'task':
+      return (await purgeTasks(where)) > 0;
+    case 'list': {
+      const list = await db.list.findFirst({ where, select: { id: true } });
+      if (!list) {
+        return false;
+      }
+      await purgeTasks({ userId, listId: id });
+      return (await db.list.deleteMany({ where })).count > 0;
+    }
+    case 'tag':
+      return (await db.tag.deleteMany({ where })).count > 0;
+    case 'habit':
+      return (await db.habit.deleteMany({ where })).count > 0;
+    case 'goal':
+      return (await db.goal.deleteMany({ where })).count > 0;
+  }
+}
+
+/**
+ * Permanently delete trashed items matching a deletion time filter.
+ */
+async function purgeTrash(where: {
+  userId?: string;
+  deletedAt: Prisma.DateTimeNullableFilter;
+}): Promise<number> {
+  const tasks = await purgeTasks(where);
+  const lists = await db.list.findMany({ where, select: { id: true } });
+  const listTasks = await purgeTasks({ listId: { in: lists.map((list) => list.id) } });
+
+  const results = await Promise.all([
+    db.list.deleteMany({ where }),
+    db.tag.deleteMany({ where }),
+    db.habit.deleteMany({ where }),
+    db.goal.deleteMany({ where }),
+  ]);
+
+  return tasks + listTasks + results.reduce((total, result) => total + result.count, 0);
+}
+
+/**
+ * Permanently delete everything in a user's trash.
+ *
+ * @param userId - User ID owning the trash
+ * @returns Number of items deleted, including subtasks and tasks of lists
+ */
+export async function emptyTrash(userId: string): Promise<number> {
+  return purgeTrash({ userId, deletedAt: inTrash });
+}
+
+/**
+ * Permanently delete items that have been in the trash longer than the
+ * retention period. Run daily by the trash cron job.
+ *
+ * @param userId - Only purge this user's trash (default: everyone's)
+ * @param now - Reference time
+ * @returns Number of items deleted
+ */
+export async function purgeExpiredTrash(userId?: string, now: Date = new Date()): Promise<number> {
+  return purgeTrash({ ...(userId && { userId }), deletedAt: { lt: getPurgeCutoff(now) } });
+}
@@ -0,0 +1,34 @@
+/**
+ * Trash Type Definitions
+ *
+ * Deleted tasks, lists, tags, habits and goals stay in the trash until they
+ * are restored, deleted for good, or purged after the retention period.
+ */
+
+/**
+ * Kind of entity in the trash.
+ */
+export type TrashItemType = 'task' | 'list' | 'tag' | 'habit' | 'goal';
+
+/**
+ * Trash item DTO.
+ */
+export interface TrashItemDto {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  deletedAt: Date;
+  /** When the item is permanently deleted */
+  purgeAt: Date;
+  /** Tasks deleted along with it: a list's tasks or a task's subtasks */
+  taskCount: number;
+}
+
+/**
+ * Trash API response.
+ */
+export interface TrashResponse {
+  items: TrashItemDto[];
+  /** Days items stay in the trash */
+  retentionDays: number;
+}
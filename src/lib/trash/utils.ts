@@ -0,0 +1,34 @@
+/**
+ * Trash Utilities
+ *
+ * Retention settings for the trash.
+ */
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the number of days items stay in the trash before they are purged.
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Get the time an item deleted at `deletedAt` is purged.
+ */
+export function getPurgeDate(deletedAt: Date, retentionDays = getTrashRetentionDays()): Date {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Get the cutoff before which trashed items are expired.
+ */
+export function getPurgeCutoff(
+  now: Date = new Date(),
+  retentionDays = getTrashRetentionDays()
+): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
@@ -0,0 +1,79 @@
+/**
+ * Undo History Tests
+ */
+
+import { createHistory, getUndoShortcutAction, recordCommand, takeRedo, takeUndo } from './history';
+import type { UndoCommand } from './types';
+
+const makeCommand = (label: string): UndoCommand => ({
+  label,
+  undo: jest.fn().mockResolvedValue(undefined),
+  redo: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('Undo History', () => {
+  describe('recordCommand', () => {
+    it('should push commands and clear the redo stack', () => {
+      const history = recordCommand(
+        { past: [], future: [makeCommand('first')] },
+        makeCommand('second')
+      );
+
+      expect(history.past.map((command) => command.label)).toEqual(['second']);
+      expect(history.future).toEqual([]);
+    });
+
+    it('should drop the oldest commands beyond the limit', () => {
+      let history = createHistory();
+      for (const label of ['a', 'b', 'c']) {
+        history = recordCommand(history, makeCommand(label), 2);
+      }
+
+      expect(history.past.map((command) => command.label)).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('takeUndo and takeRedo', () => {
+    it('should move commands between the stacks', () => {
+      const command = makeCommand('edit');
+      const history = recordCommand(createHistory(), command);
+
+      const undone = takeUndo(history);
+      expect(undone?.command).toBe(command);
+      expect(undone?.history).toEqual({ past: [], future: [command] });
+
+      const redone = takeRedo({ past: [], future: [command] });
+      expect(redone?.command).toBe(command);
+      expect(redone?.history).toEqual({ past: [command], future: [] });
+    });
+
+    it('should return null when there is nothing to undo or redo', () => {
+      expect(takeUndo(createHistory())).toBeNull();
+      expect(takeRedo(createHistory())).toBeNull();
+    });
+  });
+
+  describe('getUndoShortcutAction', () => {
+    const press = (init: KeyboardEventInit, target?: HTMLElement) => {
+      const event = new KeyboardEvent('keydown', init);
+      if (target) {
+        Object.defineProperty(event, 'target', { value: target });
+      }
+      return getUndoShortcutAction(event);
+    };
+
+    it('should map Ctrl+Z to undo and Ctrl+Shift+Z or Ctrl+Y to redo', () => {
+      expect(press({ key: 'z', ctrlKey: true })).toBe('undo');
+      expect(press({ key: 'z', metaKey: true })).toBe('undo');
+      expect(press({ key: 'Z', ctrlKey: true, shiftKey: true })).toBe('redo');
+      expect(press({ key: 'y', ctrlKey: true })).toBe('redo');
+      expect(press({ key: 'z' })).toBeNull();
+    });
+
+    it('should leave shortcuts in text fields to the browser', () => {
+      expect(press({ key: 'z', ctrlKey: true }, document.createElement('input'))).toBeNull();
+      expect(press({ key: 'z', ctrlKey: true }, document.createElement('textarea'))).toBeNull();
+      expect(press({ key: 'z', ctrlKey: true }, document.createElement('div'))).toBe('undo');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Undo History
+ *
+ * Immutable helpers for the undo and redo stacks, and the keyboard
+ * shortcuts that drive them.
+ */
+
+import { matchesShortcut } from '@/lib/accessibility/keyboard';
+import type { UndoAction, UndoCommand, UndoHistory } from './types';
+
+/**
+ * Maximum number of commands kept on the undo stack.
+ */
+export const MAX_UNDO_HISTORY = 50;
+
+/**
+ * Create empty undo and redo stacks.
+ */
+export function createHistory(): UndoHistory {
+  return { past: [], future: [] };
+}
+
+/**
+ * Record a new command. Anything that could be redone is dropped, since it
+ * no longer follows from the current state.
+ */
+export function recordCommand(
+  history: UndoHistory,
+  command: UndoCommand,
+  limit = MAX_UNDO_HISTORY
+): UndoHistory {
+  return { past: [...history.past, command].slice(-limit), future: [] };
+}
+
+/**
+ * Take the most recent command off the undo stack and move it to the redo stack.
+ *
+ * @returns The command to undo and the new history, or null if there is nothing to undo
+ */
+export function takeUndo(
+  history: UndoHistory
+): { command: UndoCommand; history: UndoHistory } | null {
+  const command = history.past[history.past.length - 1];
+  if (!command) {
+    return null;
+  }
+
+  return {
+    command,
+    history: { past: history.past.slice(0, -1), future: [...history.future, command] },
+  };
+}
+
+/**
+ * Take the most recently undone command off the redo stack and move it back
+ * to the undo stack.
+ *
+ * @returns The command to redo and the new history, or null if there is nothing to redo
+ */
+export function takeRedo(
+  history: UndoHistory
+): { command: UndoCommand; history: UndoHistory } | null {
+  const command = history.future[history.future.length - 1];
+  if (!command) {
+    return null;
+  }
+
+  return {
+    command,
+    history: { past: [...history.past, command], future: history.future.slice(0, -1) },
+  };
+}
+
+/**
+ * Check whether a keyboard event targets a text field, where the browser's
+ * own text undo should win.
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!target || !('tagName' in target)) {
+    return false;
+  }
+
+  const element = target as HTMLElement;
+  return (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.tagName === 'SELECT' ||
+    element.isContentEditable
+  );
+}
+
+/**
+ * Get the undo action for a keyboard event: Ctrl+Z undoes, Ctrl+Shift+Z and
+ * Ctrl+Y redo (Cmd on macOS).
+ *
+ * @returns The action, or null if the event is not an undo shortcut
+ */
+export function getUndoShortcutAction(event: KeyboardEvent): UndoAction | null {
+  if (isEditableTarget(event.target)) {
+    return null;
+  }
+
+  if (matchesShortcut(event, 'ctrl+shift+z') || matchesShortcut(event, 'ctrl+y')) {
+    return 'redo';
+  }
+  if (matchesShortcut(event, 'ctrl+z') && !event.shiftKey) {
+    return 'undo';
+  }
+
+  return null;
+}
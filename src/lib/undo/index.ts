@@ -0,0 +1,9 @@
+/**
+ * Undo Module
+ *
+ * Client-side undo and redo of task mutations.
+ */
+
+export * from './types';
+export * from './history';
+export * from './tasks';
@@ -0,0 +1,75 @@
+/**
+ * Task Undo Helper Tests
+ */
+
+import type { TaskDto } from '@/lib/tasks/types';
+import { getInverseUpdates } from './tasks';
+
+describe('Task Undo Helpers', () => {
+  const makeTask = (overrides: Partial<TaskDto> = {}): TaskDto => ({
+    id: 'task-1',
+    title: 'Write report',
+    description: null,
+    status: 'TODO',
+    priority: 'MEDIUM',
+    dueDate: new Date(2026, 4, 1, 9, 0),
+    startDate: null,
+    completedAt: null,
+    estimatedTime: null,
+    spentTime: null,
+    recurrenceRule: null,
+    recurrenceId: null,
+    recurrenceDate: null,
+    sortOrder: 3,
+    createdAt: new Date(2026, 3, 1),
+    updatedAt: new Date(2026, 3, 1),
+    archivedAt: null,
+    listId: 'list-1',
+    parentId: null,
+    goalId: null,
+    tags: [{ id: 'tag-1', name: 'work', color: null }],
+    ...overrides,
+  });
+
+  describe('getInverseUpdates', () => {
+    it('should restore the previous values of changed fields', () => {
+      const task = makeTask();
+
+      expect(getInverseUpdates(task, { title: 'Draft', listId: 'list-2', tags: [] })).toEqual({
+        title: 'Write report',
+        listId: 'list-1',
+        tags: [{ id: 'tag-1' }],
+      });
+    });
+
+    it('should restore the completion time along with the status', () => {
+      const completedAt = new Date(2026, 4, 2);
+      const task = makeTask({ status: 'DONE', completedAt });
+
+      expect(getInverseUpdates(task, { status: 'TODO' })).toEqual({
+        status: 'DONE',
+        completedAt,
+      });
+    });
+
+    it('should revert a time change through its date', () => {
+      const task = makeTask();
+
+      expect(getInverseUpdates(task, { dueDate: null, dueTime: undefined })).toEqual({
+        dueDate: task.dueDate,
+      });
+      expect(getInverseUpdates(task, { dueTime: '10:00' })).toEqual({ dueDate: task.dueDate });
+    });
+
+    it('should ignore update options', () => {
+      expect(getInverseUpdates(makeTask(), { status: 'DONE', force: true })).toEqual({
+        status: 'TODO',
+        completedAt: null,
+      });
+    });
+
+    it('should return null when a field cannot be reverted', () => {
+      expect(getInverseUpdates(makeTask(), { title: 'Draft', scope: 'all' })).toBeNull();
+    });
+  });
+});
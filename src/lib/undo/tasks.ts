@@ -0,0 +1,70 @@
+/**
+ * Task Undo Helpers
+ *
+ * Build the inverse of task updates from the task state before the change.
+ */
+
+import type { TaskDto } from '@/lib/tasks/types';
+
+/**
+ * Task fields an update can be reverted for, mapped to the field holding
+ * their previous value. Times are stored as part of their date.
+ */
+const REVERTIBLE_FIELDS: Record<string, keyof TaskDto> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  dueDate: 'dueDate',
+  dueTime: 'dueDate',
+  startDate: 'startDate',
+  startTime: 'startDate',
+  completedAt: 'completedAt',
+  estimatedTime: 'estimatedTime',
+  spentTime: 'spentTime',
+  recurrenceRule: 'recurrenceRule',
+  listId: 'listId',
+  parentId: 'parentId',
+  goalId: 'goalId',
+  sortOrder: 'sortOrder',
+  tags: 'tags',
+};
+
+/**
+ * Options sent along with an update that change nothing themselves.
+ */
+const UPDATE_OPTIONS = new Set(['force']);
+
+/**
+ * Get the update that reverts `updates` on a task.
+ *
+ * @param task - Task before the update
+ * @param updates - Fields that were changed
+ * @returns Update restoring the previous values, or null if a changed field cannot be reverted
+ */
+export function getInverseUpdates(
+  task: TaskDto,
+  updates: Record<string, unknown>
+): Record<string, unknown> | null {
+  const inverse: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined || UPDATE_OPTIONS.has(key)) {
+      continue;
+    }
+
+    const field = REVERTIBLE_FIELDS[key];
+    if (!field) {
+      return null;
+    }
+
+    inverse[field] = field === 'tags' ? task.tags.map((tag) => ({ id: tag.id })) : task[field];
+  }
+
+  // Status changes set or clear the completion time; put the old one back
+  if ('status' in inverse) {
+    inverse.completedAt = task.completedAt;
+  }
+
+  return inverse;
+}
@@ -0,0 +1,31 @@
+/**
+ * Undo Type Definitions
+ *
+ * Mutations are recorded on the client as commands holding both directions
+ * of the change, so they can be undone and redone without server support.
+ */
+
+/**
+ * A recorded, reversible mutation.
+ */
+export interface UndoCommand {
+  /** Short description shown in the toast, e.g. `Delete "Buy milk"` */
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  /** Offer an Undo action in a toast right after the command runs */
+  destructive?: boolean;
+}
+
+/**
+ * Undo and redo stacks, most recent command last.
+ */
+export interface UndoHistory {
+  past: UndoCommand[];
+  future: UndoCommand[];
+}
+
+/**
+ * Undo direction triggered by a keyboard shortcut.
+ */
+export type UndoAction = 'undo' | 'redo';
@@ -9,3 +9,4 @@ export * from './cn';
 export * from './date';
 export * from './timezone';
 export * from './validation';
+export * from './virtual';
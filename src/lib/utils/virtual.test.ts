@@ -0,0 +1,57 @@
+/**
+ * Virtual List Utilities Tests
+ */
+
+import { getVirtualRange } from './virtual';
+
+describe('getVirtualRange', () => {
+  const sizes = Array.from({ length: 100 }, () => 50);
+
+  it('should return the rows in the viewport with overscan', () => {
+    const range = getVirtualRange(sizes, 1000, 1200, { overscan: 2 });
+
+    // Rows 20-23 are visible
+    expect(range).toEqual({
+      startIndex: 18,
+      endIndex: 25,
+      paddingTop: 900,
+      paddingBottom: 3700,
+      totalSize: 5000,
+    });
+  });
+
+  it('should account for the gap between rows', () => {
+    const range = getVirtualRange([40, 40, 40, 40], 50, 60, { gap: 10, overscan: 0 });
+
+    expect(range).toEqual({
+      startIndex: 1,
+      endIndex: 1,
+      paddingTop: 50,
+      paddingBottom: 100,
+      totalSize: 190,
+    });
+  });
+
+  it('should clamp the range to the list', () => {
+    expect(getVirtualRange(sizes, -300, 100, { overscan: 5 })).toMatchObject({
+      startIndex: 0,
+      endIndex: 6,
+      paddingTop: 0,
+    });
+    expect(getVirtualRange(sizes, 4900, 6000, { overscan: 5 })).toMatchObject({
+      startIndex: 93,
+      endIndex: 99,
+      paddingBottom: 0,
+    });
+  });
+
+  it('should handle an empty list', () => {
+    expect(getVirtualRange([], 0, 500)).toEqual({
+      startIndex: 0,
+      endIndex: -1,
+      paddingTop: 0,
+      paddingBottom: 0,
+      totalSize: 0,
+    });
+  });
+});
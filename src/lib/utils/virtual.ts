@@ -0,0 +1,80 @@
+/**
+ * Virtual list utilities.
+ * Work out which rows of a long list are on screen, so only those are rendered.
+ */
+
+/**
+ * Rows to render and the space taken by the rows around them.
+ */
+export interface VirtualRange {
+  /** First row to render */
+  startIndex: number;
+  /** Last row to render (inclusive); -1 for an empty list */
+  endIndex: number;
+  /** Space before the first rendered row */
+  paddingTop: number;
+  /** Space after the last rendered row */
+  paddingBottom: number;
+  /** Height of the whole list */
+  totalSize: number;
+}
+
+/**
+ * Get the rows overlapping a viewport, plus `overscan` rows on either side.
+ *
+ * @param sizes - Row heights
+ * @param viewportStart - Top of the viewport, relative to the top of the list
+ * @param viewportEnd - Bottom of the viewport, relative to the top of the list
+ * @param options - Space between rows and number of extra rows to render
+ * @returns Range of rows to render
+ */
+export function getVirtualRange(
+  sizes: number[],
+  viewportStart: number,
+  viewportEnd: number,
+  options: { gap?: number; overscan?: number } = {}
+): VirtualRange {
+  const { gap = 0, overscan = 5 } = options;
+
+  if (sizes.length === 0) {
+    return { startIndex: 0, endIndex: -1, paddingTop: 0, paddingBottom: 0, totalSize: 0 };
+  }
+
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const size of sizes) {
+    offsets.push(offset);
+    offset += size + gap;
+  }
+  const totalSize = offset - gap;
+
+  // First row ending below the top of the viewport
+  let low = 0;
+  let high = sizes.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (offsets[mid] + sizes[mid] <= viewportStart) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  const first = low;
+
+  // Last row starting above the bottom of the viewport
+  let last = first;
+  while (last < sizes.length - 1 && offsets[last + 1] < viewportEnd) {
+    last++;
+  }
+
+  const startIndex = Math.max(0, first - overscan);
+  const endIndex = Math.min(sizes.length - 1, last + overscan);
+
+  return {
+    startIndex,
+    endIndex,
+    paddingTop: offsets[startIndex],
+    paddingBottom: totalSize - (offsets[endIndex] + sizes[endIndex]),
+    totalSize,
+  };
+}